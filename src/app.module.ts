@@ -1,12 +1,23 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule, TypeOrmModuleOptions } from '@nestjs/typeorm';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { UsersModule } from './users/users.module';
 import { WorkoutDaysModule } from './workout-days/workout-days.module';
-import { UserEntity } from './users/entities/user.entity';
-import { WorkoutDayEntity } from './workout-days/entities/workout-day.entity';
+import { AuthModule } from './auth/auth.module';
+import { NutritionModule } from './nutrition/nutrition.module';
+import { BodyMeasurementsModule } from './body-measurements/body-measurements.module';
+import { ExercisesModule } from './exercises/exercises.module';
+import { WorkoutTypesModule } from './workout-types/workout-types.module';
+import { WorkoutSessionsModule } from './workout-sessions/workout-sessions.module';
+import { TrainingProgramsModule } from './training-programs/training-programs.module';
+import { CoachingModule } from './coaching/coaching.module';
+import { CommonModule } from './common/common.module';
+import { LoggingModule } from './logging/logging.module';
+import { I18nModule } from './i18n/i18n.module';
+import { assertMigrationsAvailable, buildDataSourceOptions } from './database/database.config';
 
 @Module({
   imports: [
@@ -15,43 +26,32 @@ import { WorkoutDayEntity } from './workout-days/entities/workout-day.entity';
       envFilePath: '.env', // 📄 Especifica el archivo de variables
     }),
 
-    // 🗄️ Configuración escalable de TypeORM (lee todo del .env)
+    ScheduleModule.forRoot(), // ⏰ Tareas programadas (limpieza de tokens expirados)
+
+    // 🗄️ Configuración escalable de TypeORM (lee todo del .env, compartida con el CLI de migraciones)
     TypeOrmModule.forRootAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService): TypeOrmModuleOptions => {
-        const dbType = configService.get<string>('DB_TYPE') || 'sqlite';
-
-        const baseConfig = {
-          synchronize: configService.get('DB_SYNCHRONIZE') === 'true',
-          logging: configService.get('DB_LOGGING') === 'true',
-          entities: [UserEntity, WorkoutDayEntity],
-        };
-
-        // Para SQLite solo necesitamos el archivo de base de datos
-        if (dbType === 'sqlite') {
-          return {
-            type: 'sqlite',
-            database: configService.get<string>('DB_DATABASE') || './nutri-fit.db',
-            ...baseConfig,
-          };
-        } else {
-          // Para otras BD (PostgreSQL, MySQL, MariaDB) necesitamos conexión de red
-          return {
-            type: dbType as 'postgres' | 'mysql' | 'mariadb',
-            host: configService.get<string>('DB_HOST') || 'localhost',
-            port: parseInt(configService.get<string>('DB_PORT') as string),
-            username: configService.get<string>('DB_USERNAME'),
-            password: configService.get<string>('DB_PASSWORD'),
-            database: configService.get<string>('DB_DATABASE'),
-            ...baseConfig,
-          } as TypeOrmModuleOptions;
-        }
+        const options = buildDataSourceOptions((key) => configService.get<string>(key));
+        assertMigrationsAvailable(options); // 🧱 Sin migraciones para DB_TYPE no arranca (la BD quedaría sin tablas)
+        return options as TypeOrmModuleOptions;
       },
       inject: [ConfigService],
     }),
 
+    LoggingModule, // 📝 Importar el módulo de logging (logger JSON, X-Request-Id y log de acceso)
+    I18nModule, // 🌐 Importar el módulo de idiomas (mensajes en español o inglés según la petición)
+    CommonModule, // 🧰 Importar el módulo común (paginación compartida por los listados)
     UsersModule, // 📦 Importar el módulo completo de usuarios
     WorkoutDaysModule, // 🏋️ Importar el módulo completo de días de entrenamiento
+    AuthModule, // 🔐 Importar el módulo de autenticación (registra el guard JWT global)
+    NutritionModule, // 🥑 Importar el módulo de nutrición (alimentos y comidas registradas)
+    BodyMeasurementsModule, // 📏 Importar el módulo de mediciones corporales (peso y medidas)
+    ExercisesModule, // 💪 Importar el módulo del catálogo de ejercicios
+    WorkoutTypesModule, // 🎯 Importar el módulo del catálogo de tipos de entrenamiento
+    WorkoutSessionsModule, // ⏱️ Importar el módulo de sesiones de entrenamiento realizadas
+    TrainingProgramsModule, // 📆 Importar el módulo de programas de entrenamiento y calendario
+    CoachingModule, // 🤝 Importar el módulo de relaciones entrenador/nutricionista-cliente
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,64 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { JwtModule } from '@nestjs/jwt';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthController } from './controllers/auth.controller';
+import { AuthService } from './services/auth.service';
+import { AccessControlService } from './services/access-control.service';
+import { UserTokensService } from './services/user-tokens.service';
+import { EmailVerificationService } from './services/email-verification.service';
+import { PasswordService } from './services/password.service';
+import { RefreshTokenEntity } from './entities/refresh-token.entity';
+import { UserTokenEntity } from './entities/user-token.entity';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { UserEntity } from '../users/entities/user.entity';
+import { CoachingRelationshipEntity } from '../coaching/entities/coaching-relationship.entity';
+import { UsersModule } from '../users/users.module';
+import { MailModule } from '../mail/mail.module';
+
+/**
+ * 📦 Módulo de autenticación
+ * Agrupa toda la funcionalidad de identidad de los usuarios:
+ * - Controlador (registro, login, refresco y logout)
+ * - Servicio (validación de credenciales y emisión de tokens JWT)
+ * - Entities de tokens de refresco y de tokens de un solo uso (verificación de email, contraseña)
+ * - Guard global JWT (protege todos los endpoints salvo los @Public)
+ * - Guard global de roles y servicio de control de acceso (403 uniformes)
+ *
+ * Es global para que cualquier módulo pueda inyectar AccessControlService
+ * sin importar AuthModule (que a su vez depende de UsersModule).
+ */
+@Global()
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([UserEntity, RefreshTokenEntity, UserTokenEntity, CoachingRelationshipEntity]), // 🗄️ Registrar los repositorios necesarios
+    UsersModule, // 👤 Para crear usuarios y formatear respuestas
+    MailModule, // ✉️ Para enviar los correos de verificación
+
+    // 🔑 Configuración de JWT (lee el secreto y la expiración del .env)
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.getOrThrow<string>('JWT_SECRET'),
+        signOptions: {
+          expiresIn: parseInt(configService.get<string>('JWT_EXPIRES_IN') ?? '900'),
+        },
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [AuthController],
+  providers: [
+    AuthService,
+    AccessControlService,
+    UserTokensService,
+    EmailVerificationService,
+    PasswordService,
+    { provide: APP_GUARD, useClass: JwtAuthGuard }, // 🛡️ Guard global: todo requiere token salvo @Public
+    { provide: APP_GUARD, useClass: RolesGuard }, // 🎭 Se ejecuta después del guard JWT
+  ],
+  exports: [AuthService, AccessControlService, EmailVerificationService, PasswordService], // Exporta los servicios para ser usados en otros módulos
+})
+export class AuthModule {}
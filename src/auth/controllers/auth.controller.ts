@@ -0,0 +1,197 @@
+import { Controller, Post, Body, HttpStatus, HttpCode } from '@nestjs/common';
+import { RegisterDto, LoginDto, RefreshTokenDto, VerifyEmailDto, ResendVerificationDto, ForgotPasswordDto, ResetPasswordDto, AuthResponseDto, AccountResponseDto } from '../dto/auth.dto';
+import { AuthService } from '../services/auth.service';
+import { Public } from '../decorators/public.decorator';
+import { I18nService } from '../../i18n/services/i18n.service';
+
+/**
+ * 🔐 Controlador de autenticación - Endpoints de la API REST
+ *
+ * Este controlador expone el registro, la verificación de email,
+ * el inicio de sesión y la gestión de tokens. Todos sus endpoints son públicos (no requieren token de acceso).
+ *
+ * @class AuthController
+ * @description Controlador REST para registro, login y tokens JWT
+ */
+@Public()
+@Controller('auth') // Prefijo de ruta: /auth
+export class AuthController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param authService - Servicio con la lógica de autenticación
+   * @param i18nService - Mensajes de respuesta en el idioma de la petición
+   */
+  constructor(
+    private readonly authService: AuthService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * 📝 Registrar un nuevo usuario (Status: 201 Created)
+   *
+   * Crea la cuenta con rol USER y status PENDING y envía el correo de verificación.
+   * No devuelve tokens: hay que verificar el email antes de iniciar sesión.
+   *
+   * @route POST /auth/register
+   * @body {RegisterDto} registerDto - Nombre, email y contraseña
+   * @returns {Promise<AccountResponseDto>} Mensaje y usuario creado
+   * @status 201 - Usuario registrado exitosamente (pendiente de verificación)
+   * @status 400 - Datos inválidos (validación de DTO)
+   * @status 409 - Email ya existe (conflicto)
+   *
+   * @example
+   * POST http://localhost:3000/auth/register
+   * Body: { "name": "Pedro Silva", "email": "pedro@email.com", "password": "secreto123" }
+   * Response: { message: "✅ Usuario registrado. Revisa tu correo...", user: { id: 5, status: "pending", ... } }
+   */
+  @Post('register')
+  @HttpCode(HttpStatus.CREATED)
+  async register(@Body() registerDto: RegisterDto): Promise<AccountResponseDto> {
+    return await this.authService.register(registerDto);
+  }
+
+  /**
+   * ✅ Verificar email (Status: 200 OK)
+   *
+   * Consume el token enviado por correo y activa la cuenta (PENDING → ACTIVE).
+   *
+   * @route POST /auth/verify-email
+   * @body {VerifyEmailDto} verifyEmailDto - Token de verificación
+   * @returns {Promise<AccountResponseDto>} Mensaje y usuario activado
+   * @status 200 - Email verificado
+   * @status 400 - Token inválido, expirado o ya usado
+   *
+   * @example
+   * POST http://localhost:3000/auth/verify-email
+   * Body: { "token": "3f9a..." }
+   */
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto): Promise<AccountResponseDto> {
+    return await this.authService.verifyEmail(verifyEmailDto);
+  }
+
+  /**
+   * 🔁 Reenviar correo de verificación (Status: 200 OK)
+   *
+   * Responde lo mismo exista o no la cuenta. Limitado por tiempo de espera
+   * entre envíos y máximo de envíos por hora: los reenvíos que superan el
+   * límite se descartan con la misma respuesta.
+   *
+   * @route POST /auth/resend-verification
+   * @body {ResendVerificationDto} resendVerificationDto - Email de la cuenta
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Solicitud procesada (siempre, para no revelar qué cuentas existen)
+   *
+   * @example
+   * POST http://localhost:3000/auth/resend-verification
+   * Body: { "email": "pedro@email.com" }
+   */
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  async resendVerification(@Body() resendVerificationDto: ResendVerificationDto): Promise<{ message: string }> {
+    await this.authService.resendVerification(resendVerificationDto);
+    return { message: this.i18nService.translate('verificationEmailResent') };
+  }
+
+  /**
+   * 🔑 Solicitar restablecimiento de contraseña (Status: 200 OK)
+   *
+   * Envía un token de un solo uso por correo. Responde lo mismo
+   * exista o no la cuenta, para no revelar qué emails están registrados.
+   *
+   * @route POST /auth/forgot-password
+   * @body {ForgotPasswordDto} forgotPasswordDto - Email de la cuenta
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Solicitud procesada
+   *
+   * @example
+   * POST http://localhost:3000/auth/forgot-password
+   * Body: { "email": "pedro@email.com" }
+   */
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto): Promise<{ message: string }> {
+    await this.authService.forgotPassword(forgotPasswordDto);
+    return { message: this.i18nService.translate('passwordResetRequested') };
+  }
+
+  /**
+   * 🔁 Restablecer contraseña (Status: 200 OK)
+   *
+   * Consume el token enviado por correo y cierra todas las sesiones abiertas.
+   *
+   * @route POST /auth/reset-password
+   * @body {ResetPasswordDto} resetPasswordDto - Token y nueva contraseña
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Contraseña restablecida
+   * @status 400 - Token inválido, expirado o ya usado, o contraseña inválida
+   *
+   * @example
+   * POST http://localhost:3000/auth/reset-password
+   * Body: { "token": "3f9a...", "newPassword": "nuevoSecreto123" }
+   */
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto): Promise<{ message: string }> {
+    await this.authService.resetPassword(resetPasswordDto);
+    return { message: this.i18nService.translate('passwordReset') };
+  }
+
+  /**
+   * 🔑 Iniciar sesión (Status: 200 OK)
+   *
+   * @route POST /auth/login
+   * @body {LoginDto} loginDto - Email y contraseña
+   * @returns {Promise<AuthResponseDto>} Tokens y usuario autenticado
+   * @status 200 - Sesión iniciada
+   * @status 401 - Credenciales incorrectas
+   * @status 403 - Usuario suspendido, baneado o pendiente de activación
+   *
+   * @example
+   * POST http://localhost:3000/auth/login
+   * Body: { "email": "pedro@email.com", "password": "secreto123" }
+   */
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
+    return await this.authService.login(loginDto);
+  }
+
+  /**
+   * 🔄 Renovar tokens (Status: 200 OK)
+   *
+   * El token de refresco usado queda revocado (rotación).
+   *
+   * @route POST /auth/refresh
+   * @body {RefreshTokenDto} refreshTokenDto - Token de refresco vigente
+   * @returns {Promise<AuthResponseDto>} Nuevo par de tokens
+   * @status 200 - Tokens renovados
+   * @status 401 - Token de refresco inválido, expirado o revocado
+   *
+   * @example
+   * POST http://localhost:3000/auth/refresh
+   * Body: { "refreshToken": "eyJ..." }
+   */
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto): Promise<AuthResponseDto> {
+    return await this.authService.refresh(refreshTokenDto);
+  }
+
+  /**
+   * 🚪 Cerrar sesión (Status: 200 OK)
+   *
+   * @route POST /auth/logout
+   * @body {RefreshTokenDto} refreshTokenDto - Token de refresco a revocar
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Sesión cerrada
+   * @status 401 - Token de refresco inválido, expirado o revocado
+   */
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  async logout(@Body() refreshTokenDto: RefreshTokenDto): Promise<{ message: string }> {
+    await this.authService.logout(refreshTokenDto);
+    return { message: this.i18nService.translate('loggedOut') };
+  }
+}
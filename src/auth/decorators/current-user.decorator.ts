@@ -0,0 +1,16 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedRequest } from '../interfaces/auth.interface';
+import { UserEntity } from '../../users/entities/user.entity';
+
+/**
+ * 👤 Decorador de parámetro para obtener el usuario autenticado
+ * El usuario lo adjunta JwtAuthGuard a la request después de validar el token
+ *
+ * @example
+ * @Get('me')
+ * async getProfile(@CurrentUser() user: UserEntity) { ... }
+ */
+export const CurrentUser = createParamDecorator((_data: unknown, context: ExecutionContext): UserEntity => {
+  const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+  return request.user;
+});
@@ -0,0 +1,17 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * 🔑 Clave de metadatos usada por JwtAuthGuard para saltarse la autenticación
+ */
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * 🌍 Decorador para marcar un endpoint (o controlador) como público
+ * Los endpoints públicos no requieren token de acceso
+ *
+ * @example
+ * @Public()
+ * @Post('login')
+ * async login(@Body() loginDto: LoginDto) { ... }
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
@@ -0,0 +1,18 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '../../users/interfaces/user.interface';
+
+/**
+ * 🔑 Clave de metadatos usada por RolesGuard para leer los roles permitidos
+ */
+export const ROLES_KEY = 'roles';
+
+/**
+ * 🎭 Decorador para restringir un endpoint (o controlador) a ciertos roles
+ * Si no se usa, cualquier usuario autenticado puede acceder
+ *
+ * @example
+ * @Roles(UserRole.ADMIN)
+ * @Post()
+ * async createUser(@Body() createUserDto: CreateUserDto) { ... }
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,119 @@
+import { IsString, IsEmail, IsNotEmpty, MinLength, MaxLength } from 'class-validator';
+import { UserResponseDto } from '../../users/dto/user.dto';
+
+/**
+ * 📝 DTO para registrar un nuevo usuario con validaciones automáticas
+ * Los usuarios registrados por sí mismos siempre obtienen el rol USER
+ */
+export class RegisterDto {
+  @IsString({ message: 'El nombre debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El nombre es obligatorio' })
+  name: string; // 📛 Nombre (obligatorio, string no vacío)
+
+  @IsEmail({}, { message: 'Debe ser un email válido' })
+  @IsNotEmpty({ message: 'El email es obligatorio' })
+  email: string; // 📧 Email (obligatorio, formato válido)
+
+  @IsString({ message: 'La contraseña debe ser una cadena de texto' })
+  @MinLength(8, { message: 'La contraseña debe tener al menos 8 caracteres' })
+  @MaxLength(72, { message: 'La contraseña debe tener como máximo 72 caracteres' })
+  password: string; // 🔒 Contraseña (obligatorio, 8-72 caracteres)
+}
+
+/**
+ * 🔑 DTO para iniciar sesión con email y contraseña
+ */
+export class LoginDto {
+  @IsEmail({}, { message: 'Debe ser un email válido' })
+  @IsNotEmpty({ message: 'El email es obligatorio' })
+  email: string; // 📧 Email (obligatorio)
+
+  @IsString({ message: 'La contraseña debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'La contraseña es obligatoria' })
+  password: string; // 🔒 Contraseña (obligatorio)
+}
+
+/**
+ * 🔄 DTO para renovar tokens o cerrar sesión con un token de refresco
+ */
+export class RefreshTokenDto {
+  @IsString({ message: 'El token de refresco debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El token de refresco es obligatorio' })
+  refreshToken: string; // 🔄 Token de refresco (obligatorio)
+}
+
+/**
+ * ✅ DTO para verificar el email con el token recibido por correo
+ */
+export class VerifyEmailDto {
+  @IsString({ message: 'El token debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El token es obligatorio' })
+  token: string; // 🎟️ Token de verificación (obligatorio)
+}
+
+/**
+ * 🔁 DTO para solicitar el reenvío del correo de verificación
+ */
+export class ResendVerificationDto {
+  @IsEmail({}, { message: 'Debe ser un email válido' })
+  @IsNotEmpty({ message: 'El email es obligatorio' })
+  email: string; // 📧 Email de la cuenta pendiente (obligatorio)
+}
+
+/**
+ * 🔑 DTO para solicitar el restablecimiento de contraseña
+ */
+export class ForgotPasswordDto {
+  @IsEmail({}, { message: 'Debe ser un email válido' })
+  @IsNotEmpty({ message: 'El email es obligatorio' })
+  email: string; // 📧 Email de la cuenta (obligatorio)
+}
+
+/**
+ * 🔁 DTO para restablecer la contraseña con el token recibido por correo
+ */
+export class ResetPasswordDto {
+  @IsString({ message: 'El token debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El token es obligatorio' })
+  token: string; // 🎟️ Token de restablecimiento (obligatorio)
+
+  @IsString({ message: 'La contraseña debe ser una cadena de texto' })
+  @MinLength(8, { message: 'La contraseña debe tener al menos 8 caracteres' })
+  @MaxLength(72, { message: 'La contraseña debe tener como máximo 72 caracteres' })
+  newPassword: string; // 🔒 Nueva contraseña (obligatorio, 8-72 caracteres)
+}
+
+/**
+ * 🔒 DTO para cambiar la contraseña conociendo la actual
+ */
+export class ChangePasswordDto {
+  @IsString({ message: 'La contraseña actual debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'La contraseña actual es obligatoria' })
+  currentPassword: string; // 🔑 Contraseña actual (obligatorio)
+
+  @IsString({ message: 'La contraseña debe ser una cadena de texto' })
+  @MinLength(8, { message: 'La contraseña debe tener al menos 8 caracteres' })
+  @MaxLength(72, { message: 'La contraseña debe tener como máximo 72 caracteres' })
+  newPassword: string; // 🔒 Nueva contraseña (obligatorio, 8-72 caracteres)
+}
+
+/**
+ * 📤 DTO de respuesta para el registro y la verificación de email
+ * El registro no emite tokens: la cuenta queda pendiente de verificación
+ */
+export class AccountResponseDto {
+  message: string; // 💬 Mensaje de confirmación
+  user: UserResponseDto; // 👤 Usuario registrado o verificado
+}
+
+/**
+ * 📤 DTO de respuesta para login y refresco
+ * Incluye el par de tokens y el usuario autenticado
+ */
+export class AuthResponseDto {
+  accessToken: string; // 🔑 Token de acceso (Bearer)
+  refreshToken: string; // 🔄 Token de refresco
+  tokenType: 'Bearer'; // 🎫 Tipo de token para el header Authorization
+  expiresIn: number; // ⏱️ Segundos de validez del token de acceso
+  user: UserResponseDto; // 👤 Usuario autenticado
+}
@@ -0,0 +1,71 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+
+/**
+ * 🔄 Entity de Token de Refresco - Compatible con TypeORM
+ * Guarda el hash de cada token de refresco emitido para poder revocarlo
+ * Nunca se almacena el token en texto plano
+ */
+@Entity('refresh_tokens') // 📋 Nombre de la tabla en la BD
+export class RefreshTokenEntity {
+  /**
+   * 🆔 Identificador único del token
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 🔒 Hash SHA-256 del token de refresco
+   * Campo único, permite localizar el token sin guardarlo en claro
+   */
+  @Column({ type: 'varchar', length: 64, unique: true })
+  tokenHash: string;
+
+  /**
+   * ⏰ Fecha de expiración del token
+   */
+  @Column()
+  expiresAt: Date;
+
+  /**
+   * 🚫 Fecha de revocación (opcional)
+   * Si tiene valor, el token ya no puede usarse
+   */
+  @Column({ nullable: true })
+  revokedAt?: Date;
+
+  /**
+   * 👤 Relación con el usuario propietario
+   * Un token de refresco pertenece a un usuario (Many-to-One)
+   */
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: UserEntity;
+
+  /**
+   * 🔗 ID del usuario propietario (clave foránea)
+   */
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  /**
+   * 📅 Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * 🔍 Método para verificar si el token sigue siendo utilizable
+   */
+  isUsable(): boolean {
+    return !this.revokedAt && this.expiresAt.getTime() > Date.now();
+  }
+
+  /**
+   * 🚫 Método para revocar el token
+   */
+  revoke(): void {
+    this.revokedAt = new Date();
+  }
+}
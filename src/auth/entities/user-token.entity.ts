@@ -0,0 +1,73 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserTokenType } from '../interfaces/auth.interface';
+
+/**
+ * 🎟️ Entity de Token de Usuario - Compatible con TypeORM
+ * Tokens de un solo uso y con expiración que se envían por correo
+ * (verificación de email, etc.). Solo se guarda su hash SHA-256.
+ */
+@Entity('user_tokens') // 📋 Nombre de la tabla en la BD
+export class UserTokenEntity {
+  /**
+   * 🆔 Identificador único del token
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 🏷️ Propósito del token
+   * Evita que un token emitido para una acción se use en otra
+   */
+  @Column({ type: 'varchar', enum: UserTokenType })
+  type: UserTokenType;
+
+  /**
+   * 🔒 Hash SHA-256 del token
+   * Campo único, el token en claro solo viaja en el correo
+   */
+  @Column({ type: 'varchar', length: 64, unique: true })
+  tokenHash: string;
+
+  /**
+   * ⏰ Fecha de expiración del token
+   */
+  @Column()
+  expiresAt: Date;
+
+  /**
+   * ✅ Fecha en que se usó el token (opcional)
+   * Si tiene valor, el token ya fue consumido y no puede reutilizarse
+   */
+  @Column({ nullable: true })
+  usedAt?: Date;
+
+  /**
+   * 👤 Relación con el usuario propietario
+   * Un token pertenece a un usuario (Many-to-One)
+   */
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: UserEntity;
+
+  /**
+   * 🔗 ID del usuario propietario (clave foránea)
+   */
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  /**
+   * 📅 Fecha de creación del registro
+   * También se usa para limitar los reenvíos
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * 🔍 Método para verificar si el token sigue siendo utilizable
+   */
+  isUsable(): boolean {
+    return !this.usedAt && this.expiresAt.getTime() > Date.now();
+  }
+}
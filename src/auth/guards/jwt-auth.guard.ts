@@ -0,0 +1,101 @@
+import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { AuthenticatedRequest, JwtPayload, TokenType } from '../interfaces/auth.interface';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+import { RequestContextService } from '../../logging/services/request-context.service';
+
+/**
+ * 🛡️ Guard global de autenticación JWT
+ *
+ * Se registra como APP_GUARD, por lo que protege todos los endpoints
+ * excepto los marcados con @Public(). Valida el token de acceso del header
+ * `Authorization: Bearer <token>` y adjunta el usuario a la request.
+ * Si el usuario tiene un idioma preferido, pasa a ser el de la petición.
+ *
+ * @class JwtAuthGuard
+ * @description Rechaza peticiones sin token válido o de usuarios no activos
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  /**
+   * Constructor del guard
+   * @param reflector - Lector de metadatos (para @Public)
+   * @param jwtService - Servicio para verificar los tokens
+   * @param userRepository - Repositorio para cargar el usuario del token
+   * @param requestContextService - Para fijar el idioma preferido del usuario en la petición
+   */
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly jwtService: JwtService,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    private readonly requestContextService: RequestContextService,
+  ) {}
+
+  /**
+   * 🔍 Decide si la petición puede continuar
+   *
+   * @param {ExecutionContext} context - Contexto de ejecución de Nest
+   * @returns {Promise<boolean>} true si el endpoint es público o el token es válido
+   * @throws {UnauthorizedException} Si falta el token, es inválido o el usuario no está activo
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [context.getHandler(), context.getClass()]);
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const token = this.extractBearerToken(request);
+
+    if (!token) {
+      throw new UnauthorizedException({ code: ErrorCode.AUTH_TOKEN_REQUIRED, message: 'Token de acceso requerido' });
+    }
+
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+    } catch {
+      throw new UnauthorizedException({ code: ErrorCode.AUTH_TOKEN_INVALID, message: 'Token de acceso inválido o expirado' });
+    }
+
+    if (payload.type !== TokenType.ACCESS) {
+      throw new UnauthorizedException({ code: ErrorCode.AUTH_TOKEN_INVALID, message: 'Token de acceso inválido o expirado' });
+    }
+
+    // Cargar el usuario desde la BD para tener siempre su rol y estado actuales
+    const user = await this.userRepository.findOne({
+      where: { id: payload.sub },
+    });
+
+    if (!user || !user.isUserActive()) {
+      throw new UnauthorizedException({ code: ErrorCode.AUTH_USER_INACTIVE, message: 'El usuario del token no existe o no está activo' });
+    }
+
+    request.user = user;
+
+    // 🌐 La preferencia guardada del usuario tiene prioridad sobre Accept-Language
+    if (user.locale) {
+      this.requestContextService.setLocale(user.locale);
+    }
+
+    return true;
+  }
+
+  /**
+   * 🎫 Método privado para extraer el token del header Authorization
+   *
+   * @param {AuthenticatedRequest} request - Request de Express
+   * @returns {string | undefined} El token si el header tiene formato "Bearer <token>"
+   * @private
+   */
+  private extractBearerToken(request: AuthenticatedRequest): string | undefined {
+    const [scheme, token] = request.headers.authorization?.split(' ') ?? [];
+    return scheme === 'Bearer' ? token : undefined;
+  }
+}
@@ -0,0 +1,65 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '../../users/interfaces/user.interface';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { AuthenticatedRequest } from '../interfaces/auth.interface';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 📖 Métodos HTTP que no modifican datos (permitidos para invitados)
+ */
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * 🎭 Guard global de autorización por roles
+ *
+ * Se registra como APP_GUARD después de JwtAuthGuard, por lo que siempre
+ * encuentra al usuario autenticado en la request. Aplica dos reglas:
+ * 1. Los usuarios GUEST solo pueden hacer peticiones de lectura
+ * 2. Si el endpoint usa @Roles(), el rol del usuario debe estar en la lista
+ *
+ * @class RolesGuard
+ * @description Rechaza con 403 las peticiones que el rol del usuario no permite
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  /**
+   * Constructor del guard
+   * @param reflector - Lector de metadatos (para @Public y @Roles)
+   */
+  constructor(private readonly reflector: Reflector) {}
+
+  /**
+   * 🔍 Decide si el rol del usuario permite continuar
+   *
+   * @param {ExecutionContext} context - Contexto de ejecución de Nest
+   * @returns {boolean} true si el endpoint es público o el rol está permitido
+   * @throws {ForbiddenException} Si el rol del usuario no tiene permiso
+   */
+  canActivate(context: ExecutionContext): boolean {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [context.getHandler(), context.getClass()]);
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const user = request.user;
+
+    // Los invitados tienen acceso de solo lectura en toda la API
+    if (user.role === UserRole.GUEST && !READ_ONLY_METHODS.includes(request.method)) {
+      throw new ForbiddenException({ code: ErrorCode.GUEST_READ_ONLY, message: 'Los usuarios invitados solo tienen acceso de lectura' });
+    }
+
+    const requiredRoles = this.reflector.getAllAndOverride<UserRole[] | undefined>(ROLES_KEY, [context.getHandler(), context.getClass()]);
+    if (!requiredRoles || requiredRoles.length === 0) {
+      return true;
+    }
+
+    if (!requiredRoles.includes(user.role)) {
+      throw new ForbiddenException({ code: ErrorCode.INSUFFICIENT_ROLE, message: 'No tienes permisos para realizar esta acción' });
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,39 @@
+import type { Request } from 'express';
+import { UserRole } from '../../users/interfaces/user.interface';
+import { UserEntity } from '../../users/entities/user.entity';
+
+/**
+ * 🎫 Tipos de token emitidos por el módulo de autenticación
+ * Permite distinguir un token de acceso de uno de refresco al verificarlo
+ */
+export enum TokenType {
+  ACCESS = 'access', // 🔑 Token de acceso (vida corta)
+  REFRESH = 'refresh', // 🔄 Token de refresco (vida larga)
+}
+
+/**
+ * 🎟️ Tipos de token de un solo uso enviados por correo
+ * Se guardan en la tabla user_tokens (siempre hasheados)
+ */
+export enum UserTokenType {
+  EMAIL_VERIFICATION = 'email_verification', // ✉️ Verificación de email (PENDING → ACTIVE)
+  PASSWORD_RESET = 'password_reset', // 🔑 Restablecimiento de contraseña
+}
+
+/**
+ * 📦 Contenido (payload) firmado dentro de cada JWT
+ */
+export interface JwtPayload {
+  sub: number; // 🆔 ID del usuario
+  email: string; // 📧 Email del usuario
+  role: UserRole; // 🎭 Rol del usuario al momento de emitir el token
+  type: TokenType; // 🎫 Tipo de token (access/refresh)
+  jti?: string; // 🔖 Identificador único (solo tokens de refresco)
+}
+
+/**
+ * 🌐 Request de Express con el usuario autenticado adjunto por el guard
+ */
+export interface AuthenticatedRequest extends Request {
+  user: UserEntity; // 👤 Usuario autenticado (cargado desde la BD)
+}
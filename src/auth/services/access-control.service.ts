@@ -0,0 +1,314 @@
+import { Injectable, ForbiddenException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { CoachingRelationshipEntity } from '../../coaching/entities/coaching-relationship.entity';
+import { CoachingType, CoachingStatus } from '../../coaching/interfaces/coaching-relationship.interface';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 🛂 Servicio de control de acceso - Reglas de propiedad de los recursos
+ *
+ * Complementa a RolesGuard: el guard decide por rol, este servicio decide
+ * sobre un recurso concreto (un perfil, los entrenamientos o la nutrición de un usuario).
+ * Todas las negativas lanzan ForbiddenException para que la API responda
+ * siempre 403 con el mismo formato de error.
+ *
+ * @class AccessControlService
+ * @description Verifica si el usuario autenticado puede actuar sobre otro usuario
+ */
+@Injectable()
+export class AccessControlService {
+  /**
+   * Constructor del servicio
+   * @param relationshipRepository - Repositorio para consultar las relaciones activas profesional-cliente
+   */
+  constructor(
+    @InjectRepository(CoachingRelationshipEntity)
+    private readonly relationshipRepository: Repository<CoachingRelationshipEntity>,
+  ) {}
+
+  /**
+   * 👤 Verificar que el usuario puede editar el perfil de otro usuario
+   *
+   * Solo el propio usuario o un administrador pueden editar un perfil.
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {number} targetUserId - ID del perfil a editar
+   * @throws {ForbiddenException} Si no es el propietario ni administrador
+   *
+   * @example
+   * this.accessControlService.assertCanManageUser(currentUser, 5);
+   */
+  assertCanManageUser(currentUser: UserEntity, targetUserId: number): void {
+    if (currentUser.isAdmin() || currentUser.id === targetUserId) {
+      return;
+    }
+
+    throw new ForbiddenException({ code: ErrorCode.ACCESS_DENIED_USER_PROFILE, message: 'Solo puedes modificar tu propio perfil' });
+  }
+
+  /**
+   * 🏋️ Verificar que el usuario puede gestionar los entrenamientos de otro usuario
+   *
+   * Pueden hacerlo el propio usuario, un administrador o un entrenador
+   * con una relación de entrenamiento activa con ese usuario.
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {number} ownerId - ID del propietario de los entrenamientos
+   * @returns {Promise<void>}
+   * @throws {ForbiddenException} Si no tiene relación con el propietario
+   *
+   * @example
+   * await this.accessControlService.assertCanManageWorkoutsOf(currentUser, workoutDay.userId);
+   */
+  async assertCanManageWorkoutsOf(currentUser: UserEntity, ownerId: number): Promise<void> {
+    if (currentUser.isAdmin() || currentUser.id === ownerId) {
+      return;
+    }
+
+    if (await this.isAssignedTrainer(currentUser, ownerId)) {
+      return;
+    }
+
+    throw new ForbiddenException({ code: ErrorCode.ACCESS_DENIED_WORKOUT_DAYS, message: 'Solo puedes gestionar tus propios entrenamientos o los de tus clientes asignados' });
+  }
+
+  /**
+   * 🏋️ Obtener los usuarios cuyos entrenamientos puede ver el usuario autenticado
+   *
+   * Misma regla que assertCanManageWorkoutsOf para los listados: el propio
+   * usuario y, si es entrenador, sus clientes con una relación de
+   * entrenamiento activa. Las invitaciones pendientes o finalizadas no cuentan.
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<number[] | undefined>} IDs de los propietarios accesibles (undefined si es admin: todos)
+   *
+   * @example
+   * const ownerIds = await this.accessControlService.findWorkoutAccessibleOwnerIds(currentUser);
+   */
+  async findWorkoutAccessibleOwnerIds(currentUser: UserEntity): Promise<number[] | undefined> {
+    if (currentUser.isAdmin()) {
+      return undefined;
+    }
+
+    if (!currentUser.isTrainer()) {
+      return [currentUser.id];
+    }
+
+    const relationships = await this.relationshipRepository.find({
+      select: { clientId: true },
+      where: { coachId: currentUser.id, type: CoachingType.TRAINING, status: CoachingStatus.ACTIVE },
+    });
+
+    return [currentUser.id, ...relationships.map((relationship) => relationship.clientId)];
+  }
+
+  /**
+   * 🍽️ Verificar que el usuario puede gestionar las comidas registradas de otro usuario
+   *
+   * Pueden hacerlo el propio usuario, un administrador o un nutricionista
+   * con una relación de nutrición activa con ese usuario.
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {number} ownerId - ID del propietario de las comidas
+   * @returns {Promise<void>}
+   * @throws {ForbiddenException} Si no tiene relación con el propietario
+   *
+   * @example
+   * await this.accessControlService.assertCanManageNutritionOf(currentUser, mealLog.userId);
+   */
+  async assertCanManageNutritionOf(currentUser: UserEntity, ownerId: number): Promise<void> {
+    if (currentUser.isAdmin() || currentUser.id === ownerId || (await this.isAssignedNutritionist(currentUser, ownerId))) {
+      return;
+    }
+
+    throw new ForbiddenException({ code: ErrorCode.ACCESS_DENIED_MEAL_LOGS, message: 'Solo puedes gestionar tus propias comidas registradas o las de tus clientes asignados' });
+  }
+
+  /**
+   * 🎯 Verificar que el usuario puede fijar los objetivos nutricionales de otro usuario
+   *
+   * Solo pueden hacerlo un administrador o el nutricionista asignado al usuario.
+   * El propio usuario no puede fijarse objetivos manuales.
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {number} clientId - ID del usuario cuyos objetivos se fijan
+   * @returns {Promise<void>}
+   * @throws {ForbiddenException} Si no es admin ni su nutricionista asignado
+   *
+   * @example
+   * await this.accessControlService.assertCanOverrideNutritionTargetsOf(currentUser, 5);
+   */
+  async assertCanOverrideNutritionTargetsOf(currentUser: UserEntity, clientId: number): Promise<void> {
+    if (currentUser.isAdmin() || (await this.isAssignedNutritionist(currentUser, clientId))) {
+      return;
+    }
+
+    throw new ForbiddenException({ code: ErrorCode.ACCESS_DENIED_NUTRITION_TARGETS, message: 'Solo el nutricionista asignado o un administrador pueden ajustar los objetivos nutricionales' });
+  }
+
+  /**
+   * 📏 Verificar que el usuario puede ver o registrar las mediciones corporales de otro usuario
+   *
+   * Son datos de salud: solo el propio usuario, un administrador o los
+   * profesionales asignados (entrenador o nutricionista) tienen acceso.
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {number} ownerId - ID del propietario de las mediciones
+   * @returns {Promise<void>}
+   * @throws {ForbiddenException} Si no tiene relación con el propietario
+   *
+   * @example
+   * await this.accessControlService.assertCanAccessBodyMeasurementsOf(currentUser, 5);
+   */
+  async assertCanAccessBodyMeasurementsOf(currentUser: UserEntity, ownerId: number): Promise<void> {
+    if (currentUser.isAdmin() || currentUser.id === ownerId) {
+      return;
+    }
+
+    if ((await this.isAssignedTrainer(currentUser, ownerId)) || (await this.isAssignedNutritionist(currentUser, ownerId))) {
+      return;
+    }
+
+    throw new ForbiddenException({ code: ErrorCode.ACCESS_DENIED_BODY_MEASUREMENTS, message: 'Solo puedes acceder a tus propias mediciones corporales o a las de tus clientes asignados' });
+  }
+
+  /**
+   * 🩺 Verificar que el usuario puede ver los datos de salud de otro usuario
+   *
+   * Métricas corporales, datos de contacto y objetivos nutricionales: solo
+   * el propio usuario, un administrador o los profesionales con una relación
+   * activa con él (entrenador o nutricionista).
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {number} ownerId - ID del usuario cuyos datos se consultan
+   * @returns {Promise<void>}
+   * @throws {ForbiddenException} Si no tiene relación con el usuario
+   *
+   * @example
+   * await this.accessControlService.assertCanAccessHealthDataOf(currentUser, 5);
+   */
+  async assertCanAccessHealthDataOf(currentUser: UserEntity, ownerId: number): Promise<void> {
+    const accessibleIds = await this.findHealthDataAccessibleIds(currentUser, [ownerId]);
+
+    if (!accessibleIds.has(ownerId)) {
+      throw new ForbiddenException({ code: ErrorCode.ACCESS_DENIED_HEALTH_DATA, message: 'Solo puedes acceder a tus propios datos de salud o a los de tus clientes asignados' });
+    }
+  }
+
+  /**
+   * 🩺 Obtener de una lista los usuarios cuyos datos de salud puede ver el usuario autenticado
+   *
+   * Misma regla que assertCanAccessHealthDataOf, resuelta con una sola
+   * consulta para los listados.
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {number[]} ownerIds - IDs de los usuarios a comprobar
+   * @returns {Promise<Set<number>>} IDs (de ownerIds) con acceso a sus datos de salud
+   *
+   * @example
+   * const accesibles = await this.accessControlService.findHealthDataAccessibleIds(currentUser, users.map((user) => user.id));
+   */
+  async findHealthDataAccessibleIds(currentUser: UserEntity, ownerIds: number[]): Promise<Set<number>> {
+    if (currentUser.isAdmin()) {
+      return new Set(ownerIds);
+    }
+
+    const accessibleIds = new Set(ownerIds.filter((ownerId) => ownerId === currentUser.id));
+    const clientIds = ownerIds.filter((ownerId) => ownerId !== currentUser.id);
+    const coachingTypes = [...(currentUser.isTrainer() ? [CoachingType.TRAINING] : []), ...(currentUser.isNutritionist() ? [CoachingType.NUTRITION] : [])];
+
+    if (clientIds.length > 0 && coachingTypes.length > 0) {
+      const relationships = await this.relationshipRepository.find({
+        select: { clientId: true },
+        where: { coachId: currentUser.id, clientId: In(clientIds), type: In(coachingTypes), status: CoachingStatus.ACTIVE },
+      });
+      relationships.forEach((relationship) => accessibleIds.add(relationship.clientId));
+    }
+
+    return accessibleIds;
+  }
+
+  /**
+   * 📋 Verificar que el usuario puede editar un programa de entrenamiento
+   *
+   * Solo el autor del programa o un administrador.
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {number} authorId - ID del autor del programa
+   * @throws {ForbiddenException} Si no es el autor ni administrador
+   *
+   * @example
+   * this.accessControlService.assertCanManageTrainingProgram(currentUser, program.createdById);
+   */
+  assertCanManageTrainingProgram(currentUser: UserEntity, authorId: number): void {
+    if (currentUser.isAdmin() || currentUser.id === authorId) {
+      return;
+    }
+
+    throw new ForbiddenException({ code: ErrorCode.ACCESS_DENIED_TRAINING_PROGRAM, message: 'Solo el autor del programa o un administrador pueden modificarlo' });
+  }
+
+  /**
+   * 👑 Verificar que el usuario es administrador
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {string} message - Mensaje de error a devolver
+   * @throws {ForbiddenException} Si no es administrador
+   */
+  assertIsAdmin(currentUser: UserEntity, message: string): void {
+    if (!currentUser.isAdmin()) {
+      throw new ForbiddenException({ code: ErrorCode.ADMIN_REQUIRED, message });
+    }
+  }
+
+  /**
+   * 🏋️ Método privado para saber si el usuario es el entrenador asignado de otro usuario
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {number} clientId - ID del posible cliente
+   * @returns {Promise<boolean>} true si tiene rol TRAINER y una relación de entrenamiento activa con el cliente
+   * @private
+   */
+  private async isAssignedTrainer(currentUser: UserEntity, clientId: number): Promise<boolean> {
+    if (!currentUser.isTrainer()) {
+      return false;
+    }
+
+    return await this.hasActiveRelationship(currentUser.id, clientId, CoachingType.TRAINING);
+  }
+
+  /**
+   * 🥗 Método privado para saber si el usuario es el nutricionista asignado de otro usuario
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {number} clientId - ID del posible cliente
+   * @returns {Promise<boolean>} true si tiene rol NUTRITIONIST y una relación de nutrición activa con el cliente
+   * @private
+   */
+  private async isAssignedNutritionist(currentUser: UserEntity, clientId: number): Promise<boolean> {
+    if (!currentUser.isNutritionist()) {
+      return false;
+    }
+
+    return await this.hasActiveRelationship(currentUser.id, clientId, CoachingType.NUTRITION);
+  }
+
+  /**
+   * 🤝 Método privado para saber si hay una relación activa entre un profesional y un cliente
+   *
+   * Las invitaciones pendientes, rechazadas o finalizadas no dan acceso.
+   *
+   * @param {number} coachId - ID del profesional
+   * @param {number} clientId - ID del cliente
+   * @param {CoachingType} type - Tipo de relación
+   * @returns {Promise<boolean>} true si la relación está activa
+   * @private
+   */
+  private async hasActiveRelationship(coachId: number, clientId: number, type: CoachingType): Promise<boolean> {
+    return await this.relationshipRepository.exists({
+      where: { coachId, clientId, type, status: CoachingStatus.ACTIVE },
+    });
+  }
+}
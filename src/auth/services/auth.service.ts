@@ -0,0 +1,328 @@
+import { Injectable, UnauthorizedException, ForbiddenException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull } from 'typeorm';
+import { createHash, randomUUID } from 'crypto';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserStatus } from '../../users/interfaces/user.interface';
+import { UsersService } from '../../users/services/users.service';
+import { RefreshTokenEntity } from '../entities/refresh-token.entity';
+import { EmailVerificationService } from './email-verification.service';
+import { PasswordService } from './password.service';
+import { RegisterDto, LoginDto, RefreshTokenDto, VerifyEmailDto, ResendVerificationDto, ForgotPasswordDto, ResetPasswordDto, AuthResponseDto, AccountResponseDto } from '../dto/auth.dto';
+import { JwtPayload, TokenType } from '../interfaces/auth.interface';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+import { I18nService } from '../../i18n/services/i18n.service';
+
+/**
+ * 🔐 Servicio de autenticación - Registro, login y emisión de tokens
+ *
+ * Este servicio valida credenciales y emite pares de tokens JWT:
+ * un token de acceso de vida corta y un token de refresco de vida larga.
+ * Los tokens de refresco se guardan hasheados en la BD para poder revocarlos.
+ *
+ * @class AuthService
+ * @description Maneja el ciclo de vida de la sesión de los usuarios
+ */
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
+  /**
+   * Constructor del servicio
+   * @param userRepository - Repositorio para buscar usuarios con su contraseña
+   * @param refreshTokenRepository - Repositorio de tokens de refresco
+   * @param usersService - Servicio de usuarios (creación y formato de respuesta)
+   * @param emailVerificationService - Flujo de verificación de email
+   * @param passwordService - Flujos de restablecimiento de contraseña
+   * @param jwtService - Servicio para firmar y verificar JWT
+   * @param configService - Acceso a secretos y tiempos de expiración
+   * @param i18nService - Mensajes de respuesta en el idioma de la petición
+   */
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    @InjectRepository(RefreshTokenEntity)
+    private readonly refreshTokenRepository: Repository<RefreshTokenEntity>,
+    private readonly usersService: UsersService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly passwordService: PasswordService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * 📝 Registrar un nuevo usuario
+   *
+   * Crea el usuario con rol USER (reutilizando las validaciones de UsersService).
+   * La cuenta queda PENDING y se envía el correo de verificación:
+   * no se emiten tokens hasta que el email esté verificado.
+   *
+   * @param {RegisterDto} registerDto - Nombre, email y contraseña
+   * @returns {Promise<AccountResponseDto>} Mensaje y usuario creado (pendiente)
+   * @throws {ConflictException} Si ya existe un usuario con ese email
+   *
+   * @example
+   * const { user } = await authService.register({ name: 'Ana', email: 'ana@email.com', password: 'secreto123' });
+   * console.log(user.status); // 'pending'
+   */
+  async register(registerDto: RegisterDto): Promise<AccountResponseDto> {
+    this.logger.log(`📝 Registrando nuevo usuario: ${registerDto.email}`);
+
+    const user = await this.usersService.create({
+      name: registerDto.name,
+      email: registerDto.email,
+      password: registerDto.password,
+    });
+
+    return {
+      message: this.i18nService.translate('userRegistered'),
+      user,
+    };
+  }
+
+  /**
+   * ✅ Verificar el email con el token recibido por correo
+   *
+   * @param {VerifyEmailDto} verifyEmailDto - Token de verificación
+   * @returns {Promise<AccountResponseDto>} Mensaje y usuario activado
+   * @throws {BadRequestException} Si el token es inválido, expiró o ya se usó
+   */
+  async verifyEmail(verifyEmailDto: VerifyEmailDto): Promise<AccountResponseDto> {
+    const user = await this.emailVerificationService.verifyEmail(verifyEmailDto.token);
+
+    return {
+      message: this.i18nService.translate('emailVerified'),
+      user: await this.usersService.findOne(user.id),
+    };
+  }
+
+  /**
+   * 🔁 Reenviar el correo de verificación
+   *
+   * Responde siempre lo mismo, exista o no la cuenta y aunque se supere el límite de reenvíos.
+   *
+   * @param {ResendVerificationDto} resendVerificationDto - Email de la cuenta pendiente
+   * @returns {Promise<void>}
+   */
+  async resendVerification(resendVerificationDto: ResendVerificationDto): Promise<void> {
+    await this.emailVerificationService.resendVerificationEmail(resendVerificationDto.email);
+  }
+
+  /**
+   * 🔑 Solicitar el restablecimiento de contraseña
+   *
+   * Responde siempre lo mismo, exista o no la cuenta.
+   *
+   * @param {ForgotPasswordDto} forgotPasswordDto - Email de la cuenta
+   * @returns {Promise<void>}
+   */
+  async forgotPassword(forgotPasswordDto: ForgotPasswordDto): Promise<void> {
+    await this.passwordService.requestPasswordReset(forgotPasswordDto.email);
+  }
+
+  /**
+   * 🔁 Restablecer la contraseña con el token recibido por correo
+   *
+   * Revoca todos los tokens de refresco del usuario.
+   *
+   * @param {ResetPasswordDto} resetPasswordDto - Token y nueva contraseña
+   * @returns {Promise<void>}
+   * @throws {BadRequestException} Si el token es inválido, expiró o ya se usó
+   */
+  async resetPassword(resetPasswordDto: ResetPasswordDto): Promise<void> {
+    await this.passwordService.resetPassword(resetPasswordDto.token, resetPasswordDto.newPassword);
+  }
+
+  /**
+   * 🔑 Iniciar sesión con email y contraseña
+   *
+   * Valida las credenciales y el estado del usuario.
+   * Los usuarios suspendidos, baneados o pendientes no reciben tokens.
+   *
+   * @param {LoginDto} loginDto - Email y contraseña
+   * @returns {Promise<AuthResponseDto>} Tokens y usuario autenticado
+   * @throws {UnauthorizedException} Si las credenciales son incorrectas
+   * @throws {ForbiddenException} Si el estado del usuario no permite iniciar sesión
+   *
+   * @example
+   * const session = await authService.login({ email: 'ana@email.com', password: 'secreto123' });
+   */
+  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+    this.logger.log(`🔑 Intento de inicio de sesión: ${loginDto.email}`);
+
+    // La contraseña tiene select: false, hay que pedirla explícitamente
+    const user = await this.userRepository.createQueryBuilder('user').addSelect('user.password').where('user.email = :email', { email: loginDto.email.toLowerCase().trim() }).getOne();
+
+    if (!user || !(await user.validatePassword(loginDto.password))) {
+      throw new UnauthorizedException({ code: ErrorCode.AUTH_INVALID_CREDENTIALS, message: 'Email o contraseña incorrectos' });
+    }
+
+    this.assertCanReceiveTokens(user);
+
+    return await this.issueTokens(user);
+  }
+
+  /**
+   * 🔄 Renovar el par de tokens con un token de refresco
+   *
+   * Implementa rotación: el token de refresco usado queda revocado
+   * y se emite uno nuevo junto con un nuevo token de acceso.
+   *
+   * @param {RefreshTokenDto} refreshTokenDto - Token de refresco vigente
+   * @returns {Promise<AuthResponseDto>} Nuevo par de tokens
+   * @throws {UnauthorizedException} Si el token es inválido, expiró o fue revocado
+   * @throws {ForbiddenException} Si el estado del usuario ya no permite tokens
+   */
+  async refresh(refreshTokenDto: RefreshTokenDto): Promise<AuthResponseDto> {
+    this.logger.log('🔄 Renovando tokens de sesión...');
+
+    const storedToken = await this.findUsableRefreshToken(refreshTokenDto.refreshToken);
+
+    const user = await this.userRepository.findOne({ where: { id: storedToken.userId } });
+    if (!user) {
+      throw new UnauthorizedException({ code: ErrorCode.AUTH_REFRESH_TOKEN_INVALID, message: 'Token de refresco inválido o expirado' });
+    }
+
+    this.assertCanReceiveTokens(user);
+
+    // Rotación: revocar el token usado antes de emitir el nuevo par
+    storedToken.revoke();
+    await this.refreshTokenRepository.save(storedToken);
+
+    return await this.issueTokens(user);
+  }
+
+  /**
+   * 🚪 Cerrar sesión revocando un token de refresco
+   *
+   * @param {RefreshTokenDto} refreshTokenDto - Token de refresco a revocar
+   * @returns {Promise<void>}
+   * @throws {UnauthorizedException} Si el token es inválido, expiró o ya fue revocado
+   */
+  async logout(refreshTokenDto: RefreshTokenDto): Promise<void> {
+    this.logger.log('🚪 Cerrando sesión...');
+
+    const storedToken = await this.findUsableRefreshToken(refreshTokenDto.refreshToken);
+    storedToken.revoke();
+    await this.refreshTokenRepository.save(storedToken);
+  }
+
+  /**
+   * 🚫 Método privado para validar que el estado del usuario permite emitir tokens
+   *
+   * @param {UserEntity} user - Usuario a validar
+   * @throws {ForbiddenException} Si el usuario está suspendido, baneado, pendiente o inactivo
+   * @private
+   */
+  private assertCanReceiveTokens(user: UserEntity): void {
+    switch (user.status) {
+      case UserStatus.ACTIVE:
+        return;
+      case UserStatus.SUSPENDED:
+        throw new ForbiddenException({ code: ErrorCode.ACCOUNT_SUSPENDED, message: 'Tu cuenta está suspendida' });
+      case UserStatus.BANNED:
+        throw new ForbiddenException({ code: ErrorCode.ACCOUNT_BANNED, message: 'Tu cuenta ha sido baneada' });
+      case UserStatus.PENDING:
+        throw new ForbiddenException({ code: ErrorCode.ACCOUNT_PENDING, message: 'Tu cuenta está pendiente de activación' });
+      default:
+        throw new ForbiddenException({ code: ErrorCode.ACCOUNT_INACTIVE, message: 'Tu cuenta no está activa' });
+    }
+  }
+
+  /**
+   * 🎫 Método privado para firmar y guardar un nuevo par de tokens
+   *
+   * @param {UserEntity} user - Usuario para el que se emiten los tokens
+   * @returns {Promise<AuthResponseDto>} Par de tokens y usuario formateado
+   * @private
+   */
+  private async issueTokens(user: UserEntity): Promise<AuthResponseDto> {
+    const accessExpiresIn = this.getSeconds('JWT_EXPIRES_IN', 900); // 15 minutos por defecto
+    const refreshExpiresIn = this.getSeconds('JWT_REFRESH_EXPIRES_IN', 604800); // 7 días por defecto
+
+    const basePayload = { sub: user.id, email: user.email, role: user.role };
+
+    const accessToken = await this.jwtService.signAsync({ ...basePayload, type: TokenType.ACCESS } satisfies JwtPayload, { expiresIn: accessExpiresIn });
+
+    const refreshToken = await this.jwtService.signAsync({ ...basePayload, type: TokenType.REFRESH, jti: randomUUID() } satisfies JwtPayload, {
+      secret: this.getRefreshSecret(),
+      expiresIn: refreshExpiresIn,
+    });
+
+    // Guardar solo el hash del token de refresco
+    await this.refreshTokenRepository.save(
+      this.refreshTokenRepository.create({
+        tokenHash: this.hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + refreshExpiresIn * 1000),
+        userId: user.id,
+      }),
+    );
+
+    return {
+      accessToken,
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: accessExpiresIn,
+      user: await this.usersService.findOne(user.id),
+    };
+  }
+
+  /**
+   * 🔍 Método privado para verificar un token de refresco y localizarlo en la BD
+   *
+   * @param {string} refreshToken - Token de refresco en texto plano
+   * @returns {Promise<RefreshTokenEntity>} El registro del token si sigue siendo utilizable
+   * @throws {UnauthorizedException} Si la firma es inválida, expiró o fue revocado
+   * @private
+   */
+  private async findUsableRefreshToken(refreshToken: string): Promise<RefreshTokenEntity> {
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(refreshToken, { secret: this.getRefreshSecret() });
+    } catch {
+      throw new UnauthorizedException({ code: ErrorCode.AUTH_REFRESH_TOKEN_INVALID, message: 'Token de refresco inválido o expirado' });
+    }
+
+    if (payload.type !== TokenType.REFRESH) {
+      throw new UnauthorizedException({ code: ErrorCode.AUTH_REFRESH_TOKEN_INVALID, message: 'Token de refresco inválido o expirado' });
+    }
+
+    const storedToken = await this.refreshTokenRepository.findOne({
+      where: { tokenHash: this.hashToken(refreshToken), revokedAt: IsNull() },
+    });
+
+    if (!storedToken || !storedToken.isUsable()) {
+      throw new UnauthorizedException({ code: ErrorCode.AUTH_REFRESH_TOKEN_INVALID, message: 'Token de refresco inválido o expirado' });
+    }
+
+    return storedToken;
+  }
+
+  /**
+   * 🔒 Método privado para obtener el hash SHA-256 de un token
+   * @private
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * 🔑 Método privado para obtener el secreto de los tokens de refresco
+   * @private
+   */
+  private getRefreshSecret(): string {
+    return this.configService.getOrThrow<string>('JWT_REFRESH_SECRET');
+  }
+
+  /**
+   * ⏱️ Método privado para leer una duración en segundos desde el .env
+   * @private
+   */
+  private getSeconds(key: string, defaultValue: number): number {
+    const value = parseInt(this.configService.get<string>(key) ?? '');
+    return isNaN(value) ? defaultValue : value;
+  }
+}
@@ -0,0 +1,154 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserStatus } from '../../users/interfaces/user.interface';
+import { MailService } from '../../mail/services/mail.service';
+import { UserTokensService } from './user-tokens.service';
+import { UserTokenType } from '../interfaces/auth.interface';
+
+/**
+ * ✉️ Servicio de verificación de email
+ *
+ * Los usuarios nuevos se crean con status PENDING. Este servicio les envía
+ * un token de un solo uso por correo y, al confirmarlo, los pasa a ACTIVE.
+ * Los reenvíos están limitados (tiempo de espera y máximo por hora); los
+ * que superan el límite se descartan sin avisar al cliente.
+ *
+ * @class EmailVerificationService
+ * @description Flujo PENDING → ACTIVE mediante token enviado por correo
+ */
+@Injectable()
+export class EmailVerificationService {
+  private readonly logger = new Logger(EmailVerificationService.name);
+
+  /**
+   * Constructor del servicio
+   * @param userRepository - Repositorio de usuarios
+   * @param userTokensService - Emisión y consumo de tokens de un solo uso
+   * @param mailService - Envío de correos
+   * @param configService - Tiempos de expiración, límites y URL del frontend
+   */
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    private readonly userTokensService: UserTokensService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 📤 Enviar el correo de verificación a un usuario
+   *
+   * Emite un token nuevo (invalidando los anteriores) y lo envía por correo.
+   *
+   * @param {Pick<UserEntity, 'id' | 'name' | 'email'>} user - Usuario destinatario
+   * @returns {Promise<void>}
+   *
+   * @example
+   * await emailVerificationService.sendVerificationEmail(savedUser);
+   */
+  async sendVerificationEmail(user: Pick<UserEntity, 'id' | 'name' | 'email'>): Promise<void> {
+    const ttlSeconds = this.getNumber('EMAIL_VERIFICATION_TTL_SECONDS', 86400); // 24 horas por defecto
+    const token = await this.userTokensService.issue(user.id, UserTokenType.EMAIL_VERIFICATION, ttlSeconds);
+    const appUrl = this.configService.get<string>('APP_URL') || 'http://localhost:3000';
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Verifica tu email en NutriFit',
+      text: [`Hola ${user.name},`, '', 'Confirma tu email para activar tu cuenta:', `${appUrl}/verify-email?token=${token}`, '', `Token: ${token}`, `El enlace caduca en ${Math.round(ttlSeconds / 3600)} horas.`].join('\n'),
+    });
+
+    this.logger.log(`✉️ Correo de verificación enviado al usuario ID ${user.id}`);
+  }
+
+  /**
+   * ✅ Verificar el email de un usuario con su token
+   *
+   * Consume el token y activa al usuario si estaba PENDING.
+   * Si el usuario ya estaba activo, el token igualmente queda consumido.
+   *
+   * @param {string} token - Token recibido por correo
+   * @returns {Promise<UserEntity>} El usuario verificado
+   * @throws {BadRequestException} Si el token es inválido, expiró o ya se usó
+   */
+  async verifyEmail(token: string): Promise<UserEntity> {
+    const userToken = await this.userTokensService.consume(token, UserTokenType.EMAIL_VERIFICATION);
+    const user = await this.userRepository.findOneOrFail({ where: { id: userToken.userId } });
+
+    // Solo los usuarios pendientes se activan (no reactivar suspendidos o baneados)
+    if (user.status === UserStatus.PENDING) {
+      user.activate();
+      await this.userRepository.save(user);
+      this.logger.log(`✅ Email verificado, usuario ID ${user.id} activado`);
+    }
+
+    return user;
+  }
+
+  /**
+   * 🔁 Reenviar el correo de verificación
+   *
+   * Si el email no existe, el usuario no está pendiente o se supera el
+   * límite de reenvíos no se envía nada y no se informa al cliente: la
+   * respuesta es siempre la misma (para no revelar qué cuentas existen).
+   *
+   * @param {string} email - Email del usuario pendiente
+   * @returns {Promise<void>}
+   */
+  async resendVerificationEmail(email: string): Promise<void> {
+    const user = await this.userRepository.findOne({
+      where: { email: email.toLowerCase().trim() },
+    });
+
+    if (!user || user.status !== UserStatus.PENDING) {
+      return;
+    }
+
+    if (!(await this.isResendAllowed(user.id))) {
+      return;
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  /**
+   * ⏳ Método privado para aplicar el límite de reenvíos
+   *
+   * @param {number} userId - ID del usuario
+   * @returns {Promise<boolean>} false si aún no se permite un nuevo envío (tiempo de espera o máximo por hora)
+   * @private
+   */
+  private async isResendAllowed(userId: number): Promise<boolean> {
+    const cooldownSeconds = this.getNumber('EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS', 60);
+    const maxPerHour = this.getNumber('EMAIL_VERIFICATION_MAX_PER_HOUR', 5);
+
+    const latest = await this.userTokensService.findLatest(userId, UserTokenType.EMAIL_VERIFICATION);
+    if (latest) {
+      const secondsSinceLast = (Date.now() - latest.createdAt.getTime()) / 1000;
+      if (secondsSinceLast < cooldownSeconds) {
+        this.logger.warn(`⏳ Reenvío de verificación descartado para el usuario ID ${userId}: tiempo de espera`);
+        return false;
+      }
+    }
+
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    const sentLastHour = await this.userTokensService.countIssuedSince(userId, UserTokenType.EMAIL_VERIFICATION, oneHourAgo);
+    if (sentLastHour >= maxPerHour) {
+      this.logger.warn(`⏳ Reenvío de verificación descartado para el usuario ID ${userId}: máximo por hora`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 🔢 Método privado para leer un número desde el .env
+   * @private
+   */
+  private getNumber(key: string, defaultValue: number): number {
+    const value = parseInt(this.configService.get<string>(key) ?? '');
+    return isNaN(value) ? defaultValue : value;
+  }
+}
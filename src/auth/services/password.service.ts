@@ -0,0 +1,160 @@
+import { Injectable, BadRequestException, UnauthorizedException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { MailService } from '../../mail/services/mail.service';
+import { RefreshTokenEntity } from '../entities/refresh-token.entity';
+import { UserTokensService } from './user-tokens.service';
+import { UserTokenType } from '../interfaces/auth.interface';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 🔑 Servicio de contraseñas - Restablecimiento y cambio de contraseña
+ *
+ * El restablecimiento usa un token de un solo uso enviado por correo.
+ * Cualquier cambio de contraseña revoca todos los tokens de refresco
+ * del usuario, cerrando las sesiones abiertas en otros dispositivos.
+ *
+ * @class PasswordService
+ * @description Flujos de "olvidé mi contraseña" y cambio de contraseña
+ */
+@Injectable()
+export class PasswordService {
+  private readonly logger = new Logger(PasswordService.name);
+
+  /**
+   * Constructor del servicio
+   * @param userRepository - Repositorio de usuarios
+   * @param refreshTokenRepository - Repositorio de tokens de refresco (para revocarlos)
+   * @param userTokensService - Emisión y consumo de tokens de un solo uso
+   * @param mailService - Envío de correos
+   * @param configService - Tiempo de expiración y URL del frontend
+   */
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    @InjectRepository(RefreshTokenEntity)
+    private readonly refreshTokenRepository: Repository<RefreshTokenEntity>,
+    private readonly userTokensService: UserTokensService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 📤 Solicitar el restablecimiento de contraseña
+   *
+   * Si el email existe se envía un token de un solo uso por correo.
+   * Si no existe (o se pidió hace muy poco) no se hace nada, y el
+   * cliente recibe siempre la misma respuesta para no revelar qué cuentas existen.
+   *
+   * @param {string} email - Email de la cuenta
+   * @returns {Promise<void>}
+   *
+   * @example
+   * await passwordService.requestPasswordReset('ana@email.com');
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findOne({
+      where: { email: email.toLowerCase().trim() },
+    });
+
+    if (!user) {
+      return;
+    }
+
+    // Evitar inundar el correo del usuario: ignorar solicitudes muy seguidas
+    const cooldownSeconds = this.getNumber('PASSWORD_RESET_COOLDOWN_SECONDS', 60);
+    const latest = await this.userTokensService.findLatest(user.id, UserTokenType.PASSWORD_RESET);
+    if (latest && (Date.now() - latest.createdAt.getTime()) / 1000 < cooldownSeconds) {
+      return;
+    }
+
+    const ttlSeconds = this.getNumber('PASSWORD_RESET_TTL_SECONDS', 3600); // 1 hora por defecto
+    const token = await this.userTokensService.issue(user.id, UserTokenType.PASSWORD_RESET, ttlSeconds);
+    const appUrl = this.configService.get<string>('APP_URL') || 'http://localhost:3000';
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Restablece tu contraseña de NutriFit',
+      text: [`Hola ${user.name},`, '', 'Para elegir una nueva contraseña entra en:', `${appUrl}/reset-password?token=${token}`, '', `Token: ${token}`, `El enlace caduca en ${Math.round(ttlSeconds / 60)} minutos. Si no lo solicitaste, ignora este correo.`].join('\n'),
+    });
+
+    this.logger.log(`🔑 Correo de restablecimiento de contraseña enviado al usuario ID ${user.id}`);
+  }
+
+  /**
+   * 🔁 Restablecer la contraseña con el token recibido por correo
+   *
+   * @param {string} token - Token de restablecimiento
+   * @param {string} newPassword - Nueva contraseña en texto plano
+   * @returns {Promise<void>}
+   * @throws {BadRequestException} Si el token es inválido, expiró o ya se usó
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const userToken = await this.userTokensService.consume(token, UserTokenType.PASSWORD_RESET);
+    const user = await this.userRepository.findOneOrFail({ where: { id: userToken.userId } });
+
+    await this.updatePassword(user, newPassword);
+    this.logger.log(`✅ Contraseña restablecida para el usuario ID ${user.id}`);
+  }
+
+  /**
+   * 🔒 Cambiar la contraseña conociendo la actual
+   *
+   * @param {number} userId - ID del usuario autenticado
+   * @param {string} currentPassword - Contraseña actual
+   * @param {string} newPassword - Nueva contraseña
+   * @returns {Promise<void>}
+   * @throws {UnauthorizedException} Si la contraseña actual es incorrecta
+   * @throws {BadRequestException} Si la nueva contraseña es igual a la actual
+   */
+  async changePassword(userId: number, currentPassword: string, newPassword: string): Promise<void> {
+    // La contraseña tiene select: false, hay que pedirla explícitamente
+    const user = await this.userRepository.createQueryBuilder('user').addSelect('user.password').where('user.id = :userId', { userId }).getOneOrFail();
+
+    if (!(await user.validatePassword(currentPassword))) {
+      throw new UnauthorizedException({ code: ErrorCode.PASSWORD_INCORRECT, message: 'La contraseña actual es incorrecta' });
+    }
+
+    if (currentPassword === newPassword) {
+      throw new BadRequestException({ code: ErrorCode.PASSWORD_UNCHANGED, message: 'La nueva contraseña debe ser diferente a la actual' });
+    }
+
+    await this.updatePassword(user, newPassword);
+    this.logger.log(`✅ Contraseña cambiada por el usuario ID ${user.id}`);
+  }
+
+  /**
+   * 🚫 Revocar todos los tokens de refresco vigentes de un usuario
+   *
+   * @param {number} userId - ID del usuario
+   * @returns {Promise<void>}
+   */
+  async revokeAllRefreshTokens(userId: number): Promise<void> {
+    await this.refreshTokenRepository.update({ userId, revokedAt: IsNull() }, { revokedAt: new Date() });
+  }
+
+  /**
+   * 💾 Método privado para guardar la nueva contraseña y cerrar las sesiones
+   *
+   * @param {UserEntity} user - Usuario a actualizar
+   * @param {string} newPassword - Nueva contraseña en texto plano
+   * @private
+   */
+  private async updatePassword(user: UserEntity, newPassword: string): Promise<void> {
+    await user.setPassword(newPassword);
+    user.updateTimestamp();
+    await this.userRepository.save(user);
+    await this.revokeAllRefreshTokens(user.id);
+  }
+
+  /**
+   * 🔢 Método privado para leer un número desde el .env
+   * @private
+   */
+  private getNumber(key: string, defaultValue: number): number {
+    const value = parseInt(this.configService.get<string>(key) ?? '');
+    return isNaN(value) ? defaultValue : value;
+  }
+}
@@ -0,0 +1,144 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, LessThan, MoreThanOrEqual, Not } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { UserTokenEntity } from '../entities/user-token.entity';
+import { UserTokenType } from '../interfaces/auth.interface';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 🎟️ Servicio de tokens de usuario - Tokens de un solo uso enviados por correo
+ *
+ * Genera, consume y limpia tokens aleatorios con expiración.
+ * Solo se guarda el hash SHA-256: el token en claro solo existe en el correo.
+ * Lo usan los flujos de verificación de email y similares.
+ *
+ * @class UserTokensService
+ * @description Ciclo de vida de los tokens de la tabla user_tokens
+ */
+@Injectable()
+export class UserTokensService {
+  private readonly logger = new Logger(UserTokensService.name);
+
+  /**
+   * Constructor del servicio
+   * @param userTokenRepository - Repositorio de tokens de usuario
+   */
+  constructor(
+    @InjectRepository(UserTokenEntity)
+    private readonly userTokenRepository: Repository<UserTokenEntity>,
+  ) {}
+
+  /**
+   * 🎟️ Emitir un nuevo token para un usuario
+   *
+   * Invalida (marca como usados) los tokens anteriores del mismo tipo,
+   * de modo que solo el último token enviado sea válido. No se eliminan
+   * para que sigan contando en el límite de reenvíos.
+   *
+   * @param {number} userId - ID del usuario propietario
+   * @param {UserTokenType} type - Propósito del token
+   * @param {number} ttlSeconds - Segundos de validez
+   * @returns {Promise<string>} El token en texto plano (para enviarlo por correo)
+   *
+   * @example
+   * const token = await userTokensService.issue(1, UserTokenType.EMAIL_VERIFICATION, 86400);
+   */
+  async issue(userId: number, type: UserTokenType, ttlSeconds: number): Promise<string> {
+    await this.userTokenRepository.update({ userId, type, usedAt: IsNull() }, { usedAt: new Date() });
+
+    const plainToken = randomBytes(32).toString('hex');
+
+    await this.userTokenRepository.save(
+      this.userTokenRepository.create({
+        userId,
+        type,
+        tokenHash: this.hashToken(plainToken),
+        expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+      }),
+    );
+
+    return plainToken;
+  }
+
+  /**
+   * ✅ Consumir un token (un solo uso)
+   *
+   * @param {string} plainToken - Token recibido del cliente
+   * @param {UserTokenType} type - Propósito esperado del token
+   * @returns {Promise<UserTokenEntity>} El token consumido (con su userId)
+   * @throws {BadRequestException} Si el token no existe, expiró, ya se usó o es de otro tipo
+   */
+  async consume(plainToken: string, type: UserTokenType): Promise<UserTokenEntity> {
+    const token = await this.userTokenRepository.findOne({
+      where: { tokenHash: this.hashToken(plainToken), type },
+    });
+
+    if (!token || !token.isUsable()) {
+      throw new BadRequestException({ code: ErrorCode.USER_TOKEN_INVALID, message: 'El token es inválido o ha expirado' });
+    }
+
+    token.usedAt = new Date();
+    return await this.userTokenRepository.save(token);
+  }
+
+  /**
+   * 🔢 Contar los tokens emitidos a un usuario desde una fecha
+   * Incluye los ya usados, para poder limitar la frecuencia de envío
+   *
+   * @param {number} userId - ID del usuario
+   * @param {UserTokenType} type - Propósito del token
+   * @param {Date} since - Fecha desde la que se cuenta
+   * @returns {Promise<number>} Número de tokens emitidos
+   */
+  async countIssuedSince(userId: number, type: UserTokenType, since: Date): Promise<number> {
+    return await this.userTokenRepository.count({
+      where: { userId, type, createdAt: MoreThanOrEqual(since) },
+    });
+  }
+
+  /**
+   * 🕒 Obtener el último token emitido a un usuario (usado o no)
+   *
+   * @param {number} userId - ID del usuario
+   * @param {UserTokenType} type - Propósito del token
+   * @returns {Promise<UserTokenEntity | null>} El token más reciente o null
+   */
+  async findLatest(userId: number, type: UserTokenType): Promise<UserTokenEntity | null> {
+    return await this.userTokenRepository.findOne({
+      where: { userId, type },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * 🧹 Eliminar tokens expirados o ya usados (cada hora)
+   *
+   * Los tokens usados se conservan un día para que el límite de reenvíos
+   * pueda contarlos; después se eliminan junto con los expirados.
+   *
+   * @returns {Promise<number>} Número de tokens eliminados
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async cleanupExpiredTokens(): Promise<number> {
+    const now = new Date();
+    const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+
+    const expired = await this.userTokenRepository.delete({ expiresAt: LessThan(now) });
+    const used = await this.userTokenRepository.delete({ usedAt: Not(IsNull()), createdAt: LessThan(oneDayAgo) });
+
+    const removed = (expired.affected ?? 0) + (used.affected ?? 0);
+    this.logger.log(`🧹 Tokens de usuario eliminados (expirados o usados): ${removed}`);
+
+    return removed;
+  }
+
+  /**
+   * 🔒 Método privado para obtener el hash SHA-256 de un token
+   * @private
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BodyMeasurementsController } from './controllers/body-measurements.controller';
+import { BodyMeasurementsService } from './services/body-measurements.service';
+import { BodyMeasurementEntity } from './entities/body-measurement.entity';
+import { UserEntity } from '../users/entities/user.entity';
+
+/**
+ * 📦 Módulo de mediciones corporales
+ * Agrupa toda la funcionalidad relacionada con el seguimiento del cuerpo:
+ * - Serie temporal de peso, grasa corporal y perímetros
+ * - Tendencia calculada en el servidor (medias móviles, cambio semanal, objetivo)
+ * - Relación con UserEntity para validaciones y para sincronizar el peso del perfil
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([BodyMeasurementEntity, UserEntity]), // 🗄️ Registrar los repositorios necesarios
+  ],
+  controllers: [BodyMeasurementsController],
+  providers: [BodyMeasurementsService],
+  exports: [BodyMeasurementsService], // Exporta el servicio para ser usado en otros módulos
+})
+export class BodyMeasurementsModule {}
@@ -0,0 +1,149 @@
+import { Controller, Get, Post, Delete, Param, Query, Body, HttpStatus, HttpCode } from '@nestjs/common';
+import { CreateBodyMeasurementDto, BodyMeasurementRangeDto, BodyMeasurementTrendQueryDto } from '../dto/body-measurement.dto';
+import { BodyMeasurementEntity } from '../entities/body-measurement.entity';
+import type { BodyMeasurementTrend } from '../interfaces/body-measurement.interface';
+import { BodyMeasurementsService } from '../services/body-measurements.service';
+import { UserEntity } from '../../users/entities/user.entity';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { I18nService } from '../../i18n/services/i18n.service';
+
+/**
+ * 📏 Controlador de mediciones corporales - Endpoints de la API REST
+ *
+ * Este controlador maneja el registro de peso y medidas de los usuarios
+ * y la tendencia calculada para las gráficas del dashboard.
+ * Son datos de salud: solo el propio usuario, sus profesionales asignados
+ * (entrenador o nutricionista) o un admin pueden consultarlos.
+ *
+ * @class BodyMeasurementsController
+ * @description Controlador REST para mediciones corporales
+ */
+@Controller('body-measurements') // Prefijo de ruta: /body-measurements
+export class BodyMeasurementsController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param bodyMeasurementsService - Servicio con la lógica de negocio
+   * @param i18nService - Mensajes de respuesta en el idioma de la petición
+   */
+  constructor(
+    private readonly bodyMeasurementsService: BodyMeasurementsService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * 📊 Obtener la tendencia de mediciones de un usuario (Status: 200 OK)
+   *
+   * Medias móviles de peso, cambio semanal y progreso hacia el peso objetivo.
+   *
+   * @route GET /body-measurements/user/:userId/trend
+   * @param {string} userId - ID del usuario en la URL
+   * @query {string} [from] - Desde (YYYY-MM-DD, default: 90 días antes de `to`)
+   * @query {string} [to] - Hasta (YYYY-MM-DD, default: hoy)
+   * @query {number} [windowDays] - Días de la media móvil (default: 7)
+   * @returns {Promise<BodyMeasurementTrend>} Tendencia lista para graficar
+   * @status 200 - Tendencia calculada (con o sin mediciones)
+   * @status 400 - Parámetros inválidos
+   * @status 403 - Sin acceso a las mediciones de ese usuario
+   * @status 404 - Usuario no encontrado o no activo
+   *
+   * @example
+   * GET http://localhost:3000/body-measurements/user/1/trend?from=2025-01-01&windowDays=7
+   * Response: { userId: 1, weightPoints: [...], weeklyChangeKg: -0.45, goal: { progressPercent: 40, ... }, ... }
+   */
+  @Get('user/:userId/trend')
+  async getTrend(@Param('userId') userId: string, @Query() queryDto: BodyMeasurementTrendQueryDto, @CurrentUser() currentUser: UserEntity): Promise<BodyMeasurementTrend> {
+    const userIdNumber = parseInt(userId);
+    return await this.bodyMeasurementsService.getTrend(userIdNumber, queryDto, currentUser);
+  }
+
+  /**
+   * 👤 Obtener las mediciones de un usuario por rango de fechas (Status: 200 OK)
+   *
+   * @route GET /body-measurements/user/:userId
+   * @param {string} userId - ID del usuario en la URL
+   * @query {string} [from] - Desde (YYYY-MM-DD, inclusive)
+   * @query {string} [to] - Hasta (YYYY-MM-DD, inclusive)
+   * @returns {Promise<BodyMeasurementEntity[]>} Mediciones de la más antigua a la más reciente
+   * @status 200 - Mediciones encontradas
+   * @status 403 - Sin acceso a las mediciones de ese usuario
+   * @status 404 - Usuario no encontrado o no activo
+   *
+   * @example
+   * GET http://localhost:3000/body-measurements/user/1?from=2025-01-01&to=2025-03-31
+   */
+  @Get('user/:userId')
+  async getMeasurementsByUser(@Param('userId') userId: string, @Query() rangeDto: BodyMeasurementRangeDto, @CurrentUser() currentUser: UserEntity): Promise<BodyMeasurementEntity[]> {
+    const userIdNumber = parseInt(userId);
+    return await this.bodyMeasurementsService.findByUserId(userIdNumber, rangeDto, currentUser);
+  }
+
+  /**
+   * ➕ Registrar una medición corporal (Status: 201 Created)
+   *
+   * Si no se envía userId, la medición se registra para el usuario autenticado.
+   * Si incluye peso y es la más reciente, actualiza el peso del perfil.
+   *
+   * @route POST /body-measurements
+   * @body {CreateBodyMeasurementDto} createDto - Fecha y al menos una medida
+   * @returns {Promise<BodyMeasurementEntity>} La medición creada
+   * @status 201 - Medición registrada exitosamente
+   * @status 400 - Datos inválidos o ninguna medida enviada
+   * @status 403 - Sin acceso a las mediciones de ese usuario
+   * @status 404 - Usuario no encontrado
+   * @status 409 - Ya existe una medición ese día
+   *
+   * @example
+   * POST http://localhost:3000/body-measurements
+   * Body: { "measuredOn": "2025-01-15", "weightKg": 72.4, "bodyFatPercent": 18.5, "waistCm": 81 }
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createMeasurement(@Body() createDto: CreateBodyMeasurementDto, @CurrentUser() currentUser: UserEntity): Promise<BodyMeasurementEntity> {
+    return await this.bodyMeasurementsService.create(createDto, currentUser);
+  }
+
+  /**
+   * 🗑️ Eliminar una medición corporal (Status: 200 OK)
+   *
+   * @route DELETE /body-measurements/:id
+   * @param {string} id - ID de la medición en la URL
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Medición eliminada exitosamente
+   * @status 400 - ID inválido
+   * @status 403 - Sin acceso a esta medición
+   * @status 404 - Medición no encontrada
+   * @status 409 - Medición ya estaba eliminada
+   *
+   * @example
+   * DELETE http://localhost:3000/body-measurements/1
+   * Response: { "message": "✅ Medición del 2025-01-15 eliminada exitosamente" }
+   */
+  @Delete(':id')
+  async deleteMeasurement(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<{ message: string }> {
+    const measurementId = parseInt(id);
+    const deletedMeasurement = await this.bodyMeasurementsService.remove(measurementId, currentUser);
+    return {
+      message: this.i18nService.translate('bodyMeasurementDeleted', { date: deletedMeasurement.measuredOn }),
+    };
+  }
+
+  /**
+   * 📏 Obtener una medición corporal por ID (Status: 200 OK o 404 Not Found)
+   *
+   * @route GET /body-measurements/:id
+   * @param {string} id - ID de la medición en la URL
+   * @returns {Promise<BodyMeasurementEntity>} La medición encontrada
+   * @status 200 - Medición encontrada
+   * @status 400 - ID inválido (no es un número)
+   * @status 403 - Sin acceso a esta medición
+   * @status 404 - Medición no encontrada
+   *
+   * @example
+   * GET http://localhost:3000/body-measurements/1
+   */
+  @Get(':id') // Este decorador debe ir DESPUÉS de otros @Get más específicos
+  async getMeasurementById(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<BodyMeasurementEntity> {
+    const measurementId = parseInt(id);
+    return await this.bodyMeasurementsService.findOne(measurementId, currentUser);
+  }
+}
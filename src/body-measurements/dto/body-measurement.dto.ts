@@ -0,0 +1,88 @@
+import { IsString, IsNumber, Min, Max, IsOptional, IsDateString, IsInt } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * 📝 DTO para registrar una medición corporal con validaciones automáticas
+ * Todas las medidas son opcionales, pero se debe enviar al menos una
+ */
+export class CreateBodyMeasurementDto {
+  @IsDateString({ strict: true }, { message: 'La fecha de medición debe tener formato YYYY-MM-DD' })
+  measuredOn: string; // 📅 Día de la medición (obligatorio)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El peso debe ser un número' })
+  @Min(20, { message: 'El peso debe ser de al menos 20 kg' })
+  @Max(400, { message: 'El peso debe ser menor o igual a 400 kg' })
+  weightKg?: number; // ⚖️ Peso en kg (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El porcentaje de grasa debe ser un número' })
+  @Min(2, { message: 'El porcentaje de grasa debe ser de al menos 2%' })
+  @Max(75, { message: 'El porcentaje de grasa debe ser menor o igual a 75%' })
+  bodyFatPercent?: number; // 🧈 Grasa corporal en % (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'La cintura debe ser un número' })
+  @Min(30, { message: 'La cintura debe ser de al menos 30 cm' })
+  @Max(250, { message: 'La cintura debe ser menor o igual a 250 cm' })
+  waistCm?: number; // 📐 Cintura en cm (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'La cadera debe ser un número' })
+  @Min(30, { message: 'La cadera debe ser de al menos 30 cm' })
+  @Max(250, { message: 'La cadera debe ser menor o igual a 250 cm' })
+  hipCm?: number; // 📐 Cadera en cm (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El pecho debe ser un número' })
+  @Min(30, { message: 'El pecho debe ser de al menos 30 cm' })
+  @Max(250, { message: 'El pecho debe ser menor o igual a 250 cm' })
+  chestCm?: number; // 📐 Pecho en cm (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El brazo debe ser un número' })
+  @Min(10, { message: 'El brazo debe ser de al menos 10 cm' })
+  @Max(100, { message: 'El brazo debe ser menor o igual a 100 cm' })
+  armCm?: number; // 💪 Brazo en cm (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El muslo debe ser un número' })
+  @Min(20, { message: 'El muslo debe ser de al menos 20 cm' })
+  @Max(150, { message: 'El muslo debe ser menor o igual a 150 cm' })
+  thighCm?: number; // 🦵 Muslo en cm (opcional)
+
+  @IsOptional()
+  @IsString({ message: 'Las notas deben ser una cadena de texto' })
+  notes?: string; // 📝 Notas (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El ID del usuario debe ser un número' })
+  @Min(1, { message: 'El ID del usuario debe ser mayor a 0' })
+  userId?: number; // 👤 ID del usuario (opcional, por defecto: el usuario autenticado)
+}
+
+/**
+ * 📅 DTO para consultar mediciones por rango de fechas
+ */
+export class BodyMeasurementRangeDto {
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha inicial debe tener formato YYYY-MM-DD' })
+  from?: string; // 📅 Desde (opcional, inclusive)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha final debe tener formato YYYY-MM-DD' })
+  to?: string; // 📅 Hasta (opcional, inclusive)
+}
+
+/**
+ * 📊 DTO para consultar la tendencia de mediciones
+ * Por defecto: últimos 90 días con media móvil de 7 días
+ */
+export class BodyMeasurementTrendQueryDto extends BodyMeasurementRangeDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'La ventana de la media móvil debe ser un número entero' })
+  @Min(1, { message: 'La ventana de la media móvil debe ser de al menos 1 día' })
+  @Max(60, { message: 'La ventana de la media móvil debe ser de como máximo 60 días' })
+  windowDays?: number; // 〰️ Días de la media móvil (opcional, default: 7)
+}
@@ -0,0 +1,127 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+
+/**
+ * 📏 Entity de Medición Corporal - Compatible con TypeORM
+ * Representa un registro de peso y medidas de un usuario en un día (serie temporal)
+ * Todas las medidas son opcionales, pero cada registro debe tener al menos una
+ */
+@Entity('body_measurements') // 📋 Nombre de la tabla en la BD
+export class BodyMeasurementEntity {
+  /**
+   * 🆔 Identificador único de la medición
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 📅 Día de la medición (YYYY-MM-DD)
+   * Un usuario tiene como máximo una medición activa por día
+   */
+  @Column({ type: 'date' })
+  measuredOn: string;
+
+  /**
+   * ⚖️ Peso corporal en kg (opcional)
+   */
+  @Column({ type: 'float', nullable: true })
+  weightKg?: number;
+
+  /**
+   * 🧈 Porcentaje de grasa corporal (opcional)
+   */
+  @Column({ type: 'float', nullable: true })
+  bodyFatPercent?: number;
+
+  /**
+   * 📐 Cintura en cm (opcional)
+   */
+  @Column({ type: 'float', nullable: true })
+  waistCm?: number;
+
+  /**
+   * 📐 Cadera en cm (opcional)
+   */
+  @Column({ type: 'float', nullable: true })
+  hipCm?: number;
+
+  /**
+   * 📐 Pecho en cm (opcional)
+   */
+  @Column({ type: 'float', nullable: true })
+  chestCm?: number;
+
+  /**
+   * 💪 Brazo en cm (opcional)
+   */
+  @Column({ type: 'float', nullable: true })
+  armCm?: number;
+
+  /**
+   * 🦵 Muslo en cm (opcional)
+   */
+  @Column({ type: 'float', nullable: true })
+  thighCm?: number;
+
+  /**
+   * 📝 Notas de la medición (opcional)
+   */
+  @Column({ type: 'text', nullable: true })
+  notes?: string;
+
+  /**
+   * ✅ Estado activo del registro
+   * true = activo, false = eliminado (eliminación lógica)
+   */
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  /**
+   * 👤 Relación con el usuario propietario
+   * Una medición pertenece a un usuario (Many-to-One)
+   */
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'user_id' })
+  user: UserEntity;
+
+  /**
+   * 🔗 ID del usuario propietario (clave foránea)
+   */
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  /**
+   * 📅 Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * 🔄 Fecha de última actualización
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 🏗️ Constructor de la entity
+   * Permite crear una instancia con valores iniciales
+   */
+  constructor(partial: Partial<BodyMeasurementEntity> = {}) {
+    Object.assign(this, partial);
+
+    // Valores por defecto si no se proporcionan
+    this.isActive = this.isActive ?? true;
+    this.createdAt = this.createdAt ?? new Date();
+    this.updatedAt = this.updatedAt ?? new Date();
+  }
+
+  /**
+   * 🧮 Método para calcular la relación cintura-cadera
+   * Devuelve undefined si falta alguna de las dos medidas
+   */
+  getWaistToHipRatio(): number | undefined {
+    if (!this.waistCm || !this.hipCm) return undefined;
+    return Math.round((this.waistCm / this.hipCm) * 100) / 100;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * 📏 Medidas corporales que se pueden registrar
+ * Se usa para recorrer las medidas de forma genérica (últimos valores, validaciones)
+ */
+export const BODY_MEASUREMENT_FIELDS = ['weightKg', 'bodyFatPercent', 'waistCm', 'hipCm', 'chestCm', 'armCm', 'thighCm'] as const;
+
+/**
+ * 🏷️ Nombre de una medida corporal
+ */
+export type BodyMeasurementField = (typeof BODY_MEASUREMENT_FIELDS)[number];
+
+/**
+ * 📈 Punto de la serie de peso para gráficas
+ */
+export interface WeightTrendPoint {
+  date: string; // 📅 Día de la medición (YYYY-MM-DD)
+  weightKg: number; // ⚖️ Peso registrado ese día
+  movingAverageKg: number; // 〰️ Media móvil de los días de la ventana
+}
+
+/**
+ * 🗓️ Resumen semanal del peso
+ */
+export interface WeeklyWeightChange {
+  weekStart: string; // 📅 Lunes de la semana (YYYY-MM-DD)
+  averageWeightKg: number; // ⚖️ Peso medio de la semana
+  changeKg?: number; // 📊 Diferencia con la semana anterior con datos (opcional)
+}
+
+/**
+ * 🎯 Progreso hacia el peso objetivo del usuario
+ */
+export interface GoalWeightProgress {
+  goalWeightKg: number; // 🎯 Peso objetivo
+  startWeightKg: number; // 🚩 Primer peso del rango consultado
+  currentWeightKg: number; // ⚖️ Peso actual (media móvil más reciente)
+  remainingKg: number; // 📏 Lo que falta (negativo = hay que bajar)
+  progressPercent: number; // 📊 Avance 0-100%
+  estimatedGoalDate?: string; // 🔮 Fecha estimada al ritmo actual (opcional)
+}
+
+/**
+ * 📊 Interface de la tendencia de mediciones corporales de un usuario
+ * Se calcula en el servidor para que el cliente no descargue todas las filas
+ */
+export interface BodyMeasurementTrend {
+  userId: number; // 👤 ID del usuario
+  from: string; // 📅 Inicio del rango (YYYY-MM-DD)
+  to: string; // 📅 Fin del rango (YYYY-MM-DD)
+  windowDays: number; // 〰️ Días de la ventana de la media móvil
+  measurementCount: number; // 🔢 Mediciones en el rango
+  weightPoints: WeightTrendPoint[]; // 📈 Serie de peso con media móvil
+  weeklyChangeKg?: number; // 📉 Cambio de peso medio por semana (regresión lineal)
+  weeklyAverages: WeeklyWeightChange[]; // 🗓️ Peso medio por semana
+  latest: Partial<Record<BodyMeasurementField, number>>; // 🆕 Último valor registrado de cada medida
+  goal?: GoalWeightProgress; // 🎯 Progreso hacia el peso objetivo (si el usuario tiene uno)
+}
@@ -0,0 +1,468 @@
+import { Injectable, NotFoundException, ConflictException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Between, IsNull, Not } from 'typeorm';
+import { BodyMeasurementEntity } from '../entities/body-measurement.entity';
+import { CreateBodyMeasurementDto, BodyMeasurementRangeDto, BodyMeasurementTrendQueryDto } from '../dto/body-measurement.dto';
+import { BODY_MEASUREMENT_FIELDS } from '../interfaces/body-measurement.interface';
+import type { BodyMeasurementTrend, BodyMeasurementField, WeightTrendPoint, WeeklyWeightChange, GoalWeightProgress } from '../interfaces/body-measurement.interface';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserStatus } from '../../users/interfaces/user.interface';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 📅 Milisegundos de un día (para aritmética de fechas YYYY-MM-DD)
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 📏 Servicio de mediciones corporales - Lógica de negocio con Base de Datos
+ *
+ * Este servicio maneja la serie temporal de peso y medidas de cada usuario
+ * y calcula en el servidor la tendencia (medias móviles, cambio semanal y
+ * progreso hacia el peso objetivo) para que el cliente no descargue todas las filas.
+ * También mantiene el peso del perfil sincronizado con la medición más reciente.
+ *
+ * @class BodyMeasurementsService
+ * @description Gestiona las mediciones corporales de los usuarios
+ */
+@Injectable()
+export class BodyMeasurementsService {
+  private readonly logger = new Logger(BodyMeasurementsService.name);
+
+  /**
+   * Constructor del servicio
+   * @param bodyMeasurementRepository - Repositorio para BodyMeasurementEntity
+   * @param userRepository - Repositorio para validar usuarios y sincronizar su peso
+   * @param accessControlService - Reglas de acceso a datos de salud
+   */
+  constructor(
+    @InjectRepository(BodyMeasurementEntity)
+    private readonly bodyMeasurementRepository: Repository<BodyMeasurementEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    private readonly accessControlService: AccessControlService,
+  ) {}
+
+  /**
+   * 👤 Obtener las mediciones de un usuario en un rango de fechas
+   *
+   * @param {number} userId - ID del usuario propietario
+   * @param {BodyMeasurementRangeDto} rangeDto - Rango de fechas (opcional, inclusive)
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<BodyMeasurementEntity[]>} Mediciones ordenadas de la más antigua a la más reciente
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador/nutricionista ni admin
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   *
+   * @example
+   * const mediciones = await bodyMeasurementsService.findByUserId(1, { from: '2025-01-01', to: '2025-03-31' }, currentUser);
+   */
+  async findByUserId(userId: number, rangeDto: BodyMeasurementRangeDto, currentUser: UserEntity): Promise<BodyMeasurementEntity[]> {
+    this.logger.log(`👤 Obteniendo mediciones corporales del usuario ${userId}`, rangeDto);
+
+    await this.accessControlService.assertCanAccessBodyMeasurementsOf(currentUser, userId);
+    await this.validateUserExists(userId);
+
+    const whereConditions: Record<string, any> = { userId, isActive: true };
+
+    // Filtrar por rango de fechas (inclusive)
+    if (rangeDto.from || rangeDto.to) {
+      whereConditions.measuredOn = Between(rangeDto.from ?? '0000-01-01', rangeDto.to ?? '9999-12-31');
+    }
+
+    return await this.bodyMeasurementRepository.find({
+      where: whereConditions,
+      order: { measuredOn: 'ASC' },
+    });
+  }
+
+  /**
+   * 📊 Calcular la tendencia de mediciones de un usuario
+   *
+   * Devuelve la serie de peso con media móvil, el cambio semanal (pendiente
+   * de la regresión lineal), el peso medio por semana, el último valor de
+   * cada medida y el progreso hacia el peso objetivo del perfil.
+   *
+   * @param {number} userId - ID del usuario
+   * @param {BodyMeasurementTrendQueryDto} queryDto - Rango (default: últimos 90 días) y ventana (default: 7 días)
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<BodyMeasurementTrend>} Tendencia lista para graficar
+   * @throws {BadRequestException} Si el rango de fechas es inválido
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador/nutricionista ni admin
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   *
+   * @example
+   * const tendencia = await bodyMeasurementsService.getTrend(1, { windowDays: 7 }, currentUser);
+   * console.log(tendencia.weeklyChangeKg); // -0.45
+   */
+  async getTrend(userId: number, queryDto: BodyMeasurementTrendQueryDto, currentUser: UserEntity): Promise<BodyMeasurementTrend> {
+    this.logger.log(`📊 Calculando tendencia de mediciones del usuario ${userId}`, queryDto);
+
+    const to = queryDto.to ?? new Date().toISOString().slice(0, 10);
+    const from = queryDto.from ?? this.addDays(to, -89);
+    const windowDays = queryDto.windowDays ?? 7;
+
+    if (from > to) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_DATE_RANGE, message: 'La fecha inicial debe ser anterior o igual a la fecha final' });
+    }
+
+    await this.accessControlService.assertCanAccessBodyMeasurementsOf(currentUser, userId);
+    const user = await this.validateUserExists(userId);
+
+    const measurements = await this.bodyMeasurementRepository.find({
+      where: { userId, isActive: true, measuredOn: Between(from, to) },
+      order: { measuredOn: 'ASC' },
+    });
+
+    const weightPoints = this.buildWeightPoints(measurements, windowDays);
+    const weeklyChangeKg = this.calculateWeeklyChange(weightPoints);
+
+    return {
+      userId,
+      from,
+      to,
+      windowDays,
+      measurementCount: measurements.length,
+      weightPoints,
+      weeklyChangeKg,
+      weeklyAverages: this.buildWeeklyAverages(weightPoints),
+      latest: this.getLatestValues(measurements),
+      goal: this.calculateGoalProgress(user.goalWeightKg, weightPoints, weeklyChangeKg),
+    };
+  }
+
+  /**
+   * 📏 Obtener una medición por ID desde la BD
+   *
+   * @param {number} id - ID único de la medición
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<BodyMeasurementEntity>} La medición encontrada
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador/nutricionista ni admin
+   * @throws {NotFoundException} Si la medición no existe
+   */
+  async findOne(id: number, currentUser: UserEntity): Promise<BodyMeasurementEntity> {
+    this.logger.log(`🔍 Buscando medición corporal con ID: ${id} en la BD`);
+
+    const measurement = await this.findMeasurementEntity(id);
+    await this.accessControlService.assertCanAccessBodyMeasurementsOf(currentUser, measurement.userId);
+
+    return measurement;
+  }
+
+  /**
+   * ➕ Registrar una nueva medición corporal en la BD
+   *
+   * Valida que haya al menos una medida y que no exista otra medición
+   * activa el mismo día. Si incluye peso, actualiza el peso del perfil
+   * cuando es la medición más reciente.
+   *
+   * @param {CreateBodyMeasurementDto} createDto - Datos de la medición
+   * @param {UserEntity} currentUser - Usuario autenticado (propietario por defecto)
+   * @returns {Promise<BodyMeasurementEntity>} La medición creada
+   * @throws {BadRequestException} Si no se envía ninguna medida
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador/nutricionista ni admin
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   * @throws {ConflictException} Si ya hay una medición ese día
+   *
+   * @example
+   * const medicion = await bodyMeasurementsService.create({ measuredOn: '2025-01-15', weightKg: 72.4, waistCm: 81 }, currentUser);
+   */
+  async create(createDto: CreateBodyMeasurementDto, currentUser: UserEntity): Promise<BodyMeasurementEntity> {
+    this.logger.log('➕ Registrando nueva medición corporal en la BD', createDto);
+
+    // Si no se indica usuario, la medición es del usuario autenticado
+    const userId = createDto.userId ?? currentUser.id;
+
+    await this.accessControlService.assertCanAccessBodyMeasurementsOf(currentUser, userId);
+    await this.validateUserExists(userId);
+
+    if (BODY_MEASUREMENT_FIELDS.every((field) => createDto[field] === undefined)) {
+      throw new BadRequestException({ code: ErrorCode.BODY_MEASUREMENT_EMPTY, message: `Debes enviar al menos una medida: ${BODY_MEASUREMENT_FIELDS.join(', ')}`, params: { fields: BODY_MEASUREMENT_FIELDS.join(', ') } });
+    }
+
+    const existingMeasurement = await this.bodyMeasurementRepository.findOne({
+      where: { userId, measuredOn: createDto.measuredOn, isActive: true },
+    });
+
+    if (existingMeasurement) {
+      throw new ConflictException({ code: ErrorCode.BODY_MEASUREMENT_DATE_TAKEN, message: `Ya existe una medición activa para el ${createDto.measuredOn}`, params: { date: createDto.measuredOn } });
+    }
+
+    const measurement = this.bodyMeasurementRepository.create({
+      measuredOn: createDto.measuredOn,
+      weightKg: createDto.weightKg,
+      bodyFatPercent: createDto.bodyFatPercent,
+      waistCm: createDto.waistCm,
+      hipCm: createDto.hipCm,
+      chestCm: createDto.chestCm,
+      armCm: createDto.armCm,
+      thighCm: createDto.thighCm,
+      notes: createDto.notes?.trim(),
+      userId,
+      isActive: true,
+    });
+
+    const savedMeasurement = await this.bodyMeasurementRepository.save(measurement);
+    this.logger.log(`✅ Medición corporal registrada exitosamente en la BD con ID: ${savedMeasurement.id}`);
+
+    if (savedMeasurement.weightKg !== undefined) {
+      await this.syncUserWeight(userId);
+    }
+
+    return savedMeasurement;
+  }
+
+  /**
+   * 🗑️ Eliminar una medición corporal (eliminación lógica) en la BD
+   *
+   * Si era la medición más reciente con peso, el peso del perfil pasa
+   * a ser el de la anterior.
+   *
+   * @param {number} id - ID de la medición a eliminar
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<BodyMeasurementEntity>} La medición marcada como eliminada
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador/nutricionista ni admin
+   * @throws {NotFoundException} Si la medición no existe
+   * @throws {ConflictException} Si la medición ya estaba eliminada
+   */
+  async remove(id: number, currentUser: UserEntity): Promise<BodyMeasurementEntity> {
+    this.logger.log(`🗑️ Eliminando medición corporal ID ${id} en la BD`);
+
+    const measurement = await this.findMeasurementEntity(id);
+    await this.accessControlService.assertCanAccessBodyMeasurementsOf(currentUser, measurement.userId);
+
+    if (!measurement.isActive) {
+      throw new ConflictException({ code: ErrorCode.BODY_MEASUREMENT_ALREADY_DELETED, message: `Medición corporal con ID ${id} ya estaba eliminada`, params: { id } });
+    }
+
+    // Eliminación lógica: cambiar isActive a false
+    measurement.isActive = false;
+    const deletedMeasurement = await this.bodyMeasurementRepository.save(measurement);
+    this.logger.log(`✅ Medición corporal ID ${id} eliminada exitosamente en la BD`);
+
+    if (deletedMeasurement.weightKg !== null) {
+      await this.syncUserWeight(deletedMeasurement.userId);
+    }
+
+    return deletedMeasurement;
+  }
+
+  /**
+   * 🔍 Método privado para cargar una medición o lanzar 404
+   * @private
+   */
+  private async findMeasurementEntity(id: number): Promise<BodyMeasurementEntity> {
+    if (isNaN(id)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const measurement = await this.bodyMeasurementRepository.findOne({
+      where: { id },
+    });
+
+    if (!measurement) {
+      throw new NotFoundException({ code: ErrorCode.BODY_MEASUREMENT_NOT_FOUND, message: `Medición corporal con ID ${id} no encontrada`, params: { id } });
+    }
+
+    return measurement;
+  }
+
+  /**
+   * 👤 Método privado para validar que un usuario existe y está activo
+   *
+   * @param {number} userId - ID del usuario a validar
+   * @returns {Promise<UserEntity>} El usuario encontrado
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   * @private
+   */
+  private async validateUserExists(userId: number): Promise<UserEntity> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId, status: UserStatus.ACTIVE },
+    });
+
+    if (!user) {
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${userId} no encontrado o no está activo`, params: { id: userId } });
+    }
+
+    return user;
+  }
+
+  /**
+   * ⚖️ Método privado para copiar al perfil el peso de la medición más reciente
+   *
+   * Así los objetivos nutricionales se calculan siempre con el peso actual.
+   * Si ya no quedan mediciones con peso, el perfil conserva su último valor.
+   *
+   * @param {number} userId - ID del usuario
+   * @private
+   */
+  private async syncUserWeight(userId: number): Promise<void> {
+    const latestWithWeight = await this.bodyMeasurementRepository.findOne({
+      where: { userId, isActive: true, weightKg: Not(IsNull()) },
+      order: { measuredOn: 'DESC' },
+    });
+
+    if (latestWithWeight?.weightKg !== undefined) {
+      await this.userRepository.update({ id: userId }, { weightKg: latestWithWeight.weightKg });
+      this.logger.log(`⚖️ Peso del usuario ${userId} actualizado a ${latestWithWeight.weightKg} kg`);
+    }
+  }
+
+  /**
+   * 〰️ Método privado que construye la serie de peso con media móvil
+   *
+   * La media de cada punto incluye las mediciones de los últimos `windowDays` días
+   * (incluido el propio día), así los huecos sin datos no distorsionan la curva.
+   *
+   * @private
+   */
+  private buildWeightPoints(measurements: BodyMeasurementEntity[], windowDays: number): WeightTrendPoint[] {
+    const weights = measurements.filter((measurement) => measurement.weightKg !== null && measurement.weightKg !== undefined);
+    const points: WeightTrendPoint[] = [];
+    let windowStart = 0;
+    let windowSum = 0;
+
+    weights.forEach((measurement, index) => {
+      windowSum += measurement.weightKg as number;
+
+      // Sacar de la ventana las mediciones demasiado antiguas
+      while (this.daysBetween(weights[windowStart].measuredOn, measurement.measuredOn) >= windowDays) {
+        windowSum -= weights[windowStart].weightKg as number;
+        windowStart++;
+      }
+
+      points.push({
+        date: measurement.measuredOn,
+        weightKg: measurement.weightKg as number,
+        movingAverageKg: this.round(windowSum / (index - windowStart + 1)),
+      });
+    });
+
+    return points;
+  }
+
+  /**
+   * 📉 Método privado que calcula el cambio semanal con una regresión lineal
+   *
+   * Usa todos los puntos del rango (no solo el primero y el último) para que
+   * un día atípico no dispare el resultado. Devuelve undefined con menos de dos días.
+   *
+   * @private
+   */
+  private calculateWeeklyChange(points: WeightTrendPoint[]): number | undefined {
+    if (points.length < 2) return undefined;
+
+    const xs = points.map((point) => this.daysBetween(points[0].date, point.date));
+    const ys = points.map((point) => point.weightKg);
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+    let numerator = 0;
+    let denominator = 0;
+    xs.forEach((x, index) => {
+      numerator += (x - meanX) * (ys[index] - meanY);
+      denominator += (x - meanX) ** 2;
+    });
+
+    return denominator === 0 ? undefined : this.round((numerator / denominator) * 7);
+  }
+
+  /**
+   * 🗓️ Método privado que agrupa el peso por semanas (de lunes a domingo)
+   * @private
+   */
+  private buildWeeklyAverages(points: WeightTrendPoint[]): WeeklyWeightChange[] {
+    const weeks = new Map<string, number[]>();
+
+    for (const point of points) {
+      const dayOfWeek = new Date(`${point.date}T00:00:00Z`).getUTCDay(); // 0 = domingo
+      const weekStart = this.addDays(point.date, -((dayOfWeek + 6) % 7));
+      weeks.set(weekStart, [...(weeks.get(weekStart) ?? []), point.weightKg]);
+    }
+
+    const weeklyAverages: WeeklyWeightChange[] = [];
+    for (const [weekStart, weights] of weeks) {
+      const averageWeightKg = this.round(weights.reduce((sum, weight) => sum + weight, 0) / weights.length);
+      const previous = weeklyAverages[weeklyAverages.length - 1];
+
+      weeklyAverages.push({
+        weekStart,
+        averageWeightKg,
+        changeKg: previous ? this.round(averageWeightKg - previous.averageWeightKg) : undefined,
+      });
+    }
+
+    return weeklyAverages;
+  }
+
+  /**
+   * 🆕 Método privado que obtiene el último valor registrado de cada medida
+   * @private
+   */
+  private getLatestValues(measurements: BodyMeasurementEntity[]): Partial<Record<BodyMeasurementField, number>> {
+    const latest: Partial<Record<BodyMeasurementField, number>> = {};
+
+    for (const measurement of measurements) {
+      for (const field of BODY_MEASUREMENT_FIELDS) {
+        const value = measurement[field];
+        if (value !== null && value !== undefined) {
+          latest[field] = value;
+        }
+      }
+    }
+
+    return latest;
+  }
+
+  /**
+   * 🎯 Método privado que calcula el progreso hacia el peso objetivo
+   *
+   * El peso actual es la media móvil más reciente. La fecha estimada solo
+   * se calcula si la tendencia semanal va en la dirección del objetivo.
+   *
+   * @private
+   */
+  private calculateGoalProgress(goalWeightKg: number | undefined, points: WeightTrendPoint[], weeklyChangeKg: number | undefined): GoalWeightProgress | undefined {
+    if (goalWeightKg === null || goalWeightKg === undefined || points.length === 0) return undefined;
+
+    const startWeightKg = points[0].weightKg;
+    const lastPoint = points[points.length - 1];
+    const currentWeightKg = lastPoint.movingAverageKg;
+    const remainingKg = this.round(goalWeightKg - currentWeightKg);
+
+    const totalToChange = goalWeightKg - startWeightKg;
+    const progressPercent = totalToChange === 0 ? 100 : Math.min(Math.max(((currentWeightKg - startWeightKg) / totalToChange) * 100, 0), 100);
+
+    let estimatedGoalDate: string | undefined;
+    if (remainingKg !== 0 && weeklyChangeKg && Math.sign(weeklyChangeKg) === Math.sign(remainingKg)) {
+      estimatedGoalDate = this.addDays(lastPoint.date, Math.ceil((remainingKg / weeklyChangeKg) * 7));
+    }
+
+    return {
+      goalWeightKg,
+      startWeightKg,
+      currentWeightKg,
+      remainingKg,
+      progressPercent: Math.round(progressPercent),
+      estimatedGoalDate,
+    };
+  }
+
+  /**
+   * 📅 Métodos privados de apoyo para fechas YYYY-MM-DD y redondeo
+   * @private
+   */
+  private daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+  }
+
+  private addDays(date: string, days: number): string {
+    return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CoachingRelationshipsController } from './controllers/coaching-relationships.controller';
+import { CoachesController } from './controllers/coaches.controller';
+import { CoachingRelationshipsService } from './services/coaching-relationships.service';
+import { CoachesService } from './services/coaches.service';
+import { CoachingRelationshipEntity } from './entities/coaching-relationship.entity';
+import { CoachReviewEntity } from './entities/coach-review.entity';
+import { UserEntity } from '../users/entities/user.entity';
+import { WorkoutDaysModule } from '../workout-days/workout-days.module';
+
+/**
+ * 📦 Módulo de relaciones profesional-cliente
+ * Agrupa toda la funcionalidad de vinculación entre entrenadores/nutricionistas y clientes:
+ * - Invitaciones con aceptación, rechazo y finalización
+ * - Listados de clientes de un profesional y de profesionales de un cliente
+ * - Directorio de profesionales (/coaches) con valoraciones de sus clientes
+ * - Vistas del profesional sobre los datos del cliente (WorkoutDaysModule)
+ * - La entity también la usa AccessControlService (AuthModule) para dar acceso
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([CoachingRelationshipEntity, CoachReviewEntity, UserEntity]), // 🗄️ Registrar los repositorios necesarios
+    WorkoutDaysModule, // 🏋️ Para la vista de entrenamientos del cliente
+  ],
+  controllers: [CoachingRelationshipsController, CoachesController],
+  providers: [CoachingRelationshipsService, CoachesService],
+  exports: [CoachingRelationshipsService, CoachesService], // Exporta el servicio para ser usado en otros módulos
+})
+export class CoachingModule {}
@@ -0,0 +1,68 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { SearchCoachDto } from '../dto/coach-directory.dto';
+import type { CoachDirectoryEntry, CoachReviewResponse } from '../interfaces/coach-directory.interface';
+import { CoachesService } from '../services/coaches.service';
+import type { Paginated } from '../../common/interfaces/pagination.interface';
+
+/**
+ * 🧑‍🏫 Controlador del directorio de profesionales - Endpoints de la API REST
+ *
+ * Permite descubrir entrenadores y nutricionistas activos y consultar sus
+ * valoraciones. Para contratar a uno se usa POST /coaching-relationships.
+ *
+ * @class CoachesController
+ * @description Controlador REST del directorio de profesionales
+ */
+@Controller('coaches') // Prefijo de ruta: /coaches
+export class CoachesController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param coachesService - Servicio con la lógica de negocio
+   */
+  constructor(private readonly coachesService: CoachesService) {}
+
+  /**
+   * 🔍 Buscar profesionales en el directorio (Status: 200 OK)
+   *
+   * @route GET /coaches
+   * @query {UserRole} [role] - trainer o nutritionist (default: ambos)
+   * @query {string[]} [specialties] - Tiene al menos una (repetido o separado por comas)
+   * @query {string} [location] - Ubicación (búsqueda parcial)
+   * @query {boolean} [acceptingNewClients] - Solo los que aceptan (o no) nuevos clientes
+   * @query {number} [minRating] - Valoración media mínima (1-5)
+   * @query {CoachSortField} [sort] - rating o clients (default: rating)
+   * @query {SortDirection} [order] - asc o desc (default: desc, los mejores primero)
+   * @query {number} [page] - Página (default: 1)
+   * @query {number} [limit] - Resultados por página (default: 20, máximo: 100)
+   * @query {string} [cursor] - nextCursor de la respuesta anterior (en lugar de page)
+   * @returns {Promise<Paginated<CoachDirectoryEntry>>} Página de profesionales con valoración y clientes activos
+   * @status 200 - Búsqueda completada (con o sin resultados)
+   * @status 400 - Parámetros de búsqueda inválidos
+   *
+   * @example
+   * GET http://localhost:3000/coaches?specialties=yoga,hiit&location=madrid&acceptingNewClients=true&sort=rating&page=1&limit=10
+   */
+  @Get()
+  async searchCoaches(@Query() searchDto: SearchCoachDto): Promise<Paginated<CoachDirectoryEntry>> {
+    return await this.coachesService.search(searchDto);
+  }
+
+  /**
+   * ⭐ Obtener las valoraciones de un profesional (Status: 200 OK)
+   *
+   * @route GET /coaches/:id/reviews
+   * @param {string} id - ID del entrenador o nutricionista en la URL
+   * @returns {Promise<CoachReviewResponse[]>} Valoraciones, de la más reciente a la más antigua
+   * @status 200 - Valoraciones encontradas (con o sin resultados)
+   * @status 400 - ID inválido (no es un número)
+   * @status 404 - Profesional no encontrado
+   *
+   * @example
+   * GET http://localhost:3000/coaches/3/reviews
+   */
+  @Get(':id/reviews')
+  async getCoachReviews(@Param('id') id: string): Promise<CoachReviewResponse[]> {
+    const coachId = parseInt(id);
+    return await this.coachesService.findReviews(coachId);
+  }
+}
@@ -0,0 +1,234 @@
+import { Controller, Get, Post, Put, Param, Query, Body, HttpStatus, HttpCode } from '@nestjs/common';
+import { CreateCoachingRelationshipDto, CoachingRelationshipQueryDto } from '../dto/coaching-relationship.dto';
+import { CoachReviewDto } from '../dto/coach-directory.dto';
+import type { CoachingRelationshipResponse } from '../interfaces/coaching-relationship.interface';
+import type { CoachReviewResponse } from '../interfaces/coach-directory.interface';
+import { CoachingRelationshipsService } from '../services/coaching-relationships.service';
+import { CoachesService } from '../services/coaches.service';
+import { WorkoutDayListQueryDto } from '../../workout-days/dto/workout-day.dto';
+import type { WorkoutDayGroup } from '../../workout-days/interfaces/workout-day.interface';
+import type { Paginated } from '../../common/interfaces/pagination.interface';
+import { UserEntity } from '../../users/entities/user.entity';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+
+/**
+ * 🤝 Controlador de relaciones profesional-cliente - Endpoints de la API REST
+ *
+ * Este controlador gestiona las invitaciones entre entrenadores o
+ * nutricionistas y sus clientes, y las vistas del profesional sobre
+ * los datos del cliente. Solo las relaciones activas dan acceso.
+ *
+ * @class CoachingRelationshipsController
+ * @description Controlador REST para relaciones profesional-cliente
+ */
+@Controller('coaching-relationships') // Prefijo de ruta: /coaching-relationships
+export class CoachingRelationshipsController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param coachingRelationshipsService - Servicio con la lógica de negocio
+   * @param coachesService - Servicio de valoraciones de profesionales
+   */
+  constructor(
+    private readonly coachingRelationshipsService: CoachingRelationshipsService,
+    private readonly coachesService: CoachesService,
+  ) {}
+
+  /**
+   * 🧑‍🏫 Obtener los clientes de un profesional (Status: 200 OK)
+   *
+   * @route GET /coaching-relationships/coach/:coachId
+   * @param {string} coachId - ID del entrenador o nutricionista en la URL
+   * @query {CoachingStatus} [status] - Filtrar por estado (default: pendientes y activas)
+   * @returns {Promise<CoachingRelationshipResponse[]>} Relaciones con sus clientes
+   * @status 200 - Clientes encontrados (con o sin resultados)
+   * @status 400 - Estado inválido
+   * @status 403 - Solo el propio profesional o un admin
+   *
+   * @example
+   * GET http://localhost:3000/coaching-relationships/coach/3?status=active
+   */
+  @Get('coach/:coachId')
+  async getClients(@Param('coachId') coachId: string, @Query() queryDto: CoachingRelationshipQueryDto, @CurrentUser() currentUser: UserEntity): Promise<CoachingRelationshipResponse[]> {
+    const coachIdNumber = parseInt(coachId);
+    return await this.coachingRelationshipsService.findClients(coachIdNumber, queryDto, currentUser);
+  }
+
+  /**
+   * 👤 Obtener los profesionales de un cliente (Status: 200 OK)
+   *
+   * @route GET /coaching-relationships/client/:clientId
+   * @param {string} clientId - ID del cliente en la URL
+   * @query {CoachingStatus} [status] - Filtrar por estado (default: pendientes y activas)
+   * @returns {Promise<CoachingRelationshipResponse[]>} Relaciones con sus entrenadores y nutricionistas
+   * @status 200 - Profesionales encontrados (con o sin resultados)
+   * @status 400 - Estado inválido
+   * @status 403 - Solo el propio cliente o un admin
+   *
+   * @example
+   * GET http://localhost:3000/coaching-relationships/client/5
+   */
+  @Get('client/:clientId')
+  async getCoaches(@Param('clientId') clientId: string, @Query() queryDto: CoachingRelationshipQueryDto, @CurrentUser() currentUser: UserEntity): Promise<CoachingRelationshipResponse[]> {
+    const clientIdNumber = parseInt(clientId);
+    return await this.coachingRelationshipsService.findCoaches(clientIdNumber, queryDto, currentUser);
+  }
+
+  /**
+   * 🏋️ Ver los días de entrenamiento del cliente de una relación (Status: 200 OK)
+   *
+   * @route GET /coaching-relationships/:id/workout-days
+   * @param {string} id - ID de la relación en la URL
+   * @query {number} [page] - Página (default: 1)
+   * @query {number} [limit] - Entrenamientos por página (default: 20, máximo: 100)
+   * @query {string} [cursor] - nextCursor de la respuesta anterior (en lugar de page)
+   * @query {WorkoutDaySortField} [sort] - dayOfWeek, name, durationMinutes o createdAt (default: dayOfWeek)
+   * @query {SortDirection} [order] - asc o desc (default: el del campo)
+   * @returns {Promise<Paginated<WorkoutDayGroup>>} Plantilla semanal del cliente agrupada por día y turno (paginada)
+   * @status 200 - Entrenamientos encontrados
+   * @status 400 - ID inválido, la relación no es de entrenamiento o parámetros de paginación inválidos
+   * @status 403 - No es el entrenador de la relación o la relación no está activa
+   * @status 404 - Relación no encontrada
+   *
+   * @example
+   * GET http://localhost:3000/coaching-relationships/4/workout-days
+   */
+  @Get(':id/workout-days')
+  async getClientWorkoutDays(@Param('id') id: string, @Query() queryDto: WorkoutDayListQueryDto, @CurrentUser() currentUser: UserEntity): Promise<Paginated<WorkoutDayGroup>> {
+    const relationshipId = parseInt(id);
+    return await this.coachingRelationshipsService.findClientWorkoutDays(relationshipId, queryDto, currentUser);
+  }
+
+  /**
+   * ✉️ Invitar a una relación profesional-cliente (Status: 201 Created)
+   *
+   * El profesional envía clientId; el cliente envía coachId. La otra parte
+   * debe aceptar. Si la crea un admin que no es parte, queda activa.
+   *
+   * @route POST /coaching-relationships
+   * @body {CreateCoachingRelationshipDto} createDto - Profesional, cliente y mensaje
+   * @returns {Promise<CoachingRelationshipResponse>} La invitación creada
+   * @status 201 - Invitación creada
+   * @status 400 - Datos inválidos o el profesional no es entrenador ni nutricionista
+   * @status 403 - No participa en la relación
+   * @status 404 - Profesional o cliente no encontrado o no activo
+   * @status 409 - Ya hay una invitación pendiente o una relación activa, o el profesional no acepta nuevos clientes
+   *
+   * @example
+   * POST http://localhost:3000/coaching-relationships
+   * Body: { "clientId": 5, "message": "¡Hola! Soy tu nuevo entrenador" }
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async invite(@Body() createDto: CreateCoachingRelationshipDto, @CurrentUser() currentUser: UserEntity): Promise<CoachingRelationshipResponse> {
+    return await this.coachingRelationshipsService.invite(createDto, currentUser);
+  }
+
+  /**
+   * ✅ Aceptar una invitación (Status: 200 OK)
+   *
+   * @route POST /coaching-relationships/:id/accept
+   * @param {string} id - ID de la relación en la URL
+   * @returns {Promise<CoachingRelationshipResponse>} La relación activa
+   * @status 200 - Invitación aceptada
+   * @status 403 - Solo la parte invitada o un admin
+   * @status 404 - Relación no encontrada
+   * @status 409 - La invitación ya no está pendiente
+   *
+   * @example
+   * POST http://localhost:3000/coaching-relationships/4/accept
+   */
+  @Post(':id/accept')
+  @HttpCode(HttpStatus.OK)
+  async accept(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<CoachingRelationshipResponse> {
+    const relationshipId = parseInt(id);
+    return await this.coachingRelationshipsService.accept(relationshipId, currentUser);
+  }
+
+  /**
+   * 🚫 Rechazar una invitación (Status: 200 OK)
+   *
+   * @route POST /coaching-relationships/:id/decline
+   * @param {string} id - ID de la relación en la URL
+   * @returns {Promise<CoachingRelationshipResponse>} La relación rechazada
+   * @status 200 - Invitación rechazada
+   * @status 403 - Solo la parte invitada o un admin
+   * @status 404 - Relación no encontrada
+   * @status 409 - La invitación ya no está pendiente
+   *
+   * @example
+   * POST http://localhost:3000/coaching-relationships/4/decline
+   */
+  @Post(':id/decline')
+  @HttpCode(HttpStatus.OK)
+  async decline(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<CoachingRelationshipResponse> {
+    const relationshipId = parseInt(id);
+    return await this.coachingRelationshipsService.decline(relationshipId, currentUser);
+  }
+
+  /**
+   * 🏁 Finalizar una relación o retirar una invitación (Status: 200 OK)
+   *
+   * @route POST /coaching-relationships/:id/end
+   * @param {string} id - ID de la relación en la URL
+   * @returns {Promise<CoachingRelationshipResponse>} La relación finalizada
+   * @status 200 - Relación finalizada
+   * @status 403 - Solo las partes de la relación o un admin
+   * @status 404 - Relación no encontrada
+   * @status 409 - Ya estaba rechazada o finalizada
+   *
+   * @example
+   * POST http://localhost:3000/coaching-relationships/4/end
+   */
+  @Post(':id/end')
+  @HttpCode(HttpStatus.OK)
+  async end(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<CoachingRelationshipResponse> {
+    const relationshipId = parseInt(id);
+    return await this.coachingRelationshipsService.end(relationshipId, currentUser);
+  }
+
+  /**
+   * ⭐ Valorar al profesional de la relación (Status: 200 OK)
+   *
+   * Solo el cliente, con la relación activa o finalizada. Si ya la había
+   * valorado, se reemplaza la valoración anterior.
+   *
+   * @route PUT /coaching-relationships/:id/review
+   * @param {string} id - ID de la relación en la URL
+   * @body {CoachReviewDto} reviewDto - Puntuación (1-5) y comentario
+   * @returns {Promise<CoachReviewResponse>} La valoración guardada
+   * @status 200 - Valoración guardada
+   * @status 400 - Datos inválidos
+   * @status 403 - Solo el cliente de la relación
+   * @status 404 - Relación no encontrada
+   * @status 409 - La relación nunca llegó a estar activa
+   *
+   * @example
+   * PUT http://localhost:3000/coaching-relationships/4/review
+   * Body: { "rating": 5, "comment": "¡Muy recomendable!" }
+   */
+  @Put(':id/review')
+  async review(@Param('id') id: string, @Body() reviewDto: CoachReviewDto, @CurrentUser() currentUser: UserEntity): Promise<CoachReviewResponse> {
+    const relationshipId = parseInt(id);
+    return await this.coachesService.reviewRelationship(relationshipId, reviewDto, currentUser);
+  }
+
+  /**
+   * 🤝 Obtener una relación por ID (Status: 200 OK o 404 Not Found)
+   *
+   * @route GET /coaching-relationships/:id
+   * @param {string} id - ID de la relación en la URL
+   * @returns {Promise<CoachingRelationshipResponse>} La relación con ambas partes
+   * @status 200 - Relación encontrada
+   * @status 400 - ID inválido (no es un número)
+   * @status 403 - Solo las partes de la relación o un admin
+   * @status 404 - Relación no encontrada
+   *
+   * @example
+   * GET http://localhost:3000/coaching-relationships/4
+   */
+  @Get(':id') // Este decorador debe ir DESPUÉS de otros @Get más específicos
+  async getRelationshipById(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<CoachingRelationshipResponse> {
+    const relationshipId = parseInt(id);
+    return await this.coachingRelationshipsService.findOne(relationshipId, currentUser);
+  }
+}
@@ -0,0 +1,60 @@
+import { IsOptional, IsString, IsEnum, IsIn, IsArray, IsBoolean, IsInt, IsNumber, Min, Max, MaxLength } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { UserRole } from '../../users/interfaces/user.interface';
+import { CoachSortField } from '../interfaces/coach-directory.interface';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { ToArray } from '../../common/decorators/to-array.decorator';
+
+/**
+ * 🔍 DTO para buscar en el directorio de profesionales
+ * Solo lista entrenadores y nutricionistas activos. Incluye la paginación común (page/cursor, limit, order).
+ * specialties acepta valores repetidos (?specialties=yoga&specialties=hiit) o separados por comas (?specialties=yoga,hiit)
+ */
+export class SearchCoachDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsIn([UserRole.TRAINER, UserRole.NUTRITIONIST], { message: 'El rol debe ser: trainer o nutritionist' })
+  role?: UserRole; // 🎭 Entrenadores o nutricionistas (opcional, default: ambos)
+
+  @IsOptional()
+  @ToArray()
+  @IsArray({ message: 'Las especialidades deben ser una lista' })
+  @IsString({ each: true, message: 'Cada especialidad debe ser una cadena de texto' })
+  @MaxLength(50, { each: true, message: 'Cada especialidad debe tener como máximo 50 caracteres' })
+  specialties?: string[]; // 🎯 Tiene al menos una de estas especialidades (opcional, sin distinguir mayúsculas)
+
+  @IsOptional()
+  @IsString({ message: 'La ubicación debe ser una cadena de texto' })
+  location?: string; // 📍 Ubicación (opcional, búsqueda parcial)
+
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean({ message: 'acceptingNewClients debe ser true o false' })
+  acceptingNewClients?: boolean; // 🟢 Solo los que aceptan (o no) nuevos clientes (opcional)
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'La valoración mínima debe ser un número' })
+  @Min(1, { message: 'La valoración mínima debe ser de al menos 1' })
+  @Max(5, { message: 'La valoración mínima debe ser como máximo 5' })
+  minRating?: number; // ⭐ Valoración media mínima (opcional)
+
+  @IsOptional()
+  @IsEnum(CoachSortField, { message: 'El orden debe ser: rating o clients' })
+  sort?: CoachSortField; // 🏆 Criterio de orden (opcional, default: rating)
+}
+
+/**
+ * ⭐ DTO para valorar al profesional de una relación
+ * Si el cliente ya la había valorado, se reemplaza
+ */
+export class CoachReviewDto {
+  @IsInt({ message: 'La valoración debe ser un número entero' })
+  @Min(1, { message: 'La valoración debe ser de al menos 1 estrella' })
+  @Max(5, { message: 'La valoración debe ser como máximo 5 estrellas' })
+  rating: number; // ⭐ Puntuación de 1 a 5 (obligatorio)
+
+  @IsOptional()
+  @IsString({ message: 'El comentario debe ser una cadena de texto' })
+  @MaxLength(1000, { message: 'El comentario debe tener como máximo 1000 caracteres' })
+  comment?: string; // 📝 Comentario (opcional)
+}
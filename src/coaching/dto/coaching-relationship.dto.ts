@@ -0,0 +1,33 @@
+import { IsNumber, Min, IsOptional, IsString, MaxLength, IsEnum } from 'class-validator';
+import { CoachingStatus } from '../interfaces/coaching-relationship.interface';
+
+/**
+ * ✉️ DTO para invitar a una relación profesional-cliente
+ * El profesional invita enviando clientId; el cliente solicita enviando coachId.
+ * La parte que falta es el usuario autenticado
+ */
+export class CreateCoachingRelationshipDto {
+  @IsOptional()
+  @IsNumber({}, { message: 'El ID del profesional debe ser un número' })
+  @Min(1, { message: 'El ID del profesional debe ser mayor a 0' })
+  coachId?: number; // 🧑‍🏫 Entrenador o nutricionista (opcional, default: el usuario autenticado)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El ID del cliente debe ser un número' })
+  @Min(1, { message: 'El ID del cliente debe ser mayor a 0' })
+  clientId?: number; // 👤 Cliente (opcional, default: el usuario autenticado)
+
+  @IsOptional()
+  @IsString({ message: 'El mensaje debe ser una cadena de texto' })
+  @MaxLength(500, { message: 'El mensaje debe tener como máximo 500 caracteres' })
+  message?: string; // 📝 Mensaje para la otra parte (opcional)
+}
+
+/**
+ * 🔍 DTO para filtrar las relaciones de un profesional o de un cliente
+ */
+export class CoachingRelationshipQueryDto {
+  @IsOptional()
+  @IsEnum(CoachingStatus, { message: 'El estado debe ser: pending, active, declined o ended' })
+  status?: CoachingStatus; // 📊 Estado (opcional, default: pendientes y activas)
+}
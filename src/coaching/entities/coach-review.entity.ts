@@ -0,0 +1,82 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { CoachingRelationshipEntity } from './coaching-relationship.entity';
+
+/**
+ * ⭐ Entity de Valoración de un Profesional - Compatible con TypeORM
+ * La escribe el cliente de una relación activa o finalizada.
+ * Una sola valoración por relación (se puede editar)
+ */
+@Entity('coach_reviews') // 📋 Nombre de la tabla en la BD
+export class CoachReviewEntity {
+  /**
+   * 🆔 Identificador único de la valoración
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * ⭐ Puntuación de 1 a 5 estrellas
+   */
+  @Column({ type: 'int' })
+  rating: number;
+
+  /**
+   * 📝 Comentario del cliente (opcional)
+   */
+  @Column({ type: 'text', nullable: true })
+  comment?: string | null;
+
+  /**
+   * 🤝 Relación valorada (Many-to-One)
+   */
+  @ManyToOne(() => CoachingRelationshipEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'relationship_id' })
+  relationship: CoachingRelationshipEntity;
+
+  /**
+   * 🔗 ID de la relación (clave foránea, única: una valoración por relación)
+   */
+  @Column({ name: 'relationship_id', unique: true })
+  relationshipId: number;
+
+  /**
+   * 🧑‍🏫 Relación con el profesional valorado (Many-to-One)
+   * Se copia de la relación para calcular la media sin joins
+   */
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'coach_id' })
+  coach: UserEntity;
+
+  /**
+   * 🔗 ID del profesional (clave foránea)
+   */
+  @Column({ name: 'coach_id' })
+  coachId: number;
+
+  /**
+   * 👤 Relación con el cliente que valora (Many-to-One)
+   */
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'client_id' })
+  client: UserEntity;
+
+  /**
+   * 🔗 ID del cliente (clave foránea)
+   */
+  @Column({ name: 'client_id' })
+  clientId: number;
+
+  /**
+   * 📅 Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * 🔄 Fecha de última actualización
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,124 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { CoachingType, CoachingStatus } from '../interfaces/coaching-relationship.interface';
+
+/**
+ * 🤝 Entity de Relación Profesional-Cliente - Compatible con TypeORM
+ * Vincula a un entrenador o nutricionista con un cliente.
+ * Ciclo de vida: pending → active / declined, active → ended
+ */
+@Entity('coaching_relationships') // 📋 Nombre de la tabla en la BD
+export class CoachingRelationshipEntity {
+  /**
+   * 🆔 Identificador único de la relación
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 🤝 Tipo de relación (training o nutrition)
+   * Se deduce del rol del profesional al crear la invitación
+   */
+  @Column({ type: 'varchar', enum: CoachingType })
+  type: CoachingType;
+
+  /**
+   * 📊 Estado de la relación
+   * Solo 'active' da acceso al profesional a los datos del cliente
+   */
+  @Column({ type: 'varchar', enum: CoachingStatus, default: CoachingStatus.PENDING })
+  status: CoachingStatus;
+
+  /**
+   * 📝 Mensaje de la invitación (opcional)
+   */
+  @Column({ type: 'text', nullable: true })
+  message?: string;
+
+  /**
+   * ✅ Fecha en que se aceptó la invitación (opcional)
+   */
+  @Column({ type: Date, nullable: true })
+  startedAt?: Date | null;
+
+  /**
+   * 🏁 Fecha en que se rechazó o finalizó (opcional)
+   */
+  @Column({ type: Date, nullable: true })
+  endedAt?: Date | null;
+
+  /**
+   * 🧑‍🏫 Relación con el profesional (Many-to-One)
+   */
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'coach_id' })
+  coach: UserEntity;
+
+  /**
+   * 🔗 ID del profesional (clave foránea)
+   */
+  @Column({ name: 'coach_id' })
+  coachId: number;
+
+  /**
+   * 👤 Relación con el cliente (Many-to-One)
+   */
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'client_id' })
+  client: UserEntity;
+
+  /**
+   * 🔗 ID del cliente (clave foránea)
+   */
+  @Column({ name: 'client_id' })
+  clientId: number;
+
+  /**
+   * ✉️ ID de quien envió la invitación (el profesional, el cliente o un admin)
+   * La otra parte es quien puede aceptarla o rechazarla
+   */
+  @Column({ name: 'invited_by_id' })
+  invitedById: number;
+
+  /**
+   * 📅 Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * 🔄 Fecha de última actualización
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * ⏳ Método para verificar si la invitación está pendiente de respuesta
+   */
+  isPending(): boolean {
+    return this.status === CoachingStatus.PENDING;
+  }
+
+  /**
+   * ✅ Método para verificar si la relación está activa
+   */
+  isActive(): boolean {
+    return this.status === CoachingStatus.ACTIVE;
+  }
+
+  /**
+   * 👥 Método para verificar si un usuario es una de las dos partes
+   */
+  involves(userId: number): boolean {
+    return this.coachId === userId || this.clientId === userId;
+  }
+
+  /**
+   * ✉️ Método para saber si un usuario es quien debe responder la invitación
+   * Es la parte que no la envió
+   */
+  isInvitee(userId: number): boolean {
+    return this.involves(userId) && this.invitedById !== userId;
+  }
+}
@@ -0,0 +1,42 @@
+import { UserRole } from '../../users/interfaces/user.interface';
+
+/**
+ * 🏆 Enumeración de criterios de orden del directorio de profesionales
+ * En caso de empate se usa el otro criterio y, por último, el ID
+ */
+export enum CoachSortField {
+  RATING = 'rating', // ⭐ Mejor valoración media primero (sin valoraciones al final)
+  CLIENTS = 'clients', // 👥 Más clientes activos primero
+}
+
+/**
+ * 🧑‍🏫 Interface de un profesional en el directorio
+ * Solo datos públicos: sin email, teléfono ni métricas corporales
+ */
+export interface CoachDirectoryEntry {
+  id: number; // 🆔 ID del profesional
+  name: string; // 📛 Nombre
+  role: UserRole; // 🎭 trainer o nutritionist
+  avatar?: string; // 🖼️ Foto de perfil (opcional)
+  bio?: string; // 📝 Biografía (opcional)
+  location?: string; // 📍 Ubicación (opcional)
+  specialties: string[]; // 🎯 Especialidades
+  acceptingNewClients: boolean; // 🟢 Acepta nuevos clientes
+  averageRating: number | null; // ⭐ Valoración media (1-5, con un decimal; null si no tiene valoraciones)
+  reviewCount: number; // 📝 Número de valoraciones
+  activeClients: number; // 👥 Clientes con relación activa
+}
+
+/**
+ * ⭐ Interface de respuesta de una valoración
+ */
+export interface CoachReviewResponse {
+  id: number; // 🆔 ID de la valoración
+  relationshipId: number; // 🤝 Relación valorada
+  coachId: number; // 🧑‍🏫 Profesional valorado
+  client: { id: number; name: string; avatar?: string }; // 👤 Cliente que valora (datos públicos)
+  rating: number; // ⭐ Puntuación de 1 a 5
+  comment?: string; // 📝 Comentario (opcional)
+  createdAt: string; // 📅 Cuándo se creó (ISO string)
+  updatedAt: string; // 🔄 Última edición (ISO string)
+}
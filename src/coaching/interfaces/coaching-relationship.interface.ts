@@ -0,0 +1,50 @@
+import { UserRole } from '../../users/interfaces/user.interface';
+
+/**
+ * 🤝 Enumeración de tipos de relación profesional-cliente
+ * Se deduce del rol del profesional
+ */
+export enum CoachingType {
+  TRAINING = 'training', // 🏋️ Entrenador - cliente
+  NUTRITION = 'nutrition', // 🥗 Nutricionista - cliente
+}
+
+/**
+ * 📊 Enumeración de estados de una relación profesional-cliente
+ * Solo las relaciones ACTIVE dan acceso a los datos del cliente
+ */
+export enum CoachingStatus {
+  PENDING = 'pending', // ⏳ Invitación enviada, esperando respuesta
+  ACTIVE = 'active', // ✅ Aceptada: el profesional trabaja con el cliente
+  DECLINED = 'declined', // 🚫 Invitación rechazada
+  ENDED = 'ended', // 🏁 Finalizada (o invitación retirada)
+}
+
+/**
+ * 👤 Interface con los datos públicos de cada parte de la relación
+ * No incluye métricas corporales ni objetivos: esos datos se consultan en sus endpoints con control de acceso
+ */
+export interface CoachingParty {
+  id: number; // 🆔 ID del usuario
+  name: string; // 📛 Nombre
+  email: string; // 📧 Email
+  role: UserRole; // 🎭 Rol
+  avatar?: string; // 🖼️ Foto de perfil (opcional)
+  specialties?: string[]; // 🎯 Especialidades (solo profesionales)
+}
+
+/**
+ * 📤 Interface de respuesta de una relación profesional-cliente
+ */
+export interface CoachingRelationshipResponse {
+  id: number; // 🆔 ID de la relación
+  type: CoachingType; // 🤝 Entrenamiento o nutrición
+  status: CoachingStatus; // 📊 Estado
+  coach: CoachingParty; // 🧑‍🏫 Entrenador o nutricionista
+  client: CoachingParty; // 👤 Cliente
+  invitedById: number; // ✉️ Quién envió la invitación
+  message?: string; // 📝 Mensaje de la invitación (opcional)
+  startedAt?: string; // ✅ Cuándo se aceptó (ISO string)
+  endedAt?: string; // 🏁 Cuándo se rechazó o finalizó (ISO string)
+  createdAt: string; // 📅 Cuándo se envió la invitación (ISO string)
+}
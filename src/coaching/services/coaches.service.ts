@@ -0,0 +1,311 @@
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException, ConflictException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder, Brackets } from 'typeorm';
+import { CoachReviewEntity } from '../entities/coach-review.entity';
+import { CoachingRelationshipEntity } from '../entities/coaching-relationship.entity';
+import { SearchCoachDto, CoachReviewDto } from '../dto/coach-directory.dto';
+import { CoachSortField } from '../interfaces/coach-directory.interface';
+import type { CoachDirectoryEntry, CoachReviewResponse } from '../interfaces/coach-directory.interface';
+import { CoachingStatus } from '../interfaces/coaching-relationship.interface';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserRole, UserStatus } from '../../users/interfaces/user.interface';
+import { PaginationService } from '../../common/services/pagination.service';
+import { QueryFiltersService } from '../../common/services/query-filters.service';
+import { SortDirection } from '../../common/interfaces/pagination.interface';
+import type { Paginated, SortFieldDefinition } from '../../common/interfaces/pagination.interface';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 🎭 Roles que aparecen en el directorio
+ */
+const COACH_ROLES = [UserRole.TRAINER, UserRole.NUTRITIONIST];
+
+/**
+ * 📊 Métricas de un profesional en el directorio
+ */
+interface CoachStats {
+  averageRating: number | null;
+  reviewCount: number;
+  activeClients: number;
+}
+
+/**
+ * 🧑‍🏫 Servicio del directorio de profesionales - Lógica de negocio con Base de Datos
+ *
+ * Permite a los clientes descubrir entrenadores y nutricionistas activos
+ * filtrando por especialidades, ubicación, disponibilidad y valoración, y
+ * los ordena por valoración media o por número de clientes activos.
+ * También gestiona las valoraciones que los clientes dejan a sus profesionales.
+ *
+ * @class CoachesService
+ * @description Directorio de profesionales y valoraciones
+ */
+@Injectable()
+export class CoachesService {
+  private readonly logger = new Logger(CoachesService.name);
+
+  /**
+   * Constructor del servicio
+   * @param userRepository - Repositorio para UserEntity (profesionales)
+   * @param reviewRepository - Repositorio para CoachReviewEntity
+   * @param relationshipRepository - Repositorio para validar la relación valorada y contar clientes activos
+   * @param paginationService - Orden, paginación y sobre estándar del directorio
+   * @param queryFiltersService - Búsquedas parciales (LIKE escapado) por especialidad y ubicación
+   */
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    @InjectRepository(CoachReviewEntity)
+    private readonly reviewRepository: Repository<CoachReviewEntity>,
+    @InjectRepository(CoachingRelationshipEntity)
+    private readonly relationshipRepository: Repository<CoachingRelationshipEntity>,
+    private readonly paginationService: PaginationService,
+    private readonly queryFiltersService: QueryFiltersService,
+  ) {}
+
+  /**
+   * 🔍 Buscar en el directorio de profesionales
+   *
+   * Solo incluye entrenadores y nutricionistas con estado activo.
+   * Con varias especialidades basta con que tenga una de ellas.
+   *
+   * @param {SearchCoachDto} searchDto - Filtros, orden y paginación
+   * @returns {Promise<Paginated<CoachDirectoryEntry>>} Página de profesionales con su valoración y clientes activos
+   * @throws {BadRequestException} Si se envían page y cursor a la vez o el cursor no es válido
+   *
+   * @example
+   * const pagina = await coachesService.search({ specialties: ['yoga', 'hiit'], acceptingNewClients: true, sort: CoachSortField.RATING });
+   */
+  async search(searchDto: SearchCoachDto): Promise<Paginated<CoachDirectoryEntry>> {
+    this.logger.log('🔍 Buscando profesionales en el directorio', searchDto);
+
+    const queryBuilder = this.userRepository
+      .createQueryBuilder('user')
+      .where('user.role IN (:...roles)', { roles: searchDto.role ? [searchDto.role] : COACH_ROLES })
+      .andWhere('user.status = :status', { status: UserStatus.ACTIVE });
+
+    const ratingQuery = this.buildAverageRatingQuery(queryBuilder);
+    const activeClientsQuery = this.buildActiveClientsQuery(queryBuilder);
+
+    this.applyFilters(queryBuilder, searchDto, ratingQuery);
+
+    // Sin valoraciones cuenta como 0 para ordenar: los valorados van primero
+    const byRating = { expression: `COALESCE(${ratingQuery}, 0)`, alias: 'sort_rating' };
+    const byClients = { expression: activeClientsQuery, alias: 'sort_clients' };
+    const sortFields: Record<CoachSortField, SortFieldDefinition> = {
+      [CoachSortField.RATING]: { columns: [byRating, byClients], defaultOrder: SortDirection.DESC },
+      [CoachSortField.CLIENTS]: { columns: [byClients, byRating], defaultOrder: SortDirection.DESC },
+    };
+
+    const result = await this.paginationService.paginate(queryBuilder, searchDto, { fields: sortFields, defaultSort: CoachSortField.RATING });
+
+    const stats = await this.loadCoachStats(result.items.map((coach) => coach.id));
+    return { ...result, items: result.items.map((coach) => this.mapToDirectoryEntry(coach, stats.get(coach.id))) };
+  }
+
+  /**
+   * ⭐ Obtener las valoraciones de un profesional
+   *
+   * @param {number} coachId - ID del entrenador o nutricionista
+   * @returns {Promise<CoachReviewResponse[]>} Valoraciones, de la más reciente a la más antigua
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si el profesional no existe o no está activo
+   *
+   * @example
+   * const valoraciones = await coachesService.findReviews(3);
+   */
+  async findReviews(coachId: number): Promise<CoachReviewResponse[]> {
+    this.logger.log(`⭐ Obteniendo valoraciones del profesional ${coachId}`);
+
+    if (isNaN(coachId)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const coach = await this.userRepository.findOne({
+      where: { id: coachId, status: UserStatus.ACTIVE },
+    });
+
+    if (!coach || !COACH_ROLES.includes(coach.role)) {
+      throw new NotFoundException({ code: ErrorCode.COACH_NOT_FOUND, message: `Profesional con ID ${coachId} no encontrado`, params: { id: coachId } });
+    }
+
+    const reviews = await this.reviewRepository.find({
+      where: { coachId },
+      relations: { client: true },
+      order: { updatedAt: 'DESC' },
+    });
+
+    return reviews.map((review) => this.mapToReviewResponse(review));
+  }
+
+  /**
+   * ⭐ Valorar al profesional de una relación
+   *
+   * Solo el cliente puede valorar, y solo si la relación llegó a estar activa
+   * (activa o finalizada). Si ya la había valorado, se reemplaza la valoración.
+   *
+   * @param {number} relationshipId - ID de la relación
+   * @param {CoachReviewDto} reviewDto - Puntuación y comentario
+   * @param {UserEntity} currentUser - Usuario autenticado (el cliente)
+   * @returns {Promise<CoachReviewResponse>} La valoración guardada
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el cliente de la relación
+   * @throws {NotFoundException} Si la relación no existe
+   * @throws {ConflictException} Si la relación nunca llegó a estar activa
+   *
+   * @example
+   * const valoracion = await coachesService.reviewRelationship(4, { rating: 5, comment: '¡Muy recomendable!' }, currentUser);
+   */
+  async reviewRelationship(relationshipId: number, reviewDto: CoachReviewDto, currentUser: UserEntity): Promise<CoachReviewResponse> {
+    this.logger.log(`⭐ Valorando la relación ${relationshipId}`, reviewDto);
+
+    if (isNaN(relationshipId)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const relationship = await this.relationshipRepository.findOne({ where: { id: relationshipId } });
+
+    if (!relationship) {
+      throw new NotFoundException({ code: ErrorCode.COACHING_RELATIONSHIP_NOT_FOUND, message: `Relación profesional-cliente con ID ${relationshipId} no encontrada`, params: { id: relationshipId } });
+    }
+
+    if (relationship.clientId !== currentUser.id) {
+      throw new ForbiddenException({ code: ErrorCode.COACH_REVIEW_NOT_CLIENT, message: 'Solo el cliente de la relación puede valorar al profesional' });
+    }
+
+    // Pendientes y rechazadas no cuentan: el cliente no llegó a trabajar con el profesional
+    const wasActive = relationship.isActive() || (relationship.status === CoachingStatus.ENDED && relationship.startedAt);
+    if (!wasActive) {
+      throw new ConflictException({ code: ErrorCode.COACH_REVIEW_NOT_ALLOWED, message: 'Solo se puede valorar una relación activa o finalizada después de haber estado activa' });
+    }
+
+    const review =
+      (await this.reviewRepository.findOne({ where: { relationshipId } })) ??
+      this.reviewRepository.create({
+        relationshipId,
+        coachId: relationship.coachId,
+        clientId: relationship.clientId,
+      });
+
+    review.rating = reviewDto.rating;
+    review.comment = reviewDto.comment?.trim() || null;
+
+    const savedReview = await this.reviewRepository.save(review);
+    this.logger.log(`✅ Valoración ${savedReview.id} guardada: ${savedReview.rating}⭐ para el profesional ${savedReview.coachId}`);
+
+    savedReview.client = currentUser;
+    return this.mapToReviewResponse(savedReview);
+  }
+
+  /**
+   * 🧰 Método privado para aplicar los filtros opcionales del directorio
+   * @private
+   */
+  private applyFilters(queryBuilder: SelectQueryBuilder<UserEntity>, searchDto: SearchCoachDto, ratingQuery: string): void {
+    const specialties = searchDto.specialties ?? [];
+    if (specialties.length > 0) {
+      // simple-json guarda ["yoga","hiit"]: se busca cada especialidad entre comillas para no casar subcadenas
+      queryBuilder.andWhere(
+        new Brackets((specialtiesQuery) => {
+          specialties.forEach((specialty, index) => {
+            specialtiesQuery.orWhere(this.queryFiltersService.likeCondition('LOWER(user.specialties)', `specialty${index}`), { [`specialty${index}`]: this.queryFiltersService.containsPattern(`"${specialty.toLowerCase()}"`) });
+          });
+        }),
+      );
+    }
+
+    if (searchDto.location) {
+      queryBuilder.andWhere(this.queryFiltersService.likeCondition('LOWER(user.location)', 'location'), { location: this.queryFiltersService.containsPattern(searchDto.location.toLowerCase()) });
+    }
+
+    if (searchDto.acceptingNewClients !== undefined) {
+      queryBuilder.andWhere('user.acceptingNewClients = :acceptingNewClients', { acceptingNewClients: searchDto.acceptingNewClients });
+    }
+
+    if (searchDto.minRating !== undefined) {
+      queryBuilder.andWhere(`${ratingQuery} >= :minRating`, { minRating: searchDto.minRating });
+    }
+  }
+
+  /**
+   * ⭐ Método privado: subconsulta con la valoración media del profesional
+   * @private
+   */
+  private buildAverageRatingQuery(queryBuilder: SelectQueryBuilder<UserEntity>): string {
+    return queryBuilder.subQuery().select('AVG(review.rating)').from(CoachReviewEntity, 'review').where('review.coachId = user.id').getQuery();
+  }
+
+  /**
+   * 👥 Método privado: subconsulta con el número de clientes activos del profesional
+   * @private
+   */
+  private buildActiveClientsQuery(queryBuilder: SelectQueryBuilder<UserEntity>): string {
+    return queryBuilder.subQuery().select('COUNT(relationship.id)').from(CoachingRelationshipEntity, 'relationship').where('relationship.coachId = user.id').andWhere(`relationship.status = '${CoachingStatus.ACTIVE}'`).getQuery();
+  }
+
+  /**
+   * 📊 Método privado para cargar la valoración media, las valoraciones y los clientes activos de una página de profesionales
+   * Dos consultas agrupadas para toda la página (sin una consulta por profesional)
+   * @private
+   */
+  private async loadCoachStats(coachIds: number[]): Promise<Map<number, CoachStats>> {
+    const stats = new Map<number, CoachStats>(coachIds.map((coachId) => [coachId, { averageRating: null, reviewCount: 0, activeClients: 0 }]));
+    if (coachIds.length === 0) return stats;
+
+    const ratings = await this.reviewRepository.createQueryBuilder('review').select('review.coachId', 'coachId').addSelect('AVG(review.rating)', 'averageRating').addSelect('COUNT(review.id)', 'reviewCount').where('review.coachId IN (:...coachIds)', { coachIds }).groupBy('review.coachId').getRawMany<{ coachId: number; averageRating: number; reviewCount: number }>();
+
+    const clients = await this.relationshipRepository.createQueryBuilder('relationship').select('relationship.coachId', 'coachId').addSelect('COUNT(relationship.id)', 'activeClients').where('relationship.coachId IN (:...coachIds)', { coachIds }).andWhere('relationship.status = :status', { status: CoachingStatus.ACTIVE }).groupBy('relationship.coachId').getRawMany<{ coachId: number; activeClients: number }>();
+
+    for (const row of ratings) {
+      const coachStats = stats.get(Number(row.coachId));
+      if (!coachStats) continue;
+      coachStats.averageRating = Math.round(Number(row.averageRating) * 10) / 10;
+      coachStats.reviewCount = Number(row.reviewCount);
+    }
+
+    for (const row of clients) {
+      const coachStats = stats.get(Number(row.coachId));
+      if (coachStats) coachStats.activeClients = Number(row.activeClients);
+    }
+
+    return stats;
+  }
+
+  /**
+   * 🔄 Método privado para mapear un profesional al formato del directorio
+   * Solo expone los datos públicos del perfil
+   * @private
+   */
+  private mapToDirectoryEntry(coach: UserEntity, stats: CoachStats = { averageRating: null, reviewCount: 0, activeClients: 0 }): CoachDirectoryEntry {
+    return {
+      id: coach.id,
+      name: coach.name,
+      role: coach.role,
+      avatar: coach.avatar ?? undefined,
+      bio: coach.bio ?? undefined,
+      location: coach.location ?? undefined,
+      specialties: coach.specialties ?? [],
+      acceptingNewClients: coach.acceptingNewClients,
+      averageRating: stats.averageRating,
+      reviewCount: stats.reviewCount,
+      activeClients: stats.activeClients,
+    };
+  }
+
+  /**
+   * 🔄 Método privado para mapear una valoración al formato de respuesta
+   * @private
+   */
+  private mapToReviewResponse(review: CoachReviewEntity): CoachReviewResponse {
+    return {
+      id: review.id,
+      relationshipId: review.relationshipId,
+      coachId: review.coachId,
+      client: { id: review.client.id, name: review.client.name, avatar: review.client.avatar ?? undefined },
+      rating: review.rating,
+      comment: review.comment ?? undefined,
+      createdAt: review.createdAt.toISOString(),
+      updatedAt: review.updatedAt.toISOString(),
+    };
+  }
+}
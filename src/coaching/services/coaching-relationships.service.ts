@@ -0,0 +1,442 @@
+import { Injectable, NotFoundException, ConflictException, BadRequestException, ForbiddenException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { CoachingRelationshipEntity } from '../entities/coaching-relationship.entity';
+import { CreateCoachingRelationshipDto, CoachingRelationshipQueryDto } from '../dto/coaching-relationship.dto';
+import { CoachingType, CoachingStatus } from '../interfaces/coaching-relationship.interface';
+import type { CoachingParty, CoachingRelationshipResponse } from '../interfaces/coaching-relationship.interface';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserRole, UserStatus } from '../../users/interfaces/user.interface';
+import { WorkoutDaysService } from '../../workout-days/services/workout-days.service';
+import { WorkoutDayListQueryDto } from '../../workout-days/dto/workout-day.dto';
+import type { WorkoutDayGroup } from '../../workout-days/interfaces/workout-day.interface';
+import type { Paginated } from '../../common/interfaces/pagination.interface';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 🤝 Servicio de relaciones profesional-cliente - Lógica de negocio con Base de Datos
+ *
+ * Gestiona el ciclo de vida de la relación entre un entrenador o nutricionista
+ * y su cliente: invitación, aceptación, rechazo y finalización.
+ * Las relaciones activas son las que AccessControlService usa para dar
+ * acceso a los profesionales a los datos de sus clientes.
+ *
+ * @class CoachingRelationshipsService
+ * @description Gestiona las relaciones entre profesionales y clientes
+ */
+@Injectable()
+export class CoachingRelationshipsService {
+  private readonly logger = new Logger(CoachingRelationshipsService.name);
+
+  /**
+   * Constructor del servicio
+   * @param relationshipRepository - Repositorio para CoachingRelationshipEntity
+   * @param userRepository - Repositorio para validar profesionales y clientes
+   * @param workoutDaysService - Servicio de días de entrenamiento (vista del profesional)
+   * @param accessControlService - Reglas de propiedad (quién ve las relaciones de quién)
+   */
+  constructor(
+    @InjectRepository(CoachingRelationshipEntity)
+    private readonly relationshipRepository: Repository<CoachingRelationshipEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    private readonly workoutDaysService: WorkoutDaysService,
+    private readonly accessControlService: AccessControlService,
+  ) {}
+
+  /**
+   * 🧑‍🏫 Obtener los clientes de un profesional
+   *
+   * @param {number} coachId - ID del entrenador o nutricionista
+   * @param {CoachingRelationshipQueryDto} queryDto - Filtro por estado (default: pendientes y activas)
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<CoachingRelationshipResponse[]>} Relaciones con sus clientes, de la más reciente a la más antigua
+   * @throws {ForbiddenException} Si no es el propio profesional ni admin
+   *
+   * @example
+   * const clientes = await coachingRelationshipsService.findClients(3, { status: CoachingStatus.ACTIVE }, trainer);
+   */
+  async findClients(coachId: number, queryDto: CoachingRelationshipQueryDto, currentUser: UserEntity): Promise<CoachingRelationshipResponse[]> {
+    this.logger.log(`🧑‍🏫 Obteniendo clientes del profesional ${coachId}`, queryDto);
+
+    this.accessControlService.assertCanManageUser(currentUser, coachId);
+
+    const relationships = await this.relationshipRepository.find({
+      where: { coachId, status: this.getStatusFilter(queryDto) },
+      relations: { coach: true, client: true },
+      order: { createdAt: 'DESC' },
+    });
+
+    return relationships.map((relationship) => this.mapToResponse(relationship));
+  }
+
+  /**
+   * 👤 Obtener los profesionales de un cliente
+   *
+   * @param {number} clientId - ID del cliente
+   * @param {CoachingRelationshipQueryDto} queryDto - Filtro por estado (default: pendientes y activas)
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<CoachingRelationshipResponse[]>} Relaciones con sus profesionales, de la más reciente a la más antigua
+   * @throws {ForbiddenException} Si no es el propio cliente ni admin
+   *
+   * @example
+   * const profesionales = await coachingRelationshipsService.findCoaches(5, {}, currentUser);
+   */
+  async findCoaches(clientId: number, queryDto: CoachingRelationshipQueryDto, currentUser: UserEntity): Promise<CoachingRelationshipResponse[]> {
+    this.logger.log(`👤 Obteniendo profesionales del cliente ${clientId}`, queryDto);
+
+    this.accessControlService.assertCanManageUser(currentUser, clientId);
+
+    const relationships = await this.relationshipRepository.find({
+      where: { clientId, status: this.getStatusFilter(queryDto) },
+      relations: { coach: true, client: true },
+      order: { createdAt: 'DESC' },
+    });
+
+    return relationships.map((relationship) => this.mapToResponse(relationship));
+  }
+
+  /**
+   * 🤝 Obtener una relación por ID
+   *
+   * @param {number} id - ID de la relación
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<CoachingRelationshipResponse>} La relación con ambas partes
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es una de las partes ni admin
+   * @throws {NotFoundException} Si la relación no existe
+   */
+  async findOne(id: number, currentUser: UserEntity): Promise<CoachingRelationshipResponse> {
+    this.logger.log(`🔍 Buscando relación profesional-cliente con ID: ${id} en la BD`);
+
+    const relationship = await this.findRelationshipEntity(id);
+    this.assertIsParticipant(relationship, currentUser);
+
+    return this.mapToResponse(relationship);
+  }
+
+  /**
+   * ✉️ Invitar a una relación profesional-cliente
+   *
+   * El profesional invita a un cliente (clientId) o el cliente lo solicita
+   * (coachId); la otra parte debe aceptarla. El tipo se deduce del rol del
+   * profesional. Si la crea un admin que no es parte, queda activa directamente.
+   *
+   * @param {CreateCoachingRelationshipDto} createDto - Profesional, cliente y mensaje
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<CoachingRelationshipResponse>} La relación creada
+   * @throws {BadRequestException} Si el profesional no tiene rol de entrenador o nutricionista, o es el mismo usuario
+   * @throws {ForbiddenException} Si no es una de las partes ni admin
+   * @throws {NotFoundException} Si alguna de las partes no existe o no está activa
+   * @throws {ConflictException} Si ya hay una invitación pendiente o una relación activa del mismo tipo, o el profesional no acepta nuevos clientes
+   *
+   * @example
+   * // El entrenador invita a un cliente
+   * const invitacion = await coachingRelationshipsService.invite({ clientId: 5, message: '¡Empecemos!' }, trainer);
+   *
+   * // El cliente solicita un nutricionista
+   * const solicitud = await coachingRelationshipsService.invite({ coachId: 7 }, currentUser);
+   */
+  async invite(createDto: CreateCoachingRelationshipDto, currentUser: UserEntity): Promise<CoachingRelationshipResponse> {
+    this.logger.log('✉️ Creando invitación profesional-cliente en la BD', createDto);
+
+    const coachId = createDto.coachId ?? currentUser.id;
+    const clientId = createDto.clientId ?? currentUser.id;
+    const isParticipant = currentUser.id === coachId || currentUser.id === clientId;
+
+    if (!isParticipant && !currentUser.isAdmin()) {
+      throw new ForbiddenException({ code: ErrorCode.COACHING_NOT_PARTICIPANT, message: 'Solo puedes crear relaciones en las que participas' });
+    }
+
+    if (coachId === clientId) {
+      throw new BadRequestException({ code: ErrorCode.COACHING_SELF_RELATIONSHIP, message: 'Un usuario no puede ser su propio entrenador o nutricionista' });
+    }
+
+    const coach = await this.validateUserExists(coachId);
+    const type = this.getCoachingType(coach);
+    await this.validateUserExists(clientId);
+
+    // El cliente no puede solicitar a un profesional que no acepta nuevos clientes (el profesional sí puede invitar)
+    if (currentUser.id === clientId && !coach.acceptingNewClients) {
+      throw new ConflictException({ code: ErrorCode.COACH_NOT_ACCEPTING_CLIENTS, message: `El profesional con ID ${coachId} no acepta nuevos clientes`, params: { id: coachId } });
+    }
+
+    // Solo puede haber una invitación pendiente o relación activa por profesional, cliente y tipo
+    const existing = await this.relationshipRepository.findOne({
+      where: { coachId, clientId, type, status: In([CoachingStatus.PENDING, CoachingStatus.ACTIVE]) },
+    });
+
+    if (existing?.isActive()) {
+      throw new ConflictException({ code: ErrorCode.COACHING_RELATIONSHIP_EXISTS, message: `El usuario ${clientId} ya es cliente del profesional ${coachId}`, params: { clientId, coachId } });
+    }
+    if (existing) {
+      throw new ConflictException({ code: ErrorCode.COACHING_INVITATION_PENDING, message: `Ya hay una invitación pendiente entre el profesional ${coachId} y el cliente ${clientId} (relación ${existing.id})`, params: { coachId, clientId, relationshipId: existing.id } });
+    }
+
+    // Un admin que no es parte vincula directamente (sin invitación)
+    const activatedByAdmin = !isParticipant;
+
+    const relationship = this.relationshipRepository.create({
+      type,
+      status: activatedByAdmin ? CoachingStatus.ACTIVE : CoachingStatus.PENDING,
+      message: createDto.message?.trim(),
+      startedAt: activatedByAdmin ? new Date() : null,
+      coachId,
+      clientId,
+      invitedById: currentUser.id,
+    });
+
+    const savedRelationship = await this.relationshipRepository.save(relationship);
+    this.logger.log(`✅ Relación profesional-cliente creada con ID: ${savedRelationship.id} (${savedRelationship.status})`);
+
+    return this.findOne(savedRelationship.id, currentUser);
+  }
+
+  /**
+   * ✅ Aceptar una invitación
+   *
+   * @param {number} id - ID de la relación
+   * @param {UserEntity} currentUser - Usuario autenticado (la parte invitada o un admin)
+   * @returns {Promise<CoachingRelationshipResponse>} La relación activa
+   * @throws {ForbiddenException} Si no es la parte invitada ni admin
+   * @throws {NotFoundException} Si la relación no existe
+   * @throws {ConflictException} Si la invitación ya no está pendiente
+   */
+  async accept(id: number, currentUser: UserEntity): Promise<CoachingRelationshipResponse> {
+    this.logger.log(`✅ Aceptando invitación profesional-cliente ${id}`);
+
+    const relationship = await this.findPendingForInvitee(id, currentUser);
+
+    relationship.status = CoachingStatus.ACTIVE;
+    relationship.startedAt = new Date();
+    await this.relationshipRepository.save(relationship);
+
+    this.logger.log(`✅ Relación ${id} activa: el profesional ${relationship.coachId} ya tiene acceso al cliente ${relationship.clientId}`);
+    return this.mapToResponse(relationship);
+  }
+
+  /**
+   * 🚫 Rechazar una invitación
+   *
+   * @param {number} id - ID de la relación
+   * @param {UserEntity} currentUser - Usuario autenticado (la parte invitada o un admin)
+   * @returns {Promise<CoachingRelationshipResponse>} La relación rechazada
+   * @throws {ForbiddenException} Si no es la parte invitada ni admin
+   * @throws {NotFoundException} Si la relación no existe
+   * @throws {ConflictException} Si la invitación ya no está pendiente
+   */
+  async decline(id: number, currentUser: UserEntity): Promise<CoachingRelationshipResponse> {
+    this.logger.log(`🚫 Rechazando invitación profesional-cliente ${id}`);
+
+    const relationship = await this.findPendingForInvitee(id, currentUser);
+
+    relationship.status = CoachingStatus.DECLINED;
+    relationship.endedAt = new Date();
+    await this.relationshipRepository.save(relationship);
+
+    this.logger.log(`✅ Invitación ${id} rechazada`);
+    return this.mapToResponse(relationship);
+  }
+
+  /**
+   * 🏁 Finalizar una relación (o retirar una invitación pendiente)
+   *
+   * Cualquiera de las dos partes puede finalizarla. Desde ese momento el
+   * profesional deja de tener acceso a los datos del cliente.
+   *
+   * @param {number} id - ID de la relación
+   * @param {UserEntity} currentUser - Usuario autenticado (una de las partes o un admin)
+   * @returns {Promise<CoachingRelationshipResponse>} La relación finalizada
+   * @throws {ForbiddenException} Si no es una de las partes ni admin
+   * @throws {NotFoundException} Si la relación no existe
+   * @throws {ConflictException} Si ya estaba rechazada o finalizada
+   */
+  async end(id: number, currentUser: UserEntity): Promise<CoachingRelationshipResponse> {
+    this.logger.log(`🏁 Finalizando relación profesional-cliente ${id}`);
+
+    const relationship = await this.findRelationshipEntity(id);
+    this.assertIsParticipant(relationship, currentUser);
+
+    if (!relationship.isPending() && !relationship.isActive()) {
+      throw new ConflictException({ code: ErrorCode.COACHING_RELATIONSHIP_CLOSED, message: `La relación con ID ${id} ya estaba ${relationship.status === CoachingStatus.DECLINED ? 'rechazada' : 'finalizada'}`, params: { id, status: relationship.status } });
+    }
+
+    relationship.status = CoachingStatus.ENDED;
+    relationship.endedAt = new Date();
+    await this.relationshipRepository.save(relationship);
+
+    this.logger.log(`✅ Relación ${id} finalizada`);
+    return this.mapToResponse(relationship);
+  }
+
+  /**
+   * 🏋️ Ver los días de entrenamiento de un cliente desde la relación
+   *
+   * Vista del entrenador: solo con una relación de entrenamiento activa.
+   *
+   * @param {number} id - ID de la relación
+   * @param {WorkoutDayListQueryDto} queryDto - Página o cursor, tamaño y orden
+   * @param {UserEntity} currentUser - Usuario autenticado (el entrenador o un admin)
+   * @returns {Promise<Paginated<WorkoutDayGroup>>} Plantilla semanal del cliente agrupada por día y turno (paginada)
+   * @throws {BadRequestException} Si la relación no es de entrenamiento o la paginación no es válida
+   * @throws {ForbiddenException} Si no es el entrenador de la relación ni admin, o la relación no está activa
+   * @throws {NotFoundException} Si la relación no existe
+   *
+   * @example
+   * const semana = await coachingRelationshipsService.findClientWorkoutDays(4, { limit: 100 }, trainer);
+   */
+  async findClientWorkoutDays(id: number, queryDto: WorkoutDayListQueryDto, currentUser: UserEntity): Promise<Paginated<WorkoutDayGroup>> {
+    this.logger.log(`🏋️ Obteniendo días de entrenamiento del cliente de la relación ${id}`);
+
+    const relationship = await this.findRelationshipEntity(id);
+
+    if (!currentUser.isAdmin() && currentUser.id !== relationship.coachId) {
+      throw new ForbiddenException({ code: ErrorCode.COACHING_NOT_TRAINER, message: 'Solo el entrenador de la relación puede ver los entrenamientos del cliente' });
+    }
+
+    if (relationship.type !== CoachingType.TRAINING) {
+      throw new BadRequestException({ code: ErrorCode.COACHING_NOT_TRAINING, message: 'La relación no es de entrenamiento' });
+    }
+
+    if (!relationship.isActive()) {
+      throw new ForbiddenException({ code: ErrorCode.COACHING_RELATIONSHIP_INACTIVE, message: 'La relación no está activa: el entrenador no tiene acceso a los datos del cliente' });
+    }
+
+    return await this.workoutDaysService.findByUserId(relationship.clientId, queryDto, currentUser);
+  }
+
+  /**
+   * 🔍 Método privado para buscar una relación con ambas partes cargadas
+   *
+   * @param {number} id - ID de la relación
+   * @returns {Promise<CoachingRelationshipEntity>} La relación encontrada
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si la relación no existe
+   * @private
+   */
+  private async findRelationshipEntity(id: number): Promise<CoachingRelationshipEntity> {
+    if (isNaN(id)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const relationship = await this.relationshipRepository.findOne({
+      where: { id },
+      relations: { coach: true, client: true },
+    });
+
+    if (!relationship) {
+      throw new NotFoundException({ code: ErrorCode.COACHING_RELATIONSHIP_NOT_FOUND, message: `Relación profesional-cliente con ID ${id} no encontrada`, params: { id } });
+    }
+
+    return relationship;
+  }
+
+  /**
+   * ✉️ Método privado para buscar una invitación pendiente que el usuario puede responder
+   *
+   * @private
+   */
+  private async findPendingForInvitee(id: number, currentUser: UserEntity): Promise<CoachingRelationshipEntity> {
+    const relationship = await this.findRelationshipEntity(id);
+
+    if (!currentUser.isAdmin() && !relationship.isInvitee(currentUser.id)) {
+      throw new ForbiddenException({ code: ErrorCode.COACHING_NOT_INVITEE, message: 'Solo la parte invitada puede responder a la invitación' });
+    }
+
+    if (!relationship.isPending()) {
+      throw new ConflictException({ code: ErrorCode.COACHING_INVITATION_NOT_PENDING, message: `La invitación con ID ${id} ya no está pendiente (estado: ${relationship.status})`, params: { id, status: relationship.status } });
+    }
+
+    return relationship;
+  }
+
+  /**
+   * 👥 Método privado para validar que el usuario es una de las partes o admin
+   *
+   * @throws {ForbiddenException} Si no participa en la relación
+   * @private
+   */
+  private assertIsParticipant(relationship: CoachingRelationshipEntity, currentUser: UserEntity): void {
+    if (!currentUser.isAdmin() && !relationship.involves(currentUser.id)) {
+      throw new ForbiddenException({ code: ErrorCode.COACHING_NOT_PARTICIPANT, message: 'Solo las partes de la relación pueden consultarla o modificarla' });
+    }
+  }
+
+  /**
+   * 🤝 Método privado para deducir el tipo de relación del rol del profesional
+   *
+   * @throws {BadRequestException} Si no es entrenador ni nutricionista
+   * @private
+   */
+  private getCoachingType(coach: UserEntity): CoachingType {
+    if (coach.role === UserRole.TRAINER) {
+      return CoachingType.TRAINING;
+    }
+
+    if (coach.role === UserRole.NUTRITIONIST) {
+      return CoachingType.NUTRITION;
+    }
+
+    throw new BadRequestException({ code: ErrorCode.COACHING_USER_NOT_COACH, message: `El usuario con ID ${coach.id} no es entrenador ni nutricionista`, params: { id: coach.id } });
+  }
+
+  /**
+   * 📊 Método privado para construir el filtro de estado (default: pendientes y activas)
+   * @private
+   */
+  private getStatusFilter(queryDto: CoachingRelationshipQueryDto) {
+    return queryDto.status ?? In([CoachingStatus.PENDING, CoachingStatus.ACTIVE]);
+  }
+
+  /**
+   * 👤 Método privado para validar que un usuario existe y está activo
+   *
+   * @param {number} userId - ID del usuario a validar
+   * @returns {Promise<UserEntity>} El usuario encontrado
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   * @private
+   */
+  private async validateUserExists(userId: number): Promise<UserEntity> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId, status: UserStatus.ACTIVE },
+    });
+
+    if (!user) {
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${userId} no encontrado o no está activo`, params: { id: userId } });
+    }
+
+    return user;
+  }
+
+  /**
+   * 🔄 Método privado para mapear una relación al formato de respuesta
+   * Solo expone los datos públicos de cada parte
+   * @private
+   */
+  private mapToResponse(relationship: CoachingRelationshipEntity): CoachingRelationshipResponse {
+    return {
+      id: relationship.id,
+      type: relationship.type,
+      status: relationship.status,
+      coach: this.mapToParty(relationship.coach),
+      client: this.mapToParty(relationship.client),
+      invitedById: relationship.invitedById,
+      message: relationship.message ?? undefined,
+      startedAt: relationship.startedAt?.toISOString(),
+      endedAt: relationship.endedAt?.toISOString(),
+      createdAt: relationship.createdAt.toISOString(),
+    };
+  }
+
+  private mapToParty(user: UserEntity): CoachingParty {
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      avatar: user.avatar ?? undefined,
+      specialties: user.specialties ?? undefined,
+    };
+  }
+}
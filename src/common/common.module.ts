@@ -0,0 +1,28 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
+import { PaginationService } from './services/pagination.service';
+import { QueryFiltersService } from './services/query-filters.service';
+import { BulkDataService } from './services/bulk-data.service';
+import { AllExceptionsFilter } from './filters/all-exceptions.filter';
+
+/**
+ * 📦 Módulo común
+ * Utilidades compartidas por todos los módulos:
+ * - Servicio de paginación (orden, página/cursor y sobre estándar de los listados)
+ * - Servicio de filtros de búsqueda (rangos, fechas y texto libre)
+ * - Servicio de importación y exportación masiva (CSV/JSON con informe por fila)
+ * - Filtro global de excepciones (mismo formato de error con código estable en toda la API)
+ *
+ * Es global: cualquier servicio puede inyectar sus servicios sin importar el módulo
+ */
+@Global()
+@Module({
+  providers: [
+    PaginationService,
+    QueryFiltersService,
+    BulkDataService,
+    { provide: APP_FILTER, useClass: AllExceptionsFilter }, // 🚨 Filtro global: mismo formato para todos los errores
+  ],
+  exports: [PaginationService, QueryFiltersService, BulkDataService], // Exporta el servicio para ser usado en otros módulos
+})
+export class CommonModule {}
@@ -0,0 +1,20 @@
+import { Transform } from 'class-transformer';
+
+/**
+ * 📋 Decorador para leer una lista desde la query string
+ * Acepta valores repetidos (?days=1&days=3) o separados por comas (?days=1,3).
+ * Quita espacios y valores vacíos y, opcionalmente, convierte cada valor (ej: Number)
+ *
+ * @example
+ * @IsOptional()
+ * @ToArray(Number)
+ * @IsInt({ each: true })
+ * daysOfWeek?: number[];
+ */
+export const ToArray = (mapValue: (value: string) => unknown = (value) => value) =>
+  Transform(({ value }: { value: unknown }) =>
+    (Array.isArray(value) ? value : String(value).split(','))
+      .map((item) => String(item).trim())
+      .filter((item) => item.length > 0)
+      .map(mapValue),
+  );
@@ -0,0 +1,26 @@
+import { IsOptional, IsBoolean, IsEnum } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { DataFormat, ImportMode } from '../interfaces/bulk-data.interface';
+
+/**
+ * 📥 DTO de las opciones de una importación masiva (query string)
+ */
+export class ImportQueryDto {
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean({ message: 'dryRun debe ser true o false' })
+  dryRun?: boolean; // 🧪 Solo validar y devolver el informe, sin guardar (opcional, default: false)
+
+  @IsOptional()
+  @IsEnum(ImportMode, { message: 'El modo debe ser: all_or_nothing o skip_invalid' })
+  mode?: ImportMode; // 🧱 Modo de importación (opcional, default: all_or_nothing)
+}
+
+/**
+ * 📤 DTO de las opciones de una exportación masiva (query string)
+ */
+export class ExportQueryDto {
+  @IsOptional()
+  @IsEnum(DataFormat, { message: 'El formato debe ser: csv o json' })
+  format?: DataFormat; // 📄 Formato del fichero (opcional, default: csv)
+}
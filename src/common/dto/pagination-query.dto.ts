@@ -0,0 +1,31 @@
+import { IsOptional, IsInt, Min, Max, IsString, IsEnum } from 'class-validator';
+import { Type } from 'class-transformer';
+import { SortDirection } from '../interfaces/pagination.interface';
+
+/**
+ * 📄 DTO base de paginación para los listados
+ * Se pagina por número de página (page) o por cursor (cursor), no ambos.
+ * Cada listado lo extiende con su propio campo sort (lista blanca de columnas)
+ */
+export class PaginationQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'La página debe ser un número entero' })
+  @Min(1, { message: 'La página debe ser mayor a 0' })
+  page?: number; // 📄 Página (opcional, default: 1)
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'El límite debe ser un número entero' })
+  @Min(1, { message: 'El límite debe ser de al menos 1' })
+  @Max(100, { message: 'El límite debe ser como máximo 100' })
+  limit?: number; // 📏 Resultados por página (opcional, default: 20)
+
+  @IsOptional()
+  @IsString({ message: 'El cursor debe ser una cadena de texto' })
+  cursor?: string; // ➡️ Cursor devuelto en nextCursor (opcional, en lugar de page)
+
+  @IsOptional()
+  @IsEnum(SortDirection, { message: 'El orden debe ser: asc o desc' })
+  order?: SortDirection; // ↕️ Dirección del orden (opcional, default: la del campo de orden)
+}
@@ -0,0 +1,135 @@
+import { ArgumentsHost, ConflictException, Logger, NotFoundException } from '@nestjs/common';
+import { Column, DataSource, Entity, EntityNotFoundError, ManyToOne, PrimaryGeneratedColumn, QueryFailedError } from 'typeorm';
+import { AllExceptionsFilter } from './all-exceptions.filter';
+import { ErrorCode, ErrorResponse } from '../interfaces/error.interface';
+import { I18nService } from '../../i18n/services/i18n.service';
+import { RequestContextService } from '../../logging/services/request-context.service';
+
+/**
+ * 🧪 Entities mínimas con una restricción única y una clave foránea (solo existen en este test)
+ */
+@Entity('owners')
+class OwnerEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', unique: true })
+  email: string;
+}
+
+@Entity('pets')
+class PetEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'int' })
+  ownerId: number;
+
+  @ManyToOne(() => OwnerEntity, { onDelete: 'RESTRICT' })
+  owner: OwnerEntity;
+}
+
+describe('AllExceptionsFilter', () => {
+  let dataSource: DataSource;
+  let filter: AllExceptionsFilter;
+
+  /**
+   * Pasar una excepción por el filtro y devolver el estado y el cuerpo de la respuesta
+   */
+  const respond = (exception: unknown) => {
+    const response = { status: jest.fn(), json: jest.fn() };
+    response.status.mockReturnValue(response);
+    filter.catch(exception, { switchToHttp: () => ({ getResponse: () => response }) } as unknown as ArgumentsHost);
+
+    const [[status]] = response.status.mock.calls as [[number]];
+    const [[body]] = response.json.mock.calls as [[ErrorResponse]];
+    return { status, body };
+  };
+
+  const queryError = (query: () => Promise<unknown>) => query().catch((caught: unknown) => caught);
+
+  beforeEach(async () => {
+    dataSource = new DataSource({ type: 'sqlite', database: ':memory:', entities: [OwnerEntity, PetEntity], synchronize: true });
+    await dataSource.initialize();
+
+    filter = new AllExceptionsFilter(new RequestContextService(), new I18nService(new RequestContextService()));
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  describe('restricciones de la base de datos (SQLite)', () => {
+    it('responde 409 a una restricción única e indica el campo repetido', async () => {
+      await dataSource.getRepository(OwnerEntity).save({ email: 'ana@nutrifit.test' });
+      const error = await queryError(() => dataSource.getRepository(OwnerEntity).insert({ email: 'ana@nutrifit.test' }));
+
+      expect(error).toBeInstanceOf(QueryFailedError);
+      const { status, body } = respond(error);
+      expect(status).toBe(409);
+      expect(body).toMatchObject({ statusCode: 409, code: ErrorCode.UNIQUE_CONSTRAINT_VIOLATION });
+      expect(body.details?.map((detail) => detail.field)).toEqual(['email']);
+    });
+
+    it('responde 409 a una clave foránea que no existe o está en uso', async () => {
+      const owner = await dataSource.getRepository(OwnerEntity).save({ email: 'ana@nutrifit.test' });
+      await dataSource.getRepository(PetEntity).save({ ownerId: owner.id });
+
+      const missingOwner = await queryError(() => dataSource.getRepository(PetEntity).insert({ ownerId: 999 }));
+      const ownerInUse = await queryError(() => dataSource.getRepository(OwnerEntity).delete(owner.id));
+
+      for (const error of [missingOwner, ownerInUse]) {
+        expect(error).toBeInstanceOf(QueryFailedError);
+        expect(respond(error).body).toMatchObject({ statusCode: 409, code: ErrorCode.FOREIGN_KEY_CONSTRAINT_VIOLATION });
+      }
+      expect(respond(missingOwner).body.details).toBeUndefined();
+    });
+
+    it('responde 500 a otros errores de consulta sin mostrar el SQL', async () => {
+      const logError = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+      const error = await queryError(() => dataSource.query('SELECT * FROM tabla_que_no_existe'));
+
+      const { status, body } = respond(error);
+      expect(status).toBe(500);
+      expect(body.code).toBe(ErrorCode.INTERNAL_ERROR);
+      expect(body.message).not.toContain('tabla_que_no_existe');
+      expect(logError).toHaveBeenCalledWith(expect.stringContaining('tabla_que_no_existe'), expect.any(String));
+      logError.mockRestore();
+    });
+  });
+
+  describe('restricciones de la base de datos (PostgreSQL y MySQL)', () => {
+    const driverError = (fields: object) => new QueryFailedError('INSERT ...', [], Object.assign(new Error('violación de restricción'), fields));
+
+    it('usa el código 23505 y los campos del detalle de PostgreSQL', () => {
+      const { status, body } = respond(driverError({ code: '23505', detail: 'Key ("userId", "dayOfWeek")=(1, 2) already exists.' }));
+
+      expect(status).toBe(409);
+      expect(body.code).toBe(ErrorCode.UNIQUE_CONSTRAINT_VIOLATION);
+      expect(body.details?.map((detail) => detail.field)).toEqual(['userId', 'dayOfWeek']);
+    });
+
+    it('usa los códigos de clave foránea de PostgreSQL y MySQL', () => {
+      expect(respond(driverError({ code: '23503', detail: 'Key (userId)=(9) is not present in table "users".' })).body.code).toBe(ErrorCode.FOREIGN_KEY_CONSTRAINT_VIOLATION);
+      expect(respond(driverError({ code: 'ER_ROW_IS_REFERENCED_2' })).body.code).toBe(ErrorCode.FOREIGN_KEY_CONSTRAINT_VIOLATION);
+      expect(respond(driverError({ code: 'ER_DUP_ENTRY' })).body).toMatchObject({ statusCode: 409, code: ErrorCode.UNIQUE_CONSTRAINT_VIOLATION });
+    });
+  });
+
+  describe('otras excepciones', () => {
+    it('conserva el estado y el código de las excepciones HTTP', () => {
+      const { status, body } = respond(new ConflictException({ code: ErrorCode.USER_EMAIL_TAKEN, message: 'El email ya está registrado' }));
+
+      expect(status).toBe(409);
+      expect(body.code).toBe(ErrorCode.USER_EMAIL_TAKEN);
+    });
+
+    it('usa el nombre del estado si la excepción no tiene código', () => {
+      expect(respond(new NotFoundException('No encontrado')).body).toMatchObject({ statusCode: 404, code: 'NOT_FOUND', message: 'No encontrado' });
+    });
+
+    it('responde 404 a EntityNotFoundError', () => {
+      expect(respond(new EntityNotFoundError(OwnerEntity, { id: 1 })).status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { ArgumentsHost, Catch, ExceptionFilter, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import type { Response } from 'express';
+import { EntityNotFoundError, QueryFailedError } from 'typeorm';
+import { RequestContextService } from '../../logging/services/request-context.service';
+import { I18nService } from '../../i18n/services/i18n.service';
+import type { MessageParams } from '../../i18n/interfaces/i18n.interface';
+import { ErrorCode, ErrorDetail, ErrorResponse } from '../interfaces/error.interface';
+
+/**
+ * 🗄️ Códigos de los drivers de base de datos para las violaciones de restricciones
+ * SQLite informa el tipo en el mensaje; PostgreSQL y MySQL/MariaDB con códigos propios
+ */
+const UNIQUE_VIOLATION_CODES = ['23505', 'ER_DUP_ENTRY'];
+const FOREIGN_KEY_VIOLATION_CODES = ['23503', 'ER_NO_REFERENCED_ROW_2', 'ER_ROW_IS_REFERENCED_2'];
+
+/**
+ * 🧩 Campos del error original del driver que usa el filtro (QueryFailedError.driverError)
+ */
+type DriverError = { code?: string; message?: string; detail?: string } | undefined;
+
+/**
+ * 🚨 Filtro global de excepciones
+ *
+ * Todas las respuestas de error de la API tienen el mismo formato
+ * (statusCode, code, message, details, requestId):
+ * - Excepciones HTTP de Nest: usan el `code` del cuerpo si lo tiene
+ *   ({ code, message }) o, si no, el nombre del estado HTTP (NOT_FOUND...)
+ * - Violaciones de restricciones únicas o de claves foráneas: 409 Conflict
+ * - Entidades no encontradas de TypeORM (findOneOrFail): 404 Not Found
+ * - Cualquier otro error: 500 con un mensaje genérico (el detalle solo va al log)
+ *
+ * El mensaje se traduce al idioma de la petición con el catálogo de su código
+ * (y los `params` de la excepción); si no hay traducción, se deja el original.
+ *
+ * @class AllExceptionsFilter
+ */
+@Catch()
+export class AllExceptionsFilter implements ExceptionFilter {
+  private readonly logger = new Logger(AllExceptionsFilter.name);
+
+  /**
+   * Constructor - Inyección de dependencias
+   * @param requestContextService - Para añadir el ID de la petición a la respuesta
+   * @param i18nService - Para traducir los mensajes al idioma de la petición
+   */
+  constructor(
+    private readonly requestContextService: RequestContextService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const response = host.switchToHttp().getResponse<Response>();
+    const errorResponse: ErrorResponse = {
+      ...this.buildError(exception),
+      requestId: this.requestContextService.getRequestId(),
+    };
+
+    response.status(errorResponse.statusCode).json(errorResponse);
+  }
+
+  /**
+   * 🧱 Construir el cuerpo del error según el tipo de excepción
+   *
+   * @private
+   */
+  private buildError(exception: unknown): Omit<ErrorResponse, 'requestId'> {
+    if (exception instanceof HttpException) {
+      return this.fromHttpException(exception);
+    }
+
+    if (exception instanceof QueryFailedError) {
+      const constraintError = this.fromConstraintViolation(exception.driverError as DriverError, exception.message);
+      if (constraintError) {
+        return constraintError;
+      }
+    }
+
+    if (exception instanceof EntityNotFoundError) {
+      return { statusCode: HttpStatus.NOT_FOUND, code: HttpStatus[HttpStatus.NOT_FOUND], message: this.i18nService.translate('resourceNotFound') };
+    }
+
+    this.logger.error(exception instanceof Error ? exception.message : 'Error desconocido', exception instanceof Error ? exception.stack : undefined);
+    return { statusCode: HttpStatus.INTERNAL_SERVER_ERROR, code: ErrorCode.INTERNAL_ERROR, message: this.localize(ErrorCode.INTERNAL_ERROR, 'Error interno del servidor') };
+  }
+
+  /**
+   * 🌐 Excepciones HTTP: lanzadas con { code, message, params, details } o con un simple mensaje
+   * El cuerpo por defecto de Nest ({ statusCode, message, error }) también se admite
+   *
+   * @private
+   */
+  private fromHttpException(exception: HttpException): Omit<ErrorResponse, 'requestId'> {
+    const statusCode = exception.getStatus();
+    const body = exception.getResponse();
+    const defaultCode = HttpStatus[statusCode] ?? ErrorCode.INTERNAL_ERROR;
+
+    if (typeof body === 'string') {
+      return { statusCode, code: defaultCode, message: body };
+    }
+
+    const { code, message, params, details } = body as { code?: string; message?: string | string[]; params?: MessageParams; details?: ErrorDetail[] };
+    const originalMessage = Array.isArray(message) ? message.join('; ') : (message ?? exception.message);
+    return {
+      statusCode,
+      code: code ?? defaultCode,
+      message: code ? this.localize(code, originalMessage, params) : originalMessage,
+      ...(details && { details }),
+    };
+  }
+
+  /**
+   * 🗄️ Violaciones de restricciones de la base de datos → 409 Conflict
+   * Devuelve null si el error de la consulta es de otro tipo
+   *
+   * @private
+   */
+  private fromConstraintViolation(driverError: DriverError, queryMessage: string): Omit<ErrorResponse, 'requestId'> | null {
+    const driverMessage = driverError?.message ?? queryMessage;
+    const isSqliteConstraint = driverError?.code === 'SQLITE_CONSTRAINT';
+
+    if (UNIQUE_VIOLATION_CODES.includes(driverError?.code ?? '') || (isSqliteConstraint && driverMessage.includes('UNIQUE'))) {
+      const fields = this.getConstraintFields(driverMessage, driverError?.detail);
+      return {
+        statusCode: HttpStatus.CONFLICT,
+        code: ErrorCode.UNIQUE_CONSTRAINT_VIOLATION,
+        message: this.localize(ErrorCode.UNIQUE_CONSTRAINT_VIOLATION, 'Ya existe un registro con esos datos'),
+        ...(fields.length > 0 && { details: fields.map((field) => ({ field, messages: [this.i18nService.translate('valueInUse')] })) }),
+      };
+    }
+
+    if (FOREIGN_KEY_VIOLATION_CODES.includes(driverError?.code ?? '') || (isSqliteConstraint && driverMessage.includes('FOREIGN KEY'))) {
+      return { statusCode: HttpStatus.CONFLICT, code: ErrorCode.FOREIGN_KEY_CONSTRAINT_VIOLATION, message: this.localize(ErrorCode.FOREIGN_KEY_CONSTRAINT_VIOLATION, 'El registro hace referencia a datos que no existen o está en uso por otros registros') };
+    }
+
+    return null;
+  }
+
+  /**
+   * 🏷️ Campos de una restricción única a partir del error del driver
+   * SQLite: "UNIQUE constraint failed: users.email" · PostgreSQL: "Key (email)=(...) already exists."
+   *
+   * @private
+   */
+  private getConstraintFields(driverMessage: string, detail?: string): string[] {
+    const sqliteMatch = driverMessage.match(/UNIQUE constraint failed: (.+)$/);
+    if (sqliteMatch) {
+      return sqliteMatch[1].split(',').map((column) => column.trim().split('.').pop() as string);
+    }
+
+    const postgresMatch = detail?.match(/Key \((.+?)\)=/);
+    if (postgresMatch) {
+      return postgresMatch[1].split(',').map((column) => column.trim().replace(/"/g, ''));
+    }
+
+    return [];
+  }
+
+  /**
+   * 🌐 Traducir el mensaje de un error al idioma de la petición
+   * Si el catálogo no tiene el código (o faltan parámetros) se devuelve el mensaje original en español
+   *
+   * @private
+   */
+  private localize(code: string, message: string, params?: MessageParams): string {
+    return this.i18nService.translateError(code, params) ?? message;
+  }
+}
@@ -0,0 +1,83 @@
+import { BadRequestException, ValidationError } from '@nestjs/common';
+import { getMetadataStorage } from 'class-validator';
+import { ErrorCode, ErrorDetail } from '../interfaces/error.interface';
+import { I18nService } from '../../i18n/services/i18n.service';
+
+/**
+ * 🌐 Función que elige el mensaje final de una restricción fallida
+ * Recibe el error del campo, el nombre de la restricción (isString, min...) y el mensaje del DTO
+ */
+type ConstraintMessageResolver = (error: ValidationError, constraint: string, message: string) => string;
+
+/**
+ * 📋 Aplanar los errores de class-validator en una lista por campo
+ * Los campos anidados (DTOs dentro de listas u objetos) usan rutas con puntos: exercises.0.sets
+ *
+ * @param {ValidationError[]} errors - Errores de class-validator
+ * @param {ConstraintMessageResolver} [resolveMessage] - Traducción de cada mensaje (default: el mensaje del DTO)
+ * @param {string} parentPath - Ruta del objeto padre (uso interno, recursivo)
+ * @returns {ErrorDetail[]} Un detalle por campo con todos sus mensajes
+ */
+export function flattenValidationErrors(errors: ValidationError[], resolveMessage: ConstraintMessageResolver = (_error, _constraint, message) => message, parentPath = ''): ErrorDetail[] {
+  return errors.flatMap((error) => {
+    const field = parentPath ? `${parentPath}.${error.property}` : error.property;
+    const ownDetail: ErrorDetail[] = error.constraints ? [{ field, messages: Object.entries(error.constraints).map(([constraint, message]) => resolveMessage(error, constraint, message)) }] : [];
+    return [...ownDetail, ...flattenValidationErrors(error.children ?? [], resolveMessage, field)];
+  });
+}
+
+/**
+ * 🔢 Argumentos del decorador de una restricción, como texto para los mensajes
+ * Las listas (@IsIn) y los enums (@IsEnum) se muestran como sus valores separados por comas
+ *
+ * @param {ValidationError} error - Error del campo (con la instancia del DTO validado)
+ * @param {string} constraint - Nombre de la restricción
+ * @returns {Record<string, string>} { constraint1, constraint2... } según los argumentos del decorador
+ */
+function getConstraintParams(error: ValidationError, constraint: string): Record<string, string> {
+  if (!error.target) {
+    return {};
+  }
+
+  const metadata = getMetadataStorage()
+    .getTargetValidationMetadatas(error.target.constructor, '', true, false)
+    .find((validation) => validation.propertyName === error.property && validation.name === constraint);
+
+  return Object.fromEntries(
+    (metadata?.constraints ?? []).map((argument: unknown, index) => {
+      if (Array.isArray(argument)) {
+        return [`constraint${index + 1}`, argument.join(', ')];
+      }
+      if (argument && typeof argument === 'object') {
+        // Enums: los numéricos tienen además las claves inversas (0: 'LOW'), se descartan
+        const enumValues = Object.entries(argument as Record<string, unknown>).filter(([key]) => isNaN(Number(key)));
+        return [`constraint${index + 1}`, enumValues.map(([, value]) => String(value)).join(', ')];
+      }
+      return [`constraint${index + 1}`, String(argument)];
+    }),
+  );
+}
+
+/**
+ * 🚫 Crear la factory de errores del ValidationPipe global (main.ts)
+ * Convierte los errores de validación en el formato de error común, con el detalle por campo.
+ * Los mensajes se traducen al idioma de la petición con el catálogo de restricciones;
+ * si no hay traducción, se deja el mensaje del DTO (en español)
+ *
+ * @param {I18nService} i18nService - Servicio de traducción
+ * @returns {(errors: ValidationError[]) => BadRequestException} Factory para el ValidationPipe
+ *
+ * @example
+ * // { "statusCode": 400, "code": "VALIDATION_FAILED", "message": "Los datos enviados no son válidos",
+ * //   "details": [{ "field": "email", "messages": ["El email debe tener un formato válido"] }] }
+ */
+export function createValidationExceptionFactory(i18nService: I18nService): (errors: ValidationError[]) => BadRequestException {
+  const resolveMessage: ConstraintMessageResolver = (error, constraint, message) => i18nService.translateValidation(constraint, { property: error.property, ...getConstraintParams(error, constraint) }) ?? message;
+
+  return (errors) =>
+    new BadRequestException({
+      code: ErrorCode.VALIDATION_FAILED,
+      message: 'Los datos enviados no son válidos',
+      details: flattenValidationErrors(errors, resolveMessage),
+    });
+}
@@ -0,0 +1,85 @@
+import type { ErrorDetail } from './error.interface';
+
+/**
+ * 📄 Enumeración de formatos de importación y exportación masiva
+ */
+export enum DataFormat {
+  CSV = 'csv', // 📊 CSV con cabecera (separado por comas)
+  JSON = 'json', // 🧾 Lista JSON de objetos
+}
+
+/**
+ * 🧱 Enumeración de modos de importación
+ */
+export enum ImportMode {
+  ALL_OR_NOTHING = 'all_or_nothing', // 🔒 Si alguna fila falla no se guarda ninguna
+  SKIP_INVALID = 'skip_invalid', // ⏭️ Se guardan las filas válidas y se informan las inválidas
+}
+
+/**
+ * 🚦 Enumeración del resultado de una fila importada
+ */
+export enum ImportRowStatus {
+  CREATED = 'created', // ✅ Guardada
+  VALID = 'valid', // 🆗 Válida, pero no se guardó (dry-run o importación revertida por otra fila)
+  FAILED = 'failed', // ❌ Con errores
+}
+
+/**
+ * 🔤 Cómo se convierte el valor de una celda CSV
+ * string: tal cual · number: número · list: valores separados por '|' · json: JSON (listas de objetos)
+ */
+export type BulkColumnType = 'string' | 'number' | 'list' | 'json';
+
+/**
+ * 📋 Interface de una columna de importación/exportación
+ * El nombre es la propiedad del DTO de creación (y la cabecera del CSV)
+ */
+export interface BulkColumn {
+  name: string; // 🏷️ Nombre de la columna
+  type?: BulkColumnType; // 🔤 Conversión de las celdas CSV (default: string)
+  readOnly?: boolean; // 🔒 Solo se exporta; al importar se ignora (ej: id, createdAt)
+}
+
+/**
+ * ❌ Interface del error de una fila (mismo formato que las respuestas de error de la API)
+ */
+export interface ImportRowError {
+  code: string; // 🏷️ Código de error estable (ErrorCode)
+  message: string; // 💬 Mensaje en el idioma de la petición
+  details?: ErrorDetail[]; // 📋 Errores por campo (validaciones)
+}
+
+/**
+ * 🧾 Interface del resultado de una fila importada
+ */
+export interface ImportRowResult {
+  row: number; // 🔢 Número de fila (1 = primera fila de datos, sin contar la cabecera)
+  status: ImportRowStatus; // 🚦 Resultado
+  id?: number; // 🆔 ID del registro creado (solo si se guardó)
+  error?: ImportRowError; // ❌ Error (solo si falló)
+}
+
+/**
+ * 📊 Interface del informe de una importación
+ */
+export interface ImportReport {
+  dryRun: boolean; // 🧪 Solo validación: no se guarda nada
+  mode: ImportMode; // 🧱 Modo de importación
+  committed: boolean; // 💾 Se guardaron los cambios
+  total: number; // 🔢 Filas recibidas
+  succeeded: number; // ✅ Filas válidas (guardadas si committed)
+  failed: number; // ❌ Filas con errores
+  rows: ImportRowResult[]; // 🧾 Resultado de cada fila
+}
+
+/**
+ * 📤 Interface de las opciones de una exportación en streaming
+ */
+export interface BulkExportOptions<T> {
+  format: DataFormat; // 📄 Formato del fichero
+  fileName: string; // 🏷️ Nombre del fichero (sin extensión)
+  columns: BulkColumn[]; // 📋 Columnas (en este orden)
+  fetchBatch: (afterId: number, limit: number) => Promise<T[]>; // 📦 Siguiente lote de registros con ID mayor que afterId, ordenados por ID
+  toRecord: (item: T) => Record<string, unknown>; // 🔄 Convierte un registro en los valores de las columnas
+}
@@ -0,0 +1,166 @@
+import type { MessageParams } from '../../i18n/interfaces/i18n.interface';
+
+/**
+ * 🏷️ Códigos de error de la API
+ * Identificadores estables que los clientes pueden usar para reaccionar a cada error
+ * (los mensajes pueden cambiar, los códigos no). Los errores sin código propio usan
+ * el nombre del estado HTTP (NOT_FOUND, FORBIDDEN...).
+ */
+export enum ErrorCode {
+  // 🧰 Generales
+  VALIDATION_FAILED = 'VALIDATION_FAILED', // 📋 El cuerpo o la query no cumplen las validaciones del DTO
+  INVALID_ID = 'INVALID_ID', // 🆔 El ID de la URL no es un número
+  INVALID_DATE_RANGE = 'INVALID_DATE_RANGE', // 📅 Fecha inicial posterior a la final
+  INVALID_RANGE = 'INVALID_RANGE', // ↔️ Mínimo mayor que el máximo en un filtro
+  PAGINATION_PAGE_AND_CURSOR = 'PAGINATION_PAGE_AND_CURSOR', // 📄 Se enviaron page y cursor a la vez
+  PAGINATION_INVALID_CURSOR = 'PAGINATION_INVALID_CURSOR', // 🔖 Cursor mal formado
+  PAGINATION_CURSOR_MISMATCH = 'PAGINATION_CURSOR_MISMATCH', // 🔖 Cursor generado con otro orden
+  UNIQUE_CONSTRAINT_VIOLATION = 'UNIQUE_CONSTRAINT_VIOLATION', // 🗄️ Valor duplicado en una columna única
+  FOREIGN_KEY_CONSTRAINT_VIOLATION = 'FOREIGN_KEY_CONSTRAINT_VIOLATION', // 🗄️ Referencia a un registro inexistente o en uso
+  INTERNAL_ERROR = 'INTERNAL_ERROR', // 💥 Error inesperado del servidor
+
+  // 📥 Importación masiva
+  IMPORT_INVALID_FORMAT = 'IMPORT_INVALID_FORMAT', // 📄 El cuerpo no es un CSV ni una lista JSON de objetos
+  IMPORT_CSV_UNCLOSED_QUOTE = 'IMPORT_CSV_UNCLOSED_QUOTE',
+  IMPORT_CSV_COLUMN_COUNT = 'IMPORT_CSV_COLUMN_COUNT', // 📊 Una fila no tiene las mismas columnas que la cabecera
+  IMPORT_UNKNOWN_COLUMNS = 'IMPORT_UNKNOWN_COLUMNS',
+  IMPORT_EMPTY = 'IMPORT_EMPTY',
+  IMPORT_TOO_MANY_ROWS = 'IMPORT_TOO_MANY_ROWS',
+
+  // 🔐 Autenticación y permisos
+  AUTH_TOKEN_REQUIRED = 'AUTH_TOKEN_REQUIRED',
+  AUTH_TOKEN_INVALID = 'AUTH_TOKEN_INVALID',
+  AUTH_USER_INACTIVE = 'AUTH_USER_INACTIVE',
+  AUTH_INVALID_CREDENTIALS = 'AUTH_INVALID_CREDENTIALS',
+  AUTH_REFRESH_TOKEN_INVALID = 'AUTH_REFRESH_TOKEN_INVALID',
+  ACCOUNT_SUSPENDED = 'ACCOUNT_SUSPENDED',
+  ACCOUNT_BANNED = 'ACCOUNT_BANNED',
+  ACCOUNT_PENDING = 'ACCOUNT_PENDING',
+  ACCOUNT_INACTIVE = 'ACCOUNT_INACTIVE',
+  USER_TOKEN_INVALID = 'USER_TOKEN_INVALID', // ✉️ Token de verificación o de restablecimiento inválido
+  PASSWORD_INCORRECT = 'PASSWORD_INCORRECT',
+  PASSWORD_UNCHANGED = 'PASSWORD_UNCHANGED',
+  GUEST_READ_ONLY = 'GUEST_READ_ONLY',
+  INSUFFICIENT_ROLE = 'INSUFFICIENT_ROLE',
+  ADMIN_REQUIRED = 'ADMIN_REQUIRED',
+  ACCESS_DENIED_USER_PROFILE = 'ACCESS_DENIED_USER_PROFILE',
+  ACCESS_DENIED_WORKOUT_DAYS = 'ACCESS_DENIED_WORKOUT_DAYS',
+  ACCESS_DENIED_MEAL_LOGS = 'ACCESS_DENIED_MEAL_LOGS',
+  ACCESS_DENIED_NUTRITION_TARGETS = 'ACCESS_DENIED_NUTRITION_TARGETS',
+  ACCESS_DENIED_BODY_MEASUREMENTS = 'ACCESS_DENIED_BODY_MEASUREMENTS',
+  ACCESS_DENIED_HEALTH_DATA = 'ACCESS_DENIED_HEALTH_DATA', // 🩺 Métricas corporales y objetivos nutricionales de otro usuario
+  ACCESS_DENIED_TRAINING_PROGRAM = 'ACCESS_DENIED_TRAINING_PROGRAM',
+
+  // 👤 Usuarios
+  USER_NOT_FOUND = 'USER_NOT_FOUND',
+  USER_EMAIL_TAKEN = 'USER_EMAIL_TAKEN',
+  USER_ALREADY_DELETED = 'USER_ALREADY_DELETED',
+  USER_BIRTH_DATE_NOT_PAST = 'USER_BIRTH_DATE_NOT_PAST',
+  USER_METRICS_MISSING = 'USER_METRICS_MISSING', // 📏 Faltan métricas para calcular los objetivos nutricionales
+
+  // 💪 Ejercicios
+  EXERCISE_NOT_FOUND = 'EXERCISE_NOT_FOUND',
+  EXERCISES_NOT_FOUND = 'EXERCISES_NOT_FOUND', // 📋 Alguno de los ejercicios de una lista no existe
+  EXERCISE_ALREADY_DELETED = 'EXERCISE_ALREADY_DELETED',
+  EXERCISE_NAME_TAKEN = 'EXERCISE_NAME_TAKEN',
+
+  // 🥑 Nutrición
+  FOOD_NOT_FOUND = 'FOOD_NOT_FOUND',
+  FOODS_NOT_FOUND = 'FOODS_NOT_FOUND', // 📋 Alguno de los alimentos de una lista no existe
+  FOOD_ALREADY_DELETED = 'FOOD_ALREADY_DELETED',
+  FOOD_NAME_TAKEN = 'FOOD_NAME_TAKEN',
+  MEAL_LOG_NOT_FOUND = 'MEAL_LOG_NOT_FOUND',
+  MEAL_LOG_ALREADY_DELETED = 'MEAL_LOG_ALREADY_DELETED',
+
+  // 📏 Mediciones corporales
+  BODY_MEASUREMENT_NOT_FOUND = 'BODY_MEASUREMENT_NOT_FOUND',
+  BODY_MEASUREMENT_ALREADY_DELETED = 'BODY_MEASUREMENT_ALREADY_DELETED',
+  BODY_MEASUREMENT_EMPTY = 'BODY_MEASUREMENT_EMPTY',
+  BODY_MEASUREMENT_DATE_TAKEN = 'BODY_MEASUREMENT_DATE_TAKEN',
+
+  // 🏋️ Días de entrenamiento
+  WORKOUT_DAY_NOT_FOUND = 'WORKOUT_DAY_NOT_FOUND',
+  WORKOUT_DAY_ALREADY_DELETED = 'WORKOUT_DAY_ALREADY_DELETED',
+  WORKOUT_DAY_SLOT_CONFLICT = 'WORKOUT_DAY_SLOT_CONFLICT', // 🔢 El turno del día ya está ocupado
+  WORKOUT_DAY_TIME_OVERLAP = 'WORKOUT_DAY_TIME_OVERLAP', // 🕒 El horario se solapa con otro entrenamiento
+  WORKOUT_DAY_CROSSES_MIDNIGHT = 'WORKOUT_DAY_CROSSES_MIDNIGHT', // 🌙 El entrenamiento terminaría pasada la medianoche
+  CALENDAR_FEED_NOT_FOUND = 'CALENDAR_FEED_NOT_FOUND', // 📅 Token del feed de calendario inválido o revocado
+
+  // 🎯 Tipos de entrenamiento
+  WORKOUT_TYPE_NOT_FOUND = 'WORKOUT_TYPE_NOT_FOUND',
+  WORKOUT_TYPE_INVALID = 'WORKOUT_TYPE_INVALID', // 🏷️ El código enviado no es un tipo activo del catálogo
+  WORKOUT_TYPE_ALREADY_DELETED = 'WORKOUT_TYPE_ALREADY_DELETED',
+  WORKOUT_TYPE_CODE_TAKEN = 'WORKOUT_TYPE_CODE_TAKEN',
+
+  // ⏱️ Sesiones de entrenamiento
+  WORKOUT_SESSION_NOT_FOUND = 'WORKOUT_SESSION_NOT_FOUND',
+  WORKOUT_SESSION_ALREADY_DELETED = 'WORKOUT_SESSION_ALREADY_DELETED',
+  WORKOUT_SESSION_ALREADY_FINISHED = 'WORKOUT_SESSION_ALREADY_FINISHED',
+  WORKOUT_SESSION_IN_PROGRESS = 'WORKOUT_SESSION_IN_PROGRESS',
+  WORKOUT_SESSION_FUTURE_DATE = 'WORKOUT_SESSION_FUTURE_DATE',
+  WORKOUT_SESSION_DUPLICATE_SET = 'WORKOUT_SESSION_DUPLICATE_SET',
+  WORKOUT_SESSION_NOT_SCHEDULED = 'WORKOUT_SESSION_NOT_SCHEDULED',
+
+  // 📆 Programas de entrenamiento
+  TRAINING_PROGRAM_NOT_FOUND = 'TRAINING_PROGRAM_NOT_FOUND',
+  TRAINING_PROGRAM_ALREADY_DELETED = 'TRAINING_PROGRAM_ALREADY_DELETED',
+  PROGRAM_WEEK_NOT_FOUND = 'PROGRAM_WEEK_NOT_FOUND',
+  PROGRAM_WEEKS_OUT_OF_RANGE = 'PROGRAM_WEEKS_OUT_OF_RANGE',
+  PROGRAM_WEEKS_DUPLICATED = 'PROGRAM_WEEKS_DUPLICATED',
+  PROGRAM_ENROLLMENT_NOT_FOUND = 'PROGRAM_ENROLLMENT_NOT_FOUND',
+  PROGRAM_ENROLLMENT_OVERLAP = 'PROGRAM_ENROLLMENT_OVERLAP',
+  PROGRAM_ENROLLMENT_ALREADY_CANCELLED = 'PROGRAM_ENROLLMENT_ALREADY_CANCELLED',
+  SCHEDULE_RANGE_TOO_LONG = 'SCHEDULE_RANGE_TOO_LONG',
+
+  // 🤝 Relaciones profesional-cliente
+  COACH_NOT_FOUND = 'COACH_NOT_FOUND',
+  COACH_NOT_ACCEPTING_CLIENTS = 'COACH_NOT_ACCEPTING_CLIENTS',
+  COACHING_USER_NOT_COACH = 'COACHING_USER_NOT_COACH', // 🎭 El usuario no es entrenador ni nutricionista
+  COACHING_RELATIONSHIP_NOT_FOUND = 'COACHING_RELATIONSHIP_NOT_FOUND',
+  COACHING_SELF_RELATIONSHIP = 'COACHING_SELF_RELATIONSHIP',
+  COACHING_NOT_PARTICIPANT = 'COACHING_NOT_PARTICIPANT',
+  COACHING_NOT_INVITEE = 'COACHING_NOT_INVITEE',
+  COACHING_NOT_TRAINER = 'COACHING_NOT_TRAINER',
+  COACHING_NOT_TRAINING = 'COACHING_NOT_TRAINING',
+  COACHING_RELATIONSHIP_EXISTS = 'COACHING_RELATIONSHIP_EXISTS', // 🤝 Ya hay una relación activa
+  COACHING_INVITATION_PENDING = 'COACHING_INVITATION_PENDING', // ✉️ Ya hay una invitación pendiente
+  COACHING_INVITATION_NOT_PENDING = 'COACHING_INVITATION_NOT_PENDING',
+  COACHING_RELATIONSHIP_CLOSED = 'COACHING_RELATIONSHIP_CLOSED', // 🏁 Ya estaba rechazada o finalizada
+  COACHING_RELATIONSHIP_INACTIVE = 'COACHING_RELATIONSHIP_INACTIVE',
+  COACH_REVIEW_NOT_CLIENT = 'COACH_REVIEW_NOT_CLIENT',
+  COACH_REVIEW_NOT_ALLOWED = 'COACH_REVIEW_NOT_ALLOWED',
+}
+
+/**
+ * 📋 Detalle de un error por campo (validaciones y restricciones únicas)
+ */
+export interface ErrorDetail {
+  field: string; // 🏷️ Campo afectado (ruta con puntos para campos anidados: exercises.0.sets)
+  messages: string[]; // 💬 Mensajes de error del campo
+}
+
+/**
+ * 📦 Respuesta de error de la API (mismo formato para todos los errores)
+ */
+export interface ErrorResponse {
+  statusCode: number; // 🔢 Código de estado HTTP
+  code: string; // 🏷️ Código de error estable (ErrorCode o nombre del estado HTTP)
+  message: string; // 💬 Mensaje legible
+  details?: ErrorDetail[]; // 📋 Errores por campo (opcional)
+  requestId?: string; // 🔗 ID de la petición (X-Request-Id), para buscarla en los logs
+}
+
+/**
+ * 🧱 Cuerpo que se pasa a las excepciones de Nest para dar un código al error
+ * El mensaje va en español; en otros idiomas se usa el del catálogo para ese código,
+ * con los valores de `params` (deben coincidir con los {parámetros} del catálogo)
+ *
+ * @example
+ * throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${id} no encontrado`, params: { id } });
+ */
+export interface ErrorBody {
+  code: ErrorCode;
+  message: string;
+  params?: MessageParams;
+  details?: ErrorDetail[];
+}
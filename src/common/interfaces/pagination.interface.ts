@@ -0,0 +1,47 @@
+/**
+ * ↕️ Enumeración de direcciones de orden
+ */
+export enum SortDirection {
+  ASC = 'asc', // ⬆️ Ascendente
+  DESC = 'desc', // ⬇️ Descendente
+}
+
+/**
+ * 🧮 Columna de orden calculada (no es una propiedad de la entity)
+ * Se añade al SELECT con el alias para poder leer su valor y construir el cursor
+ */
+export interface ComputedSortColumn {
+  expression: string; // 🧮 Expresión SQL (ej: una subconsulta)
+  alias: string; // 🏷️ Alias en el SELECT
+}
+
+/**
+ * 🏆 Interface de un campo de orden permitido
+ * Las columnas son propiedades de la entity principal o expresiones calculadas.
+ * El ID se añade siempre al final como desempate, así el orden es estable
+ */
+export interface SortFieldDefinition {
+  columns: Array<string | ComputedSortColumn>; // 📋 Columnas en orden de prioridad (no deben ser nulas)
+  defaultOrder: SortDirection; // ↕️ Dirección si no se envía order
+}
+
+/**
+ * 📋 Interface con la lista blanca de campos de orden de un listado
+ */
+export interface SortOptions<TSortField extends string> {
+  fields: Record<TSortField, SortFieldDefinition>; // 🏆 Campos permitidos en ?sort=
+  defaultSort: TSortField; // 🎯 Campo si no se envía sort
+}
+
+/**
+ * 📄 Interface del sobre estándar de los listados paginados
+ * Con ?page= se devuelve el número de página; con ?cursor= page es null.
+ * nextCursor permite pedir la página siguiente de forma estable aunque se inserten filas
+ */
+export interface Paginated<T> {
+  items: T[]; // 📋 Resultados de la página
+  total: number; // 🔢 Total de resultados que cumplen los filtros
+  page: number | null; // 📄 Página actual (empieza en 1; null si se paginó por cursor)
+  limit: number; // 📏 Tamaño de página
+  nextCursor: string | null; // ➡️ Cursor de la página siguiente (null si no hay más)
+}
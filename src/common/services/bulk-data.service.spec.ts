@@ -0,0 +1,218 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { IsInt, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { Column, DataSource, Entity, EntityManager, PrimaryGeneratedColumn } from 'typeorm';
+import { BulkDataService } from './bulk-data.service';
+import { ErrorCode } from '../interfaces/error.interface';
+import { DataFormat, ImportMode, ImportRowStatus } from '../interfaces/bulk-data.interface';
+import type { BulkColumn } from '../interfaces/bulk-data.interface';
+import { I18nService } from '../../i18n/services/i18n.service';
+import { RequestContextService } from '../../logging/services/request-context.service';
+
+/**
+ * 🧪 Entity y DTO mínimos para importar (solo existen en este test)
+ */
+@Entity('contacts')
+class ContactEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar' })
+  name: string;
+
+  @Column({ type: 'int', nullable: true })
+  age?: number;
+}
+
+class CreateContactDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsInt()
+  age?: number;
+}
+
+const CONTACT_COLUMNS: BulkColumn[] = [{ name: 'id', type: 'number', readOnly: true }, { name: 'name' }, { name: 'age', type: 'number' }, { name: 'tags', type: 'list' }, { name: 'extra', type: 'json' }];
+
+describe('BulkDataService', () => {
+  let dataSource: DataSource;
+  let service: BulkDataService;
+
+  /**
+   * Guarda una fila; 'duplicado' escribe y después falla para comprobar el savepoint de la fila
+   */
+  const importContact = async (dto: CreateContactDto, manager: EntityManager): Promise<number> => {
+    const saved = await manager.save(ContactEntity, { ...dto });
+    if (dto.name === 'duplicado') {
+      throw new ConflictException({ code: ErrorCode.USER_EMAIL_TAKEN, message: 'Ya existe' });
+    }
+    return saved.id;
+  };
+
+  const countContacts = () => dataSource.getRepository(ContactEntity).count();
+
+  const expectBadRequest = (action: () => unknown, code: ErrorCode) => {
+    let error: unknown;
+    try {
+      action();
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(BadRequestException);
+    expect((error as BadRequestException).getResponse()).toMatchObject({ code });
+  };
+
+  beforeEach(async () => {
+    dataSource = new DataSource({ type: 'sqlite', database: ':memory:', entities: [ContactEntity], synchronize: true });
+    await dataSource.initialize();
+    service = new BulkDataService(dataSource, new I18nService(new RequestContextService()));
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  describe('parseRows (CSV)', () => {
+    it('convierte cada celda según el tipo de su columna y omite las vacías y las de solo lectura', () => {
+      const csv = 'id,name,age,tags,extra\n7,Ana,34,fuerza| cardio ,"[{""a"":1}]"\n8,Luis,,,\n';
+
+      expect(service.parseRows(csv, CONTACT_COLUMNS)).toEqual([{ name: 'Ana', age: 34, tags: ['fuerza', 'cardio'], extra: [{ a: 1 }] }, { name: 'Luis' }]);
+    });
+
+    it('admite comillas con comas, comillas escapadas y saltos de línea, CRLF, BOM y líneas vacías', () => {
+      const csv = '\uFEFFname,age\r\n"García, Ana",30\r\n\r\n"Dice ""hola""\ny adiós",41';
+
+      expect(service.parseRows(csv, CONTACT_COLUMNS)).toEqual([
+        { name: 'García, Ana', age: 30 },
+        { name: 'Dice "hola"\ny adiós', age: 41 },
+      ]);
+    });
+
+    it('deja como texto los valores que no se pueden convertir (los informa la validación del DTO)', () => {
+      expect(service.parseRows('name,age,extra\nAna,treinta,{roto', CONTACT_COLUMNS)).toEqual([{ name: 'Ana', age: 'treinta', extra: '{roto' }]);
+    });
+
+    it('rechaza columnas desconocidas, filas con otro número de columnas y comillas sin cerrar', () => {
+      expectBadRequest(() => service.parseRows('name,email\nAna,ana@x.com', CONTACT_COLUMNS), ErrorCode.IMPORT_UNKNOWN_COLUMNS);
+      expectBadRequest(() => service.parseRows('name,age\nAna', CONTACT_COLUMNS), ErrorCode.IMPORT_CSV_COLUMN_COUNT);
+      expectBadRequest(() => service.parseRows('name,age\n"Ana,30', CONTACT_COLUMNS), ErrorCode.IMPORT_CSV_UNCLOSED_QUOTE);
+    });
+
+    it('rechaza una importación sin filas o con más de 1000', () => {
+      expectBadRequest(() => service.parseRows('name,age\n', CONTACT_COLUMNS), ErrorCode.IMPORT_EMPTY);
+      expectBadRequest(() => service.parseRows(`name\n${'Ana\n'.repeat(1001)}`, CONTACT_COLUMNS), ErrorCode.IMPORT_TOO_MANY_ROWS);
+    });
+  });
+
+  describe('parseRows (JSON)', () => {
+    it('acepta una lista de objetos y quita las columnas de solo lectura', () => {
+      expect(service.parseRows([{ id: 3, name: 'Ana', age: 30 }], CONTACT_COLUMNS)).toEqual([{ name: 'Ana', age: 30 }]);
+    });
+
+    it('rechaza lo que no es una lista de objetos', () => {
+      expectBadRequest(() => service.parseRows({ name: 'Ana' }, CONTACT_COLUMNS), ErrorCode.IMPORT_INVALID_FORMAT);
+      expectBadRequest(() => service.parseRows([['Ana']], CONTACT_COLUMNS), ErrorCode.IMPORT_INVALID_FORMAT);
+      expectBadRequest(() => service.parseRows([], CONTACT_COLUMNS), ErrorCode.IMPORT_EMPTY);
+    });
+  });
+
+  describe('runImport', () => {
+    const rows = [{ name: 'Ana', age: 30 }, { name: '' }, { name: 'Luis', age: 41 }, { name: 'duplicado' }];
+
+    it('dry-run: valida todas las filas y no guarda nada', async () => {
+      const report = await service.runImport([rows[0], rows[2]], CreateContactDto, { dryRun: true, mode: ImportMode.SKIP_INVALID }, importContact);
+
+      expect(report).toEqual({
+        dryRun: true,
+        mode: ImportMode.SKIP_INVALID,
+        committed: false,
+        total: 2,
+        succeeded: 2,
+        failed: 0,
+        rows: [
+          { row: 1, status: ImportRowStatus.VALID },
+          { row: 2, status: ImportRowStatus.VALID },
+        ],
+      });
+      expect(await countContacts()).toBe(0);
+    });
+
+    it('all_or_nothing (por defecto): una fila con errores revierte toda la importación', async () => {
+      const report = await service.runImport(rows, CreateContactDto, {}, importContact);
+
+      expect(report.mode).toBe(ImportMode.ALL_OR_NOTHING);
+      expect(report.committed).toBe(false);
+      expect(report.succeeded).toBe(2);
+      expect(report.failed).toBe(2);
+      expect(report.rows.map((row) => row.status)).toEqual([ImportRowStatus.VALID, ImportRowStatus.FAILED, ImportRowStatus.VALID, ImportRowStatus.FAILED]);
+      expect(report.rows[1].error).toMatchObject({ code: ErrorCode.VALIDATION_FAILED, details: [expect.objectContaining({ field: 'name' })] });
+      expect(report.rows[3].error).toMatchObject({ code: ErrorCode.USER_EMAIL_TAKEN });
+      expect(await countContacts()).toBe(0);
+    });
+
+    it('all_or_nothing: sin errores guarda todas las filas', async () => {
+      const report = await service.runImport([rows[0], rows[2]], CreateContactDto, { mode: ImportMode.ALL_OR_NOTHING }, importContact);
+
+      expect(report.committed).toBe(true);
+      expect(report.rows).toEqual([
+        { row: 1, status: ImportRowStatus.CREATED, id: 1 },
+        { row: 2, status: ImportRowStatus.CREATED, id: 2 },
+      ]);
+      expect(await countContacts()).toBe(2);
+    });
+
+    it('skip_invalid: guarda las filas válidas y deshace lo que escribió una fila que falló', async () => {
+      const report = await service.runImport(rows, CreateContactDto, { mode: ImportMode.SKIP_INVALID }, importContact);
+
+      expect(report.committed).toBe(true);
+      expect(report.rows.filter((row) => row.status === ImportRowStatus.CREATED).map((row) => row.row)).toEqual([1, 3]);
+      expect((await dataSource.getRepository(ContactEntity).find()).map((contact) => contact.name)).toEqual(['Ana', 'Luis']);
+    });
+
+    it('un error que no es HTTP revierte la importación y se propaga', async () => {
+      const failingImport = async (dto: CreateContactDto, manager: EntityManager): Promise<number> => {
+        await manager.save(ContactEntity, { ...dto });
+        throw new Error('Fallo inesperado');
+      };
+
+      await expect(service.runImport([rows[0]], CreateContactDto, { mode: ImportMode.SKIP_INVALID }, failingImport)).rejects.toThrow('Fallo inesperado');
+      expect(await countContacts()).toBe(0);
+    });
+  });
+
+  describe('createExport', () => {
+    const contacts = Array.from({ length: 450 }, (_, index) => ({ id: index + 1, name: index === 0 ? 'García, "Ana"' : `Contacto ${index + 1}`, age: index % 2 === 0 ? 30 : null, tags: ['a', 'b'] }));
+
+    const readExport = async (format: DataFormat) => {
+      const fetchBatch = jest.fn((afterId: number, limit: number) => Promise.resolve(contacts.filter((contact) => contact.id > afterId).slice(0, limit)));
+      const file = service.createExport({ format, fileName: 'contacts', columns: CONTACT_COLUMNS.slice(0, 4), fetchBatch, toRecord: (contact) => ({ ...contact }) });
+
+      let content = '';
+      for await (const chunk of file.getStream()) {
+        content += String(chunk);
+      }
+      return { file, content, fetchBatch };
+    };
+
+    it('escribe un CSV por lotes con la cabecera y las celdas especiales entre comillas', async () => {
+      const { file, content, fetchBatch } = await readExport(DataFormat.CSV);
+      const lines = content.split('\r\n');
+
+      expect(file.getHeaders()).toMatchObject({ type: 'text/csv; charset=utf-8', disposition: 'attachment; filename="contacts.csv"' });
+      expect(fetchBatch.mock.calls.map(([afterId]) => afterId)).toEqual([0, 200, 400]);
+      expect(lines[0]).toBe('id,name,age,tags');
+      expect(lines[1]).toBe('1,"García, ""Ana""",30,a|b');
+      expect(lines[2]).toBe('2,Contacto 2,,a|b');
+      expect(lines).toHaveLength(450 + 2); // Cabecera + filas + línea vacía final
+    });
+
+    it('escribe una lista JSON válida', async () => {
+      const { content } = await readExport(DataFormat.JSON);
+      const records = JSON.parse(content) as { id: number }[];
+
+      expect(records).toHaveLength(450);
+      expect(records.map((record) => record.id)).toEqual(contacts.map((contact) => contact.id));
+    });
+  });
+});
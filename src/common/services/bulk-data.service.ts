@@ -0,0 +1,418 @@
+import { Injectable, BadRequestException, HttpException, HttpStatus, StreamableFile } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import { plainToInstance, ClassConstructor } from 'class-transformer';
+import { validate } from 'class-validator';
+import { Readable } from 'stream';
+import { ImportQueryDto } from '../dto/bulk-data.dto';
+import { DataFormat, ImportMode, ImportRowStatus } from '../interfaces/bulk-data.interface';
+import type { BulkColumn, BulkExportOptions, ImportReport, ImportRowError, ImportRowResult } from '../interfaces/bulk-data.interface';
+import { ErrorCode, ErrorDetail } from '../interfaces/error.interface';
+import { createValidationExceptionFactory } from '../filters/validation-exception.factory';
+import { I18nService } from '../../i18n/services/i18n.service';
+import type { MessageParams } from '../../i18n/interfaces/i18n.interface';
+
+/**
+ * 📏 Máximo de filas por importación
+ */
+const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * 📦 Registros que se leen de la BD en cada lote de una exportación
+ */
+const EXPORT_BATCH_SIZE = 200;
+
+/**
+ * 🔗 Separador de los valores de las columnas de tipo lista en CSV
+ */
+const CSV_LIST_SEPARATOR = '|';
+
+/**
+ * 📥 Servicio de importación y exportación masiva - Utilidad compartida (CSV/JSON)
+ *
+ * Importación: convierte el cuerpo (CSV con cabecera o lista JSON) en
+ * filas, valida cada fila con el DTO de creación y la guarda con la función
+ * del módulo dentro de una única transacción. Cada fila usa un savepoint,
+ * así una fila que falla no deja cambios a medias. Al terminar:
+ * - dry-run: se revierte todo y se devuelve el informe
+ * - all_or_nothing: si alguna fila falló se revierte todo
+ * - skip_invalid: se guardan las filas válidas
+ *
+ * Exportación: genera el fichero por lotes (keyset por ID) y lo envía en
+ * streaming, sin cargar todos los registros en memoria. Las columnas son las
+ * mismas que acepta la importación.
+ *
+ * @class BulkDataService
+ * @description Importación con informe por fila y exportación en streaming
+ */
+@Injectable()
+export class BulkDataService {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param dataSource - Conexión para abrir la transacción de las importaciones
+   * @param i18nService - Mensajes de error de las filas en el idioma de la petición
+   */
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * 📄 Convertir el cuerpo de una importación en filas
+   *
+   * Acepta un CSV (Content-Type: text/csv) con cabecera o una lista JSON de
+   * objetos. Las celdas CSV vacías se omiten y se convierten según el tipo
+   * de su columna. Las columnas de solo lectura (las de una exportación,
+   * como id) se ignoran.
+   *
+   * @param {unknown} body - Cuerpo de la petición (texto CSV o lista JSON)
+   * @param {BulkColumn[]} columns - Columnas de la importación
+   * @returns {Record<string, unknown>[]} Filas listas para validar con el DTO
+   * @throws {BadRequestException} Si el formato no es válido, no hay filas, hay demasiadas o hay columnas desconocidas
+   *
+   * @example
+   * const filas = bulkDataService.parseRows('name,email\nAna,ana@example.com', USER_COLUMNS);
+   * // [{ name: 'Ana', email: 'ana@example.com' }]
+   */
+  parseRows(body: unknown, columns: BulkColumn[]): Record<string, unknown>[] {
+    const rows = typeof body === 'string' ? this.parseCsvRows(body, columns) : this.parseJsonRows(body);
+
+    if (rows.length === 0) {
+      throw new BadRequestException({ code: ErrorCode.IMPORT_EMPTY, message: 'No hay filas que importar' });
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException({ code: ErrorCode.IMPORT_TOO_MANY_ROWS, message: `Se pueden importar como máximo ${MAX_IMPORT_ROWS} filas por petición`, params: { maxRows: MAX_IMPORT_ROWS } });
+    }
+
+    const readOnlyColumns = columns.filter((column) => column.readOnly).map((column) => column.name);
+    return rows.map((row) => Object.fromEntries(Object.entries(row).filter(([name]) => !readOnlyColumns.includes(name))));
+  }
+
+  /**
+   * 📥 Importar filas dentro de una transacción y devolver el informe por fila
+   *
+   * Las filas que no pasan la validación del DTO no llegan a guardarse.
+   * Las excepciones HTTP de la función de guardado (email repetido, sin
+   * permisos...) se informan en su fila; cualquier otro error revierte la
+   * importación completa.
+   *
+   * @param {Record<string, unknown>[]} rows - Filas (de parseRows)
+   * @param {ClassConstructor<TDto>} dtoClass - DTO de creación con el que se valida cada fila
+   * @param {ImportQueryDto} queryDto - dryRun y modo de importación
+   * @param {(dto: TDto, manager: EntityManager) => Promise<number>} importRow - Guarda una fila con el manager de la transacción y devuelve su ID
+   * @returns {Promise<ImportReport>} Informe con el resultado de cada fila
+   *
+   * @example
+   * const informe = await bulkDataService.runImport(filas, CreateUserDto, { mode: ImportMode.SKIP_INVALID }, async (dto, manager) => (await this.insertUser(dto, manager)).id);
+   */
+  async runImport<TDto extends object>(rows: Record<string, unknown>[], dtoClass: ClassConstructor<TDto>, queryDto: ImportQueryDto, importRow: (dto: TDto, manager: EntityManager) => Promise<number>): Promise<ImportReport> {
+    const dryRun = queryDto.dryRun ?? false;
+    const mode = queryDto.mode ?? ImportMode.ALL_OR_NOTHING;
+    const results: ImportRowResult[] = [];
+    const createValidationException = createValidationExceptionFactory(this.i18nService);
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      for (const [index, row] of rows.entries()) {
+        const rowNumber = index + 1;
+        const dto = plainToInstance(dtoClass, row);
+        const validationErrors = await validate(dto, { whitelist: true, forbidNonWhitelisted: true });
+
+        if (validationErrors.length > 0) {
+          results.push({ row: rowNumber, status: ImportRowStatus.FAILED, error: this.toRowError(createValidationException(validationErrors)) });
+          continue;
+        }
+
+        try {
+          // Transacción anidada = savepoint: si la fila falla se deshace solo lo suyo
+          const id = await queryRunner.manager.transaction((rowManager) => importRow(dto, rowManager));
+          results.push({ row: rowNumber, status: ImportRowStatus.VALID, id });
+        } catch (error) {
+          if (!(error instanceof HttpException)) {
+            throw error;
+          }
+          results.push({ row: rowNumber, status: ImportRowStatus.FAILED, error: this.toRowError(error) });
+        }
+      }
+
+      const failed = results.filter((result) => result.status === ImportRowStatus.FAILED).length;
+      const committed = !dryRun && (mode === ImportMode.SKIP_INVALID || failed === 0);
+
+      if (committed) {
+        await queryRunner.commitTransaction();
+      } else {
+        await queryRunner.rollbackTransaction();
+      }
+
+      return {
+        dryRun,
+        mode,
+        committed,
+        total: rows.length,
+        succeeded: rows.length - failed,
+        failed,
+        rows: results.map((result) => this.finalizeRowResult(result, committed)),
+      };
+    } catch (error) {
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * 📤 Crear la exportación en streaming de un listado
+   *
+   * Lee los registros por lotes ordenados por ID y los escribe en CSV
+   * (cabecera + una línea por registro) o en una lista JSON.
+   *
+   * @param {BulkExportOptions<T>} options - Formato, nombre del fichero, columnas, lectura por lotes y conversión de cada registro
+   * @returns {StreamableFile} Fichero para devolver desde el controlador
+   *
+   * @example
+   * return bulkDataService.createExport({ format: DataFormat.CSV, fileName: 'users', columns: USER_COLUMNS, fetchBatch: (afterId, limit) => ..., toRecord: (user) => ({ ... }) });
+   */
+  createExport<T extends { id: number }>(options: BulkExportOptions<T>): StreamableFile {
+    const isCsv = options.format === DataFormat.CSV;
+
+    return new StreamableFile(Readable.from(this.generateExport(options)), {
+      type: isCsv ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+      disposition: `attachment; filename="${options.fileName}.${options.format}"`,
+    });
+  }
+
+  /**
+   * 🔄 Método privado que genera el contenido de una exportación lote a lote
+   * @private
+   */
+  private async *generateExport<T extends { id: number }>(options: BulkExportOptions<T>): AsyncGenerator<string> {
+    const isCsv = options.format === DataFormat.CSV;
+    yield isCsv ? this.toCsvLine(options.columns.map((column) => column.name)) : '[';
+
+    let afterId = 0;
+    let isFirst = true;
+
+    while (true) {
+      const batch = await options.fetchBatch(afterId, EXPORT_BATCH_SIZE);
+
+      for (const item of batch) {
+        const record = options.toRecord(item);
+
+        if (isCsv) {
+          yield this.toCsvLine(options.columns.map((column) => this.formatCsvCell(record[column.name], column)));
+        } else {
+          yield `${isFirst ? '' : ','}${JSON.stringify(record)}`;
+        }
+        isFirst = false;
+      }
+
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        break;
+      }
+      afterId = batch[batch.length - 1].id;
+    }
+
+    if (!isCsv) {
+      yield ']';
+    }
+  }
+
+  /**
+   * 📊 Método privado para convertir un CSV con cabecera en filas
+   *
+   * @private
+   */
+  private parseCsvRows(text: string, columns: BulkColumn[]): Record<string, unknown>[] {
+    const [header = [], ...records] = this.parseCsv(text);
+    const columnNames = header.map((name) => name.trim());
+
+    const validColumns = columns.map((column) => column.name);
+    const unknownColumns = columnNames.filter((name) => !validColumns.includes(name));
+    if (unknownColumns.length > 0) {
+      throw new BadRequestException({ code: ErrorCode.IMPORT_UNKNOWN_COLUMNS, message: `Columnas desconocidas: ${unknownColumns.join(', ')}. Columnas válidas: ${validColumns.join(', ')}`, params: { columns: unknownColumns.join(', '), validColumns: validColumns.join(', ') } });
+    }
+
+    return records.map((record, index) => {
+      if (record.length !== columnNames.length) {
+        throw new BadRequestException({ code: ErrorCode.IMPORT_CSV_COLUMN_COUNT, message: `La fila ${index + 1} tiene ${record.length} columnas, pero la cabecera tiene ${columnNames.length}`, params: { row: index + 1, count: record.length, expected: columnNames.length } });
+      }
+
+      const row: Record<string, unknown> = {};
+      columnNames.forEach((name, columnIndex) => {
+        const cell = record[columnIndex];
+        if (cell.trim() !== '') {
+          row[name] = this.parseCsvCell(
+            cell,
+            columns.find((column) => column.name === name),
+          );
+        }
+      });
+      return row;
+    });
+  }
+
+  /**
+   * 🧾 Método privado para validar que el cuerpo JSON es una lista de objetos
+   *
+   * @private
+   */
+  private parseJsonRows(body: unknown): Record<string, unknown>[] {
+    if (!Array.isArray(body) || body.some((row) => !row || typeof row !== 'object' || Array.isArray(row))) {
+      throw new BadRequestException({ code: ErrorCode.IMPORT_INVALID_FORMAT, message: 'Envía un CSV con cabecera (Content-Type: text/csv) o una lista JSON de objetos (Content-Type: application/json)' });
+    }
+
+    return body as Record<string, unknown>[];
+  }
+
+  /**
+   * ✂️ Método privado para separar un CSV en registros y celdas (RFC 4180)
+   *
+   * Admite celdas entre comillas con comas, saltos de línea y comillas
+   * dobles escapadas (""). Ignora el BOM inicial y las líneas vacías.
+   *
+   * @private
+   */
+  private parseCsv(text: string): string[][] {
+    const input = text.replace(/^\uFEFF/, '');
+    const records: string[][] = [];
+    let record: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let index = 0; index < input.length; index++) {
+      const char = input[index];
+
+      if (inQuotes) {
+        if (char === '"' && input[index + 1] === '"') {
+          cell += '"';
+          index++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[index + 1] === '\n') {
+          index++;
+        }
+        record.push(cell);
+        records.push(record);
+        record = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new BadRequestException({ code: ErrorCode.IMPORT_CSV_UNCLOSED_QUOTE, message: 'El CSV tiene comillas sin cerrar' });
+    }
+
+    if (cell !== '' || record.length > 0) {
+      record.push(cell);
+      records.push(record);
+    }
+
+    return records.filter((candidate) => candidate.some((value) => value.trim() !== ''));
+  }
+
+  /**
+   * 🔤 Método privado para convertir una celda CSV según el tipo de su columna
+   * Si no se puede convertir se deja el texto, y la validación del DTO informa el error del campo
+   * @private
+   */
+  private parseCsvCell(cell: string, column?: BulkColumn): unknown {
+    const value = cell.trim();
+
+    switch (column?.type) {
+      case 'number':
+        return isNaN(Number(value)) ? value : Number(value);
+      case 'list':
+        return value
+          .split(CSV_LIST_SEPARATOR)
+          .map((item) => item.trim())
+          .filter((item) => item.length > 0);
+      case 'json':
+        try {
+          return JSON.parse(value) as unknown;
+        } catch {
+          return value;
+        }
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * 🔤 Método privado para escribir un valor en una celda CSV según el tipo de su columna
+   * @private
+   */
+  private formatCsvCell(value: unknown, column: BulkColumn): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (column.type === 'list' && Array.isArray(value)) {
+      return value.join(CSV_LIST_SEPARATOR);
+    }
+    if (column.type === 'json') {
+      return JSON.stringify(value);
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return String(value as string | number | boolean);
+  }
+
+  /**
+   * 📝 Método privado para escribir una línea CSV (entre comillas las celdas con comas, comillas o saltos de línea)
+   * @private
+   */
+  private toCsvLine(cells: string[]): string {
+    return cells.map((cell) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(',') + '\r\n';
+  }
+
+  /**
+   * ❌ Método privado para convertir la excepción de una fila en su error del informe
+   * Mismo formato y traducción que el filtro global de excepciones
+   * @private
+   */
+  private toRowError(exception: HttpException): ImportRowError {
+    const body = exception.getResponse();
+    const defaultCode = HttpStatus[exception.getStatus()] ?? ErrorCode.INTERNAL_ERROR;
+
+    if (typeof body === 'string') {
+      return { code: defaultCode, message: body };
+    }
+
+    const { code, message, params, details } = body as { code?: string; message?: string | string[]; params?: MessageParams; details?: ErrorDetail[] };
+    const originalMessage = Array.isArray(message) ? message.join('; ') : (message ?? exception.message);
+    return {
+      code: code ?? defaultCode,
+      message: (code && this.i18nService.translateError(code, params)) || originalMessage,
+      ...(details && { details }),
+    };
+  }
+
+  /**
+   * 🏁 Método privado para ajustar el resultado de una fila válida según si se guardó la importación
+   * @private
+   */
+  private finalizeRowResult(result: ImportRowResult, committed: boolean): ImportRowResult {
+    if (result.status !== ImportRowStatus.VALID) {
+      return result;
+    }
+
+    return committed ? { ...result, status: ImportRowStatus.CREATED } : { row: result.row, status: ImportRowStatus.VALID };
+  }
+}
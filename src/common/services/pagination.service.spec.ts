@@ -0,0 +1,147 @@
+import { BadRequestException } from '@nestjs/common';
+import { Column, DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import { PaginationService } from './pagination.service';
+import { ErrorCode } from '../interfaces/error.interface';
+import { SortDirection, SortOptions } from '../interfaces/pagination.interface';
+
+/**
+ * 🧪 Entity mínima para paginar (solo existe en este test)
+ */
+@Entity('scores')
+class ScoreEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar' })
+  name: string;
+
+  @Column({ type: 'int' })
+  points: number;
+}
+
+type ScoreSortField = 'points' | 'name';
+
+const SCORE_SORT_OPTIONS: SortOptions<ScoreSortField> = {
+  fields: {
+    points: { columns: ['points'], defaultOrder: SortDirection.DESC },
+    name: { columns: ['name'], defaultOrder: SortDirection.ASC },
+  },
+  defaultSort: 'points',
+};
+
+describe('PaginationService', () => {
+  let dataSource: DataSource;
+  let service: PaginationService;
+
+  const queryBuilder = () => dataSource.getRepository(ScoreEntity).createQueryBuilder('score');
+  const decode = (cursor: string) => JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as { sort: string; order: string; values: unknown[] };
+  const encode = (payload: object) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  /**
+   * Recorrer todas las páginas siguiendo nextCursor y devolver los IDs en orden
+   */
+  const walkAllPages = async (limit: number, sort?: ScoreSortField, order?: SortDirection): Promise<number[]> => {
+    const ids: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await service.paginate(queryBuilder(), { limit, cursor, sort, order }, SCORE_SORT_OPTIONS);
+      ids.push(...result.items.map((item) => item.id));
+      cursor = result.nextCursor ?? undefined;
+    } while (cursor);
+    return ids;
+  };
+
+  beforeEach(async () => {
+    dataSource = new DataSource({ type: 'sqlite', database: ':memory:', entities: [ScoreEntity], synchronize: true });
+    await dataSource.initialize();
+    service = new PaginationService();
+
+    // Puntos repetidos para que el desempate por ID importe
+    await dataSource.getRepository(ScoreEntity).save([50, 30, 50, 10, 30, 50, 20].map((points, index) => ({ name: `jugador-${index + 1}`, points })));
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  describe('paginación por página', () => {
+    it('devuelve la página pedida con el total y la página actual', async () => {
+      const result = await service.paginate(queryBuilder(), { page: 2, limit: 3 }, SCORE_SORT_OPTIONS);
+
+      expect(result.total).toBe(7);
+      expect(result.page).toBe(2);
+      expect(result.limit).toBe(3);
+      expect(result.items.map((item) => item.points)).toEqual([30, 30, 20]);
+      expect(result.nextCursor).not.toBeNull();
+    });
+
+    it('no devuelve cursor en la última página', async () => {
+      const result = await service.paginate(queryBuilder(), { page: 3, limit: 3 }, SCORE_SORT_OPTIONS);
+
+      expect(result.items).toHaveLength(1);
+      expect(result.nextCursor).toBeNull();
+    });
+  });
+
+  describe('cursor keyset', () => {
+    it('codifica el orden y los valores de la última fila (columnas + ID de desempate)', async () => {
+      const result = await service.paginate(queryBuilder(), { limit: 2 }, SCORE_SORT_OPTIONS);
+
+      expect(result.items.map((item) => item.id)).toEqual([6, 3]);
+      expect(decode(result.nextCursor as string)).toEqual({ sort: 'points', order: SortDirection.DESC, values: [50, 3] });
+    });
+
+    it('recorre todas las filas una sola vez, ordenadas por el campo y después por ID', async () => {
+      expect(await walkAllPages(2)).toEqual([6, 3, 1, 5, 2, 7, 4]);
+      expect(await walkAllPages(3, 'points', SortDirection.ASC)).toEqual([4, 7, 2, 5, 1, 3, 6]);
+      expect(await walkAllPages(4, 'name')).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    });
+
+    it('devuelve page null al paginar por cursor', async () => {
+      const first = await service.paginate(queryBuilder(), { limit: 2 }, SCORE_SORT_OPTIONS);
+      const second = await service.paginate(queryBuilder(), { limit: 2, cursor: first.nextCursor as string }, SCORE_SORT_OPTIONS);
+
+      expect(second.page).toBeNull();
+      expect(second.total).toBe(7);
+      expect(second.items.map((item) => item.id)).toEqual([1, 5]);
+    });
+
+    it('no repite ni salta filas aunque se inserten registros entre peticiones', async () => {
+      const first = await service.paginate(queryBuilder(), { limit: 3 }, SCORE_SORT_OPTIONS);
+      await dataSource.getRepository(ScoreEntity).save([
+        { name: 'nuevo-arriba', points: 60 },
+        { name: 'nuevo-abajo', points: 5 },
+      ]);
+
+      const second = await service.paginate(queryBuilder(), { limit: 10, cursor: first.nextCursor as string }, SCORE_SORT_OPTIONS);
+
+      expect(first.items.map((item) => item.id)).toEqual([6, 3, 1]);
+      expect(second.items.map((item) => item.name)).toEqual(['jugador-5', 'jugador-2', 'jugador-7', 'jugador-4', 'nuevo-abajo']);
+    });
+  });
+
+  describe('errores', () => {
+    const expectBadRequest = async (promise: Promise<unknown>, code: ErrorCode) => {
+      const error = await promise.catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toMatchObject({ code });
+    };
+
+    it('rechaza page y cursor a la vez', async () => {
+      const cursor = encode({ sort: 'points', order: SortDirection.DESC, values: [50, 3] });
+      await expectBadRequest(service.paginate(queryBuilder(), { page: 1, cursor }, SCORE_SORT_OPTIONS), ErrorCode.PAGINATION_PAGE_AND_CURSOR);
+    });
+
+    it('rechaza un cursor que no se puede leer o con un número de valores distinto', async () => {
+      await expectBadRequest(service.paginate(queryBuilder(), { cursor: 'no-es-un-cursor' }, SCORE_SORT_OPTIONS), ErrorCode.PAGINATION_INVALID_CURSOR);
+      await expectBadRequest(service.paginate(queryBuilder(), { cursor: encode({ sort: 'points', order: SortDirection.DESC, values: [50] }) }, SCORE_SORT_OPTIONS), ErrorCode.PAGINATION_INVALID_CURSOR);
+    });
+
+    it('rechaza un cursor generado con otro sort u order', async () => {
+      const { nextCursor } = await service.paginate(queryBuilder(), { limit: 2 }, SCORE_SORT_OPTIONS);
+
+      await expectBadRequest(service.paginate(queryBuilder(), { cursor: nextCursor as string, order: SortDirection.ASC }, SCORE_SORT_OPTIONS), ErrorCode.PAGINATION_CURSOR_MISMATCH);
+      await expectBadRequest(service.paginate(queryBuilder(), { cursor: nextCursor as string, sort: 'name' }, SCORE_SORT_OPTIONS), ErrorCode.PAGINATION_CURSOR_MISMATCH);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { SelectQueryBuilder, ObjectLiteral, Brackets } from 'typeorm';
+import { PaginationQueryDto } from '../dto/pagination-query.dto';
+import { SortDirection } from '../interfaces/pagination.interface';
+import type { Paginated, SortOptions } from '../interfaces/pagination.interface';
+import { ErrorCode } from '../interfaces/error.interface';
+
+/**
+ * 📏 Tamaño de página por defecto
+ */
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * 🧭 Columna de orden ya resuelta: expresión para ORDER BY/WHERE y clave en el resultado crudo
+ */
+interface ResolvedSortColumn {
+  expression: string;
+  rawKey: string;
+}
+
+/**
+ * ➡️ Contenido del cursor (se codifica en base64url)
+ * Guarda el campo y la dirección para rechazar cursores de otro orden
+ */
+interface CursorPayload {
+  sort: string;
+  order: SortDirection;
+  values: unknown[];
+}
+
+/**
+ * 📄 Servicio de paginación - Utilidad compartida por los listados
+ *
+ * Aplica a un QueryBuilder el orden (de una lista blanca de campos), la
+ * paginación por página o por cursor y devuelve el sobre estándar
+ * { items, total, page, limit, nextCursor }.
+ *
+ * El cursor es keyset: guarda los valores de las columnas de orden de la
+ * última fila y la página siguiente empieza justo después, así no se
+ * repiten ni se saltan filas aunque se inserten registros entre peticiones.
+ *
+ * El QueryBuilder no debe hacer join con colecciones (una fila por entity).
+ *
+ * @class PaginationService
+ * @description Paginación, orden y total de los listados
+ */
+@Injectable()
+export class PaginationService {
+  /**
+   * 📄 Paginar un QueryBuilder con sus filtros ya aplicados
+   *
+   * @param {SelectQueryBuilder<T>} queryBuilder - Consulta con los filtros (WHERE) del listado
+   * @param {PaginationQueryDto & { sort?: TSortField }} query - page/cursor, limit, sort y order de la petición
+   * @param {SortOptions<TSortField>} sortOptions - Lista blanca de campos de orden del listado
+   * @returns {Promise<Paginated<T>>} Página de resultados con total y cursor siguiente
+   * @throws {BadRequestException} Si se envían page y cursor a la vez o el cursor no es válido
+   *
+   * @example
+   * const queryBuilder = userRepository.createQueryBuilder('user').where('user.status = :status', { status: UserStatus.ACTIVE });
+   * const pagina = await paginationService.paginate(queryBuilder, { page: 2, limit: 10, sort: UserSortField.NAME }, USER_SORT_OPTIONS);
+   */
+  async paginate<T extends ObjectLiteral, TSortField extends string>(queryBuilder: SelectQueryBuilder<T>, query: PaginationQueryDto & { sort?: TSortField }, sortOptions: SortOptions<TSortField>): Promise<Paginated<T>> {
+    if (query.page !== undefined && query.cursor !== undefined) {
+      throw new BadRequestException({ code: ErrorCode.PAGINATION_PAGE_AND_CURSOR, message: 'Usa page o cursor para paginar, pero no ambos' });
+    }
+
+    const sort = query.sort ?? sortOptions.defaultSort;
+    const sortField = sortOptions.fields[sort];
+    const order = query.order ?? sortField.defaultOrder;
+    const page = query.page ?? 1;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+    // El total se cuenta con los filtros, antes de aplicar el cursor
+    const total = await queryBuilder.getCount();
+
+    const columns = this.resolveSortColumns(queryBuilder, sortField.columns);
+    const direction = order === SortDirection.DESC ? 'DESC' : 'ASC';
+    columns.forEach((column, index) => {
+      if (index === 0) {
+        queryBuilder.orderBy(column.expression, direction);
+      } else {
+        queryBuilder.addOrderBy(column.expression, direction);
+      }
+    });
+
+    if (query.cursor !== undefined) {
+      const values = this.decodeCursor(query.cursor, sort, order, columns.length);
+      this.applyCursor(queryBuilder, columns, values, order);
+    } else {
+      queryBuilder.offset((page - 1) * limit);
+    }
+
+    // Se pide una fila de más para saber si hay página siguiente
+    const { entities, raw } = await queryBuilder.limit(limit + 1).getRawAndEntities();
+    const hasMore = entities.length > limit;
+    const items = entities.slice(0, limit);
+
+    const lastRow = raw[items.length - 1] as Record<string, unknown> | undefined;
+    const nextCursor = hasMore && lastRow ? this.encodeCursor({ sort, order, values: columns.map((column) => lastRow[column.rawKey]) }) : null;
+
+    return {
+      items,
+      total,
+      page: query.cursor !== undefined ? null : page,
+      limit,
+      nextCursor,
+    };
+  }
+
+  /**
+   * 🧭 Método privado para resolver las columnas de orden (más el ID como desempate)
+   * Las propiedades se leen del resultado crudo como alias_columna; las calculadas se añaden al SELECT
+   * @private
+   */
+  private resolveSortColumns<T extends ObjectLiteral>(queryBuilder: SelectQueryBuilder<T>, columns: SortOptions<string>['fields'][string]['columns']): ResolvedSortColumn[] {
+    const alias = queryBuilder.alias;
+    const metadata = queryBuilder.expressionMap.mainAlias!.metadata;
+    const primaryColumn = metadata.primaryColumns[0];
+
+    const resolved = columns.map((column): ResolvedSortColumn => {
+      if (typeof column !== 'string') {
+        queryBuilder.addSelect(column.expression, column.alias);
+        return { expression: column.expression, rawKey: column.alias };
+      }
+
+      const columnMetadata = metadata.findColumnWithPropertyPath(column);
+      if (!columnMetadata) {
+        throw new Error(`La columna de orden "${column}" no existe en ${metadata.name}`);
+      }
+
+      return { expression: `${alias}.${column}`, rawKey: `${alias}_${columnMetadata.databaseName}` };
+    });
+
+    resolved.push({ expression: `${alias}.${primaryColumn.propertyPath}`, rawKey: `${alias}_${primaryColumn.databaseName}` });
+    return resolved;
+  }
+
+  /**
+   * ➡️ Método privado para aplicar el cursor: filas estrictamente después de la última devuelta
+   * (c1 > v1) OR (c1 = v1 AND c2 > v2) OR ... (con < si el orden es descendente)
+   * @private
+   */
+  private applyCursor<T extends ObjectLiteral>(queryBuilder: SelectQueryBuilder<T>, columns: ResolvedSortColumn[], values: unknown[], order: SortDirection): void {
+    const comparator = order === SortDirection.DESC ? '<' : '>';
+    const parameters = Object.fromEntries(values.map((value, index) => [`cursor${index}`, value]));
+
+    queryBuilder.andWhere(
+      new Brackets((cursorQuery) => {
+        columns.forEach((column, index) => {
+          const equalities = columns.slice(0, index).map((previous, previousIndex) => `${previous.expression} = :cursor${previousIndex}`);
+          cursorQuery.orWhere([...equalities, `${column.expression} ${comparator} :cursor${index}`].join(' AND '));
+        });
+      }),
+      parameters,
+    );
+  }
+
+  /**
+   * 🔐 Método privado para codificar el cursor
+   * @private
+   */
+  private encodeCursor(payload: CursorPayload): string {
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  /**
+   * 🔓 Método privado para decodificar y validar el cursor
+   *
+   * @throws {BadRequestException} Si no se puede leer o pertenece a otro orden
+   * @private
+   */
+  private decodeCursor(cursor: string, sort: string, order: SortDirection, columnCount: number): unknown[] {
+    let payload: CursorPayload;
+
+    try {
+      payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as CursorPayload;
+    } catch {
+      throw new BadRequestException({ code: ErrorCode.PAGINATION_INVALID_CURSOR, message: 'El cursor no es válido' });
+    }
+
+    if (!payload || !Array.isArray(payload.values)) {
+      throw new BadRequestException({ code: ErrorCode.PAGINATION_INVALID_CURSOR, message: 'El cursor no es válido' });
+    }
+
+    if (payload.sort !== sort || payload.order !== order) {
+      throw new BadRequestException({ code: ErrorCode.PAGINATION_CURSOR_MISMATCH, message: `El cursor se generó ordenando por ${payload.sort} ${payload.order}: usa el mismo sort y order o empieza sin cursor`, params: { sort: payload.sort, order: payload.order } });
+    }
+
+    if (payload.values.length !== columnCount) {
+      throw new BadRequestException({ code: ErrorCode.PAGINATION_INVALID_CURSOR, message: 'El cursor no es válido' });
+    }
+
+    return payload.values;
+  }
+}
@@ -0,0 +1,81 @@
+import { Column, DataSource, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import { QueryFiltersService } from './query-filters.service';
+
+/**
+ * 🧪 Entity mínima con columnas de texto (solo existe en este test)
+ */
+@Entity('offers')
+class OfferEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar' })
+  name: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  description: string | null;
+}
+
+describe('QueryFiltersService', () => {
+  let dataSource: DataSource;
+  let service: QueryFiltersService;
+
+  /**
+   * Nombres de las ofertas que encuentra la búsqueda de texto libre
+   */
+  const textSearch = async (text: string) => {
+    const queryBuilder = dataSource.getRepository(OfferEntity).createQueryBuilder('offer').orderBy('offer.id');
+    service.applyTextSearch(queryBuilder, ['name', 'description'], text);
+    return (await queryBuilder.getMany()).map((offer) => offer.name);
+  };
+
+  beforeEach(async () => {
+    dataSource = new DataSource({ type: 'sqlite', database: ':memory:', entities: [OfferEntity], synchronize: true });
+    await dataSource.initialize();
+    service = new QueryFiltersService(dataSource);
+
+    await dataSource.getRepository(OfferEntity).save([
+      { name: 'Descuento 50% en proteína', description: null },
+      { name: 'Descuento 500 kcal', description: 'Plan de volumen' },
+      { name: 'Pack pre_entreno', description: null },
+      { name: 'Pack pre-entreno', description: 'Con ruta C:\\planes' },
+    ]);
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  describe('búsquedas parciales (LIKE) con comodines en el texto', () => {
+    it('escapa %, _ y la barra invertida en el patrón', () => {
+      expect(service.containsPattern('50%_off\\')).toBe('%50\\%\\_off\\\\%');
+    });
+
+    it('applyTextSearch busca % y _ literalmente', async () => {
+      expect(await textSearch('50%')).toEqual(['Descuento 50% en proteína']);
+      expect(await textSearch('pre_entreno')).toEqual(['Pack pre_entreno']);
+      expect(await textSearch('%')).toEqual(['Descuento 50% en proteína']);
+    });
+
+    it('applyTextSearch busca la barra invertida literalmente', async () => {
+      expect(await textSearch('c:\\planes')).toEqual(['Pack pre-entreno']);
+    });
+
+    it('sin comodines sigue siendo una búsqueda parcial sin distinguir mayúsculas', async () => {
+      expect(await textSearch('DESCUENTO 50')).toEqual(['Descuento 50% en proteína', 'Descuento 500 kcal']);
+    });
+
+    it('likeContains filtra las condiciones de find con el patrón escapado', async () => {
+      const offers = await dataSource.getRepository(OfferEntity).find({ where: { name: service.likeContains('name', 'pre_') } });
+
+      expect(offers.map((offer) => offer.name)).toEqual(['Pack pre_entreno']);
+    });
+
+    it('en MySQL/MariaDB escribe la barra invertida de ESCAPE doble', () => {
+      const mysqlService = new QueryFiltersService({ options: { type: 'mysql' } } as DataSource);
+
+      expect(service.likeCondition('LOWER(user.location)', 'location')).toBe("LOWER(user.location) LIKE :location ESCAPE '\\'");
+      expect(mysqlService.likeCondition('LOWER(user.location)', 'location')).toBe("LOWER(user.location) LIKE :location ESCAPE '\\\\'");
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { SelectQueryBuilder, ObjectLiteral, Brackets, DataSource, FindOperator, Raw } from 'typeorm';
+import { ErrorCode } from '../interfaces/error.interface';
+
+/**
+ * 🧰 Servicio de filtros de búsqueda - Utilidad compartida por los buscadores
+ *
+ * Reúne los filtros que se repiten en varios endpoints de búsqueda:
+ * rangos (mínimo/máximo), rangos de fechas por día y texto libre en varias
+ * columnas. Se aplican sobre un QueryBuilder con el alias de la entity.
+ *
+ * Las búsquedas parciales (LIKE) escapan los comodines % y _ del texto del
+ * usuario: "50%" busca literalmente "50%" y no "50" seguido de cualquier cosa.
+ *
+ * @class QueryFiltersService
+ * @description Filtros reutilizables para QueryBuilder
+ */
+@Injectable()
+export class QueryFiltersService {
+  /**
+   * Constructor del servicio
+   * @param dataSource - Conexión activa (el dialecto decide cómo se escribe la cláusula ESCAPE)
+   */
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * ↔️ Validar que el mínimo de un rango no sea mayor que el máximo
+   *
+   * @param {number | string | undefined} min - Valor mínimo (número o fecha YYYY-MM-DD)
+   * @param {number | string | undefined} max - Valor máximo
+   * @param {string} label - Nombre del rango para el mensaje de error
+   * @throws {BadRequestException} Si min > max
+   *
+   * @example
+   * queryFiltersService.assertValidRange(searchDto.minDuration, searchDto.maxDuration, 'duración');
+   */
+  assertValidRange(min: number | string | undefined, max: number | string | undefined, label: string): void {
+    if (min !== undefined && max !== undefined && min > max) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_RANGE, message: `El rango de ${label} no es válido: el mínimo (${min}) es mayor que el máximo (${max})`, params: { min, max } });
+    }
+  }
+
+  /**
+   * 📅 Filtrar una columna de fecha y hora por días completos (UTC)
+   * from y to son inclusivos: to incluye todo ese día
+   *
+   * @param {SelectQueryBuilder<T>} queryBuilder - Consulta a filtrar
+   * @param {string} column - Propiedad de la entity principal (ej: 'createdAt')
+   * @param {string} [from] - Primer día (YYYY-MM-DD)
+   * @param {string} [to] - Último día (YYYY-MM-DD)
+   * @throws {BadRequestException} Si from es posterior a to
+   *
+   * @example
+   * queryFiltersService.applyDateRange(queryBuilder, 'createdAt', '2025-01-01', '2025-01-31');
+   */
+  applyDateRange<T extends ObjectLiteral>(queryBuilder: SelectQueryBuilder<T>, column: string, from?: string, to?: string): void {
+    this.assertValidRange(from, to, `fechas de ${column}`);
+
+    if (from) {
+      queryBuilder.andWhere(`${queryBuilder.alias}.${column} >= :${column}From`, { [`${column}From`]: from });
+    }
+
+    if (to) {
+      // Hasta el inicio del día siguiente (exclusivo), así se incluyen todas las horas de "to"
+      const dayAfter = new Date(`${to}T00:00:00.000Z`);
+      dayAfter.setUTCDate(dayAfter.getUTCDate() + 1);
+      queryBuilder.andWhere(`${queryBuilder.alias}.${column} < :${column}Before`, { [`${column}Before`]: dayAfter.toISOString().slice(0, 10) });
+    }
+  }
+
+  /**
+   * 🔎 Búsqueda de texto libre en varias columnas
+   * Cada palabra debe aparecer (sin distinguir mayúsculas) en al menos una de las columnas
+   *
+   * @param {SelectQueryBuilder<T>} queryBuilder - Consulta a filtrar
+   * @param {string[]} columns - Propiedades de texto de la entity principal
+   * @param {string} [text] - Texto de búsqueda
+   *
+   * @example
+   * queryFiltersService.applyTextSearch(queryBuilder, ['name', 'description'], 'pierna fuerza');
+   */
+  applyTextSearch<T extends ObjectLiteral>(queryBuilder: SelectQueryBuilder<T>, columns: string[], text?: string): void {
+    const terms = (text ?? '')
+      .toLowerCase()
+      .split(/\s+/)
+      .filter((term) => term.length > 0);
+
+    terms.forEach((term, termIndex) => {
+      queryBuilder.andWhere(
+        new Brackets((termQuery) => {
+          columns.forEach((column) => {
+            termQuery.orWhere(this.likeCondition(`LOWER(${queryBuilder.alias}.${column})`, `term${termIndex}`), { [`term${termIndex}`]: this.containsPattern(term) });
+          });
+        }),
+      );
+    });
+  }
+
+  /**
+   * 🔡 Patrón LIKE "contiene" que busca el texto literalmente
+   * Escapa los comodines % y _ (y el propio carácter de escape \) del texto
+   * Se usa con likeCondition, que añade la cláusula ESCAPE
+   *
+   * @param {string} text - Texto del usuario
+   * @returns {string} Patrón %texto% con los comodines escapados
+   *
+   * @example
+   * queryFiltersService.containsPattern('50%_off'); // %50\%\_off%
+   */
+  containsPattern(text: string): string {
+    return `%${text.replace(/[\\%_]/g, (character) => `\\${character}`)}%`;
+  }
+
+  /**
+   * 🔡 Condición LIKE con la cláusula ESCAPE '\' para un patrón de containsPattern
+   *
+   * @param {string} expression - Columna o expresión SQL (ej: 'LOWER(user.location)')
+   * @param {string} parameter - Nombre del parámetro con el patrón
+   * @returns {string} Condición para andWhere/orWhere
+   *
+   * @example
+   * queryBuilder.andWhere(queryFiltersService.likeCondition('LOWER(user.location)', 'location'), { location: queryFiltersService.containsPattern('madrid') });
+   */
+  likeCondition(expression: string, parameter: string): string {
+    // MySQL/MariaDB interpretan la barra invertida dentro de los literales: se escribe doble
+    const escapeCharacter = ['mysql', 'mariadb'].includes(this.dataSource.options.type) ? "'\\\\'" : "'\\'";
+    return `${expression} LIKE :${parameter} ESCAPE ${escapeCharacter}`;
+  }
+
+  /**
+   * 🔡 Operador "contiene" para las condiciones de find (en lugar de Like(`%${text}%`))
+   *
+   * @param {string} parameter - Nombre del parámetro (único dentro de la consulta)
+   * @param {string} text - Texto del usuario
+   * @returns {FindOperator<string>} Operador Raw con el patrón escapado
+   *
+   * @example
+   * whereConditions.name = queryFiltersService.likeContains('name', searchDto.name);
+   */
+  likeContains(parameter: string, text: string): FindOperator<string> {
+    return Raw((column) => this.likeCondition(column, parameter), { [parameter]: this.containsPattern(text) }) as FindOperator<string>;
+  }
+}
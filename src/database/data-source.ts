@@ -0,0 +1,20 @@
+import { existsSync } from 'fs';
+import { DataSource } from 'typeorm';
+import { buildDataSourceOptions } from './database.config';
+
+/**
+ * 🛠️ DataSource para el CLI de TypeORM (generar, ejecutar y revertir migraciones)
+ * Usa la misma configuración que la aplicación, leída del .env
+ * Cada cambio de esquema necesita su migración en cada dialecto (sqlite y postgres)
+ *
+ * @example
+ * npm run migration:generate -- src/database/migrations/sqlite/AddWorkoutTypes
+ * DB_TYPE=postgres DB_DATABASE=nutri_fit_db npm run migration:generate -- src/database/migrations/postgres/AddWorkoutTypes
+ * npm run migration:run
+ * npm run migration:revert
+ */
+if (existsSync('.env')) {
+  process.loadEnvFile('.env');
+}
+
+export default new DataSource(buildDataSourceOptions((key) => process.env[key]));
@@ -0,0 +1,113 @@
+import { existsSync, readdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { DataSourceOptions } from 'typeorm';
+import { UserEntity } from '../users/entities/user.entity';
+import { WorkoutDayEntity } from '../workout-days/entities/workout-day.entity';
+import { WorkoutDayExerciseEntity } from '../workout-days/entities/workout-day-exercise.entity';
+import { ExerciseEntity } from '../exercises/entities/exercise.entity';
+import { WorkoutTypeEntity } from '../workout-types/entities/workout-type.entity';
+import { WorkoutSessionEntity } from '../workout-sessions/entities/workout-session.entity';
+import { WorkoutSessionSetEntity } from '../workout-sessions/entities/workout-session-set.entity';
+import { RefreshTokenEntity } from '../auth/entities/refresh-token.entity';
+import { UserTokenEntity } from '../auth/entities/user-token.entity';
+import { FoodEntity } from '../nutrition/entities/food.entity';
+import { MealLogEntity } from '../nutrition/entities/meal-log.entity';
+import { MealLogItemEntity } from '../nutrition/entities/meal-log-item.entity';
+import { BodyMeasurementEntity } from '../body-measurements/entities/body-measurement.entity';
+import { TrainingProgramEntity } from '../training-programs/entities/training-program.entity';
+import { ProgramWeekEntity } from '../training-programs/entities/program-week.entity';
+import { ProgramEnrollmentEntity } from '../training-programs/entities/program-enrollment.entity';
+import { CoachingRelationshipEntity } from '../coaching/entities/coaching-relationship.entity';
+import { CoachReviewEntity } from '../coaching/entities/coach-review.entity';
+
+/**
+ * 🗂️ Todas las entities de la aplicación
+ * Las usan AppModule, la DataSource del CLI de migraciones y el test de migraciones
+ */
+export const DATABASE_ENTITIES = [UserEntity, WorkoutDayEntity, RefreshTokenEntity, UserTokenEntity, FoodEntity, MealLogEntity, MealLogItemEntity, BodyMeasurementEntity, ExerciseEntity, WorkoutTypeEntity, WorkoutDayExerciseEntity, WorkoutSessionEntity, WorkoutSessionSetEntity, TrainingProgramEntity, ProgramWeekEntity, ProgramEnrollmentEntity, CoachingRelationshipEntity, CoachReviewEntity];
+
+/**
+ * 📁 Patrón de los archivos de migración del tipo de base de datos
+ * Las migraciones dependen del dialecto SQL, por eso hay una carpeta por tipo
+ * (migrations/sqlite, migrations/postgres, ...). Con ts-node se cargan los .ts
+ * y desde dist los .js compilados (nunca los .d.ts)
+ */
+export function getMigrationsGlob(dbType: string): string {
+  const extension = __filename.endsWith('.ts') ? 'ts' : 'js';
+  return join(__dirname, 'migrations', dbType, `*.${extension}`);
+}
+
+/**
+ * 🧱 Verificar que existen migraciones para el tipo de base de datos configurado
+ *
+ * Sin migraciones para el dialecto (hay migrations/sqlite y migrations/postgres)
+ * la base de datos arrancaría sin tablas, así que la aplicación no arranca. Con
+ * DB_SYNCHRONIZE=true el esquema sale de las entities y no hacen falta.
+ *
+ * @param {DataSourceOptions} options - Opciones construidas con buildDataSourceOptions
+ * @throws {Error} Si no hay ningún archivo de migración para options.type
+ *
+ * @example
+ * assertMigrationsAvailable(buildDataSourceOptions((key) => configService.get<string>(key)));
+ */
+export function assertMigrationsAvailable(options: DataSourceOptions): void {
+  if (options.synchronize) {
+    return;
+  }
+
+  const migrationsGlob = getMigrationsGlob(options.type);
+  const migrationsDir = dirname(migrationsGlob);
+  const extension = migrationsGlob.slice(migrationsGlob.lastIndexOf('.'));
+  const hasMigrations = existsSync(migrationsDir) && readdirSync(migrationsDir).some((file) => file.endsWith(extension) && !file.endsWith('.d.ts'));
+
+  if (!hasMigrations) {
+    throw new Error(`❌ No hay migraciones para DB_TYPE=${options.type} en ${migrationsDir}. Genéralas con "npm run migration:generate -- src/database/migrations/${options.type}/InitialSchema" sobre una base de datos vacía o usa DB_SYNCHRONIZE=true solo en desarrollo`);
+  }
+}
+
+/**
+ * 🗄️ Construir las opciones de TypeORM a partir de las variables de entorno
+ *
+ * - DB_TYPE: sqlite (default), postgres, mysql o mariadb
+ * - DB_SYNCHRONIZE: crea/modifica tablas desde las entities (⚠️ solo desarrollo)
+ * - DB_MIGRATIONS_RUN: ejecuta las migraciones pendientes al arrancar
+ * - DB_LOGGING: muestra las consultas SQL
+ *
+ * @param {(key: string) => string | undefined} getEnv - Lectura de variables (ConfigService o process.env)
+ * @returns {DataSourceOptions} Opciones para TypeOrmModule o para una DataSource
+ *
+ * @example
+ * const options = buildDataSourceOptions((key) => configService.get<string>(key));
+ */
+export function buildDataSourceOptions(getEnv: (key: string) => string | undefined): DataSourceOptions {
+  const dbType = getEnv('DB_TYPE') || 'sqlite';
+
+  const baseConfig = {
+    synchronize: getEnv('DB_SYNCHRONIZE') === 'true',
+    migrationsRun: getEnv('DB_MIGRATIONS_RUN') === 'true',
+    logging: getEnv('DB_LOGGING') === 'true',
+    entities: DATABASE_ENTITIES,
+    migrations: [getMigrationsGlob(dbType)],
+    migrationsTableName: 'migrations',
+  };
+
+  // Para SQLite solo necesitamos el archivo de base de datos
+  if (dbType === 'sqlite') {
+    return {
+      type: 'sqlite',
+      database: getEnv('DB_DATABASE') || './nutri-fit.db',
+      ...baseConfig,
+    };
+  }
+
+  // Para otras BD (PostgreSQL, MySQL, MariaDB) necesitamos conexión de red
+  return {
+    type: dbType as 'postgres' | 'mysql' | 'mariadb',
+    host: getEnv('DB_HOST') || 'localhost',
+    port: parseInt(getEnv('DB_PORT') as string),
+    username: getEnv('DB_USERNAME'),
+    password: getEnv('DB_PASSWORD'),
+    database: getEnv('DB_DATABASE'),
+    ...baseConfig,
+  } as DataSourceOptions;
+}
@@ -0,0 +1,65 @@
+import { DataSource } from 'typeorm';
+import { buildDataSourceOptions } from './database.config';
+
+/**
+ * 🗄️ Dialectos en los que se comprueban las migraciones
+ *
+ * SQLite en memoria siempre. Con TEST_DB_TYPE=postgres (o mysql/mariadb) y
+ * las variables TEST_DB_HOST, TEST_DB_PORT, TEST_DB_USERNAME, TEST_DB_PASSWORD
+ * y TEST_DB_DATABASE también contra ese servidor. ⚠️ El test borra todas las
+ * tablas de esa base de datos: usa una base de datos solo para tests.
+ */
+const DIALECTS: [string, (key: string) => string | undefined][] = [['sqlite', (key) => ({ DB_TYPE: 'sqlite', DB_DATABASE: ':memory:' })[key]]];
+if (process.env.TEST_DB_TYPE && process.env.TEST_DB_TYPE !== 'sqlite') {
+  DIALECTS.push([process.env.TEST_DB_TYPE, (key) => process.env[`TEST_${key}`]]);
+}
+
+/**
+ * 🔎 Las migraciones de cada dialecto reproducen el esquema de las entities
+ *
+ * Ejecuta todas las migraciones sobre una base de datos vacía y compara
+ * el resultado con las entities: si TypeORM necesitaría alguna consulta para
+ * sincronizar, falta una migración (npm run migration:generate). Después
+ * revierte todas para comprobar que los down() dejan la base de datos vacía.
+ */
+describe.each(DIALECTS)('Migraciones (%s)', (_dbType, getEnv) => {
+  let dataSource: DataSource;
+
+  beforeEach(async () => {
+    dataSource = new DataSource(buildDataSourceOptions(getEnv));
+    await dataSource.initialize();
+    await dataSource.dropDatabase(); // Restos de una ejecución anterior en un servidor de tests
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  it('dejan el esquema igual que las entities', async () => {
+    const executed = await dataSource.runMigrations({ transaction: 'all' });
+    expect(executed.length).toBeGreaterThan(0);
+
+    const sqlInMemory = await dataSource.driver.createSchemaBuilder().log();
+    expect(sqlInMemory.upQueries.map((query) => query.query)).toEqual([]);
+  });
+
+  it('se revierten todas sin dejar tablas', async () => {
+    const executed = await dataSource.runMigrations({ transaction: 'all' });
+
+    for (let i = 0; i < executed.length; i++) {
+      await dataSource.undoLastMigration({ transaction: 'all' });
+    }
+
+    const queryRunner = dataSource.createQueryRunner();
+    const remainingTables: string[] = [];
+    for (const { tableName } of dataSource.entityMetadatas) {
+      if (await queryRunner.hasTable(tableName)) {
+        remainingTables.push(tableName);
+      }
+    }
+    await queryRunner.release();
+
+    expect(remainingTables).toEqual([]);
+    expect(await dataSource.showMigrations()).toBe(true); // Todas vuelven a quedar pendientes
+  });
+});
@@ -0,0 +1,96 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class InitialSchema1792435147864 implements MigrationInterface {
+  name = 'InitialSchema1792435147864';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "exercises" ("id" SERIAL NOT NULL, "name" character varying(100) NOT NULL, "description" text, "primaryMuscleGroups" text NOT NULL, "secondaryMuscleGroups" text NOT NULL, "equipment" character varying NOT NULL DEFAULT 'bodyweight', "category" character varying NOT NULL DEFAULT 'Fuerza', "isActive" boolean NOT NULL DEFAULT true, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_c4c46f5fa89a58ba7c2d894e3c3" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "workout_day_exercises" ("id" SERIAL NOT NULL, "position" integer NOT NULL, "sets" integer NOT NULL, "reps" character varying(20) NOT NULL, "targetWeightKg" double precision, "restSeconds" integer, "tempo" character varying(20), "notes" text, "workout_day_id" integer NOT NULL, "exercise_id" integer NOT NULL, CONSTRAINT "PK_ece6174a0de61ada8b01351b146" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "training_programs" ("id" SERIAL NOT NULL, "name" character varying(100) NOT NULL, "description" text, "durationWeeks" integer NOT NULL, "progression" text, "isActive" boolean NOT NULL DEFAULT true, "created_by_id" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_d2f7c8d9677739e09110067656a" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "program_weeks" ("id" SERIAL NOT NULL, "weekNumber" integer NOT NULL, "phaseName" character varying(50), "isDeload" boolean NOT NULL DEFAULT false, "program_id" integer NOT NULL, CONSTRAINT "PK_424d44d0690bd1cb00ed4881fa0" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "workout_types" ("id" SERIAL NOT NULL, "code" character varying(30) NOT NULL, "labels" text NOT NULL, "icon" character varying(16), "defaultMet" double precision NOT NULL, "isActive" boolean NOT NULL DEFAULT true, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_60ef8abe2285b8d659447e4d834" UNIQUE ("code"), CONSTRAINT "PK_03106985514033e6879bdb1a5ac" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "workout_days" ("id" SERIAL NOT NULL, "name" character varying(100) NOT NULL, "description" text, "dayOfWeek" integer NOT NULL, "startTime" character varying(5), "slotOrder" integer NOT NULL DEFAULT '1', "durationMinutes" integer NOT NULL, "intensityLevel" integer NOT NULL DEFAULT '3', "workout_type_id" integer NOT NULL, "isActive" boolean NOT NULL DEFAULT true, "user_id" integer NOT NULL, "program_week_id" integer, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_bc5724d5cb04625732f1bab0965" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "users" ("id" SERIAL NOT NULL, "name" character varying(100) NOT NULL, "email" character varying(255) NOT NULL, "password" character varying(255), "role" character varying NOT NULL DEFAULT 'user', "avatar" character varying(500), "status" character varying NOT NULL DEFAULT 'active', "bio" text, "phone" character varying(20), "location" character varying(255), "specialties" text, "acceptingNewClients" boolean NOT NULL DEFAULT true, "stats" text, "sex" character varying, "birthDate" date, "heightCm" double precision, "weightKg" double precision, "goalWeightKg" double precision, "activityLevel" character varying, "goal" character varying, "timezone" character varying(64) NOT NULL DEFAULT 'UTC', "locale" character varying, "nutritionTargetsOverride" text, "calendarFeedTokenHash" character varying(64), "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"), CONSTRAINT "UQ_95c60a72986c383af679b3116b4" UNIQUE ("calendarFeedTokenHash"), CONSTRAINT "PK_a3ffb1c0c8416b9fc6f907b7433" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "workout_session_sets" ("id" SERIAL NOT NULL, "setNumber" integer NOT NULL, "reps" integer NOT NULL, "weightKg" double precision, "session_id" integer NOT NULL, "exercise_id" integer NOT NULL, CONSTRAINT "PK_f966ab2413dde648edbf8031eb9" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "workout_sessions" ("id" SERIAL NOT NULL, "sessionDate" date NOT NULL, "startedAt" TIMESTAMP NOT NULL, "endedAt" TIMESTAMP, "status" character varying NOT NULL DEFAULT 'in_progress', "perceivedExertion" integer, "caloriesBurned" integer, "notes" text, "isActive" boolean NOT NULL DEFAULT true, "workout_day_id" integer NOT NULL, "user_id" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_eea00e05dc78d40b55a588c9f57" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "refresh_tokens" ("id" SERIAL NOT NULL, "tokenHash" character varying(64) NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "revokedAt" TIMESTAMP, "user_id" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_c25bc63d248ca90e8dcc1d92d06" UNIQUE ("tokenHash"), CONSTRAINT "PK_7d8bee0204106019488c4c50ffa" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "user_tokens" ("id" SERIAL NOT NULL, "type" character varying NOT NULL, "tokenHash" character varying(64) NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "usedAt" TIMESTAMP, "user_id" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_b848ddeb21c22ecee6a867e9aea" UNIQUE ("tokenHash"), CONSTRAINT "PK_63764db9d9aaa4af33e07b2f4bf" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "foods" ("id" SERIAL NOT NULL, "name" character varying(100) NOT NULL, "brand" character varying(100), "servingSize" double precision NOT NULL, "servingUnit" character varying(20) NOT NULL DEFAULT 'g', "calories" double precision NOT NULL, "protein" double precision NOT NULL DEFAULT '0', "carbs" double precision NOT NULL DEFAULT '0', "fat" double precision NOT NULL DEFAULT '0', "fiber" double precision NOT NULL DEFAULT '0', "sodium" double precision NOT NULL DEFAULT '0', "isActive" boolean NOT NULL DEFAULT true, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_0cc83421325632f61fa27a52b59" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "meal_log_items" ("id" SERIAL NOT NULL, "quantity" double precision NOT NULL, "meal_log_id" integer NOT NULL, "food_id" integer NOT NULL, CONSTRAINT "PK_0203e48baefa7425ec8b3800a2c" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "meal_logs" ("id" SERIAL NOT NULL, "date" date NOT NULL, "mealType" character varying NOT NULL, "notes" text, "isActive" boolean NOT NULL DEFAULT true, "user_id" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_ce7e6e4887e80f6a12f0f6a166a" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "body_measurements" ("id" SERIAL NOT NULL, "measuredOn" date NOT NULL, "weightKg" double precision, "bodyFatPercent" double precision, "waistCm" double precision, "hipCm" double precision, "chestCm" double precision, "armCm" double precision, "thighCm" double precision, "notes" text, "isActive" boolean NOT NULL DEFAULT true, "user_id" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_474282e620ea0cd4fe5d8cbce0f" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "program_enrollments" ("id" SERIAL NOT NULL, "startDate" date NOT NULL, "isActive" boolean NOT NULL DEFAULT true, "program_id" integer NOT NULL, "user_id" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_d5211d93e12bc3e226035bbcad0" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "coaching_relationships" ("id" SERIAL NOT NULL, "type" character varying NOT NULL, "status" character varying NOT NULL DEFAULT 'pending', "message" text, "startedAt" TIMESTAMP, "endedAt" TIMESTAMP, "coach_id" integer NOT NULL, "client_id" integer NOT NULL, "invited_by_id" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_c8444fdbc46654a25f6391455f4" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE "coach_reviews" ("id" SERIAL NOT NULL, "rating" integer NOT NULL, "comment" text, "relationship_id" integer NOT NULL, "coach_id" integer NOT NULL, "client_id" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_025f3f9ce703e6bfb29d76bcfde" UNIQUE ("relationship_id"), CONSTRAINT "PK_3c7928573ae78d27cd795cd0d6f" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`ALTER TABLE "workout_day_exercises" ADD CONSTRAINT "FK_3d7357d5664f4fae9f0ce149ff2" FOREIGN KEY ("workout_day_id") REFERENCES "workout_days"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "workout_day_exercises" ADD CONSTRAINT "FK_55acf83c97d9abf73969d00a3f3" FOREIGN KEY ("exercise_id") REFERENCES "exercises"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "training_programs" ADD CONSTRAINT "FK_443be936e101665d6137201342b" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "program_weeks" ADD CONSTRAINT "FK_ad1600c94ba25092d0363468bc2" FOREIGN KEY ("program_id") REFERENCES "training_programs"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "workout_days" ADD CONSTRAINT "FK_83552a16827589abb1cde4bd973" FOREIGN KEY ("workout_type_id") REFERENCES "workout_types"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "workout_days" ADD CONSTRAINT "FK_33c33cdc37139fe8691bb1bac70" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "workout_days" ADD CONSTRAINT "FK_cd5b4efbb399889eab10d8da981" FOREIGN KEY ("program_week_id") REFERENCES "program_weeks"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "workout_session_sets" ADD CONSTRAINT "FK_2c7d61fdff3ef4cbb360d81a4ec" FOREIGN KEY ("session_id") REFERENCES "workout_sessions"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "workout_session_sets" ADD CONSTRAINT "FK_8567cfa3c6cf6e26bb12dfe6826" FOREIGN KEY ("exercise_id") REFERENCES "exercises"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "workout_sessions" ADD CONSTRAINT "FK_1cf31319a72d796509adc9ef5a6" FOREIGN KEY ("workout_day_id") REFERENCES "workout_days"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "workout_sessions" ADD CONSTRAINT "FK_3a1ec9260afc530837db15579a5" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "refresh_tokens" ADD CONSTRAINT "FK_3ddc983c5f7bcf132fd8732c3f4" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "user_tokens" ADD CONSTRAINT "FK_9e144a67be49e5bba91195ef5de" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "meal_log_items" ADD CONSTRAINT "FK_427a44f87a5b384711842c48070" FOREIGN KEY ("meal_log_id") REFERENCES "meal_logs"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "meal_log_items" ADD CONSTRAINT "FK_ebbf170e505a4b985ce03df9bee" FOREIGN KEY ("food_id") REFERENCES "foods"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "meal_logs" ADD CONSTRAINT "FK_adb226d72e273cda3b02a80dcaa" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "body_measurements" ADD CONSTRAINT "FK_60c6f60b730f556932709f6b0b7" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "program_enrollments" ADD CONSTRAINT "FK_63300519dda97334e9f4fde6ea9" FOREIGN KEY ("program_id") REFERENCES "training_programs"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "program_enrollments" ADD CONSTRAINT "FK_3749965e4625634bce0efc859f5" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "coaching_relationships" ADD CONSTRAINT "FK_a60c35161802f8948cb6bcb51b5" FOREIGN KEY ("coach_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "coaching_relationships" ADD CONSTRAINT "FK_d97c506958d005fa47cc590d534" FOREIGN KEY ("client_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "coach_reviews" ADD CONSTRAINT "FK_025f3f9ce703e6bfb29d76bcfde" FOREIGN KEY ("relationship_id") REFERENCES "coaching_relationships"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "coach_reviews" ADD CONSTRAINT "FK_6bd64e88ab2b6fc21cada1559d3" FOREIGN KEY ("coach_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`ALTER TABLE "coach_reviews" ADD CONSTRAINT "FK_3f108c4641294db8c0257dc8cb6" FOREIGN KEY ("client_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`INSERT INTO "workout_types" ("code", "labels", "icon", "defaultMet") VALUES ('strength', '{"es":"Fuerza","en":"Strength"}', '🏋️', 5), ('cardio', '{"es":"Cardio","en":"Cardio"}', '🏃', 7), ('flexibility', '{"es":"Flexibilidad","en":"Flexibility"}', '🧘', 2.5), ('functional', '{"es":"Funcional","en":"Functional"}', '🤸', 6), ('mixed', '{"es":"Mixto","en":"Mixed"}', '🔀', 5.5)`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "coach_reviews" DROP CONSTRAINT "FK_3f108c4641294db8c0257dc8cb6"`);
+    await queryRunner.query(`ALTER TABLE "coach_reviews" DROP CONSTRAINT "FK_6bd64e88ab2b6fc21cada1559d3"`);
+    await queryRunner.query(`ALTER TABLE "coach_reviews" DROP CONSTRAINT "FK_025f3f9ce703e6bfb29d76bcfde"`);
+    await queryRunner.query(`ALTER TABLE "coaching_relationships" DROP CONSTRAINT "FK_d97c506958d005fa47cc590d534"`);
+    await queryRunner.query(`ALTER TABLE "coaching_relationships" DROP CONSTRAINT "FK_a60c35161802f8948cb6bcb51b5"`);
+    await queryRunner.query(`ALTER TABLE "program_enrollments" DROP CONSTRAINT "FK_3749965e4625634bce0efc859f5"`);
+    await queryRunner.query(`ALTER TABLE "program_enrollments" DROP CONSTRAINT "FK_63300519dda97334e9f4fde6ea9"`);
+    await queryRunner.query(`ALTER TABLE "body_measurements" DROP CONSTRAINT "FK_60c6f60b730f556932709f6b0b7"`);
+    await queryRunner.query(`ALTER TABLE "meal_logs" DROP CONSTRAINT "FK_adb226d72e273cda3b02a80dcaa"`);
+    await queryRunner.query(`ALTER TABLE "meal_log_items" DROP CONSTRAINT "FK_ebbf170e505a4b985ce03df9bee"`);
+    await queryRunner.query(`ALTER TABLE "meal_log_items" DROP CONSTRAINT "FK_427a44f87a5b384711842c48070"`);
+    await queryRunner.query(`ALTER TABLE "user_tokens" DROP CONSTRAINT "FK_9e144a67be49e5bba91195ef5de"`);
+    await queryRunner.query(`ALTER TABLE "refresh_tokens" DROP CONSTRAINT "FK_3ddc983c5f7bcf132fd8732c3f4"`);
+    await queryRunner.query(`ALTER TABLE "workout_sessions" DROP CONSTRAINT "FK_3a1ec9260afc530837db15579a5"`);
+    await queryRunner.query(`ALTER TABLE "workout_sessions" DROP CONSTRAINT "FK_1cf31319a72d796509adc9ef5a6"`);
+    await queryRunner.query(`ALTER TABLE "workout_session_sets" DROP CONSTRAINT "FK_8567cfa3c6cf6e26bb12dfe6826"`);
+    await queryRunner.query(`ALTER TABLE "workout_session_sets" DROP CONSTRAINT "FK_2c7d61fdff3ef4cbb360d81a4ec"`);
+    await queryRunner.query(`ALTER TABLE "workout_days" DROP CONSTRAINT "FK_cd5b4efbb399889eab10d8da981"`);
+    await queryRunner.query(`ALTER TABLE "workout_days" DROP CONSTRAINT "FK_33c33cdc37139fe8691bb1bac70"`);
+    await queryRunner.query(`ALTER TABLE "workout_days" DROP CONSTRAINT "FK_83552a16827589abb1cde4bd973"`);
+    await queryRunner.query(`ALTER TABLE "program_weeks" DROP CONSTRAINT "FK_ad1600c94ba25092d0363468bc2"`);
+    await queryRunner.query(`ALTER TABLE "training_programs" DROP CONSTRAINT "FK_443be936e101665d6137201342b"`);
+    await queryRunner.query(`ALTER TABLE "workout_day_exercises" DROP CONSTRAINT "FK_55acf83c97d9abf73969d00a3f3"`);
+    await queryRunner.query(`ALTER TABLE "workout_day_exercises" DROP CONSTRAINT "FK_3d7357d5664f4fae9f0ce149ff2"`);
+    await queryRunner.query(`DROP TABLE "coach_reviews"`);
+    await queryRunner.query(`DROP TABLE "coaching_relationships"`);
+    await queryRunner.query(`DROP TABLE "program_enrollments"`);
+    await queryRunner.query(`DROP TABLE "body_measurements"`);
+    await queryRunner.query(`DROP TABLE "meal_logs"`);
+    await queryRunner.query(`DROP TABLE "meal_log_items"`);
+    await queryRunner.query(`DROP TABLE "foods"`);
+    await queryRunner.query(`DROP TABLE "user_tokens"`);
+    await queryRunner.query(`DROP TABLE "refresh_tokens"`);
+    await queryRunner.query(`DROP TABLE "workout_sessions"`);
+    await queryRunner.query(`DROP TABLE "workout_session_sets"`);
+    await queryRunner.query(`DROP TABLE "users"`);
+    await queryRunner.query(`DROP TABLE "workout_days"`);
+    await queryRunner.query(`DROP TABLE "workout_types"`);
+    await queryRunner.query(`DROP TABLE "program_weeks"`);
+    await queryRunner.query(`DROP TABLE "training_programs"`);
+    await queryRunner.query(`DROP TABLE "workout_day_exercises"`);
+    await queryRunner.query(`DROP TABLE "exercises"`);
+  }
+}
@@ -0,0 +1,157 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class InitialSchema1792428629583 implements MigrationInterface {
+  name = 'InitialSchema1792428629583';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "exercises" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "description" text, "primaryMuscleGroups" text NOT NULL, "secondaryMuscleGroups" text NOT NULL, "equipment" varchar CHECK( "equipment" IN ('bodyweight','barbell','dumbbell','kettlebell','machine','cable','band','cardio_machine','other') ) NOT NULL DEFAULT ('bodyweight'), "category" varchar CHECK( "category" IN ('Fuerza','Cardio','Flexibilidad','Funcional','Mixto') ) NOT NULL DEFAULT ('Fuerza'), "isActive" boolean NOT NULL DEFAULT (1), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "workout_day_exercises" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "position" integer NOT NULL, "sets" integer NOT NULL, "reps" varchar(20) NOT NULL, "targetWeightKg" float, "restSeconds" integer, "tempo" varchar(20), "notes" text, "workout_day_id" integer NOT NULL, "exercise_id" integer NOT NULL)`);
+    await queryRunner.query(`CREATE TABLE "training_programs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "description" text, "durationWeeks" integer NOT NULL, "progression" text, "isActive" boolean NOT NULL DEFAULT (1), "created_by_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "program_weeks" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "weekNumber" integer NOT NULL, "phaseName" varchar(50), "isDeload" boolean NOT NULL DEFAULT (0), "program_id" integer NOT NULL)`);
+    await queryRunner.query(`CREATE TABLE "workout_days" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "description" text, "dayOfWeek" integer NOT NULL, "startTime" varchar(5), "slotOrder" integer NOT NULL DEFAULT (1), "durationMinutes" integer NOT NULL, "intensityLevel" integer NOT NULL DEFAULT (3), "workoutType" varchar(50) NOT NULL DEFAULT ('Fuerza'), "isActive" boolean NOT NULL DEFAULT (1), "user_id" integer NOT NULL, "program_week_id" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "email" varchar(255) NOT NULL, "password" varchar(255), "role" varchar CHECK( "role" IN ('admin','trainer','nutritionist','user','guest') ) NOT NULL DEFAULT ('user'), "avatar" varchar(500), "status" varchar CHECK( "status" IN ('active','inactive','pending','suspended','banned') ) NOT NULL DEFAULT ('active'), "bio" text, "phone" varchar(20), "location" varchar(255), "specialties" text, "acceptingNewClients" boolean NOT NULL DEFAULT (1), "stats" text, "sex" varchar CHECK( "sex" IN ('male','female') ), "birthDate" date, "heightCm" float, "weightKg" float, "goalWeightKg" float, "activityLevel" varchar CHECK( "activityLevel" IN ('sedentary','light','moderate','active','very_active') ), "goal" varchar CHECK( "goal" IN ('lose','maintain','gain') ), "timezone" varchar(64) NOT NULL DEFAULT ('UTC'), "nutritionTargetsOverride" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"))`);
+    await queryRunner.query(`CREATE TABLE "workout_session_sets" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "setNumber" integer NOT NULL, "reps" integer NOT NULL, "weightKg" float, "session_id" integer NOT NULL, "exercise_id" integer NOT NULL)`);
+    await queryRunner.query(`CREATE TABLE "workout_sessions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "sessionDate" date NOT NULL, "startedAt" datetime NOT NULL, "endedAt" datetime, "status" varchar CHECK( "status" IN ('in_progress','completed','partial','abandoned') ) NOT NULL DEFAULT ('in_progress'), "perceivedExertion" integer, "caloriesBurned" integer, "notes" text, "isActive" boolean NOT NULL DEFAULT (1), "workout_day_id" integer NOT NULL, "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "refresh_tokens" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "tokenHash" varchar(64) NOT NULL, "expiresAt" datetime NOT NULL, "revokedAt" datetime, "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_c25bc63d248ca90e8dcc1d92d06" UNIQUE ("tokenHash"))`);
+    await queryRunner.query(`CREATE TABLE "user_tokens" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "type" varchar CHECK( "type" IN ('email_verification','password_reset') ) NOT NULL, "tokenHash" varchar(64) NOT NULL, "expiresAt" datetime NOT NULL, "usedAt" datetime, "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_b848ddeb21c22ecee6a867e9aea" UNIQUE ("tokenHash"))`);
+    await queryRunner.query(`CREATE TABLE "foods" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "brand" varchar(100), "servingSize" float NOT NULL, "servingUnit" varchar(20) NOT NULL DEFAULT ('g'), "calories" float NOT NULL, "protein" float NOT NULL DEFAULT (0), "carbs" float NOT NULL DEFAULT (0), "fat" float NOT NULL DEFAULT (0), "fiber" float NOT NULL DEFAULT (0), "sodium" float NOT NULL DEFAULT (0), "isActive" boolean NOT NULL DEFAULT (1), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "meal_log_items" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "quantity" float NOT NULL, "meal_log_id" integer NOT NULL, "food_id" integer NOT NULL)`);
+    await queryRunner.query(`CREATE TABLE "meal_logs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "date" date NOT NULL, "mealType" varchar CHECK( "mealType" IN ('breakfast','lunch','dinner','snack') ) NOT NULL, "notes" text, "isActive" boolean NOT NULL DEFAULT (1), "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "body_measurements" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "measuredOn" date NOT NULL, "weightKg" float, "bodyFatPercent" float, "waistCm" float, "hipCm" float, "chestCm" float, "armCm" float, "thighCm" float, "notes" text, "isActive" boolean NOT NULL DEFAULT (1), "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "program_enrollments" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "startDate" date NOT NULL, "isActive" boolean NOT NULL DEFAULT (1), "program_id" integer NOT NULL, "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "coaching_relationships" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "type" varchar CHECK( "type" IN ('training','nutrition') ) NOT NULL, "status" varchar CHECK( "status" IN ('pending','active','declined','ended') ) NOT NULL DEFAULT ('pending'), "message" text, "startedAt" datetime, "endedAt" datetime, "coach_id" integer NOT NULL, "client_id" integer NOT NULL, "invited_by_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`CREATE TABLE "coach_reviews" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "rating" integer NOT NULL, "comment" text, "relationship_id" integer NOT NULL, "coach_id" integer NOT NULL, "client_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_025f3f9ce703e6bfb29d76bcfde" UNIQUE ("relationship_id"))`);
+    await queryRunner.query(`CREATE TABLE "temporary_workout_day_exercises" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "position" integer NOT NULL, "sets" integer NOT NULL, "reps" varchar(20) NOT NULL, "targetWeightKg" float, "restSeconds" integer, "tempo" varchar(20), "notes" text, "workout_day_id" integer NOT NULL, "exercise_id" integer NOT NULL, CONSTRAINT "FK_3d7357d5664f4fae9f0ce149ff2" FOREIGN KEY ("workout_day_id") REFERENCES "workout_days" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_55acf83c97d9abf73969d00a3f3" FOREIGN KEY ("exercise_id") REFERENCES "exercises" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_workout_day_exercises"("id", "position", "sets", "reps", "targetWeightKg", "restSeconds", "tempo", "notes", "workout_day_id", "exercise_id") SELECT "id", "position", "sets", "reps", "targetWeightKg", "restSeconds", "tempo", "notes", "workout_day_id", "exercise_id" FROM "workout_day_exercises"`);
+    await queryRunner.query(`DROP TABLE "workout_day_exercises"`);
+    await queryRunner.query(`ALTER TABLE "temporary_workout_day_exercises" RENAME TO "workout_day_exercises"`);
+    await queryRunner.query(`CREATE TABLE "temporary_training_programs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "description" text, "durationWeeks" integer NOT NULL, "progression" text, "isActive" boolean NOT NULL DEFAULT (1), "created_by_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_443be936e101665d6137201342b" FOREIGN KEY ("created_by_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_training_programs"("id", "name", "description", "durationWeeks", "progression", "isActive", "created_by_id", "createdAt", "updatedAt") SELECT "id", "name", "description", "durationWeeks", "progression", "isActive", "created_by_id", "createdAt", "updatedAt" FROM "training_programs"`);
+    await queryRunner.query(`DROP TABLE "training_programs"`);
+    await queryRunner.query(`ALTER TABLE "temporary_training_programs" RENAME TO "training_programs"`);
+    await queryRunner.query(`CREATE TABLE "temporary_program_weeks" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "weekNumber" integer NOT NULL, "phaseName" varchar(50), "isDeload" boolean NOT NULL DEFAULT (0), "program_id" integer NOT NULL, CONSTRAINT "FK_ad1600c94ba25092d0363468bc2" FOREIGN KEY ("program_id") REFERENCES "training_programs" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_program_weeks"("id", "weekNumber", "phaseName", "isDeload", "program_id") SELECT "id", "weekNumber", "phaseName", "isDeload", "program_id" FROM "program_weeks"`);
+    await queryRunner.query(`DROP TABLE "program_weeks"`);
+    await queryRunner.query(`ALTER TABLE "temporary_program_weeks" RENAME TO "program_weeks"`);
+    await queryRunner.query(`CREATE TABLE "temporary_workout_days" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "description" text, "dayOfWeek" integer NOT NULL, "startTime" varchar(5), "slotOrder" integer NOT NULL DEFAULT (1), "durationMinutes" integer NOT NULL, "intensityLevel" integer NOT NULL DEFAULT (3), "workoutType" varchar(50) NOT NULL DEFAULT ('Fuerza'), "isActive" boolean NOT NULL DEFAULT (1), "user_id" integer NOT NULL, "program_week_id" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_33c33cdc37139fe8691bb1bac70" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_cd5b4efbb399889eab10d8da981" FOREIGN KEY ("program_week_id") REFERENCES "program_weeks" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_workout_days"("id", "name", "description", "dayOfWeek", "startTime", "slotOrder", "durationMinutes", "intensityLevel", "workoutType", "isActive", "user_id", "program_week_id", "createdAt", "updatedAt") SELECT "id", "name", "description", "dayOfWeek", "startTime", "slotOrder", "durationMinutes", "intensityLevel", "workoutType", "isActive", "user_id", "program_week_id", "createdAt", "updatedAt" FROM "workout_days"`);
+    await queryRunner.query(`DROP TABLE "workout_days"`);
+    await queryRunner.query(`ALTER TABLE "temporary_workout_days" RENAME TO "workout_days"`);
+    await queryRunner.query(`CREATE TABLE "temporary_workout_session_sets" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "setNumber" integer NOT NULL, "reps" integer NOT NULL, "weightKg" float, "session_id" integer NOT NULL, "exercise_id" integer NOT NULL, CONSTRAINT "FK_2c7d61fdff3ef4cbb360d81a4ec" FOREIGN KEY ("session_id") REFERENCES "workout_sessions" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_8567cfa3c6cf6e26bb12dfe6826" FOREIGN KEY ("exercise_id") REFERENCES "exercises" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_workout_session_sets"("id", "setNumber", "reps", "weightKg", "session_id", "exercise_id") SELECT "id", "setNumber", "reps", "weightKg", "session_id", "exercise_id" FROM "workout_session_sets"`);
+    await queryRunner.query(`DROP TABLE "workout_session_sets"`);
+    await queryRunner.query(`ALTER TABLE "temporary_workout_session_sets" RENAME TO "workout_session_sets"`);
+    await queryRunner.query(`CREATE TABLE "temporary_workout_sessions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "sessionDate" date NOT NULL, "startedAt" datetime NOT NULL, "endedAt" datetime, "status" varchar CHECK( "status" IN ('in_progress','completed','partial','abandoned') ) NOT NULL DEFAULT ('in_progress'), "perceivedExertion" integer, "caloriesBurned" integer, "notes" text, "isActive" boolean NOT NULL DEFAULT (1), "workout_day_id" integer NOT NULL, "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_1cf31319a72d796509adc9ef5a6" FOREIGN KEY ("workout_day_id") REFERENCES "workout_days" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_3a1ec9260afc530837db15579a5" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_workout_sessions"("id", "sessionDate", "startedAt", "endedAt", "status", "perceivedExertion", "caloriesBurned", "notes", "isActive", "workout_day_id", "user_id", "createdAt", "updatedAt") SELECT "id", "sessionDate", "startedAt", "endedAt", "status", "perceivedExertion", "caloriesBurned", "notes", "isActive", "workout_day_id", "user_id", "createdAt", "updatedAt" FROM "workout_sessions"`);
+    await queryRunner.query(`DROP TABLE "workout_sessions"`);
+    await queryRunner.query(`ALTER TABLE "temporary_workout_sessions" RENAME TO "workout_sessions"`);
+    await queryRunner.query(`CREATE TABLE "temporary_refresh_tokens" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "tokenHash" varchar(64) NOT NULL, "expiresAt" datetime NOT NULL, "revokedAt" datetime, "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_c25bc63d248ca90e8dcc1d92d06" UNIQUE ("tokenHash"), CONSTRAINT "FK_3ddc983c5f7bcf132fd8732c3f4" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_refresh_tokens"("id", "tokenHash", "expiresAt", "revokedAt", "user_id", "createdAt") SELECT "id", "tokenHash", "expiresAt", "revokedAt", "user_id", "createdAt" FROM "refresh_tokens"`);
+    await queryRunner.query(`DROP TABLE "refresh_tokens"`);
+    await queryRunner.query(`ALTER TABLE "temporary_refresh_tokens" RENAME TO "refresh_tokens"`);
+    await queryRunner.query(`CREATE TABLE "temporary_user_tokens" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "type" varchar CHECK( "type" IN ('email_verification','password_reset') ) NOT NULL, "tokenHash" varchar(64) NOT NULL, "expiresAt" datetime NOT NULL, "usedAt" datetime, "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_b848ddeb21c22ecee6a867e9aea" UNIQUE ("tokenHash"), CONSTRAINT "FK_9e144a67be49e5bba91195ef5de" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_user_tokens"("id", "type", "tokenHash", "expiresAt", "usedAt", "user_id", "createdAt") SELECT "id", "type", "tokenHash", "expiresAt", "usedAt", "user_id", "createdAt" FROM "user_tokens"`);
+    await queryRunner.query(`DROP TABLE "user_tokens"`);
+    await queryRunner.query(`ALTER TABLE "temporary_user_tokens" RENAME TO "user_tokens"`);
+    await queryRunner.query(`CREATE TABLE "temporary_meal_log_items" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "quantity" float NOT NULL, "meal_log_id" integer NOT NULL, "food_id" integer NOT NULL, CONSTRAINT "FK_427a44f87a5b384711842c48070" FOREIGN KEY ("meal_log_id") REFERENCES "meal_logs" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_ebbf170e505a4b985ce03df9bee" FOREIGN KEY ("food_id") REFERENCES "foods" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_meal_log_items"("id", "quantity", "meal_log_id", "food_id") SELECT "id", "quantity", "meal_log_id", "food_id" FROM "meal_log_items"`);
+    await queryRunner.query(`DROP TABLE "meal_log_items"`);
+    await queryRunner.query(`ALTER TABLE "temporary_meal_log_items" RENAME TO "meal_log_items"`);
+    await queryRunner.query(`CREATE TABLE "temporary_meal_logs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "date" date NOT NULL, "mealType" varchar CHECK( "mealType" IN ('breakfast','lunch','dinner','snack') ) NOT NULL, "notes" text, "isActive" boolean NOT NULL DEFAULT (1), "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_adb226d72e273cda3b02a80dcaa" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_meal_logs"("id", "date", "mealType", "notes", "isActive", "user_id", "createdAt", "updatedAt") SELECT "id", "date", "mealType", "notes", "isActive", "user_id", "createdAt", "updatedAt" FROM "meal_logs"`);
+    await queryRunner.query(`DROP TABLE "meal_logs"`);
+    await queryRunner.query(`ALTER TABLE "temporary_meal_logs" RENAME TO "meal_logs"`);
+    await queryRunner.query(`CREATE TABLE "temporary_body_measurements" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "measuredOn" date NOT NULL, "weightKg" float, "bodyFatPercent" float, "waistCm" float, "hipCm" float, "chestCm" float, "armCm" float, "thighCm" float, "notes" text, "isActive" boolean NOT NULL DEFAULT (1), "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_60c6f60b730f556932709f6b0b7" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_body_measurements"("id", "measuredOn", "weightKg", "bodyFatPercent", "waistCm", "hipCm", "chestCm", "armCm", "thighCm", "notes", "isActive", "user_id", "createdAt", "updatedAt") SELECT "id", "measuredOn", "weightKg", "bodyFatPercent", "waistCm", "hipCm", "chestCm", "armCm", "thighCm", "notes", "isActive", "user_id", "createdAt", "updatedAt" FROM "body_measurements"`);
+    await queryRunner.query(`DROP TABLE "body_measurements"`);
+    await queryRunner.query(`ALTER TABLE "temporary_body_measurements" RENAME TO "body_measurements"`);
+    await queryRunner.query(`CREATE TABLE "temporary_program_enrollments" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "startDate" date NOT NULL, "isActive" boolean NOT NULL DEFAULT (1), "program_id" integer NOT NULL, "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_63300519dda97334e9f4fde6ea9" FOREIGN KEY ("program_id") REFERENCES "training_programs" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_3749965e4625634bce0efc859f5" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_program_enrollments"("id", "startDate", "isActive", "program_id", "user_id", "createdAt", "updatedAt") SELECT "id", "startDate", "isActive", "program_id", "user_id", "createdAt", "updatedAt" FROM "program_enrollments"`);
+    await queryRunner.query(`DROP TABLE "program_enrollments"`);
+    await queryRunner.query(`ALTER TABLE "temporary_program_enrollments" RENAME TO "program_enrollments"`);
+    await queryRunner.query(`CREATE TABLE "temporary_coaching_relationships" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "type" varchar CHECK( "type" IN ('training','nutrition') ) NOT NULL, "status" varchar CHECK( "status" IN ('pending','active','declined','ended') ) NOT NULL DEFAULT ('pending'), "message" text, "startedAt" datetime, "endedAt" datetime, "coach_id" integer NOT NULL, "client_id" integer NOT NULL, "invited_by_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_a60c35161802f8948cb6bcb51b5" FOREIGN KEY ("coach_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_d97c506958d005fa47cc590d534" FOREIGN KEY ("client_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_coaching_relationships"("id", "type", "status", "message", "startedAt", "endedAt", "coach_id", "client_id", "invited_by_id", "createdAt", "updatedAt") SELECT "id", "type", "status", "message", "startedAt", "endedAt", "coach_id", "client_id", "invited_by_id", "createdAt", "updatedAt" FROM "coaching_relationships"`);
+    await queryRunner.query(`DROP TABLE "coaching_relationships"`);
+    await queryRunner.query(`ALTER TABLE "temporary_coaching_relationships" RENAME TO "coaching_relationships"`);
+    await queryRunner.query(`CREATE TABLE "temporary_coach_reviews" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "rating" integer NOT NULL, "comment" text, "relationship_id" integer NOT NULL, "coach_id" integer NOT NULL, "client_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_025f3f9ce703e6bfb29d76bcfde" UNIQUE ("relationship_id"), CONSTRAINT "FK_025f3f9ce703e6bfb29d76bcfde" FOREIGN KEY ("relationship_id") REFERENCES "coaching_relationships" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_6bd64e88ab2b6fc21cada1559d3" FOREIGN KEY ("coach_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_3f108c4641294db8c0257dc8cb6" FOREIGN KEY ("client_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`);
+    await queryRunner.query(`INSERT INTO "temporary_coach_reviews"("id", "rating", "comment", "relationship_id", "coach_id", "client_id", "createdAt", "updatedAt") SELECT "id", "rating", "comment", "relationship_id", "coach_id", "client_id", "createdAt", "updatedAt" FROM "coach_reviews"`);
+    await queryRunner.query(`DROP TABLE "coach_reviews"`);
+    await queryRunner.query(`ALTER TABLE "temporary_coach_reviews" RENAME TO "coach_reviews"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "coach_reviews" RENAME TO "temporary_coach_reviews"`);
+    await queryRunner.query(`CREATE TABLE "coach_reviews" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "rating" integer NOT NULL, "comment" text, "relationship_id" integer NOT NULL, "coach_id" integer NOT NULL, "client_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_025f3f9ce703e6bfb29d76bcfde" UNIQUE ("relationship_id"))`);
+    await queryRunner.query(`INSERT INTO "coach_reviews"("id", "rating", "comment", "relationship_id", "coach_id", "client_id", "createdAt", "updatedAt") SELECT "id", "rating", "comment", "relationship_id", "coach_id", "client_id", "createdAt", "updatedAt" FROM "temporary_coach_reviews"`);
+    await queryRunner.query(`DROP TABLE "temporary_coach_reviews"`);
+    await queryRunner.query(`ALTER TABLE "coaching_relationships" RENAME TO "temporary_coaching_relationships"`);
+    await queryRunner.query(`CREATE TABLE "coaching_relationships" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "type" varchar CHECK( "type" IN ('training','nutrition') ) NOT NULL, "status" varchar CHECK( "status" IN ('pending','active','declined','ended') ) NOT NULL DEFAULT ('pending'), "message" text, "startedAt" datetime, "endedAt" datetime, "coach_id" integer NOT NULL, "client_id" integer NOT NULL, "invited_by_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "coaching_relationships"("id", "type", "status", "message", "startedAt", "endedAt", "coach_id", "client_id", "invited_by_id", "createdAt", "updatedAt") SELECT "id", "type", "status", "message", "startedAt", "endedAt", "coach_id", "client_id", "invited_by_id", "createdAt", "updatedAt" FROM "temporary_coaching_relationships"`);
+    await queryRunner.query(`DROP TABLE "temporary_coaching_relationships"`);
+    await queryRunner.query(`ALTER TABLE "program_enrollments" RENAME TO "temporary_program_enrollments"`);
+    await queryRunner.query(`CREATE TABLE "program_enrollments" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "startDate" date NOT NULL, "isActive" boolean NOT NULL DEFAULT (1), "program_id" integer NOT NULL, "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "program_enrollments"("id", "startDate", "isActive", "program_id", "user_id", "createdAt", "updatedAt") SELECT "id", "startDate", "isActive", "program_id", "user_id", "createdAt", "updatedAt" FROM "temporary_program_enrollments"`);
+    await queryRunner.query(`DROP TABLE "temporary_program_enrollments"`);
+    await queryRunner.query(`ALTER TABLE "body_measurements" RENAME TO "temporary_body_measurements"`);
+    await queryRunner.query(`CREATE TABLE "body_measurements" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "measuredOn" date NOT NULL, "weightKg" float, "bodyFatPercent" float, "waistCm" float, "hipCm" float, "chestCm" float, "armCm" float, "thighCm" float, "notes" text, "isActive" boolean NOT NULL DEFAULT (1), "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "body_measurements"("id", "measuredOn", "weightKg", "bodyFatPercent", "waistCm", "hipCm", "chestCm", "armCm", "thighCm", "notes", "isActive", "user_id", "createdAt", "updatedAt") SELECT "id", "measuredOn", "weightKg", "bodyFatPercent", "waistCm", "hipCm", "chestCm", "armCm", "thighCm", "notes", "isActive", "user_id", "createdAt", "updatedAt" FROM "temporary_body_measurements"`);
+    await queryRunner.query(`DROP TABLE "temporary_body_measurements"`);
+    await queryRunner.query(`ALTER TABLE "meal_logs" RENAME TO "temporary_meal_logs"`);
+    await queryRunner.query(`CREATE TABLE "meal_logs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "date" date NOT NULL, "mealType" varchar CHECK( "mealType" IN ('breakfast','lunch','dinner','snack') ) NOT NULL, "notes" text, "isActive" boolean NOT NULL DEFAULT (1), "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "meal_logs"("id", "date", "mealType", "notes", "isActive", "user_id", "createdAt", "updatedAt") SELECT "id", "date", "mealType", "notes", "isActive", "user_id", "createdAt", "updatedAt" FROM "temporary_meal_logs"`);
+    await queryRunner.query(`DROP TABLE "temporary_meal_logs"`);
+    await queryRunner.query(`ALTER TABLE "meal_log_items" RENAME TO "temporary_meal_log_items"`);
+    await queryRunner.query(`CREATE TABLE "meal_log_items" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "quantity" float NOT NULL, "meal_log_id" integer NOT NULL, "food_id" integer NOT NULL)`);
+    await queryRunner.query(`INSERT INTO "meal_log_items"("id", "quantity", "meal_log_id", "food_id") SELECT "id", "quantity", "meal_log_id", "food_id" FROM "temporary_meal_log_items"`);
+    await queryRunner.query(`DROP TABLE "temporary_meal_log_items"`);
+    await queryRunner.query(`ALTER TABLE "user_tokens" RENAME TO "temporary_user_tokens"`);
+    await queryRunner.query(`CREATE TABLE "user_tokens" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "type" varchar CHECK( "type" IN ('email_verification','password_reset') ) NOT NULL, "tokenHash" varchar(64) NOT NULL, "expiresAt" datetime NOT NULL, "usedAt" datetime, "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_b848ddeb21c22ecee6a867e9aea" UNIQUE ("tokenHash"))`);
+    await queryRunner.query(`INSERT INTO "user_tokens"("id", "type", "tokenHash", "expiresAt", "usedAt", "user_id", "createdAt") SELECT "id", "type", "tokenHash", "expiresAt", "usedAt", "user_id", "createdAt" FROM "temporary_user_tokens"`);
+    await queryRunner.query(`DROP TABLE "temporary_user_tokens"`);
+    await queryRunner.query(`ALTER TABLE "refresh_tokens" RENAME TO "temporary_refresh_tokens"`);
+    await queryRunner.query(`CREATE TABLE "refresh_tokens" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "tokenHash" varchar(64) NOT NULL, "expiresAt" datetime NOT NULL, "revokedAt" datetime, "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_c25bc63d248ca90e8dcc1d92d06" UNIQUE ("tokenHash"))`);
+    await queryRunner.query(`INSERT INTO "refresh_tokens"("id", "tokenHash", "expiresAt", "revokedAt", "user_id", "createdAt") SELECT "id", "tokenHash", "expiresAt", "revokedAt", "user_id", "createdAt" FROM "temporary_refresh_tokens"`);
+    await queryRunner.query(`DROP TABLE "temporary_refresh_tokens"`);
+    await queryRunner.query(`ALTER TABLE "workout_sessions" RENAME TO "temporary_workout_sessions"`);
+    await queryRunner.query(`CREATE TABLE "workout_sessions" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "sessionDate" date NOT NULL, "startedAt" datetime NOT NULL, "endedAt" datetime, "status" varchar CHECK( "status" IN ('in_progress','completed','partial','abandoned') ) NOT NULL DEFAULT ('in_progress'), "perceivedExertion" integer, "caloriesBurned" integer, "notes" text, "isActive" boolean NOT NULL DEFAULT (1), "workout_day_id" integer NOT NULL, "user_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "workout_sessions"("id", "sessionDate", "startedAt", "endedAt", "status", "perceivedExertion", "caloriesBurned", "notes", "isActive", "workout_day_id", "user_id", "createdAt", "updatedAt") SELECT "id", "sessionDate", "startedAt", "endedAt", "status", "perceivedExertion", "caloriesBurned", "notes", "isActive", "workout_day_id", "user_id", "createdAt", "updatedAt" FROM "temporary_workout_sessions"`);
+    await queryRunner.query(`DROP TABLE "temporary_workout_sessions"`);
+    await queryRunner.query(`ALTER TABLE "workout_session_sets" RENAME TO "temporary_workout_session_sets"`);
+    await queryRunner.query(`CREATE TABLE "workout_session_sets" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "setNumber" integer NOT NULL, "reps" integer NOT NULL, "weightKg" float, "session_id" integer NOT NULL, "exercise_id" integer NOT NULL)`);
+    await queryRunner.query(`INSERT INTO "workout_session_sets"("id", "setNumber", "reps", "weightKg", "session_id", "exercise_id") SELECT "id", "setNumber", "reps", "weightKg", "session_id", "exercise_id" FROM "temporary_workout_session_sets"`);
+    await queryRunner.query(`DROP TABLE "temporary_workout_session_sets"`);
+    await queryRunner.query(`ALTER TABLE "workout_days" RENAME TO "temporary_workout_days"`);
+    await queryRunner.query(`CREATE TABLE "workout_days" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "description" text, "dayOfWeek" integer NOT NULL, "startTime" varchar(5), "slotOrder" integer NOT NULL DEFAULT (1), "durationMinutes" integer NOT NULL, "intensityLevel" integer NOT NULL DEFAULT (3), "workoutType" varchar(50) NOT NULL DEFAULT ('Fuerza'), "isActive" boolean NOT NULL DEFAULT (1), "user_id" integer NOT NULL, "program_week_id" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "workout_days"("id", "name", "description", "dayOfWeek", "startTime", "slotOrder", "durationMinutes", "intensityLevel", "workoutType", "isActive", "user_id", "program_week_id", "createdAt", "updatedAt") SELECT "id", "name", "description", "dayOfWeek", "startTime", "slotOrder", "durationMinutes", "intensityLevel", "workoutType", "isActive", "user_id", "program_week_id", "createdAt", "updatedAt" FROM "temporary_workout_days"`);
+    await queryRunner.query(`DROP TABLE "temporary_workout_days"`);
+    await queryRunner.query(`ALTER TABLE "program_weeks" RENAME TO "temporary_program_weeks"`);
+    await queryRunner.query(`CREATE TABLE "program_weeks" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "weekNumber" integer NOT NULL, "phaseName" varchar(50), "isDeload" boolean NOT NULL DEFAULT (0), "program_id" integer NOT NULL)`);
+    await queryRunner.query(`INSERT INTO "program_weeks"("id", "weekNumber", "phaseName", "isDeload", "program_id") SELECT "id", "weekNumber", "phaseName", "isDeload", "program_id" FROM "temporary_program_weeks"`);
+    await queryRunner.query(`DROP TABLE "temporary_program_weeks"`);
+    await queryRunner.query(`ALTER TABLE "training_programs" RENAME TO "temporary_training_programs"`);
+    await queryRunner.query(`CREATE TABLE "training_programs" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "description" text, "durationWeeks" integer NOT NULL, "progression" text, "isActive" boolean NOT NULL DEFAULT (1), "created_by_id" integer NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')))`);
+    await queryRunner.query(`INSERT INTO "training_programs"("id", "name", "description", "durationWeeks", "progression", "isActive", "created_by_id", "createdAt", "updatedAt") SELECT "id", "name", "description", "durationWeeks", "progression", "isActive", "created_by_id", "createdAt", "updatedAt" FROM "temporary_training_programs"`);
+    await queryRunner.query(`DROP TABLE "temporary_training_programs"`);
+    await queryRunner.query(`ALTER TABLE "workout_day_exercises" RENAME TO "temporary_workout_day_exercises"`);
+    await queryRunner.query(`CREATE TABLE "workout_day_exercises" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "position" integer NOT NULL, "sets" integer NOT NULL, "reps" varchar(20) NOT NULL, "targetWeightKg" float, "restSeconds" integer, "tempo" varchar(20), "notes" text, "workout_day_id" integer NOT NULL, "exercise_id" integer NOT NULL)`);
+    await queryRunner.query(`INSERT INTO "workout_day_exercises"("id", "position", "sets", "reps", "targetWeightKg", "restSeconds", "tempo", "notes", "workout_day_id", "exercise_id") SELECT "id", "position", "sets", "reps", "targetWeightKg", "restSeconds", "tempo", "notes", "workout_day_id", "exercise_id" FROM "temporary_workout_day_exercises"`);
+    await queryRunner.query(`DROP TABLE "temporary_workout_day_exercises"`);
+    await queryRunner.query(`DROP TABLE "coach_reviews"`);
+    await queryRunner.query(`DROP TABLE "coaching_relationships"`);
+    await queryRunner.query(`DROP TABLE "program_enrollments"`);
+    await queryRunner.query(`DROP TABLE "body_measurements"`);
+    await queryRunner.query(`DROP TABLE "meal_logs"`);
+    await queryRunner.query(`DROP TABLE "meal_log_items"`);
+    await queryRunner.query(`DROP TABLE "foods"`);
+    await queryRunner.query(`DROP TABLE "user_tokens"`);
+    await queryRunner.query(`DROP TABLE "refresh_tokens"`);
+    await queryRunner.query(`DROP TABLE "workout_sessions"`);
+    await queryRunner.query(`DROP TABLE "workout_session_sets"`);
+    await queryRunner.query(`DROP TABLE "users"`);
+    await queryRunner.query(`DROP TABLE "workout_days"`);
+    await queryRunner.query(`DROP TABLE "program_weeks"`);
+    await queryRunner.query(`DROP TABLE "training_programs"`);
+    await queryRunner.query(`DROP TABLE "workout_day_exercises"`);
+    await queryRunner.query(`DROP TABLE "exercises"`);
+  }
+}
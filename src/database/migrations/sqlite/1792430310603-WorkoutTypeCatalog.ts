@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class WorkoutTypeCatalog1792430310603 implements MigrationInterface {
+  name = 'WorkoutTypeCatalog1792430310603';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "workout_types" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "code" varchar(30) NOT NULL, "labels" text NOT NULL, "icon" varchar(16), "defaultMet" float NOT NULL, "isActive" boolean NOT NULL DEFAULT (1), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_60ef8abe2285b8d659447e4d834" UNIQUE ("code"))`);
+    // 🎯 Tipos base: los valores fijos que se usaban hasta ahora
+    await queryRunner.query(`INSERT INTO "workout_types" ("code", "labels", "icon", "defaultMet") VALUES ('strength', '{"es":"Fuerza","en":"Strength"}', '🏋️', 5), ('cardio', '{"es":"Cardio","en":"Cardio"}', '🏃', 7), ('flexibility', '{"es":"Flexibilidad","en":"Flexibility"}', '🧘', 2.5), ('functional', '{"es":"Funcional","en":"Functional"}', '🤸', 6), ('mixed', '{"es":"Mixto","en":"Mixed"}', '🔀', 5.5)`);
+    await queryRunner.query(`CREATE TABLE "temporary_workout_days" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "description" text, "dayOfWeek" integer NOT NULL, "startTime" varchar(5), "slotOrder" integer NOT NULL DEFAULT (1), "durationMinutes" integer NOT NULL, "intensityLevel" integer NOT NULL DEFAULT (3), "workout_type_id" integer NOT NULL, "isActive" boolean NOT NULL DEFAULT (1), "user_id" integer NOT NULL, "program_week_id" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_cd5b4efbb399889eab10d8da981" FOREIGN KEY ("program_week_id") REFERENCES "program_weeks" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_33c33cdc37139fe8691bb1bac70" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION, CONSTRAINT "FK_83552a16827589abb1cde4bd973" FOREIGN KEY ("workout_type_id") REFERENCES "workout_types" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    // 🔄 Convertir el texto de workoutType en la referencia al tipo (los valores desconocidos pasan a Fuerza)
+    await queryRunner.query(`INSERT INTO "temporary_workout_days"("id", "name", "description", "dayOfWeek", "startTime", "slotOrder", "durationMinutes", "intensityLevel", "workout_type_id", "isActive", "user_id", "program_week_id", "createdAt", "updatedAt") SELECT "workout_days"."id", "workout_days"."name", "workout_days"."description", "workout_days"."dayOfWeek", "workout_days"."startTime", "workout_days"."slotOrder", "workout_days"."durationMinutes", "workout_days"."intensityLevel", COALESCE((SELECT "id" FROM "workout_types" WHERE "code" = CASE "workout_days"."workoutType" WHEN 'Fuerza' THEN 'strength' WHEN 'Cardio' THEN 'cardio' WHEN 'Flexibilidad' THEN 'flexibility' WHEN 'Funcional' THEN 'functional' WHEN 'Mixto' THEN 'mixed' ELSE "workout_days"."workoutType" END), (SELECT "id" FROM "workout_types" WHERE "code" = 'strength')), "workout_days"."isActive", "workout_days"."user_id", "workout_days"."program_week_id", "workout_days"."createdAt", "workout_days"."updatedAt" FROM "workout_days"`);
+    await queryRunner.query(`DROP TABLE "workout_days"`);
+    await queryRunner.query(`ALTER TABLE "temporary_workout_days" RENAME TO "workout_days"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "workout_days" RENAME TO "temporary_workout_days"`);
+    await queryRunner.query(`CREATE TABLE "workout_days" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "description" text, "dayOfWeek" integer NOT NULL, "startTime" varchar(5), "slotOrder" integer NOT NULL DEFAULT (1), "durationMinutes" integer NOT NULL, "intensityLevel" integer NOT NULL DEFAULT (3), "workoutType" varchar(50) NOT NULL DEFAULT ('Fuerza'), "isActive" boolean NOT NULL DEFAULT (1), "user_id" integer NOT NULL, "program_week_id" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_cd5b4efbb399889eab10d8da981" FOREIGN KEY ("program_week_id") REFERENCES "program_weeks" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_33c33cdc37139fe8691bb1bac70" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`);
+    // 🔄 Volver al texto en español (los tipos creados después de la migración pasan a Fuerza)
+    await queryRunner.query(`INSERT INTO "workout_days"("id", "name", "description", "dayOfWeek", "startTime", "slotOrder", "durationMinutes", "intensityLevel", "workoutType", "isActive", "user_id", "program_week_id", "createdAt", "updatedAt") SELECT "temporary_workout_days"."id", "temporary_workout_days"."name", "temporary_workout_days"."description", "temporary_workout_days"."dayOfWeek", "temporary_workout_days"."startTime", "temporary_workout_days"."slotOrder", "temporary_workout_days"."durationMinutes", "temporary_workout_days"."intensityLevel", COALESCE((SELECT CASE "code" WHEN 'strength' THEN 'Fuerza' WHEN 'cardio' THEN 'Cardio' WHEN 'flexibility' THEN 'Flexibilidad' WHEN 'functional' THEN 'Funcional' WHEN 'mixed' THEN 'Mixto' END FROM "workout_types" WHERE "id" = "temporary_workout_days"."workout_type_id"), 'Fuerza'), "temporary_workout_days"."isActive", "temporary_workout_days"."user_id", "temporary_workout_days"."program_week_id", "temporary_workout_days"."createdAt", "temporary_workout_days"."updatedAt" FROM "temporary_workout_days"`);
+    await queryRunner.query(`DROP TABLE "temporary_workout_days"`);
+    await queryRunner.query(`DROP TABLE "workout_types"`);
+  }
+}
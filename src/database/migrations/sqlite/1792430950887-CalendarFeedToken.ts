@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CalendarFeedToken1792430950887 implements MigrationInterface {
+  name = 'CalendarFeedToken1792430950887';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE "temporary_users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "email" varchar(255) NOT NULL, "password" varchar(255), "role" varchar CHECK( "role" IN ('admin','trainer','nutritionist','user','guest') ) NOT NULL DEFAULT ('user'), "avatar" varchar(500), "status" varchar CHECK( "status" IN ('active','inactive','pending','suspended','banned') ) NOT NULL DEFAULT ('active'), "bio" text, "phone" varchar(20), "location" varchar(255), "specialties" text, "acceptingNewClients" boolean NOT NULL DEFAULT (1), "stats" text, "sex" varchar CHECK( "sex" IN ('male','female') ), "birthDate" date, "heightCm" float, "weightKg" float, "goalWeightKg" float, "activityLevel" varchar CHECK( "activityLevel" IN ('sedentary','light','moderate','active','very_active') ), "goal" varchar CHECK( "goal" IN ('lose','maintain','gain') ), "timezone" varchar(64) NOT NULL DEFAULT ('UTC'), "nutritionTargetsOverride" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "locale" varchar CHECK( "locale" IN ('es','en') ), "calendarFeedTokenHash" varchar(64), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"), CONSTRAINT "UQ_352e39f343dc67fcc1023a5e297" UNIQUE ("calendarFeedTokenHash"))`);
+    await queryRunner.query(`INSERT INTO "temporary_users"("id", "name", "email", "password", "role", "avatar", "status", "bio", "phone", "location", "specialties", "acceptingNewClients", "stats", "sex", "birthDate", "heightCm", "weightKg", "goalWeightKg", "activityLevel", "goal", "timezone", "nutritionTargetsOverride", "createdAt", "updatedAt", "locale") SELECT "id", "name", "email", "password", "role", "avatar", "status", "bio", "phone", "location", "specialties", "acceptingNewClients", "stats", "sex", "birthDate", "heightCm", "weightKg", "goalWeightKg", "activityLevel", "goal", "timezone", "nutritionTargetsOverride", "createdAt", "updatedAt", "locale" FROM "users"`);
+    await queryRunner.query(`DROP TABLE "users"`);
+    await queryRunner.query(`ALTER TABLE "temporary_users" RENAME TO "users"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" RENAME TO "temporary_users"`);
+    await queryRunner.query(`CREATE TABLE "users" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar(100) NOT NULL, "email" varchar(255) NOT NULL, "password" varchar(255), "role" varchar CHECK( "role" IN ('admin','trainer','nutritionist','user','guest') ) NOT NULL DEFAULT ('user'), "avatar" varchar(500), "status" varchar CHECK( "status" IN ('active','inactive','pending','suspended','banned') ) NOT NULL DEFAULT ('active'), "bio" text, "phone" varchar(20), "location" varchar(255), "specialties" text, "acceptingNewClients" boolean NOT NULL DEFAULT (1), "stats" text, "sex" varchar CHECK( "sex" IN ('male','female') ), "birthDate" date, "heightCm" float, "weightKg" float, "goalWeightKg" float, "activityLevel" varchar CHECK( "activityLevel" IN ('sedentary','light','moderate','active','very_active') ), "goal" varchar CHECK( "goal" IN ('lose','maintain','gain') ), "timezone" varchar(64) NOT NULL DEFAULT ('UTC'), "nutritionTargetsOverride" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "locale" varchar CHECK( "locale" IN ('es','en') ), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"))`);
+    await queryRunner.query(`INSERT INTO "users"("id", "name", "email", "password", "role", "avatar", "status", "bio", "phone", "location", "specialties", "acceptingNewClients", "stats", "sex", "birthDate", "heightCm", "weightKg", "goalWeightKg", "activityLevel", "goal", "timezone", "nutritionTargetsOverride", "createdAt", "updatedAt", "locale") SELECT "id", "name", "email", "password", "role", "avatar", "status", "bio", "phone", "location", "specialties", "acceptingNewClients", "stats", "sex", "birthDate", "heightCm", "weightKg", "goalWeightKg", "activityLevel", "goal", "timezone", "nutritionTargetsOverride", "createdAt", "updatedAt", "locale" FROM "temporary_users"`);
+    await queryRunner.query(`DROP TABLE "temporary_users"`);
+  }
+}
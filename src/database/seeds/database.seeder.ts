@@ -0,0 +1,139 @@
+import { DataSource, EntityManager, In } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { WorkoutDayEntity } from '../../workout-days/entities/workout-day.entity';
+import { WorkoutTypeEntity } from '../../workout-types/entities/workout-type.entity';
+import { DEFAULT_WORKOUT_TYPES } from '../../workout-types/interfaces/workout-type.interface';
+import { buildWorkoutWeekFixture } from './fixtures/workout-day.fixture';
+import { buildProfileUsers, SeedProfile } from './seed-profiles';
+
+/**
+ * 🔑 Contraseña por defecto de los usuarios del seed
+ */
+export const DEFAULT_SEED_PASSWORD = 'nutrifit123';
+
+/**
+ * 📦 Usuarios que se guardan en cada transacción
+ * Limita el número de parámetros por consulta (SQLite tiene un máximo)
+ */
+const SEED_CHUNK_SIZE = 100;
+
+/**
+ * 📊 Resultado de ejecutar un perfil de seed
+ */
+export interface SeedResult {
+  profile: string; // 🌱 Perfil ejecutado
+  usersCreated: number; // ✅ Usuarios nuevos
+  usersSkipped: number; // ⏭️ Usuarios que ya existían (mismo email)
+  workoutDaysCreated: number; // 🏋️ Días de entrenamiento creados para los usuarios nuevos
+}
+
+/**
+ * 🌱 Seeder de la base de datos
+ *
+ * Crea los usuarios de un perfil con una semana de entrenamientos cada uno.
+ * Es idempotente: los usuarios se identifican por email y los que ya
+ * existen se omiten (sin tocar sus datos ni sus entrenamientos), así que
+ * volver a ejecutarlo solo completa lo que falta. Cada bloque de usuarios se
+ * guarda con sus entrenamientos en una transacción. Antes crea los tipos de
+ * entrenamiento base que falten en el catálogo.
+ *
+ * Se puede usar desde el CLI (npm run seed) o desde tests e2e con la
+ * DataSource de la aplicación.
+ *
+ * @example
+ * const result = await new DatabaseSeeder(dataSource).run(SEED_PROFILES.minimal);
+ */
+export class DatabaseSeeder {
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly password: string = DEFAULT_SEED_PASSWORD,
+  ) {}
+
+  /**
+   * 🚀 Ejecutar un perfil de seed
+   *
+   * @param {SeedProfile} profile - Perfil a ejecutar
+   * @returns {Promise<SeedResult>} Cuántos usuarios y entrenamientos se crearon
+   */
+  async run(profile: SeedProfile): Promise<SeedResult> {
+    const users = buildProfileUsers(profile);
+    const result: SeedResult = { profile: profile.name, usersCreated: 0, usersSkipped: 0, workoutDaysCreated: 0 };
+
+    // 🔒 Todos comparten contraseña: se calcula el hash una sola vez
+    const passwordHolder = new UserEntity();
+    await passwordHolder.setPassword(this.password);
+
+    // 🎯 Los entrenamientos referencian los tipos base del catálogo
+    const workoutTypeIds = await this.ensureWorkoutTypes();
+
+    for (let start = 0; start < users.length; start += SEED_CHUNK_SIZE) {
+      const chunk = users.slice(start, start + SEED_CHUNK_SIZE);
+      await this.dataSource.transaction(async (manager) => {
+        const { created, workoutDays } = await this.seedChunk(manager, chunk, start, passwordHolder.password as string, workoutTypeIds);
+        result.usersCreated += created;
+        result.usersSkipped += chunk.length - created;
+        result.workoutDaysCreated += workoutDays;
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 🎯 Crear los tipos de entrenamiento base que falten (por código)
+   * Los que ya existen no se tocan, aunque estén eliminados
+   *
+   * @private
+   * @returns {Promise<Map<string, number>>} ID de cada tipo base por código
+   */
+  private async ensureWorkoutTypes(): Promise<Map<string, number>> {
+    const codes = DEFAULT_WORKOUT_TYPES.map((type) => type.code);
+    const existing = await this.dataSource.manager.find(WorkoutTypeEntity, { select: { id: true, code: true }, where: { code: In(codes) } });
+    const existingCodes = new Set(existing.map((type) => type.code));
+    const missing = DEFAULT_WORKOUT_TYPES.filter((type) => !existingCodes.has(type.code)).map((type) => new WorkoutTypeEntity({ ...type }));
+
+    if (missing.length > 0) {
+      await this.dataSource.manager.insert(WorkoutTypeEntity, missing);
+    }
+
+    const workoutTypes = await this.dataSource.manager.find(WorkoutTypeEntity, { select: { id: true, code: true }, where: { code: In(codes) } });
+    return new Map(workoutTypes.map((type) => [type.code, type.id]));
+  }
+
+  /**
+   * 📦 Guardar un bloque de usuarios nuevos con sus entrenamientos
+   * La rutina de cada usuario depende de su posición en el perfil (no de su ID),
+   * así es la misma en cualquier base de datos
+   *
+   * @private
+   * @param {EntityManager} manager - Manager de la transacción
+   * @param {UserEntity[]} chunk - Usuarios del bloque
+   * @param {number} offset - Posición del primer usuario del bloque en el perfil
+   * @param {string} passwordHash - Hash de la contraseña común
+   * @param {Map<string, number>} workoutTypeIds - ID de cada tipo de entrenamiento base por código
+   * @returns {Promise<{ created: number; workoutDays: number }>} Usuarios y entrenamientos creados
+   */
+  private async seedChunk(manager: EntityManager, chunk: UserEntity[], offset: number, passwordHash: string, workoutTypeIds: Map<string, number>): Promise<{ created: number; workoutDays: number }> {
+    const existing = await manager.find(UserEntity, { select: { id: true, email: true }, where: { email: In(chunk.map((user) => user.email)) } });
+    const existingEmails = new Set(existing.map((user) => user.email));
+    const newUsers = chunk.filter((user) => !existingEmails.has(user.email));
+
+    if (newUsers.length === 0) {
+      return { created: 0, workoutDays: 0 };
+    }
+
+    newUsers.forEach((user) => (user.password = passwordHash));
+    await manager.insert(UserEntity, newUsers);
+
+    // 🔗 Recuperar los IDs asignados para enlazar los entrenamientos
+    const saved = await manager.find(UserEntity, { select: { id: true, email: true }, where: { email: In(newUsers.map((user) => user.email)) } });
+    const idsByEmail = new Map(saved.map((user) => [user.email, user.id]));
+    const workoutDays = newUsers.flatMap((user) => buildWorkoutWeekFixture(idsByEmail.get(user.email) as number, workoutTypeIds, offset + chunk.indexOf(user) + 1));
+
+    for (let start = 0; start < workoutDays.length; start += SEED_CHUNK_SIZE) {
+      await manager.insert(WorkoutDayEntity, workoutDays.slice(start, start + SEED_CHUNK_SIZE));
+    }
+
+    return { created: newUsers.length, workoutDays: workoutDays.length };
+  }
+}
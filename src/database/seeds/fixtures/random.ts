@@ -0,0 +1,64 @@
+/**
+ * 🎲 Generador de números pseudoaleatorios con semilla (mulberry32)
+ * La misma semilla produce siempre la misma secuencia, así los datos
+ * generados son realistas pero reproducibles entre ejecuciones
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * 🔢 Número decimal entre 0 (incluido) y 1 (excluido)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * 🔢 Número entero entre min y max (ambos incluidos)
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * 🔢 Número decimal entre min y max redondeado a `decimals` decimales
+   */
+  float(min: number, max: number, decimals = 1): number {
+    const factor = 10 ** decimals;
+    return Math.round((min + this.next() * (max - min)) * factor) / factor;
+  }
+
+  /**
+   * 🎯 Elemento aleatorio de una lista
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * 🎯 Varios elementos distintos de una lista (en orden aleatorio)
+   */
+  pickMany<T>(items: readonly T[], count: number): T[] {
+    const pool = [...items];
+    const picked: T[] = [];
+    while (picked.length < count && pool.length > 0) {
+      picked.push(pool.splice(Math.floor(this.next() * pool.length), 1)[0]);
+    }
+    return picked;
+  }
+
+  /**
+   * ✅ true con la probabilidad indicada (0-1)
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+}
@@ -0,0 +1,137 @@
+import { UserEntity } from '../../../users/entities/user.entity';
+import { UserRole, UserStatus, BiologicalSex, ActivityLevel, FitnessGoal } from '../../../users/interfaces/user.interface';
+import { SeededRandom } from './random';
+
+/**
+ * 📧 Dominio de los emails de los usuarios generados
+ * Permite reconocerlos (y no mezclarlos con usuarios reales)
+ */
+export const SEED_EMAIL_DOMAIN = 'seed.nutrifit.local';
+
+/**
+ * 👥 Cuentas fijas presentes en todos los perfiles de seed
+ * Una cuenta activa por cada rol (para iniciar sesión con cualquiera) y una
+ * cuenta por cada estado no activo (para probar bloqueos y filtros)
+ */
+export const BASE_USER_ACCOUNTS: ReadonlyArray<{ key: string; role: UserRole; status: UserStatus }> = [
+  { key: 'admin', role: UserRole.ADMIN, status: UserStatus.ACTIVE },
+  { key: 'trainer', role: UserRole.TRAINER, status: UserStatus.ACTIVE },
+  { key: 'nutritionist', role: UserRole.NUTRITIONIST, status: UserStatus.ACTIVE },
+  { key: 'user', role: UserRole.USER, status: UserStatus.ACTIVE },
+  { key: 'guest', role: UserRole.GUEST, status: UserStatus.ACTIVE },
+  { key: 'inactive', role: UserRole.USER, status: UserStatus.INACTIVE },
+  { key: 'pending', role: UserRole.USER, status: UserStatus.PENDING },
+  { key: 'suspended', role: UserRole.USER, status: UserStatus.SUSPENDED },
+  { key: 'banned', role: UserRole.USER, status: UserStatus.BANNED },
+];
+
+const FIRST_NAMES = ['Lucía', 'Hugo', 'Martina', 'Mateo', 'Sofía', 'Leo', 'Julia', 'Daniel', 'Paula', 'Pablo', 'Valeria', 'Álvaro', 'Carmen', 'Diego', 'Elena', 'Javier', 'Sara', 'Marcos', 'Noa', 'Adrián'];
+const LAST_NAMES = ['García', 'Rodríguez', 'González', 'Fernández', 'López', 'Martínez', 'Sánchez', 'Pérez', 'Gómez', 'Martín', 'Jiménez', 'Ruiz', 'Hernández', 'Díaz', 'Moreno', 'Álvarez'];
+const LOCATIONS = ['Madrid, España', 'Barcelona, España', 'Valencia, España', 'Sevilla, España', 'Bilbao, España', 'Ciudad de México, México', 'Buenos Aires, Argentina', 'Bogotá, Colombia', 'Lima, Perú', 'Santiago, Chile'];
+const TIMEZONES: Record<string, string> = {
+  España: 'Europe/Madrid',
+  México: 'America/Mexico_City',
+  Argentina: 'America/Argentina/Buenos_Aires',
+  Colombia: 'America/Bogota',
+  Perú: 'America/Lima',
+  Chile: 'America/Santiago',
+};
+const TRAINER_SPECIALTIES = ['fuerza', 'hipertrofia', 'hiit', 'crossfit', 'running', 'yoga', 'pilates', 'movilidad', 'rehabilitación'];
+const NUTRITIONIST_SPECIALTIES = ['pérdida de peso', 'nutrición deportiva', 'vegana', 'diabetes', 'embarazo', 'recomposición corporal'];
+
+/**
+ * 🎭 Rol de un usuario generado según su posición
+ * La mayoría son usuarios normales, con algunos profesionales e invitados
+ */
+function pickRole(index: number): UserRole {
+  if (index % 10 === 0) return UserRole.TRAINER;
+  if (index % 10 === 5) return UserRole.NUTRITIONIST;
+  if (index % 50 === 7) return UserRole.ADMIN;
+  if (index % 20 === 3) return UserRole.GUEST;
+  return UserRole.USER;
+}
+
+/**
+ * 📊 Estado de un usuario generado (~85% activos)
+ */
+function pickStatus(random: SeededRandom): UserStatus {
+  const roll = random.next();
+  if (roll < 0.85) return UserStatus.ACTIVE;
+  if (roll < 0.9) return UserStatus.PENDING;
+  if (roll < 0.95) return UserStatus.INACTIVE;
+  if (roll < 0.98) return UserStatus.SUSPENDED;
+  return UserStatus.BANNED;
+}
+
+/**
+ * 🏗️ Construir un usuario de prueba realista (sin guardar)
+ *
+ * Los datos dependen solo de `index`: el mismo índice produce siempre el
+ * mismo usuario (nombre, email, métricas corporales, rol y estado). Las
+ * `overrides` se aplican al final. No incluye contraseña: usa
+ * `user.setPassword()` o asigna un hash ya calculado.
+ *
+ * @param {number} index - Posición del usuario (determina todos sus datos)
+ * @param {Partial<UserEntity>} overrides - Campos a sobrescribir
+ * @returns {UserEntity} Usuario listo para guardar
+ *
+ * @example
+ * const trainer = buildUserFixture(3, { role: UserRole.TRAINER });
+ * await trainer.setPassword('secreto123');
+ * await userRepository.save(trainer);
+ */
+export function buildUserFixture(index: number, overrides: Partial<UserEntity> = {}): UserEntity {
+  const random = new SeededRandom(index * 7919 + 17);
+  const firstName = random.pick(FIRST_NAMES);
+  const lastName = random.pick(LAST_NAMES);
+  const location = random.pick(LOCATIONS);
+  const role = overrides.role ?? pickRole(index);
+  const sex = random.chance(0.5) ? BiologicalSex.FEMALE : BiologicalSex.MALE;
+  const heightCm = sex === BiologicalSex.FEMALE ? random.float(152, 180) : random.float(162, 195);
+  const weightKg = random.float(heightCm - 115, heightCm - 80);
+  const goal = random.pick([FitnessGoal.LOSE, FitnessGoal.MAINTAIN, FitnessGoal.GAIN]);
+  const isCoach = role === UserRole.TRAINER || role === UserRole.NUTRITIONIST;
+  const specialties = role === UserRole.TRAINER ? random.pickMany(TRAINER_SPECIALTIES, random.int(1, 3)) : random.pickMany(NUTRITIONIST_SPECIALTIES, random.int(1, 3));
+
+  // 📅 Altas repartidas en el último año
+  const createdAt = new Date(Date.now() - random.int(1, 365) * 24 * 60 * 60 * 1000);
+
+  return new UserEntity({
+    name: `${firstName} ${lastName}`,
+    email: `user-${String(index).padStart(5, '0')}@${SEED_EMAIL_DOMAIN}`,
+    role,
+    status: pickStatus(random),
+    location,
+    timezone: TIMEZONES[location.split(', ')[1]],
+    phone: `+34 6${String(random.int(10000000, 99999999))}`,
+    bio: isCoach ? `Profesional con ${random.int(2, 15)} años de experiencia en ${specialties.join(', ')}.` : undefined,
+    specialties: isCoach ? specialties : undefined,
+    acceptingNewClients: isCoach ? random.chance(0.8) : true,
+    sex,
+    birthDate: `${random.int(1965, 2005)}-${String(random.int(1, 12)).padStart(2, '0')}-${String(random.int(1, 28)).padStart(2, '0')}`,
+    heightCm,
+    weightKg,
+    goalWeightKg: goal === FitnessGoal.LOSE ? Math.round((weightKg - random.int(3, 12)) * 10) / 10 : goal === FitnessGoal.GAIN ? Math.round((weightKg + random.int(2, 8)) * 10) / 10 : weightKg,
+    activityLevel: random.pick(Object.values(ActivityLevel)),
+    goal,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  });
+}
+
+/**
+ * 👥 Construir las cuentas fijas (BASE_USER_ACCOUNTS) presentes en todos los perfiles
+ * Emails predecibles para iniciar sesión: admin@seed.nutrifit.local, trainer@seed.nutrifit.local...
+ *
+ * @returns {UserEntity[]} Una cuenta por rol y por estado
+ */
+export function buildBaseUserFixtures(): UserEntity[] {
+  return BASE_USER_ACCOUNTS.map((account, position) =>
+    buildUserFixture(100000 + position, {
+      email: `${account.key}@${SEED_EMAIL_DOMAIN}`,
+      role: account.role,
+      status: account.status,
+    }),
+  );
+}
@@ -0,0 +1,105 @@
+import { WorkoutDayEntity } from '../../../workout-days/entities/workout-day.entity';
+import { SeededRandom } from './random';
+
+/**
+ * 📋 Sesión de una rutina semanal de ejemplo
+ */
+interface WorkoutTemplate {
+  dayOfWeek: number; // 🗓️ Día de la semana (1=Lunes ... 7=Domingo)
+  name: string; // 📛 Nombre del entrenamiento
+  workoutType: string; // 🎯 Código del tipo: strength, cardio, flexibility, functional o mixed
+  durationMinutes: number; // ⏱️ Duración base en minutos
+  intensityLevel: number; // 🔥 Intensidad base (1-5)
+}
+
+/**
+ * 🗓️ Rutinas semanales de ejemplo (cada usuario recibe una)
+ */
+const WEEKLY_SPLITS: WorkoutTemplate[][] = [
+  // 💪 Cuerpo completo 3 días + movilidad
+  [
+    { dayOfWeek: 1, name: 'Cuerpo completo A', workoutType: 'strength', durationMinutes: 60, intensityLevel: 3 },
+    { dayOfWeek: 3, name: 'Cuerpo completo B', workoutType: 'strength', durationMinutes: 60, intensityLevel: 3 },
+    { dayOfWeek: 5, name: 'Cuerpo completo C', workoutType: 'strength', durationMinutes: 60, intensityLevel: 4 },
+    { dayOfWeek: 7, name: 'Movilidad y estiramientos', workoutType: 'flexibility', durationMinutes: 30, intensityLevel: 1 },
+  ],
+  // 🏋️ Empuje / tirón / pierna
+  [
+    { dayOfWeek: 1, name: 'Lunes - Pecho y Tríceps', workoutType: 'strength', durationMinutes: 75, intensityLevel: 4 },
+    { dayOfWeek: 2, name: 'Martes - Espalda y Bíceps', workoutType: 'strength', durationMinutes: 75, intensityLevel: 4 },
+    { dayOfWeek: 3, name: 'Miércoles - Piernas', workoutType: 'strength', durationMinutes: 90, intensityLevel: 5 },
+    { dayOfWeek: 4, name: 'Jueves - Hombros y Core', workoutType: 'strength', durationMinutes: 60, intensityLevel: 3 },
+    { dayOfWeek: 5, name: 'Viernes - Cardio Intenso', workoutType: 'cardio', durationMinutes: 40, intensityLevel: 4 },
+    { dayOfWeek: 6, name: 'Sábado - Piernas y Glúteos', workoutType: 'strength', durationMinutes: 75, intensityLevel: 4 },
+  ],
+  // 🏃 Plan de carrera
+  [
+    { dayOfWeek: 1, name: 'Rodaje suave', workoutType: 'cardio', durationMinutes: 40, intensityLevel: 2 },
+    { dayOfWeek: 2, name: 'Fuerza para corredores', workoutType: 'functional', durationMinutes: 45, intensityLevel: 3 },
+    { dayOfWeek: 3, name: 'Series en pista', workoutType: 'cardio', durationMinutes: 50, intensityLevel: 5 },
+    { dayOfWeek: 5, name: 'Tempo run', workoutType: 'cardio', durationMinutes: 45, intensityLevel: 4 },
+    { dayOfWeek: 6, name: 'Tirada larga', workoutType: 'cardio', durationMinutes: 90, intensityLevel: 3 },
+    { dayOfWeek: 7, name: 'Yoga para corredores', workoutType: 'flexibility', durationMinutes: 30, intensityLevel: 1 },
+  ],
+  // 🔄 Torso / pierna + funcional
+  [
+    { dayOfWeek: 1, name: 'Torso', workoutType: 'strength', durationMinutes: 70, intensityLevel: 4 },
+    { dayOfWeek: 2, name: 'Pierna', workoutType: 'strength', durationMinutes: 70, intensityLevel: 4 },
+    { dayOfWeek: 4, name: 'Circuito funcional', workoutType: 'functional', durationMinutes: 45, intensityLevel: 4 },
+    { dayOfWeek: 5, name: 'Torso y pierna', workoutType: 'mixed', durationMinutes: 80, intensityLevel: 3 },
+    { dayOfWeek: 6, name: 'Pilates', workoutType: 'flexibility', durationMinutes: 50, intensityLevel: 2 },
+  ],
+];
+
+/**
+ * 🏗️ Construir la rutina de una semana para un usuario (sin guardar)
+ *
+ * La rutina depende solo de `seed` (por defecto, el ID del usuario): duración
+ * e intensidad varían un poco sobre la plantilla y algunos usuarios añaden
+ * una sesión de cardio por la mañana (segundo turno del día) para tener
+ * días con varios entrenamientos.
+ *
+ * @param {number} userId - ID del usuario propietario
+ * @param {Map<string, number>} workoutTypeIds - ID de cada tipo de entrenamiento base por código
+ * @param {number} seed - Semilla de la variación (opcional, default: userId)
+ * @returns {WorkoutDayEntity[]} Días de entrenamiento listos para guardar
+ *
+ * @example
+ * await workoutDayRepository.save(buildWorkoutWeekFixture(user.id, workoutTypeIds));
+ */
+export function buildWorkoutWeekFixture(userId: number, workoutTypeIds: Map<string, number>, seed: number = userId): WorkoutDayEntity[] {
+  const random = new SeededRandom(seed * 104729 + 3);
+  const split = random.pick(WEEKLY_SPLITS);
+  const morningCardioDay = random.chance(0.3) ? random.pick(split).dayOfWeek : null;
+
+  return split.flatMap((template) => {
+    const hasMorningCardio = template.dayOfWeek === morningCardioDay;
+    const workoutDay = new WorkoutDayEntity({
+      userId,
+      name: template.name,
+      description: `Rutina semanal de ejemplo: ${template.name.toLowerCase()}`,
+      dayOfWeek: template.dayOfWeek,
+      startTime: `${String(random.int(17, 20)).padStart(2, '0')}:${random.pick(['00', '30'])}`,
+      slotOrder: hasMorningCardio ? 2 : 1,
+      durationMinutes: template.durationMinutes + random.pick([-10, -5, 0, 0, 5, 10]),
+      intensityLevel: Math.min(5, Math.max(1, template.intensityLevel + random.pick([-1, 0, 0, 1]))),
+      workoutTypeId: workoutTypeIds.get(template.workoutType),
+    });
+
+    if (!hasMorningCardio) {
+      return [workoutDay];
+    }
+
+    const morningCardio = new WorkoutDayEntity({
+      userId,
+      name: 'Cardio en ayunas',
+      dayOfWeek: template.dayOfWeek,
+      startTime: '07:00',
+      slotOrder: 1,
+      durationMinutes: 30,
+      intensityLevel: 2,
+      workoutTypeId: workoutTypeIds.get('cardio'),
+    });
+    return [morningCardio, workoutDay];
+  });
+}
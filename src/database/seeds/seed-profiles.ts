@@ -0,0 +1,46 @@
+import { UserEntity } from '../../users/entities/user.entity';
+import { buildBaseUserFixtures, buildUserFixture } from './fixtures/user.fixture';
+
+/**
+ * 🌱 Perfil de seed
+ * Define cuántos usuarios se crean además de las cuentas fijas
+ */
+export interface SeedProfile {
+  name: string; // 📛 Nombre del perfil (se pasa con --profile)
+  description: string; // 📝 Para qué sirve
+  generatedUsers: number; // 👥 Usuarios generados además de las cuentas fijas
+}
+
+/**
+ * 🗂️ Perfiles de seed disponibles
+ * Todos incluyen las cuentas fijas (un usuario por cada rol y por cada estado)
+ */
+export const SEED_PROFILES: Record<string, SeedProfile> = {
+  minimal: {
+    name: 'minimal',
+    description: 'Solo las cuentas fijas: un usuario por rol y por estado',
+    generatedUsers: 0,
+  },
+  demo: {
+    name: 'demo',
+    description: 'Cuentas fijas y 50 usuarios realistas para demos y desarrollo',
+    generatedUsers: 50,
+  },
+  'load-test': {
+    name: 'load-test',
+    description: 'Cuentas fijas y 5000 usuarios para pruebas de carga',
+    generatedUsers: 5000,
+  },
+};
+
+/**
+ * 👥 Construir todos los usuarios de un perfil (sin guardar)
+ * Primero las cuentas fijas y después los generados, siempre en el mismo orden
+ *
+ * @param {SeedProfile} profile - Perfil de seed
+ * @returns {UserEntity[]} Usuarios del perfil
+ */
+export function buildProfileUsers(profile: SeedProfile): UserEntity[] {
+  const generated = Array.from({ length: profile.generatedUsers }, (_, position) => buildUserFixture(position + 1));
+  return [...buildBaseUserFixtures(), ...generated];
+}
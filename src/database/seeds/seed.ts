@@ -0,0 +1,51 @@
+import { DataSource } from 'typeorm';
+import cliDataSource from '../data-source';
+import { DatabaseSeeder } from './database.seeder';
+import { SEED_PROFILES } from './seed-profiles';
+
+/**
+ * 🌱 CLI de seed: poblar la base de datos configurada en el .env
+ *
+ * Ejecuta antes las migraciones pendientes (salvo con DB_SYNCHRONIZE=true)
+ * y después el perfil indicado. Se puede repetir sin duplicar datos.
+ * La contraseña de todos los usuarios es SEED_PASSWORD (default: nutrifit123).
+ *
+ * @example
+ * npm run seed                          # perfil demo
+ * npm run seed -- --profile=minimal
+ * npm run seed -- --profile=load-test
+ */
+async function seed(): Promise<void> {
+  const profileArgument = process.argv.find((argument) => argument.startsWith('--profile='));
+  const profileName = profileArgument ? profileArgument.split('=')[1] : 'demo';
+  const profile = SEED_PROFILES[profileName];
+
+  if (!profile) {
+    console.error(`❌ Perfil de seed desconocido: ${profileName}. Perfiles disponibles: ${Object.keys(SEED_PROFILES).join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  // 📝 Sin log de SQL: el perfil load-test ejecuta miles de inserts
+  const dataSource = new DataSource({ ...cliDataSource.options, logging: false });
+  await dataSource.initialize();
+
+  try {
+    if (!dataSource.options.synchronize) {
+      const migrations = await dataSource.runMigrations({ transaction: 'all' });
+      console.log(`🧱 ${migrations.length} migraciones pendientes ejecutadas`);
+    }
+
+    console.log(`🌱 Ejecutando el perfil ${profile.name}: ${profile.description}`);
+    const startedAt = Date.now();
+    const result = await new DatabaseSeeder(dataSource, process.env.SEED_PASSWORD).run(profile);
+
+    console.log(`✅ Usuarios creados: ${result.usersCreated} (ya existían: ${result.usersSkipped})`);
+    console.log(`🏋️ Días de entrenamiento creados: ${result.workoutDaysCreated}`);
+    console.log(`⏱️ Terminado en ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+  } finally {
+    await dataSource.destroy();
+  }
+}
+
+void seed();
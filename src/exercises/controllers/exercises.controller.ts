@@ -0,0 +1,167 @@
+import { Controller, Get, Post, Put, Delete, Param, Query, Body, HttpStatus, HttpCode } from '@nestjs/common';
+import { CreateExerciseDto, UpdateExerciseDto, SearchExerciseDto } from '../dto/exercise.dto';
+import { ExerciseEntity } from '../entities/exercise.entity';
+import { ExercisesService } from '../services/exercises.service';
+import { UserRole } from '../../users/interfaces/user.interface';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { I18nService } from '../../i18n/services/i18n.service';
+
+/**
+ * 💪 Controlador de ejercicios - Endpoints de la API REST
+ *
+ * Este controlador expone el catálogo de ejercicios.
+ * Cualquier usuario autenticado puede consultarlo; solo administradores
+ * y entrenadores pueden crear, editar o eliminar ejercicios.
+ *
+ * @class ExercisesController
+ * @description Controlador REST para el catálogo de ejercicios
+ */
+@Controller('exercises') // Prefijo de ruta: /exercises
+export class ExercisesController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param exercisesService - Servicio con la lógica de negocio
+   * @param i18nService - Mensajes de respuesta en el idioma de la petición
+   */
+  constructor(
+    private readonly exercisesService: ExercisesService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * 📋 Obtener todos los ejercicios activos (Status: 200 OK)
+   *
+   * @route GET /exercises
+   * @returns {Promise<ExerciseEntity[]>} Ejercicios activos ordenados por categoría y nombre
+   * @status 200 - Búsqueda exitosa (con o sin resultados)
+   *
+   * @example
+   * GET http://localhost:3000/exercises
+   */
+  @Get()
+  async getAllExercises(): Promise<ExerciseEntity[]> {
+    return await this.exercisesService.findAll();
+  }
+
+  /**
+   * 🔍 Buscar ejercicios con filtros (Status: 200 OK)
+   *
+   * @route GET /exercises/search
+   * @query {string} [name] - Buscar por nombre (búsqueda parcial)
+   * @query {MuscleGroup} [muscleGroup] - Trabaja este grupo (principal o secundario)
+   * @query {ExerciseEquipment} [equipment] - Filtrar por equipamiento
+   * @query {ExerciseCategory} [category] - Filtrar por categoría (Fuerza, Cardio, etc.)
+   * @query {boolean} [isActive] - Filtrar por estado activo
+   * @returns {Promise<ExerciseEntity[]>} Ejercicios que cumplen los criterios
+   * @status 200 - Búsqueda exitosa (con o sin resultados)
+   * @status 400 - Parámetros de búsqueda inválidos
+   *
+   * @example
+   * GET http://localhost:3000/exercises/search?muscleGroup=chest
+   * GET http://localhost:3000/exercises/search?category=Cardio&equipment=cardio_machine
+   */
+  @Get('search')
+  async searchExercises(@Query() searchExerciseDto: SearchExerciseDto): Promise<ExerciseEntity[]> {
+    return await this.exercisesService.search(searchExerciseDto);
+  }
+
+  /**
+   * ➕ Crear un nuevo ejercicio (Status: 201 Created)
+   *
+   * @route POST /exercises
+   * @body {CreateExerciseDto} createExerciseDto - Datos del ejercicio
+   * @returns {Promise<ExerciseEntity>} El ejercicio creado con ID asignado
+   * @status 201 - Ejercicio creado exitosamente
+   * @status 400 - Datos inválidos (validación de DTO)
+   * @status 403 - Solo administradores y entrenadores
+   * @status 409 - Ya existe un ejercicio con ese nombre
+   *
+   * @example
+   * POST http://localhost:3000/exercises
+   * Body: {
+   *   "name": "Press de banca",
+   *   "primaryMuscleGroups": ["chest"],
+   *   "secondaryMuscleGroups": ["triceps", "shoulders"],
+   *   "equipment": "barbell",
+   *   "category": "Fuerza"
+   * }
+   */
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.TRAINER) // 🏋️ Solo administradores y entrenadores
+  @HttpCode(HttpStatus.CREATED)
+  async createExercise(@Body() createExerciseDto: CreateExerciseDto): Promise<ExerciseEntity> {
+    return await this.exercisesService.create(createExerciseDto);
+  }
+
+  /**
+   * ✏️ Actualizar un ejercicio existente (Status: 200 OK)
+   *
+   * @route PUT /exercises/:id
+   * @param {string} id - ID del ejercicio en la URL
+   * @body {UpdateExerciseDto} updateExerciseDto - Campos a actualizar
+   * @returns {Promise<ExerciseEntity>} El ejercicio actualizado
+   * @status 200 - Ejercicio actualizado exitosamente
+   * @status 400 - ID inválido o datos inválidos
+   * @status 403 - Solo administradores y entrenadores
+   * @status 404 - Ejercicio no encontrado
+   * @status 409 - Ya existe otro ejercicio con ese nombre
+   *
+   * @example
+   * PUT http://localhost:3000/exercises/1
+   * Body: { "secondaryMuscleGroups": ["triceps"] }
+   */
+  @Put(':id')
+  @Roles(UserRole.ADMIN, UserRole.TRAINER) // 🏋️ Solo administradores y entrenadores
+  async updateExercise(@Param('id') id: string, @Body() updateExerciseDto: UpdateExerciseDto): Promise<ExerciseEntity> {
+    const exerciseId = parseInt(id);
+    return await this.exercisesService.update(exerciseId, updateExerciseDto);
+  }
+
+  /**
+   * 🗑️ Eliminar un ejercicio (Status: 200 OK)
+   *
+   * Eliminación lógica: deja de poder prescribirse, pero las
+   * prescripciones existentes lo conservan.
+   *
+   * @route DELETE /exercises/:id
+   * @param {string} id - ID del ejercicio en la URL
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Ejercicio eliminado exitosamente
+   * @status 400 - ID inválido
+   * @status 403 - Solo administradores y entrenadores
+   * @status 404 - Ejercicio no encontrado
+   * @status 409 - Ejercicio ya estaba eliminado
+   *
+   * @example
+   * DELETE http://localhost:3000/exercises/1
+   * Response: { "message": "✅ Ejercicio \"Press de banca\" eliminado exitosamente" }
+   */
+  @Delete(':id')
+  @Roles(UserRole.ADMIN, UserRole.TRAINER) // 🏋️ Solo administradores y entrenadores
+  async deleteExercise(@Param('id') id: string): Promise<{ message: string }> {
+    const exerciseId = parseInt(id);
+    const deletedExercise = await this.exercisesService.remove(exerciseId);
+    return {
+      message: this.i18nService.translate('exerciseDeleted', { name: deletedExercise.name }),
+    };
+  }
+
+  /**
+   * 💪 Obtener un ejercicio específico por ID (Status: 200 OK o 404 Not Found)
+   *
+   * @route GET /exercises/:id
+   * @param {string} id - ID del ejercicio en la URL
+   * @returns {Promise<ExerciseEntity>} El ejercicio encontrado
+   * @status 200 - Ejercicio encontrado
+   * @status 400 - ID inválido (no es un número)
+   * @status 404 - Ejercicio no encontrado
+   *
+   * @example
+   * GET http://localhost:3000/exercises/1
+   */
+  @Get(':id') // Este decorador debe ir DESPUÉS de otros @Get más específicos
+  async getExerciseById(@Param('id') id: string): Promise<ExerciseEntity> {
+    const exerciseId = parseInt(id);
+    return await this.exercisesService.findOne(exerciseId);
+  }
+}
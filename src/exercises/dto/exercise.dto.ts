@@ -0,0 +1,99 @@
+import { IsString, IsNotEmpty, IsOptional, IsBoolean, IsEnum, IsArray, ArrayMinSize, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ExerciseCategory, ExerciseEquipment, MuscleGroup } from '../interfaces/exercise.interface';
+
+/**
+ * 📝 DTO para crear un nuevo ejercicio con validaciones automáticas
+ */
+export class CreateExerciseDto {
+  @IsString({ message: 'El nombre debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El nombre es obligatorio' })
+  @MaxLength(100, { message: 'El nombre debe tener como máximo 100 caracteres' })
+  name: string; // 📛 Nombre (obligatorio)
+
+  @IsOptional()
+  @IsString({ message: 'La descripción debe ser una cadena de texto' })
+  description?: string; // 📝 Descripción (opcional)
+
+  @IsArray({ message: 'Los grupos musculares principales deben ser un array' })
+  @ArrayMinSize(1, { message: 'Debe haber al menos un grupo muscular principal' })
+  @IsEnum(MuscleGroup, { each: true, message: 'Cada grupo muscular debe ser un valor válido' })
+  primaryMuscleGroups: MuscleGroup[]; // 🎯 Grupos principales (obligatorio, mínimo 1)
+
+  @IsOptional()
+  @IsArray({ message: 'Los grupos musculares secundarios deben ser un array' })
+  @IsEnum(MuscleGroup, { each: true, message: 'Cada grupo muscular debe ser un valor válido' })
+  secondaryMuscleGroups?: MuscleGroup[]; // 🎯 Grupos secundarios (opcional, default: [])
+
+  @IsOptional()
+  @IsEnum(ExerciseEquipment, { message: 'El equipamiento debe ser un valor válido' })
+  equipment?: ExerciseEquipment; // 🛠️ Equipamiento (opcional, default: 'bodyweight')
+
+  @IsOptional()
+  @IsEnum(ExerciseCategory, { message: 'La categoría debe ser: Fuerza, Cardio, Flexibilidad, Funcional o Mixto' })
+  category?: ExerciseCategory; // 🏷️ Categoría (opcional, default: 'Fuerza')
+}
+
+/**
+ * ✏️ DTO para actualizar un ejercicio existente con validaciones
+ * Todos los campos son opcionales (puedes actualizar solo lo que quieras)
+ */
+export class UpdateExerciseDto {
+  @IsOptional()
+  @IsString({ message: 'El nombre debe ser una cadena de texto' })
+  @MaxLength(100, { message: 'El nombre debe tener como máximo 100 caracteres' })
+  name?: string; // 📛 Nombre (opcional)
+
+  @IsOptional()
+  @IsString({ message: 'La descripción debe ser una cadena de texto' })
+  description?: string; // 📝 Descripción (opcional)
+
+  @IsOptional()
+  @IsArray({ message: 'Los grupos musculares principales deben ser un array' })
+  @ArrayMinSize(1, { message: 'Debe haber al menos un grupo muscular principal' })
+  @IsEnum(MuscleGroup, { each: true, message: 'Cada grupo muscular debe ser un valor válido' })
+  primaryMuscleGroups?: MuscleGroup[]; // 🎯 Grupos principales (opcional)
+
+  @IsOptional()
+  @IsArray({ message: 'Los grupos musculares secundarios deben ser un array' })
+  @IsEnum(MuscleGroup, { each: true, message: 'Cada grupo muscular debe ser un valor válido' })
+  secondaryMuscleGroups?: MuscleGroup[]; // 🎯 Grupos secundarios (opcional)
+
+  @IsOptional()
+  @IsEnum(ExerciseEquipment, { message: 'El equipamiento debe ser un valor válido' })
+  equipment?: ExerciseEquipment; // 🛠️ Equipamiento (opcional)
+
+  @IsOptional()
+  @IsEnum(ExerciseCategory, { message: 'La categoría debe ser: Fuerza, Cardio, Flexibilidad, Funcional o Mixto' })
+  category?: ExerciseCategory; // 🏷️ Categoría (opcional)
+
+  @IsOptional()
+  @IsBoolean({ message: 'isActive debe ser true o false' })
+  isActive?: boolean; // ✅ Estado activo (opcional)
+}
+
+/**
+ * 🔍 DTO para búsqueda de ejercicios con validaciones
+ */
+export class SearchExerciseDto {
+  @IsOptional()
+  @IsString({ message: 'El nombre debe ser una cadena de texto' })
+  name?: string; // 📛 Nombre (opcional, búsqueda parcial)
+
+  @IsOptional()
+  @IsEnum(MuscleGroup, { message: 'El grupo muscular debe ser un valor válido' })
+  muscleGroup?: MuscleGroup; // 💪 Trabaja este grupo (principal o secundario)
+
+  @IsOptional()
+  @IsEnum(ExerciseEquipment, { message: 'El equipamiento debe ser un valor válido' })
+  equipment?: ExerciseEquipment; // 🛠️ Equipamiento (opcional)
+
+  @IsOptional()
+  @IsEnum(ExerciseCategory, { message: 'La categoría debe ser: Fuerza, Cardio, Flexibilidad, Funcional o Mixto' })
+  category?: ExerciseCategory; // 🏷️ Categoría (opcional)
+
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean({ message: 'isActive debe ser true o false' })
+  isActive?: boolean; // ✅ Estado activo (opcional, se convierte automáticamente)
+}
@@ -0,0 +1,101 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { ExerciseCategory, ExerciseEquipment, MuscleGroup } from '../interfaces/exercise.interface';
+
+/**
+ * 💪 Entity de Ejercicio - Compatible con TypeORM
+ * Representa un ejercicio del catálogo que se puede prescribir en un día de entrenamiento
+ * Esta clase define cómo se almacenan los datos en cualquier BD (SQLite, PostgreSQL, MySQL)
+ */
+@Entity('exercises') // 📋 Nombre de la tabla en la BD
+export class ExerciseEntity {
+  /**
+   * 🆔 Identificador único del ejercicio
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 📛 Nombre del ejercicio
+   * Campo obligatorio, máximo 100 caracteres
+   * Ejemplos: "Press de banca", "Sentadilla trasera", "Plancha"
+   */
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  /**
+   * 📝 Descripción o instrucciones de ejecución (opcional)
+   */
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  /**
+   * 🎯 Grupos musculares principales
+   * Al menos uno (ej: ["chest"])
+   */
+  @Column({ type: 'simple-json' })
+  primaryMuscleGroups: MuscleGroup[];
+
+  /**
+   * 🎯 Grupos musculares secundarios (pueden estar vacíos)
+   * Ejemplo: ["triceps", "shoulders"]
+   */
+  @Column({ type: 'simple-json' })
+  secondaryMuscleGroups: MuscleGroup[];
+
+  /**
+   * 🛠️ Equipamiento necesario
+   */
+  @Column({ type: 'varchar', enum: ExerciseEquipment, default: ExerciseEquipment.BODYWEIGHT })
+  equipment: ExerciseEquipment;
+
+  /**
+   * 🏷️ Categoría del ejercicio
+   * Mismos valores que el tipo de los días de entrenamiento
+   */
+  @Column({ type: 'varchar', enum: ExerciseCategory, default: ExerciseCategory.STRENGTH })
+  category: ExerciseCategory;
+
+  /**
+   * ✅ Estado activo del ejercicio
+   * true = disponible en el catálogo, false = eliminado
+   */
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  /**
+   * 📅 Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * 🔄 Fecha de última actualización
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 🏗️ Constructor de la entity
+   * Permite crear una instancia con valores iniciales
+   */
+  constructor(partial: Partial<ExerciseEntity> = {}) {
+    Object.assign(this, partial);
+
+    // Valores por defecto si no se proporcionan
+    this.isActive = this.isActive ?? true;
+    this.secondaryMuscleGroups = this.secondaryMuscleGroups ?? [];
+    this.equipment = this.equipment ?? ExerciseEquipment.BODYWEIGHT;
+    this.category = this.category ?? ExerciseCategory.STRENGTH;
+    this.createdAt = this.createdAt ?? new Date();
+    this.updatedAt = this.updatedAt ?? new Date();
+  }
+
+  /**
+   * 🔍 Método para saber si el ejercicio trabaja un grupo muscular
+   * Revisa tanto los grupos principales como los secundarios
+   */
+  targetsMuscleGroup(muscleGroup: MuscleGroup): boolean {
+    return this.primaryMuscleGroups.includes(muscleGroup) || this.secondaryMuscleGroups.includes(muscleGroup);
+  }
+}
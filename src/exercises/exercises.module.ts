@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ExercisesController } from './controllers/exercises.controller';
+import { ExercisesService } from './services/exercises.service';
+import { ExerciseEntity } from './entities/exercise.entity';
+
+/**
+ * 📦 Módulo de ejercicios
+ * Agrupa toda la funcionalidad del catálogo de ejercicios:
+ * - Controlador (manejo de HTTP requests)
+ * - Servicio (lógica de negocio con Repository pattern)
+ * - Entity con grupos musculares, equipamiento y categoría
+ * Los días de entrenamiento prescriben ejercicios de este catálogo
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ExerciseEntity]), // 🗄️ Registrar el repositorio de ExerciseEntity
+  ],
+  controllers: [ExercisesController],
+  providers: [ExercisesService],
+  exports: [ExercisesService], // Exporta el servicio para ser usado en otros módulos
+})
+export class ExercisesModule {}
@@ -0,0 +1,46 @@
+/**
+ * 🎯 Enumeración de categorías de ejercicio
+ * Equivalen a los tipos de entrenamiento base del catálogo (workout_types)
+ */
+export enum ExerciseCategory {
+  STRENGTH = 'Fuerza', // 🏋️ Fuerza
+  CARDIO = 'Cardio', // 🏃 Cardio
+  FLEXIBILITY = 'Flexibilidad', // 🧘 Flexibilidad
+  FUNCTIONAL = 'Funcional', // 🤸 Funcional
+  MIXED = 'Mixto', // 🔀 Mixto
+}
+
+/**
+ * 💪 Enumeración de grupos musculares
+ */
+export enum MuscleGroup {
+  CHEST = 'chest', // Pecho
+  BACK = 'back', // Espalda
+  SHOULDERS = 'shoulders', // Hombros
+  BICEPS = 'biceps', // Bíceps
+  TRICEPS = 'triceps', // Tríceps
+  FOREARMS = 'forearms', // Antebrazos
+  ABS = 'abs', // Abdomen
+  OBLIQUES = 'obliques', // Oblicuos
+  LOWER_BACK = 'lower_back', // Zona lumbar
+  GLUTES = 'glutes', // Glúteos
+  QUADRICEPS = 'quadriceps', // Cuádriceps
+  HAMSTRINGS = 'hamstrings', // Isquiotibiales
+  CALVES = 'calves', // Gemelos
+  FULL_BODY = 'full_body', // Cuerpo completo
+}
+
+/**
+ * 🛠️ Enumeración de equipamiento necesario
+ */
+export enum ExerciseEquipment {
+  BODYWEIGHT = 'bodyweight', // 🙆 Peso corporal
+  BARBELL = 'barbell', // 🏋️ Barra
+  DUMBBELL = 'dumbbell', // 💪 Mancuernas
+  KETTLEBELL = 'kettlebell', // 🔔 Kettlebell
+  MACHINE = 'machine', // ⚙️ Máquina
+  CABLE = 'cable', // 🪢 Polea
+  BAND = 'band', // 🎗️ Banda elástica
+  CARDIO_MACHINE = 'cardio_machine', // 🚴 Cinta, bici, elíptica, remo
+  OTHER = 'other', // 📦 Otro
+}
@@ -0,0 +1,247 @@
+import { Injectable, NotFoundException, ConflictException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ExerciseEntity } from '../entities/exercise.entity';
+import { CreateExerciseDto, UpdateExerciseDto, SearchExerciseDto } from '../dto/exercise.dto';
+import { ExerciseCategory, ExerciseEquipment } from '../interfaces/exercise.interface';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+import { QueryFiltersService } from '../../common/services/query-filters.service';
+
+/**
+ * 💪 Servicio de ejercicios - Lógica de negocio con Base de Datos
+ *
+ * Este servicio maneja el catálogo de ejercicios que se prescriben
+ * en los días de entrenamiento.
+ * Usa TypeORM Repository pattern para persistencia escalable.
+ *
+ * @class ExercisesService
+ * @description Gestiona el catálogo de ejercicios
+ */
+@Injectable()
+export class ExercisesService {
+  private readonly logger = new Logger(ExercisesService.name);
+
+  /**
+   * Constructor del servicio
+   * @param exerciseRepository - Repositorio para ExerciseEntity
+   * @param queryFiltersService - Búsqueda parcial (LIKE escapado) por nombre
+   */
+  constructor(
+    @InjectRepository(ExerciseEntity)
+    private readonly exerciseRepository: Repository<ExerciseEntity>,
+    private readonly queryFiltersService: QueryFiltersService,
+  ) {}
+
+  /**
+   * 📋 Obtener todos los ejercicios activos desde la BD
+   *
+   * @returns {Promise<ExerciseEntity[]>} Ejercicios activos ordenados por categoría y nombre
+   * @example
+   * const ejercicios = await exercisesService.findAll();
+   */
+  async findAll(): Promise<ExerciseEntity[]> {
+    this.logger.log('📋 Obteniendo ejercicios activos desde la base de datos...');
+
+    return await this.exerciseRepository.find({
+      where: { isActive: true },
+      order: { category: 'ASC', name: 'ASC' },
+    });
+  }
+
+  /**
+   * 🔍 Buscar ejercicios con filtros en la BD
+   *
+   * El filtro por grupo muscular incluye ejercicios donde el grupo es
+   * principal o secundario.
+   *
+   * @param {SearchExerciseDto} searchExerciseDto - Criterios de búsqueda
+   * @returns {Promise<ExerciseEntity[]>} Ejercicios que cumplen los criterios
+   *
+   * @example
+   * const pecho = await exercisesService.search({ muscleGroup: MuscleGroup.CHEST, equipment: ExerciseEquipment.DUMBBELL });
+   */
+  async search(searchExerciseDto: SearchExerciseDto): Promise<ExerciseEntity[]> {
+    this.logger.log('🔍 Buscando ejercicios con filtros en la BD', searchExerciseDto);
+
+    // Construir condiciones WHERE dinámicamente
+    const whereConditions: Record<string, any> = {};
+
+    // Filtrar por nombre (búsqueda parcial)
+    if (searchExerciseDto.name) {
+      whereConditions.name = this.queryFiltersService.likeContains('name', searchExerciseDto.name);
+    }
+
+    // Filtrar por equipamiento
+    if (searchExerciseDto.equipment) {
+      whereConditions.equipment = searchExerciseDto.equipment;
+    }
+
+    // Filtrar por categoría
+    if (searchExerciseDto.category) {
+      whereConditions.category = searchExerciseDto.category;
+    }
+
+    // Filtrar por estado activo
+    if (searchExerciseDto.isActive !== undefined) {
+      whereConditions.isActive = searchExerciseDto.isActive;
+    }
+
+    const exercises = await this.exerciseRepository.find({
+      where: whereConditions,
+      order: { category: 'ASC', name: 'ASC' },
+    });
+
+    // Los grupos musculares se guardan como JSON: se filtran en memoria para no depender de la BD
+    const muscleGroup = searchExerciseDto.muscleGroup;
+    return muscleGroup ? exercises.filter((exercise) => exercise.targetsMuscleGroup(muscleGroup)) : exercises;
+  }
+
+  /**
+   * 💪 Obtener un ejercicio por ID desde la BD
+   *
+   * @param {number} id - ID único del ejercicio
+   * @returns {Promise<ExerciseEntity>} El ejercicio encontrado
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si el ejercicio no existe
+   */
+  async findOne(id: number): Promise<ExerciseEntity> {
+    this.logger.log(`🔍 Buscando ejercicio con ID: ${id} en la BD`);
+
+    // Validar que el ID sea un número válido
+    if (isNaN(id)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const exercise = await this.exerciseRepository.findOne({
+      where: { id },
+    });
+
+    if (!exercise) {
+      throw new NotFoundException({ code: ErrorCode.EXERCISE_NOT_FOUND, message: `Ejercicio con ID ${id} no encontrado`, params: { id } });
+    }
+
+    return exercise;
+  }
+
+  /**
+   * ➕ Crear un nuevo ejercicio en la BD
+   *
+   * @param {CreateExerciseDto} createExerciseDto - Datos del ejercicio
+   * @returns {Promise<ExerciseEntity>} El ejercicio recién creado
+   * @throws {ConflictException} Si ya existe un ejercicio activo con ese nombre
+   *
+   * @example
+   * const press = await exercisesService.create({
+   *   name: 'Press de banca',
+   *   primaryMuscleGroups: [MuscleGroup.CHEST],
+   *   secondaryMuscleGroups: [MuscleGroup.TRICEPS, MuscleGroup.SHOULDERS],
+   *   equipment: ExerciseEquipment.BARBELL,
+   *   category: ExerciseCategory.STRENGTH
+   * });
+   */
+  async create(createExerciseDto: CreateExerciseDto): Promise<ExerciseEntity> {
+    this.logger.log('➕ Creando nuevo ejercicio en la BD', createExerciseDto);
+
+    const name = createExerciseDto.name.trim();
+    await this.validateUniqueName(name);
+
+    const exercise = this.exerciseRepository.create({
+      name,
+      description: createExerciseDto.description?.trim(),
+      primaryMuscleGroups: [...new Set(createExerciseDto.primaryMuscleGroups)],
+      secondaryMuscleGroups: [...new Set(createExerciseDto.secondaryMuscleGroups ?? [])],
+      equipment: createExerciseDto.equipment ?? ExerciseEquipment.BODYWEIGHT, // Peso corporal por defecto
+      category: createExerciseDto.category ?? ExerciseCategory.STRENGTH, // Fuerza por defecto
+      isActive: true,
+    });
+
+    const savedExercise = await this.exerciseRepository.save(exercise);
+    this.logger.log(`✅ Ejercicio creado exitosamente en la BD con ID: ${savedExercise.id}`);
+
+    return savedExercise;
+  }
+
+  /**
+   * ✏️ Actualizar un ejercicio existente en la BD
+   *
+   * Los cambios se ven en todas las prescripciones que usan el ejercicio.
+   *
+   * @param {number} id - ID del ejercicio a actualizar
+   * @param {UpdateExerciseDto} updateExerciseDto - Campos a actualizar
+   * @returns {Promise<ExerciseEntity>} El ejercicio actualizado
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si el ejercicio no existe
+   * @throws {ConflictException} Si el nuevo nombre ya existe
+   */
+  async update(id: number, updateExerciseDto: UpdateExerciseDto): Promise<ExerciseEntity> {
+    this.logger.log(`✏️ Actualizando ejercicio ID ${id} en la BD`, updateExerciseDto);
+
+    const exercise = await this.findOne(id);
+
+    // Validar nombre único solo si se está cambiando
+    if (updateExerciseDto.name && updateExerciseDto.name.trim() !== exercise.name) {
+      await this.validateUniqueName(updateExerciseDto.name.trim(), id);
+      exercise.name = updateExerciseDto.name.trim();
+    }
+
+    // Actualizar solo los campos proporcionados
+    if (updateExerciseDto.description !== undefined) exercise.description = updateExerciseDto.description?.trim();
+    if (updateExerciseDto.primaryMuscleGroups !== undefined) exercise.primaryMuscleGroups = [...new Set(updateExerciseDto.primaryMuscleGroups)];
+    if (updateExerciseDto.secondaryMuscleGroups !== undefined) exercise.secondaryMuscleGroups = [...new Set(updateExerciseDto.secondaryMuscleGroups)];
+    if (updateExerciseDto.equipment !== undefined) exercise.equipment = updateExerciseDto.equipment;
+    if (updateExerciseDto.category !== undefined) exercise.category = updateExerciseDto.category;
+    if (updateExerciseDto.isActive !== undefined) exercise.isActive = updateExerciseDto.isActive;
+
+    const updatedExercise = await this.exerciseRepository.save(exercise);
+    this.logger.log(`✅ Ejercicio ID ${id} actualizado exitosamente en la BD`);
+
+    return updatedExercise;
+  }
+
+  /**
+   * 🗑️ Eliminar un ejercicio (eliminación lógica) en la BD
+   *
+   * Ya no se puede prescribir, pero los días de entrenamiento que lo
+   * usan conservan su prescripción.
+   *
+   * @param {number} id - ID del ejercicio a eliminar
+   * @returns {Promise<ExerciseEntity>} El ejercicio marcado como eliminado
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si el ejercicio no existe
+   * @throws {ConflictException} Si el ejercicio ya estaba eliminado
+   */
+  async remove(id: number): Promise<ExerciseEntity> {
+    this.logger.log(`🗑️ Eliminando ejercicio ID ${id} en la BD`);
+
+    const exercise = await this.findOne(id);
+
+    if (!exercise.isActive) {
+      throw new ConflictException({ code: ErrorCode.EXERCISE_ALREADY_DELETED, message: `Ejercicio con ID ${id} ya estaba eliminado`, params: { id } });
+    }
+
+    // Eliminación lógica: cambiar isActive a false
+    exercise.isActive = false;
+    const deletedExercise = await this.exerciseRepository.save(exercise);
+
+    this.logger.log(`✅ Ejercicio ID ${id} eliminado exitosamente en la BD`);
+    return deletedExercise;
+  }
+
+  /**
+   * 🏷️ Método privado para validar que no haya otro ejercicio activo con el mismo nombre
+   *
+   * @param {string} name - Nombre del ejercicio
+   * @param {number} [excludeId] - ID a ignorar (el propio ejercicio al actualizar)
+   * @throws {ConflictException} Si ya existe
+   * @private
+   */
+  private async validateUniqueName(name: string, excludeId?: number): Promise<void> {
+    const existingExercise = await this.exerciseRepository.findOne({
+      where: { name, isActive: true },
+    });
+
+    if (existingExercise && existingExercise.id !== excludeId) {
+      throw new ConflictException({ code: ErrorCode.EXERCISE_NAME_TAKEN, message: `Ya existe un ejercicio activo llamado "${name}"`, params: { name } });
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import type { MessageCatalog } from '../interfaces/i18n.interface';
+
+/**
+ * 🇬🇧 Catálogo de mensajes en inglés
+ * Los errores usan los mismos parámetros ({id}, {name}...) que envía cada excepción en `params`;
+ * las validaciones reciben {property} y los argumentos del decorador ({constraint1}, {constraint2})
+ */
+export const EN_CATALOG: MessageCatalog = {
+  errors: {
+    // 🧰 Generales
+    VALIDATION_FAILED: 'The submitted data is not valid',
+    INVALID_ID: 'ID must be a valid number',
+    INVALID_DATE_RANGE: 'The start date must be before or equal to the end date',
+    INVALID_RANGE: 'Invalid range: the minimum ({min}) is greater than the maximum ({max})',
+    PAGINATION_PAGE_AND_CURSOR: 'Use either page or cursor to paginate, not both',
+    PAGINATION_INVALID_CURSOR: 'The cursor is not valid',
+    PAGINATION_CURSOR_MISMATCH: 'The cursor was generated sorting by {sort} {order}: use the same sort and order or start without a cursor',
+    UNIQUE_CONSTRAINT_VIOLATION: 'A record with that data already exists',
+    FOREIGN_KEY_CONSTRAINT_VIOLATION: 'The record references data that does not exist or is used by other records',
+    INTERNAL_ERROR: 'Internal server error',
+
+    // 📥 Importación masiva
+    IMPORT_INVALID_FORMAT: 'Send a CSV with a header row (Content-Type: text/csv) or a JSON array of objects (Content-Type: application/json)',
+    IMPORT_CSV_UNCLOSED_QUOTE: 'The CSV has an unclosed quote',
+    IMPORT_CSV_COLUMN_COUNT: 'Row {row} has {count} columns, but the header has {expected}',
+    IMPORT_UNKNOWN_COLUMNS: 'Unknown columns: {columns}. Valid columns: {validColumns}',
+    IMPORT_EMPTY: 'There are no rows to import',
+    IMPORT_TOO_MANY_ROWS: 'At most {maxRows} rows can be imported per request',
+
+    // 🔐 Autenticación y permisos
+    AUTH_TOKEN_REQUIRED: 'Access token required',
+    AUTH_TOKEN_INVALID: 'Invalid or expired access token',
+    AUTH_USER_INACTIVE: 'The token user does not exist or is not active',
+    AUTH_INVALID_CREDENTIALS: 'Incorrect email or password',
+    AUTH_REFRESH_TOKEN_INVALID: 'Invalid or expired refresh token',
+    ACCOUNT_SUSPENDED: 'Your account is suspended',
+    ACCOUNT_BANNED: 'Your account has been banned',
+    ACCOUNT_PENDING: 'Your account is pending activation',
+    ACCOUNT_INACTIVE: 'Your account is not active',
+    USER_TOKEN_INVALID: 'The token is invalid or has expired',
+    PASSWORD_INCORRECT: 'The current password is incorrect',
+    PASSWORD_UNCHANGED: 'The new password must be different from the current one',
+    GUEST_READ_ONLY: 'Guest users only have read access',
+    INSUFFICIENT_ROLE: 'You do not have permission to perform this action',
+    ADMIN_REQUIRED: 'Only an administrator can perform this action',
+    ACCESS_DENIED_USER_PROFILE: 'You can only modify your own profile',
+    ACCESS_DENIED_WORKOUT_DAYS: 'You can only manage your own workouts or those of your assigned clients',
+    ACCESS_DENIED_MEAL_LOGS: 'You can only manage your own logged meals or those of your assigned clients',
+    ACCESS_DENIED_NUTRITION_TARGETS: 'Only the assigned nutritionist or an administrator can adjust the nutrition targets',
+    ACCESS_DENIED_BODY_MEASUREMENTS: 'You can only access your own body measurements or those of your assigned clients',
+    ACCESS_DENIED_HEALTH_DATA: 'You can only access your own health data or that of your assigned clients',
+    ACCESS_DENIED_TRAINING_PROGRAM: 'Only the program author or an administrator can modify it',
+
+    // 👤 Usuarios
+    USER_NOT_FOUND: 'User with ID {id} not found',
+    USER_EMAIL_TAKEN: 'A user with that email already exists',
+    USER_ALREADY_DELETED: 'User with ID {id} was already deleted',
+    USER_BIRTH_DATE_NOT_PAST: 'The birth date must be in the past',
+    USER_METRICS_MISSING: 'Body metrics are missing to calculate the targets: {metrics}',
+
+    // 💪 Ejercicios
+    EXERCISE_NOT_FOUND: 'Exercise with ID {id} not found',
+    EXERCISES_NOT_FOUND: 'Exercises not found or not active: {ids}',
+    EXERCISE_ALREADY_DELETED: 'Exercise with ID {id} was already deleted',
+    EXERCISE_NAME_TAKEN: 'An active exercise named "{name}" already exists',
+
+    // 🥑 Nutrición
+    FOOD_NOT_FOUND: 'Food with ID {id} not found',
+    FOODS_NOT_FOUND: 'Foods not found or not active: {ids}',
+    FOOD_ALREADY_DELETED: 'Food with ID {id} was already deleted',
+    FOOD_NAME_TAKEN: 'An active food named "{name}" already exists',
+    MEAL_LOG_NOT_FOUND: 'Logged meal with ID {id} not found',
+    MEAL_LOG_ALREADY_DELETED: 'Logged meal with ID {id} was already deleted',
+
+    // 📏 Mediciones corporales
+    BODY_MEASUREMENT_NOT_FOUND: 'Body measurement with ID {id} not found',
+    BODY_MEASUREMENT_ALREADY_DELETED: 'Body measurement with ID {id} was already deleted',
+    BODY_MEASUREMENT_EMPTY: 'You must send at least one measurement: {fields}',
+    BODY_MEASUREMENT_DATE_TAKEN: 'An active measurement already exists for {date}',
+
+    // 🏋️ Días de entrenamiento
+    WORKOUT_DAY_NOT_FOUND: 'Workout day with ID {id} not found',
+    WORKOUT_DAY_ALREADY_DELETED: 'Workout day with ID {id} was already deleted',
+    WORKOUT_DAY_SLOT_CONFLICT: 'Slot {slot} on {day} is already taken by "{name}"',
+    WORKOUT_DAY_TIME_OVERLAP: 'The time window {timeWindow} on {day} overlaps with "{name}" ({otherTimeWindow})',
+    WORKOUT_DAY_CROSSES_MIDNIGHT: 'The workout on {day} starts at {startTime} and lasts {durationMinutes} minutes: it must end by midnight',
+    CALENDAR_FEED_NOT_FOUND: 'Calendar feed not found',
+
+    // 🎯 Tipos de entrenamiento
+    WORKOUT_TYPE_NOT_FOUND: 'Workout type with ID {id} not found',
+    WORKOUT_TYPE_INVALID: 'The workout type "{code}" does not exist or is not active. Valid types: {codes}',
+    WORKOUT_TYPE_ALREADY_DELETED: 'Workout type with ID {id} was already deleted',
+    WORKOUT_TYPE_CODE_TAKEN: 'A workout type with code "{code}" already exists',
+
+    // ⏱️ Sesiones de entrenamiento
+    WORKOUT_SESSION_NOT_FOUND: 'Workout session with ID {id} not found',
+    WORKOUT_SESSION_ALREADY_DELETED: 'Workout session with ID {id} was already deleted',
+    WORKOUT_SESSION_ALREADY_FINISHED: 'Workout session with ID {id} was already finished',
+    WORKOUT_SESSION_IN_PROGRESS: 'A session is already in progress (ID {id}); finish it before starting another one',
+    WORKOUT_SESSION_FUTURE_DATE: 'A session cannot be logged on a future date',
+    WORKOUT_SESSION_DUPLICATE_SET: 'There are repeated sets: an exercise cannot have the same set number twice',
+    WORKOUT_SESSION_NOT_SCHEDULED: 'Workout day {workoutDayId} is not in the plan of user {userId} on {date}',
+
+    // 📆 Programas de entrenamiento
+    TRAINING_PROGRAM_NOT_FOUND: 'Training program with ID {id} not found or not active',
+    TRAINING_PROGRAM_ALREADY_DELETED: 'Training program with ID {id} was already deleted',
+    PROGRAM_WEEK_NOT_FOUND: 'Program week with ID {id} not found or the program is not active',
+    PROGRAM_WEEKS_OUT_OF_RANGE: 'The program lasts {durationWeeks} weeks; weeks out of range: {weeks}',
+    PROGRAM_WEEKS_DUPLICATED: 'Each week can only be configured once',
+    PROGRAM_ENROLLMENT_NOT_FOUND: 'Enrollment with ID {id} not found',
+    PROGRAM_ENROLLMENT_OVERLAP: 'The user already follows the program "{program}" on those dates (enrollment {enrollmentId})',
+    PROGRAM_ENROLLMENT_ALREADY_CANCELLED: 'Enrollment with ID {id} was already cancelled',
+    SCHEDULE_RANGE_TOO_LONG: 'The range cannot exceed {maxDays} days',
+
+    // 🤝 Relaciones profesional-cliente
+    COACH_NOT_FOUND: 'Professional with ID {id} not found',
+    COACH_NOT_ACCEPTING_CLIENTS: 'The professional with ID {id} is not accepting new clients',
+    COACHING_USER_NOT_COACH: 'The user with ID {id} is neither a trainer nor a nutritionist',
+    COACHING_RELATIONSHIP_NOT_FOUND: 'Coaching relationship with ID {id} not found',
+    COACHING_SELF_RELATIONSHIP: 'A user cannot be their own trainer or nutritionist',
+    COACHING_NOT_PARTICIPANT: 'Only the parties of the relationship can view or modify it',
+    COACHING_NOT_INVITEE: 'Only the invited party can respond to the invitation',
+    COACHING_NOT_TRAINER: "Only the relationship's trainer can view the client's workouts",
+    COACHING_NOT_TRAINING: 'The relationship is not a training relationship',
+    COACHING_RELATIONSHIP_EXISTS: 'User {clientId} is already a client of professional {coachId}',
+    COACHING_INVITATION_PENDING: 'There is already a pending invitation between professional {coachId} and client {clientId} (relationship {relationshipId})',
+    COACHING_INVITATION_NOT_PENDING: 'The invitation with ID {id} is no longer pending (status: {status})',
+    COACHING_RELATIONSHIP_CLOSED: 'The relationship with ID {id} was already {status}',
+    COACHING_RELATIONSHIP_INACTIVE: "The relationship is not active: the trainer has no access to the client's data",
+    COACH_REVIEW_NOT_CLIENT: "Only the relationship's client can review the professional",
+    COACH_REVIEW_NOT_ALLOWED: 'Only an active relationship, or one that ended after being active, can be reviewed',
+  },
+
+  // 📋 Restricciones de class-validator usadas en los DTOs
+  validation: {
+    isString: '{property} must be a string',
+    isNumber: '{property} must be a number',
+    isInt: '{property} must be an integer',
+    isBoolean: '{property} must be true or false',
+    isDateString: '{property} must be a valid ISO 8601 date',
+    isEmail: '{property} must be a valid email',
+    isUrl: '{property} must be a valid URL',
+    isTimeZone: '{property} must be a valid IANA time zone (e.g. Europe/Madrid)',
+    isEnum: '{property} must be one of: {constraint1}',
+    isIn: '{property} must be one of: {constraint1}',
+    isNotEmpty: '{property} must not be empty',
+    isArray: '{property} must be a list',
+    arrayMinSize: '{property} must contain at least {constraint1} items',
+    min: '{property} must be at least {constraint1}',
+    max: '{property} must be at most {constraint1}',
+    minLength: '{property} must be at least {constraint1} characters long',
+    maxLength: '{property} must be at most {constraint1} characters long',
+    matches: '{property} has an invalid format',
+    whitelistValidation: 'Property {property} is not allowed',
+    nestedValidation: '{property} must be an object or a list of objects',
+  },
+
+  messages: {
+    resourceNotFound: 'Resource not found',
+    valueInUse: 'This value is already in use',
+    invalidDay: 'Invalid day',
+    invalidIntensity: 'Invalid intensity',
+    passwordChanged: '✅ Password changed successfully',
+    nutritionTargetsOverrideRemoved: '✅ Manual targets removed, the calculated targets are used',
+    verificationEmailResent: '✅ If the account is pending verification, you will receive a new email',
+    passwordResetRequested: '✅ If an account exists with that email, you will receive an email to reset the password',
+    passwordReset: '✅ Password reset successfully. Log in again',
+    loggedOut: '✅ Logged out successfully',
+    userRegistered: '✅ User registered. Check your inbox to verify your email',
+    emailVerified: '✅ Email verified successfully',
+    userDeleted: '✅ User {name} deleted successfully',
+    exerciseDeleted: '✅ Exercise "{name}" deleted successfully',
+    foodDeleted: '✅ Food "{name}" deleted successfully',
+    mealLogDeleted: '✅ Logged meal with ID {id} deleted successfully',
+    bodyMeasurementDeleted: '✅ Measurement of {date} deleted successfully',
+    workoutDayDeleted: '✅ Workout day "{name}" deleted successfully',
+    calendarName: '{name} workouts (NutriFit)',
+    calendarEventDescription: 'Type: {type}\nDuration: {duration}\nIntensity: {intensity}',
+    calendarFeedRevoked: '✅ Calendar feed disabled. The previous URL no longer works',
+    workoutTypeDeleted: '✅ Workout type "{code}" deleted successfully',
+    workoutSessionDeleted: '✅ Session of {date} deleted successfully',
+    trainingProgramDeleted: '✅ Program "{name}" deleted successfully',
+    programEnrollmentCancelled: '✅ Enrollment in program "{program}" cancelled successfully',
+  },
+
+  dayNames: ['', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
+  intensityNames: ['', 'Low', 'Moderate', 'High', 'Very High', 'Extreme'],
+};
@@ -0,0 +1,47 @@
+import type { MessageCatalog } from '../interfaces/i18n.interface';
+
+/**
+ * 🇪🇸 Catálogo de mensajes en español (idioma por defecto)
+ * Los mensajes de error y de validación de la API están escritos en español donde se lanzan;
+ * aquí solo están los que no se escriben en el código
+ */
+export const ES_CATALOG: MessageCatalog = {
+  errors: {},
+
+  // 📋 Errores que genera class-validator sin mensaje propio del DTO
+  validation: {
+    whitelistValidation: 'La propiedad {property} no está permitida',
+    nestedValidation: '{property} debe ser un objeto o una lista de objetos',
+  },
+
+  messages: {
+    resourceNotFound: 'Recurso no encontrado',
+    valueInUse: 'Este valor ya está en uso',
+    invalidDay: 'Día inválido',
+    invalidIntensity: 'Intensidad inválida',
+    passwordChanged: '✅ Contraseña cambiada exitosamente',
+    nutritionTargetsOverrideRemoved: '✅ Objetivos manuales eliminados, se usan los objetivos calculados',
+    verificationEmailResent: '✅ Si la cuenta está pendiente de verificación, recibirás un nuevo correo',
+    passwordResetRequested: '✅ Si existe una cuenta con ese email, recibirás un correo para restablecer la contraseña',
+    passwordReset: '✅ Contraseña restablecida exitosamente. Inicia sesión de nuevo',
+    loggedOut: '✅ Sesión cerrada exitosamente',
+    userRegistered: '✅ Usuario registrado. Revisa tu correo para verificar tu email',
+    emailVerified: '✅ Email verificado exitosamente',
+    userDeleted: '✅ Usuario {name} eliminado exitosamente',
+    exerciseDeleted: '✅ Ejercicio "{name}" eliminado exitosamente',
+    foodDeleted: '✅ Alimento "{name}" eliminado exitosamente',
+    mealLogDeleted: '✅ Comida registrada con ID {id} eliminada exitosamente',
+    bodyMeasurementDeleted: '✅ Medición del {date} eliminada exitosamente',
+    workoutDayDeleted: '✅ Día de entrenamiento "{name}" eliminado exitosamente',
+    calendarName: 'Entrenamientos de {name} (NutriFit)',
+    calendarEventDescription: 'Tipo: {type}\nDuración: {duration}\nIntensidad: {intensity}',
+    calendarFeedRevoked: '✅ Feed de calendario desactivado. La URL anterior deja de funcionar',
+    workoutTypeDeleted: '✅ Tipo de entrenamiento "{code}" eliminado exitosamente',
+    workoutSessionDeleted: '✅ Sesión del {date} eliminada exitosamente',
+    trainingProgramDeleted: '✅ Programa "{name}" eliminado exitosamente',
+    programEnrollmentCancelled: '✅ Inscripción al programa "{program}" cancelada exitosamente',
+  },
+
+  dayNames: ['', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado', 'Domingo'],
+  intensityNames: ['', 'Bajo', 'Moderado', 'Alto', 'Muy Alto', 'Extremo'],
+};
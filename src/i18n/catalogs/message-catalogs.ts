@@ -0,0 +1,36 @@
+import { Locale } from '../interfaces/i18n.interface';
+import type { MessageCatalog, MessageParams } from '../interfaces/i18n.interface';
+import { ES_CATALOG } from './es.catalog';
+import { EN_CATALOG } from './en.catalog';
+
+/**
+ * 📚 Catálogos de mensajes por idioma
+ */
+export const MESSAGE_CATALOGS: Record<Locale, MessageCatalog> = {
+  [Locale.ES]: ES_CATALOG,
+  [Locale.EN]: EN_CATALOG,
+};
+
+/**
+ * 🧩 Sustituir los parámetros {nombre} de un mensaje
+ * Devuelve undefined si falta alguno, para que quien lo llama use su mensaje original
+ *
+ * @param {string} template - Mensaje con parámetros
+ * @param {MessageParams} params - Valores de los parámetros
+ * @returns {string | undefined} Mensaje final, o undefined si falta algún parámetro
+ *
+ * @example
+ * interpolate('User with ID {id} not found', { id: 5 }); // 'User with ID 5 not found'
+ */
+export function interpolate(template: string, params: MessageParams = {}): string | undefined {
+  let missingParam = false;
+  const message = template.replace(/\{(\w+)\}/g, (_match, name: string) => {
+    if (params[name] === undefined) {
+      missingParam = true;
+      return '';
+    }
+    return String(params[name]);
+  });
+
+  return missingParam ? undefined : message;
+}
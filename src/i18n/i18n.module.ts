@@ -0,0 +1,23 @@
+import { Global, MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { I18nService } from './services/i18n.service';
+import { LocaleMiddleware } from './middleware/locale.middleware';
+
+/**
+ * 📦 Módulo de internacionalización
+ * Agrupa la traducción de los mensajes de la API (español por defecto e inglés):
+ * - Catálogos de mensajes por idioma (errores por código, validaciones, días e intensidades)
+ * - Idioma de cada petición: preferencia del usuario, cabecera Accept-Language o español
+ *
+ * Es global: el filtro de excepciones, el ValidationPipe (main.ts) y los servicios lo usan sin importarlo.
+ * Debe importarse después de LoggingModule, que crea el contexto de la petición donde se guarda el idioma.
+ */
+@Global()
+@Module({
+  providers: [I18nService],
+  exports: [I18nService], // Exporta el servicio para ser usado en otros módulos
+})
+export class I18nModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(LocaleMiddleware).forRoutes('{*path}');
+  }
+}
@@ -0,0 +1,41 @@
+import type { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 🌐 Enumeración de idiomas de la API
+ * Se eligen con la cabecera Accept-Language o con la preferencia guardada del usuario
+ */
+export enum Locale {
+  ES = 'es', // 🇪🇸 Español (idioma por defecto)
+  EN = 'en', // 🇬🇧 Inglés
+}
+
+/**
+ * 🇪🇸 Idioma por defecto: el de los mensajes escritos en el código
+ */
+export const DEFAULT_LOCALE = Locale.ES;
+
+/**
+ * 🧩 Valores que se sustituyen en los mensajes ({id}, {name}...)
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * 💬 Mensajes generales de la API (respuestas de éxito y errores sin código propio)
+ */
+export type MessageKey = 'resourceNotFound' | 'valueInUse' | 'invalidDay' | 'invalidIntensity' | 'passwordChanged' | 'nutritionTargetsOverrideRemoved' | 'verificationEmailResent' | 'passwordResetRequested' | 'passwordReset' | 'loggedOut' | 'userRegistered' | 'emailVerified' | 'userDeleted' | 'exerciseDeleted' | 'foodDeleted' | 'mealLogDeleted' | 'bodyMeasurementDeleted' | 'workoutDayDeleted' | 'calendarName' | 'calendarEventDescription' | 'calendarFeedRevoked' | 'workoutTypeDeleted' | 'workoutSessionDeleted' | 'trainingProgramDeleted' | 'programEnrollmentCancelled';
+
+/**
+ * 📚 Catálogo de mensajes de un idioma
+ *
+ * Los mensajes en español de las excepciones y de las validaciones se
+ * escriben donde se lanzan (son el idioma original), así que en el catálogo
+ * español esas secciones solo tienen lo que no se escribe en el código
+ * (por ejemplo, los errores que genera class-validator por su cuenta).
+ */
+export interface MessageCatalog {
+  errors: Partial<Record<ErrorCode, string>>; // 🏷️ Mensajes de error por código (ErrorCode)
+  validation: Partial<Record<string, string>>; // 📋 Mensajes de validación por restricción de class-validator (isString, min...)
+  messages: Record<MessageKey, string>; // 💬 Mensajes generales
+  dayNames: string[]; // 🗓️ Nombres de los días (índice 1=Lunes ... 7=Domingo)
+  intensityNames: string[]; // 🔥 Nombres de los niveles de intensidad (índice 1=Bajo ... 5=Extremo)
+}
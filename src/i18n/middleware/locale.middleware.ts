@@ -0,0 +1,28 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import type { Request, Response, NextFunction } from 'express';
+import { RequestContextService } from '../../logging/services/request-context.service';
+import { I18nService } from '../services/i18n.service';
+import { DEFAULT_LOCALE } from '../interfaces/i18n.interface';
+
+/**
+ * 🌐 Middleware de idioma
+ *
+ * Elige el idioma de la petición a partir de la cabecera Accept-Language
+ * (español si no pide ningún idioma soportado) y lo guarda en el contexto
+ * de la petición. Si el usuario autenticado tiene un idioma preferido,
+ * JwtAuthGuard lo reemplaza después de cargarlo.
+ *
+ * @class LocaleMiddleware
+ */
+@Injectable()
+export class LocaleMiddleware implements NestMiddleware {
+  constructor(
+    private readonly i18nService: I18nService,
+    private readonly requestContextService: RequestContextService,
+  ) {}
+
+  use(request: Request, _response: Response, next: NextFunction): void {
+    this.requestContextService.setLocale(this.i18nService.resolveLocale(request.header('Accept-Language')) ?? DEFAULT_LOCALE);
+    next();
+  }
+}
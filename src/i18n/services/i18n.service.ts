@@ -0,0 +1,108 @@
+import { Injectable } from '@nestjs/common';
+import { RequestContextService } from '../../logging/services/request-context.service';
+import { MESSAGE_CATALOGS, interpolate } from '../catalogs/message-catalogs';
+import { DEFAULT_LOCALE, Locale } from '../interfaces/i18n.interface';
+import type { MessageKey, MessageParams } from '../interfaces/i18n.interface';
+
+/**
+ * 🌐 Servicio de internacionalización
+ *
+ * Traduce los mensajes de la API al idioma de la petición en curso
+ * (español por defecto, o inglés). El idioma se resuelve en cada
+ * petición: preferencia guardada del usuario autenticado, si no la
+ * cabecera Accept-Language y, si no, español.
+ *
+ * Los mensajes en español se escriben donde se lanzan las excepciones;
+ * los métodos de traducción de errores y validaciones devuelven undefined
+ * cuando el catálogo no tiene el mensaje, y entonces se usa el original.
+ *
+ * @class I18nService
+ */
+@Injectable()
+export class I18nService {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param requestContextService - Para leer el idioma de la petición en curso
+   */
+  constructor(private readonly requestContextService: RequestContextService) {}
+
+  /**
+   * 🌐 Obtener el idioma de la petición en curso
+   *
+   * @returns {Locale} Idioma de la petición, o español fuera de una petición
+   */
+  getLocale(): Locale {
+    return this.requestContextService.getLocale() ?? DEFAULT_LOCALE;
+  }
+
+  /**
+   * 🔎 Elegir el idioma a partir de la cabecera Accept-Language
+   * Respeta los pesos (q) y solo mira el idioma principal (en-US → en)
+   *
+   * @param {string} [acceptLanguage] - Valor de la cabecera (ej: 'en-US,en;q=0.9,es;q=0.8')
+   * @returns {Locale | undefined} El idioma soportado con más peso, o undefined si no hay ninguno
+   *
+   * @example
+   * i18nService.resolveLocale('fr-FR,en;q=0.8,es;q=0.5'); // Locale.EN
+   */
+  resolveLocale(acceptLanguage?: string): Locale | undefined {
+    if (!acceptLanguage) {
+      return undefined;
+    }
+
+    const supportedLocales = Object.values(Locale) as string[];
+    const candidates = acceptLanguage
+      .split(',')
+      .map((part) => {
+        const [tag, ...options] = part.trim().split(';');
+        const quality = options.map((option) => option.trim()).find((option) => option.startsWith('q='));
+        return { language: tag.split('-')[0].toLowerCase(), quality: quality ? parseFloat(quality.slice(2)) : 1 };
+      })
+      .filter(({ language, quality }) => supportedLocales.includes(language) && quality > 0)
+      .sort((a, b) => b.quality - a.quality); // Orden estable: a igual peso gana el primero
+
+    return candidates[0]?.language as Locale | undefined;
+  }
+
+  /**
+   * 💬 Traducir un mensaje general
+   *
+   * @param {MessageKey} key - Clave del mensaje
+   * @param {MessageParams} [params] - Parámetros del mensaje
+   * @param {Locale} [locale] - Idioma (default: el de la petición)
+   * @returns {string} Mensaje traducido
+   *
+   * @example
+   * return { message: this.i18nService.translate('passwordChanged') };
+   */
+  translate(key: MessageKey, params?: MessageParams, locale: Locale = this.getLocale()): string {
+    const template = MESSAGE_CATALOGS[locale].messages[key];
+    return interpolate(template, params) ?? template;
+  }
+
+  /**
+   * 🏷️ Traducir un mensaje de error por su código
+   *
+   * @param {string} code - Código del error (ErrorCode)
+   * @param {MessageParams} [params] - Parámetros enviados con la excepción
+   * @param {Locale} [locale] - Idioma (default: el de la petición)
+   * @returns {string | undefined} Mensaje traducido, o undefined si el catálogo no lo tiene o faltan parámetros
+   */
+  translateError(code: string, params?: MessageParams, locale: Locale = this.getLocale()): string | undefined {
+    const template = (MESSAGE_CATALOGS[locale].errors as Record<string, string | undefined>)[code];
+    return template ? interpolate(template, params) : undefined;
+  }
+
+  /**
+   * 📋 Traducir un mensaje de validación por su restricción de class-validator
+   *
+   * @param {string} constraint - Nombre de la restricción (isString, min, whitelistValidation...)
+   * @param {MessageParams} params - {property} y los argumentos del decorador ({constraint1}...)
+   * @param {Locale} [locale] - Idioma (default: el de la petición)
+   * @returns {string | undefined} Mensaje traducido, o undefined si el catálogo no lo tiene
+   */
+  translateValidation(constraint: string, params: MessageParams, locale: Locale = this.getLocale()): string | undefined {
+    const template = MESSAGE_CATALOGS[locale].validation[constraint];
+    return template ? interpolate(template, params) : undefined;
+  }
+}
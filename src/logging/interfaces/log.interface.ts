@@ -0,0 +1,24 @@
+import type { LogLevel } from '@nestjs/common';
+import type { Locale } from '../../i18n/interfaces/i18n.interface';
+
+/**
+ * 📝 Línea de log en formato JSON (una por evento)
+ */
+export interface LogEntry {
+  timestamp: string; // 🕒 Fecha y hora ISO 8601
+  level: LogLevel; // 📶 Nivel (fatal, error, warn, log, debug, verbose)
+  context?: string; // 🏷️ Clase o módulo que escribe el log
+  requestId?: string; // 🔗 ID de la petición HTTP en curso (X-Request-Id)
+  message: string; // 💬 Mensaje
+  data?: unknown; // 📦 Datos adicionales (con los campos sensibles ocultos)
+  stack?: string; // 🧵 Stack trace de los errores
+}
+
+/**
+ * 🔗 Datos de la petición HTTP en curso
+ * Se guardan en AsyncLocalStorage y están disponibles en todo el código que se ejecuta durante la petición
+ */
+export interface RequestContextStore {
+  requestId: string; // 🆔 ID de correlación de la petición
+  locale?: Locale; // 🌐 Idioma de las respuestas (Accept-Language o preferencia del usuario)
+}
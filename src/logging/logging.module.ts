@@ -0,0 +1,28 @@
+import { Global, MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JsonLogger } from './services/json-logger.service';
+import { RequestContextService } from './services/request-context.service';
+import { RequestIdMiddleware } from './middleware/request-id.middleware';
+import { AccessLogMiddleware } from './middleware/access-log.middleware';
+
+/**
+ * 📦 Módulo de logging
+ * Agrupa el logging estructurado de la aplicación:
+ * - Logger JSON con niveles configurables (LOG_LEVEL) y ocultación de datos sensibles
+ * - ID de correlación por petición (cabecera X-Request-Id, AsyncLocalStorage)
+ * - Log de acceso de cada petición con su duración
+ *
+ * Es global: main.ts lo instala como logger de Nest y los servicios lo usan con `new Logger(...)`
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [JsonLogger, RequestContextService],
+  exports: [JsonLogger, RequestContextService], // Exporta el servicio para ser usado en otros módulos
+})
+export class LoggingModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    // 🆔 Primero el ID de petición, para que el log de acceso ya lo tenga
+    consumer.apply(RequestIdMiddleware, AccessLogMiddleware).forRoutes('{*path}');
+  }
+}
@@ -0,0 +1,49 @@
+import { Injectable, Logger, NestMiddleware } from '@nestjs/common';
+import type { Request, Response, NextFunction } from 'express';
+import { UserEntity } from '../../users/entities/user.entity';
+
+/**
+ * 🙈 Tokens que viajan en la ruta (feeds de calendario): no se escriben en los logs
+ */
+const SENSITIVE_PATH_PATTERN = /(\/calendar-feeds\/)[^/?]+/;
+
+/**
+ * 📊 Middleware de log de acceso
+ *
+ * Escribe una línea por petición cuando termina la respuesta: método, ruta,
+ * código de estado, duración en milisegundos y usuario autenticado. Las
+ * respuestas 4xx se escriben como warn y las 5xx como error. Los tokens de
+ * los feeds de calendario se ocultan de la ruta.
+ *
+ * @class AccessLogMiddleware
+ *
+ * @example
+ * // {"level":"log","context":"HTTP","requestId":"3f2a...","message":"GET /users?page=2 200 12.4ms","data":{"method":"GET",...}}
+ */
+@Injectable()
+export class AccessLogMiddleware implements NestMiddleware {
+  private readonly logger = new Logger('HTTP');
+
+  use(request: Request, response: Response, next: NextFunction): void {
+    const startedAt = process.hrtime.bigint();
+
+    response.on('finish', () => {
+      const durationMs = Math.round(Number(process.hrtime.bigint() - startedAt) / 1e5) / 10;
+      const { statusCode } = response;
+      const userId = (request as Request & { user?: UserEntity }).user?.id;
+      const path = request.originalUrl.replace(SENSITIVE_PATH_PATTERN, '$1[REDACTED]');
+      const message = `${request.method} ${path} ${statusCode} ${durationMs}ms`;
+      const data = { method: request.method, path, statusCode, durationMs, userId };
+
+      if (statusCode >= 500) {
+        this.logger.error(message, data);
+      } else if (statusCode >= 400) {
+        this.logger.warn(message, data);
+      } else {
+        this.logger.log(message, data);
+      }
+    });
+
+    next();
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { RequestContextService } from '../services/request-context.service';
+
+/**
+ * 🆔 Cabecera del ID de correlación de la petición
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * ✅ Formato aceptado para un X-Request-Id recibido (evita inyectar texto arbitrario en los logs)
+ */
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * 🆔 Middleware de ID de petición
+ *
+ * Reutiliza el X-Request-Id que envía el cliente (o un proxy) si es válido,
+ * o genera uno nuevo (UUID). Lo devuelve en la cabecera de la respuesta y
+ * ejecuta el resto de la petición dentro de su contexto, para que todos los
+ * logs que se escriban durante la petición lleven el mismo requestId.
+ *
+ * @class RequestIdMiddleware
+ */
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+  constructor(private readonly requestContextService: RequestContextService) {}
+
+  use(request: Request, response: Response, next: NextFunction): void {
+    const incomingId = request.header(REQUEST_ID_HEADER);
+    const requestId = incomingId && VALID_REQUEST_ID.test(incomingId) ? incomingId : randomUUID();
+
+    response.setHeader(REQUEST_ID_HEADER, requestId);
+    this.requestContextService.run({ requestId }, () => next());
+  }
+}
@@ -0,0 +1,161 @@
+import { Injectable, LoggerService, LogLevel } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RequestContextService } from './request-context.service';
+import type { LogEntry } from '../interfaces/log.interface';
+
+/**
+ * 📶 Niveles de log de menor a mayor gravedad
+ * LOG_LEVEL indica el mínimo que se escribe (default: log)
+ */
+const LOG_LEVELS: LogLevel[] = ['verbose', 'debug', 'log', 'warn', 'error', 'fatal'];
+
+/**
+ * 🙈 Campos que nunca se escriben en los logs (se reemplazan por REDACTED)
+ * Se comparan sin distinguir mayúsculas y por coincidencia parcial: 'email' cubre 'clientEmail'
+ */
+const SENSITIVE_FIELD_PATTERN = /email|phone|password|token|secret|authorization|cookie/i;
+
+/**
+ * 📧 Emails dentro de los mensajes de texto
+ */
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+
+/**
+ * 🙈 Texto que reemplaza a los datos sensibles
+ */
+const REDACTED = '[REDACTED]';
+
+/**
+ * 📝 Logger JSON de la aplicación
+ *
+ * Reemplaza al logger de Nest (main.ts): cada evento es una línea JSON con
+ * fecha, nivel, contexto, ID de la petición en curso y mensaje. Los datos
+ * adicionales se escriben en `data` ocultando los campos sensibles (emails,
+ * teléfonos, contraseñas, tokens) y los emails que aparezcan en los textos.
+ *
+ * Los servicios lo usan a través de `new Logger(MiServicio.name)` de Nest.
+ *
+ * @class JsonLogger
+ *
+ * @example
+ * // {"timestamp":"2025-01-15T10:30:00.000Z","level":"log","context":"UsersService","requestId":"3f2a...","message":"✅ Usuario creado con ID: 5"}
+ */
+@Injectable()
+export class JsonLogger implements LoggerService {
+  private minimumLevel: number;
+
+  /**
+   * Constructor - Inyección de dependencias
+   * @param configService - Para leer LOG_LEVEL del .env
+   * @param requestContextService - Para añadir el ID de la petición en curso
+   */
+  constructor(
+    configService: ConfigService,
+    private readonly requestContextService: RequestContextService,
+  ) {
+    const configuredLevel = configService.get<string>('LOG_LEVEL') as LogLevel;
+    this.minimumLevel = LOG_LEVELS.includes(configuredLevel) ? LOG_LEVELS.indexOf(configuredLevel) : LOG_LEVELS.indexOf('log');
+  }
+
+  log(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('log', message, optionalParams);
+  }
+
+  error(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('error', message, optionalParams);
+  }
+
+  warn(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('warn', message, optionalParams);
+  }
+
+  debug(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('debug', message, optionalParams);
+  }
+
+  verbose(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('verbose', message, optionalParams);
+  }
+
+  fatal(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('fatal', message, optionalParams);
+  }
+
+  /**
+   * 📶 Cambiar los niveles activos (lo usa Nest con la opción logger de NestFactory)
+   * Se toma el menos grave de la lista como mínimo
+   */
+  setLogLevels(levels: LogLevel[]): void {
+    this.minimumLevel = Math.min(...levels.map((level) => LOG_LEVELS.indexOf(level)));
+  }
+
+  /**
+   * 🖨️ Construir la línea JSON y escribirla (errores a stderr, el resto a stdout)
+   *
+   * El Logger de Nest pasa el contexto como último parámetro; en error()
+   * el primer texto adicional es el stack trace. El resto va a `data`.
+   *
+   * @private
+   */
+  private write(level: LogLevel, message: unknown, optionalParams: unknown[]): void {
+    if (LOG_LEVELS.indexOf(level) < this.minimumLevel) {
+      return;
+    }
+
+    const params = [...optionalParams];
+    const context = params.length > 0 && typeof params[params.length - 1] === 'string' ? (params.pop() as string) : undefined;
+    let stack = message instanceof Error ? message.stack : undefined;
+    if ((level === 'error' || level === 'fatal') && typeof params[0] === 'string') {
+      stack = params.shift() as string;
+    }
+    const data = params.filter((param) => param !== undefined);
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      context,
+      requestId: this.requestContextService.getRequestId(),
+      message: this.redact(message instanceof Error ? message.message : typeof message === 'string' ? message : JSON.stringify(this.redact(message))) as string,
+    };
+    if (data.length > 0) {
+      entry.data = this.redact(data.length === 1 ? data[0] : data);
+    }
+    if (stack) {
+      entry.stack = stack;
+    }
+
+    const stream = level === 'error' || level === 'fatal' ? process.stderr : process.stdout;
+    stream.write(`${JSON.stringify(entry)}\n`);
+  }
+
+  /**
+   * 🙈 Copiar un valor ocultando los datos sensibles
+   * Recorre objetos y listas; ignora referencias circulares
+   *
+   * @private
+   */
+  private redact(value: unknown, seen = new WeakSet<object>()): unknown {
+    if (typeof value === 'string') {
+      return value.replace(EMAIL_PATTERN, REDACTED);
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (value instanceof Error) {
+      return { name: value.name, message: this.redact(value.message, seen) };
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item, seen));
+    }
+
+    return Object.fromEntries(Object.entries(value).map(([key, fieldValue]) => [key, SENSITIVE_FIELD_PATTERN.test(key) && fieldValue != null ? REDACTED : this.redact(fieldValue, seen)]));
+  }
+}
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { RequestContextStore } from '../interfaces/log.interface';
+import type { Locale } from '../../i18n/interfaces/i18n.interface';
+
+/**
+ * 🔗 Servicio de contexto de petición
+ *
+ * Guarda los datos de la petición HTTP en curso (su ID de correlación y
+ * su idioma) con AsyncLocalStorage, para que cualquier código que se
+ * ejecute durante la petición (servicios, logger...) pueda leerlos sin
+ * recibirlos como parámetro.
+ *
+ * @class RequestContextService
+ */
+@Injectable()
+export class RequestContextService {
+  private readonly storage = new AsyncLocalStorage<RequestContextStore>();
+
+  /**
+   * ▶️ Ejecutar una función dentro del contexto de una petición
+   *
+   * @param {RequestContextStore} store - Datos de la petición
+   * @param {() => T} callback - Función a ejecutar (ej: el next() del middleware)
+   * @returns {T} Lo que devuelva la función
+   */
+  run<T>(store: RequestContextStore, callback: () => T): T {
+    return this.storage.run(store, callback);
+  }
+
+  /**
+   * 🆔 Obtener el ID de la petición en curso
+   *
+   * @returns {string | undefined} ID de la petición, o undefined fuera de una petición (arranque, tareas programadas)
+   */
+  getRequestId(): string | undefined {
+    return this.storage.getStore()?.requestId;
+  }
+
+  /**
+   * 🌐 Obtener el idioma de la petición en curso
+   *
+   * @returns {Locale | undefined} Idioma elegido, o undefined fuera de una petición o si aún no se ha resuelto
+   */
+  getLocale(): Locale | undefined {
+    return this.storage.getStore()?.locale;
+  }
+
+  /**
+   * 🌐 Fijar el idioma de la petición en curso
+   * No hace nada fuera de una petición
+   *
+   * @param {Locale} locale - Idioma de las respuestas
+   */
+  setLocale(locale: Locale): void {
+    const store = this.storage.getStore();
+    if (store) {
+      store.locale = locale;
+    }
+  }
+}
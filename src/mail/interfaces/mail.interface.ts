@@ -0,0 +1,32 @@
+/**
+ * 🔑 Token de inyección del transporte de correo activo
+ * Permite cambiar la implementación (consola, archivo, SMTP...) sin tocar los servicios
+ */
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+/**
+ * 🚚 Tipos de transporte de correo disponibles (variable MAIL_TRANSPORT del .env)
+ */
+export enum MailTransportType {
+  CONSOLE = 'console', // 🖥️ Escribe el correo en la consola (desarrollo)
+  FILE = 'file', // 📁 Guarda el correo como archivo JSON (desarrollo y pruebas)
+}
+
+/**
+ * ✉️ Interface de un correo a enviar
+ */
+export interface MailMessage {
+  to: string; // 📧 Destinatario
+  subject: string; // 📌 Asunto
+  text: string; // 📝 Cuerpo en texto plano
+  html?: string; // 🌐 Cuerpo en HTML (opcional)
+}
+
+/**
+ * 🚚 Interface que debe implementar cualquier transporte de correo
+ * Para añadir un proveedor real (SMTP, SES...) basta con implementarla
+ * y registrarla en MailModule bajo el token MAIL_TRANSPORT
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
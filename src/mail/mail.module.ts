@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailService } from './services/mail.service';
+import { MAIL_TRANSPORT, MailTransport, MailTransportType } from './interfaces/mail.interface';
+import { ConsoleMailTransport } from './transports/console-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+
+/**
+ * 📦 Módulo de correo
+ * Agrupa el envío de emails de la aplicación:
+ * - Servicio (API única para enviar correos)
+ * - Transporte intercambiable (lee MAIL_TRANSPORT del .env: console | file)
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    MailService,
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (configService: ConfigService): MailTransport => {
+        const transportType = configService.get<MailTransportType>('MAIL_TRANSPORT') || MailTransportType.CONSOLE;
+
+        if (transportType === MailTransportType.FILE) {
+          return new FileMailTransport(configService.get<string>('MAIL_FILE_DIR') || './.tmp/mails');
+        }
+        return new ConsoleMailTransport();
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [MailService], // Exporta el servicio para ser usado en otros módulos
+})
+export class MailModule {}
@@ -0,0 +1,41 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT } from '../interfaces/mail.interface';
+import type { MailMessage, MailTransport } from '../interfaces/mail.interface';
+
+/**
+ * ✉️ Servicio de correo - Punto único de envío de emails
+ *
+ * Los módulos de la aplicación solo conocen este servicio.
+ * El transporte real se inyecta con el token MAIL_TRANSPORT.
+ *
+ * @class MailService
+ * @description Envía correos usando el transporte configurado
+ */
+@Injectable()
+export class MailService {
+  /**
+   * Constructor del servicio
+   * @param transport - Transporte de correo configurado en MailModule
+   * @param configService - Acceso al remitente por defecto (MAIL_FROM)
+   */
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 📤 Enviar un correo
+   *
+   * @param {MailMessage} message - Destinatario, asunto y cuerpo
+   * @returns {Promise<void>}
+   *
+   * @example
+   * await mailService.send({ to: 'ana@email.com', subject: 'Hola', text: 'Bienvenida' });
+   */
+  async send(message: MailMessage): Promise<void> {
+    const from = this.configService.get<string>('MAIL_FROM') || 'NutriFit <no-reply@nutrifit.local>';
+    await this.transport.send({ ...message, from });
+  }
+}
@@ -0,0 +1,20 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from '../interfaces/mail.interface';
+
+/**
+ * 🖥️ Transporte de correo por consola
+ * No envía nada: escribe el correo en el log de la aplicación.
+ * Útil en desarrollo local para copiar enlaces y tokens (los emails de remitente y destinatario se ocultan).
+ */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  /**
+   * ✉️ Escribir el correo en el log
+   * @param {MailMessage} message - Correo a "enviar"
+   */
+  send(message: MailMessage & { from: string }): Promise<void> {
+    this.logger.log(`✉️ [MAIL] Asunto: ${message.subject}`, { from: message.from, to: message.to, text: message.text });
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,27 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from '../interfaces/mail.interface';
+
+/**
+ * 📁 Transporte de correo a archivos
+ * Guarda cada correo como un archivo JSON en un directorio.
+ * Útil en pruebas para leer el último correo enviado a un destinatario.
+ */
+export class FileMailTransport implements MailTransport {
+  /**
+   * Constructor del transporte
+   * @param directory - Directorio donde se guardan los correos
+   */
+  constructor(private readonly directory: string) {}
+
+  /**
+   * ✉️ Guardar el correo como `<timestamp>-<destinatario>.json`
+   * @param {MailMessage} message - Correo a "enviar"
+   */
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+    await writeFile(join(this.directory, fileName), JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+  }
+}
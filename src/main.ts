@@ -1,9 +1,19 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { ValidationPipe } from '@nestjs/common';
 import { AppModule } from './app.module';
+import { JsonLogger } from './logging/services/json-logger.service';
+import { createValidationExceptionFactory } from './common/filters/validation-exception.factory';
+import { I18nService } from './i18n/services/i18n.service';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // 📝 Los logs del arranque se guardan hasta que el logger JSON está disponible
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { bufferLogs: true });
+  app.useLogger(app.get(JsonLogger));
+
+  // 📥 Las importaciones masivas aceptan CSV como texto y listas JSON de hasta 5 MB
+  app.useBodyParser('text', { type: 'text/csv', limit: '5mb' });
+  app.useBodyParser('json', { limit: '5mb' });
 
   // ✅ CONFIGURAR VALIDACIONES GLOBALES
   app.useGlobalPipes(
@@ -11,6 +21,7 @@ async function bootstrap() {
       whitelist: true, // Eliminar propiedades no definidas en el DTO
       forbidNonWhitelisted: true, // Lanzar error si se envían propiedades extra
       transform: true, // Transformar automáticamente tipos (string → number)
+      exceptionFactory: createValidationExceptionFactory(app.get(I18nService)), // Errores por campo con el formato común (code: VALIDATION_FAILED), en el idioma de la petición
     }),
   );
 
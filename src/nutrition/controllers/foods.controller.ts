@@ -0,0 +1,169 @@
+import { Controller, Get, Post, Put, Delete, Param, Query, Body, HttpStatus, HttpCode } from '@nestjs/common';
+import { CreateFoodDto, UpdateFoodDto, SearchFoodDto } from '../dto/food.dto';
+import { FoodEntity } from '../entities/food.entity';
+import { FoodsService } from '../services/foods.service';
+import { UserRole } from '../../users/interfaces/user.interface';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { I18nService } from '../../i18n/services/i18n.service';
+
+/**
+ * 🥑 Controlador de alimentos - Endpoints de la API REST
+ *
+ * Este controlador expone el catálogo de alimentos.
+ * Cualquier usuario autenticado puede consultarlo; solo administradores
+ * y nutricionistas pueden crear, editar o eliminar alimentos.
+ *
+ * @class FoodsController
+ * @description Controlador REST para el catálogo de alimentos
+ */
+@Controller('foods') // Prefijo de ruta: /foods
+export class FoodsController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param foodsService - Servicio con la lógica de negocio
+   * @param i18nService - Mensajes de respuesta en el idioma de la petición
+   */
+  constructor(
+    private readonly foodsService: FoodsService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * 📋 Obtener todos los alimentos activos (Status: 200 OK)
+   *
+   * @route GET /foods
+   * @returns {Promise<FoodEntity[]>} Lista de alimentos activos ordenados por nombre
+   * @status 200 - Búsqueda exitosa (con o sin resultados)
+   *
+   * @example
+   * GET http://localhost:3000/foods
+   * Response: [{ id: 1, name: 'Avena en hojuelas', servingSize: 40, calories: 150, ... }, ...]
+   */
+  @Get()
+  async getAllFoods(): Promise<FoodEntity[]> {
+    return await this.foodsService.findAll();
+  }
+
+  /**
+   * 🔍 Buscar alimentos con filtros (Status: 200 OK)
+   *
+   * @route GET /foods/search
+   * @query {string} [name] - Buscar por nombre (búsqueda parcial)
+   * @query {string} [brand] - Buscar por marca (búsqueda parcial)
+   * @query {number} [maxCalories] - Máximo de kcal por porción
+   * @query {number} [minProtein] - Mínimo de proteínas por porción
+   * @query {boolean} [isActive] - Filtrar por estado activo
+   * @returns {Promise<FoodEntity[]>} Alimentos que cumplen los criterios
+   * @status 200 - Búsqueda exitosa (con o sin resultados)
+   * @status 400 - Parámetros de búsqueda inválidos
+   *
+   * @example
+   * GET http://localhost:3000/foods/search?name=pollo
+   * GET http://localhost:3000/foods/search?minProtein=20&maxCalories=200
+   */
+  @Get('search')
+  async searchFoods(@Query() searchFoodDto: SearchFoodDto): Promise<FoodEntity[]> {
+    return await this.foodsService.search(searchFoodDto);
+  }
+
+  /**
+   * ➕ Crear un nuevo alimento (Status: 201 Created)
+   *
+   * @route POST /foods
+   * @body {CreateFoodDto} createFoodDto - Datos del alimento (valores por porción)
+   * @returns {Promise<FoodEntity>} El alimento creado con ID asignado
+   * @status 201 - Alimento creado exitosamente
+   * @status 400 - Datos inválidos (validación de DTO)
+   * @status 403 - Solo administradores y nutricionistas
+   * @status 409 - Ya existe un alimento con ese nombre y marca
+   *
+   * @example
+   * POST http://localhost:3000/foods
+   * Body: {
+   *   "name": "Pechuga de pollo",
+   *   "servingSize": 100,
+   *   "calories": 165,
+   *   "protein": 31,
+   *   "fat": 3.6,
+   *   "sodium": 74
+   * }
+   */
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.NUTRITIONIST) // 🥗 Solo administradores y nutricionistas
+  @HttpCode(HttpStatus.CREATED)
+  async createFood(@Body() createFoodDto: CreateFoodDto): Promise<FoodEntity> {
+    return await this.foodsService.create(createFoodDto);
+  }
+
+  /**
+   * ✏️ Actualizar un alimento existente (Status: 200 OK)
+   *
+   * @route PUT /foods/:id
+   * @param {string} id - ID del alimento en la URL
+   * @body {UpdateFoodDto} updateFoodDto - Campos a actualizar
+   * @returns {Promise<FoodEntity>} El alimento actualizado
+   * @status 200 - Alimento actualizado exitosamente
+   * @status 400 - ID inválido o datos inválidos
+   * @status 403 - Solo administradores y nutricionistas
+   * @status 404 - Alimento no encontrado
+   * @status 409 - Ya existe otro alimento con ese nombre y marca
+   *
+   * @example
+   * PUT http://localhost:3000/foods/1
+   * Body: { "calories": 152, "fiber": 4.2 }
+   */
+  @Put(':id')
+  @Roles(UserRole.ADMIN, UserRole.NUTRITIONIST) // 🥗 Solo administradores y nutricionistas
+  async updateFood(@Param('id') id: string, @Body() updateFoodDto: UpdateFoodDto): Promise<FoodEntity> {
+    const foodId = parseInt(id);
+    return await this.foodsService.update(foodId, updateFoodDto);
+  }
+
+  /**
+   * 🗑️ Eliminar un alimento (Status: 200 OK)
+   *
+   * Eliminación lógica: el alimento deja de aparecer en el catálogo,
+   * pero las comidas ya registradas lo conservan.
+   *
+   * @route DELETE /foods/:id
+   * @param {string} id - ID del alimento en la URL
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Alimento eliminado exitosamente
+   * @status 400 - ID inválido
+   * @status 403 - Solo administradores y nutricionistas
+   * @status 404 - Alimento no encontrado
+   * @status 409 - Alimento ya estaba eliminado
+   *
+   * @example
+   * DELETE http://localhost:3000/foods/1
+   * Response: { "message": "✅ Alimento \"Avena en hojuelas\" eliminado exitosamente" }
+   */
+  @Delete(':id')
+  @Roles(UserRole.ADMIN, UserRole.NUTRITIONIST) // 🥗 Solo administradores y nutricionistas
+  async deleteFood(@Param('id') id: string): Promise<{ message: string }> {
+    const foodId = parseInt(id);
+    const deletedFood = await this.foodsService.remove(foodId);
+    return {
+      message: this.i18nService.translate('foodDeleted', { name: deletedFood.getDisplayName() }),
+    };
+  }
+
+  /**
+   * 🥑 Obtener un alimento específico por ID (Status: 200 OK o 404 Not Found)
+   *
+   * @route GET /foods/:id
+   * @param {string} id - ID del alimento en la URL
+   * @returns {Promise<FoodEntity>} El alimento encontrado
+   * @status 200 - Alimento encontrado
+   * @status 400 - ID inválido (no es un número)
+   * @status 404 - Alimento no encontrado
+   *
+   * @example
+   * GET http://localhost:3000/foods/1
+   */
+  @Get(':id') // Este decorador debe ir DESPUÉS de otros @Get más específicos
+  async getFoodById(@Param('id') id: string): Promise<FoodEntity> {
+    const foodId = parseInt(id);
+    return await this.foodsService.findOne(foodId);
+  }
+}
@@ -0,0 +1,226 @@
+import { Controller, Get, Post, Put, Delete, Param, Query, Body, HttpStatus, HttpCode } from '@nestjs/common';
+import { CreateMealLogDto, UpdateMealLogDto, SearchMealLogDto, MealLogListQueryDto, DailyQueryDto, MealLogResponseDto } from '../dto/meal-log.dto';
+import { DailyNutritionSummary } from '../interfaces/nutrition.interface';
+import { MealLogsService } from '../services/meal-logs.service';
+import { UserEntity } from '../../users/entities/user.entity';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { Paginated } from '../../common/interfaces/pagination.interface';
+import { I18nService } from '../../i18n/services/i18n.service';
+
+/**
+ * 🍽️ Controlador de comidas registradas - Endpoints de la API REST
+ *
+ * Este controlador maneja el diario de comidas de los usuarios.
+ * Las respuestas incluyen los nutrientes de cada alimento y los totales
+ * de la comida, calculados en el servidor.
+ * Todos los endpoints requieren un token de acceso válido (guard JWT global).
+ *
+ * @class MealLogsController
+ * @description Controlador REST para operaciones de comidas registradas
+ */
+@Controller('meal-logs') // Prefijo de ruta: /meal-logs
+export class MealLogsController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param mealLogsService - Servicio con la lógica de negocio
+   * @param i18nService - Mensajes de respuesta en el idioma de la petición
+   */
+  constructor(
+    private readonly mealLogsService: MealLogsService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * 📋 Obtener todas las comidas registradas activas (Status: 200 OK)
+   *
+   * Solo las del usuario autenticado y las de sus clientes (todas si es admin).
+   *
+   * @route GET /meal-logs
+   * @query {number} [page] - Página (default: 1)
+   * @query {number} [limit] - Resultados por página (default: 20, máximo: 100)
+   * @query {string} [cursor] - nextCursor de la respuesta anterior (en lugar de page)
+   * @query {MealLogSortField} [sort] - date o createdAt (default: date)
+   * @query {SortDirection} [order] - asc o desc (default: desc, las más recientes primero)
+   * @returns {Promise<Paginated<MealLogResponseDto>>} Página de comidas activas
+   * @status 200 - Búsqueda exitosa (con o sin resultados)
+   * @status 400 - Parámetros de paginación inválidos
+   *
+   * @example
+   * GET http://localhost:3000/meal-logs?limit=10
+   * Response: { items: [{ id: 7, date: '2025-01-15', mealType: 'dinner', totals: { calories: 640, ... }, ... }, ...], total: 42, page: 1, limit: 10, nextCursor: 'eyJ...' }
+   */
+  @Get()
+  async getAllMealLogs(@Query() queryDto: MealLogListQueryDto, @CurrentUser() currentUser: UserEntity): Promise<Paginated<MealLogResponseDto>> {
+    return await this.mealLogsService.findAll(queryDto, currentUser);
+  }
+
+  /**
+   * 📊 Obtener los totales nutricionales de un usuario en un día (Status: 200 OK)
+   *
+   * @route GET /meal-logs/user/:userId/daily-totals
+   * @param {string} userId - ID del usuario en la URL
+   * @query {string} [date] - Día a resumir (YYYY-MM-DD, por defecto: hoy en la zona horaria del usuario)
+   * @returns {Promise<DailyNutritionSummary>} Totales del día y por tipo de comida
+   * @status 200 - Resumen calculado
+   * @status 400 - Fecha inválida
+   * @status 403 - Sin acceso a los datos de salud de ese usuario
+   * @status 404 - Usuario no encontrado o no activo
+   *
+   * @example
+   * GET http://localhost:3000/meal-logs/user/1/daily-totals?date=2025-01-15
+   * Response: { userId: 1, date: '2025-01-15', mealCount: 3, totals: { calories: 2150, ... }, byMealType: { ... } }
+   */
+  @Get('user/:userId/daily-totals')
+  async getDailyTotals(@Param('userId') userId: string, @Query() dailyQueryDto: DailyQueryDto, @CurrentUser() currentUser: UserEntity): Promise<DailyNutritionSummary> {
+    const userIdNumber = parseInt(userId);
+    return await this.mealLogsService.getDailyTotals(userIdNumber, currentUser, dailyQueryDto.date);
+  }
+
+  /**
+   * 👤 Obtener las comidas de un usuario específico (Status: 200 OK)
+   *
+   * @route GET /meal-logs/user/:userId
+   * @param {string} userId - ID del usuario en la URL
+   * @query {string} [date] - Solo las comidas de ese día (YYYY-MM-DD)
+   * @returns {Promise<MealLogResponseDto[]>} Comidas del usuario
+   * @status 200 - Comidas encontradas
+   * @status 403 - Sin acceso a los datos de salud de ese usuario
+   * @status 404 - Usuario no encontrado o no activo
+   *
+   * @example
+   * GET http://localhost:3000/meal-logs/user/1?date=2025-01-15
+   */
+  @Get('user/:userId')
+  async getMealLogsByUser(@Param('userId') userId: string, @Query() dailyQueryDto: DailyQueryDto, @CurrentUser() currentUser: UserEntity): Promise<MealLogResponseDto[]> {
+    const userIdNumber = parseInt(userId);
+    return await this.mealLogsService.findByUserId(userIdNumber, currentUser, dailyQueryDto.date);
+  }
+
+  /**
+   * 🔍 Buscar comidas registradas con filtros (Status: 200 OK)
+   *
+   * @route GET /meal-logs/search
+   * @query {number} [userId] - Filtrar por usuario
+   * @query {string} [mealType] - Filtrar por tipo (breakfast, lunch, dinner, snack)
+   * @query {string} [from] - Desde esta fecha (YYYY-MM-DD, inclusive)
+   * @query {string} [to] - Hasta esta fecha (YYYY-MM-DD, inclusive)
+   * @query {number} [foodId] - Comidas que incluyen este alimento
+   * @query {boolean} [isActive] - Filtrar por estado activo
+   * @query {number} [page] - Página (default: 1)
+   * @query {number} [limit] - Resultados por página (default: 20, máximo: 100)
+   * @query {string} [cursor] - nextCursor de la respuesta anterior (en lugar de page)
+   * @query {MealLogSortField} [sort] - date o createdAt (default: date)
+   * @query {SortDirection} [order] - asc o desc (default: desc)
+   * @returns {Promise<Paginated<MealLogResponseDto>>} Página de comidas que cumplen los criterios
+   * @status 200 - Búsqueda exitosa (con o sin resultados)
+   * @status 400 - Parámetros de búsqueda o de paginación inválidos
+   * @status 403 - Sin acceso a los datos de salud del usuario filtrado
+   *
+   * @example
+   * GET http://localhost:3000/meal-logs/search?userId=1&mealType=dinner
+   * GET http://localhost:3000/meal-logs/search?from=2025-01-13&to=2025-01-19
+   */
+  @Get('search')
+  async searchMealLogs(@Query() searchMealLogDto: SearchMealLogDto, @CurrentUser() currentUser: UserEntity): Promise<Paginated<MealLogResponseDto>> {
+    return await this.mealLogsService.search(searchMealLogDto, currentUser);
+  }
+
+  /**
+   * ➕ Registrar una nueva comida (Status: 201 Created)
+   *
+   * Si no se envía userId, la comida se registra para el usuario autenticado.
+   * Solo el propio usuario, su nutricionista asignado o un admin pueden registrarla.
+   *
+   * @route POST /meal-logs
+   * @body {CreateMealLogDto} createMealLogDto - Datos de la comida
+   * @returns {Promise<MealLogResponseDto>} La comida creada con sus totales
+   * @status 201 - Comida registrada exitosamente
+   * @status 400 - Datos inválidos (validación de DTO)
+   * @status 403 - Sin permisos sobre las comidas de ese usuario
+   * @status 404 - Usuario o alimento no encontrado
+   *
+   * @example
+   * POST http://localhost:3000/meal-logs
+   * Body: {
+   *   "date": "2025-01-15",
+   *   "mealType": "breakfast",
+   *   "items": [{ "foodId": 1, "quantity": 1.5 }, { "foodId": 3, "quantity": 1 }]
+   * }
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createMealLog(@Body() createMealLogDto: CreateMealLogDto, @CurrentUser() currentUser: UserEntity): Promise<MealLogResponseDto> {
+    return await this.mealLogsService.create(createMealLogDto, currentUser);
+  }
+
+  /**
+   * ✏️ Actualizar una comida registrada (Status: 200 OK)
+   *
+   * Si se envía items, reemplaza la lista completa de alimentos.
+   *
+   * @route PUT /meal-logs/:id
+   * @param {string} id - ID de la comida en la URL
+   * @body {UpdateMealLogDto} updateMealLogDto - Campos a actualizar
+   * @returns {Promise<MealLogResponseDto>} La comida actualizada con sus totales
+   * @status 200 - Comida actualizada exitosamente
+   * @status 400 - ID inválido o datos inválidos
+   * @status 403 - Sin permisos sobre esta comida
+   * @status 404 - Comida o alimento no encontrado
+   *
+   * @example
+   * PUT http://localhost:3000/meal-logs/1
+   * Body: { "mealType": "snack", "items": [{ "foodId": 2, "quantity": 1 }] }
+   */
+  @Put(':id')
+  async updateMealLog(@Param('id') id: string, @Body() updateMealLogDto: UpdateMealLogDto, @CurrentUser() currentUser: UserEntity): Promise<MealLogResponseDto> {
+    const mealLogId = parseInt(id);
+    return await this.mealLogsService.update(mealLogId, updateMealLogDto, currentUser);
+  }
+
+  /**
+   * 🗑️ Eliminar una comida registrada (Status: 200 OK)
+   *
+   * Eliminación lógica: deja de contar en los totales diarios.
+   *
+   * @route DELETE /meal-logs/:id
+   * @param {string} id - ID de la comida en la URL
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Comida eliminada exitosamente
+   * @status 400 - ID inválido
+   * @status 403 - Sin permisos sobre esta comida
+   * @status 404 - Comida no encontrada
+   * @status 409 - Comida ya estaba eliminada
+   *
+   * @example
+   * DELETE http://localhost:3000/meal-logs/1
+   * Response: { "message": "✅ Comida registrada con ID 1 eliminada exitosamente" }
+   */
+  @Delete(':id')
+  async deleteMealLog(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<{ message: string }> {
+    const mealLogId = parseInt(id);
+    const deletedMealLog = await this.mealLogsService.remove(mealLogId, currentUser);
+    return {
+      message: this.i18nService.translate('mealLogDeleted', { id: deletedMealLog.id }),
+    };
+  }
+
+  /**
+   * 🍽️ Obtener una comida registrada por ID (Status: 200 OK o 404 Not Found)
+   *
+   * @route GET /meal-logs/:id
+   * @param {string} id - ID de la comida en la URL
+   * @returns {Promise<MealLogResponseDto>} La comida con sus alimentos y totales
+   * @status 200 - Comida encontrada
+   * @status 400 - ID inválido (no es un número)
+   * @status 403 - Sin acceso a los datos de salud del propietario
+   * @status 404 - Comida no encontrada
+   *
+   * @example
+   * GET http://localhost:3000/meal-logs/1
+   */
+  @Get(':id') // Este decorador debe ir DESPUÉS de otros @Get más específicos
+  async getMealLogById(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<MealLogResponseDto> {
+    const mealLogId = parseInt(id);
+    return await this.mealLogsService.findOne(mealLogId, currentUser);
+  }
+}
@@ -0,0 +1,149 @@
+import { IsString, IsNumber, Min, Max, IsNotEmpty, IsOptional, IsBoolean, MaxLength } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+/**
+ * 📝 DTO para crear un nuevo alimento con validaciones automáticas
+ * Todos los valores nutricionales son por porción (servingSize + servingUnit)
+ */
+export class CreateFoodDto {
+  @IsString({ message: 'El nombre debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El nombre es obligatorio' })
+  @MaxLength(100, { message: 'El nombre debe tener como máximo 100 caracteres' })
+  name: string; // 📛 Nombre (obligatorio)
+
+  @IsOptional()
+  @IsString({ message: 'La marca debe ser una cadena de texto' })
+  @MaxLength(100, { message: 'La marca debe tener como máximo 100 caracteres' })
+  brand?: string; // 🏷️ Marca (opcional)
+
+  @IsNumber({}, { message: 'El tamaño de la porción debe ser un número' })
+  @Min(0.1, { message: 'El tamaño de la porción debe ser mayor a 0' })
+  servingSize: number; // ⚖️ Tamaño de la porción (obligatorio)
+
+  @IsOptional()
+  @IsString({ message: 'La unidad de la porción debe ser una cadena de texto' })
+  @MaxLength(20, { message: 'La unidad de la porción debe tener como máximo 20 caracteres' })
+  servingUnit?: string; // 📏 Unidad (opcional, default: 'g')
+
+  @IsNumber({}, { message: 'Las calorías deben ser un número' })
+  @Min(0, { message: 'Las calorías no pueden ser negativas' })
+  @Max(10000, { message: 'Las calorías deben ser menores o iguales a 10000 por porción' })
+  calories: number; // 🔥 kcal por porción (obligatorio)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'Las proteínas deben ser un número' })
+  @Min(0, { message: 'Las proteínas no pueden ser negativas' })
+  protein?: number; // 🥩 Proteínas en g (opcional, default: 0)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'Los carbohidratos deben ser un número' })
+  @Min(0, { message: 'Los carbohidratos no pueden ser negativos' })
+  carbs?: number; // 🍞 Carbohidratos en g (opcional, default: 0)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'Las grasas deben ser un número' })
+  @Min(0, { message: 'Las grasas no pueden ser negativas' })
+  fat?: number; // 🧈 Grasas en g (opcional, default: 0)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'La fibra debe ser un número' })
+  @Min(0, { message: 'La fibra no puede ser negativa' })
+  fiber?: number; // 🌾 Fibra en g (opcional, default: 0)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El sodio debe ser un número' })
+  @Min(0, { message: 'El sodio no puede ser negativo' })
+  sodium?: number; // 🧂 Sodio en mg (opcional, default: 0)
+}
+
+/**
+ * ✏️ DTO para actualizar un alimento existente con validaciones
+ * Todos los campos son opcionales (puedes actualizar solo lo que quieras)
+ */
+export class UpdateFoodDto {
+  @IsOptional()
+  @IsString({ message: 'El nombre debe ser una cadena de texto' })
+  @MaxLength(100, { message: 'El nombre debe tener como máximo 100 caracteres' })
+  name?: string; // 📛 Nombre (opcional)
+
+  @IsOptional()
+  @IsString({ message: 'La marca debe ser una cadena de texto' })
+  @MaxLength(100, { message: 'La marca debe tener como máximo 100 caracteres' })
+  brand?: string; // 🏷️ Marca (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El tamaño de la porción debe ser un número' })
+  @Min(0.1, { message: 'El tamaño de la porción debe ser mayor a 0' })
+  servingSize?: number; // ⚖️ Tamaño de la porción (opcional)
+
+  @IsOptional()
+  @IsString({ message: 'La unidad de la porción debe ser una cadena de texto' })
+  @MaxLength(20, { message: 'La unidad de la porción debe tener como máximo 20 caracteres' })
+  servingUnit?: string; // 📏 Unidad (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'Las calorías deben ser un número' })
+  @Min(0, { message: 'Las calorías no pueden ser negativas' })
+  @Max(10000, { message: 'Las calorías deben ser menores o iguales a 10000 por porción' })
+  calories?: number; // 🔥 kcal por porción (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'Las proteínas deben ser un número' })
+  @Min(0, { message: 'Las proteínas no pueden ser negativas' })
+  protein?: number; // 🥩 Proteínas en g (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'Los carbohidratos deben ser un número' })
+  @Min(0, { message: 'Los carbohidratos no pueden ser negativos' })
+  carbs?: number; // 🍞 Carbohidratos en g (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'Las grasas deben ser un número' })
+  @Min(0, { message: 'Las grasas no pueden ser negativas' })
+  fat?: number; // 🧈 Grasas en g (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'La fibra debe ser un número' })
+  @Min(0, { message: 'La fibra no puede ser negativa' })
+  fiber?: number; // 🌾 Fibra en g (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El sodio debe ser un número' })
+  @Min(0, { message: 'El sodio no puede ser negativo' })
+  sodium?: number; // 🧂 Sodio en mg (opcional)
+
+  @IsOptional()
+  @IsBoolean({ message: 'isActive debe ser true o false' })
+  isActive?: boolean; // ✅ Estado activo (opcional)
+}
+
+/**
+ * 🔍 DTO para búsqueda de alimentos con validaciones
+ * Define qué filtros podemos usar para buscar en el catálogo
+ */
+export class SearchFoodDto {
+  @IsOptional()
+  @IsString({ message: 'El nombre debe ser una cadena de texto' })
+  name?: string; // 📛 Nombre (opcional, búsqueda parcial)
+
+  @IsOptional()
+  @IsString({ message: 'La marca debe ser una cadena de texto' })
+  brand?: string; // 🏷️ Marca (opcional, búsqueda parcial)
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Las calorías máximas deben ser un número' })
+  @Min(0, { message: 'Las calorías máximas no pueden ser negativas' })
+  maxCalories?: number; // 🔥 Máximo de kcal por porción (opcional)
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Las proteínas mínimas deben ser un número' })
+  @Min(0, { message: 'Las proteínas mínimas no pueden ser negativas' })
+  minProtein?: number; // 🥩 Mínimo de proteínas por porción (opcional)
+
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean({ message: 'isActive debe ser true o false' })
+  isActive?: boolean; // ✅ Estado activo (opcional, se convierte automáticamente)
+}
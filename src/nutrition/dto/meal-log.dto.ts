@@ -0,0 +1,156 @@
+import { IsString, IsNumber, Min, Max, IsOptional, IsBoolean, IsEnum, IsArray, ArrayMinSize, ValidateNested, IsDateString } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { MealType, MealLogSortField } from '../interfaces/nutrition.interface';
+import type { NutritionTotals } from '../interfaces/nutrition.interface';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+
+/**
+ * 🥄 DTO de un alimento dentro de una comida
+ */
+export class MealLogItemDto {
+  @IsNumber({}, { message: 'El ID del alimento debe ser un número' })
+  @Min(1, { message: 'El ID del alimento debe ser mayor a 0' })
+  foodId: number; // 🥑 ID del alimento (obligatorio)
+
+  @IsNumber({}, { message: 'La cantidad debe ser un número' })
+  @Min(0.01, { message: 'La cantidad debe ser mayor a 0' })
+  @Max(100, { message: 'La cantidad debe ser menor o igual a 100 porciones' })
+  quantity: number; // 🔢 Porciones consumidas (obligatorio)
+}
+
+/**
+ * 📝 DTO para registrar una comida con validaciones automáticas
+ */
+export class CreateMealLogDto {
+  @IsDateString({ strict: true }, { message: 'La fecha debe tener formato YYYY-MM-DD' })
+  date: string; // 📅 Día de la comida (obligatorio)
+
+  @IsEnum(MealType, { message: 'El tipo de comida debe ser: breakfast, lunch, dinner o snack' })
+  mealType: MealType; // 🍳 Tipo de comida (obligatorio)
+
+  @IsOptional()
+  @IsString({ message: 'Las notas deben ser una cadena de texto' })
+  notes?: string; // 📝 Notas (opcional)
+
+  @IsArray({ message: 'Los alimentos deben ser un array' })
+  @ArrayMinSize(1, { message: 'La comida debe tener al menos un alimento' })
+  @ValidateNested({ each: true })
+  @Type(() => MealLogItemDto)
+  items: MealLogItemDto[]; // 🥑 Alimentos y cantidades (obligatorio, mínimo 1)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El ID del usuario debe ser un número' })
+  @Min(1, { message: 'El ID del usuario debe ser mayor a 0' })
+  userId?: number; // 👤 ID del usuario (opcional, por defecto: el usuario autenticado)
+}
+
+/**
+ * ✏️ DTO para actualizar una comida registrada
+ * Si se envía items, reemplaza la lista completa de alimentos
+ */
+export class UpdateMealLogDto {
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha debe tener formato YYYY-MM-DD' })
+  date?: string; // 📅 Día de la comida (opcional)
+
+  @IsOptional()
+  @IsEnum(MealType, { message: 'El tipo de comida debe ser: breakfast, lunch, dinner o snack' })
+  mealType?: MealType; // 🍳 Tipo de comida (opcional)
+
+  @IsOptional()
+  @IsString({ message: 'Las notas deben ser una cadena de texto' })
+  notes?: string; // 📝 Notas (opcional)
+
+  @IsOptional()
+  @IsArray({ message: 'Los alimentos deben ser un array' })
+  @ArrayMinSize(1, { message: 'La comida debe tener al menos un alimento' })
+  @ValidateNested({ each: true })
+  @Type(() => MealLogItemDto)
+  items?: MealLogItemDto[]; // 🥑 Alimentos y cantidades (opcional, reemplaza todos)
+
+  @IsOptional()
+  @IsBoolean({ message: 'isActive debe ser true o false' })
+  isActive?: boolean; // ✅ Estado activo (opcional)
+}
+
+/**
+ * 📄 DTO para listar comidas registradas con paginación y orden
+ */
+export class MealLogListQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsEnum(MealLogSortField, { message: 'El orden debe ser: date o createdAt' })
+  sort?: MealLogSortField; // 🏆 Campo de orden (opcional, default: date)
+}
+
+/**
+ * 🔍 DTO para búsqueda de comidas registradas con validaciones
+ */
+export class SearchMealLogDto extends MealLogListQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'El ID del usuario debe ser un número' })
+  @Min(1, { message: 'El ID del usuario debe ser mayor a 0' })
+  userId?: number; // 👤 ID del usuario (opcional)
+
+  @IsOptional()
+  @IsEnum(MealType, { message: 'El tipo de comida debe ser: breakfast, lunch, dinner o snack' })
+  mealType?: MealType; // 🍳 Tipo de comida (opcional)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha inicial debe tener formato YYYY-MM-DD' })
+  from?: string; // 📅 Desde (opcional, inclusive)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha final debe tener formato YYYY-MM-DD' })
+  to?: string; // 📅 Hasta (opcional, inclusive)
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'El ID del alimento debe ser un número' })
+  @Min(1, { message: 'El ID del alimento debe ser mayor a 0' })
+  foodId?: number; // 🥑 Comidas que incluyen este alimento (opcional)
+
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  @IsBoolean({ message: 'isActive debe ser true o false' })
+  isActive?: boolean; // ✅ Estado activo (opcional, se convierte automáticamente)
+}
+
+/**
+ * 📅 DTO para consultar comidas o totales de un día
+ */
+export class DailyQueryDto {
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha debe tener formato YYYY-MM-DD' })
+  date?: string; // 📅 Día a consultar (opcional, por defecto: hoy)
+}
+
+/**
+ * 📤 DTO de respuesta de un alimento dentro de una comida
+ */
+export class MealLogItemResponseDto {
+  id: number; // 🆔 ID del item
+  foodId: number; // 🥑 ID del alimento
+  foodName: string; // 📛 Nombre del alimento (con marca)
+  servingSize: number; // ⚖️ Tamaño de la porción
+  servingUnit: string; // 📏 Unidad de la porción
+  quantity: number; // 🔢 Porciones consumidas
+  nutrition: NutritionTotals; // 📊 Nutrientes del item
+}
+
+/**
+ * 📤 DTO de respuesta de una comida registrada
+ * Incluye los totales calculados en el servidor
+ */
+export class MealLogResponseDto {
+  id: number; // 🆔 ID de la comida
+  userId: number; // 👤 ID del usuario
+  date: string; // 📅 Día (YYYY-MM-DD)
+  mealType: MealType; // 🍳 Tipo de comida
+  notes?: string; // 📝 Notas (opcional)
+  isActive: boolean; // ✅ Estado activo
+  items: MealLogItemResponseDto[]; // 🥑 Alimentos consumidos
+  totals: NutritionTotals; // 📊 Totales de la comida
+  createdAt: Date; // 📅 Fecha de creación
+  updatedAt: Date; // 🔄 Fecha de actualización
+}
@@ -0,0 +1,138 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { NutritionTotals } from '../interfaces/nutrition.interface';
+
+/**
+ * 🥑 Entity de Alimento - Compatible con TypeORM
+ * Representa un alimento del catálogo con sus valores nutricionales por porción
+ * Esta clase define cómo se almacenan los datos en cualquier BD (SQLite, PostgreSQL, MySQL)
+ */
+@Entity('foods') // 📋 Nombre de la tabla en la BD
+export class FoodEntity {
+  /**
+   * 🆔 Identificador único del alimento
+   * Clave primaria, auto-incremental (funciona en SQLite, PostgreSQL, MySQL)
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 📛 Nombre del alimento
+   * Campo obligatorio, máximo 100 caracteres
+   * Ejemplos: "Pechuga de pollo", "Avena en hojuelas", "Yogur griego"
+   */
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  /**
+   * 🏷️ Marca comercial (opcional)
+   * Vacío para alimentos genéricos
+   */
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  brand?: string;
+
+  /**
+   * ⚖️ Tamaño de la porción de referencia
+   * Todos los valores nutricionales están expresados por esta porción
+   */
+  @Column({ type: 'float' })
+  servingSize: number;
+
+  /**
+   * 📏 Unidad de la porción
+   * Ejemplos: "g", "ml", "unidad"
+   */
+  @Column({ type: 'varchar', length: 20, default: 'g' })
+  servingUnit: string;
+
+  /**
+   * 🔥 Energía por porción (kcal)
+   */
+  @Column({ type: 'float' })
+  calories: number;
+
+  /**
+   * 🥩 Proteínas por porción (g)
+   */
+  @Column({ type: 'float', default: 0 })
+  protein: number;
+
+  /**
+   * 🍞 Carbohidratos por porción (g)
+   */
+  @Column({ type: 'float', default: 0 })
+  carbs: number;
+
+  /**
+   * 🧈 Grasas por porción (g)
+   */
+  @Column({ type: 'float', default: 0 })
+  fat: number;
+
+  /**
+   * 🌾 Fibra por porción (g)
+   */
+  @Column({ type: 'float', default: 0 })
+  fiber: number;
+
+  /**
+   * 🧂 Sodio por porción (mg)
+   */
+  @Column({ type: 'float', default: 0 })
+  sodium: number;
+
+  /**
+   * ✅ Estado activo del alimento
+   * true = disponible en el catálogo, false = eliminado
+   */
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  /**
+   * 📅 Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * 🔄 Fecha de última actualización
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 🏗️ Constructor de la entity
+   * Permite crear una instancia con valores iniciales
+   */
+  constructor(partial: Partial<FoodEntity> = {}) {
+    Object.assign(this, partial);
+
+    // Valores por defecto si no se proporcionan
+    this.isActive = this.isActive ?? true;
+    this.servingUnit = this.servingUnit ?? 'g';
+    this.createdAt = this.createdAt ?? new Date();
+    this.updatedAt = this.updatedAt ?? new Date();
+  }
+
+  /**
+   * 🧮 Método para calcular los nutrientes de una cantidad de porciones
+   * @param quantity - Número de porciones (ej: 1.5)
+   */
+  getNutritionFor(quantity: number): NutritionTotals {
+    return {
+      calories: this.calories * quantity,
+      protein: this.protein * quantity,
+      carbs: this.carbs * quantity,
+      fat: this.fat * quantity,
+      fiber: this.fiber * quantity,
+      sodium: this.sodium * quantity,
+    };
+  }
+
+  /**
+   * 📛 Método para obtener el nombre con la marca
+   * Ejemplo: "Yogur griego (Danone)"
+   */
+  getDisplayName(): string {
+    return this.brand ? `${this.name} (${this.brand})` : this.name;
+  }
+}
@@ -0,0 +1,60 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { FoodEntity } from './food.entity';
+import { MealLogEntity } from './meal-log.entity';
+import { NutritionTotals } from '../interfaces/nutrition.interface';
+
+/**
+ * 🥄 Entity de Alimento de una Comida - Compatible con TypeORM
+ * Une una comida registrada con un alimento del catálogo y su cantidad
+ */
+@Entity('meal_log_items') // 📋 Nombre de la tabla en la BD
+export class MealLogItemEntity {
+  /**
+   * 🆔 Identificador único del item
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 🔢 Cantidad consumida, en porciones del alimento
+   * Ejemplo: 1.5 = porción y media
+   */
+  @Column({ type: 'float' })
+  quantity: number;
+
+  /**
+   * 🍽️ Relación con la comida a la que pertenece
+   * Si se elimina la comida o se quita el item de la lista, se elimina el item (Many-to-One)
+   */
+  @ManyToOne(() => MealLogEntity, (mealLog) => mealLog.items, { onDelete: 'CASCADE', orphanedRowAction: 'delete' })
+  @JoinColumn({ name: 'meal_log_id' })
+  mealLog: MealLogEntity;
+
+  /**
+   * 🔗 ID de la comida (clave foránea)
+   */
+  @Column({ name: 'meal_log_id' })
+  mealLogId: number;
+
+  /**
+   * 🥑 Relación con el alimento del catálogo (Many-to-One)
+   */
+  @ManyToOne(() => FoodEntity)
+  @JoinColumn({ name: 'food_id' })
+  food: FoodEntity;
+
+  /**
+   * 🔗 ID del alimento (clave foránea)
+   */
+  @Column({ name: 'food_id' })
+  foodId: number;
+
+  /**
+   * 📊 Método para calcular los nutrientes del item
+   * Requiere que el alimento se haya cargado (relations)
+   */
+  getNutrition(): NutritionTotals {
+    return this.food.getNutritionFor(this.quantity);
+  }
+}
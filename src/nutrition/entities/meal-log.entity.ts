@@ -0,0 +1,120 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, OneToMany, JoinColumn } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { MealLogItemEntity } from './meal-log-item.entity';
+import { MealType, NutritionTotals } from '../interfaces/nutrition.interface';
+
+/**
+ * 🍽️ Entity de Registro de Comida - Compatible con TypeORM
+ * Representa una comida (desayuno, almuerzo, cena o snack) de un usuario en un día
+ * Los alimentos consumidos y sus cantidades están en MealLogItemEntity
+ */
+@Entity('meal_logs') // 📋 Nombre de la tabla en la BD
+export class MealLogEntity {
+  /**
+   * 🆔 Identificador único del registro
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 📅 Día de la comida (YYYY-MM-DD)
+   * Se guarda como fecha sin hora para agrupar por día
+   */
+  @Column({ type: 'date' })
+  date: string;
+
+  /**
+   * 🍳 Tipo de comida
+   * breakfast, lunch, dinner o snack
+   */
+  @Column({ type: 'varchar', enum: MealType })
+  mealType: MealType;
+
+  /**
+   * 📝 Notas de la comida (opcional)
+   */
+  @Column({ type: 'text', nullable: true })
+  notes?: string;
+
+  /**
+   * ✅ Estado activo del registro
+   * true = activo, false = eliminado (eliminación lógica)
+   */
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  /**
+   * 🥑 Alimentos consumidos en la comida
+   * Una comida tiene varios alimentos con su cantidad (One-to-Many)
+   */
+  @OneToMany(() => MealLogItemEntity, (item) => item.mealLog, { cascade: true })
+  items: MealLogItemEntity[];
+
+  /**
+   * 👤 Relación con el usuario propietario
+   * Una comida pertenece a un usuario (Many-to-One)
+   */
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'user_id' })
+  user: UserEntity;
+
+  /**
+   * 🔗 ID del usuario propietario (clave foránea)
+   */
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  /**
+   * 📅 Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * 🔄 Fecha de última actualización
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 🏗️ Constructor de la entity
+   * Permite crear una instancia con valores iniciales
+   */
+  constructor(partial: Partial<MealLogEntity> = {}) {
+    Object.assign(this, partial);
+
+    // Valores por defecto si no se proporcionan
+    this.isActive = this.isActive ?? true;
+    this.createdAt = this.createdAt ?? new Date();
+    this.updatedAt = this.updatedAt ?? new Date();
+  }
+
+  /**
+   * 📊 Método para calcular los totales nutricionales de la comida
+   * Requiere que los items se hayan cargado con su alimento (relations)
+   */
+  getTotals(): NutritionTotals {
+    const totals: NutritionTotals = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sodium: 0 };
+
+    for (const item of this.items ?? []) {
+      const nutrition = item.getNutrition();
+      totals.calories += nutrition.calories;
+      totals.protein += nutrition.protein;
+      totals.carbs += nutrition.carbs;
+      totals.fat += nutrition.fat;
+      totals.fiber += nutrition.fiber;
+      totals.sodium += nutrition.sodium;
+    }
+
+    return totals;
+  }
+
+  /**
+   * ❌ Método para desactivar el registro (eliminación lógica)
+   */
+  deactivate(): void {
+    this.isActive = false;
+    this.updatedAt = new Date();
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * 🍽️ Enumeración de tipos de comida
+ * Define en qué momento del día se registró la comida
+ */
+export enum MealType {
+  BREAKFAST = 'breakfast', // 🌅 Desayuno
+  LUNCH = 'lunch', // 🍲 Almuerzo
+  DINNER = 'dinner', // 🌙 Cena
+  SNACK = 'snack', // 🍎 Snack / merienda
+}
+
+/**
+ * 🏆 Enumeración de campos de orden de los listados de comidas registradas
+ */
+export enum MealLogSortField {
+  DATE = 'date', // 📅 Día de la comida (y hora de registro)
+  CREATED_AT = 'createdAt', // 🕒 Fecha de registro
+}
+
+/**
+ * 📊 Interface de totales nutricionales
+ * Se usa para un alimento en una cantidad, una comida o un día completo
+ */
+export interface NutritionTotals {
+  calories: number; // 🔥 Energía (kcal)
+  protein: number; // 🥩 Proteínas (g)
+  carbs: number; // 🍞 Carbohidratos (g)
+  fat: number; // 🧈 Grasas (g)
+  fiber: number; // 🌾 Fibra (g)
+  sodium: number; // 🧂 Sodio (mg)
+}
+
+/**
+ * 📅 Interface del resumen nutricional diario de un usuario
+ * Calculado en el servidor a partir de las comidas registradas
+ */
+export interface DailyNutritionSummary {
+  userId: number; // 👤 ID del usuario
+  date: string; // 📅 Día del resumen (YYYY-MM-DD)
+  mealCount: number; // 🍽️ Número de comidas registradas
+  totals: NutritionTotals; // 📊 Totales del día
+  byMealType: Record<MealType, NutritionTotals>; // 🍳 Totales por tipo de comida
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { FoodsController } from './controllers/foods.controller';
+import { MealLogsController } from './controllers/meal-logs.controller';
+import { FoodsService } from './services/foods.service';
+import { MealLogsService } from './services/meal-logs.service';
+import { FoodEntity } from './entities/food.entity';
+import { MealLogEntity } from './entities/meal-log.entity';
+import { MealLogItemEntity } from './entities/meal-log-item.entity';
+import { UserEntity } from '../users/entities/user.entity';
+
+/**
+ * 📦 Módulo de nutrición
+ * Agrupa toda la funcionalidad relacionada con la alimentación:
+ * - Catálogo de alimentos con sus valores nutricionales
+ * - Registro de comidas (diario) con alimentos y cantidades
+ * - Cálculo de totales nutricionales por comida y por día
+ * - Relación con UserEntity para validaciones y referencias
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([FoodEntity, MealLogEntity, MealLogItemEntity, UserEntity]), // 🗄️ Registrar los repositorios necesarios
+  ],
+  controllers: [FoodsController, MealLogsController],
+  providers: [FoodsService, MealLogsService],
+  exports: [FoodsService, MealLogsService], // Exporta los servicios para ser usados en otros módulos
+})
+export class NutritionModule {}
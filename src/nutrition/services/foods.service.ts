@@ -0,0 +1,277 @@
+import { Injectable, NotFoundException, ConflictException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, LessThanOrEqual, MoreThanOrEqual, IsNull } from 'typeorm';
+import { FoodEntity } from '../entities/food.entity';
+import { CreateFoodDto, UpdateFoodDto, SearchFoodDto } from '../dto/food.dto';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+import { QueryFiltersService } from '../../common/services/query-filters.service';
+
+/**
+ * 🥑 Servicio de alimentos - Lógica de negocio con Base de Datos
+ *
+ * Este servicio maneja el catálogo de alimentos y sus valores nutricionales.
+ * Incluye operaciones CRUD y validaciones de negocio específicas.
+ * Usa TypeORM Repository pattern para persistencia escalable.
+ *
+ * @class FoodsService
+ * @description Gestiona el catálogo de alimentos
+ */
+@Injectable()
+export class FoodsService {
+  private readonly logger = new Logger(FoodsService.name);
+
+  /**
+   * Constructor del servicio
+   * @param foodRepository - Repositorio para FoodEntity
+   * @param queryFiltersService - Búsquedas parciales (LIKE escapado) por nombre y marca
+   */
+  constructor(
+    @InjectRepository(FoodEntity)
+    private readonly foodRepository: Repository<FoodEntity>,
+    private readonly queryFiltersService: QueryFiltersService,
+  ) {}
+
+  /**
+   * 📋 Obtener todos los alimentos activos desde la BD
+   *
+   * @returns {Promise<FoodEntity[]>} Lista de alimentos activos ordenados por nombre
+   * @example
+   * const alimentos = await foodsService.findAll();
+   * alimentos.forEach(a => console.log(a.getDisplayName()));
+   */
+  async findAll(): Promise<FoodEntity[]> {
+    this.logger.log('📋 Obteniendo alimentos activos desde la base de datos...');
+
+    return await this.foodRepository.find({
+      where: { isActive: true },
+      order: { name: 'ASC' },
+    });
+  }
+
+  /**
+   * 🔍 Buscar alimentos con filtros en la BD
+   *
+   * Los filtros se aplican de forma dinámica según los parámetros proporcionados.
+   *
+   * @param {SearchFoodDto} searchFoodDto - Criterios de búsqueda
+   * @returns {Promise<FoodEntity[]>} Alimentos que cumplen los criterios
+   *
+   * @example
+   * // Alimentos con al menos 20 g de proteína y máximo 200 kcal por porción
+   * const magros = await foodsService.search({ minProtein: 20, maxCalories: 200 });
+   */
+  async search(searchFoodDto: SearchFoodDto): Promise<FoodEntity[]> {
+    this.logger.log('🔍 Buscando alimentos con filtros en la BD', searchFoodDto);
+
+    // Construir condiciones WHERE dinámicamente
+    const whereConditions: Record<string, any> = {};
+
+    // Filtrar por nombre (búsqueda parcial)
+    if (searchFoodDto.name) {
+      whereConditions.name = this.queryFiltersService.likeContains('name', searchFoodDto.name);
+    }
+
+    // Filtrar por marca (búsqueda parcial)
+    if (searchFoodDto.brand) {
+      whereConditions.brand = this.queryFiltersService.likeContains('brand', searchFoodDto.brand);
+    }
+
+    // Filtrar por calorías máximas por porción
+    if (searchFoodDto.maxCalories !== undefined) {
+      whereConditions.calories = LessThanOrEqual(searchFoodDto.maxCalories);
+    }
+
+    // Filtrar por proteínas mínimas por porción
+    if (searchFoodDto.minProtein !== undefined) {
+      whereConditions.protein = MoreThanOrEqual(searchFoodDto.minProtein);
+    }
+
+    // Filtrar por estado activo
+    if (searchFoodDto.isActive !== undefined) {
+      whereConditions.isActive = searchFoodDto.isActive;
+    }
+
+    return await this.foodRepository.find({
+      where: whereConditions,
+      order: { name: 'ASC' },
+    });
+  }
+
+  /**
+   * 🥑 Obtener un alimento por ID desde la BD
+   *
+   * @param {number} id - ID único del alimento
+   * @returns {Promise<FoodEntity>} El alimento encontrado
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si el alimento no existe
+   *
+   * @example
+   * const avena = await foodsService.findOne(1);
+   * console.log(avena.getNutritionFor(2).calories);
+   */
+  async findOne(id: number): Promise<FoodEntity> {
+    this.logger.log(`🔍 Buscando alimento con ID: ${id} en la BD`);
+
+    // Validar que el ID sea un número válido
+    if (isNaN(id)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const food = await this.foodRepository.findOne({
+      where: { id },
+    });
+
+    if (!food) {
+      throw new NotFoundException({ code: ErrorCode.FOOD_NOT_FOUND, message: `Alimento con ID ${id} no encontrado`, params: { id } });
+    }
+
+    return food;
+  }
+
+  /**
+   * ➕ Crear un nuevo alimento en la BD
+   *
+   * Valida que no exista otro alimento activo con el mismo nombre y marca.
+   *
+   * @param {CreateFoodDto} createFoodDto - Datos del nuevo alimento
+   * @returns {Promise<FoodEntity>} El alimento recién creado
+   * @throws {ConflictException} Si ya existe un alimento con ese nombre y marca
+   *
+   * @example
+   * const avena = await foodsService.create({
+   *   name: 'Avena en hojuelas',
+   *   servingSize: 40,
+   *   calories: 150,
+   *   protein: 5,
+   *   carbs: 27,
+   *   fat: 3,
+   *   fiber: 4
+   * });
+   */
+  async create(createFoodDto: CreateFoodDto): Promise<FoodEntity> {
+    this.logger.log('➕ Creando nuevo alimento en la BD', createFoodDto);
+
+    const name = createFoodDto.name.trim();
+    const brand = createFoodDto.brand?.trim() || undefined;
+
+    await this.validateUniqueFood(name, brand);
+
+    // Crear el alimento con valores por defecto para los nutrientes opcionales
+    const food = this.foodRepository.create({
+      name,
+      brand,
+      servingSize: createFoodDto.servingSize,
+      servingUnit: createFoodDto.servingUnit?.trim() || 'g',
+      calories: createFoodDto.calories,
+      protein: createFoodDto.protein ?? 0,
+      carbs: createFoodDto.carbs ?? 0,
+      fat: createFoodDto.fat ?? 0,
+      fiber: createFoodDto.fiber ?? 0,
+      sodium: createFoodDto.sodium ?? 0,
+      isActive: true,
+    });
+
+    const savedFood = await this.foodRepository.save(food);
+    this.logger.log(`✅ Alimento creado exitosamente en la BD con ID: ${savedFood.id}`);
+
+    return savedFood;
+  }
+
+  /**
+   * ✏️ Actualizar un alimento existente en la BD
+   *
+   * Actualiza solo los campos proporcionados (actualización parcial).
+   * Los cambios afectan a los totales de las comidas que ya usan el alimento.
+   *
+   * @param {number} id - ID del alimento a actualizar
+   * @param {UpdateFoodDto} updateFoodDto - Campos a actualizar
+   * @returns {Promise<FoodEntity>} El alimento actualizado
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si el alimento no existe
+   * @throws {ConflictException} Si el nuevo nombre y marca ya existen
+   *
+   * @example
+   * const avena = await foodsService.update(1, { calories: 152 });
+   */
+  async update(id: number, updateFoodDto: UpdateFoodDto): Promise<FoodEntity> {
+    this.logger.log(`✏️ Actualizando alimento ID ${id} en la BD`, updateFoodDto);
+
+    const food = await this.findOne(id);
+
+    // Validar duplicados solo si cambia el nombre o la marca
+    if (updateFoodDto.name !== undefined || updateFoodDto.brand !== undefined) {
+      const name = updateFoodDto.name?.trim() ?? food.name;
+      const brand = updateFoodDto.brand !== undefined ? updateFoodDto.brand.trim() || undefined : food.brand;
+      await this.validateUniqueFood(name, brand, id);
+      food.name = name;
+      food.brand = brand;
+    }
+
+    // Actualizar solo los campos proporcionados
+    if (updateFoodDto.servingSize !== undefined) food.servingSize = updateFoodDto.servingSize;
+    if (updateFoodDto.servingUnit !== undefined) food.servingUnit = updateFoodDto.servingUnit.trim();
+    if (updateFoodDto.calories !== undefined) food.calories = updateFoodDto.calories;
+    if (updateFoodDto.protein !== undefined) food.protein = updateFoodDto.protein;
+    if (updateFoodDto.carbs !== undefined) food.carbs = updateFoodDto.carbs;
+    if (updateFoodDto.fat !== undefined) food.fat = updateFoodDto.fat;
+    if (updateFoodDto.fiber !== undefined) food.fiber = updateFoodDto.fiber;
+    if (updateFoodDto.sodium !== undefined) food.sodium = updateFoodDto.sodium;
+    if (updateFoodDto.isActive !== undefined) food.isActive = updateFoodDto.isActive;
+
+    const updatedFood = await this.foodRepository.save(food);
+    this.logger.log(`✅ Alimento ID ${id} actualizado exitosamente en la BD`);
+
+    return updatedFood;
+  }
+
+  /**
+   * 🗑️ Eliminar un alimento (eliminación lógica) en la BD
+   *
+   * Las comidas ya registradas conservan la referencia al alimento.
+   *
+   * @param {number} id - ID del alimento a eliminar
+   * @returns {Promise<FoodEntity>} El alimento marcado como eliminado
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si el alimento no existe
+   * @throws {ConflictException} Si el alimento ya estaba eliminado
+   *
+   * @example
+   * const eliminado = await foodsService.remove(1);
+   * console.log(eliminado.isActive); // false
+   */
+  async remove(id: number): Promise<FoodEntity> {
+    this.logger.log(`🗑️ Eliminando alimento ID ${id} en la BD`);
+
+    const food = await this.findOne(id);
+
+    if (!food.isActive) {
+      throw new ConflictException({ code: ErrorCode.FOOD_ALREADY_DELETED, message: `Alimento con ID ${id} ya estaba eliminado`, params: { id } });
+    }
+
+    // Eliminación lógica: cambiar isActive a false
+    food.isActive = false;
+    const deletedFood = await this.foodRepository.save(food);
+
+    this.logger.log(`✅ Alimento ID ${id} eliminado exitosamente en la BD`);
+    return deletedFood;
+  }
+
+  /**
+   * 🏷️ Método privado para validar que no haya otro alimento activo con el mismo nombre y marca
+   *
+   * @param {string} name - Nombre del alimento
+   * @param {string} [brand] - Marca del alimento (undefined = genérico)
+   * @param {number} [excludeId] - ID a ignorar (el propio alimento al actualizar)
+   * @throws {ConflictException} Si ya existe
+   * @private
+   */
+  private async validateUniqueFood(name: string, brand?: string, excludeId?: number): Promise<void> {
+    const existingFood = await this.foodRepository.findOne({
+      where: { name, brand: brand ?? IsNull(), isActive: true },
+    });
+
+    if (existingFood && existingFood.id !== excludeId) {
+      throw new ConflictException({ code: ErrorCode.FOOD_NAME_TAKEN, message: `Ya existe un alimento activo llamado "${existingFood.getDisplayName()}"`, params: { name: existingFood.getDisplayName() } });
+    }
+  }
+}
@@ -0,0 +1,572 @@
+import { Injectable, NotFoundException, ConflictException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, Between, LessThanOrEqual, MoreThanOrEqual } from 'typeorm';
+import { MealLogEntity } from '../entities/meal-log.entity';
+import { MealLogItemEntity } from '../entities/meal-log-item.entity';
+import { FoodEntity } from '../entities/food.entity';
+import { CreateMealLogDto, UpdateMealLogDto, SearchMealLogDto, MealLogListQueryDto, MealLogItemDto, MealLogResponseDto } from '../dto/meal-log.dto';
+import { MealType, MealLogSortField, NutritionTotals, DailyNutritionSummary } from '../interfaces/nutrition.interface';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserStatus } from '../../users/interfaces/user.interface';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { PaginationService } from '../../common/services/pagination.service';
+import { SortDirection } from '../../common/interfaces/pagination.interface';
+import type { Paginated, SortFieldDefinition } from '../../common/interfaces/pagination.interface';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 🏆 Campos de orden permitidos en los listados de comidas registradas (el ID siempre desempata)
+ */
+const MEAL_LOG_SORT_FIELDS: Record<MealLogSortField, SortFieldDefinition> = {
+  [MealLogSortField.DATE]: { columns: ['date', 'createdAt'], defaultOrder: SortDirection.DESC },
+  [MealLogSortField.CREATED_AT]: { columns: ['createdAt'], defaultOrder: SortDirection.DESC },
+};
+
+/**
+ * 🍽️ Servicio de comidas registradas - Lógica de negocio con Base de Datos
+ *
+ * Este servicio maneja el registro de comidas de los usuarios y calcula
+ * en el servidor los totales nutricionales (por comida y por día).
+ * Usa TypeORM Repository pattern para persistencia escalable.
+ *
+ * @class MealLogsService
+ * @description Gestiona el diario de comidas de los usuarios
+ */
+@Injectable()
+export class MealLogsService {
+  private readonly logger = new Logger(MealLogsService.name);
+
+  /**
+   * Constructor del servicio
+   * @param mealLogRepository - Repositorio para MealLogEntity
+   * @param mealLogItemRepository - Repositorio para MealLogItemEntity
+   * @param foodRepository - Repositorio para validar alimentos
+   * @param userRepository - Repositorio para validar usuarios
+   * @param accessControlService - Reglas de propiedad (quién gestiona qué comidas)
+   * @param paginationService - Orden, paginación y sobre estándar de los listados
+   */
+  constructor(
+    @InjectRepository(MealLogEntity)
+    private readonly mealLogRepository: Repository<MealLogEntity>,
+    @InjectRepository(MealLogItemEntity)
+    private readonly mealLogItemRepository: Repository<MealLogItemEntity>,
+    @InjectRepository(FoodEntity)
+    private readonly foodRepository: Repository<FoodEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    private readonly accessControlService: AccessControlService,
+    private readonly paginationService: PaginationService,
+  ) {}
+
+  /**
+   * 📋 Obtener las comidas activas desde la BD (paginado)
+   *
+   * Solo incluye las comidas de los usuarios cuyos datos de salud puede ver
+   * el usuario autenticado: las suyas y las de sus clientes (todas si es admin).
+   *
+   * @param {MealLogListQueryDto} queryDto - Página o cursor, tamaño y orden (default: las más recientes primero)
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<Paginated<MealLogResponseDto>>} Página de comidas activas con el total
+   * @throws {BadRequestException} Si se envían page y cursor a la vez o el cursor no es válido
+   * @example
+   * const pagina = await mealLogsService.findAll({ limit: 50 }, currentUser);
+   */
+  async findAll(queryDto: MealLogListQueryDto, currentUser: UserEntity): Promise<Paginated<MealLogResponseDto>> {
+    this.logger.log('📋 Obteniendo comidas registradas activas desde la base de datos...', queryDto);
+
+    const accessibleOwnerIds = await this.findAccessibleOwnerIds(currentUser);
+
+    const queryBuilder = this.mealLogRepository.createQueryBuilder('mealLog').where({ isActive: true, ...(accessibleOwnerIds && { userId: In(accessibleOwnerIds) }) });
+
+    const page = await this.paginationService.paginate(queryBuilder, queryDto, { fields: MEAL_LOG_SORT_FIELDS, defaultSort: MealLogSortField.DATE });
+    return await this.mapPageToResponseDto(page);
+  }
+
+  /**
+   * 👤 Obtener las comidas de un usuario, opcionalmente de un solo día
+   *
+   * @param {number} userId - ID del usuario propietario
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {string} [date] - Día a consultar (YYYY-MM-DD)
+   * @returns {Promise<MealLogResponseDto[]>} Comidas del usuario
+   * @throws {ForbiddenException} Si no es el propietario, uno de sus profesionales asignados ni admin
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   *
+   * @example
+   * const comidasHoy = await mealLogsService.findByUserId(1, currentUser, '2025-01-15');
+   */
+  async findByUserId(userId: number, currentUser: UserEntity, date?: string): Promise<MealLogResponseDto[]> {
+    this.logger.log(`👤 Obteniendo comidas registradas del usuario ${userId}...`);
+
+    // Validar permisos: son datos de salud (propietario, sus profesionales asignados o admin)
+    await this.accessControlService.assertCanAccessHealthDataOf(currentUser, userId);
+
+    // Validar que el usuario existe y está activo
+    await this.validateUserExists(userId);
+
+    const mealLogs = await this.mealLogRepository.find({
+      where: { userId, isActive: true, ...(date && { date }) },
+      relations: { items: { food: true } },
+      order: { date: 'DESC', createdAt: 'ASC' },
+    });
+
+    return mealLogs.map((mealLog) => this.mapToResponseDto(mealLog));
+  }
+
+  /**
+   * 📊 Calcular el resumen nutricional de un usuario en un día
+   *
+   * Suma los nutrientes de todas las comidas activas del día, en total
+   * y desglosado por tipo de comida.
+   *
+   * @param {number} userId - ID del usuario
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @param {string} [date] - Día a resumir (YYYY-MM-DD, por defecto: hoy en la zona horaria del usuario)
+   * @returns {Promise<DailyNutritionSummary>} Totales del día
+   * @throws {ForbiddenException} Si no es el propietario, uno de sus profesionales asignados ni admin
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   *
+   * @example
+   * const resumen = await mealLogsService.getDailyTotals(1, currentUser, '2025-01-15');
+   * console.log(resumen.totals.calories); // 2150
+   */
+  async getDailyTotals(userId: number, currentUser: UserEntity, date?: string): Promise<DailyNutritionSummary> {
+    // Validar permisos: son datos de salud (propietario, sus profesionales asignados o admin)
+    await this.accessControlService.assertCanAccessHealthDataOf(currentUser, userId);
+
+    // Validar que el usuario existe y está activo
+    const owner = await this.validateUserExists(userId);
+
+    const day = date ?? owner.getLocalDate(); // "Hoy" es el día del propietario, no el UTC
+    this.logger.log(`📊 Calculando totales nutricionales del usuario ${userId} para el ${day}...`);
+
+    const mealLogs = await this.mealLogRepository.find({
+      where: { userId, date: day, isActive: true },
+      relations: { items: { food: true } },
+    });
+
+    const byMealType = {} as Record<MealType, NutritionTotals>;
+    for (const mealType of Object.values(MealType)) {
+      byMealType[mealType] = this.emptyTotals();
+    }
+
+    const totals = this.emptyTotals();
+    for (const mealLog of mealLogs) {
+      const mealTotals = mealLog.getTotals();
+      this.addTotals(totals, mealTotals);
+      this.addTotals(byMealType[mealLog.mealType], mealTotals);
+    }
+
+    return {
+      userId,
+      date: day,
+      mealCount: mealLogs.length,
+      totals: this.roundTotals(totals),
+      byMealType: Object.fromEntries(Object.entries(byMealType).map(([mealType, mealTotals]) => [mealType, this.roundTotals(mealTotals)])) as Record<MealType, NutritionTotals>,
+    };
+  }
+
+  /**
+   * 🔍 Buscar comidas registradas con filtros en la BD
+   *
+   * Solo busca entre las comidas de los usuarios cuyos datos de salud puede
+   * ver el usuario autenticado; filtrar por otro usuario responde 403.
+   *
+   * @param {SearchMealLogDto} searchMealLogDto - Criterios de búsqueda, paginación y orden
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<Paginated<MealLogResponseDto>>} Página de comidas que cumplen los criterios con el total
+   * @throws {BadRequestException} Si se envían page y cursor a la vez o el cursor no es válido
+   * @throws {ForbiddenException} Si filtra por un usuario cuyos datos de salud no puede ver
+   *
+   * @example
+   * // Cenas de un usuario en una semana
+   * const cenas = await mealLogsService.search({ userId: 1, mealType: MealType.DINNER, from: '2025-01-13', to: '2025-01-19', limit: 10 }, currentUser);
+   */
+  async search(searchMealLogDto: SearchMealLogDto, currentUser: UserEntity): Promise<Paginated<MealLogResponseDto>> {
+    this.logger.log('🔍 Buscando comidas registradas con filtros en la BD', searchMealLogDto);
+
+    // Construir condiciones WHERE dinámicamente
+    const whereConditions: Record<string, any> = {};
+
+    // Filtrar por usuario propietario (o limitar a los usuarios accesibles)
+    if (searchMealLogDto.userId) {
+      await this.accessControlService.assertCanAccessHealthDataOf(currentUser, searchMealLogDto.userId);
+      whereConditions.userId = searchMealLogDto.userId;
+    } else {
+      const accessibleOwnerIds = await this.findAccessibleOwnerIds(currentUser);
+      if (accessibleOwnerIds) {
+        whereConditions.userId = In(accessibleOwnerIds);
+      }
+    }
+
+    // Filtrar por tipo de comida
+    if (searchMealLogDto.mealType) {
+      whereConditions.mealType = searchMealLogDto.mealType;
+    }
+
+    // Filtrar por rango de fechas (inclusive)
+    if (searchMealLogDto.from && searchMealLogDto.to) {
+      whereConditions.date = Between(searchMealLogDto.from, searchMealLogDto.to);
+    } else if (searchMealLogDto.from) {
+      whereConditions.date = MoreThanOrEqual(searchMealLogDto.from);
+    } else if (searchMealLogDto.to) {
+      whereConditions.date = LessThanOrEqual(searchMealLogDto.to);
+    }
+
+    // Filtrar comidas que incluyen un alimento concreto
+    if (searchMealLogDto.foodId) {
+      const items = await this.mealLogItemRepository.find({
+        where: { foodId: searchMealLogDto.foodId },
+        select: { mealLogId: true },
+      });
+      whereConditions.id = In(items.map((item) => item.mealLogId));
+    }
+
+    // Filtrar por estado activo
+    if (searchMealLogDto.isActive !== undefined) {
+      whereConditions.isActive = searchMealLogDto.isActive;
+    }
+
+    const queryBuilder = this.mealLogRepository.createQueryBuilder('mealLog').where(whereConditions);
+
+    const page = await this.paginationService.paginate(queryBuilder, searchMealLogDto, { fields: MEAL_LOG_SORT_FIELDS, defaultSort: MealLogSortField.DATE });
+    return await this.mapPageToResponseDto(page);
+  }
+
+  /**
+   * 🍽️ Obtener una comida registrada por ID desde la BD
+   *
+   * @param {number} id - ID único de la comida
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<MealLogResponseDto>} La comida con sus alimentos y totales
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propietario, uno de sus profesionales asignados ni admin
+   * @throws {NotFoundException} Si la comida no existe
+   *
+   * @example
+   * const comida = await mealLogsService.findOne(1, currentUser);
+   * console.log(comida.totals.calories);
+   */
+  async findOne(id: number, currentUser: UserEntity): Promise<MealLogResponseDto> {
+    this.logger.log(`🔍 Buscando comida registrada con ID: ${id} en la BD`);
+
+    const mealLog = await this.findMealLogEntity(id);
+    await this.accessControlService.assertCanAccessHealthDataOf(currentUser, mealLog.userId);
+
+    return this.mapToResponseDto(mealLog);
+  }
+
+  /**
+   * ➕ Registrar una nueva comida en la BD
+   *
+   * Crea la comida después de validar que:
+   * 1. El usuario autenticado pueda gestionar las comidas del propietario
+   * 2. El usuario exista y esté activo
+   * 3. Todos los alimentos existan y estén activos
+   *
+   * @param {CreateMealLogDto} createMealLogDto - Datos de la comida
+   * @param {UserEntity} currentUser - Usuario autenticado (propietario por defecto)
+   * @returns {Promise<MealLogResponseDto>} La comida creada con sus totales
+   * @throws {ForbiddenException} Si no es el propietario, su nutricionista ni admin
+   * @throws {NotFoundException} Si el usuario o algún alimento no existen
+   *
+   * @example
+   * const desayuno = await mealLogsService.create({
+   *   date: '2025-01-15',
+   *   mealType: MealType.BREAKFAST,
+   *   items: [{ foodId: 1, quantity: 1.5 }, { foodId: 3, quantity: 1 }]
+   * }, currentUser);
+   */
+  async create(createMealLogDto: CreateMealLogDto, currentUser: UserEntity): Promise<MealLogResponseDto> {
+    this.logger.log('➕ Registrando nueva comida en la BD', createMealLogDto);
+
+    // Si no se indica usuario, la comida es del usuario autenticado
+    const userId = createMealLogDto.userId ?? currentUser.id;
+
+    // Validar permisos: propietario, nutricionista asignado o admin
+    await this.accessControlService.assertCanManageNutritionOf(currentUser, userId);
+
+    // Validar que el usuario existe y está activo
+    await this.validateUserExists(userId);
+
+    const items = await this.buildItems(createMealLogDto.items);
+
+    const mealLog = this.mealLogRepository.create({
+      date: createMealLogDto.date,
+      mealType: createMealLogDto.mealType,
+      notes: createMealLogDto.notes?.trim(),
+      userId,
+      isActive: true,
+      items,
+    });
+
+    const savedMealLog = await this.mealLogRepository.save(mealLog);
+    this.logger.log(`✅ Comida registrada exitosamente en la BD con ID: ${savedMealLog.id}`);
+
+    return this.findOne(savedMealLog.id, currentUser);
+  }
+
+  /**
+   * ✏️ Actualizar una comida registrada en la BD
+   *
+   * Actualiza solo los campos proporcionados. Si se envía items,
+   * reemplaza la lista completa de alimentos de la comida.
+   *
+   * @param {number} id - ID de la comida a actualizar
+   * @param {UpdateMealLogDto} updateMealLogDto - Campos a actualizar
+   * @param {UserEntity} currentUser - Usuario autenticado que realiza el cambio
+   * @returns {Promise<MealLogResponseDto>} La comida actualizada con sus totales
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propietario, su nutricionista ni admin
+   * @throws {NotFoundException} Si la comida o algún alimento no existen
+   *
+   * @example
+   * const comida = await mealLogsService.update(1, { items: [{ foodId: 2, quantity: 2 }] }, currentUser);
+   */
+  async update(id: number, updateMealLogDto: UpdateMealLogDto, currentUser: UserEntity): Promise<MealLogResponseDto> {
+    this.logger.log(`✏️ Actualizando comida registrada ID ${id} en la BD`, updateMealLogDto);
+
+    const mealLog = await this.findMealLogEntity(id);
+
+    // Validar permisos: propietario, nutricionista asignado o admin
+    await this.accessControlService.assertCanManageNutritionOf(currentUser, mealLog.userId);
+
+    // Actualizar solo los campos proporcionados
+    if (updateMealLogDto.date !== undefined) mealLog.date = updateMealLogDto.date;
+    if (updateMealLogDto.mealType !== undefined) mealLog.mealType = updateMealLogDto.mealType;
+    if (updateMealLogDto.notes !== undefined) mealLog.notes = updateMealLogDto.notes?.trim();
+    if (updateMealLogDto.isActive !== undefined) mealLog.isActive = updateMealLogDto.isActive;
+
+    // Reemplazar los alimentos: los items que ya no están en la lista se eliminan al guardar
+    if (updateMealLogDto.items) {
+      mealLog.items = await this.buildItems(updateMealLogDto.items);
+    }
+
+    await this.mealLogRepository.save(mealLog);
+    this.logger.log(`✅ Comida registrada ID ${id} actualizada exitosamente en la BD`);
+
+    return this.findOne(id, currentUser);
+  }
+
+  /**
+   * 🗑️ Eliminar una comida registrada (eliminación lógica) en la BD
+   *
+   * @param {number} id - ID de la comida a eliminar
+   * @param {UserEntity} currentUser - Usuario autenticado que realiza la eliminación
+   * @returns {Promise<MealLogResponseDto>} La comida marcada como eliminada
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propietario, su nutricionista ni admin
+   * @throws {NotFoundException} Si la comida no existe
+   * @throws {ConflictException} Si la comida ya estaba eliminada
+   *
+   * @example
+   * const eliminada = await mealLogsService.remove(1, currentUser);
+   * console.log(eliminada.isActive); // false
+   */
+  async remove(id: number, currentUser: UserEntity): Promise<MealLogResponseDto> {
+    this.logger.log(`🗑️ Eliminando comida registrada ID ${id} en la BD`);
+
+    const mealLog = await this.findMealLogEntity(id);
+
+    // Validar permisos: propietario, nutricionista asignado o admin
+    await this.accessControlService.assertCanManageNutritionOf(currentUser, mealLog.userId);
+
+    if (!mealLog.isActive) {
+      throw new ConflictException({ code: ErrorCode.MEAL_LOG_ALREADY_DELETED, message: `Comida registrada con ID ${id} ya estaba eliminada`, params: { id } });
+    }
+
+    // Eliminación lógica: cambiar isActive a false
+    mealLog.deactivate();
+    const deletedMealLog = await this.mealLogRepository.save(mealLog);
+
+    this.logger.log(`✅ Comida registrada ID ${id} eliminada exitosamente en la BD`);
+    return this.mapToResponseDto(deletedMealLog);
+  }
+
+  /**
+   * 🔍 Método privado para cargar una comida con sus alimentos
+   *
+   * @param {number} id - ID de la comida
+   * @returns {Promise<MealLogEntity>} La comida con items y alimentos cargados
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si la comida no existe
+   * @private
+   */
+  private async findMealLogEntity(id: number): Promise<MealLogEntity> {
+    // Validar que el ID sea un número válido
+    if (isNaN(id)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const mealLog = await this.mealLogRepository.findOne({
+      where: { id },
+      relations: { items: { food: true } },
+    });
+
+    if (!mealLog) {
+      throw new NotFoundException({ code: ErrorCode.MEAL_LOG_NOT_FOUND, message: `Comida registrada con ID ${id} no encontrada`, params: { id } });
+    }
+
+    return mealLog;
+  }
+
+  /**
+   * 📄 Método privado para convertir una página de comidas al DTO de respuesta
+   * Los alimentos se cargan después de paginar (el listado no hace join con colecciones)
+   *
+   * @param {Paginated<MealLogEntity>} page - Página de comidas sin sus alimentos
+   * @returns {Promise<Paginated<MealLogResponseDto>>} La misma página con alimentos y totales
+   * @private
+   */
+  private async mapPageToResponseDto(page: Paginated<MealLogEntity>): Promise<Paginated<MealLogResponseDto>> {
+    if (page.items.length === 0) {
+      return { ...page, items: [] };
+    }
+
+    const mealLogs = await this.mealLogRepository.find({
+      where: { id: In(page.items.map((mealLog) => mealLog.id)) },
+      relations: { items: { food: true } },
+    });
+    const mealLogsById = new Map(mealLogs.map((mealLog) => [mealLog.id, mealLog]));
+
+    return { ...page, items: page.items.map((mealLog) => this.mapToResponseDto(mealLogsById.get(mealLog.id) ?? mealLog)) };
+  }
+
+  /**
+   * 🥄 Método privado para construir los items de una comida
+   *
+   * Valida que todos los alimentos existan y estén activos.
+   *
+   * @param {MealLogItemDto[]} itemDtos - Alimentos y cantidades recibidos
+   * @returns {Promise<MealLogItemEntity[]>} Items listos para guardar (con su alimento)
+   * @throws {NotFoundException} Si algún alimento no existe o no está activo
+   * @private
+   */
+  private async buildItems(itemDtos: MealLogItemDto[]): Promise<MealLogItemEntity[]> {
+    const foodIds = [...new Set(itemDtos.map((item) => item.foodId))];
+    const foods = await this.foodRepository.find({
+      where: { id: In(foodIds), isActive: true },
+    });
+
+    const foodsById = new Map(foods.map((food) => [food.id, food]));
+    const missingIds = foodIds.filter((foodId) => !foodsById.has(foodId));
+
+    if (missingIds.length > 0) {
+      throw new NotFoundException({ code: ErrorCode.FOODS_NOT_FOUND, message: `Alimentos no encontrados o no activos: ${missingIds.join(', ')}`, params: { ids: missingIds.join(', ') } });
+    }
+
+    return itemDtos.map((itemDto) =>
+      this.mealLogItemRepository.create({
+        foodId: itemDto.foodId,
+        food: foodsById.get(itemDto.foodId),
+        quantity: itemDto.quantity,
+      }),
+    );
+  }
+
+  /**
+   * 🩺 Método privado para obtener los propietarios de comidas que puede ver el usuario autenticado
+   *
+   * Las comidas son datos de salud: de entre los usuarios con comidas
+   * registradas, solo él mismo y sus clientes (AccessControlService).
+   *
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<number[] | undefined>} IDs de los propietarios accesibles (undefined si es admin: sin límite)
+   * @private
+   */
+  private async findAccessibleOwnerIds(currentUser: UserEntity): Promise<number[] | undefined> {
+    if (currentUser.isAdmin()) {
+      return undefined;
+    }
+
+    const owners = await this.mealLogRepository.createQueryBuilder('mealLog').select('DISTINCT mealLog.userId', 'userId').getRawMany<{ userId: number }>();
+    const accessibleIds = await this.accessControlService.findHealthDataAccessibleIds(
+      currentUser,
+      owners.map((owner) => Number(owner.userId)),
+    );
+
+    return [...accessibleIds];
+  }
+
+  /**
+   * 👤 Método privado para validar que un usuario existe y está activo
+   *
+   * @param {number} userId - ID del usuario a validar
+   * @returns {Promise<UserEntity>} El usuario encontrado
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   * @private
+   */
+  private async validateUserExists(userId: number): Promise<UserEntity> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId, status: UserStatus.ACTIVE },
+    });
+
+    if (!user) {
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${userId} no encontrado o no está activo`, params: { id: userId } });
+    }
+
+    return user;
+  }
+
+  /**
+   * 🔄 Método privado para convertir MealLogEntity a MealLogResponseDto
+   *
+   * Calcula los nutrientes de cada item y los totales de la comida.
+   *
+   * @param {MealLogEntity} mealLog - Comida con items y alimentos cargados
+   * @returns {MealLogResponseDto} Comida con totales calculados
+   * @private
+   */
+  private mapToResponseDto(mealLog: MealLogEntity): MealLogResponseDto {
+    return {
+      id: mealLog.id,
+      userId: mealLog.userId,
+      date: mealLog.date,
+      mealType: mealLog.mealType,
+      notes: mealLog.notes,
+      isActive: mealLog.isActive,
+      items: (mealLog.items ?? []).map((item) => ({
+        id: item.id,
+        foodId: item.foodId,
+        foodName: item.food.getDisplayName(),
+        servingSize: item.food.servingSize,
+        servingUnit: item.food.servingUnit,
+        quantity: item.quantity,
+        nutrition: this.roundTotals(item.getNutrition()),
+      })),
+      totals: this.roundTotals(mealLog.getTotals()),
+      createdAt: mealLog.createdAt,
+      updatedAt: mealLog.updatedAt,
+    };
+  }
+
+  /**
+   * 🧮 Métodos privados de apoyo para sumar y redondear totales nutricionales
+   * @private
+   */
+  private emptyTotals(): NutritionTotals {
+    return { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sodium: 0 };
+  }
+
+  private addTotals(target: NutritionTotals, source: NutritionTotals): void {
+    target.calories += source.calories;
+    target.protein += source.protein;
+    target.carbs += source.carbs;
+    target.fat += source.fat;
+    target.fiber += source.fiber;
+    target.sodium += source.sodium;
+  }
+
+  private roundTotals(totals: NutritionTotals): NutritionTotals {
+    const round = (value: number) => Math.round(value * 10) / 10;
+
+    return {
+      calories: round(totals.calories),
+      protein: round(totals.protein),
+      carbs: round(totals.carbs),
+      fat: round(totals.fat),
+      fiber: round(totals.fiber),
+      sodium: round(totals.sodium),
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ScheduleQueryDto } from '../dto/training-program.dto';
+import type { UserSchedule } from '../interfaces/training-program.interface';
+import { ScheduleService } from '../services/schedule.service';
+import { UserEntity } from '../../users/entities/user.entity';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+
+/**
+ * 🗓️ Controlador del calendario de entrenamientos - Endpoints de la API REST
+ *
+ * Resuelve qué entrenamiento toca cada fecha: el del programa en el que
+ * está inscrito el usuario (con la progresión aplicada) o, si no sigue
+ * ninguno, el de su plantilla semanal.
+ *
+ * @class ScheduleController
+ * @description Controlador REST para el calendario de un usuario
+ */
+@Controller('users') // Prefijo de ruta: /users
+export class ScheduleController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param scheduleService - Servicio que calcula el calendario
+   */
+  constructor(private readonly scheduleService: ScheduleService) {}
+
+  /**
+   * 🗓️ Obtener el calendario de entrenamientos de un usuario (Status: 200 OK)
+   *
+   * @route GET /users/:id/schedule
+   * @param {string} id - ID del usuario en la URL
+   * @query {string} [from] - Desde (YYYY-MM-DD, default: hoy en la zona horaria del usuario)
+   * @query {string} [to] - Hasta (YYYY-MM-DD, default: 6 días después de from; máximo 92 días)
+   * @returns {Promise<UserSchedule>} Un elemento por fecha con sus entrenamientos
+   * @status 200 - Calendario calculado
+   * @status 400 - Fechas inválidas o rango demasiado largo
+   * @status 403 - Sin permisos sobre los entrenamientos de ese usuario
+   * @status 404 - Usuario no encontrado o no activo
+   *
+   * @example
+   * GET http://localhost:3000/users/1/schedule?from=2025-02-03&to=2025-02-09
+   */
+  @Get(':id/schedule')
+  async getSchedule(@Param('id') id: string, @Query() queryDto: ScheduleQueryDto, @CurrentUser() currentUser: UserEntity): Promise<UserSchedule> {
+    const userId = parseInt(id);
+    return await this.scheduleService.getSchedule(userId, queryDto, currentUser);
+  }
+}
@@ -0,0 +1,212 @@
+import { Controller, Get, Post, Put, Delete, Param, Body, HttpStatus, HttpCode } from '@nestjs/common';
+import { CreateTrainingProgramDto, UpdateTrainingProgramDto, EnrollProgramDto } from '../dto/training-program.dto';
+import { TrainingProgramEntity } from '../entities/training-program.entity';
+import { ProgramEnrollmentEntity } from '../entities/program-enrollment.entity';
+import { TrainingProgramsService } from '../services/training-programs.service';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserRole } from '../../users/interfaces/user.interface';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { I18nService } from '../../i18n/services/i18n.service';
+
+/**
+ * 📆 Controlador de programas de entrenamiento - Endpoints de la API REST
+ *
+ * Este controlador gestiona los programas de varias semanas (bloques con
+ * fases, semanas de descarga y progresión) y las inscripciones de los usuarios.
+ * Los días de cada semana se crean en /workout-days con programWeekId.
+ *
+ * @class TrainingProgramsController
+ * @description Controlador REST para programas de entrenamiento
+ */
+@Controller('training-programs') // Prefijo de ruta: /training-programs
+export class TrainingProgramsController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param trainingProgramsService - Servicio con la lógica de negocio
+   * @param i18nService - Mensajes de respuesta en el idioma de la petición
+   */
+  constructor(
+    private readonly trainingProgramsService: TrainingProgramsService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * 📋 Obtener todos los programas activos (Status: 200 OK)
+   *
+   * @route GET /training-programs
+   * @returns {Promise<TrainingProgramEntity[]>} Programas activos con sus semanas
+   * @status 200 - Lista obtenida exitosamente
+   *
+   * @example
+   * GET http://localhost:3000/training-programs
+   */
+  @Get()
+  async getAllPrograms(): Promise<TrainingProgramEntity[]> {
+    return await this.trainingProgramsService.findAll();
+  }
+
+  /**
+   * 👤 Obtener las inscripciones activas de un usuario (Status: 200 OK)
+   *
+   * @route GET /training-programs/enrollments/user/:userId
+   * @param {string} userId - ID del usuario en la URL
+   * @returns {Promise<ProgramEnrollmentEntity[]>} Inscripciones con su programa
+   * @status 200 - Inscripciones encontradas (con o sin resultados)
+   * @status 403 - Sin permisos sobre los entrenamientos de ese usuario
+   * @status 404 - Usuario no encontrado o no activo
+   *
+   * @example
+   * GET http://localhost:3000/training-programs/enrollments/user/1
+   */
+  @Get('enrollments/user/:userId')
+  async getEnrollmentsByUser(@Param('userId') userId: string, @CurrentUser() currentUser: UserEntity): Promise<ProgramEnrollmentEntity[]> {
+    const userIdNumber = parseInt(userId);
+    return await this.trainingProgramsService.findEnrollmentsByUserId(userIdNumber, currentUser);
+  }
+
+  /**
+   * ➕ Crear un programa de entrenamiento (Status: 201 Created)
+   *
+   * Se crean las semanas 1..durationWeeks; weeks solo configura fases y descargas.
+   *
+   * @route POST /training-programs
+   * @body {CreateTrainingProgramDto} createDto - Datos del programa
+   * @returns {Promise<TrainingProgramEntity>} El programa creado con sus semanas
+   * @status 201 - Programa creado
+   * @status 400 - Datos inválidos o semanas fuera de la duración
+   * @status 403 - Solo administradores y entrenadores
+   *
+   * @example
+   * POST http://localhost:3000/training-programs
+   * Body: {
+   *   "name": "Fuerza 12 semanas",
+   *   "durationWeeks": 12,
+   *   "progression": { "type": "weight", "value": 2.5 },
+   *   "weeks": [{ "weekNumber": 4, "isDeload": true }, { "weekNumber": 5, "phaseName": "Fuerza" }]
+   * }
+   */
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.TRAINER) // 🏋️ Solo administradores y entrenadores
+  @HttpCode(HttpStatus.CREATED)
+  async createProgram(@Body() createDto: CreateTrainingProgramDto, @CurrentUser() currentUser: UserEntity): Promise<TrainingProgramEntity> {
+    return await this.trainingProgramsService.create(createDto, currentUser);
+  }
+
+  /**
+   * 📝 Inscribir a un usuario en un programa (Status: 201 Created)
+   *
+   * @route POST /training-programs/:id/enrollments
+   * @param {string} id - ID del programa en la URL
+   * @body {EnrollProgramDto} enrollDto - Fecha de inicio y usuario (default: el autenticado)
+   * @returns {Promise<ProgramEnrollmentEntity>} La inscripción creada
+   * @status 201 - Usuario inscrito
+   * @status 400 - Datos inválidos
+   * @status 403 - Sin permisos sobre los entrenamientos de ese usuario
+   * @status 404 - Programa o usuario no encontrado o no activo
+   * @status 409 - El usuario ya sigue otro programa en esas fechas
+   *
+   * @example
+   * POST http://localhost:3000/training-programs/1/enrollments
+   * Body: { "startDate": "2025-02-03", "userId": 5 }
+   */
+  @Post(':id/enrollments')
+  @HttpCode(HttpStatus.CREATED)
+  async enroll(@Param('id') id: string, @Body() enrollDto: EnrollProgramDto, @CurrentUser() currentUser: UserEntity): Promise<ProgramEnrollmentEntity> {
+    const programId = parseInt(id);
+    return await this.trainingProgramsService.enroll(programId, enrollDto, currentUser);
+  }
+
+  /**
+   * ✏️ Actualizar un programa de entrenamiento (Status: 200 OK)
+   *
+   * @route PUT /training-programs/:id
+   * @param {string} id - ID del programa en la URL
+   * @body {UpdateTrainingProgramDto} updateDto - Campos a actualizar
+   * @returns {Promise<TrainingProgramEntity>} El programa actualizado
+   * @status 200 - Programa actualizado
+   * @status 400 - ID inválido o datos inválidos
+   * @status 403 - Solo el autor del programa o un administrador
+   * @status 404 - Programa no encontrado
+   *
+   * @example
+   * PUT http://localhost:3000/training-programs/1
+   * Body: { "progression": { "type": "percent", "value": 5 } }
+   */
+  @Put(':id')
+  @Roles(UserRole.ADMIN, UserRole.TRAINER) // 🏋️ Solo administradores y entrenadores
+  async updateProgram(@Param('id') id: string, @Body() updateDto: UpdateTrainingProgramDto, @CurrentUser() currentUser: UserEntity): Promise<TrainingProgramEntity> {
+    const programId = parseInt(id);
+    return await this.trainingProgramsService.update(programId, updateDto, currentUser);
+  }
+
+  /**
+   * ❌ Cancelar una inscripción (Status: 200 OK)
+   *
+   * @route DELETE /training-programs/enrollments/:id
+   * @param {string} id - ID de la inscripción en la URL
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Inscripción cancelada
+   * @status 400 - ID inválido
+   * @status 403 - Sin permisos sobre los entrenamientos de ese usuario
+   * @status 404 - Inscripción no encontrada
+   * @status 409 - La inscripción ya estaba cancelada
+   *
+   * @example
+   * DELETE http://localhost:3000/training-programs/enrollments/1
+   * Response: { "message": "✅ Inscripción al programa \"Fuerza 12 semanas\" cancelada exitosamente" }
+   */
+  @Delete('enrollments/:id')
+  async cancelEnrollment(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<{ message: string }> {
+    const enrollmentId = parseInt(id);
+    const cancelledEnrollment = await this.trainingProgramsService.cancelEnrollment(enrollmentId, currentUser);
+    return {
+      message: this.i18nService.translate('programEnrollmentCancelled', { program: cancelledEnrollment.program.name }),
+    };
+  }
+
+  /**
+   * 🗑️ Eliminar un programa de entrenamiento (Status: 200 OK)
+   *
+   * @route DELETE /training-programs/:id
+   * @param {string} id - ID del programa en la URL
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Programa eliminado exitosamente
+   * @status 400 - ID inválido
+   * @status 403 - Solo el autor del programa o un administrador
+   * @status 404 - Programa no encontrado
+   * @status 409 - Programa ya estaba eliminado
+   *
+   * @example
+   * DELETE http://localhost:3000/training-programs/1
+   * Response: { "message": "✅ Programa \"Fuerza 12 semanas\" eliminado exitosamente" }
+   */
+  @Delete(':id')
+  @Roles(UserRole.ADMIN, UserRole.TRAINER) // 🏋️ Solo administradores y entrenadores
+  async deleteProgram(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<{ message: string }> {
+    const programId = parseInt(id);
+    const deletedProgram = await this.trainingProgramsService.remove(programId, currentUser);
+    return {
+      message: this.i18nService.translate('trainingProgramDeleted', { name: deletedProgram.name }),
+    };
+  }
+
+  /**
+   * 📆 Obtener un programa por ID (Status: 200 OK o 404 Not Found)
+   *
+   * @route GET /training-programs/:id
+   * @param {string} id - ID del programa en la URL
+   * @returns {Promise<TrainingProgramEntity>} El programa con sus semanas y los días de cada semana
+   * @status 200 - Programa encontrado
+   * @status 400 - ID inválido (no es un número)
+   * @status 404 - Programa no encontrado
+   *
+   * @example
+   * GET http://localhost:3000/training-programs/1
+   */
+  @Get(':id') // Este decorador debe ir DESPUÉS de otros @Get más específicos
+  async getProgramById(@Param('id') id: string): Promise<TrainingProgramEntity> {
+    const programId = parseInt(id);
+    return await this.trainingProgramsService.findOne(programId);
+  }
+}
@@ -0,0 +1,123 @@
+import { IsString, IsNotEmpty, IsNumber, IsInt, Min, Max, MaxLength, IsOptional, IsBoolean, IsEnum, IsArray, ValidateNested, IsDateString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ProgressionType } from '../interfaces/training-program.interface';
+
+/**
+ * 📈 DTO de la regla de progresión semanal
+ */
+export class ProgressionRuleDto {
+  @IsEnum(ProgressionType, { message: 'El tipo de progresión debe ser: weight o percent' })
+  type: ProgressionType; // 📈 Tipo de progresión (obligatorio)
+
+  @IsNumber({}, { message: 'El valor de la progresión debe ser un número' })
+  @Min(0, { message: 'El valor de la progresión no puede ser negativo' })
+  @Max(50, { message: 'El valor de la progresión debe ser menor o igual a 50 (kg o %) por semana' })
+  value: number; // ➕ kg o % por semana (obligatorio)
+}
+
+/**
+ * 📆 DTO de una semana del programa (fase y descarga)
+ */
+export class ProgramWeekDto {
+  @IsInt({ message: 'El número de semana debe ser un número entero' })
+  @Min(1, { message: 'El número de semana debe ser al menos 1' })
+  @Max(52, { message: 'El número de semana debe ser menor o igual a 52' })
+  weekNumber: number; // 🔢 Semana a configurar (obligatorio)
+
+  @IsOptional()
+  @IsString({ message: 'La fase debe ser una cadena de texto' })
+  @MaxLength(50, { message: 'La fase debe tener como máximo 50 caracteres' })
+  phaseName?: string; // 🧱 Nombre de la fase (opcional)
+
+  @IsOptional()
+  @IsBoolean({ message: 'isDeload debe ser true o false' })
+  isDeload?: boolean; // 🪶 Semana de descarga (opcional, default: false)
+}
+
+/**
+ * 📝 DTO para crear un programa de entrenamiento con validaciones automáticas
+ * Las semanas 1..durationWeeks se crean siempre; weeks solo configura fases y descargas
+ */
+export class CreateTrainingProgramDto {
+  @IsString({ message: 'El nombre debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El nombre es obligatorio' })
+  @MaxLength(100, { message: 'El nombre debe tener como máximo 100 caracteres' })
+  name: string; // 📛 Nombre (obligatorio)
+
+  @IsOptional()
+  @IsString({ message: 'La descripción debe ser una cadena de texto' })
+  description?: string; // 📝 Descripción (opcional)
+
+  @IsInt({ message: 'La duración debe ser un número entero de semanas' })
+  @Min(1, { message: 'La duración debe ser de al menos 1 semana' })
+  @Max(52, { message: 'La duración debe ser de como máximo 52 semanas' })
+  durationWeeks: number; // 🔢 Duración en semanas (obligatorio)
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProgressionRuleDto)
+  progression?: ProgressionRuleDto; // 📈 Progresión semanal (opcional)
+
+  @IsOptional()
+  @IsArray({ message: 'Las semanas deben ser un array' })
+  @ValidateNested({ each: true })
+  @Type(() => ProgramWeekDto)
+  weeks?: ProgramWeekDto[]; // 📆 Fases y descargas por semana (opcional)
+}
+
+/**
+ * ✏️ DTO para actualizar un programa de entrenamiento
+ * La duración no se puede cambiar una vez creado
+ */
+export class UpdateTrainingProgramDto {
+  @IsOptional()
+  @IsString({ message: 'El nombre debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El nombre no puede estar vacío' })
+  @MaxLength(100, { message: 'El nombre debe tener como máximo 100 caracteres' })
+  name?: string; // 📛 Nombre (opcional)
+
+  @IsOptional()
+  @IsString({ message: 'La descripción debe ser una cadena de texto' })
+  description?: string; // 📝 Descripción (opcional)
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProgressionRuleDto)
+  progression?: ProgressionRuleDto | null; // 📈 Progresión semanal (opcional, null para quitarla)
+
+  @IsOptional()
+  @IsArray({ message: 'Las semanas deben ser un array' })
+  @ValidateNested({ each: true })
+  @Type(() => ProgramWeekDto)
+  weeks?: ProgramWeekDto[]; // 📆 Fases y descargas a cambiar (opcional)
+
+  @IsOptional()
+  @IsBoolean({ message: 'isActive debe ser true o false' })
+  isActive?: boolean; // ✅ Estado activo (opcional)
+}
+
+/**
+ * 📝 DTO para inscribir a un usuario en un programa
+ */
+export class EnrollProgramDto {
+  @IsDateString({ strict: true }, { message: 'La fecha de inicio debe tener formato YYYY-MM-DD' })
+  startDate: string; // 📅 Día en que empieza la semana 1 (obligatorio)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El ID del usuario debe ser un número' })
+  @Min(1, { message: 'El ID del usuario debe ser mayor a 0' })
+  userId?: number; // 👤 ID del usuario (opcional, por defecto: el usuario autenticado)
+}
+
+/**
+ * 🗓️ DTO para consultar el calendario de entrenamientos de un usuario
+ */
+export class ScheduleQueryDto {
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha inicial debe tener formato YYYY-MM-DD' })
+  from?: string; // 📅 Desde (opcional, default: hoy en la zona horaria del usuario)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha final debe tener formato YYYY-MM-DD' })
+  to?: string; // 📅 Hasta (opcional, default: 6 días después de from)
+}
@@ -0,0 +1,69 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { TrainingProgramEntity } from './training-program.entity';
+
+/**
+ * 📝 Entity de Inscripción a Programa - Compatible con TypeORM
+ * Un usuario sigue un programa a partir de una fecha de inicio.
+ * La semana 1 del programa empieza ese día
+ */
+@Entity('program_enrollments') // 📋 Nombre de la tabla en la BD
+export class ProgramEnrollmentEntity {
+  /**
+   * 🆔 Identificador único de la inscripción
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 📅 Fecha de inicio del programa (YYYY-MM-DD)
+   */
+  @Column({ type: 'date' })
+  startDate: string;
+
+  /**
+   * ✅ Estado activo de la inscripción
+   * true = activa, false = cancelada (eliminación lógica)
+   */
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  /**
+   * 📋 Relación con el programa (Many-to-One)
+   */
+  @ManyToOne(() => TrainingProgramEntity)
+  @JoinColumn({ name: 'program_id' })
+  program: TrainingProgramEntity;
+
+  /**
+   * 🔗 ID del programa (clave foránea)
+   */
+  @Column({ name: 'program_id' })
+  programId: number;
+
+  /**
+   * 👤 Relación con el usuario inscrito (Many-to-One)
+   */
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'user_id' })
+  user: UserEntity;
+
+  /**
+   * 🔗 ID del usuario inscrito (clave foránea)
+   */
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  /**
+   * 📅 Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * 🔄 Fecha de última actualización
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
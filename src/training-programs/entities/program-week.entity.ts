@@ -0,0 +1,58 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, OneToMany, JoinColumn } from 'typeorm';
+import { TrainingProgramEntity } from './training-program.entity';
+import { WorkoutDayEntity } from '../../workout-days/entities/workout-day.entity';
+
+/**
+ * 📆 Entity de Semana de Programa - Compatible con TypeORM
+ * Una semana de un programa de entrenamiento, con su fase y sus días de entrenamiento.
+ * Si una semana no tiene días propios, repite los de la semana anterior (con progresión)
+ */
+@Entity('program_weeks') // 📋 Nombre de la tabla en la BD
+export class ProgramWeekEntity {
+  /**
+   * 🆔 Identificador único de la semana
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 🔢 Número de semana dentro del programa (1 = primera)
+   */
+  @Column({ type: 'int' })
+  weekNumber: number;
+
+  /**
+   * 🧱 Nombre de la fase (opcional)
+   * Ej: 'Acumulación', 'Intensificación', 'Pico'
+   */
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  phaseName?: string;
+
+  /**
+   * 🪶 Semana de descarga
+   * Los pesos objetivo se reducen y la progresión no avanza
+   */
+  @Column({ type: 'boolean', default: false })
+  isDeload: boolean;
+
+  /**
+   * 📋 Relación con el programa
+   * Si se elimina el programa, se eliminan sus semanas (Many-to-One)
+   */
+  @ManyToOne(() => TrainingProgramEntity, (program) => program.weeks, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'program_id' })
+  program: TrainingProgramEntity;
+
+  /**
+   * 🔗 ID del programa (clave foránea)
+   */
+  @Column({ name: 'program_id' })
+  programId: number;
+
+  /**
+   * 🏋️ Días de entrenamiento propios de esta semana (One-to-Many)
+   */
+  @OneToMany(() => WorkoutDayEntity, (workoutDay) => workoutDay.programWeek)
+  workoutDays: WorkoutDayEntity[];
+}
@@ -0,0 +1,91 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, OneToMany, JoinColumn } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { ProgramWeekEntity } from './program-week.entity';
+import type { ProgressionRule } from '../interfaces/training-program.interface';
+
+/**
+ * 📋 Entity de Programa de Entrenamiento - Compatible con TypeORM
+ * Un bloque de varias semanas (ej: 12 semanas con descargas) con una regla
+ * de progresión semanal. Cada semana tiene sus propios días de entrenamiento
+ */
+@Entity('training_programs') // 📋 Nombre de la tabla en la BD
+export class TrainingProgramEntity {
+  /**
+   * 🆔 Identificador único del programa
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 📛 Nombre del programa
+   * Ej: 'Fuerza 12 semanas'
+   */
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  /**
+   * 📝 Descripción del programa (opcional)
+   */
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  /**
+   * 🔢 Duración del programa en semanas
+   */
+  @Column({ type: 'int' })
+  durationWeeks: number;
+
+  /**
+   * 📈 Regla de progresión semanal (opcional)
+   * Ej: { type: 'weight', value: 2.5 } o { type: 'percent', value: 5 }
+   */
+  @Column({ type: 'simple-json', nullable: true })
+  progression?: ProgressionRule | null;
+
+  /**
+   * ✅ Estado activo del programa
+   * true = activo, false = eliminado (eliminación lógica)
+   */
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  /**
+   * 📆 Semanas del programa, de la 1 a durationWeeks (One-to-Many)
+   */
+  @OneToMany(() => ProgramWeekEntity, (week) => week.program, { cascade: true })
+  weeks: ProgramWeekEntity[];
+
+  /**
+   * ✍️ Relación con el autor del programa (entrenador o admin) (Many-to-One)
+   */
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'created_by_id' })
+  createdBy: UserEntity;
+
+  /**
+   * 🔗 ID del autor (clave foránea)
+   */
+  @Column({ name: 'created_by_id' })
+  createdById: number;
+
+  /**
+   * 📅 Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * 🔄 Fecha de última actualización
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 📆 Método para obtener una semana por su número
+   * Requiere que las semanas se hayan cargado (relations)
+   */
+  getWeek(weekNumber: number): ProgramWeekEntity | undefined {
+    return (this.weeks ?? []).find((week) => week.weekNumber === weekNumber);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * 📈 Enumeración de tipos de progresión semanal de un programa
+ */
+export enum ProgressionType {
+  WEIGHT = 'weight', // 🏋️ Sumar kg al peso objetivo cada semana (ej: +2.5 kg)
+  PERCENT = 'percent', // 📊 Subir un % la intensidad (peso objetivo) cada semana (ej: +5%)
+}
+
+/**
+ * 📈 Interface de la regla de progresión de un programa
+ * Se aplica a los pesos objetivo por cada semana de carga transcurrida
+ */
+export interface ProgressionRule {
+  type: ProgressionType; // 📈 Tipo de progresión
+  value: number; // ➕ kg o % por semana
+}
+
+/**
+ * 🗓️ Enumeración del origen de un día del calendario
+ */
+export enum ScheduleSource {
+  PROGRAM = 'program', // 📆 Programa en el que está inscrito el usuario
+  WEEKLY = 'weekly', // 🔁 Plantilla semanal del usuario (sin programa)
+}
+
+/**
+ * 💪 Interface de un ejercicio ya resuelto para una fecha (con la progresión aplicada)
+ */
+export interface ScheduledExercise {
+  exerciseId: number; // 🆔 ID del ejercicio
+  exerciseName: string; // 📛 Nombre del ejercicio
+  position: number; // 🔢 Orden en el día
+  sets: number; // 🔁 Series
+  reps: string; // 🔂 Repeticiones ("10" o "8-12")
+  targetWeightKg?: number; // 🏋️ Peso objetivo de esa semana (opcional)
+  restSeconds?: number; // ⏸️ Descanso entre series (opcional)
+  tempo?: string; // ⏱️ Tempo (opcional)
+  notes?: string; // 📝 Indicaciones (opcional)
+}
+
+/**
+ * 🏋️ Interface de un entrenamiento concreto para una fecha
+ */
+export interface ScheduledWorkout {
+  workoutDayId: number; // 🆔 ID del día de entrenamiento de origen
+  name: string; // 📛 Nombre del entrenamiento
+  startTime?: string; // 🕒 Hora de inicio (HH:MM)
+  slotOrder: number; // 🔢 Turno dentro del día
+  workoutType: string; // 🎯 Código del tipo de entrenamiento
+  durationMinutes: number; // ⏱️ Duración estimada
+  intensityLevel: number; // 🔥 Intensidad (1-5)
+  estimatedCaloriesBurned: number; // 🔥 kcal estimadas (MET del tipo, intensidad y peso del usuario)
+  exercises: ScheduledExercise[]; // 💪 Ejercicios con la progresión aplicada
+}
+
+/**
+ * 📆 Interface del programa que aplica en una fecha
+ */
+export interface ScheduledProgramWeek {
+  programId: number; // 🆔 ID del programa
+  programName: string; // 📛 Nombre del programa
+  enrollmentId: number; // 🆔 ID de la inscripción
+  weekNumber: number; // 🔢 Semana del programa (1 = primera)
+  phaseName?: string; // 🧱 Fase (ej: 'Hipertrofia')
+  isDeload: boolean; // 🪶 Semana de descarga
+}
+
+/**
+ * 🗓️ Interface de un día del calendario del usuario
+ * Sin entrenamientos = día de descanso
+ */
+export interface ScheduleDay {
+  date: string; // 📅 Fecha (YYYY-MM-DD)
+  dayOfWeek: number; // 🗓️ Día de la semana (1=Lunes, 7=Domingo)
+  source: ScheduleSource; // 🗂️ De dónde sale el entrenamiento
+  program?: ScheduledProgramWeek; // 📆 Programa y semana (solo si source = program)
+  workouts: ScheduledWorkout[]; // 🏋️ Entrenamientos del día
+}
+
+/**
+ * 🗓️ Interface del calendario de entrenamientos de un usuario
+ */
+export interface UserSchedule {
+  userId: number; // 👤 ID del usuario
+  from: string; // 📅 Desde (YYYY-MM-DD)
+  to: string; // 📅 Hasta (YYYY-MM-DD)
+  days: ScheduleDay[]; // 🗓️ Un elemento por fecha del rango
+}
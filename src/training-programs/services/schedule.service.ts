@@ -0,0 +1,290 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, LessThanOrEqual } from 'typeorm';
+import { ProgramEnrollmentEntity } from '../entities/program-enrollment.entity';
+import { TrainingProgramEntity } from '../entities/training-program.entity';
+import { ProgramWeekEntity } from '../entities/program-week.entity';
+import { ScheduleQueryDto } from '../dto/training-program.dto';
+import { ProgressionType, ScheduleSource } from '../interfaces/training-program.interface';
+import type { ScheduleDay, ScheduledWorkout, UserSchedule } from '../interfaces/training-program.interface';
+import { WorkoutDayEntity } from '../../workout-days/entities/workout-day.entity';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserStatus } from '../../users/interfaces/user.interface';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { CalorieEstimationService } from '../../workout-types/services/calorie-estimation.service';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 📅 Milisegundos de un día (para aritmética de fechas YYYY-MM-DD)
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 📏 Máximo de días que se pueden resolver en una consulta
+ */
+const MAX_SCHEDULE_DAYS = 92;
+
+/**
+ * 🪶 Porcentaje del peso objetivo que se usa en las semanas de descarga
+ */
+const DELOAD_WEIGHT_FACTOR = 0.6;
+
+/**
+ * 🗓️ Servicio de calendario - Resuelve el entrenamiento concreto de cada fecha
+ *
+ * Para cada día del rango busca la inscripción a programa que lo cubre,
+ * calcula la semana del programa y aplica la progresión a los pesos objetivo.
+ * Si el usuario no sigue ningún programa ese día, usa su plantilla semanal.
+ *
+ * @class ScheduleService
+ * @description Calcula el calendario de entrenamientos de un usuario
+ */
+@Injectable()
+export class ScheduleService {
+  private readonly logger = new Logger(ScheduleService.name);
+
+  /**
+   * Constructor del servicio
+   * @param enrollmentRepository - Repositorio para las inscripciones a programas
+   * @param workoutDayRepository - Repositorio para la plantilla semanal del usuario
+   * @param userRepository - Repositorio para validar usuarios (y su zona horaria)
+   * @param accessControlService - Reglas de quién puede ver los entrenamientos de un usuario
+   * @param calorieEstimationService - Estimación de las calorías de cada entrenamiento
+   */
+  constructor(
+    @InjectRepository(ProgramEnrollmentEntity)
+    private readonly enrollmentRepository: Repository<ProgramEnrollmentEntity>,
+    @InjectRepository(WorkoutDayEntity)
+    private readonly workoutDayRepository: Repository<WorkoutDayEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    private readonly accessControlService: AccessControlService,
+    private readonly calorieEstimationService: CalorieEstimationService,
+  ) {}
+
+  /**
+   * 🗓️ Obtener el calendario de entrenamientos de un usuario
+   *
+   * Devuelve un elemento por cada fecha del rango (los días sin entrenamientos
+   * son de descanso). Por defecto, los próximos 7 días desde hoy en la zona
+   * horaria del usuario; como máximo 92 días por consulta.
+   *
+   * @param {number} userId - ID del usuario
+   * @param {ScheduleQueryDto} queryDto - Rango de fechas (opcional)
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<UserSchedule>} Calendario día a día
+   * @throws {BadRequestException} Si el rango es inválido o demasiado largo
+   * @throws {ForbiddenException} Si no es el propio usuario, su entrenador ni admin
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   *
+   * @example
+   * const calendario = await scheduleService.getSchedule(1, { from: '2025-02-03', to: '2025-02-09' }, currentUser);
+   * console.log(calendario.days[0].program?.weekNumber); // 1
+   */
+  async getSchedule(userId: number, queryDto: ScheduleQueryDto, currentUser: UserEntity): Promise<UserSchedule> {
+    this.logger.log(`🗓️ Calculando calendario de entrenamientos del usuario ${userId}`, queryDto);
+
+    if (isNaN(userId)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, userId);
+    const user = await this.validateUserExists(userId);
+
+    const from = queryDto.from ?? user.getLocalDate();
+    const to = queryDto.to ?? this.addDays(from, 6);
+
+    if (from > to) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_DATE_RANGE, message: 'La fecha inicial debe ser anterior o igual a la fecha final' });
+    }
+
+    if (this.daysBetween(from, to) + 1 > MAX_SCHEDULE_DAYS) {
+      throw new BadRequestException({ code: ErrorCode.SCHEDULE_RANGE_TOO_LONG, message: `El rango no puede superar ${MAX_SCHEDULE_DAYS} días`, params: { maxDays: MAX_SCHEDULE_DAYS } });
+    }
+
+    // Inscripciones activas que empiezan antes del final del rango (luego se filtra por fecha de fin)
+    const enrollments = await this.enrollmentRepository.find({
+      where: { userId, isActive: true, startDate: LessThanOrEqual(to), program: { isActive: true } },
+      relations: { program: { weeks: { workoutDays: { exercises: { exercise: true } } } } },
+      order: { startDate: 'ASC' },
+    });
+
+    const weeklyWorkoutDays = await this.workoutDayRepository.find({
+      where: { userId, isActive: true, programWeekId: IsNull() },
+      relations: { exercises: { exercise: true } },
+    });
+
+    const days: ScheduleDay[] = [];
+    for (let date = from; date <= to; date = this.addDays(date, 1)) {
+      days.push(this.resolveDay(date, enrollments, weeklyWorkoutDays, user.weightKg));
+    }
+
+    return { userId, from, to, days };
+  }
+
+  /**
+   * 📅 Método privado para resolver un día del calendario
+   *
+   * @param {string} date - Fecha (YYYY-MM-DD)
+   * @param {ProgramEnrollmentEntity[]} enrollments - Inscripciones del usuario con el programa cargado
+   * @param {WorkoutDayEntity[]} weeklyWorkoutDays - Plantilla semanal del usuario
+   * @param {number | null} [weightKg] - Peso del usuario (para estimar las calorías)
+   * @returns {ScheduleDay} Entrenamientos de esa fecha
+   * @private
+   */
+  private resolveDay(date: string, enrollments: ProgramEnrollmentEntity[], weeklyWorkoutDays: WorkoutDayEntity[], weightKg?: number | null): ScheduleDay {
+    const dayOfWeek = this.getDayOfWeek(date);
+
+    const enrollment = enrollments.find((candidate) => {
+      const daysSinceStart = this.daysBetween(candidate.startDate, date);
+      return daysSinceStart >= 0 && daysSinceStart < candidate.program.durationWeeks * 7;
+    });
+
+    if (!enrollment) {
+      return {
+        date,
+        dayOfWeek,
+        source: ScheduleSource.WEEKLY,
+        workouts: this.getWorkoutsOfDay(weeklyWorkoutDays, dayOfWeek).map((workoutDay) => this.toScheduledWorkout(workoutDay, (weight) => weight, weightKg)),
+      };
+    }
+
+    const program = enrollment.program;
+    const weekNumber = Math.floor(this.daysBetween(enrollment.startDate, date) / 7) + 1;
+    const week = program.getWeek(weekNumber);
+    const contentWeek = this.findContentWeek(program, weekNumber);
+    const adjustWeight = this.buildWeightAdjuster(program, week, contentWeek);
+
+    return {
+      date,
+      dayOfWeek,
+      source: ScheduleSource.PROGRAM,
+      program: {
+        programId: program.id,
+        programName: program.name,
+        enrollmentId: enrollment.id,
+        weekNumber,
+        phaseName: week?.phaseName ?? undefined,
+        isDeload: week?.isDeload ?? false,
+      },
+      workouts: this.getWorkoutsOfDay(contentWeek?.workoutDays ?? [], dayOfWeek).map((workoutDay) => this.toScheduledWorkout(workoutDay, adjustWeight, weightKg)),
+    };
+  }
+
+  /**
+   * 🗓️ Método privado para obtener los entrenamientos activos de un día de la semana por turno
+   * @private
+   */
+  private getWorkoutsOfDay(workoutDays: WorkoutDayEntity[], dayOfWeek: number): WorkoutDayEntity[] {
+    return workoutDays.filter((workoutDay) => workoutDay.isActive && workoutDay.dayOfWeek === dayOfWeek).sort((a, b) => a.slotOrder - b.slotOrder);
+  }
+
+  /**
+   * 🔎 Método privado para encontrar la semana cuyos días se usan en una semana del programa
+   *
+   * Es la propia semana si tiene días de entrenamiento; si no, la semana
+   * anterior más cercana que tenga días (las semanas vacías repiten la anterior).
+   *
+   * @private
+   */
+  private findContentWeek(program: TrainingProgramEntity, weekNumber: number): ProgramWeekEntity | undefined {
+    return program.weeks.filter((week) => week.weekNumber <= weekNumber && week.workoutDays.some((workoutDay) => workoutDay.isActive)).sort((a, b) => b.weekNumber - a.weekNumber)[0];
+  }
+
+  /**
+   * 📈 Método privado para construir la función que ajusta los pesos objetivo de una semana
+   *
+   * La progresión avanza un paso por cada semana de carga (no de descarga)
+   * transcurrida desde la semana de la que salen los días. En las semanas de
+   * descarga se usa el 60% del peso que tocaría. Se redondea a 0.5 kg.
+   *
+   * @param {TrainingProgramEntity} program - Programa con su regla de progresión
+   * @param {ProgramWeekEntity | undefined} week - Semana actual
+   * @param {ProgramWeekEntity | undefined} contentWeek - Semana de la que salen los días
+   * @returns {(weight: number) => number} Función que calcula el peso de esa semana
+   * @private
+   */
+  private buildWeightAdjuster(program: TrainingProgramEntity, week: ProgramWeekEntity | undefined, contentWeek: ProgramWeekEntity | undefined): (weight: number) => number {
+    const steps = week && contentWeek ? program.weeks.filter((candidate) => candidate.weekNumber >= contentWeek.weekNumber && candidate.weekNumber < week.weekNumber && !candidate.isDeload).length : 0;
+    const deloadFactor = week?.isDeload ? DELOAD_WEIGHT_FACTOR : 1;
+    const progression = program.progression;
+
+    return (weight: number) => {
+      let adjusted = weight;
+      if (progression?.type === ProgressionType.WEIGHT) {
+        adjusted = weight + steps * progression.value;
+      } else if (progression?.type === ProgressionType.PERCENT) {
+        adjusted = weight * (1 + (steps * progression.value) / 100);
+      }
+
+      return Math.round(adjusted * deloadFactor * 2) / 2;
+    };
+  }
+
+  /**
+   * 🔄 Método privado para convertir un día de entrenamiento en el entrenamiento de una fecha
+   * @private
+   */
+  private toScheduledWorkout(workoutDay: WorkoutDayEntity, adjustWeight: (weight: number) => number, weightKg?: number | null): ScheduledWorkout {
+    return {
+      workoutDayId: workoutDay.id,
+      name: workoutDay.name,
+      startTime: workoutDay.startTime ?? undefined,
+      slotOrder: workoutDay.slotOrder,
+      workoutType: workoutDay.workoutType.code,
+      durationMinutes: workoutDay.durationMinutes,
+      intensityLevel: workoutDay.intensityLevel,
+      estimatedCaloriesBurned: this.calorieEstimationService.estimateWorkoutDay(workoutDay, weightKg),
+      exercises: [...(workoutDay.exercises ?? [])]
+        .sort((a, b) => a.position - b.position)
+        .map((prescription) => ({
+          exerciseId: prescription.exerciseId,
+          exerciseName: prescription.exercise.name,
+          position: prescription.position,
+          sets: prescription.sets,
+          reps: prescription.reps,
+          targetWeightKg: prescription.targetWeightKg != null ? adjustWeight(prescription.targetWeightKg) : undefined,
+          restSeconds: prescription.restSeconds ?? undefined,
+          tempo: prescription.tempo ?? undefined,
+          notes: prescription.notes ?? undefined,
+        })),
+    };
+  }
+
+  /**
+   * 👤 Método privado para validar que un usuario existe y está activo
+   *
+   * @param {number} userId - ID del usuario a validar
+   * @returns {Promise<UserEntity>} El usuario encontrado
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   * @private
+   */
+  private async validateUserExists(userId: number): Promise<UserEntity> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId, status: UserStatus.ACTIVE },
+    });
+
+    if (!user) {
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${userId} no encontrado o no está activo`, params: { id: userId } });
+    }
+
+    return user;
+  }
+
+  /**
+   * 📅 Métodos privados de apoyo para aritmética de fechas YYYY-MM-DD (en UTC)
+   * @private
+   */
+  private daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+  }
+
+  private addDays(date: string, days: number): string {
+    return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  private getDayOfWeek(date: string): number {
+    // getUTCDay: 0=Domingo ... 6=Sábado → 1=Lunes ... 7=Domingo
+    return ((new Date(Date.parse(date)).getUTCDay() + 6) % 7) + 1;
+  }
+}
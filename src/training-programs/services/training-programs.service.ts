@@ -0,0 +1,416 @@
+import { Injectable, NotFoundException, ConflictException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, LessThanOrEqual } from 'typeorm';
+import { TrainingProgramEntity } from '../entities/training-program.entity';
+import { ProgramWeekEntity } from '../entities/program-week.entity';
+import { ProgramEnrollmentEntity } from '../entities/program-enrollment.entity';
+import { CreateTrainingProgramDto, UpdateTrainingProgramDto, EnrollProgramDto, ProgramWeekDto } from '../dto/training-program.dto';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserStatus } from '../../users/interfaces/user.interface';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 📅 Milisegundos de un día (para aritmética de fechas YYYY-MM-DD)
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 📋 Servicio de programas de entrenamiento - Lógica de negocio con Base de Datos
+ *
+ * Este servicio gestiona los programas de varias semanas (fases, descargas y
+ * regla de progresión) y las inscripciones de los usuarios. Los días de
+ * entrenamiento de cada semana se crean con POST /workout-days indicando programWeekId.
+ *
+ * @class TrainingProgramsService
+ * @description Gestiona programas de entrenamiento e inscripciones
+ */
+@Injectable()
+export class TrainingProgramsService {
+  private readonly logger = new Logger(TrainingProgramsService.name);
+
+  /**
+   * Constructor del servicio
+   * @param programRepository - Repositorio para TrainingProgramEntity
+   * @param weekRepository - Repositorio para ProgramWeekEntity
+   * @param enrollmentRepository - Repositorio para ProgramEnrollmentEntity
+   * @param userRepository - Repositorio para validar usuarios
+   * @param accessControlService - Reglas de quién edita programas y gestiona entrenamientos
+   */
+  constructor(
+    @InjectRepository(TrainingProgramEntity)
+    private readonly programRepository: Repository<TrainingProgramEntity>,
+    @InjectRepository(ProgramWeekEntity)
+    private readonly weekRepository: Repository<ProgramWeekEntity>,
+    @InjectRepository(ProgramEnrollmentEntity)
+    private readonly enrollmentRepository: Repository<ProgramEnrollmentEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    private readonly accessControlService: AccessControlService,
+  ) {}
+
+  /**
+   * 📋 Obtener todos los programas activos desde la BD
+   *
+   * @returns {Promise<TrainingProgramEntity[]>} Programas activos con sus semanas
+   * @example
+   * const programas = await trainingProgramsService.findAll();
+   */
+  async findAll(): Promise<TrainingProgramEntity[]> {
+    this.logger.log('📋 Obteniendo programas de entrenamiento activos desde la base de datos...');
+
+    return await this.programRepository.find({
+      where: { isActive: true },
+      relations: { weeks: true },
+      order: { name: 'ASC', weeks: { weekNumber: 'ASC' } },
+    });
+  }
+
+  /**
+   * 📋 Obtener un programa por ID con sus semanas y días de entrenamiento
+   *
+   * @param {number} id - ID único del programa
+   * @returns {Promise<TrainingProgramEntity>} El programa con semanas, días y ejercicios
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si el programa no existe
+   *
+   * @example
+   * const programa = await trainingProgramsService.findOne(1);
+   * console.log(programa.getWeek(4)?.isDeload); // true
+   */
+  async findOne(id: number): Promise<TrainingProgramEntity> {
+    this.logger.log(`🔍 Buscando programa de entrenamiento con ID: ${id} en la BD`);
+
+    if (isNaN(id)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const program = await this.programRepository.findOne({
+      where: { id },
+      relations: { weeks: { workoutDays: { exercises: { exercise: true } } } },
+      order: { weeks: { weekNumber: 'ASC', workoutDays: { dayOfWeek: 'ASC', slotOrder: 'ASC', exercises: { position: 'ASC' } } } },
+    });
+
+    if (!program) {
+      throw new NotFoundException({ code: ErrorCode.TRAINING_PROGRAM_NOT_FOUND, message: `Programa de entrenamiento con ID ${id} no encontrado`, params: { id } });
+    }
+
+    // Solo los días de entrenamiento activos forman parte del programa
+    for (const week of program.weeks) {
+      week.workoutDays = week.workoutDays.filter((workoutDay) => workoutDay.isActive);
+    }
+
+    return program;
+  }
+
+  /**
+   * ➕ Crear un programa de entrenamiento en la BD
+   *
+   * Crea las semanas 1..durationWeeks aplicando las fases y descargas recibidas.
+   * El usuario autenticado queda como autor.
+   *
+   * @param {CreateTrainingProgramDto} createDto - Datos del programa
+   * @param {UserEntity} currentUser - Usuario autenticado (autor)
+   * @returns {Promise<TrainingProgramEntity>} El programa creado con sus semanas
+   * @throws {BadRequestException} Si alguna semana está fuera del programa o repetida
+   *
+   * @example
+   * const programa = await trainingProgramsService.create({
+   *   name: 'Fuerza 12 semanas',
+   *   durationWeeks: 12,
+   *   progression: { type: ProgressionType.WEIGHT, value: 2.5 },
+   *   weeks: [{ weekNumber: 4, isDeload: true }, { weekNumber: 8, isDeload: true }, { weekNumber: 12, isDeload: true }]
+   * }, currentUser);
+   */
+  async create(createDto: CreateTrainingProgramDto, currentUser: UserEntity): Promise<TrainingProgramEntity> {
+    this.logger.log('➕ Creando programa de entrenamiento en la BD', createDto);
+
+    this.validateWeekDtos(createDto.weeks ?? [], createDto.durationWeeks);
+
+    const weekDtosByNumber = new Map((createDto.weeks ?? []).map((weekDto) => [weekDto.weekNumber, weekDto]));
+    const weeks = Array.from({ length: createDto.durationWeeks }, (_, index) => {
+      const weekDto = weekDtosByNumber.get(index + 1);
+      return this.weekRepository.create({
+        weekNumber: index + 1,
+        phaseName: weekDto?.phaseName?.trim(),
+        isDeload: weekDto?.isDeload ?? false,
+      });
+    });
+
+    const program = this.programRepository.create({
+      name: createDto.name.trim(),
+      description: createDto.description?.trim(),
+      durationWeeks: createDto.durationWeeks,
+      progression: createDto.progression ?? null,
+      createdById: currentUser.id,
+      isActive: true,
+      weeks,
+    });
+
+    const savedProgram = await this.programRepository.save(program);
+    this.logger.log(`✅ Programa de entrenamiento creado exitosamente en la BD con ID: ${savedProgram.id}`);
+
+    return this.findOne(savedProgram.id);
+  }
+
+  /**
+   * ✏️ Actualizar un programa de entrenamiento en la BD
+   *
+   * Actualiza solo los campos proporcionados. weeks cambia la fase o la
+   * descarga de las semanas indicadas (el resto se conservan).
+   *
+   * @param {number} id - ID del programa
+   * @param {UpdateTrainingProgramDto} updateDto - Campos a actualizar
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<TrainingProgramEntity>} El programa actualizado
+   * @throws {BadRequestException} Si alguna semana está fuera del programa o repetida
+   * @throws {ForbiddenException} Si no es el autor ni admin
+   * @throws {NotFoundException} Si el programa no existe
+   *
+   * @example
+   * await trainingProgramsService.update(1, { weeks: [{ weekNumber: 6, phaseName: 'Intensificación' }] }, currentUser);
+   */
+  async update(id: number, updateDto: UpdateTrainingProgramDto, currentUser: UserEntity): Promise<TrainingProgramEntity> {
+    this.logger.log(`✏️ Actualizando programa de entrenamiento ID ${id} en la BD`, updateDto);
+
+    const program = await this.findProgramEntity(id);
+    this.accessControlService.assertCanManageTrainingProgram(currentUser, program.createdById);
+
+    this.validateWeekDtos(updateDto.weeks ?? [], program.durationWeeks);
+
+    if (updateDto.name) program.name = updateDto.name.trim();
+    if (updateDto.description !== undefined) program.description = updateDto.description?.trim();
+    if (updateDto.progression !== undefined) program.progression = updateDto.progression;
+    if (updateDto.isActive !== undefined) program.isActive = updateDto.isActive;
+
+    for (const weekDto of updateDto.weeks ?? []) {
+      const week = program.getWeek(weekDto.weekNumber);
+      if (!week) continue;
+
+      if (weekDto.phaseName !== undefined) week.phaseName = weekDto.phaseName.trim();
+      if (weekDto.isDeload !== undefined) week.isDeload = weekDto.isDeload;
+    }
+
+    await this.programRepository.save(program);
+    this.logger.log(`✅ Programa de entrenamiento ID ${id} actualizado exitosamente en la BD`);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * 🗑️ Eliminar un programa de entrenamiento (eliminación lógica) en la BD
+   *
+   * Las inscripciones existentes se conservan, pero el programa deja de
+   * aparecer en el calendario de los usuarios.
+   *
+   * @param {number} id - ID del programa
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<TrainingProgramEntity>} El programa marcado como eliminado
+   * @throws {ForbiddenException} Si no es el autor ni admin
+   * @throws {NotFoundException} Si el programa no existe
+   * @throws {ConflictException} Si el programa ya estaba eliminado
+   */
+  async remove(id: number, currentUser: UserEntity): Promise<TrainingProgramEntity> {
+    this.logger.log(`🗑️ Eliminando programa de entrenamiento ID ${id} en la BD`);
+
+    const program = await this.findProgramEntity(id);
+    this.accessControlService.assertCanManageTrainingProgram(currentUser, program.createdById);
+
+    if (!program.isActive) {
+      throw new ConflictException({ code: ErrorCode.TRAINING_PROGRAM_ALREADY_DELETED, message: `Programa de entrenamiento con ID ${id} ya estaba eliminado`, params: { id } });
+    }
+
+    program.isActive = false;
+    const deletedProgram = await this.programRepository.save(program);
+
+    this.logger.log(`✅ Programa de entrenamiento ID ${id} eliminado exitosamente en la BD`);
+    return deletedProgram;
+  }
+
+  /**
+   * 📝 Inscribir a un usuario en un programa
+   *
+   * Valida que el programa esté activo, que el usuario autenticado pueda
+   * gestionar los entrenamientos del usuario y que las fechas no se solapen
+   * con otra inscripción activa.
+   *
+   * @param {number} programId - ID del programa
+   * @param {EnrollProgramDto} enrollDto - Fecha de inicio y usuario (por defecto: el autenticado)
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<ProgramEnrollmentEntity>} La inscripción creada
+   * @throws {ForbiddenException} Si no es el propio usuario, su entrenador ni admin
+   * @throws {NotFoundException} Si el programa o el usuario no existen o no están activos
+   * @throws {ConflictException} Si ya sigue otro programa en esas fechas
+   *
+   * @example
+   * const inscripcion = await trainingProgramsService.enroll(1, { startDate: '2025-02-03', userId: 5 }, trainer);
+   */
+  async enroll(programId: number, enrollDto: EnrollProgramDto, currentUser: UserEntity): Promise<ProgramEnrollmentEntity> {
+    this.logger.log(`📝 Inscribiendo usuario en el programa ${programId}`, enrollDto);
+
+    const program = await this.findProgramEntity(programId);
+    if (!program.isActive) {
+      throw new NotFoundException({ code: ErrorCode.TRAINING_PROGRAM_NOT_FOUND, message: `Programa de entrenamiento con ID ${programId} no está activo`, params: { id: programId } });
+    }
+
+    const userId = enrollDto.userId ?? currentUser.id;
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, userId);
+    await this.validateUserExists(userId);
+
+    // Validar que no se solape con otra inscripción activa del usuario
+    const endDate = this.getEndDate(enrollDto.startDate, program.durationWeeks);
+    const candidates = await this.enrollmentRepository.find({
+      where: { userId, isActive: true, startDate: LessThanOrEqual(endDate) },
+      relations: { program: true },
+    });
+
+    const overlapping = candidates.find((enrollment) => this.getEndDate(enrollment.startDate, enrollment.program.durationWeeks) >= enrollDto.startDate);
+    if (overlapping) {
+      throw new ConflictException({ code: ErrorCode.PROGRAM_ENROLLMENT_OVERLAP, message: `El usuario ya sigue el programa "${overlapping.program.name}" en esas fechas (inscripción ${overlapping.id})`, params: { program: overlapping.program.name, enrollmentId: overlapping.id } });
+    }
+
+    const enrollment = this.enrollmentRepository.create({
+      startDate: enrollDto.startDate,
+      programId,
+      userId,
+      isActive: true,
+    });
+
+    const savedEnrollment = await this.enrollmentRepository.save(enrollment);
+    this.logger.log(`✅ Usuario ${userId} inscrito en el programa ${programId} (inscripción ${savedEnrollment.id}) del ${enrollDto.startDate} al ${endDate}`);
+
+    return savedEnrollment;
+  }
+
+  /**
+   * 👤 Obtener las inscripciones activas de un usuario
+   *
+   * @param {number} userId - ID del usuario
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<ProgramEnrollmentEntity[]>} Inscripciones con su programa, de la más reciente a la más antigua
+   * @throws {ForbiddenException} Si no es el propio usuario, su entrenador ni admin
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   */
+  async findEnrollmentsByUserId(userId: number, currentUser: UserEntity): Promise<ProgramEnrollmentEntity[]> {
+    this.logger.log(`👤 Obteniendo inscripciones a programas del usuario ${userId}...`);
+
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, userId);
+    await this.validateUserExists(userId);
+
+    return await this.enrollmentRepository.find({
+      where: { userId, isActive: true },
+      relations: { program: true },
+      order: { startDate: 'DESC' },
+    });
+  }
+
+  /**
+   * ❌ Cancelar una inscripción (eliminación lógica)
+   *
+   * @param {number} enrollmentId - ID de la inscripción
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<ProgramEnrollmentEntity>} La inscripción cancelada
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propio usuario, su entrenador ni admin
+   * @throws {NotFoundException} Si la inscripción no existe
+   * @throws {ConflictException} Si ya estaba cancelada
+   */
+  async cancelEnrollment(enrollmentId: number, currentUser: UserEntity): Promise<ProgramEnrollmentEntity> {
+    this.logger.log(`❌ Cancelando inscripción ${enrollmentId} en la BD`);
+
+    if (isNaN(enrollmentId)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const enrollment = await this.enrollmentRepository.findOne({
+      where: { id: enrollmentId },
+      relations: { program: true },
+    });
+
+    if (!enrollment) {
+      throw new NotFoundException({ code: ErrorCode.PROGRAM_ENROLLMENT_NOT_FOUND, message: `Inscripción con ID ${enrollmentId} no encontrada`, params: { id: enrollmentId } });
+    }
+
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, enrollment.userId);
+
+    if (!enrollment.isActive) {
+      throw new ConflictException({ code: ErrorCode.PROGRAM_ENROLLMENT_ALREADY_CANCELLED, message: `La inscripción con ID ${enrollmentId} ya estaba cancelada`, params: { id: enrollmentId } });
+    }
+
+    enrollment.isActive = false;
+    const cancelledEnrollment = await this.enrollmentRepository.save(enrollment);
+
+    this.logger.log(`✅ Inscripción ${enrollmentId} cancelada exitosamente en la BD`);
+    return cancelledEnrollment;
+  }
+
+  /**
+   * 🔍 Método privado para cargar un programa con sus semanas (sin días) o lanzar 404
+   *
+   * Se usa para modificarlo: no carga los días de entrenamiento para que
+   * guardar el programa no toque su relación con las semanas.
+   *
+   * @private
+   */
+  private async findProgramEntity(id: number): Promise<TrainingProgramEntity> {
+    if (isNaN(id)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const program = await this.programRepository.findOne({
+      where: { id },
+      relations: { weeks: true },
+    });
+
+    if (!program) {
+      throw new NotFoundException({ code: ErrorCode.TRAINING_PROGRAM_NOT_FOUND, message: `Programa de entrenamiento con ID ${id} no encontrado`, params: { id } });
+    }
+
+    return program;
+  }
+
+  /**
+   * 📆 Método privado para validar las semanas recibidas
+   *
+   * @param {ProgramWeekDto[]} weekDtos - Semanas a configurar
+   * @param {number} durationWeeks - Duración del programa
+   * @throws {BadRequestException} Si alguna semana está fuera del programa o repetida
+   * @private
+   */
+  private validateWeekDtos(weekDtos: ProgramWeekDto[], durationWeeks: number): void {
+    const outOfRange = weekDtos.filter((weekDto) => weekDto.weekNumber > durationWeeks).map((weekDto) => weekDto.weekNumber);
+    if (outOfRange.length > 0) {
+      throw new BadRequestException({ code: ErrorCode.PROGRAM_WEEKS_OUT_OF_RANGE, message: `El programa dura ${durationWeeks} semanas; semanas fuera de rango: ${outOfRange.join(', ')}`, params: { durationWeeks, weeks: outOfRange.join(', ') } });
+    }
+
+    const weekNumbers = weekDtos.map((weekDto) => weekDto.weekNumber);
+    if (new Set(weekNumbers).size !== weekNumbers.length) {
+      throw new BadRequestException({ code: ErrorCode.PROGRAM_WEEKS_DUPLICATED, message: 'Cada semana solo puede configurarse una vez' });
+    }
+  }
+
+  /**
+   * 📅 Método privado para calcular el último día de una inscripción (YYYY-MM-DD)
+   * @private
+   */
+  private getEndDate(startDate: string, durationWeeks: number): string {
+    return new Date(Date.parse(startDate) + (durationWeeks * 7 - 1) * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  /**
+   * 👤 Método privado para validar que un usuario existe y está activo
+   *
+   * @param {number} userId - ID del usuario a validar
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   * @private
+   */
+  private async validateUserExists(userId: number): Promise<void> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId, status: UserStatus.ACTIVE },
+    });
+
+    if (!user) {
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${userId} no encontrado o no está activo`, params: { id: userId } });
+    }
+  }
+}
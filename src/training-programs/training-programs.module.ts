@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TrainingProgramsController } from './controllers/training-programs.controller';
+import { ScheduleController } from './controllers/schedule.controller';
+import { TrainingProgramsService } from './services/training-programs.service';
+import { ScheduleService } from './services/schedule.service';
+import { TrainingProgramEntity } from './entities/training-program.entity';
+import { ProgramWeekEntity } from './entities/program-week.entity';
+import { ProgramEnrollmentEntity } from './entities/program-enrollment.entity';
+import { WorkoutDayEntity } from '../workout-days/entities/workout-day.entity';
+import { UserEntity } from '../users/entities/user.entity';
+import { WorkoutTypesModule } from '../workout-types/workout-types.module';
+
+/**
+ * 📦 Módulo de programas de entrenamiento
+ * Agrupa toda la funcionalidad relacionada con la periodización:
+ * - Programas de varias semanas con fases, descargas y progresión
+ * - Inscripción de usuarios a un programa desde una fecha
+ * - Calendario del usuario (GET /users/:id/schedule) a partir de su programa o plantilla semanal
+ * - Relación con WorkoutDayEntity (días de cada semana) y UserEntity para validaciones
+ * - Importa WorkoutTypesModule para estimar las calorías de cada entrenamiento del calendario
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([TrainingProgramEntity, ProgramWeekEntity, ProgramEnrollmentEntity, WorkoutDayEntity, UserEntity]), // 🗄️ Registrar los repositorios necesarios
+    WorkoutTypesModule, // 🎯 Estimación de calorías
+  ],
+  controllers: [TrainingProgramsController, ScheduleController],
+  providers: [TrainingProgramsService, ScheduleService],
+  exports: [TrainingProgramsService, ScheduleService], // Exporta los servicios para ser usados en otros módulos
+})
+export class TrainingProgramsModule {}
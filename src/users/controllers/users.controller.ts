@@ -1,6 +1,19 @@
-import { Controller, Get, Post, Put, Delete, Param, Query, Body, HttpStatus, HttpCode } from '@nestjs/common';
-import { CreateUserDto, UpdateUserDto, SearchUserDto, UserResponseDto } from '../dto/user.dto';
+import { Controller, Get, Post, Put, Delete, Param, Query, Body, HttpStatus, HttpCode, StreamableFile } from '@nestjs/common';
+import { CreateUserDto, UpdateUserDto, SearchUserDto, UserListQueryDto, UserResponseDto, UserPublicResponseDto, OverrideNutritionTargetsDto, UpdateMonthlyGoalDto } from '../dto/user.dto';
 import { UsersService } from '../services/users.service';
+import { NutritionTargetsService } from '../services/nutrition-targets.service';
+import { UserStatsService } from '../services/user-stats.service';
+import { ChangePasswordDto } from '../../auth/dto/auth.dto';
+import { PasswordService } from '../../auth/services/password.service';
+import { UserEntity } from '../entities/user.entity';
+import { UserRole } from '../interfaces/user.interface';
+import type { NutritionTargets, UserStats } from '../interfaces/user.interface';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import type { Paginated } from '../../common/interfaces/pagination.interface';
+import { I18nService } from '../../i18n/services/i18n.service';
+import { ImportQueryDto, ExportQueryDto } from '../../common/dto/bulk-data.dto';
+import type { ImportReport } from '../../common/interfaces/bulk-data.interface';
 
 /**
  * 🎮 Controlador de usuarios - Endpoints de la API REST
@@ -8,6 +21,7 @@ import { UsersService } from '../services/users.service';
  * Este controlador define todos los endpoints relacionados con usuarios.
  * Maneja las peticiones HTTP y delega la lógica de negocio al servicio.
  * Implementa el patrón MVC (Model-View-Controller).
+ * Todos los endpoints requieren un token de acceso válido (guard JWT global).
  *
  * @class UsersController
  * @description Controlador REST para operaciones CRUD de usuarios
@@ -17,26 +31,61 @@ export class UsersController {
   /**
    * Constructor - Inyección de dependencias
    * @param usersService - Servicio con la lógica de negocio
+   * @param passwordService - Servicio para el cambio de contraseña
+   * @param nutritionTargetsService - Servicio de objetivos nutricionales
+   * @param userStatsService - Servicio de estadísticas de actividad
+   * @param i18nService - Mensajes de respuesta en el idioma de la petición
    */
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly passwordService: PasswordService,
+    private readonly nutritionTargetsService: NutritionTargetsService,
+    private readonly userStatsService: UserStatsService,
+    private readonly i18nService: I18nService,
+  ) {}
 
   /**
-   * 📋 Obtener todos los usuarios activos (Status: 200 OK)
+   * 📋 Obtener los usuarios activos paginados (Status: 200 OK)
    *
-   * Endpoint para listar todos los usuarios con status = ACTIVE.
-   * No requiere parámetros y devuelve un array de usuarios en formato frontend.
+   * Endpoint para listar los usuarios con status = ACTIVE.
+   * Devuelve una página de usuarios en formato frontend con el total.
    *
    * @route GET /users
-   * @returns {Promise<UserResponseDto[]>} Lista de usuarios activos formateados para frontend
+   * @query {number} [page] - Página (default: 1)
+   * @query {number} [limit] - Resultados por página (default: 20, máximo: 100)
+   * @query {string} [cursor] - nextCursor de la respuesta anterior (en lugar de page)
+   * @query {UserSortField} [sort] - id, name, email o createdAt (default: id)
+   * @query {SortDirection} [order] - asc o desc (default: el del campo)
+   * @returns {Promise<Paginated<UserResponseDto | UserPublicResponseDto>>} Página de usuarios activos formateados para frontend (perfil público salvo el propio, los clientes asignados o si es admin)
    * @status 200 - Búsqueda exitosa (con o sin resultados)
+   * @status 400 - Parámetros de paginación inválidos
    *
    * @example
-   * GET http://localhost:3000/users
-   * Response: [{ id: 1, name: 'Ana', email: 'ana@email.com', role: 'user', status: 'active', joinedDate: '2024-01-15T10:30:00.000Z' }, ...]
+   * GET http://localhost:3000/users?page=2&limit=10&sort=name
+   * Response: { items: [{ id: 1, name: 'Ana', role: 'trainer', joinedDate: '2024-01-15T10:30:00.000Z', specialties: ['yoga'], acceptingNewClients: true }, ...], total: 42, page: 2, limit: 10, nextCursor: 'eyJ...' }
    */
   @Get()
-  async getAllUsers(): Promise<UserResponseDto[]> {
-    return await this.usersService.findAll();
+  async getAllUsers(@Query() queryDto: UserListQueryDto, @CurrentUser() currentUser: UserEntity): Promise<Paginated<UserResponseDto | UserPublicResponseDto>> {
+    return await this.usersService.findAll(queryDto, currentUser);
+  }
+
+  /**
+   * 🙋 Obtener el perfil del usuario autenticado (Status: 200 OK)
+   *
+   * Endpoint para que el cliente obtenga los datos del usuario dueño del token.
+   *
+   * @route GET /users/me
+   * @returns {Promise<UserResponseDto>} El usuario autenticado formateado para frontend
+   * @status 200 - Usuario encontrado
+   * @status 401 - Token ausente, inválido o expirado
+   *
+   * @example
+   * GET http://localhost:3000/users/me
+   * Headers: { Authorization: "Bearer eyJ..." }
+   */
+  @Get('me')
+  async getCurrentUser(@CurrentUser() currentUser: UserEntity): Promise<UserResponseDto> {
+    return await this.usersService.findOne(currentUser.id);
   }
 
   /**
@@ -47,22 +96,35 @@ export class UsersController {
    *
    * @route GET /users/search
    * @query {string} [name] - Buscar por nombre (búsqueda parcial)
-   * @query {string} [email] - Buscar por email (búsqueda parcial)
+   * @query {string} [email] - Buscar por email (búsqueda parcial, solo administradores)
    * @query {UserRole} [role] - Filtrar por rol del usuario
-   * @query {UserStatus} [status] - Filtrar por estado del usuario
+   * @query {UserStatus} [status] - Filtrar por estado del usuario (los que no son admin solo encuentran usuarios activos)
    * @query {string} [location] - Buscar por ubicación (búsqueda parcial)
-   * @returns {Promise<UserResponseDto[]>} Usuarios que cumplen los criterios formateados para frontend
+   * @query {UserRole[]} [roles] - Cualquiera de estos roles (ej: trainer,nutritionist)
+   * @query {UserStatus[]} [statuses] - Cualquiera de estos estados (ej: pending,suspended)
+   * @query {string[]} [specialties] - Tiene todas estas especialidades (sin distinguir mayúsculas)
+   * @query {string} [createdFrom] - Registrado desde (YYYY-MM-DD, UTC)
+   * @query {string} [createdTo] - Registrado hasta (YYYY-MM-DD, UTC, inclusive)
+   * @query {number} [page] - Página (default: 1)
+   * @query {number} [limit] - Resultados por página (default: 20, máximo: 100)
+   * @query {string} [cursor] - nextCursor de la respuesta anterior (en lugar de page)
+   * @query {UserSortField} [sort] - id, name, email o createdAt (default: createdAt, más recientes primero)
+   * @query {SortDirection} [order] - asc o desc (default: el del campo)
+   * @returns {Promise<Paginated<UserResponseDto | UserPublicResponseDto>>} Página de usuarios que cumplen los criterios formateados para frontend (perfil público salvo el propio, los clientes asignados o si es admin)
    * @status 200 - Búsqueda exitosa (con o sin resultados)
-   * @status 400 - Parámetros de búsqueda inválidos
+   * @status 400 - Parámetros de búsqueda o de paginación inválidos, o createdFrom posterior a createdTo
+   * @status 403 - Búsqueda por email sin ser administrador
    *
    * @example
    * GET http://localhost:3000/users/search?name=Ana
    * GET http://localhost:3000/users/search?role=trainer&status=active
    * GET http://localhost:3000/users/search?location=Madrid
+   * GET http://localhost:3000/users/search?role=trainer&sort=name&order=asc&limit=10
+   * GET http://localhost:3000/users/search?roles=trainer,nutritionist&specialties=yoga&createdFrom=2025-01-01
    */
   @Get('search')
-  async searchUsers(@Query() searchUserDto: SearchUserDto): Promise<UserResponseDto[]> {
-    return await this.usersService.search(searchUserDto);
+  async searchUsers(@Query() searchUserDto: SearchUserDto, @CurrentUser() currentUser: UserEntity): Promise<Paginated<UserResponseDto | UserPublicResponseDto>> {
+    return await this.usersService.search(searchUserDto, currentUser);
   }
 
   /**
@@ -70,30 +132,115 @@ export class UsersController {
    *
    * Endpoint para crear un usuario nuevo con validación de datos.
    * El email debe ser único en todo el sistema.
+   * Solo disponible para administradores (el resto usa POST /auth/register).
    *
    * @route POST /users
    * @body {CreateUserDto} createUserDto - Datos del usuario a crear
    * @returns {Promise<UserResponseDto>} El usuario creado formateado para frontend
    * @status 201 - Usuario creado exitosamente
    * @status 400 - Datos inválidos (validación de DTO)
+   * @status 403 - El usuario autenticado no es administrador
    * @status 409 - Email ya existe (conflicto)
    *
    * @example
    * POST http://localhost:3000/users
    * Body: { "name": "Pedro Silva", "email": "pedro@email.com", "role": "trainer" }
-   * Response: { id: 5, name: "Pedro Silva", email: "pedro@email.com", role: "trainer", status: "active", joinedDate: "2024-01-15T10:30:00.000Z", ... }
+   * Response: { id: 5, name: "Pedro Silva", email: "pedro@email.com", role: "trainer", status: "pending", joinedDate: "2024-01-15T10:30:00.000Z", ... }
    */
   @Post()
+  @Roles(UserRole.ADMIN) // 👑 Solo administradores
   @HttpCode(HttpStatus.CREATED) // Explicitamente devolver 201 en lugar de 200
   async createUser(@Body() createUserDto: CreateUserDto): Promise<UserResponseDto> {
     return await this.usersService.create(createUserDto);
   }
 
+  /**
+   * 📥 Importar usuarios desde un CSV o una lista JSON (Status: 200 OK)
+   *
+   * Cada fila se valida y se crea como en POST /users. Devuelve el
+   * resultado de cada fila; con dryRun=true solo valida. En modo
+   * all_or_nothing (default) no se guarda nada si alguna fila falla; en
+   * skip_invalid se guardan las válidas. Columnas: name, email, password,
+   * role, avatar, bio, phone, location, specialties (separadas por |).
+   * Las columnas id, status y createdAt de una exportación se ignoran.
+   * Solo disponible para administradores.
+   *
+   * @route POST /users/import
+   * @body {string | object[]} body - CSV con cabecera (Content-Type: text/csv) o lista JSON de usuarios
+   * @query {boolean} [dryRun] - Solo validar, sin guardar (default: false)
+   * @query {ImportMode} [mode] - all_or_nothing o skip_invalid (default: all_or_nothing)
+   * @returns {Promise<ImportReport>} Informe con el resultado de cada fila
+   * @status 200 - Importación procesada (revisar committed y el resultado de cada fila)
+   * @status 400 - Formato inválido, sin filas, demasiadas filas o columnas desconocidas
+   * @status 403 - El usuario autenticado no es administrador
+   *
+   * @example
+   * POST http://localhost:3000/users/import?dryRun=true
+   * Content-Type: text/csv
+   * Body: name,email,role\nPedro Silva,pedro@email.com,trainer\nAna,no-es-un-email,user
+   * Response: { dryRun: true, mode: "all_or_nothing", committed: false, total: 2, succeeded: 1, failed: 1, rows: [{ row: 1, status: "valid" }, { row: 2, status: "failed", error: { code: "VALIDATION_FAILED", message: "...", details: [...] } }] }
+   */
+  @Post('import')
+  @Roles(UserRole.ADMIN) // 👑 Solo administradores
+  @HttpCode(HttpStatus.OK)
+  async importUsers(@Body() body: unknown, @Query() queryDto: ImportQueryDto): Promise<ImportReport> {
+    return await this.usersService.import(body, queryDto);
+  }
+
+  /**
+   * 📤 Exportar los usuarios en CSV o JSON (Status: 200 OK)
+   *
+   * Descarga todos los usuarios (cualquier estado) con las columnas de la
+   * importación más id, status y createdAt; el fichero se puede volver a
+   * importar. Nunca incluye contraseñas. Solo disponible para administradores.
+   *
+   * @route GET /users/export
+   * @query {DataFormat} [format] - csv o json (default: csv)
+   * @returns {StreamableFile} Fichero users.csv o users.json (descarga)
+   * @status 200 - Fichero generado
+   * @status 403 - El usuario autenticado no es administrador
+   *
+   * @example
+   * GET http://localhost:3000/users/export
+   * GET http://localhost:3000/users/export?format=json
+   */
+  @Get('export')
+  @Roles(UserRole.ADMIN) // 👑 Solo administradores
+  exportUsers(@Query() queryDto: ExportQueryDto): StreamableFile {
+    return this.usersService.export(queryDto);
+  }
+
+  /**
+   * 🔒 Cambiar la contraseña del usuario autenticado (Status: 200 OK)
+   *
+   * Requiere la contraseña actual. Cierra todas las sesiones abiertas
+   * (revoca los tokens de refresco), el token de acceso actual sigue válido hasta expirar.
+   *
+   * @route PUT /users/me/password
+   * @body {ChangePasswordDto} changePasswordDto - Contraseña actual y nueva
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Contraseña cambiada
+   * @status 400 - Nueva contraseña inválida o igual a la actual
+   * @status 401 - Contraseña actual incorrecta
+   *
+   * @example
+   * PUT http://localhost:3000/users/me/password
+   * Body: { "currentPassword": "secreto123", "newPassword": "nuevoSecreto123" }
+   */
+  @Put('me/password') // Debe ir ANTES de @Put(':id')
+  async changePassword(@Body() changePasswordDto: ChangePasswordDto, @CurrentUser() currentUser: UserEntity): Promise<{ message: string }> {
+    await this.passwordService.changePassword(currentUser.id, changePasswordDto.currentPassword, changePasswordDto.newPassword);
+    return { message: this.i18nService.translate('passwordChanged') };
+  }
+
   /**
    * ✏️ Actualizar un usuario existente (Status: 200 OK)
    *
    * Endpoint para actualización parcial de usuarios.
    * Solo se actualizan los campos proporcionados en el body.
+   * Cada usuario edita su propio perfil (incluidas sus métricas corporales);
+   * role y status solo los cambia un admin (los entrenadores y nutricionistas
+   * se vinculan con /coaching-relationships).
    *
    * @route PUT /users/:id
    * @param {string} id - ID del usuario en la URL
@@ -101,6 +248,7 @@ export class UsersController {
    * @returns {Promise<UserResponseDto>} El usuario actualizado formateado para frontend
    * @status 200 - Usuario actualizado exitosamente
    * @status 400 - ID inválido o datos inválidos
+   * @status 403 - Sin permisos sobre el perfil o sobre los campos enviados
    * @status 404 - Usuario no encontrado
    * @status 409 - Email ya existe en otro usuario
    *
@@ -110,9 +258,9 @@ export class UsersController {
    * Response: { id: 1, name: "Ana García Actualizada", role: "trainer", status: "active", ... }
    */
   @Put(':id') // :id es un parámetro de ruta
-  async updateUser(@Param('id') id: string, @Body() updateUserDto: UpdateUserDto): Promise<UserResponseDto> {
+  async updateUser(@Param('id') id: string, @Body() updateUserDto: UpdateUserDto, @CurrentUser() currentUser: UserEntity): Promise<UserResponseDto> {
     const userId = parseInt(id); // Convertir string a number
-    return await this.usersService.update(userId, updateUserDto);
+    return await this.usersService.update(userId, updateUserDto, currentUser);
   }
 
   /**
@@ -120,12 +268,14 @@ export class UsersController {
    *
    * Endpoint para eliminación lógica de usuarios.
    * No elimina físicamente, solo cambia status a INACTIVE.
+   * Solo el propio usuario o un admin pueden eliminar la cuenta.
    *
    * @route DELETE /users/:id
    * @param {string} id - ID del usuario en la URL
    * @returns {Promise<{message: string}>} Mensaje de confirmación
    * @status 200 - Usuario eliminado exitosamente
    * @status 400 - ID inválido
+   * @status 403 - No es la propia cuenta ni admin
    * @status 404 - Usuario no encontrado
    * @status 409 - Usuario ya estaba eliminado
    *
@@ -134,37 +284,165 @@ export class UsersController {
    * Response: { "message": "✅ Usuario Ana García eliminado exitosamente" }
    */
   @Delete(':id')
-  async deleteUser(@Param('id') id: string): Promise<{ message: string }> {
+  async deleteUser(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<{ message: string }> {
     const userId = parseInt(id);
-    const deletedUser = await this.usersService.remove(userId);
+    const deletedUser = await this.usersService.remove(userId, currentUser);
     return {
-      message: `✅ Usuario ${deletedUser.name} eliminado exitosamente`,
+      message: this.i18nService.translate('userDeleted', { name: deletedUser.name }),
     };
   }
 
+  /**
+   * 🎯 Obtener los objetivos nutricionales diarios de un usuario (Status: 200 OK)
+   *
+   * Calcula BMR (Mifflin-St Jeor), TDEE y reparto de macros a partir de las
+   * métricas corporales. Si el nutricionista fijó objetivos, se devuelven esos.
+   *
+   * @route GET /users/:id/nutrition-targets
+   * @param {string} id - ID del usuario en la URL
+   * @returns {Promise<NutritionTargets>} Calorías y macros diarios
+   * @status 200 - Objetivos calculados
+   * @status 400 - ID inválido o faltan métricas corporales
+   * @status 403 - No es el propio usuario, un admin ni un profesional asignado
+   * @status 404 - Usuario no encontrado
+   *
+   * @example
+   * GET http://localhost:3000/users/1/nutrition-targets
+   * Response: { bmr: 1650, tdee: 2558, calories: 2058, protein: 150, carbs: 209, fat: 57, source: "calculated" }
+   */
+  @Get(':id/nutrition-targets')
+  async getNutritionTargets(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<NutritionTargets> {
+    const userId = parseInt(id);
+    return await this.nutritionTargetsService.getTargets(userId, currentUser);
+  }
+
+  /**
+   * ✍️ Fijar manualmente los objetivos nutricionales de un cliente (Status: 200 OK)
+   *
+   * Reemplaza a los objetivos calculados hasta que se eliminen.
+   * Solo el nutricionista asignado al usuario o un admin.
+   *
+   * @route PUT /users/:id/nutrition-targets
+   * @param {string} id - ID del cliente en la URL
+   * @body {OverrideNutritionTargetsDto} overrideDto - Calorías y macros diarios
+   * @returns {Promise<NutritionTargets>} Objetivos vigentes (source: "nutritionist")
+   * @status 200 - Objetivos fijados
+   * @status 400 - Datos inválidos
+   * @status 403 - No es el nutricionista asignado ni admin
+   * @status 404 - Usuario no encontrado
+   *
+   * @example
+   * PUT http://localhost:3000/users/5/nutrition-targets
+   * Body: { "calories": 1900, "protein": 140, "carbs": 190, "fat": 60 }
+   */
+  @Put(':id/nutrition-targets')
+  @Roles(UserRole.ADMIN, UserRole.NUTRITIONIST) // 🥗 Solo administradores y nutricionistas
+  async overrideNutritionTargets(@Param('id') id: string, @Body() overrideDto: OverrideNutritionTargetsDto, @CurrentUser() currentUser: UserEntity): Promise<NutritionTargets> {
+    const userId = parseInt(id);
+    return await this.nutritionTargetsService.overrideTargets(userId, overrideDto, currentUser);
+  }
+
+  /**
+   * ♻️ Eliminar los objetivos manuales de un cliente (Status: 200 OK)
+   *
+   * Vuelve a los objetivos calculados a partir de las métricas corporales.
+   *
+   * @route DELETE /users/:id/nutrition-targets
+   * @param {string} id - ID del cliente en la URL
+   * @returns {Promise<{message: string, nutritionTargets?: NutritionTargets}>} Confirmación y objetivos calculados
+   * @status 200 - Objetivos manuales eliminados
+   * @status 403 - No es el nutricionista asignado ni admin
+   * @status 404 - Usuario no encontrado
+   *
+   * @example
+   * DELETE http://localhost:3000/users/5/nutrition-targets
+   */
+  @Delete(':id/nutrition-targets')
+  @Roles(UserRole.ADMIN, UserRole.NUTRITIONIST) // 🥗 Solo administradores y nutricionistas
+  async clearNutritionTargets(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<{ message: string; nutritionTargets?: NutritionTargets }> {
+    const userId = parseInt(id);
+    const nutritionTargets = await this.nutritionTargetsService.clearOverride(userId, currentUser);
+    return {
+      message: this.i18nService.translate('nutritionTargetsOverrideRemoved'),
+      nutritionTargets,
+    };
+  }
+
+  /**
+   * 🔄 Recalcular las estadísticas de un usuario (Status: 200 OK)
+   *
+   * Las estadísticas se recalculan solas cuando cambian las sesiones;
+   * este endpoint permite forzarlo (por ejemplo, tras corregir datos).
+   *
+   * @route POST /users/:id/stats/recalculate
+   * @param {string} id - ID del usuario en la URL
+   * @returns {Promise<UserStats>} Estadísticas recalculadas
+   * @status 200 - Estadísticas recalculadas
+   * @status 400 - ID inválido
+   * @status 403 - No es administrador
+   * @status 404 - Usuario no encontrado
+   *
+   * @example
+   * POST http://localhost:3000/users/1/stats/recalculate
+   * Response: { totalWorkouts: 42, currentStreak: 3, longestStreak: 9, totalCaloriesBurned: 15400, averageWorkoutDuration: 58, favoriteWorkoutType: "strength", monthlyGoal: 12, monthlyProgress: 75 }
+   */
+  @Post(':id/stats/recalculate')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.ADMIN) // 👑 Solo administradores
+  async recalculateStats(@Param('id') id: string): Promise<UserStats> {
+    const userId = parseInt(id);
+    return await this.userStatsService.recalculate(userId);
+  }
+
+  /**
+   * 🎯 Fijar la meta mensual de entrenamientos (Status: 200 OK)
+   *
+   * Solo el propio usuario o un admin. Recalcula el progreso del mes.
+   *
+   * @route PUT /users/:id/stats/monthly-goal
+   * @param {string} id - ID del usuario en la URL
+   * @body {UpdateMonthlyGoalDto} monthlyGoalDto - Entrenamientos por mes
+   * @returns {Promise<UserStats>} Estadísticas con la nueva meta
+   * @status 200 - Meta actualizada
+   * @status 400 - Datos inválidos
+   * @status 403 - Sin permisos sobre este perfil
+   * @status 404 - Usuario no encontrado
+   *
+   * @example
+   * PUT http://localhost:3000/users/1/stats/monthly-goal
+   * Body: { "monthlyGoal": 16 }
+   */
+  @Put(':id/stats/monthly-goal')
+  async updateMonthlyGoal(@Param('id') id: string, @Body() monthlyGoalDto: UpdateMonthlyGoalDto, @CurrentUser() currentUser: UserEntity): Promise<UserStats> {
+    const userId = parseInt(id);
+    return await this.userStatsService.setMonthlyGoal(userId, monthlyGoalDto.monthlyGoal, currentUser);
+  }
+
   /**
    * 👤 Obtener un usuario específico por ID (Status: 200 OK o 404 Not Found)
    *
-   * Endpoint para obtener los detalles completos de un usuario.
-   * Devuelve el usuario formateado para el frontend con todos sus datos.
+   * Endpoint para obtener los detalles de un usuario.
+   * El propio usuario, un admin o sus profesionales asignados reciben todos
+   * sus datos (contacto y salud); el resto, el perfil público de los usuarios activos.
    *
    * @route GET /users/:id
    * @param {string} id - ID del usuario en la URL
-   * @returns {Promise<UserResponseDto>} El usuario encontrado formateado para frontend
+   * @returns {Promise<UserResponseDto | UserPublicResponseDto>} El usuario encontrado formateado para frontend
    * @status 200 - Usuario encontrado
    * @status 400 - ID inválido (no es un número)
-   * @status 404 - Usuario no encontrado
+   * @status 404 - Usuario no encontrado (o no activo, sin acceso a sus datos)
    *
    * @example
    * GET http://localhost:3000/users/1
-   * Response: { id: 1, name: "Ana García", email: "ana@email.com", role: "user", status: "active", joinedDate: "2024-01-15T10:30:00.000Z", ... }
+   * Response: { id: 1, name: "Ana García", email: "ana@email.com", role: "user", status: "active", joinedDate: "2024-01-15T10:30:00.000Z", weightKg: 62, ... }
+   * Response (perfil público): { id: 1, name: "Ana García", role: "trainer", joinedDate: "2024-01-15T10:30:00.000Z", bio: "...", specialties: ["yoga"], acceptingNewClients: true }
    *
    * GET http://localhost:3000/users/999
    * Response: { "message": "Usuario con ID 999 no encontrado", "error": "Not Found", "statusCode": 404 }
    */
   @Get(':id') // Este decorador debe ir DESPUÉS de otros @Get más específicos
-  async getUserById(@Param('id') id: string): Promise<UserResponseDto> {
+  async getUserById(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<UserResponseDto | UserPublicResponseDto> {
     const userId = parseInt(id);
-    return await this.usersService.findOne(userId);
+    return await this.usersService.findProfile(userId, currentUser);
   }
 }
@@ -1,7 +1,10 @@
-import { IsString, IsEmail, IsNumber, Min, Max, IsNotEmpty, IsOptional, IsBoolean, IsEnum, IsArray, IsUrl, ValidateNested } from 'class-validator';
+import { IsString, IsEmail, IsNumber, Min, Max, IsNotEmpty, IsOptional, IsBoolean, IsEnum, IsArray, IsUrl, ValidateNested, MinLength, MaxLength, IsDateString, IsInt, IsTimeZone } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
-import { UserRole, UserStatus } from '../interfaces/user.interface';
-import type { UserStats } from '../interfaces/user.interface';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { ToArray } from '../../common/decorators/to-array.decorator';
+import { UserRole, UserStatus, BiologicalSex, ActivityLevel, FitnessGoal, UserSortField } from '../interfaces/user.interface';
+import type { UserStats, NutritionTargets } from '../interfaces/user.interface';
+import { Locale } from '../../i18n/interfaces/i18n.interface';
 
 /**
  * 📝 DTO para crear un nuevo usuario con validaciones automáticas
@@ -16,6 +19,12 @@ export class CreateUserDto {
   @IsNotEmpty({ message: 'El email es obligatorio' })
   email: string; // 📧 Email (obligatorio, formato válido)
 
+  @IsOptional()
+  @IsString({ message: 'La contraseña debe ser una cadena de texto' })
+  @MinLength(8, { message: 'La contraseña debe tener al menos 8 caracteres' })
+  @MaxLength(72, { message: 'La contraseña debe tener como máximo 72 caracteres' })
+  password?: string; // 🔒 Contraseña inicial (opcional, se guarda como hash)
+
   @IsOptional()
   @IsEnum(UserRole, { message: 'El rol debe ser un valor válido' })
   role?: UserRole; // 🎭 Rol del usuario (opcional, por defecto: USER)
@@ -83,13 +92,101 @@ export class UpdateUserDto {
   @IsArray({ message: 'Las especialidades deben ser un array' })
   @IsString({ each: true, message: 'Cada especialidad debe ser una cadena de texto' })
   specialties?: string[]; // 🎯 Especialidades (opcional)
+
+  @IsOptional()
+  @IsBoolean({ message: 'acceptingNewClients debe ser true o false' })
+  acceptingNewClients?: boolean; // 🟢 Acepta nuevos clientes (opcional, solo profesionales)
+
+  @IsOptional()
+  @IsEnum(BiologicalSex, { message: 'El sexo debe ser: male o female' })
+  sex?: BiologicalSex; // ⚧️ Sexo biológico (opcional)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha de nacimiento debe tener formato YYYY-MM-DD' })
+  birthDate?: string; // 🎂 Fecha de nacimiento (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'La altura debe ser un número' })
+  @Min(50, { message: 'La altura debe ser de al menos 50 cm' })
+  @Max(272, { message: 'La altura debe ser menor o igual a 272 cm' })
+  heightCm?: number; // 📏 Altura en cm (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El peso debe ser un número' })
+  @Min(20, { message: 'El peso debe ser de al menos 20 kg' })
+  @Max(400, { message: 'El peso debe ser menor o igual a 400 kg' })
+  weightKg?: number; // ⚖️ Peso en kg (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El peso objetivo debe ser un número' })
+  @Min(20, { message: 'El peso objetivo debe ser de al menos 20 kg' })
+  @Max(400, { message: 'El peso objetivo debe ser menor o igual a 400 kg' })
+  goalWeightKg?: number; // 🎯 Peso objetivo en kg (opcional)
+
+  @IsOptional()
+  @IsEnum(ActivityLevel, { message: 'El nivel de actividad debe ser: sedentary, light, moderate, active o very_active' })
+  activityLevel?: ActivityLevel; // 🚶 Nivel de actividad física (opcional)
+
+  @IsOptional()
+  @IsEnum(FitnessGoal, { message: 'El objetivo debe ser: lose, maintain o gain' })
+  goal?: FitnessGoal; // 🎯 Objetivo de peso (opcional)
+
+  @IsOptional()
+  @IsTimeZone({ message: 'La zona horaria debe ser un identificador IANA válido (ej: Europe/Madrid)' })
+  timezone?: string; // 🌍 Zona horaria (opcional)
+
+  @IsOptional()
+  @IsEnum(Locale, { message: 'El idioma debe ser: es o en' })
+  locale?: Locale; // 🌐 Idioma preferido de las respuestas (opcional)
+}
+
+/**
+ * 🎯 DTO para que un nutricionista fije los objetivos nutricionales de un cliente
+ * Reemplaza a los objetivos calculados hasta que se eliminen
+ */
+export class OverrideNutritionTargetsDto {
+  @IsNumber({}, { message: 'Las calorías deben ser un número' })
+  @Min(800, { message: 'Las calorías deben ser de al menos 800 kcal' })
+  @Max(10000, { message: 'Las calorías deben ser menores o iguales a 10000 kcal' })
+  calories: number; // 🔥 Calorías diarias (obligatorio)
+
+  @IsNumber({}, { message: 'Las proteínas deben ser un número' })
+  @Min(0, { message: 'Las proteínas no pueden ser negativas' })
+  protein: number; // 🥩 Proteínas diarias en g (obligatorio)
+
+  @IsNumber({}, { message: 'Los carbohidratos deben ser un número' })
+  @Min(0, { message: 'Los carbohidratos no pueden ser negativos' })
+  carbs: number; // 🍞 Carbohidratos diarios en g (obligatorio)
+
+  @IsNumber({}, { message: 'Las grasas deben ser un número' })
+  @Min(0, { message: 'Las grasas no pueden ser negativas' })
+  fat: number; // 🧈 Grasas diarias en g (obligatorio)
+}
+
+/**
+ * 📅 DTO para que el usuario fije su meta mensual de entrenamientos
+ */
+export class UpdateMonthlyGoalDto {
+  @IsInt({ message: 'La meta mensual debe ser un número entero' })
+  @Min(1, { message: 'La meta mensual debe ser de al menos 1 entrenamiento' })
+  @Max(100, { message: 'La meta mensual debe ser menor o igual a 100 entrenamientos' })
+  monthlyGoal: number; // 🎯 Entrenamientos completados por mes (obligatorio)
+}
+
+/**
+ * 📄 DTO para listar usuarios con paginación y orden
+ */
+export class UserListQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsEnum(UserSortField, { message: 'El orden debe ser: id, name, email o createdAt' })
+  sort?: UserSortField; // 🏆 Campo de orden (opcional, default: id en el listado y createdAt en la búsqueda)
 }
 
 /**
  * 🔍 DTO para búsqueda de usuarios con validaciones
  * Define qué filtros podemos usar para buscar usuarios
  */
-export class SearchUserDto {
+export class SearchUserDto extends UserListQueryDto {
   @IsOptional()
   @IsString({ message: 'El nombre debe ser una cadena de texto' })
   name?: string; // 📛 Nombre (opcional, si se envía debe ser string)
@@ -109,24 +206,68 @@ export class SearchUserDto {
   @IsOptional()
   @IsString({ message: 'La ubicación debe ser una cadena de texto' })
   location?: string; // 📍 Ubicación (opcional)
+
+  @IsOptional()
+  @ToArray()
+  @IsEnum(UserRole, { each: true, message: 'Cada rol debe ser un valor válido' })
+  roles?: UserRole[]; // 🎭 Cualquiera de estos roles (opcional, ej: trainer,nutritionist)
+
+  @IsOptional()
+  @ToArray()
+  @IsEnum(UserStatus, { each: true, message: 'Cada estado debe ser un valor válido' })
+  statuses?: UserStatus[]; // 📊 Cualquiera de estos estados (opcional, ej: pending,suspended)
+
+  @IsOptional()
+  @ToArray()
+  @IsString({ each: true, message: 'Cada especialidad debe ser una cadena de texto' })
+  @MaxLength(50, { each: true, message: 'Cada especialidad debe tener como máximo 50 caracteres' })
+  specialties?: string[]; // 🎯 Tiene todas estas especialidades (opcional, sin distinguir mayúsculas)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha createdFrom debe tener formato YYYY-MM-DD' })
+  createdFrom?: string; // 📅 Registrado desde este día UTC, inclusive (opcional)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha createdTo debe tener formato YYYY-MM-DD' })
+  createdTo?: string; // 📅 Registrado hasta este día UTC, inclusive (opcional)
 }
 
 /**
- * 📤 DTO de respuesta para usuarios
- * Define exactamente qué datos devolvemos al cliente
- * Coincide con la interfaz esperada por el frontend
+ * 📤 DTO de respuesta pública para usuarios
+ * Lo que cualquier usuario autenticado puede ver de otro (perfil profesional),
+ * sin datos de contacto ni de salud
  */
-export class UserResponseDto {
+export class UserPublicResponseDto {
   id: number; // 🆔 ID único del usuario
   name: string; // 📛 Nombre completo
-  email: string; // 📧 Email
   role: UserRole; // 🎭 Rol del usuario
   avatar?: string; // 🖼️ URL de la foto de perfil (opcional)
-  status: UserStatus; // 📊 Estado del usuario
   joinedDate: string; // 📅 Cuándo se unió al equipo (ISO string)
   bio?: string; // 📝 Biografía/descripción (opcional)
-  phone?: string; // 📞 Teléfono (opcional)
   location?: string; // 📍 Ubicación (opcional)
   specialties?: string[]; // 🎯 Lista de especialidades (opcional)
+  acceptingNewClients: boolean; // 🟢 Acepta nuevos clientes (solo profesionales)
+}
+
+/**
+ * 📤 DTO de respuesta para usuarios
+ * Define exactamente qué datos devolvemos al cliente
+ * Coincide con la interfaz esperada por el frontend
+ * Con datos de contacto y de salud: solo para el propio usuario, un admin o sus profesionales asignados
+ */
+export class UserResponseDto extends UserPublicResponseDto {
+  email: string; // 📧 Email
+  status: UserStatus; // 📊 Estado del usuario
+  phone?: string; // 📞 Teléfono (opcional)
   stats?: UserStats; // 📈 Estadísticas del usuario (opcional)
+  sex?: BiologicalSex; // ⚧️ Sexo biológico (opcional)
+  birthDate?: string; // 🎂 Fecha de nacimiento YYYY-MM-DD (opcional)
+  heightCm?: number; // 📏 Altura en cm (opcional)
+  weightKg?: number; // ⚖️ Peso en kg (opcional)
+  goalWeightKg?: number; // 🎯 Peso objetivo en kg (opcional)
+  activityLevel?: ActivityLevel; // 🚶 Nivel de actividad física (opcional)
+  goal?: FitnessGoal; // 🎯 Objetivo de peso (opcional)
+  timezone: string; // 🌍 Zona horaria IANA
+  locale?: Locale; // 🌐 Idioma preferido de las respuestas (opcional)
+  nutritionTargets?: NutritionTargets; // 🍽️ Objetivos nutricionales diarios (opcional)
 }
@@ -1,7 +1,9 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, OneToMany } from 'typeorm';
+import * as bcrypt from 'bcryptjs';
 import { WorkoutDayEntity } from '../../workout-days/entities/workout-day.entity';
-import { UserRole, UserStatus } from '../interfaces/user.interface';
-import type { UserStats } from '../interfaces/user.interface';
+import { UserRole, UserStatus, BiologicalSex, ActivityLevel, FitnessGoal } from '../interfaces/user.interface';
+import type { UserStats, NutritionTargetsOverride } from '../interfaces/user.interface';
+import { Locale } from '../../i18n/interfaces/i18n.interface';
 
 /**
  * 🏛️ Entity de Usuario - Compatible con TypeORM
@@ -31,6 +33,14 @@ export class UserEntity {
   @Column({ type: 'varchar', length: 255, unique: true })
   email: string;
 
+  /**
+   * 🔒 Hash de la contraseña del usuario (bcrypt)
+   * Nunca se guarda la contraseña en texto plano.
+   * `select: false` evita que se cargue en las consultas normales.
+   */
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  password?: string;
+
   /**
    * 🎭 Rol del usuario en el sistema
    * Define los permisos y funcionalidades disponibles
@@ -80,6 +90,13 @@ export class UserEntity {
   @Column({ type: 'simple-json', nullable: true })
   specialties?: string[];
 
+  /**
+   * 🟢 Indica si el profesional acepta nuevos clientes
+   * Se muestra en el directorio de profesionales y bloquea las solicitudes de clientes si es false
+   */
+  @Column({ type: 'boolean', default: true })
+  acceptingNewClients: boolean;
+
   /**
    * 📈 Estadísticas del usuario (opcional)
    * Métricas de actividad y progreso del usuario
@@ -87,6 +104,83 @@ export class UserEntity {
   @Column({ type: 'simple-json', nullable: true })
   stats?: UserStats;
 
+  /**
+   * ⚧️ Sexo biológico (opcional)
+   * Necesario para calcular el metabolismo basal
+   */
+  @Column({ type: 'varchar', enum: BiologicalSex, nullable: true })
+  sex?: BiologicalSex;
+
+  /**
+   * 🎂 Fecha de nacimiento (opcional, YYYY-MM-DD)
+   * Se usa para calcular la edad
+   */
+  @Column({ type: 'date', nullable: true })
+  birthDate?: string;
+
+  /**
+   * 📏 Altura en centímetros (opcional)
+   */
+  @Column({ type: 'float', nullable: true })
+  heightCm?: number;
+
+  /**
+   * ⚖️ Peso en kilogramos (opcional)
+   * Se actualiza con la medición corporal más reciente que incluya peso
+   */
+  @Column({ type: 'float', nullable: true })
+  weightKg?: number;
+
+  /**
+   * 🎯 Peso objetivo en kilogramos (opcional)
+   * Se usa para mostrar el progreso en la tendencia de mediciones corporales
+   */
+  @Column({ type: 'float', nullable: true })
+  goalWeightKg?: number;
+
+  /**
+   * 🚶 Nivel de actividad física (opcional)
+   * Define el multiplicador del gasto energético total
+   */
+  @Column({ type: 'varchar', enum: ActivityLevel, nullable: true })
+  activityLevel?: ActivityLevel;
+
+  /**
+   * 🎯 Objetivo de peso (opcional)
+   * Perder, mantener o ganar peso
+   */
+  @Column({ type: 'varchar', enum: FitnessGoal, nullable: true })
+  goal?: FitnessGoal;
+
+  /**
+   * 🌍 Zona horaria IANA del usuario (ej: 'Europe/Madrid')
+   * Define qué día del calendario es "hoy" para las rachas y el progreso mensual
+   */
+  @Column({ type: 'varchar', length: 64, default: 'UTC' })
+  timezone: string;
+
+  /**
+   * 🌐 Idioma preferido de las respuestas de la API (opcional)
+   * Si no lo tiene, se usa la cabecera Accept-Language o el español
+   */
+  @Column({ type: 'varchar', enum: Locale, nullable: true })
+  locale?: Locale | null;
+
+  /**
+   * ✍️ Objetivos nutricionales fijados por un nutricionista (opcional)
+   * Si existen, reemplazan a los objetivos calculados
+   */
+  @Column({ type: 'simple-json', nullable: true })
+  nutritionTargetsOverride?: NutritionTargetsOverride | null;
+
+  /**
+   * 📅 Hash SHA-256 del token del feed de calendario (opcional)
+   * Da acceso sin sesión al .ics de sus entrenamientos; null = feed desactivado.
+   * `select: false` evita que se cargue en las consultas normales.
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true, unique: true, select: false })
+  calendarFeedTokenHash?: string | null;
+
   /**
    * 📅 Fecha de creación del registro
    * Se asigna automáticamente al crear el usuario
@@ -150,6 +244,46 @@ export class UserEntity {
       .join(' ');
   }
 
+  /**
+   * 🎂 Método para calcular la edad en años cumplidos
+   * Devuelve undefined si no hay fecha de nacimiento
+   */
+  getAge(referenceDate: Date = new Date()): number | undefined {
+    if (!this.birthDate) return undefined;
+
+    const [year, month, day] = this.birthDate.split('-').map(Number);
+    let age = referenceDate.getFullYear() - year;
+    const hadBirthday = referenceDate.getMonth() + 1 > month || (referenceDate.getMonth() + 1 === month && referenceDate.getDate() >= day);
+    if (!hadBirthday) age--;
+
+    return age;
+  }
+
+  /**
+   * 🌍 Método para obtener el día del calendario (YYYY-MM-DD) en la zona horaria del usuario
+   * Por ejemplo, las 23:30 UTC del día 14 ya son el día 15 en 'Europe/Madrid'
+   */
+  getLocalDate(date: Date = new Date()): string {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: this.timezone ?? 'UTC', year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  }
+
+  /**
+   * 🔒 Método para establecer la contraseña del usuario
+   * Genera el hash con bcrypt antes de asignarlo a la entity
+   */
+  async setPassword(plainPassword: string): Promise<void> {
+    this.password = await bcrypt.hash(plainPassword, 10);
+  }
+
+  /**
+   * 🔑 Método para verificar una contraseña contra el hash guardado
+   * Requiere que el campo password haya sido cargado explícitamente (select: false)
+   */
+  async validatePassword(plainPassword: string): Promise<boolean> {
+    if (!this.password) return false;
+    return await bcrypt.compare(plainPassword, this.password);
+  }
+
   /**
    * ✅ Método para activar el usuario
    */
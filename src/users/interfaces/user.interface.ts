@@ -1,3 +1,5 @@
+import type { Locale } from '../../i18n/interfaces/i18n.interface';
+
 /**
  * 🎭 Enumeración de roles de usuario
  * Define los diferentes tipos de usuario en el sistema
@@ -22,6 +24,84 @@ export enum UserStatus {
   BANNED = 'banned', // 🚫 Usuario baneado
 }
 
+/**
+ * 🏆 Enumeración de campos de orden de los listados de usuarios
+ */
+export enum UserSortField {
+  ID = 'id', // 🆔 ID (orden de alta)
+  NAME = 'name', // 📛 Nombre
+  EMAIL = 'email', // 📧 Email
+  CREATED_AT = 'createdAt', // 📅 Fecha de registro
+}
+
+/**
+ * ⚧️ Enumeración de sexo biológico
+ * Se usa para la fórmula de metabolismo basal (Mifflin-St Jeor)
+ */
+export enum BiologicalSex {
+  MALE = 'male', // ♂️ Masculino
+  FEMALE = 'female', // ♀️ Femenino
+}
+
+/**
+ * 🚶 Enumeración de niveles de actividad física
+ * Cada nivel tiene un multiplicador para calcular el gasto energético total (TDEE)
+ */
+export enum ActivityLevel {
+  SEDENTARY = 'sedentary', // 🪑 Poco o ningún ejercicio (x1.2)
+  LIGHT = 'light', // 🚶 Ejercicio ligero 1-3 días/semana (x1.375)
+  MODERATE = 'moderate', // 🏃 Ejercicio moderado 3-5 días/semana (x1.55)
+  ACTIVE = 'active', // 🏋️ Ejercicio intenso 6-7 días/semana (x1.725)
+  VERY_ACTIVE = 'very_active', // 🔥 Ejercicio muy intenso o trabajo físico (x1.9)
+}
+
+/**
+ * 🎯 Enumeración de objetivos de peso
+ * Ajusta las calorías y proteínas recomendadas
+ */
+export enum FitnessGoal {
+  LOSE = 'lose', // 📉 Perder peso
+  MAINTAIN = 'maintain', // ⚖️ Mantener peso
+  GAIN = 'gain', // 📈 Ganar peso / masa muscular
+}
+
+/**
+ * 🧭 Enumeración del origen de los objetivos nutricionales
+ */
+export enum NutritionTargetsSource {
+  CALCULATED = 'calculated', // 🧮 Calculados a partir de las métricas corporales
+  NUTRITIONIST = 'nutritionist', // 🥗 Fijados manualmente por un nutricionista
+}
+
+/**
+ * ✍️ Interface de objetivos fijados manualmente por un nutricionista
+ * Se guarda en el usuario y reemplaza a los objetivos calculados
+ */
+export interface NutritionTargetsOverride {
+  calories: number; // 🔥 Calorías diarias (kcal)
+  protein: number; // 🥩 Proteínas diarias (g)
+  carbs: number; // 🍞 Carbohidratos diarios (g)
+  fat: number; // 🧈 Grasas diarias (g)
+  setById: number; // 👤 ID de quien fijó los objetivos
+  setAt: string; // 📅 Cuándo se fijaron (ISO string)
+}
+
+/**
+ * 🎯 Interface de objetivos nutricionales diarios del usuario
+ * Calorías y macronutrientes recomendados para cada día
+ */
+export interface NutritionTargets {
+  bmr?: number; // 🛌 Metabolismo basal (kcal, Mifflin-St Jeor)
+  tdee?: number; // 🔥 Gasto energético total diario (kcal)
+  calories: number; // 🎯 Calorías diarias objetivo (kcal)
+  protein: number; // 🥩 Proteínas diarias (g)
+  carbs: number; // 🍞 Carbohidratos diarios (g)
+  fat: number; // 🧈 Grasas diarias (g)
+  source: NutritionTargetsSource; // 🧭 Calculados o fijados por un nutricionista
+  overriddenById?: number; // 🥗 ID de quien fijó los objetivos (solo si source = nutritionist)
+  overriddenAt?: string; // 📅 Cuándo se fijaron (solo si source = nutritionist)
+}
+
 /**
  * 📈 Interface para estadísticas del usuario
  * Contiene métricas y datos de actividad del usuario
@@ -32,7 +112,7 @@ export interface UserStats {
   longestStreak: number; // 🏆 Racha más larga alcanzada
   totalCaloriesBurned: number; // 🔥 Total de calorías quemadas
   averageWorkoutDuration: number; // ⏱️ Duración promedio de entrenamientos (minutos)
-  favoriteWorkoutType?: string; // ❤️ Tipo de entrenamiento favorito
+  favoriteWorkoutType?: string; // ❤️ Código del tipo de entrenamiento favorito
   monthlyGoal: number; // 🎯 Meta mensual de entrenamientos
   monthlyProgress: number; // 📊 Progreso actual del mes (0-100%)
 }
@@ -53,5 +133,16 @@ export interface User {
   phone?: string; // 📞 Teléfono (opcional)
   location?: string; // 📍 Ubicación (opcional)
   specialties?: string[]; // 🎯 Lista de especialidades (opcional)
+  acceptingNewClients: boolean; // 🟢 Acepta nuevos clientes (solo profesionales)
   stats?: UserStats; // 📈 Estadísticas del usuario (opcional)
+  sex?: BiologicalSex; // ⚧️ Sexo biológico (opcional)
+  birthDate?: string; // 🎂 Fecha de nacimiento YYYY-MM-DD (opcional)
+  heightCm?: number; // 📏 Altura en cm (opcional)
+  weightKg?: number; // ⚖️ Peso en kg (opcional)
+  goalWeightKg?: number; // 🎯 Peso objetivo en kg (opcional)
+  activityLevel?: ActivityLevel; // 🚶 Nivel de actividad física (opcional)
+  goal?: FitnessGoal; // 🎯 Objetivo de peso (opcional)
+  timezone: string; // 🌍 Zona horaria IANA (ej: 'Europe/Madrid')
+  locale?: Locale; // 🌐 Idioma preferido de las respuestas (opcional)
+  nutritionTargets?: NutritionTargets; // 🍽️ Objetivos nutricionales diarios (opcional)
 }
@@ -0,0 +1,91 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NutritionTargetsService } from './nutrition-targets.service';
+import { UserEntity } from '../entities/user.entity';
+import { ActivityLevel, BiologicalSex, FitnessGoal, NutritionTargetsSource, UserRole } from '../interfaces/user.interface';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+describe('NutritionTargetsService', () => {
+  let service: NutritionTargetsService;
+  const userRepository = { findOne: jest.fn(), save: jest.fn() };
+  const accessControlService = { assertCanAccessHealthDataOf: jest.fn(), assertCanOverrideNutritionTargetsOf: jest.fn() };
+
+  // Hombre de 30 años, 80 kg, 180 cm, actividad moderada: BMR = 800 + 1125 − 150 + 5 = 1780
+  const buildUser = (partial: Partial<UserEntity> = {}) => new UserEntity({ id: 5, name: 'Luis', role: UserRole.USER, sex: BiologicalSex.MALE, birthDate: '1996-06-15', weightKg: 80, heightCm: 180, activityLevel: ActivityLevel.MODERATE, goal: FitnessGoal.MAINTAIN, ...partial });
+
+  beforeAll(() => {
+    jest.useFakeTimers({ now: new Date('2026-06-15T12:00:00Z') });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [NutritionTargetsService, { provide: getRepositoryToken(UserEntity), useValue: userRepository }, { provide: AccessControlService, useValue: accessControlService }],
+    }).compile();
+
+    service = moduleRef.get(NutritionTargetsService);
+  });
+
+  describe('resolveTargets (cálculo)', () => {
+    it('calcula BMR (Mifflin-St Jeor), TDEE y macros para mantener peso', () => {
+      // TDEE = 1780 × 1.55 = 2759 · proteínas 1.6 g/kg · grasas 25% · carbohidratos el resto
+      expect(service.resolveTargets(buildUser())).toEqual({ bmr: 1780, tdee: 2759, calories: 2759, protein: 128, carbs: 389, fat: 77, source: NutritionTargetsSource.CALCULATED });
+    });
+
+    it('suma el superávit para ganar peso y usa el multiplicador de su actividad', () => {
+      // TDEE = 1780 × 1.725 = 3070.5 · +300 kcal · proteínas 1.8 g/kg
+      expect(service.resolveTargets(buildUser({ activityLevel: ActivityLevel.ACTIVE, goal: FitnessGoal.GAIN }))).toMatchObject({ bmr: 1780, tdee: 3071, calories: 3371, protein: 144, carbs: 488, fat: 94 });
+    });
+
+    it('usa la fórmula femenina, la edad exacta y no baja del mínimo seguro al perder peso', () => {
+      // 39 años (cumple mañana): BMR = 600 + 1031.25 − 195 − 161 = 1275.25 · TDEE = 1530.3 · −500 kcal → mínimo 1200
+      const user = buildUser({ sex: BiologicalSex.FEMALE, birthDate: '1986-06-16', weightKg: 60, heightCm: 165, activityLevel: ActivityLevel.SEDENTARY, goal: FitnessGoal.LOSE });
+
+      expect(service.resolveTargets(user)).toEqual({ bmr: 1275, tdee: 1530, calories: 1200, protein: 120, carbs: 105, fat: 33, source: NutritionTargetsSource.CALCULATED });
+    });
+
+    it('devuelve undefined si falta alguna métrica', () => {
+      expect(service.resolveTargets(buildUser({ heightCm: undefined }))).toBeUndefined();
+      expect(service.resolveTargets(buildUser({ birthDate: undefined }))).toBeUndefined();
+    });
+
+    it('prioriza los objetivos del nutricionista y mantiene BMR y TDEE calculados', () => {
+      const override = { calories: 1900, protein: 140, carbs: 190, fat: 60, setById: 9, setAt: '2026-06-01T10:00:00.000Z' };
+
+      expect(service.resolveTargets(buildUser({ nutritionTargetsOverride: override }))).toEqual({ bmr: 1780, tdee: 2759, calories: 1900, protein: 140, carbs: 190, fat: 60, source: NutritionTargetsSource.NUTRITIONIST, overriddenById: 9, overriddenAt: '2026-06-01T10:00:00.000Z' });
+    });
+  });
+
+  describe('getTargets', () => {
+    const viewer = new UserEntity({ id: 5, role: UserRole.USER });
+
+    it('comprueba el acceso a los datos de salud antes de devolver los objetivos', async () => {
+      userRepository.findOne.mockResolvedValue(buildUser());
+
+      await expect(service.getTargets(5, viewer)).resolves.toMatchObject({ calories: 2759 });
+      expect(accessControlService.assertCanAccessHealthDataOf).toHaveBeenCalledWith(viewer, 5);
+    });
+
+    it('propaga el 403 si no puede ver los datos de salud', async () => {
+      userRepository.findOne.mockResolvedValue(buildUser());
+      accessControlService.assertCanAccessHealthDataOf.mockRejectedValueOnce(new ForbiddenException());
+
+      await expect(service.getTargets(5, viewer)).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('indica qué métricas faltan si no se pueden calcular', async () => {
+      userRepository.findOne.mockResolvedValue(buildUser({ heightCm: undefined, activityLevel: undefined }));
+
+      const error = await service.getTargets(5, viewer).catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toMatchObject({ code: ErrorCode.USER_METRICS_MISSING, params: { metrics: 'heightCm, activityLevel' } });
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserEntity } from '../entities/user.entity';
+import { OverrideNutritionTargetsDto } from '../dto/user.dto';
+import { ActivityLevel, BiologicalSex, FitnessGoal, NutritionTargetsSource } from '../interfaces/user.interface';
+import type { NutritionTargets } from '../interfaces/user.interface';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 🚶 Multiplicadores de actividad física para calcular el TDEE
+ */
+const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+  [ActivityLevel.SEDENTARY]: 1.2,
+  [ActivityLevel.LIGHT]: 1.375,
+  [ActivityLevel.MODERATE]: 1.55,
+  [ActivityLevel.ACTIVE]: 1.725,
+  [ActivityLevel.VERY_ACTIVE]: 1.9,
+};
+
+/**
+ * 🎯 Ajuste de calorías (kcal) y proteínas (g por kg de peso) según el objetivo
+ */
+const GOAL_ADJUSTMENTS: Record<FitnessGoal, { calories: number; proteinPerKg: number }> = {
+  [FitnessGoal.LOSE]: { calories: -500, proteinPerKg: 2.0 },
+  [FitnessGoal.MAINTAIN]: { calories: 0, proteinPerKg: 1.6 },
+  [FitnessGoal.GAIN]: { calories: 300, proteinPerKg: 1.8 },
+};
+
+/**
+ * 🛡️ Calorías mínimas recomendadas sin supervisión, según el sexo
+ */
+const MIN_CALORIES: Record<BiologicalSex, number> = {
+  [BiologicalSex.MALE]: 1500,
+  [BiologicalSex.FEMALE]: 1200,
+};
+
+/**
+ * 🧈 Porcentaje de las calorías que se asigna a grasas (el resto de la energía, tras las proteínas, va a carbohidratos)
+ */
+const FAT_CALORIES_RATIO = 0.25;
+
+/**
+ * 🎯 Servicio de objetivos nutricionales - Cálculo de calorías y macros diarios
+ *
+ * Calcula el metabolismo basal (Mifflin-St Jeor), el gasto energético total
+ * (TDEE) y el reparto de macronutrientes a partir de las métricas corporales
+ * del usuario. Si un nutricionista fijó objetivos manuales, esos tienen prioridad.
+ *
+ * @class NutritionTargetsService
+ * @description Calcula y gestiona los objetivos nutricionales de los usuarios
+ */
+@Injectable()
+export class NutritionTargetsService {
+  private readonly logger = new Logger(NutritionTargetsService.name);
+
+  /**
+   * Constructor del servicio
+   * @param userRepository - Repositorio de TypeORM inyectado para UserEntity
+   * @param accessControlService - Reglas de quién puede fijar objetivos manuales
+   */
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    private readonly accessControlService: AccessControlService,
+  ) {}
+
+  /**
+   * 🧮 Obtener los objetivos nutricionales vigentes de un usuario (sin consultar la BD)
+   *
+   * Devuelve los objetivos fijados por el nutricionista si existen; si no,
+   * los calculados. Si faltan métricas y no hay objetivos manuales devuelve undefined.
+   *
+   * @param {UserEntity} user - Usuario con sus métricas corporales cargadas
+   * @returns {NutritionTargets | undefined} Objetivos diarios o undefined
+   *
+   * @example
+   * const targets = nutritionTargetsService.resolveTargets(user);
+   * console.log(targets?.calories); // 2150
+   */
+  resolveTargets(user: UserEntity): NutritionTargets | undefined {
+    const calculated = this.calculateTargets(user);
+    const override = user.nutritionTargetsOverride;
+
+    if (!override) {
+      return calculated;
+    }
+
+    return {
+      bmr: calculated?.bmr,
+      tdee: calculated?.tdee,
+      calories: override.calories,
+      protein: override.protein,
+      carbs: override.carbs,
+      fat: override.fat,
+      source: NutritionTargetsSource.NUTRITIONIST,
+      overriddenById: override.setById,
+      overriddenAt: override.setAt,
+    };
+  }
+
+  /**
+   * 🎯 Obtener los objetivos nutricionales de un usuario por ID
+   *
+   * Son datos de salud: solo el propio usuario, un admin o sus profesionales asignados.
+   *
+   * @param {number} userId - ID del usuario
+   * @param {UserEntity} currentUser - Usuario autenticado que consulta
+   * @returns {Promise<NutritionTargets>} Objetivos diarios vigentes
+   * @throws {BadRequestException} Si el ID no es válido o faltan métricas corporales
+   * @throws {ForbiddenException} Si no es el propio usuario, un admin ni un profesional asignado
+   * @throws {NotFoundException} Si el usuario no existe
+   *
+   * @example
+   * const targets = await nutritionTargetsService.getTargets(1, currentUser);
+   * // { bmr: 1650, tdee: 2558, calories: 2058, protein: 150, carbs: 209, fat: 57, source: 'calculated' }
+   */
+  async getTargets(userId: number, currentUser: UserEntity): Promise<NutritionTargets> {
+    this.logger.log(`🎯 Calculando objetivos nutricionales del usuario ${userId}...`);
+
+    const user = await this.findUser(userId);
+    await this.accessControlService.assertCanAccessHealthDataOf(currentUser, userId);
+    const targets = this.resolveTargets(user);
+
+    if (!targets) {
+      throw new BadRequestException({ code: ErrorCode.USER_METRICS_MISSING, message: `Faltan métricas corporales para calcular los objetivos: ${this.getMissingMetrics(user).join(', ')}`, params: { metrics: this.getMissingMetrics(user).join(', ') } });
+    }
+
+    return targets;
+  }
+
+  /**
+   * ✍️ Fijar manualmente los objetivos nutricionales de un usuario
+   *
+   * Solo el nutricionista asignado al usuario o un admin pueden hacerlo.
+   *
+   * @param {number} userId - ID del cliente
+   * @param {OverrideNutritionTargetsDto} overrideDto - Calorías y macros diarios
+   * @param {UserEntity} currentUser - Nutricionista o admin que fija los objetivos
+   * @returns {Promise<NutritionTargets>} Objetivos vigentes tras el cambio
+   * @throws {ForbiddenException} Si no es el nutricionista asignado ni admin
+   * @throws {NotFoundException} Si el usuario no existe
+   *
+   * @example
+   * await nutritionTargetsService.overrideTargets(5, { calories: 1900, protein: 140, carbs: 190, fat: 60 }, nutritionist);
+   */
+  async overrideTargets(userId: number, overrideDto: OverrideNutritionTargetsDto, currentUser: UserEntity): Promise<NutritionTargets> {
+    this.logger.log(`✍️ Fijando objetivos nutricionales del usuario ${userId}`, overrideDto);
+
+    const user = await this.findUser(userId);
+    await this.accessControlService.assertCanOverrideNutritionTargetsOf(currentUser, userId);
+
+    user.nutritionTargetsOverride = {
+      calories: overrideDto.calories,
+      protein: overrideDto.protein,
+      carbs: overrideDto.carbs,
+      fat: overrideDto.fat,
+      setById: currentUser.id,
+      setAt: new Date().toISOString(),
+    };
+
+    const updatedUser = await this.userRepository.save(user);
+    this.logger.log(`✅ Objetivos nutricionales del usuario ${userId} fijados por el usuario ${currentUser.id}`);
+
+    return this.resolveTargets(updatedUser) as NutritionTargets;
+  }
+
+  /**
+   * ♻️ Eliminar los objetivos manuales y volver a los calculados
+   *
+   * @param {number} userId - ID del cliente
+   * @param {UserEntity} currentUser - Nutricionista o admin que elimina los objetivos
+   * @returns {Promise<NutritionTargets | undefined>} Objetivos calculados (undefined si faltan métricas)
+   * @throws {ForbiddenException} Si no es el nutricionista asignado ni admin
+   * @throws {NotFoundException} Si el usuario no existe
+   */
+  async clearOverride(userId: number, currentUser: UserEntity): Promise<NutritionTargets | undefined> {
+    this.logger.log(`♻️ Eliminando objetivos manuales del usuario ${userId}...`);
+
+    const user = await this.findUser(userId);
+    await this.accessControlService.assertCanOverrideNutritionTargetsOf(currentUser, userId);
+    user.nutritionTargetsOverride = null;
+
+    const updatedUser = await this.userRepository.save(user);
+    return this.resolveTargets(updatedUser);
+  }
+
+  /**
+   * 🧮 Método privado que calcula BMR, TDEE y macros a partir de las métricas
+   *
+   * - BMR (Mifflin-St Jeor): 10·peso + 6.25·altura − 5·edad + (5 hombres | −161 mujeres)
+   * - TDEE: BMR × multiplicador de actividad
+   * - Calorías: TDEE ajustado según el objetivo, nunca por debajo del mínimo seguro
+   * - Proteínas por kg de peso, grasas 25% de las calorías, carbohidratos el resto
+   *
+   * @param {UserEntity} user - Usuario con sus métricas corporales
+   * @returns {NutritionTargets | undefined} Objetivos calculados o undefined si faltan datos
+   * @private
+   */
+  private calculateTargets(user: UserEntity): NutritionTargets | undefined {
+    const age = user.getAge();
+
+    if (!user.sex || age === undefined || !user.heightCm || !user.weightKg || !user.activityLevel || !user.goal) {
+      return undefined;
+    }
+
+    const sexOffset = user.sex === BiologicalSex.MALE ? 5 : -161;
+    const bmr = 10 * user.weightKg + 6.25 * user.heightCm - 5 * age + sexOffset;
+    const tdee = bmr * ACTIVITY_MULTIPLIERS[user.activityLevel];
+
+    const adjustment = GOAL_ADJUSTMENTS[user.goal];
+    const calories = Math.max(tdee + adjustment.calories, MIN_CALORIES[user.sex]);
+    const protein = user.weightKg * adjustment.proteinPerKg;
+    const fat = (calories * FAT_CALORIES_RATIO) / 9;
+    const carbs = Math.max((calories - protein * 4 - fat * 9) / 4, 0);
+
+    return {
+      bmr: Math.round(bmr),
+      tdee: Math.round(tdee),
+      calories: Math.round(calories),
+      protein: Math.round(protein),
+      carbs: Math.round(carbs),
+      fat: Math.round(fat),
+      source: NutritionTargetsSource.CALCULATED,
+    };
+  }
+
+  /**
+   * 📋 Método privado que lista las métricas que faltan para el cálculo
+   * @private
+   */
+  private getMissingMetrics(user: UserEntity): string[] {
+    const metrics: Record<string, unknown> = {
+      sex: user.sex,
+      birthDate: user.birthDate,
+      heightCm: user.heightCm,
+      weightKg: user.weightKg,
+      activityLevel: user.activityLevel,
+      goal: user.goal,
+    };
+
+    return Object.keys(metrics).filter((key) => metrics[key] === undefined || metrics[key] === null);
+  }
+
+  /**
+   * 🔍 Método privado para cargar el usuario o lanzar 404
+   * @private
+   */
+  private async findUser(userId: number): Promise<UserEntity> {
+    if (isNaN(userId)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${userId} no encontrado`, params: { id: userId } });
+    }
+
+    return user;
+  }
+}
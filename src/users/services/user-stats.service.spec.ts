@@ -0,0 +1,98 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { UserStatsService } from './user-stats.service';
+import { UserEntity } from '../entities/user.entity';
+import { UserRole } from '../interfaces/user.interface';
+import { WorkoutSessionEntity } from '../../workout-sessions/entities/workout-session.entity';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { CalorieEstimationService } from '../../workout-types/services/calorie-estimation.service';
+
+describe('UserStatsService', () => {
+  let service: UserStatsService;
+  let sessions: WorkoutSessionEntity[];
+  const userRepository = { findOne: jest.fn(), update: jest.fn() };
+  const workoutSessionRepository = { find: jest.fn(() => Promise.resolve(sessions)) };
+
+  const buildSession = (sessionDate: string) => Object.assign(new WorkoutSessionEntity(), { sessionDate, startedAt: new Date(`${sessionDate}T18:00:00Z`), endedAt: new Date(`${sessionDate}T19:00:00Z`) });
+
+  /**
+   * Recalcular las rachas de un usuario en su zona horaria con las sesiones de esos días
+   */
+  const streaksFor = async (timezone: string, sessionDates: string[]) => {
+    sessions = sessionDates.map(buildSession);
+    userRepository.findOne.mockResolvedValue(new UserEntity({ id: 1, role: UserRole.USER, timezone }));
+
+    const { currentStreak, longestStreak } = await service.recalculate(1);
+    return { currentStreak, longestStreak };
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [UserStatsService, { provide: getRepositoryToken(UserEntity), useValue: userRepository }, { provide: getRepositoryToken(WorkoutSessionEntity), useValue: workoutSessionRepository }, { provide: AccessControlService, useValue: {} }, { provide: CalorieEstimationService, useValue: { estimateSession: jest.fn(() => 0) } }],
+    }).compile();
+
+    service = moduleRef.get(UserStatsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('rachas', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-10-14T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    });
+
+    it('sin sesiones las rachas son 0', async () => {
+      expect(await streaksFor('UTC', [])).toEqual({ currentStreak: 0, longestStreak: 0 });
+    });
+
+    it('cuenta los días consecutivos (varias sesiones el mismo día cuentan una vez)', async () => {
+      expect(await streaksFor('UTC', ['2026-10-12', '2026-10-13', '2026-10-13', '2026-10-14'])).toEqual({ currentStreak: 3, longestStreak: 3 });
+    });
+
+    it('mantiene viva la racha actual si el último entrenamiento fue ayer y la corta si fue antes', async () => {
+      expect(await streaksFor('UTC', ['2026-10-12', '2026-10-13'])).toEqual({ currentStreak: 2, longestStreak: 2 });
+      expect(await streaksFor('UTC', ['2026-10-11', '2026-10-12'])).toEqual({ currentStreak: 0, longestStreak: 2 });
+    });
+
+    it('distingue la racha más larga de la actual', async () => {
+      expect(await streaksFor('UTC', ['2026-09-01', '2026-09-02', '2026-09-03', '2026-09-04', '2026-10-10', '2026-10-13', '2026-10-14'])).toEqual({ currentStreak: 2, longestStreak: 4 });
+    });
+
+    it('cuenta días consecutivos a través de un fin de mes y de un cambio de hora', async () => {
+      jest.setSystemTime(new Date('2026-10-26T12:00:00Z'));
+
+      // En Madrid la hora cambia la madrugada del 25/10/2026 (el día dura 25 horas)
+      expect(await streaksFor('Europe/Madrid', ['2026-09-29', '2026-09-30', '2026-10-01', '2026-10-24', '2026-10-25', '2026-10-26'])).toEqual({ currentStreak: 3, longestStreak: 3 });
+    });
+  });
+
+  describe('rachas en el cambio de día según la zona horaria', () => {
+    // Las 23:30 UTC del 19/10 son el 20/10 en Madrid (UTC+2) pero todavía el 19/10 en Los Ángeles (UTC−7)
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-10-19T23:30:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    });
+
+    it('con el último entrenamiento el 18/10 la racha sigue viva en Los Ángeles (fue ayer)', async () => {
+      expect(await streaksFor('America/Los_Angeles', ['2026-10-17', '2026-10-18'])).toEqual({ currentStreak: 2, longestStreak: 2 });
+    });
+
+    it('con el último entrenamiento el 18/10 la racha se rompe en Madrid (ya fue anteayer)', async () => {
+      expect(await streaksFor('Europe/Madrid', ['2026-10-17', '2026-10-18'])).toEqual({ currentStreak: 0, longestStreak: 2 });
+    });
+
+    it('un entrenamiento del 20/10 en Madrid (ya es hoy allí) continúa la racha', async () => {
+      expect(await streaksFor('Europe/Madrid', ['2026-10-18', '2026-10-19', '2026-10-20'])).toEqual({ currentStreak: 3, longestStreak: 3 });
+    });
+
+    it('guarda las rachas calculadas en las estadísticas del usuario', async () => {
+      await streaksFor('America/Los_Angeles', ['2026-10-19']);
+
+      expect(userRepository.update).toHaveBeenCalledTimes(1);
+      expect(userRepository.update.mock.calls[0]).toMatchObject([{ id: 1 }, { stats: { totalWorkouts: 1, currentStreak: 1, longestStreak: 1 } }]);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserEntity } from '../entities/user.entity';
+import type { UserStats } from '../interfaces/user.interface';
+import { WorkoutSessionEntity } from '../../workout-sessions/entities/workout-session.entity';
+import { WorkoutSessionStatus } from '../../workout-sessions/interfaces/workout-session.interface';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { CalorieEstimationService } from '../../workout-types/services/calorie-estimation.service';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 🎯 Meta mensual de entrenamientos si el usuario no fijó una
+ */
+const DEFAULT_MONTHLY_GOAL = 12;
+
+/**
+ * 📅 Milisegundos de un día (para aritmética de fechas YYYY-MM-DD)
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 📈 Servicio de estadísticas de usuario - Cálculo a partir de la actividad real
+ *
+ * Recalcula las estadísticas guardadas en UserEntity.stats a partir de las
+ * sesiones de entrenamiento completadas. Se llama cada vez que cambia la
+ * actividad del usuario (sesiones finalizadas, editadas o eliminadas).
+ * Las rachas y el progreso mensual usan la zona horaria del usuario.
+ *
+ * @class UserStatsService
+ * @description Calcula y persiste las estadísticas de actividad de los usuarios
+ */
+@Injectable()
+export class UserStatsService {
+  private readonly logger = new Logger(UserStatsService.name);
+
+  /**
+   * Constructor del servicio
+   * @param userRepository - Repositorio de TypeORM inyectado para UserEntity
+   * @param workoutSessionRepository - Repositorio para leer las sesiones completadas
+   * @param accessControlService - Reglas de quién puede cambiar la meta mensual
+   * @param calorieEstimationService - Calorías estimadas de las sesiones sin calorías reales
+   */
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    @InjectRepository(WorkoutSessionEntity)
+    private readonly workoutSessionRepository: Repository<WorkoutSessionEntity>,
+    private readonly accessControlService: AccessControlService,
+    private readonly calorieEstimationService: CalorieEstimationService,
+  ) {}
+
+  /**
+   * 🔄 Recalcular y guardar las estadísticas de un usuario
+   *
+   * Solo cuentan las sesiones activas con estado completed. Conserva la
+   * meta mensual que ya tuviera el usuario.
+   *
+   * @param {number} userId - ID del usuario
+   * @returns {Promise<UserStats>} Estadísticas recalculadas
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si el usuario no existe
+   *
+   * @example
+   * const stats = await userStatsService.recalculate(1);
+   * console.log(stats.currentStreak); // 4
+   */
+  async recalculate(userId: number): Promise<UserStats> {
+    this.logger.log(`📈 Recalculando estadísticas del usuario ${userId}...`);
+
+    const user = await this.findUser(userId);
+    const stats = await this.calculateStats(user, user.stats?.monthlyGoal ?? DEFAULT_MONTHLY_GOAL);
+
+    await this.userRepository.update({ id: userId }, { stats });
+    this.logger.log(`✅ Estadísticas del usuario ${userId} actualizadas: ${stats.totalWorkouts} entrenamientos, racha ${stats.currentStreak}`);
+
+    return stats;
+  }
+
+  /**
+   * 🎯 Fijar la meta mensual de entrenamientos de un usuario
+   *
+   * Solo el propio usuario o un administrador. Recalcula el progreso del mes.
+   *
+   * @param {number} userId - ID del usuario
+   * @param {number} monthlyGoal - Entrenamientos completados por mes
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<UserStats>} Estadísticas con la nueva meta
+   * @throws {ForbiddenException} Si no es el propio usuario ni admin
+   * @throws {NotFoundException} Si el usuario no existe
+   *
+   * @example
+   * const stats = await userStatsService.setMonthlyGoal(1, 16, currentUser);
+   * console.log(stats.monthlyProgress); // 25
+   */
+  async setMonthlyGoal(userId: number, monthlyGoal: number, currentUser: UserEntity): Promise<UserStats> {
+    this.logger.log(`🎯 Fijando meta mensual del usuario ${userId} en ${monthlyGoal} entrenamientos`);
+
+    this.accessControlService.assertCanManageUser(currentUser, userId);
+
+    const user = await this.findUser(userId);
+    const stats = await this.calculateStats(user, monthlyGoal);
+
+    await this.userRepository.update({ id: userId }, { stats });
+    return stats;
+  }
+
+  /**
+   * 🧮 Método privado para calcular las estadísticas desde las sesiones completadas
+   *
+   * @param {UserEntity} user - Usuario (se usa su zona horaria)
+   * @param {number} monthlyGoal - Meta mensual a aplicar
+   * @returns {Promise<UserStats>} Estadísticas calculadas
+   * @private
+   */
+  private async calculateStats(user: UserEntity, monthlyGoal: number): Promise<UserStats> {
+    const sessions = await this.workoutSessionRepository.find({
+      where: { userId: user.id, status: WorkoutSessionStatus.COMPLETED, isActive: true },
+      relations: { workoutDay: true },
+      order: { sessionDate: 'ASC' },
+    });
+
+    const today = user.getLocalDate();
+    const { currentStreak, longestStreak } = this.calculateStreaks(
+      sessions.map((session) => session.sessionDate),
+      today,
+    );
+
+    const durations = sessions.map((session) => session.getDurationMinutes()).filter((minutes): minutes is number => minutes !== undefined);
+    const averageWorkoutDuration = durations.length > 0 ? Math.round(durations.reduce((sum, minutes) => sum + minutes, 0) / durations.length) : 0;
+
+    const currentMonth = today.slice(0, 7);
+    const workoutsThisMonth = sessions.filter((session) => session.sessionDate.startsWith(currentMonth)).length;
+
+    return {
+      totalWorkouts: sessions.length,
+      currentStreak,
+      longestStreak,
+      totalCaloriesBurned: sessions.reduce((sum, session) => sum + (session.caloriesBurned ?? this.calorieEstimationService.estimateSession(session, user.weightKg) ?? 0), 0), // Reales (wearable) o estimadas
+      averageWorkoutDuration,
+      favoriteWorkoutType: this.findFavoriteWorkoutType(sessions),
+      monthlyGoal,
+      monthlyProgress: Math.min(100, Math.round((workoutsThisMonth / monthlyGoal) * 100)),
+    };
+  }
+
+  /**
+   * 🔥 Método privado para calcular la racha actual y la más larga
+   *
+   * Una racha son días del calendario consecutivos con al menos un entrenamiento.
+   * La racha actual sigue viva si el último entrenamiento fue hoy o ayer
+   * (en la zona horaria del usuario), para no romperla antes de que acabe el día.
+   *
+   * @param {string[]} sessionDates - Días con entrenamiento (YYYY-MM-DD, ordenados)
+   * @param {string} today - Hoy en la zona horaria del usuario (YYYY-MM-DD)
+   * @returns {{ currentStreak: number; longestStreak: number }} Rachas en días
+   * @private
+   */
+  private calculateStreaks(sessionDates: string[], today: string): { currentStreak: number; longestStreak: number } {
+    const days = [...new Set(sessionDates)].sort();
+    if (days.length === 0) {
+      return { currentStreak: 0, longestStreak: 0 };
+    }
+
+    let longestStreak = 1;
+    let runLength = 1;
+    for (let i = 1; i < days.length; i++) {
+      runLength = this.daysBetween(days[i - 1], days[i]) === 1 ? runLength + 1 : 1;
+      longestStreak = Math.max(longestStreak, runLength);
+    }
+
+    // runLength es ahora la racha que termina en el último día entrenado
+    const daysSinceLastWorkout = this.daysBetween(days[days.length - 1], today);
+    const currentStreak = daysSinceLastWorkout <= 1 ? runLength : 0;
+
+    return { currentStreak, longestStreak };
+  }
+
+  /**
+   * ❤️ Método privado para obtener el tipo de entrenamiento más frecuente (su código)
+   * En caso de empate gana el más reciente
+   * @private
+   */
+  private findFavoriteWorkoutType(sessions: WorkoutSessionEntity[]): string | undefined {
+    const counts = new Map<string, number>();
+    let favorite: string | undefined;
+
+    for (const session of sessions) {
+      const workoutType = session.workoutDay?.workoutType?.code;
+      if (!workoutType) continue;
+
+      const count = (counts.get(workoutType) ?? 0) + 1;
+      counts.set(workoutType, count);
+      if (!favorite || count >= (counts.get(favorite) ?? 0)) {
+        favorite = workoutType;
+      }
+    }
+
+    return favorite;
+  }
+
+  /**
+   * 👤 Método privado para cargar un usuario o lanzar 404
+   * @private
+   */
+  private async findUser(userId: number): Promise<UserEntity> {
+    if (isNaN(userId)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${userId} no encontrado`, params: { id: userId } });
+    }
+
+    return user;
+  }
+
+  /**
+   * 📅 Método privado para contar los días entre dos fechas YYYY-MM-DD
+   * @private
+   */
+  private daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+  }
+}
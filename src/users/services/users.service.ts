@@ -1,9 +1,38 @@
-import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, ConflictException, BadRequestException, Logger, StreamableFile } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Like } from 'typeorm';
+import { Repository, In, MoreThan, EntityManager } from 'typeorm';
 import { UserEntity } from '../entities/user.entity';
-import { CreateUserDto, UpdateUserDto, SearchUserDto, UserResponseDto } from '../dto/user.dto';
-import { UserStatus } from '../interfaces/user.interface';
+import { CreateUserDto, UpdateUserDto, SearchUserDto, UserListQueryDto, UserResponseDto, UserPublicResponseDto } from '../dto/user.dto';
+import { UserRole, UserStatus, UserSortField } from '../interfaces/user.interface';
+import { PaginationService } from '../../common/services/pagination.service';
+import { QueryFiltersService } from '../../common/services/query-filters.service';
+import { SortDirection } from '../../common/interfaces/pagination.interface';
+import type { Paginated, SortFieldDefinition } from '../../common/interfaces/pagination.interface';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { EmailVerificationService } from '../../auth/services/email-verification.service';
+import { NutritionTargetsService } from './nutrition-targets.service';
+import { UserStatsService } from './user-stats.service';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+import { BulkDataService } from '../../common/services/bulk-data.service';
+import { ImportQueryDto, ExportQueryDto } from '../../common/dto/bulk-data.dto';
+import { DataFormat, ImportRowStatus } from '../../common/interfaces/bulk-data.interface';
+import type { BulkColumn, ImportReport } from '../../common/interfaces/bulk-data.interface';
+
+/**
+ * 🏆 Campos de orden permitidos en los listados de usuarios (el ID siempre desempata)
+ */
+const USER_SORT_FIELDS: Record<UserSortField, SortFieldDefinition> = {
+  [UserSortField.ID]: { columns: [], defaultOrder: SortDirection.ASC },
+  [UserSortField.NAME]: { columns: ['name'], defaultOrder: SortDirection.ASC },
+  [UserSortField.EMAIL]: { columns: ['email'], defaultOrder: SortDirection.ASC },
+  [UserSortField.CREATED_AT]: { columns: ['createdAt'], defaultOrder: SortDirection.DESC },
+};
+
+/**
+ * 📋 Columnas de la importación/exportación masiva de usuarios
+ * Las de solo lectura se exportan pero se ignoran al importar (la contraseña nunca se exporta)
+ */
+const USER_BULK_COLUMNS: BulkColumn[] = [{ name: 'id', type: 'number', readOnly: true }, { name: 'name' }, { name: 'email' }, { name: 'password' }, { name: 'role' }, { name: 'status', readOnly: true }, { name: 'avatar' }, { name: 'bio' }, { name: 'phone' }, { name: 'location' }, { name: 'specialties', type: 'list' }, { name: 'createdAt', readOnly: true }];
 
 /**
  * 🏪 Servicio de usuarios - Lógica de negocio con Base de Datos
@@ -17,35 +46,54 @@ import { UserStatus } from '../interfaces/user.interface';
  */
 @Injectable()
 export class UsersService {
+  private readonly logger = new Logger(UsersService.name);
+
   /**
    * Constructor del servicio
    * @param userRepository - Repositorio de TypeORM inyectado para UserEntity
+   * @param accessControlService - Reglas de propiedad (quién puede editar a quién)
+   * @param emailVerificationService - Envío del correo de verificación a usuarios nuevos
+   * @param nutritionTargetsService - Cálculo de los objetivos nutricionales que se incluyen en la respuesta
+   * @param userStatsService - Recálculo de estadísticas cuando cambia la zona horaria
+   * @param paginationService - Orden, paginación y sobre estándar de los listados
+   * @param queryFiltersService - Filtro por rango de fechas y búsquedas parciales (LIKE escapado) de la búsqueda
+   * @param bulkDataService - Importación y exportación masiva (CSV/JSON)
    */
   constructor(
     @InjectRepository(UserEntity)
     private readonly userRepository: Repository<UserEntity>,
+    private readonly accessControlService: AccessControlService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly nutritionTargetsService: NutritionTargetsService,
+    private readonly userStatsService: UserStatsService,
+    private readonly paginationService: PaginationService,
+    private readonly queryFiltersService: QueryFiltersService,
+    private readonly bulkDataService: BulkDataService,
   ) {}
 
   /**
-   * 📋 Obtener todos los usuarios activos desde la BD
+   * 📋 Obtener los usuarios activos desde la BD (paginado)
    *
-   * Este método obtiene todos los usuarios que tienen status = ACTIVE.
+   * Este método obtiene los usuarios que tienen status = ACTIVE.
    * Los usuarios "eliminados" tienen status = INACTIVE (eliminación lógica).
+   * Los datos de contacto y de salud solo se incluyen en los usuarios que
+   * el usuario autenticado puede ver (él mismo, sus clientes o todos si es admin).
    *
-   * @returns {Promise<UserResponseDto[]>} Lista de usuarios activos ordenados por ID
+   * @param {UserListQueryDto} queryDto - Página o cursor, tamaño y orden (default: por ID ascendente)
+   * @param {UserEntity} currentUser - Usuario autenticado que consulta
+   * @returns {Promise<Paginated<UserResponseDto | UserPublicResponseDto>>} Página de usuarios activos con el total
+   * @throws {BadRequestException} Si se envían page y cursor a la vez o el cursor no es válido
    * @example
-   * const usuarios = await usersService.findAll();
-   * console.log(usuarios); // [UserResponseDto, UserResponseDto, ...]
+   * const pagina = await usersService.findAll({ page: 1, limit: 20 }, currentUser);
+   * console.log(pagina.total, pagina.items); // 42 [UserResponseDto, UserPublicResponseDto, ...]
    */
-  async findAll(): Promise<UserResponseDto[]> {
-    console.log('📋 Obteniendo usuarios activos desde la base de datos...');
+  async findAll(queryDto: UserListQueryDto, currentUser: UserEntity): Promise<Paginated<UserResponseDto | UserPublicResponseDto>> {
+    this.logger.log('📋 Obteniendo usuarios activos desde la base de datos...', queryDto);
 
-    const users = await this.userRepository.find({
-      where: { status: UserStatus.ACTIVE }, // Solo usuarios activos
-      order: { id: 'ASC' }, // Ordenar por ID ascendente
-    });
+    const queryBuilder = this.userRepository.createQueryBuilder('user').where('user.status = :status', { status: UserStatus.ACTIVE }); // Solo usuarios activos
 
-    return users.map((user) => this.mapToResponseDto(user));
+    const result = await this.paginationService.paginate(queryBuilder, queryDto, { fields: USER_SORT_FIELDS, defaultSort: UserSortField.ID });
+    return { ...result, items: await this.mapForViewer(result.items, currentUser) };
   }
 
   /**
@@ -53,36 +101,49 @@ export class UsersService {
    *
    * Permite buscar usuarios aplicando diferentes filtros.
    * Los filtros se pueden combinar para búsquedas más específicas.
+   * Solo los admins ven usuarios no activos y pueden buscar por email; los
+   * datos de contacto y de salud se incluyen como en findAll.
    *
-   * @param {SearchUserDto} searchUserDto - Objeto con los filtros de búsqueda
-   * @returns {Promise<UserResponseDto[]>} Lista de usuarios que cumplen los filtros
-   * @throws {BadRequestException} Si los parámetros de búsqueda son inválidos
+   * @param {SearchUserDto} searchUserDto - Objeto con los filtros de búsqueda, paginación y orden (default: más recientes primero)
+   * @param {UserEntity} currentUser - Usuario autenticado que busca
+   * @returns {Promise<Paginated<UserResponseDto | UserPublicResponseDto>>} Página de usuarios que cumplen los filtros con el total
+   * @throws {BadRequestException} Si los parámetros de búsqueda o el cursor son inválidos, o createdFrom es posterior a createdTo
+   * @throws {ForbiddenException} Si busca por email sin ser administrador
    *
    * @example
    * // Buscar por nombre
-   * const usuarios = await usersService.search({ name: 'Ana' });
+   * const usuarios = await usersService.search({ name: 'Ana' }, currentUser);
    *
    * // Buscar por múltiples criterios
    * const usuarios = await usersService.search({
    *   name: 'Carlos',
    *   role: UserRole.TRAINER,
    *   status: UserStatus.ACTIVE
-   * });
+   * }, adminUser);
+   *
+   * // Entrenadores y nutricionistas con especialidad en yoga registrados en enero
+   * const usuarios = await usersService.search({
+   *   roles: [UserRole.TRAINER, UserRole.NUTRITIONIST],
+   *   specialties: ['yoga'],
+   *   createdFrom: '2025-01-01',
+   *   createdTo: '2025-01-31'
+   * }, currentUser);
    */
-  async search(searchUserDto: SearchUserDto): Promise<UserResponseDto[]> {
-    console.log('🔍 Buscando usuarios con filtros en la BD:', searchUserDto);
+  async search(searchUserDto: SearchUserDto, currentUser: UserEntity): Promise<Paginated<UserResponseDto | UserPublicResponseDto>> {
+    this.logger.log('🔍 Buscando usuarios con filtros en la BD', searchUserDto);
 
     // Objeto para construir las condiciones WHERE dinámicamente
     const whereConditions: Record<string, any> = {};
 
-    // Filtrar por nombre (búsqueda parcial con LIKE)
+    // Filtrar por nombre (búsqueda parcial con LIKE, % y _ se buscan literalmente)
     if (searchUserDto.name) {
-      whereConditions.name = Like(`%${searchUserDto.name}%`);
+      whereConditions.name = this.queryFiltersService.likeContains('name', searchUserDto.name);
     }
 
-    // Filtrar por email (búsqueda parcial con LIKE)
+    // Filtrar por email (búsqueda parcial con LIKE, solo admins: el email no es público)
     if (searchUserDto.email) {
-      whereConditions.email = Like(`%${searchUserDto.email}%`);
+      this.accessControlService.assertIsAdmin(currentUser, 'Solo los administradores pueden buscar usuarios por email');
+      whereConditions.email = this.queryFiltersService.likeContains('email', searchUserDto.email);
     }
 
     // Filtrar por rol
@@ -97,15 +158,69 @@ export class UsersService {
 
     // Filtrar por ubicación (búsqueda parcial con LIKE)
     if (searchUserDto.location) {
-      whereConditions.location = Like(`%${searchUserDto.location}%`);
+      whereConditions.location = this.queryFiltersService.likeContains('location', searchUserDto.location);
+    }
+
+    const queryBuilder = this.userRepository.createQueryBuilder('user').where(whereConditions);
+
+    // Filtrar por varios roles o estados (cualquiera de ellos)
+    if (searchUserDto.roles?.length) {
+      queryBuilder.andWhere('user.role IN (:...roles)', { roles: searchUserDto.roles });
+    }
+
+    if (searchUserDto.statuses?.length) {
+      queryBuilder.andWhere('user.status IN (:...statuses)', { statuses: searchUserDto.statuses });
     }
 
-    const users = await this.userRepository.find({
-      where: whereConditions,
-      order: { createdAt: 'DESC' }, // Más recientes primero
+    // Los usuarios que no son admin solo encuentran usuarios activos
+    if (!currentUser.isAdmin()) {
+      queryBuilder.andWhere('user.status = :activeStatus', { activeStatus: UserStatus.ACTIVE });
+    }
+
+    // Filtrar por especialidades: debe tenerlas todas (simple-json guarda ["yoga","hiit"], se busca cada una entre comillas)
+    searchUserDto.specialties?.forEach((specialty, index) => {
+      queryBuilder.andWhere(this.queryFiltersService.likeCondition('LOWER(user.specialties)', `specialty${index}`), { [`specialty${index}`]: this.queryFiltersService.containsPattern(`"${specialty.toLowerCase()}"`) });
     });
 
-    return users.map((user) => this.mapToResponseDto(user));
+    // Filtrar por fecha de registro (días UTC inclusivos)
+    this.queryFiltersService.applyDateRange(queryBuilder, 'createdAt', searchUserDto.createdFrom, searchUserDto.createdTo);
+
+    const result = await this.paginationService.paginate(queryBuilder, searchUserDto, { fields: USER_SORT_FIELDS, defaultSort: UserSortField.CREATED_AT }); // Más recientes primero
+    return { ...result, items: await this.mapForViewer(result.items, currentUser) };
+  }
+
+  /**
+   * 👀 Obtener el perfil de un usuario tal como lo puede ver el usuario autenticado
+   *
+   * El propio usuario, un admin o sus profesionales asignados reciben todos
+   * los datos; el resto, el perfil público (y solo de usuarios activos).
+   *
+   * @param {number} id - ID del usuario a consultar
+   * @param {UserEntity} currentUser - Usuario autenticado que consulta
+   * @returns {Promise<UserResponseDto | UserPublicResponseDto>} Perfil completo o público
+   * @throws {BadRequestException} Si el ID no es un número válido
+   * @throws {NotFoundException} Si el usuario no existe (o no está activo y no tiene acceso a sus datos)
+   *
+   * @example
+   * const perfil = await usersService.findProfile(4, currentUser);
+   * console.log('weightKg' in perfil); // false si no es su cliente
+   */
+  async findProfile(id: number, currentUser: UserEntity): Promise<UserResponseDto | UserPublicResponseDto> {
+    this.logger.log(`🔍 Buscando perfil del usuario con ID: ${id} en la BD`);
+
+    if (isNaN(id)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const user = await this.userRepository.findOne({ where: { id } });
+    const canAccessHealthData = (await this.accessControlService.findHealthDataAccessibleIds(currentUser, [id])).has(id);
+
+    // Los usuarios no activos solo existen para quien puede ver sus datos
+    if (!user || (!canAccessHealthData && user.status !== UserStatus.ACTIVE)) {
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${id} no encontrado`, params: { id } });
+    }
+
+    return canAccessHealthData ? this.mapToResponseDto(user) : this.mapToPublicResponseDto(user);
   }
 
   /**
@@ -125,11 +240,11 @@ export class UsersService {
    * console.log(usuario.role); // UserRole.USER
    */
   async findOne(id: number): Promise<UserResponseDto> {
-    console.log(`🔍 Buscando usuario con ID: ${id} en la BD`);
+    this.logger.log(`🔍 Buscando usuario con ID: ${id} en la BD`);
 
     // Validar que el ID sea un número válido
     if (isNaN(id)) {
-      throw new BadRequestException('ID debe ser un número válido');
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
     }
 
     const user = await this.userRepository.findOne({
@@ -137,7 +252,7 @@ export class UsersService {
     });
 
     if (!user) {
-      throw new NotFoundException(`Usuario con ID ${id} no encontrado`);
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${id} no encontrado`, params: { id } });
     }
 
     return this.mapToResponseDto(user);
@@ -147,7 +262,8 @@ export class UsersService {
    * ➕ Crear un nuevo usuario en la BD
    *
    * Crea un nuevo usuario después de validar que el email sea único.
-   * El usuario se crea siempre como activo (status = ACTIVE).
+   * El usuario se crea siempre como pendiente (status = PENDING) y se le
+   * envía el correo de verificación para activar la cuenta.
    *
    * @param {CreateUserDto} createUserDto - Datos validados del nuevo usuario
    * @returns {Promise<UserResponseDto>} El usuario recién creado con ID asignado
@@ -162,34 +278,82 @@ export class UsersService {
    * console.log(nuevoUsuario.id); // ID auto-generado
    */
   async create(createUserDto: CreateUserDto): Promise<UserResponseDto> {
-    console.log('➕ Creando nuevo usuario en la BD:', createUserDto);
+    this.logger.log(`➕ Creando nuevo usuario en la BD (rol: ${createUserDto.role ?? UserRole.USER})`); // Sin el DTO: lleva email, teléfono y contraseña
 
-    // Validar que el email no exista (emails deben ser únicos)
-    const existingUser = await this.userRepository.findOne({
-      where: { email: createUserDto.email },
-    });
+    const savedUser = await this.insertUser(createUserDto, this.userRepository.manager);
 
-    if (existingUser) {
-      throw new ConflictException(`Ya existe un usuario con el email ${createUserDto.email}`);
-    }
+    await this.emailVerificationService.sendVerificationEmail(savedUser);
 
-    // Crear el nuevo usuario con datos limpios
-    const user = this.userRepository.create({
-      name: createUserDto.name.trim(), // Remover espacios extra
-      email: createUserDto.email.toLowerCase().trim(), // Email en minúsculas
-      role: createUserDto.role, // Rol especificado o default
-      avatar: createUserDto.avatar,
-      status: UserStatus.ACTIVE, // Siempre activo al crear
-      bio: createUserDto.bio,
-      phone: createUserDto.phone,
-      location: createUserDto.location,
-      specialties: createUserDto.specialties,
-    });
+    return this.mapToResponseDto(savedUser);
+  }
+
+  /**
+   * 📥 Importar usuarios desde un CSV o una lista JSON
+   *
+   * Cada fila se valida como el cuerpo de POST /users y se crea igual
+   * (pendiente de verificar, email único también dentro del fichero).
+   * Con dryRun solo se valida. Los correos de verificación se envían
+   * solo si la importación se guarda.
+   *
+   * @param {unknown} body - CSV con cabecera o lista JSON de usuarios
+   * @param {ImportQueryDto} queryDto - dryRun y modo (all_or_nothing o skip_invalid)
+   * @returns {Promise<ImportReport>} Informe con el resultado de cada fila
+   * @throws {BadRequestException} Si el formato no es válido, está vacío, tiene demasiadas filas o columnas desconocidas
+   *
+   * @example
+   * const informe = await usersService.import('name,email,role\nAna,ana@email.com,trainer', { dryRun: true });
+   * console.log(informe.succeeded, informe.failed); // 1 0
+   */
+  async import(body: unknown, queryDto: ImportQueryDto): Promise<ImportReport> {
+    const rows = this.bulkDataService.parseRows(body, USER_BULK_COLUMNS);
+    this.logger.log(`📥 Importando ${rows.length} usuarios (dryRun: ${queryDto.dryRun ?? false}, modo: ${queryDto.mode ?? 'all_or_nothing'})`);
 
-    const savedUser = await this.userRepository.save(user);
-    console.log('✅ Usuario creado exitosamente en la BD:', savedUser);
+    const report = await this.bulkDataService.runImport(rows, CreateUserDto, queryDto, async (createUserDto, manager) => (await this.insertUser(createUserDto, manager)).id);
 
-    return this.mapToResponseDto(savedUser);
+    if (report.committed) {
+      const createdIds = report.rows.filter((row) => row.status === ImportRowStatus.CREATED).map((row) => row.id as number);
+      for (const user of await this.userRepository.findBy({ id: In(createdIds) })) {
+        await this.emailVerificationService.sendVerificationEmail(user);
+      }
+    }
+
+    this.logger.log(`✅ Importación de usuarios: ${report.succeeded} válidos, ${report.failed} con errores (guardada: ${report.committed})`);
+    return report;
+  }
+
+  /**
+   * 📤 Exportar los usuarios en CSV o JSON (streaming)
+   *
+   * Incluye todos los usuarios (cualquier estado) con las mismas columnas
+   * que acepta la importación más id, status y createdAt. Nunca incluye
+   * la contraseña.
+   *
+   * @param {ExportQueryDto} queryDto - Formato (default: csv)
+   * @returns {StreamableFile} Fichero users.csv o users.json
+   *
+   * @example
+   * const fichero = usersService.export({ format: DataFormat.JSON });
+   */
+  export(queryDto: ExportQueryDto): StreamableFile {
+    return this.bulkDataService.createExport<UserEntity>({
+      format: queryDto.format ?? DataFormat.CSV,
+      fileName: 'users',
+      columns: USER_BULK_COLUMNS.filter((column) => column.name !== 'password'),
+      fetchBatch: (afterId, limit) => this.userRepository.find({ where: { id: MoreThan(afterId) }, order: { id: 'ASC' }, take: limit }),
+      toRecord: (user) => ({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        status: user.status,
+        avatar: user.avatar,
+        bio: user.bio,
+        phone: user.phone,
+        location: user.location,
+        specialties: user.specialties,
+        createdAt: user.createdAt,
+      }),
+    });
   }
 
   /**
@@ -198,31 +362,41 @@ export class UsersService {
    * Actualiza solo los campos proporcionados en el DTO.
    * Valida que el email sea único si se está cambiando.
    * Permite actualizaciones parciales (no es necesario enviar todos los campos).
+   * Solo el propio usuario o un admin pueden editar el perfil, y solo
+   * los admins pueden cambiar rol o estado.
    *
    * @param {number} id - ID del usuario a actualizar
    * @param {UpdateUserDto} updateUserDto - Campos a actualizar (solo los proporcionados)
+   * @param {UserEntity} currentUser - Usuario autenticado que realiza el cambio
    * @returns {Promise<UserResponseDto>} El usuario actualizado
-   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {BadRequestException} Si el ID no es válido o la fecha de nacimiento no está en el pasado
+   * @throws {ForbiddenException} Si no tiene permisos sobre el perfil o los campos
    * @throws {NotFoundException} Si el usuario no existe
    * @throws {ConflictException} Si el nuevo email ya existe en otro usuario
    *
    * @example
    * // Actualizar solo el nombre
-   * const usuario = await usersService.update(1, { name: 'Ana García Actualizada' });
+   * const usuario = await usersService.update(1, { name: 'Ana García Actualizada' }, currentUser);
    *
-   * // Actualizar múltiples campos
+   * // Actualizar múltiples campos (como admin)
    * const usuario = await usersService.update(1, {
    *   name: 'Ana García',
    *   role: UserRole.TRAINER,
    *   email: 'ana.nueva@email.com'
-   * });
+   * }, adminUser);
    */
-  async update(id: number, updateUserDto: UpdateUserDto): Promise<UserResponseDto> {
-    console.log(`✏️ Actualizando usuario ID ${id} en la BD:`, updateUserDto);
+  async update(id: number, updateUserDto: UpdateUserDto, currentUser: UserEntity): Promise<UserResponseDto> {
+    this.logger.log(`✏️ Actualizando usuario ID ${id} en la BD (campos: ${Object.keys(updateUserDto).join(', ')})`);
 
     // Validar que el ID sea válido
     if (isNaN(id)) {
-      throw new BadRequestException('ID debe ser un número válido');
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    // Validar permisos: propio perfil o admin, y campos sensibles solo admin
+    this.accessControlService.assertCanManageUser(currentUser, id);
+    if (updateUserDto.role !== undefined || updateUserDto.status !== undefined) {
+      this.accessControlService.assertIsAdmin(currentUser, 'Solo los administradores pueden cambiar el rol o el estado');
     }
 
     // Buscar el usuario a actualizar
@@ -231,7 +405,7 @@ export class UsersService {
     });
 
     if (!user) {
-      throw new NotFoundException(`Usuario con ID ${id} no encontrado`);
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${id} no encontrado`, params: { id } });
     }
 
     // Validar email único solo si se está actualizando el email
@@ -241,10 +415,15 @@ export class UsersService {
       });
 
       if (existingUser && existingUser.id !== id) {
-        throw new ConflictException(`Ya existe otro usuario con el email ${updateUserDto.email}`);
+        throw new ConflictException({ code: ErrorCode.USER_EMAIL_TAKEN, message: `Ya existe otro usuario con el email ${updateUserDto.email}` });
       }
     }
 
+    // Validar que la fecha de nacimiento esté en el pasado
+    if (updateUserDto.birthDate && new Date(updateUserDto.birthDate) >= new Date()) {
+      throw new BadRequestException({ code: ErrorCode.USER_BIRTH_DATE_NOT_PAST, message: 'La fecha de nacimiento debe estar en el pasado' });
+    }
+
     // Actualizar solo los campos proporcionados (actualización parcial)
     if (updateUserDto.name) user.name = updateUserDto.name.trim();
     if (updateUserDto.email) user.email = updateUserDto.email.toLowerCase().trim();
@@ -255,9 +434,26 @@ export class UsersService {
     if (updateUserDto.phone !== undefined) user.phone = updateUserDto.phone;
     if (updateUserDto.location !== undefined) user.location = updateUserDto.location;
     if (updateUserDto.specialties !== undefined) user.specialties = updateUserDto.specialties;
+    if (updateUserDto.acceptingNewClients !== undefined) user.acceptingNewClients = updateUserDto.acceptingNewClients;
+    if (updateUserDto.sex !== undefined) user.sex = updateUserDto.sex;
+    if (updateUserDto.birthDate !== undefined) user.birthDate = updateUserDto.birthDate;
+    if (updateUserDto.heightCm !== undefined) user.heightCm = updateUserDto.heightCm;
+    if (updateUserDto.weightKg !== undefined) user.weightKg = updateUserDto.weightKg;
+    if (updateUserDto.goalWeightKg !== undefined) user.goalWeightKg = updateUserDto.goalWeightKg;
+    if (updateUserDto.activityLevel !== undefined) user.activityLevel = updateUserDto.activityLevel;
+    if (updateUserDto.goal !== undefined) user.goal = updateUserDto.goal;
+    if (updateUserDto.locale !== undefined) user.locale = updateUserDto.locale;
+
+    const timezoneChanged = updateUserDto.timezone !== undefined && updateUserDto.timezone !== user.timezone;
+    if (updateUserDto.timezone !== undefined) user.timezone = updateUserDto.timezone;
 
     const updatedUser = await this.userRepository.save(user);
-    console.log('✅ Usuario actualizado exitosamente en la BD:', updatedUser);
+    this.logger.log(`✅ Usuario ID ${id} actualizado exitosamente en la BD`);
+
+    // Las rachas y el progreso mensual dependen del día local del usuario
+    if (timezoneChanged) {
+      updatedUser.stats = await this.userStatsService.recalculate(id);
+    }
 
     return this.mapToResponseDto(updatedUser);
   }
@@ -268,48 +464,138 @@ export class UsersService {
    * Realiza una eliminación lógica cambiando status a INACTIVE.
    * No elimina físicamente el registro de la BD (soft delete).
    * Esto permite recuperar el usuario más tarde si es necesario.
+   * Solo el propio usuario o un admin pueden eliminar la cuenta.
    *
    * @param {number} id - ID del usuario a eliminar
+   * @param {UserEntity} currentUser - Usuario autenticado que realiza la eliminación
    * @returns {Promise<UserResponseDto>} El usuario marcado como eliminado
    * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propio usuario ni admin
    * @throws {NotFoundException} Si el usuario no existe
    * @throws {ConflictException} Si el usuario ya estaba eliminado
    *
    * @example
-   * const usuarioEliminado = await usersService.remove(1);
+   * const usuarioEliminado = await usersService.remove(1, currentUser);
    * console.log(usuarioEliminado.status); // UserStatus.INACTIVE
    *
-   * // Para reactivar, usar update:
-   * await usersService.update(1, { status: UserStatus.ACTIVE });
+   * // Para reactivar, usar update (como admin):
+   * await usersService.update(1, { status: UserStatus.ACTIVE }, adminUser);
    */
-  async remove(id: number): Promise<UserResponseDto> {
-    console.log(`🗑️ Eliminando usuario ID ${id} en la BD`);
+  async remove(id: number, currentUser: UserEntity): Promise<UserResponseDto> {
+    this.logger.log(`🗑️ Eliminando usuario ID ${id} en la BD`);
 
     // Validar que el ID sea válido
     if (isNaN(id)) {
-      throw new BadRequestException('ID debe ser un número válido');
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
     }
 
+    // Validar permisos: propia cuenta o admin
+    this.accessControlService.assertCanManageUser(currentUser, id);
+
     const user = await this.userRepository.findOne({
       where: { id },
     });
 
     if (!user) {
-      throw new NotFoundException(`Usuario con ID ${id} no encontrado`);
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${id} no encontrado`, params: { id } });
     }
 
     if (user.status === UserStatus.INACTIVE) {
-      throw new ConflictException(`Usuario con ID ${id} ya estaba eliminado`);
+      throw new ConflictException({ code: ErrorCode.USER_ALREADY_DELETED, message: `Usuario con ID ${id} ya estaba eliminado`, params: { id } });
     }
 
     // Eliminación lógica: cambiar status a INACTIVE
     user.status = UserStatus.INACTIVE;
     const deletedUser = await this.userRepository.save(user);
 
-    console.log('✅ Usuario eliminado exitosamente en la BD:', deletedUser);
+    this.logger.log(`✅ Usuario ID ${id} eliminado exitosamente en la BD`);
     return this.mapToResponseDto(deletedUser);
   }
 
+  /**
+   * 💾 Método privado que valida el email y guarda un usuario nuevo (pendiente)
+   *
+   * Usa el manager recibido para poder crear usuarios dentro de la
+   * transacción de una importación.
+   *
+   * @private
+   * @throws {ConflictException} Si ya existe un usuario con ese email
+   */
+  private async insertUser(createUserDto: CreateUserDto, manager: EntityManager): Promise<UserEntity> {
+    const userRepository = manager.getRepository(UserEntity);
+
+    // Validar que el email no exista (emails deben ser únicos)
+    const existingUser = await userRepository.findOne({
+      where: { email: createUserDto.email.toLowerCase().trim() }, // Misma normalización con la que se guarda
+    });
+
+    if (existingUser) {
+      throw new ConflictException({ code: ErrorCode.USER_EMAIL_TAKEN, message: `Ya existe un usuario con el email ${createUserDto.email}` });
+    }
+
+    // Crear el nuevo usuario con datos limpios
+    const user = userRepository.create({
+      name: createUserDto.name.trim(), // Remover espacios extra
+      email: createUserDto.email.toLowerCase().trim(), // Email en minúsculas
+      role: createUserDto.role, // Rol especificado o default
+      avatar: createUserDto.avatar,
+      status: UserStatus.PENDING, // Pendiente hasta verificar el email
+      bio: createUserDto.bio,
+      phone: createUserDto.phone,
+      location: createUserDto.location,
+      specialties: createUserDto.specialties,
+    });
+
+    // Guardar solo el hash de la contraseña (nunca el texto plano)
+    if (createUserDto.password) {
+      await user.setPassword(createUserDto.password);
+    }
+
+    const savedUser = await userRepository.save(user);
+    this.logger.log(`✅ Usuario creado exitosamente en la BD con ID: ${savedUser.id}`);
+
+    return savedUser;
+  }
+
+  /**
+   * 👀 Método privado para mapear usuarios según lo que puede ver el usuario autenticado
+   *
+   * Perfil completo para él mismo, un admin o sus profesionales asignados
+   * (AccessControlService); perfil público para el resto.
+   *
+   * @param {UserEntity[]} users - Usuarios a mapear
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<(UserResponseDto | UserPublicResponseDto)[]>} Usuarios en el mismo orden
+   * @private
+   */
+  private async mapForViewer(users: UserEntity[], currentUser: UserEntity): Promise<(UserResponseDto | UserPublicResponseDto)[]> {
+    const accessibleIds = await this.accessControlService.findHealthDataAccessibleIds(
+      currentUser,
+      users.map((user) => user.id),
+    );
+
+    return users.map((user) => (accessibleIds.has(user.id) ? this.mapToResponseDto(user) : this.mapToPublicResponseDto(user)));
+  }
+
+  /**
+   * 🪪 Método privado para mapear UserEntity a su perfil público
+   * Sin datos de contacto, estado, estadísticas ni métricas de salud
+   * @private
+   */
+  private mapToPublicResponseDto(user: UserEntity): UserPublicResponseDto {
+    return {
+      id: user.id,
+      name: user.name,
+      role: user.role,
+      avatar: user.avatar,
+      joinedDate: user.getJoinedDate(),
+      bio: user.bio,
+      location: user.location,
+      specialties: user.specialties,
+      acceptingNewClients: user.acceptingNewClients,
+    };
+  }
+
   /**
    * 🔄 Mapear UserEntity a UserResponseDto
    *
@@ -337,7 +623,18 @@ export class UsersService {
       phone: user.phone,
       location: user.location,
       specialties: user.specialties,
+      acceptingNewClients: user.acceptingNewClients,
       stats: user.stats,
+      sex: user.sex,
+      birthDate: user.birthDate,
+      heightCm: user.heightCm,
+      weightKg: user.weightKg,
+      goalWeightKg: user.goalWeightKg,
+      activityLevel: user.activityLevel,
+      goal: user.goal,
+      timezone: user.timezone,
+      locale: user.locale ?? undefined,
+      nutritionTargets: this.nutritionTargetsService.resolveTargets(user), // Calculados o fijados por el nutricionista
     };
   }
 }
@@ -2,22 +2,30 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { UsersController } from './controllers/users.controller';
 import { UsersService } from './services/users.service';
+import { NutritionTargetsService } from './services/nutrition-targets.service';
+import { UserStatsService } from './services/user-stats.service';
 import { UserEntity } from './entities/user.entity';
+import { WorkoutSessionEntity } from '../workout-sessions/entities/workout-session.entity';
+import { WorkoutTypesModule } from '../workout-types/workout-types.module';
 
 /**
  * 📦 Módulo de usuarios
  * Agrupa toda la funcionalidad relacionada con usuarios:
  * - Controlador (manejo de HTTP requests)
  * - Servicio (lógica de negocio con Repository pattern)
+ * - Servicio de objetivos nutricionales (BMR, TDEE y macros)
+ * - Servicio de estadísticas (rachas, totales y meta mensual desde las sesiones completadas)
+ * - Estimación de calorías de las sesiones (WorkoutTypesModule) para el total de calorías
  * - Entity (para interacción con base de datos)
  * - DTOs y interfaces (ya importados por controlador y servicio)
  */
 @Module({
   imports: [
-    TypeOrmModule.forFeature([UserEntity]), // 🗄️ Registrar el repositorio de UserEntity
+    TypeOrmModule.forFeature([UserEntity, WorkoutSessionEntity]), // 🗄️ Registrar los repositorios de usuarios y sesiones (para las estadísticas)
+    WorkoutTypesModule, // 🔥 Para CalorieEstimationService
   ],
   controllers: [UsersController],
-  providers: [UsersService],
-  exports: [UsersService], // Exporta el servicio para ser usado en otros módulos
+  providers: [UsersService, NutritionTargetsService, UserStatsService],
+  exports: [UsersService, NutritionTargetsService, UserStatsService], // Exporta el servicio para ser usado en otros módulos
 })
 export class UsersModule {}
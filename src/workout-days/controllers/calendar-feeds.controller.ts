@@ -0,0 +1,44 @@
+import { Controller, Get, Param, Header } from '@nestjs/common';
+import { WorkoutDaysCalendarService } from '../services/workout-days-calendar.service';
+import { Public } from '../../auth/decorators/public.decorator';
+
+/**
+ * 📡 Controlador de feeds de calendario - Endpoints públicos
+ *
+ * Sirve el calendario de un usuario a las apps de calendario suscritas,
+ * que no pueden enviar el token JWT: el acceso lo da el token privado de
+ * la URL (se genera con POST /users/:id/workout-days.ics/feed-token).
+ *
+ * @class CalendarFeedsController
+ * @description Controlador REST para los feeds .ics suscribibles
+ */
+@Public()
+@Controller('calendar-feeds') // Prefijo de ruta: /calendar-feeds
+export class CalendarFeedsController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param workoutDaysCalendarService - Servicio que genera el calendario
+   */
+  constructor(private readonly workoutDaysCalendarService: WorkoutDaysCalendarService) {}
+
+  /**
+   * 📡 Obtener el feed de calendario de un usuario (Status: 200 OK o 404 Not Found)
+   *
+   * Se genera en cada petición: los días eliminados desaparecen en la
+   * siguiente sincronización de la app de calendario.
+   *
+   * @route GET /calendar-feeds/:token/workout-days.ics
+   * @param {string} token - Token privado del feed en la URL
+   * @returns {Promise<string>} Calendario iCalendar (text/calendar)
+   * @status 200 - Calendario generado
+   * @status 404 - Token inválido o rotado, o usuario no activo
+   *
+   * @example
+   * GET http://localhost:3000/calendar-feeds/9f2c.../workout-days.ics
+   */
+  @Get(':token/workout-days.ics')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  async getFeed(@Param('token') token: string): Promise<string> {
+    return await this.workoutDaysCalendarService.exportFeed(token);
+  }
+}
@@ -0,0 +1,104 @@
+import { Controller, Get, Post, Delete, Param, Header, HttpStatus, HttpCode } from '@nestjs/common';
+import type { CalendarFeedToken } from '../interfaces/workout-day.interface';
+import { WorkoutDaysCalendarService } from '../services/workout-days-calendar.service';
+import { UserEntity } from '../../users/entities/user.entity';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { I18nService } from '../../i18n/services/i18n.service';
+
+/**
+ * 📅 Controlador del calendario de días de entrenamiento - Endpoints de la API REST
+ *
+ * Exporta la plantilla semanal de un usuario en formato iCalendar (.ics)
+ * y gestiona la URL privada del feed al que se suscriben las apps de
+ * calendario (Google Calendar, Apple Calendar, Outlook...).
+ *
+ * @class WorkoutDaysCalendarController
+ * @description Controlador REST para la exportación .ics y el feed de calendario
+ */
+@Controller('users') // Prefijo de ruta: /users
+export class WorkoutDaysCalendarController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param workoutDaysCalendarService - Servicio que genera el calendario
+   * @param i18nService - Mensajes de respuesta en el idioma de la petición
+   */
+  constructor(
+    private readonly workoutDaysCalendarService: WorkoutDaysCalendarService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * 📤 Descargar los días de entrenamiento de un usuario como calendario (Status: 200 OK)
+   *
+   * Un evento semanal recurrente por cada día activo de la plantilla semanal
+   * (los días de los programas no se incluyen).
+   *
+   * @route GET /users/:id/workout-days.ics
+   * @param {string} id - ID del usuario en la URL
+   * @returns {Promise<string>} Calendario iCalendar (text/calendar)
+   * @status 200 - Calendario generado
+   * @status 400 - ID inválido
+   * @status 403 - Sin permisos sobre los entrenamientos de ese usuario
+   * @status 404 - Usuario no encontrado o no activo
+   *
+   * @example
+   * GET http://localhost:3000/users/1/workout-days.ics
+   * Response: BEGIN:VCALENDAR ... BEGIN:VEVENT ... RRULE:FREQ=WEEKLY;BYDAY=MO ... END:VCALENDAR
+   */
+  @Get(':id/workout-days.ics')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="workout-days.ics"')
+  async exportCalendar(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<string> {
+    const userId = parseInt(id);
+    return await this.workoutDaysCalendarService.exportCalendar(userId, currentUser);
+  }
+
+  /**
+   * 🔄 Generar o rotar la URL privada del feed de calendario (Status: 200 OK)
+   *
+   * Cada llamada genera un token nuevo: la URL anterior deja de funcionar.
+   * La URL solo se muestra en esta respuesta (el token se guarda hasheado).
+   *
+   * @route POST /users/:id/workout-days.ics/feed-token
+   * @param {string} id - ID del usuario en la URL
+   * @returns {Promise<CalendarFeedToken>} URL del feed y token
+   * @status 200 - Feed generado
+   * @status 400 - ID inválido
+   * @status 403 - Solo el propio usuario o un administrador
+   * @status 404 - Usuario no encontrado o no activo
+   *
+   * @example
+   * POST http://localhost:3000/users/1/workout-days.ics/feed-token
+   * Response: { "url": "http://localhost:3000/calendar-feeds/9f2c.../workout-days.ics", "token": "9f2c..." }
+   */
+  @Post(':id/workout-days.ics/feed-token')
+  @HttpCode(HttpStatus.OK)
+  async rotateFeedToken(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<CalendarFeedToken> {
+    const userId = parseInt(id);
+    return await this.workoutDaysCalendarService.rotateFeedToken(userId, currentUser);
+  }
+
+  /**
+   * 🚫 Desactivar el feed de calendario (Status: 200 OK)
+   *
+   * @route DELETE /users/:id/workout-days.ics/feed-token
+   * @param {string} id - ID del usuario en la URL
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Feed desactivado
+   * @status 400 - ID inválido
+   * @status 403 - Solo el propio usuario o un administrador
+   * @status 404 - Usuario no encontrado o no activo
+   *
+   * @example
+   * DELETE http://localhost:3000/users/1/workout-days.ics/feed-token
+   * Response: { "message": "✅ Feed de calendario desactivado. La URL anterior deja de funcionar" }
+   */
+  @Delete(':id/workout-days.ics/feed-token')
+  async revokeFeedToken(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<{ message: string }> {
+    const userId = parseInt(id);
+    await this.workoutDaysCalendarService.revokeFeedToken(userId, currentUser);
+    return {
+      message: this.i18nService.translate('calendarFeedRevoked'),
+    };
+  }
+}
@@ -1,7 +1,14 @@
-import { Controller, Get, Post, Put, Delete, Param, Query, Body, HttpStatus, HttpCode } from '@nestjs/common';
-import { CreateWorkoutDayDto, UpdateWorkoutDayDto, SearchWorkoutDayDto } from '../dto/workout-day.dto';
+import { Controller, Get, Post, Put, Delete, Param, Query, Body, HttpStatus, HttpCode, StreamableFile } from '@nestjs/common';
+import { CreateWorkoutDayDto, UpdateWorkoutDayDto, SearchWorkoutDayDto, WorkoutDayListQueryDto, WorkoutDayExportQueryDto } from '../dto/workout-day.dto';
 import { WorkoutDayEntity } from '../entities/workout-day.entity';
+import type { WorkoutDayGroup } from '../interfaces/workout-day.interface';
 import { WorkoutDaysService } from '../services/workout-days.service';
+import { UserEntity } from '../../users/entities/user.entity';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { Paginated } from '../../common/interfaces/pagination.interface';
+import { I18nService } from '../../i18n/services/i18n.service';
+import { ImportQueryDto } from '../../common/dto/bulk-data.dto';
+import type { ImportReport } from '../../common/interfaces/bulk-data.interface';
 
 /**
  * 🏋️ Controlador de días de entrenamiento - Endpoints de la API REST
@@ -9,6 +16,7 @@ import { WorkoutDaysService } from '../services/workout-days.service';
  * Este controlador maneja todos los endpoints relacionados con entrenamientos.
  * Implementa operaciones CRUD completas y búsquedas avanzadas.
  * Incluye endpoints específicos para filtrar por usuario.
+ * Todos los endpoints requieren un token de acceso válido (guard JWT global).
  *
  * @class WorkoutDaysController
  * @description Controlador REST para operaciones de días de entrenamiento
@@ -18,48 +26,66 @@ export class WorkoutDaysController {
   /**
    * Constructor - Inyección de dependencias
    * @param workoutDaysService - Servicio con la lógica de negocio
+   * @param i18nService - Mensajes de respuesta en el idioma de la petición
    */
-  constructor(private readonly workoutDaysService: WorkoutDaysService) {}
+  constructor(
+    private readonly workoutDaysService: WorkoutDaysService,
+    private readonly i18nService: I18nService,
+  ) {}
 
   /**
-   * 📋 Obtener todos los días de entrenamiento activos (Status: 200 OK)
+   * 📋 Obtener los días de entrenamiento activos paginados (Status: 200 OK)
    *
-   * Endpoint para listar todos los entrenamientos activos del sistema.
-   * Los entrenamientos se devuelven ordenados por día de la semana.
+   * Endpoint para listar los entrenamientos activos del sistema.
+   * Por defecto se devuelven ordenados por día de la semana y turno.
    *
    * @route GET /workout-days
-   * @returns {Promise<WorkoutDayEntity[]>} Lista de entrenamientos activos
+   * @query {number} [page] - Página (default: 1)
+   * @query {number} [limit] - Resultados por página (default: 20, máximo: 100)
+   * @query {string} [cursor] - nextCursor de la respuesta anterior (en lugar de page)
+   * @query {WorkoutDaySortField} [sort] - dayOfWeek, name, durationMinutes o createdAt (default: dayOfWeek)
+   * @query {SortDirection} [order] - asc o desc (default: el del campo)
+   * @returns {Promise<Paginated<WorkoutDayEntity>>} Página de entrenamientos activos (propios y de los clientes asignados; admin: todos)
    * @status 200 - Búsqueda exitosa (con o sin resultados)
+   * @status 400 - Parámetros de paginación inválidos
    *
    * @example
-   * GET http://localhost:3000/workout-days
-   * Response: [{ id: 1, name: 'Lunes - Pecho', dayOfWeek: 1, userId: 1, ... }, ...]
+   * GET http://localhost:3000/workout-days?limit=10
+   * Response: { items: [{ id: 1, name: 'Lunes - Pecho', dayOfWeek: 1, userId: 1, ... }, ...], total: 35, page: 1, limit: 10, nextCursor: 'eyJ...' }
    */
   @Get()
-  async getAllWorkoutDays(): Promise<WorkoutDayEntity[]> {
-    return await this.workoutDaysService.findAll();
+  async getAllWorkoutDays(@Query() queryDto: WorkoutDayListQueryDto, @CurrentUser() currentUser: UserEntity): Promise<Paginated<WorkoutDayEntity>> {
+    return await this.workoutDaysService.findAll(queryDto, currentUser);
   }
 
   /**
    * 👤 Obtener entrenamientos de un usuario específico (Status: 200 OK)
    *
-   * Endpoint para obtener la rutina semanal completa de un usuario.
-   * Los entrenamientos se devuelven ordenados por día de la semana.
+   * Endpoint para obtener la rutina semanal de un usuario (paginada).
+   * Los entrenamientos de la página se agrupan por día de la semana y, dentro
+   * de cada día, se ordenan por turno (slotOrder). total y limit cuentan entrenamientos.
    *
    * @route GET /workout-days/user/:userId
    * @param {string} userId - ID del usuario en la URL
-   * @returns {Promise<WorkoutDayEntity[]>} Entrenamientos del usuario
+   * @query {number} [page] - Página (default: 1)
+   * @query {number} [limit] - Entrenamientos por página (default: 20, máximo: 100)
+   * @query {string} [cursor] - nextCursor de la respuesta anterior (en lugar de page)
+   * @query {WorkoutDaySortField} [sort] - dayOfWeek, name, durationMinutes o createdAt (default: dayOfWeek)
+   * @query {SortDirection} [order] - asc o desc (default: el del campo)
+   * @returns {Promise<Paginated<WorkoutDayGroup>>} Página con los días y sus entrenamientos
    * @status 200 - Entrenamientos encontrados
+   * @status 400 - Parámetros de paginación inválidos
+   * @status 403 - No es el propietario, su entrenador (con la relación activa) ni admin
    * @status 404 - Usuario no encontrado o no activo
    *
    * @example
    * GET http://localhost:3000/workout-days/user/1
-   * Response: [{ id: 1, name: 'Lunes - Pecho', dayOfWeek: 1, userId: 1, ... }, ...]
+   * Response: { items: [{ dayOfWeek: 1, dayName: 'Lunes', workouts: [{ id: 4, name: 'Cardio', startTime: '07:00', slotOrder: 1, ... }, { id: 1, name: 'Pecho', startTime: '19:00', slotOrder: 2, ... }] }, ...], total: 6, page: 1, limit: 20, nextCursor: null }
    */
   @Get('user/:userId')
-  async getWorkoutDaysByUser(@Param('userId') userId: string): Promise<WorkoutDayEntity[]> {
+  async getWorkoutDaysByUser(@Param('userId') userId: string, @Query() queryDto: WorkoutDayListQueryDto, @CurrentUser() currentUser: UserEntity): Promise<Paginated<WorkoutDayGroup>> {
     const userIdNumber = parseInt(userId);
-    return await this.workoutDaysService.findByUserId(userIdNumber);
+    return await this.workoutDaysService.findByUserId(userIdNumber, queryDto, currentUser);
   }
 
   /**
@@ -71,38 +97,61 @@ export class WorkoutDaysController {
    * @route GET /workout-days/search
    * @query {string} [name] - Buscar por nombre (búsqueda parcial)
    * @query {number} [dayOfWeek] - Filtrar por día de semana (1-7)
-   * @query {string} [workoutType] - Filtrar por tipo (Cardio, Fuerza, etc.)
+   * @query {string} [workoutType] - Filtrar por código de tipo (cardio, strength, etc.)
    * @query {number} [intensityLevel] - Filtrar por intensidad (1-5)
    * @query {number} [durationMinutes] - Filtrar por duración exacta
-   * @query {number} [userId] - Filtrar por usuario
+   * @query {number} [userId] - Filtrar por usuario (sin userId: los propios y los de los clientes asignados)
    * @query {boolean} [isActive] - Filtrar por estado activo
-   * @returns {Promise<WorkoutDayEntity[]>} Entrenamientos que cumplen los criterios
+   * @query {string} [q] - Texto libre en nombre y descripción (todas las palabras)
+   * @query {number[]} [daysOfWeek] - Cualquiera de estos días (ej: 1,3,5)
+   * @query {string[]} [workoutTypes] - Cualquiera de estos tipos (ej: strength,cardio)
+   * @query {number} [minDuration] - Duración mínima en minutos (inclusive)
+   * @query {number} [maxDuration] - Duración máxima en minutos (inclusive)
+   * @query {number} [minIntensity] - Intensidad mínima (inclusive)
+   * @query {number} [maxIntensity] - Intensidad máxima (inclusive)
+   * @query {string} [createdFrom] - Creado desde (YYYY-MM-DD, UTC)
+   * @query {string} [createdTo] - Creado hasta (YYYY-MM-DD, UTC, inclusive)
+   * @query {string} [updatedFrom] - Modificado desde (YYYY-MM-DD, UTC)
+   * @query {string} [updatedTo] - Modificado hasta (YYYY-MM-DD, UTC, inclusive)
+   * @query {number} [page] - Página (default: 1)
+   * @query {number} [limit] - Resultados por página (default: 20, máximo: 100)
+   * @query {string} [cursor] - nextCursor de la respuesta anterior (en lugar de page)
+   * @query {WorkoutDaySortField} [sort] - dayOfWeek, name, durationMinutes o createdAt (default: dayOfWeek)
+   * @query {SortDirection} [order] - asc o desc (default: el del campo)
+   * @returns {Promise<Paginated<WorkoutDayEntity>>} Página de entrenamientos que cumplen los criterios
    * @status 200 - Búsqueda exitosa (con o sin resultados)
-   * @status 400 - Parámetros de búsqueda inválidos
+   * @status 400 - Parámetros de búsqueda o de paginación inválidos, o un rango con el mínimo mayor que el máximo
+   * @status 403 - userId de un usuario cuyos entrenamientos no puede gestionar
    *
    * @example
-   * GET http://localhost:3000/workout-days/search?workoutType=Cardio
+   * GET http://localhost:3000/workout-days/search?workoutType=cardio
    * GET http://localhost:3000/workout-days/search?dayOfWeek=1&intensityLevel=5
    * GET http://localhost:3000/workout-days/search?name=Pecho&userId=1
+   * GET http://localhost:3000/workout-days/search?workoutType=strength&sort=durationMinutes&order=desc&limit=10
+   * GET http://localhost:3000/workout-days/search?daysOfWeek=1,3,5&minDuration=30&maxDuration=60&q=pierna
    */
   @Get('search')
-  async searchWorkoutDays(@Query() searchWorkoutDayDto: SearchWorkoutDayDto): Promise<WorkoutDayEntity[]> {
-    return await this.workoutDaysService.search(searchWorkoutDayDto);
+  async searchWorkoutDays(@Query() searchWorkoutDayDto: SearchWorkoutDayDto, @CurrentUser() currentUser: UserEntity): Promise<Paginated<WorkoutDayEntity>> {
+    return await this.workoutDaysService.search(searchWorkoutDayDto, currentUser);
   }
 
   /**
    * ➕ Crear un nuevo día de entrenamiento (Status: 201 Created)
    *
    * Endpoint para crear un entrenamiento en un día específico.
-   * Valida que el usuario exista y que no haya otro entrenamiento en ese día.
+   * Si no se envía userId, el entrenamiento se crea para el usuario autenticado.
+   * Solo el propio usuario, su entrenador asignado o un admin pueden crearlo.
+   * Valida que el usuario exista y que el turno y la franja horaria estén libres ese día.
+   * Opcionalmente acepta la prescripción de ejercicios en orden (exercises).
    *
    * @route POST /workout-days
    * @body {CreateWorkoutDayDto} createWorkoutDayDto - Datos del entrenamiento
    * @returns {Promise<WorkoutDayEntity>} El entrenamiento creado con ID asignado
    * @status 201 - Entrenamiento creado exitosamente
-   * @status 400 - Datos inválidos (validación de DTO)
-   * @status 404 - Usuario no encontrado
-   * @status 409 - Ya existe un entrenamiento para ese día de la semana
+   * @status 400 - Datos inválidos (validación de DTO) o tipo de entrenamiento que no está en el catálogo
+   * @status 403 - Sin permisos sobre los entrenamientos de ese usuario
+   * @status 404 - Usuario o ejercicio no encontrado
+   * @status 409 - Turno ocupado o franja horaria solapada con otro entrenamiento del día
    *
    * @example
    * POST http://localhost:3000/workout-days
@@ -110,32 +159,94 @@ export class WorkoutDaysController {
    *   "name": "Jueves - Espalda y Bíceps",
    *   "description": "Rutina completa de espalda con dominadas y remo",
    *   "dayOfWeek": 4,
+   *   "startTime": "18:30",
+   *   "slotOrder": 2,
    *   "durationMinutes": 80,
    *   "intensityLevel": 4,
-   *   "workoutType": "Fuerza",
-   *   "userId": 1
+   *   "workoutType": "strength",
+   *   "exercises": [
+   *     { "exerciseId": 7, "sets": 4, "reps": "6-8", "restSeconds": 120 },
+   *     { "exerciseId": 9, "sets": 3, "reps": "10", "targetWeightKg": 40, "tempo": "3-1-1-0" }
+   *   ]
    * }
    */
   @Post()
   @HttpCode(HttpStatus.CREATED)
-  async createWorkoutDay(@Body() createWorkoutDayDto: CreateWorkoutDayDto): Promise<WorkoutDayEntity> {
-    return await this.workoutDaysService.create(createWorkoutDayDto);
+  async createWorkoutDay(@Body() createWorkoutDayDto: CreateWorkoutDayDto, @CurrentUser() currentUser: UserEntity): Promise<WorkoutDayEntity> {
+    return await this.workoutDaysService.create(createWorkoutDayDto, currentUser);
+  }
+
+  /**
+   * 📥 Importar días de entrenamiento desde un CSV o una lista JSON (Status: 200 OK)
+   *
+   * Cada fila se valida y se crea como en POST /workout-days (mismos
+   * permisos y conflictos de turno, también entre filas del fichero).
+   * Devuelve el resultado de cada fila; con dryRun=true solo valida. En
+   * modo all_or_nothing (default) no se guarda nada si alguna fila falla;
+   * en skip_invalid se guardan las válidas. En CSV, exercises es la lista
+   * de ejercicios en JSON. Las columnas id y createdAt de una exportación
+   * se ignoran.
+   *
+   * @route POST /workout-days/import
+   * @body {string | object[]} body - CSV con cabecera (Content-Type: text/csv) o lista JSON de días de entrenamiento
+   * @query {boolean} [dryRun] - Solo validar, sin guardar (default: false)
+   * @query {ImportMode} [mode] - all_or_nothing o skip_invalid (default: all_or_nothing)
+   * @returns {Promise<ImportReport>} Informe con el resultado de cada fila
+   * @status 200 - Importación procesada (revisar committed y el resultado de cada fila)
+   * @status 400 - Formato inválido, sin filas, demasiadas filas o columnas desconocidas
+   *
+   * @example
+   * POST http://localhost:3000/workout-days/import?mode=skip_invalid
+   * Content-Type: text/csv
+   * Body: name,dayOfWeek,startTime,durationMinutes,workoutType\nLunes - Pierna,1,07:00,60,strength\nMartes - Cardio,2,07:00,45,cardio
+   * Response: { dryRun: false, mode: "skip_invalid", committed: true, total: 2, succeeded: 2, failed: 0, rows: [{ row: 1, status: "created", id: 12 }, { row: 2, status: "created", id: 13 }] }
+   */
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  async importWorkoutDays(@Body() body: unknown, @Query() queryDto: ImportQueryDto, @CurrentUser() currentUser: UserEntity): Promise<ImportReport> {
+    return await this.workoutDaysService.import(body, queryDto, currentUser);
+  }
+
+  /**
+   * 📤 Exportar días de entrenamiento activos en CSV o JSON (Status: 200 OK)
+   *
+   * Con userId descarga los de ese usuario (propietario, su entrenador o
+   * admin). Sin userId, un admin descarga todos y el resto los suyos.
+   * El fichero se puede volver a importar.
+   *
+   * @route GET /workout-days/export
+   * @query {DataFormat} [format] - csv o json (default: csv)
+   * @query {number} [userId] - Solo los entrenamientos de este usuario
+   * @returns {Promise<StreamableFile>} Fichero workout-days.csv o workout-days.json (descarga)
+   * @status 200 - Fichero generado
+   * @status 400 - Formato o userId inválidos
+   * @status 403 - Sin permisos sobre los entrenamientos de ese usuario
+   *
+   * @example
+   * GET http://localhost:3000/workout-days/export
+   * GET http://localhost:3000/workout-days/export?format=json&userId=1
+   */
+  @Get('export')
+  async exportWorkoutDays(@Query() queryDto: WorkoutDayExportQueryDto, @CurrentUser() currentUser: UserEntity): Promise<StreamableFile> {
+    return await this.workoutDaysService.export(queryDto, currentUser);
   }
 
   /**
    * ✏️ Actualizar un día de entrenamiento existente (Status: 200 OK)
    *
    * Endpoint para actualización parcial de entrenamientos.
-   * Si se cambia el día de la semana, valida que no haya conflictos.
+   * Si cambian el día, la hora, la duración o el turno, valida que no haya conflictos.
+   * Si se envía exercises, reemplaza la prescripción completa del día.
    *
    * @route PUT /workout-days/:id
    * @param {string} id - ID del entrenamiento en la URL
    * @body {UpdateWorkoutDayDto} updateWorkoutDayDto - Campos a actualizar
    * @returns {Promise<WorkoutDayEntity>} El entrenamiento actualizado
    * @status 200 - Entrenamiento actualizado exitosamente
-   * @status 400 - ID inválido o datos inválidos
-   * @status 404 - Entrenamiento no encontrado
-   * @status 409 - Conflicto con otro entrenamiento en el mismo día
+   * @status 400 - ID inválido, datos inválidos o tipo de entrenamiento que no está en el catálogo
+   * @status 403 - Sin permisos sobre este entrenamiento
+   * @status 404 - Entrenamiento o ejercicio no encontrado
+   * @status 409 - Turno ocupado o franja horaria solapada con otro entrenamiento del día
    *
    * @example
    * PUT http://localhost:3000/workout-days/1
@@ -146,9 +257,9 @@ export class WorkoutDaysController {
    * }
    */
   @Put(':id')
-  async updateWorkoutDay(@Param('id') id: string, @Body() updateWorkoutDayDto: UpdateWorkoutDayDto): Promise<WorkoutDayEntity> {
+  async updateWorkoutDay(@Param('id') id: string, @Body() updateWorkoutDayDto: UpdateWorkoutDayDto, @CurrentUser() currentUser: UserEntity): Promise<WorkoutDayEntity> {
     const workoutDayId = parseInt(id);
-    return await this.workoutDaysService.update(workoutDayId, updateWorkoutDayDto);
+    return await this.workoutDaysService.update(workoutDayId, updateWorkoutDayDto, currentUser);
   }
 
   /**
@@ -162,6 +273,7 @@ export class WorkoutDaysController {
    * @returns {Promise<{message: string}>} Mensaje de confirmación
    * @status 200 - Entrenamiento eliminado exitosamente
    * @status 400 - ID inválido
+   * @status 403 - Sin permisos sobre este entrenamiento
    * @status 404 - Entrenamiento no encontrado
    * @status 409 - Entrenamiento ya estaba eliminado
    *
@@ -170,11 +282,11 @@ export class WorkoutDaysController {
    * Response: { "message": "✅ Día de entrenamiento 'Lunes - Pecho' eliminado exitosamente" }
    */
   @Delete(':id')
-  async deleteWorkoutDay(@Param('id') id: string): Promise<{ message: string }> {
+  async deleteWorkoutDay(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<{ message: string }> {
     const workoutDayId = parseInt(id);
-    const deletedWorkoutDay = await this.workoutDaysService.remove(workoutDayId);
+    const deletedWorkoutDay = await this.workoutDaysService.remove(workoutDayId, currentUser);
     return {
-      message: `✅ Día de entrenamiento "${deletedWorkoutDay.name}" eliminado exitosamente`,
+      message: this.i18nService.translate('workoutDayDeleted', { name: deletedWorkoutDay.name }),
     };
   }
 
@@ -182,13 +294,15 @@ export class WorkoutDaysController {
    * 🏋️ Obtener un día de entrenamiento específico por ID (Status: 200 OK o 404 Not Found)
    *
    * Endpoint para obtener los detalles completos de un entrenamiento.
-   * Devuelve el entrenamiento con todos sus datos y métodos disponibles.
+   * Devuelve el entrenamiento con su prescripción completa: ejercicios en
+   * orden con series, repeticiones, peso objetivo, descanso y tempo.
    *
    * @route GET /workout-days/:id
    * @param {string} id - ID del entrenamiento en la URL
    * @returns {Promise<WorkoutDayEntity>} El entrenamiento encontrado
    * @status 200 - Entrenamiento encontrado
    * @status 400 - ID inválido (no es un número)
+   * @status 403 - Día de la plantilla semanal de un usuario que no puede gestionar
    * @status 404 - Entrenamiento no encontrado
    *
    * @example
@@ -199,14 +313,19 @@ export class WorkoutDaysController {
    *   dayOfWeek: 1,
    *   durationMinutes: 90,
    *   intensityLevel: 4,
-   *   workoutType: "Fuerza",
+   *   workoutTypeId: 1,
+   *   workoutType: { id: 1, code: "strength", labels: { es: "Fuerza", en: "Strength" }, icon: "🏋️", defaultMet: 5, ... },
+   *   estimatedCaloriesBurned: 630,
    *   userId: 1,
+   *   exercises: [
+   *     { position: 1, sets: 4, reps: "8-10", targetWeightKg: 60, restSeconds: 90, tempo: "3-1-1-0", exercise: { id: 3, name: "Press de banca", ... } }
+   *   ],
    *   ...
    * }
    */
   @Get(':id') // Este decorador debe ir DESPUÉS de otros @Get más específicos
-  async getWorkoutDayById(@Param('id') id: string): Promise<WorkoutDayEntity> {
+  async getWorkoutDayById(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<WorkoutDayEntity> {
     const workoutDayId = parseInt(id);
-    return await this.workoutDaysService.findOne(workoutDayId);
+    return await this.workoutDaysService.findOne(workoutDayId, currentUser);
   }
 }
@@ -1,5 +1,49 @@
-import { IsString, IsNumber, Min, Max, IsNotEmpty, IsOptional, IsBoolean, IsIn } from 'class-validator';
+import { IsString, IsNumber, Min, Max, IsNotEmpty, IsOptional, IsBoolean, IsInt, IsArray, ValidateNested, Matches, IsEnum, MaxLength, IsDateString } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { ToArray } from '../../common/decorators/to-array.decorator';
+import { ExportQueryDto } from '../../common/dto/bulk-data.dto';
+import { WorkoutDaySortField } from '../interfaces/workout-day.interface';
+
+/**
+ * 📋 DTO de un ejercicio prescrito dentro de un día de entrenamiento
+ * El orden del array define el orden de los ejercicios
+ */
+export class WorkoutDayExerciseDto {
+  @IsNumber({}, { message: 'El ID del ejercicio debe ser un número' })
+  @Min(1, { message: 'El ID del ejercicio debe ser mayor a 0' })
+  exerciseId: number; // 💪 ID del ejercicio del catálogo (obligatorio)
+
+  @IsInt({ message: 'Las series deben ser un número entero' })
+  @Min(1, { message: 'Debe haber al menos 1 serie' })
+  @Max(20, { message: 'Las series deben ser como máximo 20' })
+  sets: number; // 🔁 Series (obligatorio, 1-20)
+
+  @IsString({ message: 'Las repeticiones deben ser una cadena de texto' })
+  @Matches(/^\d{1,3}(-\d{1,3})?$/, { message: 'Las repeticiones deben ser un número ("10") o un rango ("8-12")' })
+  reps: string; // 🔂 Repeticiones (obligatorio, "10" o "8-12")
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El peso objetivo debe ser un número' })
+  @Min(0, { message: 'El peso objetivo no puede ser negativo' })
+  @Max(1000, { message: 'El peso objetivo debe ser menor o igual a 1000 kg' })
+  targetWeightKg?: number; // 🏋️ Peso objetivo en kg (opcional)
+
+  @IsOptional()
+  @IsInt({ message: 'El descanso debe ser un número entero de segundos' })
+  @Min(0, { message: 'El descanso no puede ser negativo' })
+  @Max(1800, { message: 'El descanso debe ser como máximo 1800 segundos (30 minutos)' })
+  restSeconds?: number; // ⏸️ Descanso entre series (opcional)
+
+  @IsOptional()
+  @IsString({ message: 'El tempo debe ser una cadena de texto' })
+  @Matches(/^[0-9X]-[0-9X]-[0-9X]-[0-9X]$/i, { message: 'El tempo debe tener el formato "3-1-1-0" (usa X para explosivo)' })
+  tempo?: string; // ⏱️ Tempo (opcional, "3-1-1-0")
+
+  @IsOptional()
+  @IsString({ message: 'Las notas deben ser una cadena de texto' })
+  notes?: string; // 📝 Indicaciones (opcional)
+}
 
 /**
  * 📝 DTO para crear un nuevo día de entrenamiento con validaciones automáticas
@@ -19,6 +63,17 @@ export class CreateWorkoutDayDto {
   @Max(7, { message: 'El día de la semana debe ser menor o igual a 7 (Domingo)' })
   dayOfWeek: number; // 🗓️ Día de la semana (obligatorio, 1-7)
 
+  @IsOptional()
+  @IsString({ message: 'La hora de inicio debe ser una cadena de texto' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'La hora de inicio debe tener formato HH:MM (24h)' })
+  startTime?: string; // 🕒 Hora de inicio (opcional, "07:30")
+
+  @IsOptional()
+  @IsInt({ message: 'El turno debe ser un número entero' })
+  @Min(1, { message: 'El turno debe ser mayor o igual a 1' })
+  @Max(10, { message: 'El turno debe ser menor o igual a 10' })
+  slotOrder?: number; // 🔢 Turno dentro del día (opcional, default: el siguiente libre)
+
   @IsNumber({}, { message: 'La duración debe ser un número' })
   @Min(1, { message: 'La duración debe ser mayor o igual a 1 minuto' })
   @Max(300, { message: 'La duración debe ser menor o igual a 300 minutos (5 horas)' })
@@ -32,14 +87,24 @@ export class CreateWorkoutDayDto {
 
   @IsOptional()
   @IsString({ message: 'El tipo de entrenamiento debe ser una cadena de texto' })
-  @IsIn(['Fuerza', 'Cardio', 'Flexibilidad', 'Funcional', 'Mixto'], {
-    message: 'El tipo de entrenamiento debe ser: Fuerza, Cardio, Flexibilidad, Funcional o Mixto'
-  })
-  workoutType?: string; // 🎯 Tipo (opcional, valores predefinidos, default: 'Fuerza')
+  @MaxLength(30, { message: 'El tipo de entrenamiento debe ser un código del catálogo de tipos (ej: strength, cardio)' })
+  workoutType?: string; // 🎯 Código del tipo (opcional, del catálogo /workout-types, default: 'strength')
 
+  @IsOptional()
   @IsNumber({}, { message: 'El ID del usuario debe ser un número' })
   @Min(1, { message: 'El ID del usuario debe ser mayor a 0' })
-  userId: number; // 👤 ID del usuario (obligatorio)
+  userId?: number; // 👤 ID del usuario (opcional, por defecto: el usuario autenticado)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El ID de la semana de programa debe ser un número' })
+  @Min(1, { message: 'El ID de la semana de programa debe ser mayor a 0' })
+  programWeekId?: number; // 📆 Semana de un programa (opcional, sin valor: plantilla semanal del usuario)
+
+  @IsOptional()
+  @IsArray({ message: 'Los ejercicios deben ser un array' })
+  @ValidateNested({ each: true })
+  @Type(() => WorkoutDayExerciseDto)
+  exercises?: WorkoutDayExerciseDto[]; // 📋 Ejercicios prescritos en orden (opcional)
 }
 
 /**
@@ -61,6 +126,17 @@ export class UpdateWorkoutDayDto {
   @Max(7, { message: 'El día de la semana debe ser menor o igual a 7 (Domingo)' })
   dayOfWeek?: number; // 🗓️ Día de la semana (opcional, 1-7)
 
+  @IsOptional()
+  @IsString({ message: 'La hora de inicio debe ser una cadena de texto' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'La hora de inicio debe tener formato HH:MM (24h)' })
+  startTime?: string | null; // 🕒 Hora de inicio (opcional, null para quitarla)
+
+  @IsOptional()
+  @IsInt({ message: 'El turno debe ser un número entero' })
+  @Min(1, { message: 'El turno debe ser mayor o igual a 1' })
+  @Max(10, { message: 'El turno debe ser menor o igual a 10' })
+  slotOrder?: number; // 🔢 Turno dentro del día (opcional)
+
   @IsOptional()
   @IsNumber({}, { message: 'La duración debe ser un número' })
   @Min(1, { message: 'La duración debe ser mayor o igual a 1 minuto' })
@@ -75,21 +151,34 @@ export class UpdateWorkoutDayDto {
 
   @IsOptional()
   @IsString({ message: 'El tipo de entrenamiento debe ser una cadena de texto' })
-  @IsIn(['Fuerza', 'Cardio', 'Flexibilidad', 'Funcional', 'Mixto'], {
-    message: 'El tipo de entrenamiento debe ser: Fuerza, Cardio, Flexibilidad, Funcional o Mixto'
-  })
-  workoutType?: string; // 🎯 Tipo (opcional, valores predefinidos)
+  @MaxLength(30, { message: 'El tipo de entrenamiento debe ser un código del catálogo de tipos (ej: strength, cardio)' })
+  workoutType?: string; // 🎯 Código del tipo (opcional, del catálogo /workout-types)
 
   @IsOptional()
   @IsBoolean({ message: 'isActive debe ser true o false' })
   isActive?: boolean; // ✅ Estado activo (opcional, debe ser booleano)
+
+  @IsOptional()
+  @IsArray({ message: 'Los ejercicios deben ser un array' })
+  @ValidateNested({ each: true })
+  @Type(() => WorkoutDayExerciseDto)
+  exercises?: WorkoutDayExerciseDto[]; // 📋 Ejercicios prescritos en orden (opcional, reemplaza todos)
+}
+
+/**
+ * 📄 DTO para listar días de entrenamiento con paginación y orden
+ */
+export class WorkoutDayListQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsEnum(WorkoutDaySortField, { message: 'El orden debe ser: dayOfWeek, name, durationMinutes o createdAt' })
+  sort?: WorkoutDaySortField; // 🏆 Campo de orden (opcional, default: dayOfWeek)
 }
 
 /**
  * 🔍 DTO para búsqueda de días de entrenamiento con validaciones
  * Define qué filtros podemos usar para buscar días de entrenamiento
  */
-export class SearchWorkoutDayDto {
+export class SearchWorkoutDayDto extends WorkoutDayListQueryDto {
   @IsOptional()
   @IsString({ message: 'El nombre debe ser una cadena de texto' })
   name?: string; // 📛 Nombre (opcional, búsqueda parcial)
@@ -117,10 +206,8 @@ export class SearchWorkoutDayDto {
 
   @IsOptional()
   @IsString({ message: 'El tipo de entrenamiento debe ser una cadena de texto' })
-  @IsIn(['Fuerza', 'Cardio', 'Flexibilidad', 'Funcional', 'Mixto'], {
-    message: 'El tipo de entrenamiento debe ser: Fuerza, Cardio, Flexibilidad, Funcional o Mixto'
-  })
-  workoutType?: string; // 🎯 Tipo (opcional, valores predefinidos)
+  @MaxLength(30, { message: 'El tipo de entrenamiento debe ser un código del catálogo de tipos (ej: strength, cardio)' })
+  workoutType?: string; // 🎯 Código del tipo (opcional, del catálogo /workout-types)
 
   @IsOptional()
   @Transform(({ value }) => value === 'true' || value === true)
@@ -132,4 +219,75 @@ export class SearchWorkoutDayDto {
   @IsNumber({}, { message: 'El ID del usuario debe ser un número' })
   @Min(1, { message: 'El ID del usuario debe ser mayor a 0' })
   userId?: number; // 👤 ID del usuario (opcional, para filtrar por usuario)
+
+  @IsOptional()
+  @IsString({ message: 'El texto de búsqueda debe ser una cadena de texto' })
+  @MaxLength(100, { message: 'El texto de búsqueda debe tener como máximo 100 caracteres' })
+  q?: string; // 🔎 Texto libre: cada palabra debe aparecer en el nombre o la descripción (opcional)
+
+  @IsOptional()
+  @ToArray(Number)
+  @IsInt({ each: true, message: 'Cada día de la semana debe ser un número entero' })
+  @Min(1, { each: true, message: 'Cada día de la semana debe ser mayor o igual a 1 (Lunes)' })
+  @Max(7, { each: true, message: 'Cada día de la semana debe ser menor o igual a 7 (Domingo)' })
+  daysOfWeek?: number[]; // 🗓️ Cualquiera de estos días (opcional, ej: 1,3,5)
+
+  @IsOptional()
+  @ToArray()
+  @IsString({ each: true, message: 'Cada tipo de entrenamiento debe ser una cadena de texto' })
+  @MaxLength(30, { each: true, message: 'Cada tipo de entrenamiento debe ser un código del catálogo de tipos (ej: strength, cardio)' })
+  workoutTypes?: string[]; // 🎯 Cualquiera de estos tipos (opcional, códigos, ej: strength,cardio)
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'La duración mínima debe ser un número entero' })
+  @Min(1, { message: 'La duración mínima debe ser mayor o igual a 1 minuto' })
+  minDuration?: number; // ⏱️ Duración mínima en minutos, inclusive (opcional)
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'La duración máxima debe ser un número entero' })
+  @Max(300, { message: 'La duración máxima debe ser menor o igual a 300 minutos' })
+  maxDuration?: number; // ⏱️ Duración máxima en minutos, inclusive (opcional)
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'La intensidad mínima debe ser un número entero' })
+  @Min(1, { message: 'La intensidad mínima debe ser mayor o igual a 1' })
+  @Max(5, { message: 'La intensidad mínima debe ser menor o igual a 5' })
+  minIntensity?: number; // 🔥 Intensidad mínima, inclusive (opcional)
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'La intensidad máxima debe ser un número entero' })
+  @Min(1, { message: 'La intensidad máxima debe ser mayor o igual a 1' })
+  @Max(5, { message: 'La intensidad máxima debe ser menor o igual a 5' })
+  maxIntensity?: number; // 🔥 Intensidad máxima, inclusive (opcional)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha createdFrom debe tener formato YYYY-MM-DD' })
+  createdFrom?: string; // 📅 Creado desde este día UTC, inclusive (opcional)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha createdTo debe tener formato YYYY-MM-DD' })
+  createdTo?: string; // 📅 Creado hasta este día UTC, inclusive (opcional)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha updatedFrom debe tener formato YYYY-MM-DD' })
+  updatedFrom?: string; // 🔄 Modificado desde este día UTC, inclusive (opcional)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha updatedTo debe tener formato YYYY-MM-DD' })
+  updatedTo?: string; // 🔄 Modificado hasta este día UTC, inclusive (opcional)
+}
+
+/**
+ * 📤 DTO para exportar días de entrenamiento (CSV/JSON)
+ */
+export class WorkoutDayExportQueryDto extends ExportQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'El ID del usuario debe ser un número entero' })
+  @Min(1, { message: 'El ID del usuario debe ser mayor a 0' })
+  userId?: number; // 👤 Solo los entrenamientos de este usuario (opcional, default: los propios; todos si es admin)
 }
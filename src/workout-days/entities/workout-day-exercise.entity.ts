@@ -0,0 +1,90 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { WorkoutDayEntity } from './workout-day.entity';
+import { ExerciseEntity } from '../../exercises/entities/exercise.entity';
+
+/**
+ * 📋 Entity de Ejercicio Prescrito - Compatible con TypeORM
+ * Une un día de entrenamiento con un ejercicio del catálogo, en un orden concreto,
+ * con la prescripción de series, repeticiones, peso objetivo, descanso y tempo
+ */
+@Entity('workout_day_exercises') // 📋 Nombre de la tabla en la BD
+export class WorkoutDayExerciseEntity {
+  /**
+   * 🆔 Identificador único de la prescripción
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 🔢 Posición del ejercicio dentro del día (1 = primero)
+   */
+  @Column({ type: 'int' })
+  position: number;
+
+  /**
+   * 🔁 Número de series
+   */
+  @Column({ type: 'int' })
+  sets: number;
+
+  /**
+   * 🔂 Repeticiones por serie
+   * Número fijo ("10") o rango ("8-12")
+   */
+  @Column({ type: 'varchar', length: 20 })
+  reps: string;
+
+  /**
+   * 🏋️ Peso objetivo por serie en kg (opcional)
+   * Vacío para ejercicios con peso corporal
+   */
+  @Column({ type: 'float', nullable: true })
+  targetWeightKg?: number;
+
+  /**
+   * ⏸️ Descanso entre series en segundos (opcional)
+   */
+  @Column({ type: 'int', nullable: true })
+  restSeconds?: number;
+
+  /**
+   * ⏱️ Tempo de ejecución (opcional)
+   * Formato excéntrica-pausa-concéntrica-pausa, ej: "3-1-1-0" o "2-0-X-0"
+   */
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  tempo?: string;
+
+  /**
+   * 📝 Indicaciones del entrenador (opcional)
+   */
+  @Column({ type: 'text', nullable: true })
+  notes?: string;
+
+  /**
+   * 🏋️ Relación con el día de entrenamiento
+   * Si se elimina el día o se quita el ejercicio de la lista, se elimina la prescripción (Many-to-One)
+   */
+  @ManyToOne(() => WorkoutDayEntity, (workoutDay) => workoutDay.exercises, { onDelete: 'CASCADE', orphanedRowAction: 'delete' })
+  @JoinColumn({ name: 'workout_day_id' })
+  workoutDay: WorkoutDayEntity;
+
+  /**
+   * 🔗 ID del día de entrenamiento (clave foránea)
+   */
+  @Column({ name: 'workout_day_id' })
+  workoutDayId: number;
+
+  /**
+   * 💪 Relación con el ejercicio del catálogo (Many-to-One)
+   */
+  @ManyToOne(() => ExerciseEntity)
+  @JoinColumn({ name: 'exercise_id' })
+  exercise: ExerciseEntity;
+
+  /**
+   * 🔗 ID del ejercicio (clave foránea)
+   */
+  @Column({ name: 'exercise_id' })
+  exerciseId: number;
+}
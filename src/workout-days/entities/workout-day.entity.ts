@@ -1,5 +1,15 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, OneToMany, JoinColumn } from 'typeorm';
 import { UserEntity } from '../../users/entities/user.entity';
+import { WorkoutDayExerciseEntity } from './workout-day-exercise.entity';
+import { ProgramWeekEntity } from '../../training-programs/entities/program-week.entity';
+import { WorkoutTypeEntity } from '../../workout-types/entities/workout-type.entity';
+import { DEFAULT_LOCALE, Locale } from '../../i18n/interfaces/i18n.interface';
+import { MESSAGE_CATALOGS } from '../../i18n/catalogs/message-catalogs';
+
+/**
+ * 🕛 Minutos de un día (una franja horaria no puede terminar después)
+ */
+const MINUTES_PER_DAY = 24 * 60;
 
 /**
  * 🏋️ Entity de Día de Entrenamiento - Compatible con TypeORM
@@ -37,6 +47,20 @@ export class WorkoutDayEntity {
   @Column({ type: 'int' })
   dayOfWeek: number;
 
+  /**
+   * 🕒 Hora de inicio (HH:MM, 24h)
+   * Campo opcional: sin hora, el entrenamiento no ocupa una franja concreta del día
+   */
+  @Column({ type: 'varchar', length: 5, nullable: true })
+  startTime?: string | null;
+
+  /**
+   * 🔢 Turno dentro del día (1 = primero)
+   * Permite varios entrenamientos el mismo día (ej: cardio por la mañana y fuerza por la tarde)
+   */
+  @Column({ type: 'int', default: 1 })
+  slotOrder: number;
+
   /**
    * ⏱️ Duración estimada del entrenamiento en minutos
    * Campo obligatorio, rango válido: 1-300 minutos (5 horas máx)
@@ -52,11 +76,25 @@ export class WorkoutDayEntity {
   intensityLevel: number;
 
   /**
-   * 🎯 Tipo de entrenamiento
-   * Ejemplos: "Fuerza", "Cardio", "Flexibilidad", "Funcional", "Mixto"
+   * 🎯 Tipo de entrenamiento del catálogo (Many-to-One)
+   * Se carga siempre con el día: código, nombres por idioma, icono y MET por defecto
+   */
+  @ManyToOne(() => WorkoutTypeEntity, { eager: true })
+  @JoinColumn({ name: 'workout_type_id' })
+  workoutType: WorkoutTypeEntity;
+
+  /**
+   * 🔗 ID del tipo de entrenamiento (clave foránea)
+   * Campo obligatorio, referencia a workout_types
    */
-  @Column({ type: 'varchar', length: 50, default: 'Fuerza' })
-  workoutType: string;
+  @Column({ name: 'workout_type_id' })
+  workoutTypeId: number;
+
+  /**
+   * 🔥 Calorías estimadas del entrenamiento en kcal (no se guarda en la BD)
+   * Se calculan al devolver el día con el MET del tipo, la intensidad, la duración y el peso del usuario
+   */
+  estimatedCaloriesBurned?: number;
 
   /**
    * ✅ Estado activo del día de entrenamiento
@@ -66,6 +104,13 @@ export class WorkoutDayEntity {
   @Column({ type: 'boolean', default: true })
   isActive: boolean;
 
+  /**
+   * 📋 Ejercicios prescritos en el día, ordenados por position
+   * Un día tiene varios ejercicios con series, repeticiones, peso, descanso y tempo (One-to-Many)
+   */
+  @OneToMany(() => WorkoutDayExerciseEntity, (prescription) => prescription.workoutDay, { cascade: true })
+  exercises: WorkoutDayExerciseEntity[];
+
   /**
    * 👤 Relación con el usuario propietario
    * Un día de entrenamiento pertenece a un usuario (Many-to-One)
@@ -81,6 +126,20 @@ export class WorkoutDayEntity {
   @Column({ name: 'user_id' })
   userId: number;
 
+  /**
+   * 📆 Semana de programa a la que pertenece (opcional)
+   * Vacío = plantilla semanal del usuario; con valor = día de una semana de un programa (Many-to-One)
+   */
+  @ManyToOne(() => ProgramWeekEntity, (week) => week.workoutDays, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'program_week_id' })
+  programWeek?: ProgramWeekEntity;
+
+  /**
+   * 🔗 ID de la semana de programa (clave foránea, opcional)
+   */
+  @Column({ name: 'program_week_id', type: 'int', nullable: true })
+  programWeekId?: number | null;
+
   /**
    * 📅 Fecha de creación del registro
    * Se asigna automáticamente al crear el día de entrenamiento
@@ -105,7 +164,7 @@ export class WorkoutDayEntity {
     // Valores por defecto si no se proporcionan
     this.isActive = this.isActive ?? true;
     this.intensityLevel = this.intensityLevel ?? 3;
-    this.workoutType = this.workoutType ?? 'Fuerza';
+    this.slotOrder = this.slotOrder ?? 1;
     this.createdAt = this.createdAt ?? new Date();
     this.updatedAt = this.updatedAt ?? new Date();
   }
@@ -120,20 +179,20 @@ export class WorkoutDayEntity {
 
   /**
    * 📊 Método para obtener el nombre del día de la semana
-   * Convierte el número a nombre legible
+   * Convierte el número a nombre legible en el idioma indicado (default: español)
    */
-  getDayName(): string {
-    const days = ['', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado', 'Domingo'];
-    return days[this.dayOfWeek] || 'Día inválido';
+  getDayName(locale: Locale = DEFAULT_LOCALE): string {
+    const catalog = MESSAGE_CATALOGS[locale];
+    return catalog.dayNames[this.dayOfWeek] || catalog.messages.invalidDay;
   }
 
   /**
    * 🎯 Método para obtener el nivel de intensidad en texto
-   * Convierte el número a descripción legible
+   * Convierte el número a descripción legible en el idioma indicado (default: español)
    */
-  getIntensityName(): string {
-    const levels = ['', 'Bajo', 'Moderado', 'Alto', 'Muy Alto', 'Extremo'];
-    return levels[this.intensityLevel] || 'Intensidad inválida';
+  getIntensityName(locale: Locale = DEFAULT_LOCALE): string {
+    const catalog = MESSAGE_CATALOGS[locale];
+    return catalog.intensityNames[this.intensityLevel] || catalog.messages.invalidIntensity;
   }
 
   /**
@@ -150,6 +209,58 @@ export class WorkoutDayEntity {
     return `${minutes}m`;
   }
 
+  /**
+   * 🕒 Método para obtener la franja horaria del entrenamiento en minutos desde las 00:00
+   * Devuelve null si no tiene hora de inicio. El fin pasa de 1440 si termina pasada la medianoche (ver crossesMidnight)
+   */
+  getTimeWindow(): { start: number; end: number } | null {
+    if (!this.startTime) {
+      return null;
+    }
+
+    const [hours, minutes] = this.startTime.split(':').map(Number);
+    const start = hours * 60 + minutes;
+    return { start, end: start + this.durationMinutes };
+  }
+
+  /**
+   * 🌙 Método para verificar si el entrenamiento termina pasada la medianoche (ej: 23:00 + 120 min)
+   * Esas franjas invadirían el día siguiente, por eso no se permiten
+   */
+  crossesMidnight(): boolean {
+    const window = this.getTimeWindow();
+    return window !== null && window.end > MINUTES_PER_DAY;
+  }
+
+  /**
+   * ⏰ Método para verificar si la franja horaria se solapa con la de otro entrenamiento
+   * Los entrenamientos sin hora de inicio no se solapan con ninguno
+   */
+  overlapsWith(other: WorkoutDayEntity): boolean {
+    const window = this.getTimeWindow();
+    const otherWindow = other.getTimeWindow();
+
+    if (!window || !otherWindow) {
+      return false;
+    }
+
+    return window.start < otherWindow.end && otherWindow.start < window.end;
+  }
+
+  /**
+   * 🕒 Método para obtener la franja horaria formateada ("07:00-08:30")
+   * Devuelve null si no tiene hora de inicio
+   */
+  getFormattedTimeWindow(): string | null {
+    const window = this.getTimeWindow();
+    if (!window) {
+      return null;
+    }
+
+    const format = (total: number) => `${String(Math.floor(total / 60) % 24).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+    return `${format(window.start)}-${format(window.end)}`;
+  }
+
   /**
    * 🔍 Método para verificar si es un entrenamiento largo
    * Considera largo si es mayor a 90 minutos
@@ -0,0 +1,30 @@
+import { WorkoutDayEntity } from '../entities/workout-day.entity';
+
+/**
+ * 🏆 Enumeración de campos de orden de los listados de días de entrenamiento
+ */
+export enum WorkoutDaySortField {
+  DAY_OF_WEEK = 'dayOfWeek', // 🗓️ Día de la semana y turno
+  NAME = 'name', // 📛 Nombre
+  DURATION = 'durationMinutes', // ⏱️ Duración
+  CREATED_AT = 'createdAt', // 📅 Fecha de creación
+}
+
+/**
+ * 🗓️ Interface de los entrenamientos de un día de la semana
+ * Agrupa los turnos de ese día ordenados por slotOrder (y hora de inicio)
+ */
+export interface WorkoutDayGroup {
+  dayOfWeek: number; // 🗓️ Día de la semana (1=Lunes, 7=Domingo)
+  dayName: string; // 📛 Nombre del día en el idioma de la petición ('Lunes' / 'Monday')
+  workouts: WorkoutDayEntity[]; // 🏋️ Entrenamientos del día por turno
+}
+
+/**
+ * 📅 Interface del feed de calendario recién generado
+ * El token solo se devuelve al generarlo (se guarda hasheado)
+ */
+export interface CalendarFeedToken {
+  url: string; // 🔗 URL privada del feed (.ics) para suscribirse desde una app de calendario
+  token: string; // 🔑 Token del feed en texto plano
+}
@@ -0,0 +1,132 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { WorkoutDaysCalendarService } from './workout-days-calendar.service';
+import { WorkoutDayEntity } from '../entities/workout-day.entity';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserRole } from '../../users/interfaces/user.interface';
+import { WorkoutTypeEntity } from '../../workout-types/entities/workout-type.entity';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { I18nService } from '../../i18n/services/i18n.service';
+import { RequestContextService } from '../../logging/services/request-context.service';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+describe('WorkoutDaysCalendarService', () => {
+  let service: WorkoutDaysCalendarService;
+  let workoutDays: WorkoutDayEntity[];
+  const workoutDayRepository = { find: jest.fn(() => Promise.resolve(workoutDays)) };
+  const userRepository = { findOne: jest.fn(), update: jest.fn() };
+  const configService = { get: jest.fn(() => 'https://api.nutrifit.test') };
+
+  const strength = new WorkoutTypeEntity({ id: 1, code: 'strength', labels: { es: 'Fuerza', en: 'Strength' } });
+  const user = new UserEntity({ id: 1, name: 'Ana', role: UserRole.USER, timezone: 'Europe/Madrid' });
+
+  const buildWorkoutDay = (partial: Partial<WorkoutDayEntity>) => new WorkoutDayEntity({ id: 1, name: 'Pecho', dayOfWeek: 1, startTime: '07:30', durationMinutes: 45, intensityLevel: 3, workoutType: strength, createdAt: new Date('2026-10-14T10:00:00Z'), updatedAt: new Date('2026-10-15T08:00:00Z'), ...partial });
+
+  /**
+   * Deshacer el plegado de líneas (RFC 5545: CRLF seguido de un espacio)
+   */
+  const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+  const exportCalendar = async () => service.exportCalendar(user.id, user);
+
+  beforeEach(async () => {
+    workoutDays = [];
+    userRepository.findOne.mockResolvedValue(user);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [WorkoutDaysCalendarService, { provide: getRepositoryToken(WorkoutDayEntity), useValue: workoutDayRepository }, { provide: getRepositoryToken(UserEntity), useValue: userRepository }, { provide: AccessControlService, useValue: { assertCanManageWorkoutsOf: jest.fn(), assertCanManageUser: jest.fn() } }, { provide: I18nService, useValue: new I18nService(new RequestContextService()) }, { provide: ConfigService, useValue: configService }],
+    }).compile();
+
+    service = moduleRef.get(WorkoutDaysCalendarService);
+  });
+
+  describe('calendario', () => {
+    it('envuelve los eventos en un VCALENDAR con saltos de línea CRLF y la zona horaria del usuario', async () => {
+      workoutDays = [buildWorkoutDay({})];
+      const ics = await exportCalendar();
+      const lines = unfold(ics);
+
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+      expect(lines.slice(0, 2)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0']);
+      expect(lines).toContain('X-WR-CALNAME:Entrenamientos de Ana (NutriFit)');
+      expect(lines).toContain('X-WR-TIMEZONE:Europe/Madrid');
+      expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(1);
+    });
+
+    it('crea un evento semanal con hora local, duración y RRULE del día de la semana', async () => {
+      workoutDays = [buildWorkoutDay({ id: 4, dayOfWeek: 1 })];
+      const lines = unfold(await exportCalendar());
+
+      // Creado el miércoles 14/10/2026: la primera repetición es el lunes siguiente
+      expect(lines).toEqual(expect.arrayContaining(['UID:workout-day-4@nutri-fit', 'DTSTART:20261019T073000', 'DURATION:PT45M', 'RRULE:FREQ=WEEKLY;BYDAY=MO', 'LAST-MODIFIED:20261015T080000Z', 'CATEGORIES:Fuerza']));
+    });
+
+    it('usa un evento de día completo si no hay hora de inicio', async () => {
+      workoutDays = [buildWorkoutDay({ dayOfWeek: 3, startTime: null })];
+      const lines = unfold(await exportCalendar());
+
+      // El propio día de creación ya cae en miércoles
+      expect(lines).toEqual(expect.arrayContaining(['DTSTART;VALUE=DATE:20261014', 'DURATION:P1D', 'RRULE:FREQ=WEEKLY;BYDAY=WE']));
+    });
+
+    it('calcula la primera repetición con la fecha local del usuario, no la UTC', async () => {
+      // Domingo 18/10 a las 23:30 UTC ya es lunes 19/10 en Madrid: el domingo siguiente es el 25
+      workoutDays = [buildWorkoutDay({ dayOfWeek: 7, createdAt: new Date('2026-10-18T23:30:00Z') })];
+      const lines = unfold(await exportCalendar());
+
+      expect(lines).toEqual(expect.arrayContaining(['DTSTART:20261025T073000', 'RRULE:FREQ=WEEKLY;BYDAY=SU']));
+    });
+
+    it('escapa barras, comas, puntos y coma y saltos de línea de los textos', async () => {
+      workoutDays = [buildWorkoutDay({ name: 'Pecho, hombros; core \\ extra', description: 'Calentar bien\nSin prisa' })];
+      const lines = unfold(await exportCalendar());
+
+      expect(lines).toContain('SUMMARY:Pecho\\, hombros\\; core \\\\ extra');
+      expect(lines).toContain('DESCRIPTION:Calentar bien\\nSin prisa\\n\\nTipo: Fuerza\\nDuración: 45m\\nIntensidad: Alto');
+    });
+  });
+
+  describe('plegado de líneas', () => {
+    it('pliega las líneas largas a 75 bytes sin partir caracteres multibyte', async () => {
+      const description = 'Series de sentadilla búlgara 💪 con pausa isométrica y énfasis en la técnica 🏋️ '.repeat(4);
+      workoutDays = [buildWorkoutDay({ description })];
+      const ics = await exportCalendar();
+      const physicalLines = ics.split('\r\n').slice(0, -1);
+
+      physicalLines.forEach((line) => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+      expect(physicalLines.some((line) => line.startsWith(' '))).toBe(true);
+      expect(ics).not.toContain('\uFFFD');
+
+      const descriptionLine = unfold(ics).find((line) => line.startsWith('DESCRIPTION:')) as string;
+      expect(descriptionLine.startsWith(`DESCRIPTION:${description.replace(/,/g, '\\,')}`)).toBe(true);
+    });
+
+    it('no pliega las líneas que caben', async () => {
+      workoutDays = [buildWorkoutDay({ name: 'Pierna' })];
+      const ics = await exportCalendar();
+
+      expect(ics.split('\r\n')).toContain('SUMMARY:Pierna');
+    });
+  });
+
+  describe('feed privado', () => {
+    it('guarda solo el hash del token y devuelve la URL del feed', async () => {
+      const { url, token } = await service.rotateFeedToken(user.id, user);
+
+      expect(url).toBe(`https://api.nutrifit.test/calendar-feeds/${token}/workout-days.ics`);
+      expect(token).toMatch(/^[0-9a-f]{64}$/);
+      expect(userRepository.update).toHaveBeenCalledWith({ id: user.id }, { calendarFeedTokenHash: createHash('sha256').update(token).digest('hex') });
+    });
+
+    it('responde 404 si el token no corresponde a ningún usuario activo', async () => {
+      userRepository.findOne.mockResolvedValue(null);
+
+      const error = await service.exportFeed('token-rotado').catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(NotFoundException);
+      expect((error as NotFoundException).getResponse()).toMatchObject({ code: ErrorCode.CALENDAR_FEED_NOT_FOUND });
+    });
+  });
+});
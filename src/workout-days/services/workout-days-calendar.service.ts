@@ -0,0 +1,292 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { WorkoutDayEntity } from '../entities/workout-day.entity';
+import type { CalendarFeedToken } from '../interfaces/workout-day.interface';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserStatus } from '../../users/interfaces/user.interface';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+import { I18nService } from '../../i18n/services/i18n.service';
+import { DEFAULT_LOCALE, Locale } from '../../i18n/interfaces/i18n.interface';
+
+/**
+ * 🗓️ Días de la semana en formato iCalendar (índice 1=Lunes ... 7=Domingo)
+ */
+const ICS_WEEKDAYS = ['', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+/**
+ * 📏 Longitud máxima de una línea iCalendar en bytes (RFC 5545, sección 3.1)
+ */
+const ICS_MAX_LINE_BYTES = 75;
+
+/**
+ * 📅 Milisegundos de un día (para aritmética de fechas YYYY-MM-DD)
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 📅 Servicio de calendario de los días de entrenamiento - Exportación iCalendar (.ics)
+ *
+ * Genera un calendario RFC 5545 con un evento recurrente semanal
+ * (RRULE por dayOfWeek) por cada día activo de la plantilla semanal del
+ * usuario. Los días con hora de inicio son eventos con duración; los que
+ * no tienen hora son eventos de día completo. Las horas se escriben en
+ * hora local (flotante) y X-WR-TIMEZONE indica la zona horaria del usuario.
+ *
+ * También gestiona el feed privado: una URL con un token aleatorio a la
+ * que las apps de calendario se suscriben sin sesión. Solo se guarda el
+ * hash SHA-256 del token; al rotarlo la URL anterior deja de funcionar.
+ * Como el calendario se genera en cada petición, los días eliminados
+ * desaparecen del feed en la siguiente sincronización.
+ *
+ * @class WorkoutDaysCalendarService
+ * @description Exporta los días de entrenamiento de un usuario como calendario
+ */
+@Injectable()
+export class WorkoutDaysCalendarService {
+  private readonly logger = new Logger(WorkoutDaysCalendarService.name);
+
+  /**
+   * Constructor del servicio
+   * @param workoutDayRepository - Repositorio para WorkoutDayEntity
+   * @param userRepository - Repositorio para validar usuarios y guardar el token del feed
+   * @param accessControlService - Reglas de quién puede ver los entrenamientos de un usuario
+   * @param i18nService - Textos del calendario en el idioma de la petición o del usuario
+   * @param configService - Para leer API_URL del .env
+   */
+  constructor(
+    @InjectRepository(WorkoutDayEntity)
+    private readonly workoutDayRepository: Repository<WorkoutDayEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    private readonly accessControlService: AccessControlService,
+    private readonly i18nService: I18nService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 📤 Exportar los días de entrenamiento de un usuario como calendario iCalendar
+   *
+   * @param {number} userId - ID del usuario
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<string>} Calendario en formato .ics
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propio usuario, su entrenador ni admin
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   *
+   * @example
+   * const ics = await workoutDaysCalendarService.exportCalendar(1, currentUser);
+   */
+  async exportCalendar(userId: number, currentUser: UserEntity): Promise<string> {
+    this.logger.log(`📤 Exportando calendario de entrenamientos del usuario ${userId}`);
+
+    if (isNaN(userId)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, userId);
+    const user = await this.validateUserExists(userId);
+
+    return await this.buildCalendar(user, this.i18nService.getLocale());
+  }
+
+  /**
+   * 📡 Obtener el calendario de un feed privado por su token
+   * Los textos salen en el idioma preferido del usuario (las apps de calendario no envían sesión)
+   *
+   * @param {string} token - Token del feed (el de la URL)
+   * @returns {Promise<string>} Calendario en formato .ics
+   * @throws {NotFoundException} Si el token no existe, se rotó o el usuario no está activo
+   */
+  async exportFeed(token: string): Promise<string> {
+    const user = await this.userRepository.findOne({
+      where: { calendarFeedTokenHash: this.hashToken(token), status: UserStatus.ACTIVE },
+    });
+
+    if (!user) {
+      throw new NotFoundException({ code: ErrorCode.CALENDAR_FEED_NOT_FOUND, message: 'Feed de calendario no encontrado' });
+    }
+
+    this.logger.log(`📡 Sirviendo feed de calendario del usuario ${user.id}`);
+    return await this.buildCalendar(user, user.locale ?? DEFAULT_LOCALE);
+  }
+
+  /**
+   * 🔄 Generar (o rotar) el token del feed de calendario de un usuario
+   * El token anterior, si lo había, deja de funcionar
+   *
+   * @param {number} userId - ID del usuario
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<CalendarFeedToken>} URL del feed y token en texto plano (solo se muestran ahora)
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propio usuario ni admin
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   *
+   * @example
+   * const { url } = await workoutDaysCalendarService.rotateFeedToken(1, currentUser);
+   */
+  async rotateFeedToken(userId: number, currentUser: UserEntity): Promise<CalendarFeedToken> {
+    this.logger.log(`🔄 Rotando token del feed de calendario del usuario ${userId}`);
+
+    await this.validateFeedOwner(userId, currentUser);
+
+    const token = randomBytes(32).toString('hex');
+    await this.userRepository.update({ id: userId }, { calendarFeedTokenHash: this.hashToken(token) });
+
+    const apiUrl = this.configService.get<string>('API_URL') || 'http://localhost:3000';
+    return { url: `${apiUrl}/calendar-feeds/${token}/workout-days.ics`, token };
+  }
+
+  /**
+   * 🚫 Desactivar el feed de calendario de un usuario
+   *
+   * @param {number} userId - ID del usuario
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<void>}
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propio usuario ni admin
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   */
+  async revokeFeedToken(userId: number, currentUser: UserEntity): Promise<void> {
+    this.logger.log(`🚫 Desactivando feed de calendario del usuario ${userId}`);
+
+    await this.validateFeedOwner(userId, currentUser);
+    await this.userRepository.update({ id: userId }, { calendarFeedTokenHash: null });
+  }
+
+  /**
+   * 🗓️ Método privado para generar el calendario de los días activos de la plantilla semanal
+   *
+   * @param {UserEntity} user - Propietario del calendario
+   * @param {Locale} locale - Idioma de los textos
+   * @returns {Promise<string>} Calendario con saltos de línea CRLF y líneas plegadas a 75 bytes
+   * @private
+   */
+  private async buildCalendar(user: UserEntity, locale: Locale): Promise<string> {
+    const workoutDays = await this.workoutDayRepository.find({
+      where: { userId: user.id, isActive: true, programWeekId: IsNull() },
+      order: { dayOfWeek: 'ASC', slotOrder: 'ASC' },
+    });
+
+    const generatedAt = this.formatUtcDateTime(new Date());
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//NutriFit//Workout Days//ES', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH', `X-WR-CALNAME:${this.escapeText(this.i18nService.translate('calendarName', { name: user.name }, locale))}`, `X-WR-TIMEZONE:${user.timezone}`, 'REFRESH-INTERVAL;VALUE=DURATION:PT1H', 'X-PUBLISHED-TTL:PT1H', ...workoutDays.flatMap((workoutDay) => this.buildEvent(workoutDay, user, locale, generatedAt)), 'END:VCALENDAR'];
+
+    return lines.map((line) => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * 🏋️ Método privado para convertir un día de entrenamiento en un evento semanal (VEVENT)
+   * La primera repetición es la del primer día de la semana correspondiente desde que se creó
+   * @private
+   */
+  private buildEvent(workoutDay: WorkoutDayEntity, user: UserEntity, locale: Locale, generatedAt: string): string[] {
+    const firstDate = this.getFirstOccurrence(user.getLocalDate(workoutDay.createdAt), workoutDay.dayOfWeek).replace(/-/g, '');
+    const details = this.i18nService.translate('calendarEventDescription', { type: workoutDay.workoutType.getLabel(locale), duration: workoutDay.getFormattedDuration(), intensity: workoutDay.getIntensityName(locale) }, locale);
+    const description = [workoutDay.description, details].filter(Boolean).join('\n\n');
+
+    return ['BEGIN:VEVENT', `UID:workout-day-${workoutDay.id}@nutri-fit`, `DTSTAMP:${generatedAt}`, `LAST-MODIFIED:${this.formatUtcDateTime(workoutDay.updatedAt)}`, workoutDay.startTime ? `DTSTART:${firstDate}T${workoutDay.startTime.replace(':', '')}00` : `DTSTART;VALUE=DATE:${firstDate}`, workoutDay.startTime ? `DURATION:PT${workoutDay.durationMinutes}M` : 'DURATION:P1D', `RRULE:FREQ=WEEKLY;BYDAY=${ICS_WEEKDAYS[workoutDay.dayOfWeek]}`, `SUMMARY:${this.escapeText(workoutDay.name)}`, `DESCRIPTION:${this.escapeText(description)}`, `CATEGORIES:${this.escapeText(workoutDay.workoutType.getLabel(locale))}`, 'END:VEVENT'];
+  }
+
+  /**
+   * 📅 Método privado para obtener la primera fecha (YYYY-MM-DD) desde una fecha que cae en un día de la semana
+   * @private
+   */
+  private getFirstOccurrence(fromDate: string, dayOfWeek: number): string {
+    const from = new Date(`${fromDate}T00:00:00Z`);
+    const fromDayOfWeek = ((from.getUTCDay() + 6) % 7) + 1; // getUTCDay: 0=Domingo → 1=Lunes ... 7=Domingo
+    const offset = (dayOfWeek - fromDayOfWeek + 7) % 7;
+    return new Date(from.getTime() + offset * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  /**
+   * 🕒 Método privado para formatear una fecha en UTC (YYYYMMDDTHHMMSSZ)
+   * @private
+   */
+  private formatUtcDateTime(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}/, '');
+  }
+
+  /**
+   * 🔤 Método privado para escapar un texto iCalendar (barras, comas, puntos y coma y saltos de línea)
+   * @private
+   */
+  private escapeText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * 📏 Método privado para plegar una línea a 75 bytes (las continuaciones empiezan con un espacio)
+   * No corta caracteres multibyte (acentos, emojis)
+   * @private
+   */
+  private foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+
+    for (const char of line) {
+      const charBytes = Buffer.byteLength(char);
+      const maxBytes = parts.length === 0 ? ICS_MAX_LINE_BYTES : ICS_MAX_LINE_BYTES - 1; // El espacio inicial cuenta
+
+      if (currentBytes + charBytes > maxBytes) {
+        parts.push(current);
+        current = '';
+        currentBytes = 0;
+      }
+
+      current += char;
+      currentBytes += charBytes;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+
+  /**
+   * 🔐 Método privado para validar que se puede gestionar el feed de un usuario
+   * Solo el propio usuario o un administrador (un entrenador no puede invalidar la URL de su cliente)
+   * @private
+   */
+  private async validateFeedOwner(userId: number, currentUser: UserEntity): Promise<void> {
+    if (isNaN(userId)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    this.accessControlService.assertCanManageUser(currentUser, userId);
+    await this.validateUserExists(userId);
+  }
+
+  /**
+   * 👤 Método privado para validar que un usuario existe y está activo
+   *
+   * @param {number} userId - ID del usuario a validar
+   * @returns {Promise<UserEntity>} El usuario encontrado
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   * @private
+   */
+  private async validateUserExists(userId: number): Promise<UserEntity> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId, status: UserStatus.ACTIVE },
+    });
+
+    if (!user) {
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${userId} no encontrado o no está activo`, params: { id: userId } });
+    }
+
+    return user;
+  }
+
+  /**
+   * 🔒 Método privado para obtener el hash SHA-256 de un token
+   * @private
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
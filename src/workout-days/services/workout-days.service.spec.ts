@@ -0,0 +1,118 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { WorkoutDaysService } from './workout-days.service';
+import { WorkoutDayEntity } from '../entities/workout-day.entity';
+import { WorkoutDayExerciseEntity } from '../entities/workout-day-exercise.entity';
+import { CreateWorkoutDayDto } from '../dto/workout-day.dto';
+import { buildDataSourceOptions } from '../../database/database.config';
+import { buildUserFixture } from '../../database/seeds/fixtures/user.fixture';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserRole, UserStatus } from '../../users/interfaces/user.interface';
+import { ExerciseEntity } from '../../exercises/entities/exercise.entity';
+import { WorkoutTypeEntity } from '../../workout-types/entities/workout-type.entity';
+import { WorkoutTypesService } from '../../workout-types/services/workout-types.service';
+import { CalorieEstimationService } from '../../workout-types/services/calorie-estimation.service';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { PaginationService } from '../../common/services/pagination.service';
+import { QueryFiltersService } from '../../common/services/query-filters.service';
+import { BulkDataService } from '../../common/services/bulk-data.service';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+import { I18nService } from '../../i18n/services/i18n.service';
+import { RequestContextService } from '../../logging/services/request-context.service';
+
+describe('WorkoutDaysService', () => {
+  let dataSource: DataSource;
+  let service: WorkoutDaysService;
+  let user: UserEntity;
+
+  const create = (dto: Partial<CreateWorkoutDayDto>) => service.create({ name: 'Entrenamiento', dayOfWeek: 1, durationMinutes: 60, ...dto }, user);
+  const slotsOfDay = async (dayOfWeek: number) => (await dataSource.getRepository(WorkoutDayEntity).find({ where: { dayOfWeek }, order: { slotOrder: 'ASC' } })).map((workoutDay) => [workoutDay.startTime, workoutDay.slotOrder]);
+
+  /**
+   * Capturar el error de una operación y comprobar su clase y su cuerpo ({ code, params })
+   */
+  const expectError = async (promise: Promise<unknown>, errorClass: typeof BadRequestException | typeof ConflictException, body: object) => {
+    const error = await promise.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(errorClass);
+    expect((error as BadRequestException).getResponse()).toMatchObject(body);
+  };
+
+  beforeEach(async () => {
+    dataSource = new DataSource(buildDataSourceOptions((key) => ({ DB_TYPE: 'sqlite', DB_DATABASE: ':memory:' })[key]));
+    await dataSource.initialize();
+    await dataSource.runMigrations({ transaction: 'all' });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [WorkoutDaysService, WorkoutTypesService, CalorieEstimationService, PaginationService, QueryFiltersService, BulkDataService, { provide: DataSource, useValue: dataSource }, ...[WorkoutDayEntity, WorkoutDayExerciseEntity, UserEntity, ExerciseEntity, WorkoutTypeEntity].map((entity) => ({ provide: getRepositoryToken(entity), useValue: dataSource.getRepository(entity) })), { provide: AccessControlService, useValue: { assertCanManageWorkoutsOf: jest.fn() } }, { provide: I18nService, useValue: new I18nService(new RequestContextService()) }],
+    }).compile();
+
+    service = moduleRef.get(WorkoutDaysService);
+    await moduleRef.get(WorkoutTypesService).onApplicationBootstrap();
+    user = await dataSource.getRepository(UserEntity).save(buildUserFixture(1, { role: UserRole.USER, status: UserStatus.ACTIVE }));
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  describe('solapamiento de franjas horarias', () => {
+    beforeEach(async () => {
+      await create({ name: 'Pierna', startTime: '07:00', durationMinutes: 60 });
+    });
+
+    it('rechaza con 409 un entrenamiento que empieza antes de que termine otro del mismo día', async () => {
+      await expectError(create({ name: 'Cardio', startTime: '07:30', durationMinutes: 45 }), ConflictException, { code: ErrorCode.WORKOUT_DAY_TIME_OVERLAP, params: { timeWindow: '07:30-08:15', name: 'Pierna', otherTimeWindow: '07:00-08:00' } });
+    });
+
+    it('rechaza un entrenamiento que envuelve por completo a otro', async () => {
+      await expectError(create({ name: 'Doble', startTime: '06:30', durationMinutes: 120 }), ConflictException, { code: ErrorCode.WORKOUT_DAY_TIME_OVERLAP });
+    });
+
+    it('permite franjas contiguas (una termina cuando empieza la otra)', async () => {
+      await create({ name: 'Movilidad', startTime: '06:30', durationMinutes: 30 });
+      await create({ name: 'Cardio', startTime: '08:00', durationMinutes: 30 });
+
+      expect(await slotsOfDay(1)).toEqual([
+        ['06:30', 1],
+        ['07:00', 2],
+        ['08:00', 3],
+      ]);
+    });
+
+    it('no compara con otros días ni con entrenamientos eliminados', async () => {
+      await create({ name: 'Pierna martes', dayOfWeek: 2, startTime: '07:00' });
+      await dataSource.getRepository(WorkoutDayEntity).update({ name: 'Pierna' }, { isActive: false });
+
+      await expect(create({ name: 'Cardio', startTime: '07:30', durationMinutes: 45 })).resolves.toMatchObject({ startTime: '07:30' });
+    });
+
+    it('los entrenamientos sin hora de inicio solo chocan por turno', async () => {
+      await expect(create({ name: 'Estiramientos', durationMinutes: 20 })).resolves.toMatchObject({ startTime: null, slotOrder: 2 });
+      await expectError(create({ name: 'Core', slotOrder: 2 }), ConflictException, { code: ErrorCode.WORKOUT_DAY_SLOT_CONFLICT, params: { slot: 2, name: 'Estiramientos' } });
+    });
+
+    it('al actualizar valida la nueva franja y no guarda nada si se solapa', async () => {
+      const cardio = await create({ name: 'Cardio', startTime: '18:00', durationMinutes: 45 });
+
+      await expectError(service.update(cardio.id, { startTime: '07:45' }, user), ConflictException, { code: ErrorCode.WORKOUT_DAY_TIME_OVERLAP, params: { name: 'Pierna' } });
+      await expectError(service.update(cardio.id, { durationMinutes: 45, slotOrder: 1 }, user), ConflictException, { code: ErrorCode.WORKOUT_DAY_SLOT_CONFLICT });
+      expect(await slotsOfDay(1)).toEqual([
+        ['07:00', 1],
+        ['18:00', 2],
+      ]);
+    });
+  });
+
+  describe('medianoche', () => {
+    it('rechaza con 400 un entrenamiento que termina pasada la medianoche', async () => {
+      await expectError(create({ name: 'Nocturno', startTime: '23:00', durationMinutes: 120 }), BadRequestException, { code: ErrorCode.WORKOUT_DAY_CROSSES_MIDNIGHT, params: { startTime: '23:00', durationMinutes: 120 } });
+      expect(await slotsOfDay(1)).toEqual([]);
+    });
+
+    it('permite un entrenamiento que termina justo a medianoche', async () => {
+      await expect(create({ name: 'Nocturno', startTime: '23:00', durationMinutes: 60 })).resolves.toMatchObject({ startTime: '23:00', slotOrder: 1 });
+    });
+  });
+});
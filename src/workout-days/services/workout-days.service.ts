@@ -1,10 +1,45 @@
-import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, ConflictException, BadRequestException, Logger, StreamableFile } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Like } from 'typeorm';
+import { Repository, In, IsNull, MoreThan, EntityManager, SelectQueryBuilder } from 'typeorm';
 import { WorkoutDayEntity } from '../entities/workout-day.entity';
-import { CreateWorkoutDayDto, UpdateWorkoutDayDto, SearchWorkoutDayDto } from '../dto/workout-day.dto';
+import { WorkoutDayExerciseEntity } from '../entities/workout-day-exercise.entity';
+import { CreateWorkoutDayDto, UpdateWorkoutDayDto, SearchWorkoutDayDto, WorkoutDayListQueryDto, WorkoutDayExerciseDto, WorkoutDayExportQueryDto } from '../dto/workout-day.dto';
+import { WorkoutDaySortField } from '../interfaces/workout-day.interface';
+import type { WorkoutDayGroup } from '../interfaces/workout-day.interface';
+import { ExerciseEntity } from '../../exercises/entities/exercise.entity';
+import { ProgramWeekEntity } from '../../training-programs/entities/program-week.entity';
 import { UserEntity } from '../../users/entities/user.entity';
 import { UserStatus } from '../../users/interfaces/user.interface';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { PaginationService } from '../../common/services/pagination.service';
+import { QueryFiltersService } from '../../common/services/query-filters.service';
+import { SortDirection } from '../../common/interfaces/pagination.interface';
+import type { Paginated, SortFieldDefinition } from '../../common/interfaces/pagination.interface';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+import { I18nService } from '../../i18n/services/i18n.service';
+import { WorkoutTypesService } from '../../workout-types/services/workout-types.service';
+import { CalorieEstimationService } from '../../workout-types/services/calorie-estimation.service';
+import { DEFAULT_WORKOUT_TYPE_CODE } from '../../workout-types/interfaces/workout-type.interface';
+import { BulkDataService } from '../../common/services/bulk-data.service';
+import { ImportQueryDto } from '../../common/dto/bulk-data.dto';
+import { DataFormat } from '../../common/interfaces/bulk-data.interface';
+import type { BulkColumn, ImportReport } from '../../common/interfaces/bulk-data.interface';
+
+/**
+ * 🏆 Campos de orden permitidos en los listados de días de entrenamiento (el ID siempre desempata)
+ */
+const WORKOUT_DAY_SORT_FIELDS: Record<WorkoutDaySortField, SortFieldDefinition> = {
+  [WorkoutDaySortField.DAY_OF_WEEK]: { columns: ['dayOfWeek', 'slotOrder'], defaultOrder: SortDirection.ASC },
+  [WorkoutDaySortField.NAME]: { columns: ['name'], defaultOrder: SortDirection.ASC },
+  [WorkoutDaySortField.DURATION]: { columns: ['durationMinutes'], defaultOrder: SortDirection.ASC },
+  [WorkoutDaySortField.CREATED_AT]: { columns: ['createdAt'], defaultOrder: SortDirection.DESC },
+};
+
+/**
+ * 📋 Columnas de la importación/exportación masiva de días de entrenamiento
+ * exercises es la prescripción en JSON (mismo formato que el cuerpo de POST /workout-days)
+ */
+const WORKOUT_DAY_BULK_COLUMNS: BulkColumn[] = [{ name: 'id', type: 'number', readOnly: true }, { name: 'userId', type: 'number' }, { name: 'name' }, { name: 'description' }, { name: 'dayOfWeek', type: 'number' }, { name: 'startTime' }, { name: 'slotOrder', type: 'number' }, { name: 'durationMinutes', type: 'number' }, { name: 'intensityLevel', type: 'number' }, { name: 'workoutType' }, { name: 'programWeekId', type: 'number' }, { name: 'exercises', type: 'json' }, { name: 'createdAt', readOnly: true }];
 
 /**
  * 🏋️ Servicio de días de entrenamiento - Lógica de negocio con Base de Datos
@@ -19,62 +54,117 @@ import { UserStatus } from '../../users/interfaces/user.interface';
  */
 @Injectable()
 export class WorkoutDaysService {
+  private readonly logger = new Logger(WorkoutDaysService.name);
+
   /**
    * Constructor del servicio
    * @param workoutDayRepository - Repositorio para WorkoutDayEntity
    * @param userRepository - Repositorio para validar usuarios
+   * @param exerciseRepository - Repositorio para validar los ejercicios prescritos
+   * @param workoutDayExerciseRepository - Repositorio de las prescripciones de ejercicios
+   * @param accessControlService - Reglas de propiedad (quién gestiona qué entrenamientos)
+   * @param paginationService - Orden, paginación y sobre estándar de los listados
+   * @param queryFiltersService - Filtros de rango, fechas y texto libre de la búsqueda
+   * @param i18nService - Nombres de los días en el idioma de la petición
+   * @param workoutTypesService - Catálogo de tipos de entrenamiento (valida el tipo de cada día)
+   * @param calorieEstimationService - Calorías estimadas de cada día de entrenamiento
+   * @param bulkDataService - Importación y exportación masiva (CSV/JSON)
    */
   constructor(
     @InjectRepository(WorkoutDayEntity)
     private readonly workoutDayRepository: Repository<WorkoutDayEntity>,
     @InjectRepository(UserEntity)
     private readonly userRepository: Repository<UserEntity>,
+    @InjectRepository(ExerciseEntity)
+    private readonly exerciseRepository: Repository<ExerciseEntity>,
+    @InjectRepository(WorkoutDayExerciseEntity)
+    private readonly workoutDayExerciseRepository: Repository<WorkoutDayExerciseEntity>,
+    private readonly accessControlService: AccessControlService,
+    private readonly paginationService: PaginationService,
+    private readonly queryFiltersService: QueryFiltersService,
+    private readonly i18nService: I18nService,
+    private readonly workoutTypesService: WorkoutTypesService,
+    private readonly calorieEstimationService: CalorieEstimationService,
+    private readonly bulkDataService: BulkDataService,
   ) {}
 
   /**
-   * 📋 Obtener todos los días de entrenamiento activos desde la BD
+   * 📋 Obtener los días de entrenamiento activos desde la BD (paginado)
    *
-   * Obtiene todos los entrenamientos activos ordenados por día de la semana.
-   * Solo devuelve entrenamientos con isActive = true.
+   * Obtiene los entrenamientos activos, por defecto ordenados por día de la semana y turno.
+   * Solo devuelve entrenamientos con isActive = true de los usuarios que el
+   * autenticado puede gestionar (los suyos y los de sus clientes; admin: todos).
    *
-   * @returns {Promise<WorkoutDayEntity[]>} Lista de entrenamientos activos
+   * @param {WorkoutDayListQueryDto} queryDto - Página o cursor, tamaño y orden
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<Paginated<WorkoutDayEntity>>} Página de entrenamientos activos con el total
+   * @throws {BadRequestException} Si se envían page y cursor a la vez o el cursor no es válido
    * @example
-   * const entrenamientos = await workoutDaysService.findAll();
-   * entrenamientos.forEach(e => console.log(`${e.name} - ${e.getDayName()}`));
+   * const pagina = await workoutDaysService.findAll({ limit: 50 }, currentUser);
+   * pagina.items.forEach(e => console.log(`${e.name} - ${e.getDayName()}`));
    */
-  async findAll(): Promise<WorkoutDayEntity[]> {
-    console.log('📋 Obteniendo días de entrenamiento activos desde la base de datos...');
+  async findAll(queryDto: WorkoutDayListQueryDto, currentUser: UserEntity): Promise<Paginated<WorkoutDayEntity>> {
+    this.logger.log('📋 Obteniendo días de entrenamiento activos desde la base de datos...', queryDto);
 
-    return await this.workoutDayRepository.find({
-      where: { isActive: true },
-      order: { dayOfWeek: 'ASC', createdAt: 'DESC' }, // Por día de semana, luego más recientes
-    });
+    const queryBuilder = this.workoutDayRepository.createQueryBuilder('workoutDay').leftJoinAndSelect('workoutDay.workoutType', 'workoutType').where('workoutDay.isActive = :isActive', { isActive: true });
+    await this.applyAccessibleOwners(queryBuilder, currentUser);
+
+    const page = await this.paginationService.paginate(queryBuilder, queryDto, { fields: WORKOUT_DAY_SORT_FIELDS, defaultSort: WorkoutDaySortField.DAY_OF_WEEK }); // Por día de semana y turno
+    await this.attachCalorieEstimates(page.items);
+
+    return page;
   }
 
   /**
    * 👤 Obtener todos los días de entrenamiento de un usuario específico
    *
-   * Filtra los entrenamientos por usuario y los devuelve ordenados por día.
-   * Valida que el usuario exista antes de buscar sus entrenamientos.
+   * Filtra los entrenamientos por usuario, los pagina y agrupa los de la
+   * página por día de la semana. Con el orden por defecto (dayOfWeek) cada
+   * día es un grupo y sus entrenamientos van ordenados por turno (slotOrder);
+   * con otro orden, los grupos son los entrenamientos consecutivos del mismo día.
+   * total y limit cuentan entrenamientos, no días.
+   * Solo devuelve la plantilla semanal: los días de programas se consultan
+   * en el programa o en el calendario del usuario.
+   * Valida el acceso y que el usuario exista antes de buscar sus entrenamientos.
    *
    * @param {number} userId - ID del usuario propietario
-   * @returns {Promise<WorkoutDayEntity[]>} Entrenamientos del usuario ordenados por día
+   * @param {WorkoutDayListQueryDto} queryDto - Página o cursor, tamaño y orden
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<Paginated<WorkoutDayGroup>>} Página con los días (Lunes a Domingo), cada uno con sus turnos
+   * @throws {BadRequestException} Si se envían page y cursor a la vez o el cursor no es válido
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador (con la relación activa) ni admin
    * @throws {NotFoundException} Si el usuario no existe o no está activo
    *
    * @example
-   * const entrenamientosUsuario = await workoutDaysService.findByUserId(1);
-   * console.log(`Usuario tiene ${entrenamientosUsuario.length} días de entrenamiento`);
+   * const semana = await workoutDaysService.findByUserId(1, { limit: 100 }, currentUser);
+   * console.log(semana.items[0].dayName); // 'Lunes'
+   * console.log(semana.items[0].workouts.map(w => w.startTime)); // ['07:00', '19:00']
    */
-  async findByUserId(userId: number): Promise<WorkoutDayEntity[]> {
-    console.log(`👤 Obteniendo días de entrenamiento del usuario ${userId}...`);
+  async findByUserId(userId: number, queryDto: WorkoutDayListQueryDto, currentUser: UserEntity): Promise<Paginated<WorkoutDayGroup>> {
+    this.logger.log(`👤 Obteniendo días de entrenamiento del usuario ${userId}...`);
+
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, userId);
 
     // Validar que el usuario existe y está activo
     await this.validateUserExists(userId);
 
-    return await this.workoutDayRepository.find({
-      where: { userId, isActive: true },
-      order: { dayOfWeek: 'ASC' }, // Lunes a Domingo
-    });
+    const queryBuilder = this.workoutDayRepository.createQueryBuilder('workoutDay').leftJoinAndSelect('workoutDay.workoutType', 'workoutType').where({ userId, isActive: true, programWeekId: IsNull() });
+
+    const page = await this.paginationService.paginate(queryBuilder, queryDto, { fields: WORKOUT_DAY_SORT_FIELDS, defaultSort: WorkoutDaySortField.DAY_OF_WEEK }); // Lunes a Domingo, luego por turno
+    await this.attachCalorieEstimates(page.items);
+
+    // Agrupar por día de la semana manteniendo el orden
+    const groups: WorkoutDayGroup[] = [];
+    for (const workoutDay of page.items) {
+      const lastGroup = groups[groups.length - 1];
+      if (lastGroup && lastGroup.dayOfWeek === workoutDay.dayOfWeek) {
+        lastGroup.workouts.push(workoutDay);
+      } else {
+        groups.push({ dayOfWeek: workoutDay.dayOfWeek, dayName: workoutDay.getDayName(this.i18nService.getLocale()), workouts: [workoutDay] });
+      }
+    }
+
+    return { ...page, items: groups };
   }
 
   /**
@@ -82,32 +172,39 @@ export class WorkoutDaysService {
    *
    * Permite búsquedas avanzadas combinando múltiples criterios.
    * Los filtros se aplican de forma dinámica según los parámetros proporcionados.
+   * Solo busca entre los entrenamientos que el usuario autenticado puede gestionar.
    *
-   * @param {SearchWorkoutDayDto} searchWorkoutDayDto - Criterios de búsqueda
-   * @returns {Promise<WorkoutDayEntity[]>} Entrenamientos que cumplen los criterios
+   * @param {SearchWorkoutDayDto} searchWorkoutDayDto - Criterios de búsqueda, paginación y orden
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<Paginated<WorkoutDayEntity>>} Página de entrenamientos que cumplen los criterios con el total
+   * @throws {ForbiddenException} Si filtra por un userId cuyos entrenamientos no puede gestionar
+   * @throws {BadRequestException} Si un rango tiene el mínimo mayor que el máximo, o se envían page y cursor a la vez o el cursor no es válido
    *
    * @example
    * // Buscar entrenamientos de cardio
-   * const cardio = await workoutDaysService.search({ workoutType: 'Cardio' });
+   * const cardio = await workoutDaysService.search({ workoutType: 'cardio' }, currentUser);
    *
    * // Buscar entrenamientos de un día específico
-   * const lunes = await workoutDaysService.search({ dayOfWeek: 1 });
+   * const lunes = await workoutDaysService.search({ dayOfWeek: 1 }, currentUser);
    *
    * // Búsqueda combinada
    * const intensos = await workoutDaysService.search({
    *   intensityLevel: 5,
-   *   workoutType: 'Fuerza'
-   * });
+   *   workoutType: 'strength'
+   * }, currentUser);
+   *
+   * // Rangos y listas: 30-60 minutos, Lunes/Miércoles/Viernes, fuerza o funcional
+   * const cortos = await workoutDaysService.search({ minDuration: 30, maxDuration: 60, daysOfWeek: [1, 3, 5], workoutTypes: ['strength', 'functional'] }, currentUser);
    */
-  async search(searchWorkoutDayDto: SearchWorkoutDayDto): Promise<WorkoutDayEntity[]> {
-    console.log('🔍 Buscando días de entrenamiento con filtros en la BD:', searchWorkoutDayDto);
+  async search(searchWorkoutDayDto: SearchWorkoutDayDto, currentUser: UserEntity): Promise<Paginated<WorkoutDayEntity>> {
+    this.logger.log('🔍 Buscando días de entrenamiento con filtros en la BD', searchWorkoutDayDto);
 
     // Construir condiciones WHERE dinámicamente
     const whereConditions: Record<string, any> = {};
 
     // Filtrar por nombre (búsqueda parcial)
     if (searchWorkoutDayDto.name) {
-      whereConditions.name = Like(`%${searchWorkoutDayDto.name}%`);
+      whereConditions.name = this.queryFiltersService.likeContains('name', searchWorkoutDayDto.name);
     }
 
     // Filtrar por día de la semana (1=Lunes, 7=Domingo)
@@ -125,59 +222,113 @@ export class WorkoutDaysService {
       whereConditions.intensityLevel = searchWorkoutDayDto.intensityLevel;
     }
 
-    // Filtrar por tipo de entrenamiento
-    if (searchWorkoutDayDto.workoutType) {
-      whereConditions.workoutType = searchWorkoutDayDto.workoutType;
-    }
-
     // Filtrar por estado activo
     if (searchWorkoutDayDto.isActive !== undefined) {
       whereConditions.isActive = searchWorkoutDayDto.isActive;
     }
 
-    // Filtrar por usuario propietario
+    // Filtrar por usuario propietario (solo si puede gestionar sus entrenamientos)
     if (searchWorkoutDayDto.userId) {
+      await this.accessControlService.assertCanManageWorkoutsOf(currentUser, searchWorkoutDayDto.userId);
       whereConditions.userId = searchWorkoutDayDto.userId;
     }
 
-    return await this.workoutDayRepository.find({
-      where: whereConditions,
-      order: { dayOfWeek: 'ASC', createdAt: 'DESC' },
-    });
+    const queryBuilder = this.workoutDayRepository.createQueryBuilder('workoutDay').leftJoinAndSelect('workoutDay.workoutType', 'workoutType').where(whereConditions);
+    await this.applyAccessibleOwners(queryBuilder, currentUser);
+
+    // Filtrar por tipo de entrenamiento (código del catálogo)
+    if (searchWorkoutDayDto.workoutType) {
+      queryBuilder.andWhere('workoutType.code = :workoutType', { workoutType: searchWorkoutDayDto.workoutType });
+    }
+
+    // Filtrar por varios días o tipos (cualquiera de ellos)
+    if (searchWorkoutDayDto.daysOfWeek?.length) {
+      queryBuilder.andWhere('workoutDay.dayOfWeek IN (:...daysOfWeek)', { daysOfWeek: searchWorkoutDayDto.daysOfWeek });
+    }
+
+    if (searchWorkoutDayDto.workoutTypes?.length) {
+      queryBuilder.andWhere('workoutType.code IN (:...workoutTypes)', { workoutTypes: searchWorkoutDayDto.workoutTypes });
+    }
+
+    // Filtrar por rangos de duración e intensidad (inclusivos)
+    this.queryFiltersService.assertValidRange(searchWorkoutDayDto.minDuration, searchWorkoutDayDto.maxDuration, 'duración');
+    this.queryFiltersService.assertValidRange(searchWorkoutDayDto.minIntensity, searchWorkoutDayDto.maxIntensity, 'intensidad');
+
+    if (searchWorkoutDayDto.minDuration !== undefined) {
+      queryBuilder.andWhere('workoutDay.durationMinutes >= :minDuration', { minDuration: searchWorkoutDayDto.minDuration });
+    }
+
+    if (searchWorkoutDayDto.maxDuration !== undefined) {
+      queryBuilder.andWhere('workoutDay.durationMinutes <= :maxDuration', { maxDuration: searchWorkoutDayDto.maxDuration });
+    }
+
+    if (searchWorkoutDayDto.minIntensity !== undefined) {
+      queryBuilder.andWhere('workoutDay.intensityLevel >= :minIntensity', { minIntensity: searchWorkoutDayDto.minIntensity });
+    }
+
+    if (searchWorkoutDayDto.maxIntensity !== undefined) {
+      queryBuilder.andWhere('workoutDay.intensityLevel <= :maxIntensity', { maxIntensity: searchWorkoutDayDto.maxIntensity });
+    }
+
+    // Filtrar por fechas de creación y modificación (días UTC inclusivos)
+    this.queryFiltersService.applyDateRange(queryBuilder, 'createdAt', searchWorkoutDayDto.createdFrom, searchWorkoutDayDto.createdTo);
+    this.queryFiltersService.applyDateRange(queryBuilder, 'updatedAt', searchWorkoutDayDto.updatedFrom, searchWorkoutDayDto.updatedTo);
+
+    // Texto libre en nombre y descripción
+    this.queryFiltersService.applyTextSearch(queryBuilder, ['name', 'description'], searchWorkoutDayDto.q);
+
+    const page = await this.paginationService.paginate(queryBuilder, searchWorkoutDayDto, { fields: WORKOUT_DAY_SORT_FIELDS, defaultSort: WorkoutDaySortField.DAY_OF_WEEK });
+    await this.attachCalorieEstimates(page.items);
+
+    return page;
   }
 
   /**
    * 🏋️ Obtener un día de entrenamiento por ID desde la BD
    *
    * Busca un entrenamiento específico por su ID único.
-   * Útil para obtener detalles completos de un entrenamiento.
+   * Incluye la prescripción completa: ejercicios en orden con series,
+   * repeticiones, peso objetivo, descanso y tempo.
+   * Los días de la plantilla semanal solo los ven su propietario, su
+   * entrenador (con la relación activa) o un admin; los días de un programa
+   * son públicos como el propio programa (GET /training-programs/:id).
    *
    * @param {number} id - ID único del día de entrenamiento
-   * @returns {Promise<WorkoutDayEntity>} El entrenamiento encontrado
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<WorkoutDayEntity>} El entrenamiento encontrado con sus ejercicios
    * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no puede gestionar los entrenamientos del propietario
    * @throws {NotFoundException} Si el entrenamiento no existe
    *
    * @example
-   * const entrenamiento = await workoutDaysService.findOne(1);
+   * const entrenamiento = await workoutDaysService.findOne(1, currentUser);
    * console.log(entrenamiento.name); // 'Lunes - Pecho y Tríceps'
    * console.log(entrenamiento.getIntensityDescription()); // 'Intensidad Alta'
+   * console.log(entrenamiento.exercises[0].exercise.name); // 'Press de banca'
    */
-  async findOne(id: number): Promise<WorkoutDayEntity> {
-    console.log(`🔍 Buscando día de entrenamiento con ID: ${id} en la BD`);
+  async findOne(id: number, currentUser: UserEntity): Promise<WorkoutDayEntity> {
+    this.logger.log(`🔍 Buscando día de entrenamiento con ID: ${id} en la BD`);
 
     // Validar que el ID sea un número válido
     if (isNaN(id)) {
-      throw new BadRequestException('ID debe ser un número válido');
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
     }
 
     const workoutDay = await this.workoutDayRepository.findOne({
       where: { id },
+      relations: { exercises: { exercise: true } },
+      order: { exercises: { position: 'ASC' } },
     });
 
     if (!workoutDay) {
-      throw new NotFoundException(`Día de entrenamiento con ID ${id} no encontrado`);
+      throw new NotFoundException({ code: ErrorCode.WORKOUT_DAY_NOT_FOUND, message: `Día de entrenamiento con ID ${id} no encontrado`, params: { id } });
+    }
+
+    if (!workoutDay.programWeekId) {
+      await this.accessControlService.assertCanManageWorkoutsOf(currentUser, workoutDay.userId);
     }
 
+    await this.attachCalorieEstimates([workoutDay]);
     return workoutDay;
   }
 
@@ -185,133 +336,240 @@ export class WorkoutDaysService {
    * ➕ Crear un nuevo día de entrenamiento en la BD
    *
    * Crea un entrenamiento después de validar que:
-   * 1. El usuario exista y esté activo
-   * 2. No haya otro entrenamiento activo para ese día de la semana
+   * 1. El usuario autenticado pueda gestionar los entrenamientos del propietario
+   * 2. El usuario exista y esté activo
+   * 3. No haya otro entrenamiento activo en el mismo turno ni con la franja
+   *    horaria solapada ese día (en la plantilla semanal o en la semana del programa)
+   * 4. Los ejercicios prescritos (si se envían) existan y estén activos
+   *
+   * Sin slotOrder, el turno sigue el orden de las horas de inicio: el nuevo
+   * entrenamiento se coloca delante de los que empiezan más tarde (que bajan
+   * un turno) o, sin hora de inicio, ocupa el siguiente turno libre del día.
+   * No se permiten franjas que terminen pasada la medianoche.
+   *
+   * Con programWeekId el día pertenece a una semana de un programa: solo
+   * su autor o un admin pueden crearlo y el propietario es el autor.
    *
    * @param {CreateWorkoutDayDto} createWorkoutDayDto - Datos del nuevo entrenamiento
+   * @param {UserEntity} currentUser - Usuario autenticado (propietario por defecto)
    * @returns {Promise<WorkoutDayEntity>} El entrenamiento recién creado
-   * @throws {NotFoundException} Si el usuario no existe o no está activo
-   * @throws {ConflictException} Si ya existe un entrenamiento para ese día
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador ni admin (o el autor del programa)
+   * @throws {BadRequestException} Si el tipo de entrenamiento no existe en el catálogo o no está activo, o el entrenamiento termina pasada la medianoche
+   * @throws {NotFoundException} Si el usuario, la semana del programa o algún ejercicio no existen o no están activos
+   * @throws {ConflictException} Si el turno está ocupado o la franja horaria se solapa con otro entrenamiento
    *
    * @example
    * const nuevoEntrenamiento = await workoutDaysService.create({
    *   name: 'Jueves - Espalda y Bíceps',
    *   description: 'Rutina de espalda con dominadas',
    *   dayOfWeek: 4,
+   *   startTime: '18:30',
    *   durationMinutes: 80,
    *   intensityLevel: 4,
-   *   workoutType: 'Fuerza',
-   *   userId: 1
-   * });
+   *   workoutType: 'strength',
+   *   userId: 1,
+   *   exercises: [{ exerciseId: 3, sets: 4, reps: '8-10', targetWeightKg: 60, restSeconds: 90, tempo: '3-1-1-0' }]
+   * }, currentUser);
    */
-  async create(createWorkoutDayDto: CreateWorkoutDayDto): Promise<WorkoutDayEntity> {
-    console.log('➕ Creando nuevo día de entrenamiento en la BD:', createWorkoutDayDto);
+  async create(createWorkoutDayDto: CreateWorkoutDayDto, currentUser: UserEntity): Promise<WorkoutDayEntity> {
+    this.logger.log('➕ Creando nuevo día de entrenamiento en la BD', createWorkoutDayDto);
 
-    // Validar que el usuario existe y está activo
-    await this.validateUserExists(createWorkoutDayDto.userId);
+    // En una transacción: si el nuevo entrenamiento desplaza turnos, se guardan todos o ninguno
+    const savedWorkoutDay = await this.workoutDayRepository.manager.transaction((manager) => this.insertWorkoutDay(createWorkoutDayDto, currentUser, manager));
 
-    // Validar que no exista ya un entrenamiento para ese usuario en ese día
-    const existingWorkout = await this.workoutDayRepository.findOne({
-      where: {
-        userId: createWorkoutDayDto.userId,
-        dayOfWeek: createWorkoutDayDto.dayOfWeek,
-        isActive: true,
-      },
-    });
+    return this.findOne(savedWorkoutDay.id, currentUser);
+  }
 
-    if (existingWorkout) {
-      const dayName = this.getDayName(createWorkoutDayDto.dayOfWeek);
-      throw new ConflictException(`Ya existe un entrenamiento activo para el ${dayName}`);
-    }
+  /**
+   * 📥 Importar días de entrenamiento desde un CSV o una lista JSON
+   *
+   * Cada fila se valida y se crea como en POST /workout-days, con los
+   * mismos permisos por fila (propietario, su entrenador o admin) y los
+   * mismos conflictos de turno y horario, también entre filas del fichero.
+   * Sin userId la fila es del usuario autenticado. Con dryRun solo se valida.
+   *
+   * @param {unknown} body - CSV con cabecera o lista JSON de días de entrenamiento
+   * @param {ImportQueryDto} queryDto - dryRun y modo (all_or_nothing o skip_invalid)
+   * @param {UserEntity} currentUser - Usuario autenticado que importa
+   * @returns {Promise<ImportReport>} Informe con el resultado de cada fila
+   * @throws {BadRequestException} Si el formato no es válido, está vacío, tiene demasiadas filas o columnas desconocidas
+   *
+   * @example
+   * const informe = await workoutDaysService.import('name,dayOfWeek,durationMinutes\nLunes - Pierna,1,60', { mode: ImportMode.SKIP_INVALID }, currentUser);
+   * console.log(informe.committed, informe.rows[0].id); // true 12
+   */
+  async import(body: unknown, queryDto: ImportQueryDto, currentUser: UserEntity): Promise<ImportReport> {
+    const rows = this.bulkDataService.parseRows(body, WORKOUT_DAY_BULK_COLUMNS);
+    this.logger.log(`📥 Importando ${rows.length} días de entrenamiento (dryRun: ${queryDto.dryRun ?? false}, modo: ${queryDto.mode ?? 'all_or_nothing'})`);
 
-    // Crear el nuevo entrenamiento con valores por defecto
-    const workoutDay = this.workoutDayRepository.create({
-      name: createWorkoutDayDto.name.trim(),
-      description: createWorkoutDayDto.description?.trim(),
-      dayOfWeek: createWorkoutDayDto.dayOfWeek,
-      durationMinutes: createWorkoutDayDto.durationMinutes,
-      intensityLevel: createWorkoutDayDto.intensityLevel ?? 3, // Medio por defecto
-      workoutType: createWorkoutDayDto.workoutType ?? 'Fuerza', // Fuerza por defecto
-      userId: createWorkoutDayDto.userId,
-      isActive: true,
-    });
+    const report = await this.bulkDataService.runImport(rows, CreateWorkoutDayDto, queryDto, async (createWorkoutDayDto, manager) => (await this.insertWorkoutDay(createWorkoutDayDto, currentUser, manager)).id);
 
-    const savedWorkoutDay = await this.workoutDayRepository.save(workoutDay);
-    console.log('✅ Día de entrenamiento creado exitosamente en la BD:', savedWorkoutDay);
+    this.logger.log(`✅ Importación de días de entrenamiento: ${report.succeeded} válidos, ${report.failed} con errores (guardada: ${report.committed})`);
+    return report;
+  }
 
-    return savedWorkoutDay;
+  /**
+   * 📤 Exportar días de entrenamiento activos en CSV o JSON (streaming)
+   *
+   * Con userId exporta los de ese usuario (propietario, su entrenador o
+   * admin). Sin userId, un admin exporta todos y el resto los suyos.
+   * Las columnas son las de la importación más id y createdAt.
+   *
+   * @param {WorkoutDayExportQueryDto} queryDto - Formato (default: csv) y usuario
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<StreamableFile>} Fichero workout-days.csv o workout-days.json
+   * @throws {ForbiddenException} Si no puede gestionar los entrenamientos del usuario indicado
+   *
+   * @example
+   * const fichero = await workoutDaysService.export({ format: DataFormat.JSON, userId: 1 }, currentUser);
+   */
+  async export(queryDto: WorkoutDayExportQueryDto, currentUser: UserEntity): Promise<StreamableFile> {
+    let userId: number | undefined;
+
+    if (queryDto.userId) {
+      await this.accessControlService.assertCanManageWorkoutsOf(currentUser, queryDto.userId);
+      userId = queryDto.userId;
+    } else if (!currentUser.isAdmin()) {
+      userId = currentUser.id;
+    }
+
+    return this.bulkDataService.createExport<WorkoutDayEntity>({
+      format: queryDto.format ?? DataFormat.CSV,
+      fileName: 'workout-days',
+      columns: WORKOUT_DAY_BULK_COLUMNS,
+      fetchBatch: (afterId, limit) =>
+        this.workoutDayRepository.find({
+          where: { id: MoreThan(afterId), isActive: true, ...(userId && { userId }) },
+          relations: { workoutType: true, exercises: true },
+          order: { id: 'ASC' },
+          take: limit,
+        }),
+      toRecord: (workoutDay) => ({
+        id: workoutDay.id,
+        userId: workoutDay.userId,
+        name: workoutDay.name,
+        description: workoutDay.description,
+        dayOfWeek: workoutDay.dayOfWeek,
+        startTime: workoutDay.startTime,
+        slotOrder: workoutDay.slotOrder,
+        durationMinutes: workoutDay.durationMinutes,
+        intensityLevel: workoutDay.intensityLevel,
+        workoutType: workoutDay.workoutType?.code,
+        programWeekId: workoutDay.programWeekId,
+        exercises: [...(workoutDay.exercises ?? [])]
+          .sort((first, second) => first.position - second.position)
+          .map((exercise) => ({
+            exerciseId: exercise.exerciseId,
+            sets: exercise.sets,
+            reps: exercise.reps,
+            targetWeightKg: exercise.targetWeightKg ?? undefined,
+            restSeconds: exercise.restSeconds ?? undefined,
+            tempo: exercise.tempo ?? undefined,
+            notes: exercise.notes ?? undefined,
+          })),
+        createdAt: workoutDay.createdAt,
+      }),
+    });
   }
 
   /**
    * ✏️ Actualizar un día de entrenamiento existente en la BD
    *
    * Actualiza solo los campos proporcionados (actualización parcial).
-   * Si se cambia el día de la semana, valida que no haya conflictos.
+   * Si cambian el día, la hora, la duración o el turno, valida que no haya
+   * conflictos con los demás entrenamientos del día. Al cambiar de día o de
+   * hora sin indicar slotOrder, el turno se recoloca según la hora de inicio.
+   * Si se envía exercises, reemplaza la prescripción completa.
    *
    * @param {number} id - ID del entrenamiento a actualizar
    * @param {UpdateWorkoutDayDto} updateWorkoutDayDto - Campos a actualizar
+   * @param {UserEntity} currentUser - Usuario autenticado que realiza el cambio
    * @returns {Promise<WorkoutDayEntity>} El entrenamiento actualizado
-   * @throws {BadRequestException} Si el ID no es válido
-   * @throws {NotFoundException} Si el entrenamiento no existe
-   * @throws {ConflictException} Si el nuevo día ya tiene otro entrenamiento
+   * @throws {BadRequestException} Si el ID no es válido, el tipo de entrenamiento no está activo en el catálogo o el entrenamiento termina pasada la medianoche
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador ni admin
+   * @throws {NotFoundException} Si el entrenamiento o algún ejercicio no existen
+   * @throws {ConflictException} Si el turno está ocupado o la franja horaria se solapa con otro entrenamiento
    *
    * @example
    * // Cambiar solo la duración
-   * const entrenamiento = await workoutDaysService.update(1, { durationMinutes: 100 });
+   * const entrenamiento = await workoutDaysService.update(1, { durationMinutes: 100 }, currentUser);
    *
    * // Cambiar múltiples campos
    * const entrenamiento = await workoutDaysService.update(1, {
    *   name: 'Lunes - Entrenamiento Actualizado',
    *   intensityLevel: 5,
    *   durationMinutes: 120
-   * });
+   * }, currentUser);
+   *
+   * // Mover a la tarde como segundo turno
+   * const entrenamiento = await workoutDaysService.update(1, { startTime: '19:00', slotOrder: 2 }, currentUser);
    */
-  async update(id: number, updateWorkoutDayDto: UpdateWorkoutDayDto): Promise<WorkoutDayEntity> {
-    console.log(`✏️ Actualizando día de entrenamiento ID ${id} en la BD:`, updateWorkoutDayDto);
+  async update(id: number, updateWorkoutDayDto: UpdateWorkoutDayDto, currentUser: UserEntity): Promise<WorkoutDayEntity> {
+    this.logger.log(`✏️ Actualizando día de entrenamiento ID ${id} en la BD`, updateWorkoutDayDto);
 
     // Validar que el ID sea válido
     if (isNaN(id)) {
-      throw new BadRequestException('ID debe ser un número válido');
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
     }
 
-    // Buscar el entrenamiento a actualizar
+    // Buscar el entrenamiento a actualizar (con su prescripción actual para poder reemplazarla)
     const workoutDay = await this.workoutDayRepository.findOne({
       where: { id },
+      relations: { exercises: true },
     });
 
     if (!workoutDay) {
-      throw new NotFoundException(`Día de entrenamiento con ID ${id} no encontrado`);
+      throw new NotFoundException({ code: ErrorCode.WORKOUT_DAY_NOT_FOUND, message: `Día de entrenamiento con ID ${id} no encontrado`, params: { id } });
     }
 
-    // Validar conflicto de día de semana solo si se está cambiando
-    if (updateWorkoutDayDto.dayOfWeek && updateWorkoutDayDto.dayOfWeek !== workoutDay.dayOfWeek) {
-      const existingWorkout = await this.workoutDayRepository.findOne({
-        where: {
-          userId: workoutDay.userId,
-          dayOfWeek: updateWorkoutDayDto.dayOfWeek,
-          isActive: true,
-        },
-      });
+    // Validar permisos: propietario, entrenador asignado o admin
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, workoutDay.userId);
 
-      if (existingWorkout && existingWorkout.id !== id) {
-        const dayName = this.getDayName(updateWorkoutDayDto.dayOfWeek);
-        throw new ConflictException(`Ya existe otro entrenamiento activo para el ${dayName}`);
-      }
-    }
+    const dayChanged = updateWorkoutDayDto.dayOfWeek !== undefined && updateWorkoutDayDto.dayOfWeek !== workoutDay.dayOfWeek;
+    const slotChanged = dayChanged || updateWorkoutDayDto.startTime !== undefined || updateWorkoutDayDto.durationMinutes !== undefined || updateWorkoutDayDto.slotOrder !== undefined;
+    const reactivated = updateWorkoutDayDto.isActive === true && !workoutDay.isActive;
 
     // Actualizar solo los campos proporcionados
     if (updateWorkoutDayDto.name) workoutDay.name = updateWorkoutDayDto.name.trim();
     if (updateWorkoutDayDto.description !== undefined) workoutDay.description = updateWorkoutDayDto.description?.trim();
     if (updateWorkoutDayDto.dayOfWeek !== undefined) workoutDay.dayOfWeek = updateWorkoutDayDto.dayOfWeek;
+    if (updateWorkoutDayDto.startTime !== undefined) workoutDay.startTime = updateWorkoutDayDto.startTime;
     if (updateWorkoutDayDto.durationMinutes !== undefined) workoutDay.durationMinutes = updateWorkoutDayDto.durationMinutes;
     if (updateWorkoutDayDto.intensityLevel !== undefined) workoutDay.intensityLevel = updateWorkoutDayDto.intensityLevel;
-    if (updateWorkoutDayDto.workoutType !== undefined) workoutDay.workoutType = updateWorkoutDayDto.workoutType;
     if (updateWorkoutDayDto.isActive !== undefined) workoutDay.isActive = updateWorkoutDayDto.isActive;
 
-    const updatedWorkoutDay = await this.workoutDayRepository.save(workoutDay);
-    console.log('✅ Día de entrenamiento actualizado exitosamente en la BD:', updatedWorkoutDay);
+    // Validar el nuevo tipo contra el catálogo (solo si cambia: un tipo eliminado se conserva)
+    if (updateWorkoutDayDto.workoutType !== undefined && updateWorkoutDayDto.workoutType !== workoutDay.workoutType.code) {
+      workoutDay.workoutType = await this.workoutTypesService.findActiveByCode(updateWorkoutDayDto.workoutType);
+      workoutDay.workoutTypeId = workoutDay.workoutType.id;
+    }
+
+    // Validar turno y franja horaria solo si cambian (dentro de la misma semana de programa o plantilla)
+    let shiftedWorkouts: WorkoutDayEntity[] = [];
+    if (workoutDay.isActive && (slotChanged || reactivated)) {
+      const sameDayWorkouts = await this.findSameDayWorkouts(workoutDay);
+
+      if (updateWorkoutDayDto.slotOrder !== undefined) {
+        workoutDay.slotOrder = updateWorkoutDayDto.slotOrder;
+      } else if (dayChanged || updateWorkoutDayDto.startTime !== undefined) {
+        shiftedWorkouts = this.assignChronologicalSlot(workoutDay, sameDayWorkouts);
+      }
+
+      this.assertSlotAvailable(workoutDay, sameDayWorkouts);
+    }
+
+    // Reemplazar la prescripción: los ejercicios que ya no están en la lista se eliminan al guardar
+    if (updateWorkoutDayDto.exercises) {
+      workoutDay.exercises = await this.buildExercises(updateWorkoutDayDto.exercises);
+    }
+
+    await this.workoutDayRepository.manager.transaction(async (manager) => {
+      await manager.save(shiftedWorkouts); // Entrenamientos que bajan un turno para respetar el orden horario
+      await manager.save(workoutDay);
+    });
+    this.logger.log(`✅ Día de entrenamiento ID ${id} actualizado exitosamente en la BD`);
 
-    return updatedWorkoutDay;
+    return this.findOne(id, currentUser);
   }
 
   /**
@@ -322,24 +580,26 @@ export class WorkoutDaysService {
    * Permite recuperar el entrenamiento más tarde si es necesario.
    *
    * @param {number} id - ID del entrenamiento a eliminar
+   * @param {UserEntity} currentUser - Usuario autenticado que realiza la eliminación
    * @returns {Promise<WorkoutDayEntity>} El entrenamiento marcado como eliminado
    * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador ni admin
    * @throws {NotFoundException} Si el entrenamiento no existe
    * @throws {ConflictException} Si el entrenamiento ya estaba eliminado
    *
    * @example
-   * const entrenamientoEliminado = await workoutDaysService.remove(1);
+   * const entrenamientoEliminado = await workoutDaysService.remove(1, currentUser);
    * console.log(entrenamientoEliminado.isActive); // false
    *
    * // Para reactivar:
-   * await workoutDaysService.update(1, { isActive: true });
+   * await workoutDaysService.update(1, { isActive: true }, currentUser);
    */
-  async remove(id: number): Promise<WorkoutDayEntity> {
-    console.log(`🗑️ Eliminando día de entrenamiento ID ${id} en la BD`);
+  async remove(id: number, currentUser: UserEntity): Promise<WorkoutDayEntity> {
+    this.logger.log(`🗑️ Eliminando día de entrenamiento ID ${id} en la BD`);
 
     // Validar que el ID sea válido
     if (isNaN(id)) {
-      throw new BadRequestException('ID debe ser un número válido');
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
     }
 
     const workoutDay = await this.workoutDayRepository.findOne({
@@ -347,58 +607,306 @@ export class WorkoutDaysService {
     });
 
     if (!workoutDay) {
-      throw new NotFoundException(`Día de entrenamiento con ID ${id} no encontrado`);
+      throw new NotFoundException({ code: ErrorCode.WORKOUT_DAY_NOT_FOUND, message: `Día de entrenamiento con ID ${id} no encontrado`, params: { id } });
     }
 
+    // Validar permisos: propietario, entrenador asignado o admin
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, workoutDay.userId);
+
     if (!workoutDay.isActive) {
-      throw new ConflictException(`Día de entrenamiento con ID ${id} ya estaba eliminado`);
+      throw new ConflictException({ code: ErrorCode.WORKOUT_DAY_ALREADY_DELETED, message: `Día de entrenamiento con ID ${id} ya estaba eliminado`, params: { id } });
     }
 
     // Eliminación lógica: cambiar isActive a false
     workoutDay.isActive = false;
     const deletedWorkoutDay = await this.workoutDayRepository.save(workoutDay);
 
-    console.log('✅ Día de entrenamiento eliminado exitosamente en la BD:', deletedWorkoutDay);
+    this.logger.log(`✅ Día de entrenamiento ID ${id} eliminado exitosamente en la BD`);
     return deletedWorkoutDay;
   }
 
   /**
-   * 👤 Método privado para validar que un usuario existe y está activo
+   * 💾 Método privado que valida y guarda un día de entrenamiento nuevo
    *
-   * Verifica en la BD que el usuario exista y tenga isActive = true.
-   * Se usa antes de crear o modificar entrenamientos.
+   * Usa el manager recibido para buscar los demás entrenamientos del día y
+   * guardar, así las filas de una importación ven las anteriores de la
+   * misma transacción.
    *
-   * @param {number} userId - ID del usuario a validar
-   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   * @param {CreateWorkoutDayDto} createWorkoutDayDto - Datos del nuevo entrenamiento
+   * @param {UserEntity} currentUser - Usuario autenticado (propietario por defecto)
+   * @param {EntityManager} manager - Manager de la transacción (default: el del repositorio)
+   * @returns {Promise<WorkoutDayEntity>} El entrenamiento guardado (sin relaciones cargadas)
    * @private
    */
-  private async validateUserExists(userId: number): Promise<void> {
-    const user = await this.userRepository.findOne({
-      where: { id: userId, status: UserStatus.ACTIVE },
+  private async insertWorkoutDay(createWorkoutDayDto: CreateWorkoutDayDto, currentUser: UserEntity, manager: EntityManager = this.workoutDayRepository.manager): Promise<WorkoutDayEntity> {
+    const programWeekId = createWorkoutDayDto.programWeekId ?? null;
+    let userId: number;
+
+    if (programWeekId) {
+      // Día de un programa: pertenece al autor del programa
+      const programWeek = await manager.findOne(ProgramWeekEntity, {
+        where: { id: programWeekId, program: { isActive: true } },
+        relations: { program: true },
+      });
+
+      if (!programWeek) {
+        throw new NotFoundException({ code: ErrorCode.PROGRAM_WEEK_NOT_FOUND, message: `Semana de programa con ID ${programWeekId} no encontrada o el programa no está activo`, params: { id: programWeekId } });
+      }
+
+      this.accessControlService.assertCanManageTrainingProgram(currentUser, programWeek.program.createdById);
+      userId = programWeek.program.createdById;
+    } else {
+      // Si no se indica usuario, el entrenamiento es del usuario autenticado
+      userId = createWorkoutDayDto.userId ?? currentUser.id;
+
+      // Validar permisos: propietario, entrenador asignado o admin
+      await this.accessControlService.assertCanManageWorkoutsOf(currentUser, userId);
+    }
+
+    // Validar que el usuario existe y está activo
+    await this.validateUserExists(userId, manager);
+
+    // Validar el tipo de entrenamiento contra el catálogo (Fuerza por defecto)
+    const workoutType = await this.workoutTypesService.findActiveByCode(createWorkoutDayDto.workoutType ?? DEFAULT_WORKOUT_TYPE_CODE, manager);
+
+    // Crear el nuevo entrenamiento con valores por defecto
+    const workoutDay = this.workoutDayRepository.create({
+      name: createWorkoutDayDto.name.trim(),
+      description: createWorkoutDayDto.description?.trim(),
+      dayOfWeek: createWorkoutDayDto.dayOfWeek,
+      startTime: createWorkoutDayDto.startTime ?? null,
+      durationMinutes: createWorkoutDayDto.durationMinutes,
+      intensityLevel: createWorkoutDayDto.intensityLevel ?? 3, // Medio por defecto
+      workoutType,
+      workoutTypeId: workoutType.id,
+      userId,
+      programWeekId,
+      isActive: true,
     });
 
-    if (!user) {
-      throw new NotFoundException(`Usuario con ID ${userId} no encontrado o no está activo`);
+    // Validar el turno y la franja horaria frente a los demás entrenamientos del día
+    const sameDayWorkouts = await this.findSameDayWorkouts(workoutDay, manager);
+    const shiftedWorkouts = createWorkoutDayDto.slotOrder !== undefined ? [] : this.assignChronologicalSlot(workoutDay, sameDayWorkouts);
+    if (createWorkoutDayDto.slotOrder !== undefined) {
+      workoutDay.slotOrder = createWorkoutDayDto.slotOrder;
+    }
+    this.assertSlotAvailable(workoutDay, sameDayWorkouts);
+
+    // Validar y construir la prescripción de ejercicios (si se envía)
+    workoutDay.exercises = await this.buildExercises(createWorkoutDayDto.exercises ?? [], manager);
+
+    await manager.save(shiftedWorkouts); // Entrenamientos que bajan un turno para respetar el orden horario
+    const savedWorkoutDay = await manager.save(workoutDay);
+    this.logger.log(`✅ Día de entrenamiento creado exitosamente en la BD con ID: ${savedWorkoutDay.id}`);
+
+    return savedWorkoutDay;
+  }
+
+  /**
+   * 📋 Método privado para construir la prescripción de ejercicios de un día
+   *
+   * Valida que todos los ejercicios existan y estén activos, y asigna la
+   * posición según el orden del array (1 = primero).
+   *
+   * @param {WorkoutDayExerciseDto[]} exerciseDtos - Ejercicios recibidos en orden
+   * @param {EntityManager} manager - Manager con el que consultar (default: el del repositorio)
+   * @returns {Promise<WorkoutDayExerciseEntity[]>} Prescripciones listas para guardar
+   * @throws {NotFoundException} Si algún ejercicio no existe o no está activo
+   * @private
+   */
+  private async buildExercises(exerciseDtos: WorkoutDayExerciseDto[], manager: EntityManager = this.exerciseRepository.manager): Promise<WorkoutDayExerciseEntity[]> {
+    if (exerciseDtos.length === 0) {
+      return [];
     }
+
+    const exerciseIds = [...new Set(exerciseDtos.map((exerciseDto) => exerciseDto.exerciseId))];
+    const foundExercises = await manager.find(ExerciseEntity, {
+      where: { id: In(exerciseIds), isActive: true },
+    });
+
+    const foundIds = new Set(foundExercises.map((exercise) => exercise.id));
+    const missingIds = exerciseIds.filter((exerciseId) => !foundIds.has(exerciseId));
+
+    if (missingIds.length > 0) {
+      throw new NotFoundException({ code: ErrorCode.EXERCISES_NOT_FOUND, message: `Ejercicios no encontrados o no activos: ${missingIds.join(', ')}`, params: { ids: missingIds.join(', ') } });
+    }
+
+    return exerciseDtos.map((exerciseDto, index) =>
+      this.workoutDayExerciseRepository.create({
+        position: index + 1,
+        exerciseId: exerciseDto.exerciseId,
+        sets: exerciseDto.sets,
+        reps: exerciseDto.reps,
+        targetWeightKg: exerciseDto.targetWeightKg,
+        restSeconds: exerciseDto.restSeconds,
+        tempo: exerciseDto.tempo?.toUpperCase(),
+        notes: exerciseDto.notes?.trim(),
+      }),
+    );
   }
 
   /**
-   * 📅 Método privado para obtener el nombre del día de la semana
+   * 🗓️ Método privado para obtener los demás entrenamientos activos del mismo día
    *
-   * Convierte el número de día (1-7) a su nombre en español.
-   * Útil para mensajes de error y logs legibles.
+   * Busca en el mismo ámbito que el entrenamiento: la semana del programa si
+   * pertenece a un programa o la plantilla semanal del usuario si no.
    *
-   * @param {number} dayNumber - Número del día (1=Lunes, 7=Domingo)
-   * @returns {string} Nombre del día en español
+   * @param {WorkoutDayEntity} workoutDay - Entrenamiento a comparar (nuevo o existente)
+   * @param {EntityManager} manager - Manager con el que consultar (default: el del repositorio)
+   * @returns {Promise<WorkoutDayEntity[]>} Entrenamientos activos de ese día, sin incluir el propio
    * @private
+   */
+  private async findSameDayWorkouts(workoutDay: WorkoutDayEntity, manager: EntityManager = this.workoutDayRepository.manager): Promise<WorkoutDayEntity[]> {
+    const sameDayWorkouts = await manager.find(WorkoutDayEntity, {
+      where: {
+        ...(workoutDay.programWeekId ? { programWeekId: workoutDay.programWeekId } : { userId: workoutDay.userId, programWeekId: IsNull() }),
+        dayOfWeek: workoutDay.dayOfWeek,
+        isActive: true,
+      },
+    });
+
+    return sameDayWorkouts.filter((other) => other.id !== workoutDay.id);
+  }
+
+  /**
+   * 🔢 Método privado para calcular el siguiente turno libre de un día
    *
-   * @example
-   * this.getDayName(1); // 'Lunes'
-   * this.getDayName(7); // 'Domingo'
-   * this.getDayName(8); // 'Día inválido'
+   * @param {WorkoutDayEntity[]} sameDayWorkouts - Entrenamientos del día
+   * @returns {number} Turno siguiente al último ocupado (1 si el día está libre)
+   * @private
    */
-  private getDayName(dayNumber: number): string {
-    const days = ['', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado', 'Domingo'];
-    return days[dayNumber] || 'Día inválido';
+  private getNextSlotOrder(sameDayWorkouts: WorkoutDayEntity[]): number {
+    return sameDayWorkouts.reduce((max, other) => Math.max(max, other.slotOrder), 0) + 1;
+  }
+
+  /**
+   * 🕒 Método privado para asignar el turno de un entrenamiento según su hora de inicio
+   *
+   * Los turnos siguen el orden horario del día: un entrenamiento con hora
+   * ocupa el turno del primero que empieza más tarde, y ese y los siguientes
+   * bajan un turno. Si es el último del día o no tiene hora, ocupa el
+   * siguiente turno libre. Si ya tiene un turno libre y en orden, lo conserva.
+   *
+   * @param {WorkoutDayEntity} workoutDay - Entrenamiento a colocar (se le asigna slotOrder)
+   * @param {WorkoutDayEntity[]} sameDayWorkouts - Demás entrenamientos del día
+   * @returns {WorkoutDayEntity[]} Entrenamientos del día que bajan un turno (pendientes de guardar)
+   * @private
+   */
+  private assignChronologicalSlot(workoutDay: WorkoutDayEntity, sameDayWorkouts: WorkoutDayEntity[]): WorkoutDayEntity[] {
+    const start = workoutDay.getTimeWindow()?.start;
+    const currentSlotFree = workoutDay.slotOrder !== undefined && !sameDayWorkouts.some((other) => other.slotOrder === workoutDay.slotOrder);
+    const inOrder = sameDayWorkouts.every((other) => {
+      const otherStart = other.getTimeWindow()?.start;
+      if (start === undefined || otherStart === undefined) {
+        return true;
+      }
+      return other.slotOrder < workoutDay.slotOrder ? otherStart <= start : otherStart >= start;
+    });
+
+    if (currentSlotFree && inOrder) {
+      return [];
+    }
+
+    const [nextLater] = sameDayWorkouts.filter((other) => start !== undefined && (other.getTimeWindow()?.start ?? -1) > start).sort((first, second) => first.slotOrder - second.slotOrder);
+    if (!nextLater) {
+      workoutDay.slotOrder = this.getNextSlotOrder(sameDayWorkouts);
+      return [];
+    }
+
+    workoutDay.slotOrder = nextLater.slotOrder;
+    const shiftedWorkouts = sameDayWorkouts.filter((other) => other.slotOrder >= workoutDay.slotOrder);
+    shiftedWorkouts.forEach((other) => (other.slotOrder += 1));
+    return shiftedWorkouts;
+  }
+
+  /**
+   * ⏰ Método privado para validar que el turno y la franja horaria están libres
+   *
+   * Dos entrenamientos del mismo día chocan si comparten turno o si sus
+   * franjas horarias (hora de inicio + duración) se solapan. Los que no
+   * tienen hora de inicio solo chocan por turno. Las franjas no pueden
+   * terminar pasada la medianoche: invadirían el día siguiente.
+   *
+   * @param {WorkoutDayEntity} workoutDay - Entrenamiento a validar
+   * @param {WorkoutDayEntity[]} sameDayWorkouts - Demás entrenamientos del día
+   * @throws {BadRequestException} Si la franja termina pasada la medianoche
+   * @throws {ConflictException} Si el turno está ocupado o la franja se solapa
+   * @private
+   */
+  private assertSlotAvailable(workoutDay: WorkoutDayEntity, sameDayWorkouts: WorkoutDayEntity[]): void {
+    const dayName = workoutDay.getDayName();
+    const localizedDayName = workoutDay.getDayName(this.i18nService.getLocale());
+
+    if (workoutDay.crossesMidnight()) {
+      throw new BadRequestException({ code: ErrorCode.WORKOUT_DAY_CROSSES_MIDNIGHT, message: `El entrenamiento del ${dayName} empieza a las ${workoutDay.startTime} y dura ${workoutDay.durationMinutes} minutos: debe terminar antes de medianoche`, params: { day: localizedDayName, startTime: workoutDay.startTime ?? '', durationMinutes: workoutDay.durationMinutes } });
+    }
+
+    const sameSlot = sameDayWorkouts.find((other) => other.slotOrder === workoutDay.slotOrder);
+    if (sameSlot) {
+      throw new ConflictException({ code: ErrorCode.WORKOUT_DAY_SLOT_CONFLICT, message: `El turno ${workoutDay.slotOrder} del ${dayName} ya está ocupado por "${sameSlot.name}"`, params: { slot: workoutDay.slotOrder, day: localizedDayName, name: sameSlot.name } });
+    }
+
+    const overlapping = sameDayWorkouts.find((other) => workoutDay.overlapsWith(other));
+    if (overlapping) {
+      throw new ConflictException({ code: ErrorCode.WORKOUT_DAY_TIME_OVERLAP, message: `El horario ${workoutDay.getFormattedTimeWindow()} del ${dayName} se solapa con "${overlapping.name}" (${overlapping.getFormattedTimeWindow()})`, params: { timeWindow: workoutDay.getFormattedTimeWindow() ?? '', day: localizedDayName, name: overlapping.name, otherTimeWindow: overlapping.getFormattedTimeWindow() ?? '' } });
+    }
+  }
+
+  /**
+   * 🔒 Método privado para limitar un listado a los propietarios que el usuario puede gestionar
+   * (los suyos y los de sus clientes con una relación de entrenamiento activa; admin: sin límite)
+   *
+   * @param {SelectQueryBuilder<WorkoutDayEntity>} queryBuilder - Consulta con el alias workoutDay
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @private
+   */
+  private async applyAccessibleOwners(queryBuilder: SelectQueryBuilder<WorkoutDayEntity>, currentUser: UserEntity): Promise<void> {
+    const ownerIds = await this.accessControlService.findWorkoutAccessibleOwnerIds(currentUser);
+
+    if (ownerIds) {
+      queryBuilder.andWhere('workoutDay.userId IN (:...ownerIds)', { ownerIds });
+    }
+  }
+
+  /**
+   * 🔥 Método privado para añadir las calorías estimadas a los días de entrenamiento
+   * Carga el peso de los propietarios en una sola consulta (sin peso se usa el de referencia)
+   *
+   * @param {WorkoutDayEntity[]} workoutDays - Días con su tipo de entrenamiento cargado
+   * @private
+   */
+  private async attachCalorieEstimates(workoutDays: WorkoutDayEntity[]): Promise<void> {
+    const userIds = [...new Set(workoutDays.map((workoutDay) => workoutDay.userId))];
+    if (userIds.length === 0) {
+      return;
+    }
+
+    const owners = await this.userRepository.find({ select: { id: true, weightKg: true }, where: { id: In(userIds) } });
+    const weights = new Map(owners.map((owner) => [owner.id, owner.weightKg]));
+
+    for (const workoutDay of workoutDays) {
+      workoutDay.estimatedCaloriesBurned = this.calorieEstimationService.estimateWorkoutDay(workoutDay, weights.get(workoutDay.userId));
+    }
+  }
+
+  /**
+   * 👤 Método privado para validar que un usuario existe y está activo
+   *
+   * Verifica en la BD que el usuario exista y tenga isActive = true.
+   * Se usa antes de crear o modificar entrenamientos.
+   *
+   * @param {number} userId - ID del usuario a validar
+   * @param {EntityManager} manager - Manager con el que consultar (default: el del repositorio)
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   * @private
+   */
+  private async validateUserExists(userId: number, manager: EntityManager = this.userRepository.manager): Promise<void> {
+    const user = await manager.findOne(UserEntity, {
+      where: { id: userId, status: UserStatus.ACTIVE },
+    });
+
+    if (!user) {
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${userId} no encontrado o no está activo`, params: { id: userId } });
+    }
   }
 }
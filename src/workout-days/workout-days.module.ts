@@ -1,9 +1,16 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { WorkoutDaysController } from './controllers/workout-days.controller';
+import { WorkoutDaysCalendarController } from './controllers/workout-days-calendar.controller';
+import { CalendarFeedsController } from './controllers/calendar-feeds.controller';
 import { WorkoutDaysService } from './services/workout-days.service';
+import { WorkoutDaysCalendarService } from './services/workout-days-calendar.service';
 import { WorkoutDayEntity } from './entities/workout-day.entity';
+import { WorkoutDayExerciseEntity } from './entities/workout-day-exercise.entity';
 import { UserEntity } from '../users/entities/user.entity';
+import { ExerciseEntity } from '../exercises/entities/exercise.entity';
+import { ProgramWeekEntity } from '../training-programs/entities/program-week.entity';
+import { WorkoutTypesModule } from '../workout-types/workout-types.module';
 
 /**
  * 📦 Módulo de días de entrenamiento
@@ -12,14 +19,19 @@ import { UserEntity } from '../users/entities/user.entity';
  * - Servicio (lógica de negocio con Repository pattern)
  * - Entity (para interacción con base de datos)
  * - DTOs y interfaces (ya importados por controlador y servicio)
- * - Relación con UserEntity para validaciones y referencias
+ * - Prescripción de ejercicios por día (WorkoutDayExerciseEntity)
+ * - Relación con UserEntity y ExerciseEntity para validaciones y referencias
+ * - Relación con ProgramWeekEntity para los días que pertenecen a una semana de un programa
+ * - Catálogo de tipos de entrenamiento (WorkoutTypesModule) para validar el tipo de cada día
+ * - Exportación iCalendar (.ics) de la plantilla semanal y feed privado suscribible
  */
 @Module({
   imports: [
-    TypeOrmModule.forFeature([WorkoutDayEntity, UserEntity]), // 🗄️ Registrar los repositorios necesarios
+    TypeOrmModule.forFeature([WorkoutDayEntity, WorkoutDayExerciseEntity, UserEntity, ExerciseEntity, ProgramWeekEntity]), // 🗄️ Registrar los repositorios necesarios
+    WorkoutTypesModule, // 🎯 Validar el tipo de entrenamiento contra el catálogo
   ],
-  controllers: [WorkoutDaysController],
-  providers: [WorkoutDaysService],
+  controllers: [WorkoutDaysController, WorkoutDaysCalendarController, CalendarFeedsController],
+  providers: [WorkoutDaysService, WorkoutDaysCalendarService],
   exports: [WorkoutDaysService], // Exporta el servicio para ser usado en otros módulos
 })
 export class WorkoutDaysModule {}
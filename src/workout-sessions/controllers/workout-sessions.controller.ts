@@ -0,0 +1,181 @@
+import { Controller, Get, Post, Put, Delete, Param, Query, Body, HttpStatus, HttpCode } from '@nestjs/common';
+import { StartWorkoutSessionDto, UpdateWorkoutSessionDto, FinishWorkoutSessionDto, WorkoutSessionHistoryQueryDto } from '../dto/workout-session.dto';
+import { WorkoutSessionEntity } from '../entities/workout-session.entity';
+import { WorkoutSessionsService } from '../services/workout-sessions.service';
+import { UserEntity } from '../../users/entities/user.entity';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { I18nService } from '../../i18n/services/i18n.service';
+
+/**
+ * ⏱️ Controlador de sesiones de entrenamiento - Endpoints de la API REST
+ *
+ * Este controlador registra los entrenamientos realmente realizados:
+ * iniciar una sesión, anotar las series, finalizarla y consultar el historial.
+ * Solo el propio usuario, su entrenador asignado o un admin tienen acceso.
+ *
+ * @class WorkoutSessionsController
+ * @description Controlador REST para sesiones de entrenamiento
+ */
+@Controller('workout-sessions') // Prefijo de ruta: /workout-sessions
+export class WorkoutSessionsController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param workoutSessionsService - Servicio con la lógica de negocio
+   * @param i18nService - Mensajes de respuesta en el idioma de la petición
+   */
+  constructor(
+    private readonly workoutSessionsService: WorkoutSessionsService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * 📅 Obtener el historial de sesiones de un usuario (Status: 200 OK)
+   *
+   * @route GET /workout-sessions/user/:userId
+   * @param {string} userId - ID del usuario en la URL
+   * @query {string} [from] - Desde (YYYY-MM-DD, inclusive)
+   * @query {string} [to] - Hasta (YYYY-MM-DD, inclusive)
+   * @query {WorkoutSessionStatus} [status] - Filtrar por estado
+   * @returns {Promise<WorkoutSessionEntity[]>} Sesiones de la más reciente a la más antigua
+   * @status 200 - Historial encontrado (con o sin sesiones)
+   * @status 400 - Parámetros inválidos
+   * @status 403 - Sin permisos sobre los entrenamientos de ese usuario
+   * @status 404 - Usuario no encontrado o no activo
+   *
+   * @example
+   * GET http://localhost:3000/workout-sessions/user/1?from=2025-01-01&to=2025-01-31&status=completed
+   */
+  @Get('user/:userId')
+  async getSessionsByUser(@Param('userId') userId: string, @Query() queryDto: WorkoutSessionHistoryQueryDto, @CurrentUser() currentUser: UserEntity): Promise<WorkoutSessionEntity[]> {
+    const userIdNumber = parseInt(userId);
+    return await this.workoutSessionsService.findByUserId(userIdNumber, queryDto, currentUser);
+  }
+
+  /**
+   * ▶️ Iniciar una sesión de entrenamiento (Status: 201 Created)
+   *
+   * La sesión pertenece a quien entrena: el propietario de un día de su
+   * plantilla o el usuario inscrito en el programa del día (por defecto,
+   * el autenticado; un entrenador puede indicar el userId de su cliente).
+   *
+   * @route POST /workout-sessions
+   * @body {StartWorkoutSessionDto} startDto - Día de entrenamiento, fecha (default: hoy) y usuario (opcional)
+   * @returns {Promise<WorkoutSessionEntity>} La sesión en curso
+   * @status 201 - Sesión iniciada
+   * @status 400 - Datos inválidos, fecha futura o día que no está en el plan del usuario
+   * @status 403 - Sin permisos sobre los entrenamientos de ese usuario
+   * @status 404 - Día de entrenamiento no encontrado
+   * @status 409 - Ya hay una sesión en curso
+   *
+   * @example
+   * POST http://localhost:3000/workout-sessions
+   * Body: { "workoutDayId": 3, "sessionDate": "2025-01-15" }
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async startSession(@Body() startDto: StartWorkoutSessionDto, @CurrentUser() currentUser: UserEntity): Promise<WorkoutSessionEntity> {
+    return await this.workoutSessionsService.start(startDto, currentUser);
+  }
+
+  /**
+   * 🏁 Finalizar una sesión de entrenamiento (Status: 200 OK)
+   *
+   * La respuesta incluye las calorías estimadas (estimatedCaloriesBurned); si se
+   * envían las reales en caloriesBurned (ej: de un wearable), las estadísticas usan esas.
+   *
+   * @route POST /workout-sessions/:id/finish
+   * @param {string} id - ID de la sesión en la URL
+   * @body {FinishWorkoutSessionDto} finishDto - Estado final (default: completed), series, RPE, calorías y notas
+   * @returns {Promise<WorkoutSessionEntity>} La sesión finalizada
+   * @status 200 - Sesión finalizada
+   * @status 400 - ID inválido, datos inválidos o series repetidas
+   * @status 403 - Sin permisos sobre esta sesión
+   * @status 404 - Sesión o ejercicio no encontrado
+   * @status 409 - La sesión ya estaba finalizada
+   *
+   * @example
+   * POST http://localhost:3000/workout-sessions/1/finish
+   * Body: { "status": "completed", "perceivedExertion": 8, "caloriesBurned": 420 }
+   * Response: { "id": 1, "status": "completed", "caloriesBurned": 420, "estimatedCaloriesBurned": 398, ... }
+   */
+  @Post(':id/finish')
+  @HttpCode(HttpStatus.OK)
+  async finishSession(@Param('id') id: string, @Body() finishDto: FinishWorkoutSessionDto, @CurrentUser() currentUser: UserEntity): Promise<WorkoutSessionEntity> {
+    const sessionId = parseInt(id);
+    return await this.workoutSessionsService.finish(sessionId, finishDto, currentUser);
+  }
+
+  /**
+   * ✏️ Actualizar una sesión de entrenamiento (Status: 200 OK)
+   *
+   * Si se envía sets, reemplaza la lista completa de series.
+   *
+   * @route PUT /workout-sessions/:id
+   * @param {string} id - ID de la sesión en la URL
+   * @body {UpdateWorkoutSessionDto} updateDto - Series, RPE, calorías y notas
+   * @returns {Promise<WorkoutSessionEntity>} La sesión actualizada
+   * @status 200 - Sesión actualizada
+   * @status 400 - ID inválido, datos inválidos o series repetidas
+   * @status 403 - Sin permisos sobre esta sesión
+   * @status 404 - Sesión o ejercicio no encontrado
+   *
+   * @example
+   * PUT http://localhost:3000/workout-sessions/1
+   * Body: {
+   *   "sets": [
+   *     { "exerciseId": 3, "setNumber": 1, "reps": 10, "weightKg": 60 },
+   *     { "exerciseId": 3, "setNumber": 2, "reps": 8, "weightKg": 62.5 }
+   *   ]
+   * }
+   */
+  @Put(':id')
+  async updateSession(@Param('id') id: string, @Body() updateDto: UpdateWorkoutSessionDto, @CurrentUser() currentUser: UserEntity): Promise<WorkoutSessionEntity> {
+    const sessionId = parseInt(id);
+    return await this.workoutSessionsService.update(sessionId, updateDto, currentUser);
+  }
+
+  /**
+   * 🗑️ Eliminar una sesión de entrenamiento (Status: 200 OK)
+   *
+   * @route DELETE /workout-sessions/:id
+   * @param {string} id - ID de la sesión en la URL
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Sesión eliminada exitosamente
+   * @status 400 - ID inválido
+   * @status 403 - Sin permisos sobre esta sesión
+   * @status 404 - Sesión no encontrada
+   * @status 409 - Sesión ya estaba eliminada
+   *
+   * @example
+   * DELETE http://localhost:3000/workout-sessions/1
+   * Response: { "message": "✅ Sesión del 2025-01-15 eliminada exitosamente" }
+   */
+  @Delete(':id')
+  async deleteSession(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<{ message: string }> {
+    const sessionId = parseInt(id);
+    const deletedSession = await this.workoutSessionsService.remove(sessionId, currentUser);
+    return {
+      message: this.i18nService.translate('workoutSessionDeleted', { date: deletedSession.sessionDate }),
+    };
+  }
+
+  /**
+   * ⏱️ Obtener una sesión de entrenamiento por ID (Status: 200 OK o 404 Not Found)
+   *
+   * @route GET /workout-sessions/:id
+   * @param {string} id - ID de la sesión en la URL
+   * @returns {Promise<WorkoutSessionEntity>} La sesión con su día de entrenamiento y series
+   * @status 200 - Sesión encontrada
+   * @status 400 - ID inválido (no es un número)
+   * @status 403 - Sin permisos sobre esta sesión
+   * @status 404 - Sesión no encontrada
+   *
+   * @example
+   * GET http://localhost:3000/workout-sessions/1
+   */
+  @Get(':id') // Este decorador debe ir DESPUÉS de otros @Get más específicos
+  async getSessionById(@Param('id') id: string, @CurrentUser() currentUser: UserEntity): Promise<WorkoutSessionEntity> {
+    const sessionId = parseInt(id);
+    return await this.workoutSessionsService.findOne(sessionId, currentUser);
+  }
+}
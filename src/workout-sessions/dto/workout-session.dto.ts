@@ -0,0 +1,101 @@
+import { IsString, IsNumber, IsInt, Min, Max, IsOptional, IsIn, IsEnum, IsArray, ValidateNested, IsDateString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { WorkoutSessionStatus, FINISHED_SESSION_STATUSES } from '../interfaces/workout-session.interface';
+
+/**
+ * 🔁 DTO de una serie realizada dentro de una sesión
+ */
+export class WorkoutSessionSetDto {
+  @IsNumber({}, { message: 'El ID del ejercicio debe ser un número' })
+  @Min(1, { message: 'El ID del ejercicio debe ser mayor a 0' })
+  exerciseId: number; // 💪 ID del ejercicio (obligatorio)
+
+  @IsInt({ message: 'El número de serie debe ser un número entero' })
+  @Min(1, { message: 'El número de serie debe ser al menos 1' })
+  @Max(50, { message: 'El número de serie debe ser menor o igual a 50' })
+  setNumber: number; // 🔢 Número de serie (obligatorio)
+
+  @IsInt({ message: 'Las repeticiones deben ser un número entero' })
+  @Min(0, { message: 'Las repeticiones no pueden ser negativas' })
+  @Max(1000, { message: 'Las repeticiones deben ser menor o igual a 1000' })
+  reps: number; // 🔂 Repeticiones realizadas (obligatorio)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El peso debe ser un número' })
+  @Min(0, { message: 'El peso no puede ser negativo' })
+  @Max(1000, { message: 'El peso debe ser menor o igual a 1000 kg' })
+  weightKg?: number; // 🏋️ Peso usado en kg (opcional)
+}
+
+/**
+ * ▶️ DTO para iniciar una sesión de entrenamiento
+ */
+export class StartWorkoutSessionDto {
+  @IsNumber({}, { message: 'El ID del día de entrenamiento debe ser un número' })
+  @Min(1, { message: 'El ID del día de entrenamiento debe ser mayor a 0' })
+  workoutDayId: number; // 🏋️ Día de entrenamiento que se va a realizar (obligatorio)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha de la sesión debe tener formato YYYY-MM-DD' })
+  sessionDate?: string; // 📅 Día del calendario (opcional, por defecto: hoy)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El ID del usuario debe ser un número' })
+  @Min(1, { message: 'El ID del usuario debe ser mayor a 0' })
+  userId?: number; // 👤 Usuario que entrena (opcional, por defecto: el del día de la plantilla o el autenticado si el día es de un programa)
+}
+
+/**
+ * ✏️ DTO para actualizar una sesión de entrenamiento
+ * Si se envía sets, reemplaza la lista completa de series
+ */
+export class UpdateWorkoutSessionDto {
+  @IsOptional()
+  @IsArray({ message: 'Las series deben ser un array' })
+  @ValidateNested({ each: true })
+  @Type(() => WorkoutSessionSetDto)
+  sets?: WorkoutSessionSetDto[]; // 🔁 Series realizadas (opcional, reemplaza todas)
+
+  @IsOptional()
+  @IsInt({ message: 'El esfuerzo percibido debe ser un número entero' })
+  @Min(1, { message: 'El esfuerzo percibido debe estar entre 1 y 10' })
+  @Max(10, { message: 'El esfuerzo percibido debe estar entre 1 y 10' })
+  perceivedExertion?: number; // 😤 Esfuerzo percibido RPE 1-10 (opcional)
+
+  @IsOptional()
+  @IsInt({ message: 'Las calorías quemadas deben ser un número entero' })
+  @Min(0, { message: 'Las calorías quemadas no pueden ser negativas' })
+  @Max(10000, { message: 'Las calorías quemadas deben ser menor o igual a 10000' })
+  caloriesBurned?: number | null; // 🔥 Calorías reales, ej: de un wearable (opcional, sustituyen a la estimación; null vuelve a la estimación)
+
+  @IsOptional()
+  @IsString({ message: 'Las notas deben ser una cadena de texto' })
+  notes?: string; // 📝 Notas (opcional)
+}
+
+/**
+ * 🏁 DTO para finalizar una sesión de entrenamiento
+ * Acepta los mismos campos que la actualización más el estado final
+ */
+export class FinishWorkoutSessionDto extends UpdateWorkoutSessionDto {
+  @IsOptional()
+  @IsIn(FINISHED_SESSION_STATUSES, { message: 'El estado final debe ser: completed, partial o abandoned' })
+  status?: WorkoutSessionStatus; // 🚦 Estado final (opcional, por defecto: completed)
+}
+
+/**
+ * 📅 DTO para consultar el historial de sesiones de un usuario
+ */
+export class WorkoutSessionHistoryQueryDto {
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha inicial debe tener formato YYYY-MM-DD' })
+  from?: string; // 📅 Desde (opcional, inclusive)
+
+  @IsOptional()
+  @IsDateString({ strict: true }, { message: 'La fecha final debe tener formato YYYY-MM-DD' })
+  to?: string; // 📅 Hasta (opcional, inclusive)
+
+  @IsOptional()
+  @IsEnum(WorkoutSessionStatus, { message: 'El estado debe ser: in_progress, completed, partial o abandoned' })
+  status?: WorkoutSessionStatus; // 🚦 Filtrar por estado (opcional)
+}
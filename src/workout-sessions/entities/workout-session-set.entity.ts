@@ -0,0 +1,71 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { WorkoutSessionEntity } from './workout-session.entity';
+import { ExerciseEntity } from '../../exercises/entities/exercise.entity';
+
+/**
+ * 🔁 Entity de Serie Realizada - Compatible con TypeORM
+ * Una serie que el usuario hizo realmente en una sesión: ejercicio,
+ * número de serie, repeticiones y peso usados
+ */
+@Entity('workout_session_sets') // 📋 Nombre de la tabla en la BD
+export class WorkoutSessionSetEntity {
+  /**
+   * 🆔 Identificador único de la serie
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 🔢 Número de la serie dentro del ejercicio (1 = primera)
+   */
+  @Column({ type: 'int' })
+  setNumber: number;
+
+  /**
+   * 🔂 Repeticiones realizadas
+   */
+  @Column({ type: 'int' })
+  reps: number;
+
+  /**
+   * 🏋️ Peso usado en kg (opcional)
+   * Vacío para ejercicios con peso corporal
+   */
+  @Column({ type: 'float', nullable: true })
+  weightKg?: number;
+
+  /**
+   * ⏱️ Relación con la sesión
+   * Si se elimina la sesión o se quita la serie de la lista, se elimina la serie (Many-to-One)
+   */
+  @ManyToOne(() => WorkoutSessionEntity, (session) => session.sets, { onDelete: 'CASCADE', orphanedRowAction: 'delete' })
+  @JoinColumn({ name: 'session_id' })
+  session: WorkoutSessionEntity;
+
+  /**
+   * 🔗 ID de la sesión (clave foránea)
+   */
+  @Column({ name: 'session_id' })
+  sessionId: number;
+
+  /**
+   * 💪 Relación con el ejercicio del catálogo (Many-to-One)
+   */
+  @ManyToOne(() => ExerciseEntity)
+  @JoinColumn({ name: 'exercise_id' })
+  exercise: ExerciseEntity;
+
+  /**
+   * 🔗 ID del ejercicio (clave foránea)
+   */
+  @Column({ name: 'exercise_id' })
+  exerciseId: number;
+
+  /**
+   * 📦 Método para calcular el volumen de la serie (repeticiones × peso)
+   */
+  getVolumeKg(): number {
+    return this.reps * (this.weightKg ?? 0);
+  }
+}
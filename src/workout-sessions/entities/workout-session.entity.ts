@@ -0,0 +1,150 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, OneToMany, JoinColumn } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { WorkoutDayEntity } from '../../workout-days/entities/workout-day.entity';
+import { WorkoutSessionSetEntity } from './workout-session-set.entity';
+import { WorkoutSessionStatus } from '../interfaces/workout-session.interface';
+
+/**
+ * ⏱️ Entity de Sesión de Entrenamiento - Compatible con TypeORM
+ * Registro de un entrenamiento realmente realizado en una fecha concreta.
+ * WorkoutDayEntity es la plantilla semanal; la sesión guarda lo que se hizo:
+ * horas de inicio y fin, estado, esfuerzo percibido, calorías y series reales
+ */
+@Entity('workout_sessions') // 📋 Nombre de la tabla en la BD
+export class WorkoutSessionEntity {
+  /**
+   * 🆔 Identificador único de la sesión
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 📅 Día del calendario en que se entrenó (YYYY-MM-DD)
+   */
+  @Column({ type: 'date' })
+  sessionDate: string;
+
+  /**
+   * ▶️ Hora de inicio de la sesión
+   */
+  @Column()
+  startedAt: Date;
+
+  /**
+   * 🏁 Hora de fin de la sesión (vacía mientras está en curso)
+   */
+  @Column({ nullable: true })
+  endedAt?: Date;
+
+  /**
+   * 🚦 Estado de la sesión
+   * in_progress, completed, partial o abandoned
+   */
+  @Column({ type: 'varchar', enum: WorkoutSessionStatus, default: WorkoutSessionStatus.IN_PROGRESS })
+  status: WorkoutSessionStatus;
+
+  /**
+   * 😤 Esfuerzo percibido (RPE) de 1 a 10 (opcional)
+   */
+  @Column({ type: 'int', nullable: true })
+  perceivedExertion?: number;
+
+  /**
+   * 🔥 Calorías quemadas reales (opcional)
+   * Por ejemplo, las que mide un wearable; si se indican, sustituyen a la estimación
+   */
+  @Column({ type: 'int', nullable: true })
+  caloriesBurned?: number | null;
+
+  /**
+   * 🔥 Calorías estimadas de la sesión en kcal (no se guarda en la BD)
+   * Se calculan al devolver la sesión finalizada con el MET del tipo, la duración real, el esfuerzo y el peso del usuario
+   */
+  estimatedCaloriesBurned?: number;
+
+  /**
+   * 📝 Notas de la sesión (opcional)
+   */
+  @Column({ type: 'text', nullable: true })
+  notes?: string;
+
+  /**
+   * ✅ Estado activo del registro
+   * true = activo, false = eliminado (eliminación lógica)
+   */
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  /**
+   * 🔁 Series realizadas en la sesión
+   * Una sesión tiene varias series con repeticiones y peso reales (One-to-Many)
+   */
+  @OneToMany(() => WorkoutSessionSetEntity, (set) => set.session, { cascade: true })
+  sets: WorkoutSessionSetEntity[];
+
+  /**
+   * 🏋️ Relación con el día de entrenamiento (plantilla) que se realizó (Many-to-One)
+   */
+  @ManyToOne(() => WorkoutDayEntity)
+  @JoinColumn({ name: 'workout_day_id' })
+  workoutDay: WorkoutDayEntity;
+
+  /**
+   * 🔗 ID del día de entrenamiento (clave foránea)
+   */
+  @Column({ name: 'workout_day_id' })
+  workoutDayId: number;
+
+  /**
+   * 👤 Relación con el usuario que entrenó (Many-to-One)
+   */
+  @ManyToOne(() => UserEntity)
+  @JoinColumn({ name: 'user_id' })
+  user: UserEntity;
+
+  /**
+   * 🔗 ID del usuario (clave foránea)
+   */
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  /**
+   * 📅 Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * 🔄 Fecha de última actualización
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * ▶️ Método para saber si la sesión sigue en curso
+   */
+  isInProgress(): boolean {
+    return this.status === WorkoutSessionStatus.IN_PROGRESS;
+  }
+
+  /**
+   * ⏱️ Método para calcular la duración en minutos
+   * Devuelve undefined mientras la sesión no ha terminado
+   */
+  getDurationMinutes(): number | undefined {
+    if (!this.endedAt) {
+      return undefined;
+    }
+
+    return Math.round((new Date(this.endedAt).getTime() - new Date(this.startedAt).getTime()) / 60000);
+  }
+
+  /**
+   * 📦 Método para calcular el volumen total levantado (kg)
+   * Requiere que las series se hayan cargado (relations)
+   */
+  getTotalVolumeKg(): number {
+    return (this.sets ?? []).reduce((total, set) => total + set.getVolumeKg(), 0);
+  }
+}
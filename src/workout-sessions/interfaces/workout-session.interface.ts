@@ -0,0 +1,15 @@
+/**
+ * ⏱️ Enumeración de estados de una sesión de entrenamiento
+ * Una sesión empieza en curso y al finalizarla se indica cómo terminó
+ */
+export enum WorkoutSessionStatus {
+  IN_PROGRESS = 'in_progress', // ▶️ En curso
+  COMPLETED = 'completed', // ✅ Completada
+  PARTIAL = 'partial', // 🟡 Completada parcialmente
+  ABANDONED = 'abandoned', // ❌ Abandonada
+}
+
+/**
+ * 🏁 Estados válidos al finalizar una sesión
+ */
+export const FINISHED_SESSION_STATUSES = [WorkoutSessionStatus.COMPLETED, WorkoutSessionStatus.PARTIAL, WorkoutSessionStatus.ABANDONED] as const;
@@ -0,0 +1,477 @@
+import { Injectable, NotFoundException, ConflictException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, Between, LessThanOrEqual } from 'typeorm';
+import { WorkoutSessionEntity } from '../entities/workout-session.entity';
+import { WorkoutSessionSetEntity } from '../entities/workout-session-set.entity';
+import { StartWorkoutSessionDto, UpdateWorkoutSessionDto, FinishWorkoutSessionDto, WorkoutSessionHistoryQueryDto, WorkoutSessionSetDto } from '../dto/workout-session.dto';
+import { WorkoutSessionStatus } from '../interfaces/workout-session.interface';
+import { WorkoutDayEntity } from '../../workout-days/entities/workout-day.entity';
+import { ProgramEnrollmentEntity } from '../../training-programs/entities/program-enrollment.entity';
+import { ExerciseEntity } from '../../exercises/entities/exercise.entity';
+import { UserEntity } from '../../users/entities/user.entity';
+import { UserStatus } from '../../users/interfaces/user.interface';
+import { UserStatsService } from '../../users/services/user-stats.service';
+import { CalorieEstimationService } from '../../workout-types/services/calorie-estimation.service';
+import { AccessControlService } from '../../auth/services/access-control.service';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 📅 Milisegundos de un día (para aritmética de fechas YYYY-MM-DD)
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ⏱️ Servicio de sesiones de entrenamiento - Lógica de negocio con Base de Datos
+ *
+ * Este servicio registra los entrenamientos realmente realizados: se inicia
+ * una sesión a partir de un día de entrenamiento (plantilla), se van anotando
+ * las series reales y se finaliza indicando cómo terminó.
+ * Cada cambio en una sesión finalizada recalcula las estadísticas del usuario.
+ * Usa TypeORM Repository pattern para persistencia escalable.
+ *
+ * @class WorkoutSessionsService
+ * @description Gestiona el historial de entrenamientos de los usuarios
+ */
+@Injectable()
+export class WorkoutSessionsService {
+  private readonly logger = new Logger(WorkoutSessionsService.name);
+
+  /**
+   * Constructor del servicio
+   * @param workoutSessionRepository - Repositorio para WorkoutSessionEntity
+   * @param workoutSessionSetRepository - Repositorio para WorkoutSessionSetEntity
+   * @param workoutDayRepository - Repositorio para validar el día de entrenamiento
+   * @param enrollmentRepository - Repositorio para saber quién sigue el programa de un día
+   * @param exerciseRepository - Repositorio para validar los ejercicios de las series
+   * @param userRepository - Repositorio para validar usuarios
+   * @param accessControlService - Reglas de propiedad (quién gestiona qué entrenamientos)
+   * @param userStatsService - Recálculo de las estadísticas del usuario
+   * @param calorieEstimationService - Calorías estimadas de las sesiones finalizadas
+   */
+  constructor(
+    @InjectRepository(WorkoutSessionEntity)
+    private readonly workoutSessionRepository: Repository<WorkoutSessionEntity>,
+    @InjectRepository(WorkoutSessionSetEntity)
+    private readonly workoutSessionSetRepository: Repository<WorkoutSessionSetEntity>,
+    @InjectRepository(WorkoutDayEntity)
+    private readonly workoutDayRepository: Repository<WorkoutDayEntity>,
+    @InjectRepository(ProgramEnrollmentEntity)
+    private readonly enrollmentRepository: Repository<ProgramEnrollmentEntity>,
+    @InjectRepository(ExerciseEntity)
+    private readonly exerciseRepository: Repository<ExerciseEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    private readonly accessControlService: AccessControlService,
+    private readonly userStatsService: UserStatsService,
+    private readonly calorieEstimationService: CalorieEstimationService,
+  ) {}
+
+  /**
+   * 📅 Obtener el historial de sesiones de un usuario por rango de fechas
+   *
+   * @param {number} userId - ID del usuario
+   * @param {WorkoutSessionHistoryQueryDto} queryDto - Rango de fechas y estado (opcionales)
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<WorkoutSessionEntity[]>} Sesiones de la más reciente a la más antigua
+   * @throws {BadRequestException} Si el rango de fechas es inválido
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador ni admin
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   *
+   * @example
+   * const historial = await workoutSessionsService.findByUserId(1, { from: '2025-01-01', to: '2025-01-31' }, currentUser);
+   */
+  async findByUserId(userId: number, queryDto: WorkoutSessionHistoryQueryDto, currentUser: UserEntity): Promise<WorkoutSessionEntity[]> {
+    this.logger.log(`📅 Obteniendo historial de sesiones del usuario ${userId}`, queryDto);
+
+    if (queryDto.from && queryDto.to && queryDto.from > queryDto.to) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_DATE_RANGE, message: 'La fecha inicial debe ser anterior o igual a la fecha final' });
+    }
+
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, userId);
+    await this.validateUserExists(userId);
+
+    const whereConditions: Record<string, any> = { userId, isActive: true };
+
+    // Filtrar por rango de fechas (inclusive)
+    if (queryDto.from || queryDto.to) {
+      whereConditions.sessionDate = Between(queryDto.from ?? '0000-01-01', queryDto.to ?? '9999-12-31');
+    }
+
+    // Filtrar por estado
+    if (queryDto.status) {
+      whereConditions.status = queryDto.status;
+    }
+
+    const sessions = await this.workoutSessionRepository.find({
+      where: whereConditions,
+      relations: { workoutDay: true, sets: { exercise: true } },
+      order: { sessionDate: 'DESC', startedAt: 'DESC', sets: { id: 'ASC' } },
+    });
+    await this.attachCalorieEstimates(sessions);
+
+    return sessions;
+  }
+
+  /**
+   * ⏱️ Obtener una sesión por ID desde la BD
+   *
+   * @param {number} id - ID único de la sesión
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<WorkoutSessionEntity>} La sesión con su día de entrenamiento y series
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador ni admin
+   * @throws {NotFoundException} Si la sesión no existe
+   */
+  async findOne(id: number, currentUser: UserEntity): Promise<WorkoutSessionEntity> {
+    this.logger.log(`🔍 Buscando sesión de entrenamiento con ID: ${id} en la BD`);
+
+    const session = await this.findSessionEntity(id);
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, session.userId);
+
+    return session;
+  }
+
+  /**
+   * ▶️ Iniciar una sesión de entrenamiento
+   *
+   * La sesión es del usuario que entrena: el propietario de un día de su
+   * plantilla semanal o, en los días de un programa (que pertenecen a su
+   * autor), el usuario inscrito en el programa en la fecha de la sesión.
+   *
+   * Crea la sesión en curso después de validar que:
+   * 1. El día de entrenamiento exista y esté activo
+   * 2. El usuario autenticado pueda gestionar los entrenamientos del usuario que entrena
+   * 3. La fecha no sea futura (en la zona horaria del usuario que entrena)
+   * 4. El día esté en su plan: su plantilla o un programa en el que tenga una inscripción activa ese día
+   * 5. El usuario que entrena no tenga otra sesión en curso
+   *
+   * @param {StartWorkoutSessionDto} startDto - Día de entrenamiento, fecha (por defecto: hoy para quien entrena) y usuario (opcional)
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<WorkoutSessionEntity>} La sesión iniciada
+   * @throws {BadRequestException} Si la fecha es futura o el día no está en el plan del usuario
+   * @throws {ForbiddenException} Si no es el usuario que entrena, su entrenador ni admin
+   * @throws {NotFoundException} Si el día de entrenamiento no existe o no está activo
+   * @throws {ConflictException} Si ya hay una sesión en curso
+   *
+   * @example
+   * const sesion = await workoutSessionsService.start({ workoutDayId: 3 }, currentUser);
+   *
+   * // Un entrenador inicia la sesión de su cliente en un día del programa
+   * const sesionCliente = await workoutSessionsService.start({ workoutDayId: 41, userId: 7 }, currentUser);
+   */
+  async start(startDto: StartWorkoutSessionDto, currentUser: UserEntity): Promise<WorkoutSessionEntity> {
+    this.logger.log('▶️ Iniciando sesión de entrenamiento en la BD', startDto);
+
+    const workoutDay = await this.workoutDayRepository.findOne({
+      where: { id: startDto.workoutDayId, isActive: true },
+    });
+
+    if (!workoutDay) {
+      throw new NotFoundException({ code: ErrorCode.WORKOUT_DAY_NOT_FOUND, message: `Día de entrenamiento con ID ${startDto.workoutDayId} no encontrado o no activo`, params: { id: startDto.workoutDayId } });
+    }
+
+    // La sesión es de quien entrena: el propietario de la plantilla o, en un programa, el inscrito
+    const userId = startDto.userId ?? (workoutDay.programWeekId ? currentUser.id : workoutDay.userId);
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, userId);
+    const owner = await this.validateUserExists(userId);
+
+    const today = owner.getLocalDate();
+    const sessionDate = startDto.sessionDate ?? today;
+
+    if (sessionDate > today) {
+      throw new BadRequestException({ code: ErrorCode.WORKOUT_SESSION_FUTURE_DATE, message: 'No se puede registrar una sesión en una fecha futura' });
+    }
+
+    await this.assertWorkoutDayScheduled(workoutDay, userId, sessionDate);
+
+    const sessionInProgress = await this.workoutSessionRepository.findOne({
+      where: { userId, status: WorkoutSessionStatus.IN_PROGRESS, isActive: true },
+    });
+
+    if (sessionInProgress) {
+      throw new ConflictException({ code: ErrorCode.WORKOUT_SESSION_IN_PROGRESS, message: `Ya hay una sesión en curso (ID ${sessionInProgress.id}); finalízala antes de iniciar otra`, params: { id: sessionInProgress.id } });
+    }
+
+    const session = this.workoutSessionRepository.create({
+      sessionDate,
+      startedAt: new Date(),
+      status: WorkoutSessionStatus.IN_PROGRESS,
+      workoutDayId: workoutDay.id,
+      userId,
+      isActive: true,
+      sets: [],
+    });
+
+    const savedSession = await this.workoutSessionRepository.save(session);
+    this.logger.log(`✅ Sesión de entrenamiento iniciada exitosamente en la BD con ID: ${savedSession.id}`);
+
+    return this.findSessionEntity(savedSession.id);
+  }
+
+  /**
+   * ✏️ Actualizar una sesión de entrenamiento
+   *
+   * Actualiza solo los campos proporcionados. Si se envía sets, reemplaza
+   * la lista completa de series. Se puede usar durante la sesión o después
+   * para corregir datos.
+   *
+   * @param {number} id - ID de la sesión
+   * @param {UpdateWorkoutSessionDto} updateDto - Campos a actualizar
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<WorkoutSessionEntity>} La sesión actualizada
+   * @throws {BadRequestException} Si el ID no es válido o hay series repetidas
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador ni admin
+   * @throws {NotFoundException} Si la sesión o algún ejercicio no existen
+   *
+   * @example
+   * await workoutSessionsService.update(1, { sets: [{ exerciseId: 3, setNumber: 1, reps: 10, weightKg: 60 }] }, currentUser);
+   */
+  async update(id: number, updateDto: UpdateWorkoutSessionDto, currentUser: UserEntity): Promise<WorkoutSessionEntity> {
+    this.logger.log(`✏️ Actualizando sesión de entrenamiento ID ${id} en la BD`, updateDto);
+
+    const session = await this.findSessionEntity(id);
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, session.userId);
+
+    await this.applyChanges(session, updateDto);
+
+    await this.workoutSessionRepository.save(session);
+    this.logger.log(`✅ Sesión de entrenamiento ID ${id} actualizada exitosamente en la BD`);
+
+    // Corregir una sesión completada cambia las estadísticas (calorías, etc.)
+    if (!session.isInProgress()) {
+      await this.userStatsService.recalculate(session.userId);
+    }
+
+    return this.findSessionEntity(id);
+  }
+
+  /**
+   * 🏁 Finalizar una sesión de entrenamiento
+   *
+   * Registra la hora de fin y el estado final (por defecto: completed).
+   * Acepta también las series, el esfuerzo percibido, las calorías y las notas.
+   *
+   * @param {number} id - ID de la sesión
+   * @param {FinishWorkoutSessionDto} finishDto - Estado final y datos de la sesión
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<WorkoutSessionEntity>} La sesión finalizada
+   * @throws {BadRequestException} Si el ID no es válido o hay series repetidas
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador ni admin
+   * @throws {NotFoundException} Si la sesión o algún ejercicio no existen
+   * @throws {ConflictException} Si la sesión ya estaba finalizada
+   *
+   * @example
+   * const sesion = await workoutSessionsService.finish(1, { perceivedExertion: 8, caloriesBurned: 420 }, currentUser);
+   * console.log(sesion.getDurationMinutes()); // 65
+   */
+  async finish(id: number, finishDto: FinishWorkoutSessionDto, currentUser: UserEntity): Promise<WorkoutSessionEntity> {
+    this.logger.log(`🏁 Finalizando sesión de entrenamiento ID ${id} en la BD`, finishDto);
+
+    const session = await this.findSessionEntity(id);
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, session.userId);
+
+    if (!session.isActive || !session.isInProgress()) {
+      throw new ConflictException({ code: ErrorCode.WORKOUT_SESSION_ALREADY_FINISHED, message: `La sesión de entrenamiento con ID ${id} ya estaba finalizada`, params: { id } });
+    }
+
+    await this.applyChanges(session, finishDto);
+    session.status = finishDto.status ?? WorkoutSessionStatus.COMPLETED;
+    session.endedAt = new Date();
+
+    await this.workoutSessionRepository.save(session);
+    this.logger.log(`✅ Sesión de entrenamiento ID ${id} finalizada (${session.status}) en la BD`);
+
+    await this.userStatsService.recalculate(session.userId);
+
+    return this.findSessionEntity(id);
+  }
+
+  /**
+   * 🗑️ Eliminar una sesión de entrenamiento (eliminación lógica) en la BD
+   *
+   * @param {number} id - ID de la sesión
+   * @param {UserEntity} currentUser - Usuario autenticado
+   * @returns {Promise<WorkoutSessionEntity>} La sesión marcada como eliminada
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {ForbiddenException} Si no es el propietario, su entrenador ni admin
+   * @throws {NotFoundException} Si la sesión no existe
+   * @throws {ConflictException} Si la sesión ya estaba eliminada
+   */
+  async remove(id: number, currentUser: UserEntity): Promise<WorkoutSessionEntity> {
+    this.logger.log(`🗑️ Eliminando sesión de entrenamiento ID ${id} en la BD`);
+
+    const session = await this.findSessionEntity(id);
+    await this.accessControlService.assertCanManageWorkoutsOf(currentUser, session.userId);
+
+    if (!session.isActive) {
+      throw new ConflictException({ code: ErrorCode.WORKOUT_SESSION_ALREADY_DELETED, message: `Sesión de entrenamiento con ID ${id} ya estaba eliminada`, params: { id } });
+    }
+
+    // Eliminación lógica: cambiar isActive a false
+    session.isActive = false;
+    const deletedSession = await this.workoutSessionRepository.save(session);
+
+    this.logger.log(`✅ Sesión de entrenamiento ID ${id} eliminada exitosamente en la BD`);
+
+    if (!deletedSession.isInProgress()) {
+      await this.userStatsService.recalculate(deletedSession.userId);
+    }
+
+    return deletedSession;
+  }
+
+  /**
+   * ✏️ Método privado para aplicar los campos editables de una sesión
+   *
+   * @param {WorkoutSessionEntity} session - Sesión a modificar (con sus series cargadas)
+   * @param {UpdateWorkoutSessionDto} updateDto - Campos recibidos
+   * @private
+   */
+  private async applyChanges(session: WorkoutSessionEntity, updateDto: UpdateWorkoutSessionDto): Promise<void> {
+    if (updateDto.perceivedExertion !== undefined) session.perceivedExertion = updateDto.perceivedExertion;
+    if (updateDto.caloriesBurned !== undefined) session.caloriesBurned = updateDto.caloriesBurned;
+    if (updateDto.notes !== undefined) session.notes = updateDto.notes?.trim();
+
+    // Reemplazar las series: las que ya no están en la lista se eliminan al guardar
+    if (updateDto.sets) {
+      session.sets = await this.buildSets(updateDto.sets);
+    }
+  }
+
+  /**
+   * 🔁 Método privado para construir las series de una sesión
+   *
+   * Valida que no haya series repetidas (mismo ejercicio y número de serie)
+   * y que todos los ejercicios existan y estén activos.
+   *
+   * @param {WorkoutSessionSetDto[]} setDtos - Series recibidas
+   * @returns {Promise<WorkoutSessionSetEntity[]>} Series listas para guardar
+   * @throws {BadRequestException} Si hay series repetidas
+   * @throws {NotFoundException} Si algún ejercicio no existe o no está activo
+   * @private
+   */
+  private async buildSets(setDtos: WorkoutSessionSetDto[]): Promise<WorkoutSessionSetEntity[]> {
+    if (setDtos.length === 0) {
+      return [];
+    }
+
+    const setKeys = setDtos.map((setDto) => `${setDto.exerciseId}#${setDto.setNumber}`);
+    if (new Set(setKeys).size !== setKeys.length) {
+      throw new BadRequestException({ code: ErrorCode.WORKOUT_SESSION_DUPLICATE_SET, message: 'Hay series repetidas: cada ejercicio no puede tener dos veces el mismo número de serie' });
+    }
+
+    const exerciseIds = [...new Set(setDtos.map((setDto) => setDto.exerciseId))];
+    const foundExercises = await this.exerciseRepository.find({
+      where: { id: In(exerciseIds), isActive: true },
+    });
+
+    const foundIds = new Set(foundExercises.map((exercise) => exercise.id));
+    const missingIds = exerciseIds.filter((exerciseId) => !foundIds.has(exerciseId));
+
+    if (missingIds.length > 0) {
+      throw new NotFoundException({ code: ErrorCode.EXERCISES_NOT_FOUND, message: `Ejercicios no encontrados o no activos: ${missingIds.join(', ')}`, params: { ids: missingIds.join(', ') } });
+    }
+
+    return setDtos.map((setDto) =>
+      this.workoutSessionSetRepository.create({
+        exerciseId: setDto.exerciseId,
+        setNumber: setDto.setNumber,
+        reps: setDto.reps,
+        weightKg: setDto.weightKg,
+      }),
+    );
+  }
+
+  /**
+   * 🔍 Método privado para cargar una sesión con su día y series o lanzar 404
+   * @private
+   */
+  private async findSessionEntity(id: number): Promise<WorkoutSessionEntity> {
+    if (isNaN(id)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const session = await this.workoutSessionRepository.findOne({
+      where: { id },
+      relations: { workoutDay: true, sets: { exercise: true } },
+      order: { sets: { id: 'ASC' } },
+    });
+
+    if (!session) {
+      throw new NotFoundException({ code: ErrorCode.WORKOUT_SESSION_NOT_FOUND, message: `Sesión de entrenamiento con ID ${id} no encontrada`, params: { id } });
+    }
+
+    await this.attachCalorieEstimates([session]);
+    return session;
+  }
+
+  /**
+   * 🔥 Método privado para añadir las calorías estimadas a las sesiones finalizadas
+   * Se calculan aunque la sesión tenga calorías reales (caloriesBurned), para poder compararlas
+   *
+   * @param {WorkoutSessionEntity[]} sessions - Sesiones con su día de entrenamiento cargado
+   * @private
+   */
+  private async attachCalorieEstimates(sessions: WorkoutSessionEntity[]): Promise<void> {
+    const userIds = [...new Set(sessions.map((session) => session.userId))];
+    if (userIds.length === 0) {
+      return;
+    }
+
+    const owners = await this.userRepository.find({ select: { id: true, weightKg: true }, where: { id: In(userIds) } });
+    const weights = new Map(owners.map((owner) => [owner.id, owner.weightKg]));
+
+    for (const session of sessions) {
+      session.estimatedCaloriesBurned = this.calorieEstimationService.estimateSession(session, weights.get(session.userId));
+    }
+  }
+
+  /**
+   * 🗓️ Método privado para validar que un día de entrenamiento está en el plan de un usuario en una fecha
+   *
+   * Un día de la plantilla semanal solo es de su propietario. Un día de un
+   * programa es de quien tenga una inscripción activa a ese programa que
+   * cubra la fecha (de startDate a startDate + durationWeeks semanas).
+   *
+   * @param {WorkoutDayEntity} workoutDay - Día de entrenamiento a realizar
+   * @param {number} userId - ID del usuario que entrena
+   * @param {string} sessionDate - Fecha de la sesión (YYYY-MM-DD)
+   * @throws {BadRequestException} Si el día no está en el plan del usuario en esa fecha
+   * @private
+   */
+  private async assertWorkoutDayScheduled(workoutDay: WorkoutDayEntity, userId: number, sessionDate: string): Promise<void> {
+    let scheduled = workoutDay.userId === userId && !workoutDay.programWeekId;
+
+    if (workoutDay.programWeekId) {
+      const enrollments = await this.enrollmentRepository.find({
+        where: { userId, isActive: true, startDate: LessThanOrEqual(sessionDate), program: { isActive: true, weeks: { id: workoutDay.programWeekId } } },
+        relations: { program: true },
+      });
+      scheduled = enrollments.some((enrollment) => (Date.parse(sessionDate) - Date.parse(enrollment.startDate)) / DAY_MS < enrollment.program.durationWeeks * 7);
+    }
+
+    if (!scheduled) {
+      throw new BadRequestException({ code: ErrorCode.WORKOUT_SESSION_NOT_SCHEDULED, message: `El día de entrenamiento ${workoutDay.id} no está en el plan del usuario ${userId} el ${sessionDate}`, params: { workoutDayId: workoutDay.id, userId, date: sessionDate } });
+    }
+  }
+
+  /**
+   * 👤 Método privado para validar que un usuario existe y está activo
+   *
+   * @param {number} userId - ID del usuario a validar
+   * @returns {Promise<UserEntity>} El usuario encontrado
+   * @throws {NotFoundException} Si el usuario no existe o no está activo
+   * @private
+   */
+  private async validateUserExists(userId: number): Promise<UserEntity> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId, status: UserStatus.ACTIVE },
+    });
+
+    if (!user) {
+      throw new NotFoundException({ code: ErrorCode.USER_NOT_FOUND, message: `Usuario con ID ${userId} no encontrado o no está activo`, params: { id: userId } });
+    }
+
+    return user;
+  }
+}
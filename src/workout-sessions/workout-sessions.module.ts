@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WorkoutSessionsController } from './controllers/workout-sessions.controller';
+import { WorkoutSessionsService } from './services/workout-sessions.service';
+import { WorkoutSessionEntity } from './entities/workout-session.entity';
+import { WorkoutSessionSetEntity } from './entities/workout-session-set.entity';
+import { WorkoutDayEntity } from '../workout-days/entities/workout-day.entity';
+import { ProgramEnrollmentEntity } from '../training-programs/entities/program-enrollment.entity';
+import { ExerciseEntity } from '../exercises/entities/exercise.entity';
+import { UserEntity } from '../users/entities/user.entity';
+import { UsersModule } from '../users/users.module';
+import { WorkoutTypesModule } from '../workout-types/workout-types.module';
+
+/**
+ * 📦 Módulo de sesiones de entrenamiento
+ * Agrupa toda la funcionalidad relacionada con los entrenamientos realizados:
+ * - Inicio, actualización y finalización de sesiones
+ * - Series reales (repeticiones y peso) por ejercicio
+ * - Historial de sesiones por rango de fechas
+ * - Relación con WorkoutDayEntity, ExerciseEntity y UserEntity para validaciones
+ * - Inscripciones a programas (ProgramEnrollmentEntity) para saber quién entrena un día de programa
+ * - Recálculo de estadísticas del usuario (UsersModule) al cambiar la actividad
+ * - Calorías estimadas de cada sesión (WorkoutTypesModule)
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WorkoutSessionEntity, WorkoutSessionSetEntity, WorkoutDayEntity, ProgramEnrollmentEntity, ExerciseEntity, UserEntity]), // 🗄️ Registrar los repositorios necesarios
+    UsersModule, // 📈 Para UserStatsService
+    WorkoutTypesModule, // 🔥 Para CalorieEstimationService
+  ],
+  controllers: [WorkoutSessionsController],
+  providers: [WorkoutSessionsService],
+  exports: [WorkoutSessionsService], // Exporta el servicio para ser usado en otros módulos
+})
+export class WorkoutSessionsModule {}
@@ -0,0 +1,146 @@
+import { Controller, Get, Post, Put, Delete, Param, Body, HttpStatus, HttpCode } from '@nestjs/common';
+import { CreateWorkoutTypeDto, UpdateWorkoutTypeDto } from '../dto/workout-type.dto';
+import { WorkoutTypeEntity } from '../entities/workout-type.entity';
+import { WorkoutTypesService } from '../services/workout-types.service';
+import { UserRole } from '../../users/interfaces/user.interface';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { I18nService } from '../../i18n/services/i18n.service';
+
+/**
+ * 🎯 Controlador de tipos de entrenamiento - Endpoints de la API REST
+ *
+ * Este controlador expone el catálogo de tipos de entrenamiento.
+ * Cualquier usuario autenticado puede consultarlo; solo los
+ * administradores pueden crear, editar o eliminar tipos.
+ *
+ * @class WorkoutTypesController
+ * @description Controlador REST para el catálogo de tipos de entrenamiento
+ */
+@Controller('workout-types') // Prefijo de ruta: /workout-types
+export class WorkoutTypesController {
+  /**
+   * Constructor - Inyección de dependencias
+   * @param workoutTypesService - Servicio con la lógica de negocio
+   * @param i18nService - Mensajes de respuesta en el idioma de la petición
+   */
+  constructor(
+    private readonly workoutTypesService: WorkoutTypesService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * 📋 Obtener todos los tipos de entrenamiento activos (Status: 200 OK)
+   *
+   * @route GET /workout-types
+   * @returns {Promise<WorkoutTypeEntity[]>} Tipos activos con su código, nombres, icono y MET
+   * @status 200 - Búsqueda exitosa
+   *
+   * @example
+   * GET http://localhost:3000/workout-types
+   * Response: [{ "id": 1, "code": "strength", "labels": { "es": "Fuerza", "en": "Strength" }, "icon": "🏋️", "defaultMet": 5, ... }]
+   */
+  @Get()
+  async getAllWorkoutTypes(): Promise<WorkoutTypeEntity[]> {
+    return await this.workoutTypesService.findAll();
+  }
+
+  /**
+   * ➕ Crear un nuevo tipo de entrenamiento (Status: 201 Created)
+   *
+   * @route POST /workout-types
+   * @body {CreateWorkoutTypeDto} createWorkoutTypeDto - Datos del tipo
+   * @returns {Promise<WorkoutTypeEntity>} El tipo creado con ID asignado
+   * @status 201 - Tipo creado exitosamente
+   * @status 400 - Datos inválidos (validación de DTO)
+   * @status 403 - Solo administradores
+   * @status 409 - Ya existe un tipo con ese código
+   *
+   * @example
+   * POST http://localhost:3000/workout-types
+   * Body: {
+   *   "code": "hiit",
+   *   "labels": { "es": "HIIT", "en": "HIIT" },
+   *   "icon": "⚡",
+   *   "defaultMet": 8
+   * }
+   */
+  @Post()
+  @Roles(UserRole.ADMIN) // 👑 Solo administradores
+  @HttpCode(HttpStatus.CREATED)
+  async createWorkoutType(@Body() createWorkoutTypeDto: CreateWorkoutTypeDto): Promise<WorkoutTypeEntity> {
+    return await this.workoutTypesService.create(createWorkoutTypeDto);
+  }
+
+  /**
+   * ✏️ Actualizar un tipo de entrenamiento existente (Status: 200 OK)
+   *
+   * El código no se puede cambiar; con isActive: true se reactiva un tipo eliminado.
+   *
+   * @route PUT /workout-types/:id
+   * @param {string} id - ID del tipo en la URL
+   * @body {UpdateWorkoutTypeDto} updateWorkoutTypeDto - Campos a actualizar
+   * @returns {Promise<WorkoutTypeEntity>} El tipo actualizado
+   * @status 200 - Tipo actualizado exitosamente
+   * @status 400 - ID inválido o datos inválidos
+   * @status 403 - Solo administradores
+   * @status 404 - Tipo no encontrado
+   *
+   * @example
+   * PUT http://localhost:3000/workout-types/2
+   * Body: { "defaultMet": 7.5 }
+   */
+  @Put(':id')
+  @Roles(UserRole.ADMIN) // 👑 Solo administradores
+  async updateWorkoutType(@Param('id') id: string, @Body() updateWorkoutTypeDto: UpdateWorkoutTypeDto): Promise<WorkoutTypeEntity> {
+    const workoutTypeId = parseInt(id);
+    return await this.workoutTypesService.update(workoutTypeId, updateWorkoutTypeDto);
+  }
+
+  /**
+   * 🗑️ Eliminar un tipo de entrenamiento (Status: 200 OK)
+   *
+   * Eliminación lógica: deja de poder asignarse, pero los días de
+   * entrenamiento que ya lo usan lo conservan.
+   *
+   * @route DELETE /workout-types/:id
+   * @param {string} id - ID del tipo en la URL
+   * @returns {Promise<{message: string}>} Mensaje de confirmación
+   * @status 200 - Tipo eliminado exitosamente
+   * @status 400 - ID inválido
+   * @status 403 - Solo administradores
+   * @status 404 - Tipo no encontrado
+   * @status 409 - Tipo ya estaba eliminado
+   *
+   * @example
+   * DELETE http://localhost:3000/workout-types/6
+   * Response: { "message": "✅ Tipo de entrenamiento \"hiit\" eliminado exitosamente" }
+   */
+  @Delete(':id')
+  @Roles(UserRole.ADMIN) // 👑 Solo administradores
+  async deleteWorkoutType(@Param('id') id: string): Promise<{ message: string }> {
+    const workoutTypeId = parseInt(id);
+    const deletedWorkoutType = await this.workoutTypesService.remove(workoutTypeId);
+    return {
+      message: this.i18nService.translate('workoutTypeDeleted', { code: deletedWorkoutType.code }),
+    };
+  }
+
+  /**
+   * 🎯 Obtener un tipo de entrenamiento específico por ID (Status: 200 OK o 404 Not Found)
+   *
+   * @route GET /workout-types/:id
+   * @param {string} id - ID del tipo en la URL
+   * @returns {Promise<WorkoutTypeEntity>} El tipo encontrado (activo o eliminado)
+   * @status 200 - Tipo encontrado
+   * @status 400 - ID inválido (no es un número)
+   * @status 404 - Tipo no encontrado
+   *
+   * @example
+   * GET http://localhost:3000/workout-types/1
+   */
+  @Get(':id') // Este decorador debe ir DESPUÉS de otros @Get más específicos
+  async getWorkoutTypeById(@Param('id') id: string): Promise<WorkoutTypeEntity> {
+    const workoutTypeId = parseInt(id);
+    return await this.workoutTypesService.findOne(workoutTypeId);
+  }
+}
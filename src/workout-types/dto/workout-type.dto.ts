@@ -0,0 +1,67 @@
+import { IsString, IsNotEmpty, IsOptional, IsBoolean, IsNumber, Min, Max, MaxLength, Matches, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * 🌐 DTO de los nombres de un tipo de entrenamiento en cada idioma
+ */
+export class WorkoutTypeLabelsDto {
+  @IsString({ message: 'El nombre en español debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El nombre en español es obligatorio' })
+  @MaxLength(50, { message: 'El nombre en español debe tener como máximo 50 caracteres' })
+  es: string; // 🇪🇸 Nombre en español (obligatorio)
+
+  @IsString({ message: 'El nombre en inglés debe ser una cadena de texto' })
+  @IsNotEmpty({ message: 'El nombre en inglés es obligatorio' })
+  @MaxLength(50, { message: 'El nombre en inglés debe tener como máximo 50 caracteres' })
+  en: string; // 🇬🇧 Nombre en inglés (obligatorio)
+}
+
+/**
+ * 📝 DTO para crear un nuevo tipo de entrenamiento con validaciones automáticas
+ */
+export class CreateWorkoutTypeDto {
+  @IsString({ message: 'El código debe ser una cadena de texto' })
+  @Matches(/^[a-z][a-z0-9_]*$/, { message: 'El código solo puede tener minúsculas, números y guiones bajos, y debe empezar por una letra' })
+  @MaxLength(30, { message: 'El código debe tener como máximo 30 caracteres' })
+  code: string; // 🏷️ Código estable (obligatorio, ej: 'hiit')
+
+  @ValidateNested()
+  @Type(() => WorkoutTypeLabelsDto)
+  labels: WorkoutTypeLabelsDto; // 🌐 Nombre en cada idioma (obligatorio)
+
+  @IsOptional()
+  @IsString({ message: 'El icono debe ser una cadena de texto' })
+  @MaxLength(16, { message: 'El icono debe tener como máximo 16 caracteres' })
+  icon?: string; // 🎨 Icono (opcional, emoji)
+
+  @IsNumber({}, { message: 'El MET por defecto debe ser un número' })
+  @Min(1, { message: 'El MET por defecto debe ser al menos 1' })
+  @Max(25, { message: 'El MET por defecto no puede ser mayor a 25' })
+  defaultMet: number; // 🔥 Equivalente metabólico por defecto (obligatorio, 1-25)
+}
+
+/**
+ * ✏️ DTO para actualizar un tipo de entrenamiento existente con validaciones
+ * El código no se puede cambiar: los clientes lo usan como identificador estable
+ */
+export class UpdateWorkoutTypeDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WorkoutTypeLabelsDto)
+  labels?: WorkoutTypeLabelsDto; // 🌐 Nombre en cada idioma (opcional)
+
+  @IsOptional()
+  @IsString({ message: 'El icono debe ser una cadena de texto' })
+  @MaxLength(16, { message: 'El icono debe tener como máximo 16 caracteres' })
+  icon?: string; // 🎨 Icono (opcional)
+
+  @IsOptional()
+  @IsNumber({}, { message: 'El MET por defecto debe ser un número' })
+  @Min(1, { message: 'El MET por defecto debe ser al menos 1' })
+  @Max(25, { message: 'El MET por defecto no puede ser mayor a 25' })
+  defaultMet?: number; // 🔥 Equivalente metabólico por defecto (opcional)
+
+  @IsOptional()
+  @IsBoolean({ message: 'isActive debe ser true o false' })
+  isActive?: boolean; // ✅ Estado activo (opcional, permite reactivar un tipo eliminado)
+}
@@ -0,0 +1,86 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { DEFAULT_LOCALE, Locale } from '../../i18n/interfaces/i18n.interface';
+import type { WorkoutTypeLabels } from '../interfaces/workout-type.interface';
+
+/**
+ * 🎯 Entity de Tipo de Entrenamiento - Compatible con TypeORM
+ * Representa un tipo del catálogo (Fuerza, Cardio...) que se asigna a los días de entrenamiento
+ * Esta clase define cómo se almacenan los datos en cualquier BD (SQLite, PostgreSQL, MySQL)
+ */
+@Entity('workout_types') // 📋 Nombre de la tabla en la BD
+export class WorkoutTypeEntity {
+  /**
+   * 🆔 Identificador único del tipo de entrenamiento
+   * Clave primaria, auto-incremental
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * 🏷️ Código estable del tipo
+   * Único y no modificable: es el valor que envían los clientes en workoutType
+   * Ejemplos: "strength", "cardio", "flexibility"
+   */
+  @Column({ type: 'varchar', length: 30, unique: true })
+  code: string;
+
+  /**
+   * 🌐 Nombre del tipo en cada idioma
+   * Ejemplo: { "es": "Fuerza", "en": "Strength" }
+   */
+  @Column({ type: 'simple-json' })
+  labels: WorkoutTypeLabels;
+
+  /**
+   * 🎨 Icono del tipo (emoji, opcional)
+   */
+  @Column({ type: 'varchar', length: 16, nullable: true })
+  icon?: string | null;
+
+  /**
+   * 🔥 Equivalente metabólico (MET) por defecto
+   * Gasto energético de la actividad respecto al reposo (1 MET)
+   */
+  @Column({ type: 'float' })
+  defaultMet: number;
+
+  /**
+   * ✅ Estado activo del tipo
+   * true = se puede asignar, false = eliminado (los días que ya lo usan lo conservan)
+   */
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  /**
+   * 📅 Fecha de creación del registro
+   */
+  @CreateDateColumn()
+  createdAt: Date;
+
+  /**
+   * 🔄 Fecha de última actualización
+   */
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  /**
+   * 🏗️ Constructor de la entity
+   * Permite crear una instancia con valores iniciales
+   */
+  constructor(partial: Partial<WorkoutTypeEntity> = {}) {
+    Object.assign(this, partial);
+
+    // Valores por defecto si no se proporcionan
+    this.isActive = this.isActive ?? true;
+    this.createdAt = this.createdAt ?? new Date();
+    this.updatedAt = this.updatedAt ?? new Date();
+  }
+
+  /**
+   * 🌐 Método para obtener el nombre del tipo en un idioma
+   * Si no tiene nombre en ese idioma usa el español y, si no, el código
+   */
+  getLabel(locale: Locale = DEFAULT_LOCALE): string {
+    return this.labels?.[locale] || this.labels?.[DEFAULT_LOCALE] || this.code;
+  }
+}
@@ -0,0 +1,55 @@
+import type { Locale } from '../../i18n/interfaces/i18n.interface';
+
+/**
+ * 🌐 Nombres de un tipo de entrenamiento en cada idioma de la API
+ */
+export type WorkoutTypeLabels = Record<Locale, string>;
+
+/**
+ * 🎯 Interface de un tipo de entrenamiento base del catálogo
+ * Se crean con la migración y, si faltan, al arrancar la aplicación o al sembrar la BD
+ */
+export interface DefaultWorkoutType {
+  code: string; // 🏷️ Código estable (el que se envía en workoutType)
+  labels: WorkoutTypeLabels; // 🌐 Nombre en cada idioma
+  icon: string; // 🎨 Icono (emoji)
+  defaultMet: number; // 🔥 Equivalente metabólico (MET) por defecto
+}
+
+/**
+ * 🏋️ Código del tipo de entrenamiento por defecto de los días de entrenamiento
+ */
+export const DEFAULT_WORKOUT_TYPE_CODE = 'strength';
+
+/**
+ * 📋 Tipos de entrenamiento base (los que antes eran valores fijos)
+ * Los MET son valores medios del Compendium of Physical Activities
+ */
+export const DEFAULT_WORKOUT_TYPES: DefaultWorkoutType[] = [
+  { code: 'strength', labels: { es: 'Fuerza', en: 'Strength' }, icon: '🏋️', defaultMet: 5 },
+  { code: 'cardio', labels: { es: 'Cardio', en: 'Cardio' }, icon: '🏃', defaultMet: 7 },
+  { code: 'flexibility', labels: { es: 'Flexibilidad', en: 'Flexibility' }, icon: '🧘', defaultMet: 2.5 },
+  { code: 'functional', labels: { es: 'Funcional', en: 'Functional' }, icon: '🤸', defaultMet: 6 },
+  { code: 'mixed', labels: { es: 'Mixto', en: 'Mixed' }, icon: '🔀', defaultMet: 5.5 },
+];
+
+/**
+ * 🔥 Multiplicador del MET del tipo según el nivel de intensidad (índice 1=Bajo ... 5=Extremo)
+ * El nivel 3 (Alto) usa el MET por defecto del tipo tal cual
+ */
+export const INTENSITY_MET_FACTORS = [0, 0.6, 0.8, 1, 1.2, 1.4];
+
+/**
+ * ⚖️ Peso de referencia (kg) para estimar calorías si el usuario no tiene peso registrado
+ */
+export const REFERENCE_BODY_WEIGHT_KG = 70;
+
+/**
+ * 🧮 Datos para estimar las calorías de un entrenamiento
+ */
+export interface CalorieEstimateInput {
+  workoutType: { defaultMet: number }; // 🎯 Tipo de entrenamiento (su MET por defecto)
+  intensityLevel: number; // 🔥 Intensidad (1-5)
+  durationMinutes: number; // ⏱️ Duración en minutos
+  weightKg?: number | null; // ⚖️ Peso del usuario (opcional, default: peso de referencia)
+}
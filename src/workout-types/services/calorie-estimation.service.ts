@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { INTENSITY_MET_FACTORS, REFERENCE_BODY_WEIGHT_KG } from '../interfaces/workout-type.interface';
+import type { CalorieEstimateInput } from '../interfaces/workout-type.interface';
+import type { WorkoutDayEntity } from '../../workout-days/entities/workout-day.entity';
+import type { WorkoutSessionEntity } from '../../workout-sessions/entities/workout-session.entity';
+
+/**
+ * 🔥 Servicio de estimación de calorías de los entrenamientos
+ *
+ * Estima las kcal con la fórmula de equivalentes metabólicos:
+ * kcal = MET × peso (kg) × duración (horas). El MET sale del tipo de
+ * entrenamiento del catálogo, ajustado por el nivel de intensidad (1-5).
+ * Si el usuario no tiene peso registrado se usa un peso de referencia.
+ *
+ * Las sesiones usan la duración real y, si se indicó, el esfuerzo
+ * percibido (RPE 1-10) como intensidad. Las calorías reales de una
+ * sesión (por ejemplo, de un wearable) se guardan en caloriesBurned y
+ * tienen prioridad sobre la estimación.
+ *
+ * @class CalorieEstimationService
+ * @description Calcula las calorías estimadas de días de entrenamiento y sesiones
+ */
+@Injectable()
+export class CalorieEstimationService {
+  /**
+   * 🧮 Estimar las calorías de un entrenamiento
+   *
+   * @param {CalorieEstimateInput} input - Tipo, intensidad, duración y peso del usuario
+   * @returns {number} kcal estimadas (redondeadas)
+   *
+   * @example
+   * calorieEstimationService.estimate({ workoutType: { defaultMet: 7 }, intensityLevel: 4, durationMinutes: 45, weightKg: 80 }); // 504
+   */
+  estimate(input: CalorieEstimateInput): number {
+    const met = this.getMet(input.workoutType.defaultMet, input.intensityLevel);
+    const weightKg = input.weightKg || REFERENCE_BODY_WEIGHT_KG;
+    return Math.round((met * weightKg * input.durationMinutes) / 60);
+  }
+
+  /**
+   * 🏋️ Estimar las calorías previstas de un día de entrenamiento
+   *
+   * @param {WorkoutDayEntity} workoutDay - Día con su tipo de entrenamiento cargado
+   * @param {number | null} [weightKg] - Peso del usuario (opcional)
+   * @returns {number} kcal estimadas con la duración y la intensidad previstas
+   */
+  estimateWorkoutDay(workoutDay: WorkoutDayEntity, weightKg?: number | null): number {
+    return this.estimate({ workoutType: workoutDay.workoutType, intensityLevel: workoutDay.intensityLevel, durationMinutes: workoutDay.durationMinutes, weightKg });
+  }
+
+  /**
+   * ⏱️ Estimar las calorías de una sesión realizada
+   * La intensidad sale del esfuerzo percibido (RPE 9-10 = Extremo) o, si no hay, de la del día
+   *
+   * @param {WorkoutSessionEntity} session - Sesión con su día de entrenamiento (y tipo) cargado
+   * @param {number | null} [weightKg] - Peso del usuario (opcional)
+   * @returns {number | undefined} kcal estimadas, o undefined si la sesión sigue en curso
+   */
+  estimateSession(session: WorkoutSessionEntity, weightKg?: number | null): number | undefined {
+    const durationMinutes = session.getDurationMinutes();
+    if (durationMinutes === undefined || !session.workoutDay) {
+      return undefined;
+    }
+
+    const intensityLevel = session.perceivedExertion ? Math.ceil(session.perceivedExertion / 2) : session.workoutDay.intensityLevel;
+    return this.estimate({ workoutType: session.workoutDay.workoutType, intensityLevel, durationMinutes, weightKg });
+  }
+
+  /**
+   * 🔥 Método privado para obtener el MET ajustado a la intensidad
+   * @private
+   */
+  private getMet(defaultMet: number, intensityLevel: number): number {
+    const level = Math.min(5, Math.max(1, Math.round(intensityLevel)));
+    return defaultMet * INTENSITY_MET_FACTORS[level];
+  }
+}
@@ -0,0 +1,215 @@
+import { Injectable, NotFoundException, ConflictException, BadRequestException, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { WorkoutTypeEntity } from '../entities/workout-type.entity';
+import { CreateWorkoutTypeDto, UpdateWorkoutTypeDto } from '../dto/workout-type.dto';
+import { DEFAULT_WORKOUT_TYPES } from '../interfaces/workout-type.interface';
+import { ErrorCode } from '../../common/interfaces/error.interface';
+
+/**
+ * 🎯 Servicio de tipos de entrenamiento - Lógica de negocio con Base de Datos
+ *
+ * Este servicio maneja el catálogo de tipos de entrenamiento (Fuerza,
+ * Cardio...) que se asignan a los días de entrenamiento. Cada tipo tiene
+ * un código estable, su nombre en cada idioma, un icono y un MET por defecto.
+ *
+ * Al arrancar la aplicación crea los tipos base que falten, así el catálogo
+ * nunca está vacío (por ejemplo, con DB_SYNCHRONIZE=true no se ejecuta la
+ * migración que los inserta).
+ *
+ * @class WorkoutTypesService
+ * @description Gestiona el catálogo de tipos de entrenamiento
+ */
+@Injectable()
+export class WorkoutTypesService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(WorkoutTypesService.name);
+
+  /**
+   * Constructor del servicio
+   * @param workoutTypeRepository - Repositorio para WorkoutTypeEntity
+   */
+  constructor(
+    @InjectRepository(WorkoutTypeEntity)
+    private readonly workoutTypeRepository: Repository<WorkoutTypeEntity>,
+  ) {}
+
+  /**
+   * 🌱 Crear los tipos base que falten al arrancar la aplicación
+   * Los tipos se identifican por código: los existentes (aunque estén eliminados) no se tocan
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const existing = await this.workoutTypeRepository.find({ select: { code: true }, where: { code: In(DEFAULT_WORKOUT_TYPES.map((type) => type.code)) } });
+    const existingCodes = new Set(existing.map((type) => type.code));
+    const missing = DEFAULT_WORKOUT_TYPES.filter((type) => !existingCodes.has(type.code));
+
+    if (missing.length > 0) {
+      await this.workoutTypeRepository.save(missing.map((type) => this.workoutTypeRepository.create({ ...type, isActive: true })));
+      this.logger.log(`🌱 Tipos de entrenamiento base creados: ${missing.map((type) => type.code).join(', ')}`);
+    }
+  }
+
+  /**
+   * 📋 Obtener todos los tipos de entrenamiento activos desde la BD
+   *
+   * @returns {Promise<WorkoutTypeEntity[]>} Tipos activos ordenados por ID (los base primero)
+   * @example
+   * const tipos = await workoutTypesService.findAll();
+   */
+  async findAll(): Promise<WorkoutTypeEntity[]> {
+    this.logger.log('📋 Obteniendo tipos de entrenamiento activos desde la base de datos...');
+
+    return await this.workoutTypeRepository.find({
+      where: { isActive: true },
+      order: { id: 'ASC' },
+    });
+  }
+
+  /**
+   * 🎯 Obtener un tipo de entrenamiento por ID desde la BD
+   *
+   * @param {number} id - ID único del tipo
+   * @returns {Promise<WorkoutTypeEntity>} El tipo encontrado (activo o no)
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si el tipo no existe
+   */
+  async findOne(id: number): Promise<WorkoutTypeEntity> {
+    this.logger.log(`🔍 Buscando tipo de entrenamiento con ID: ${id} en la BD`);
+
+    // Validar que el ID sea un número válido
+    if (isNaN(id)) {
+      throw new BadRequestException({ code: ErrorCode.INVALID_ID, message: 'ID debe ser un número válido' });
+    }
+
+    const workoutType = await this.workoutTypeRepository.findOne({
+      where: { id },
+    });
+
+    if (!workoutType) {
+      throw new NotFoundException({ code: ErrorCode.WORKOUT_TYPE_NOT_FOUND, message: `Tipo de entrenamiento con ID ${id} no encontrado`, params: { id } });
+    }
+
+    return workoutType;
+  }
+
+  /**
+   * 🏷️ Obtener un tipo de entrenamiento activo por su código
+   * Valida el workoutType que se envía al crear o editar un día de entrenamiento
+   *
+   * @param {string} code - Código del tipo (ej: 'cardio')
+   * @param {EntityManager} manager - Manager con el que consultar (default: el del repositorio)
+   * @returns {Promise<WorkoutTypeEntity>} El tipo activo con ese código
+   * @throws {BadRequestException} Si no hay un tipo activo con ese código (indica los válidos)
+   *
+   * @example
+   * const cardio = await workoutTypesService.findActiveByCode('cardio');
+   */
+  async findActiveByCode(code: string, manager: EntityManager = this.workoutTypeRepository.manager): Promise<WorkoutTypeEntity> {
+    const workoutType = await manager.findOne(WorkoutTypeEntity, {
+      where: { code, isActive: true },
+    });
+
+    if (!workoutType) {
+      const codes = (await this.findAll()).map((type) => type.code).join(', ');
+      throw new BadRequestException({ code: ErrorCode.WORKOUT_TYPE_INVALID, message: `El tipo de entrenamiento "${code}" no existe o no está activo. Tipos válidos: ${codes}`, params: { code, codes } });
+    }
+
+    return workoutType;
+  }
+
+  /**
+   * ➕ Crear un nuevo tipo de entrenamiento en la BD
+   *
+   * @param {CreateWorkoutTypeDto} createWorkoutTypeDto - Datos del tipo
+   * @returns {Promise<WorkoutTypeEntity>} El tipo recién creado
+   * @throws {ConflictException} Si ya existe un tipo con ese código (aunque esté eliminado)
+   *
+   * @example
+   * const hiit = await workoutTypesService.create({
+   *   code: 'hiit',
+   *   labels: { es: 'HIIT', en: 'HIIT' },
+   *   icon: '⚡',
+   *   defaultMet: 8
+   * });
+   */
+  async create(createWorkoutTypeDto: CreateWorkoutTypeDto): Promise<WorkoutTypeEntity> {
+    this.logger.log('➕ Creando nuevo tipo de entrenamiento en la BD', createWorkoutTypeDto);
+
+    const existingType = await this.workoutTypeRepository.findOne({
+      where: { code: createWorkoutTypeDto.code },
+    });
+
+    if (existingType) {
+      throw new ConflictException({ code: ErrorCode.WORKOUT_TYPE_CODE_TAKEN, message: `Ya existe un tipo de entrenamiento con el código "${createWorkoutTypeDto.code}"`, params: { code: createWorkoutTypeDto.code } });
+    }
+
+    const workoutType = this.workoutTypeRepository.create({
+      code: createWorkoutTypeDto.code,
+      labels: { es: createWorkoutTypeDto.labels.es.trim(), en: createWorkoutTypeDto.labels.en.trim() },
+      icon: createWorkoutTypeDto.icon?.trim() || null,
+      defaultMet: createWorkoutTypeDto.defaultMet,
+      isActive: true,
+    });
+
+    const savedWorkoutType = await this.workoutTypeRepository.save(workoutType);
+    this.logger.log(`✅ Tipo de entrenamiento creado exitosamente en la BD con ID: ${savedWorkoutType.id}`);
+
+    return savedWorkoutType;
+  }
+
+  /**
+   * ✏️ Actualizar un tipo de entrenamiento existente en la BD
+   *
+   * Los cambios se ven en todos los días de entrenamiento de ese tipo.
+   *
+   * @param {number} id - ID del tipo a actualizar
+   * @param {UpdateWorkoutTypeDto} updateWorkoutTypeDto - Campos a actualizar
+   * @returns {Promise<WorkoutTypeEntity>} El tipo actualizado
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si el tipo no existe
+   */
+  async update(id: number, updateWorkoutTypeDto: UpdateWorkoutTypeDto): Promise<WorkoutTypeEntity> {
+    this.logger.log(`✏️ Actualizando tipo de entrenamiento ID ${id} en la BD`, updateWorkoutTypeDto);
+
+    const workoutType = await this.findOne(id);
+
+    // Actualizar solo los campos proporcionados
+    if (updateWorkoutTypeDto.labels !== undefined) workoutType.labels = { es: updateWorkoutTypeDto.labels.es.trim(), en: updateWorkoutTypeDto.labels.en.trim() };
+    if (updateWorkoutTypeDto.icon !== undefined) workoutType.icon = updateWorkoutTypeDto.icon?.trim() || null;
+    if (updateWorkoutTypeDto.defaultMet !== undefined) workoutType.defaultMet = updateWorkoutTypeDto.defaultMet;
+    if (updateWorkoutTypeDto.isActive !== undefined) workoutType.isActive = updateWorkoutTypeDto.isActive;
+
+    const updatedWorkoutType = await this.workoutTypeRepository.save(workoutType);
+    this.logger.log(`✅ Tipo de entrenamiento ID ${id} actualizado exitosamente en la BD`);
+
+    return updatedWorkoutType;
+  }
+
+  /**
+   * 🗑️ Eliminar un tipo de entrenamiento (eliminación lógica) en la BD
+   *
+   * Ya no se puede asignar a días nuevos, pero los días que lo usan
+   * lo conservan.
+   *
+   * @param {number} id - ID del tipo a eliminar
+   * @returns {Promise<WorkoutTypeEntity>} El tipo marcado como eliminado
+   * @throws {BadRequestException} Si el ID no es válido
+   * @throws {NotFoundException} Si el tipo no existe
+   * @throws {ConflictException} Si el tipo ya estaba eliminado
+   */
+  async remove(id: number): Promise<WorkoutTypeEntity> {
+    this.logger.log(`🗑️ Eliminando tipo de entrenamiento ID ${id} en la BD`);
+
+    const workoutType = await this.findOne(id);
+
+    if (!workoutType.isActive) {
+      throw new ConflictException({ code: ErrorCode.WORKOUT_TYPE_ALREADY_DELETED, message: `Tipo de entrenamiento con ID ${id} ya estaba eliminado`, params: { id } });
+    }
+
+    // Eliminación lógica: cambiar isActive a false
+    workoutType.isActive = false;
+    const deletedWorkoutType = await this.workoutTypeRepository.save(workoutType);
+
+    this.logger.log(`✅ Tipo de entrenamiento ID ${id} eliminado exitosamente en la BD`);
+    return deletedWorkoutType;
+  }
+}
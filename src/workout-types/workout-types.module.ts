@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WorkoutTypesController } from './controllers/workout-types.controller';
+import { WorkoutTypesService } from './services/workout-types.service';
+import { CalorieEstimationService } from './services/calorie-estimation.service';
+import { WorkoutTypeEntity } from './entities/workout-type.entity';
+
+/**
+ * 📦 Módulo de tipos de entrenamiento
+ * Agrupa toda la funcionalidad del catálogo de tipos de entrenamiento:
+ * - Controlador (consulta para todos, gestión solo para administradores)
+ * - Servicio (lógica de negocio con Repository pattern)
+ * - Entity con código, nombres por idioma, icono y MET por defecto
+ * - Estimación de calorías de los entrenamientos a partir del MET de cada tipo
+ * Los días de entrenamiento referencian un tipo de este catálogo
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WorkoutTypeEntity]), // 🗄️ Registrar el repositorio de WorkoutTypeEntity
+  ],
+  controllers: [WorkoutTypesController],
+  providers: [WorkoutTypesService, CalorieEstimationService],
+  exports: [WorkoutTypesService, CalorieEstimationService], // Exporta los servicios para ser usados en otros módulos
+})
+export class WorkoutTypesModule {}
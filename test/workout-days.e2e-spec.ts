@@ -0,0 +1,165 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { AppModule } from '../src/app.module';
+import { createValidationExceptionFactory } from '../src/common/filters/validation-exception.factory';
+import { ErrorCode } from '../src/common/interfaces/error.interface';
+import { Paginated } from '../src/common/interfaces/pagination.interface';
+import { CoachingRelationshipEntity } from '../src/coaching/entities/coaching-relationship.entity';
+import { CoachingStatus, CoachingType } from '../src/coaching/interfaces/coaching-relationship.interface';
+import { buildUserFixture } from '../src/database/seeds/fixtures/user.fixture';
+import { buildWorkoutWeekFixture } from '../src/database/seeds/fixtures/workout-day.fixture';
+import { I18nService } from '../src/i18n/services/i18n.service';
+import { UserEntity } from '../src/users/entities/user.entity';
+import { UserRole, UserStatus } from '../src/users/interfaces/user.interface';
+import { WorkoutDayEntity } from '../src/workout-days/entities/workout-day.entity';
+import { WorkoutDayGroup } from '../src/workout-days/interfaces/workout-day.interface';
+import { WorkoutTypeEntity } from '../src/workout-types/entities/workout-type.entity';
+
+/**
+ * 🏋️ Rutina semanal (e2e)
+ *
+ * Arranca la aplicación completa sobre SQLite en memoria con las migraciones
+ * y crea los datos con los builders de los seeds: un usuario activo y una
+ * semana con un día de dos entrenamientos (cardio a las 07:00 + sesión de tarde),
+ * y un entrenador cuya relación con el usuario cambia de estado en los tests.
+ */
+describe('Rutina semanal (e2e)', () => {
+  let app: INestApplication<App>;
+  let userId: number;
+  let accessToken: string;
+  let trainerToken: string;
+  let dataSource: DataSource;
+  let relationship: CoachingRelationshipEntity;
+  let fixture: WorkoutDayEntity[];
+
+  beforeAll(async () => {
+    Object.assign(process.env, { DB_TYPE: 'sqlite', DB_DATABASE: ':memory:', DB_SYNCHRONIZE: 'false', DB_MIGRATIONS_RUN: 'true', DB_LOGGING: 'false' });
+
+    const moduleRef = await Test.createTestingModule({ imports: [AppModule] }).compile();
+    app = moduleRef.createNestApplication({ logger: false });
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true, exceptionFactory: createValidationExceptionFactory(app.get(I18nService)) }));
+    await app.init();
+
+    dataSource = app.get(DataSource);
+    const user = buildUserFixture(1, { role: UserRole.USER, status: UserStatus.ACTIVE });
+    await user.setPassword('secreto123');
+    userId = (await dataSource.getRepository(UserEntity).save(user)).id;
+
+    const workoutTypes = await dataSource.getRepository(WorkoutTypeEntity).find();
+    const workoutTypeIds = new Map(workoutTypes.map((type) => [type.code, type.id]));
+
+    // 🎲 Primera semilla cuya rutina tiene un día con dos entrenamientos
+    const hasDoubleDay = (workoutDays: WorkoutDayEntity[]) => new Set(workoutDays.map((workoutDay) => workoutDay.dayOfWeek)).size < workoutDays.length;
+    const seed = [...Array(100).keys()].find((candidate) => hasDoubleDay(buildWorkoutWeekFixture(userId, workoutTypeIds, candidate))) as number;
+    fixture = await dataSource.getRepository(WorkoutDayEntity).save(buildWorkoutWeekFixture(userId, workoutTypeIds, seed));
+
+    const login = await request(app.getHttpServer()).post('/auth/login').send({ email: user.email, password: 'secreto123' }).expect(200);
+    accessToken = (login.body as { accessToken: string }).accessToken;
+
+    const trainer = buildUserFixture(2, { role: UserRole.TRAINER, status: UserStatus.ACTIVE });
+    await trainer.setPassword('secreto123');
+    await dataSource.getRepository(UserEntity).save(trainer);
+    relationship = await dataSource.getRepository(CoachingRelationshipEntity).save({ coachId: trainer.id, clientId: userId, invitedById: trainer.id, type: CoachingType.TRAINING, status: CoachingStatus.PENDING });
+
+    const trainerLogin = await request(app.getHttpServer()).post('/auth/login').send({ email: trainer.email, password: 'secreto123' }).expect(200);
+    trainerToken = (trainerLogin.body as { accessToken: string }).accessToken;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('GET /workout-days/user/:userId agrupa la rutina por día y turno', async () => {
+    const response = await request(app.getHttpServer()).get(`/workout-days/user/${userId}`).set('Authorization', `Bearer ${accessToken}`).expect(200);
+    const { items: groups, total } = response.body as Paginated<WorkoutDayGroup>;
+    expect(total).toBe(fixture.length);
+
+    expect(groups.map((group) => group.dayOfWeek)).toEqual([...new Set(fixture.map((workoutDay) => workoutDay.dayOfWeek))].sort((first, second) => first - second));
+    expect(groups.flatMap((group) => group.workouts)).toHaveLength(fixture.length);
+
+    const doubleDay = groups.find((group) => group.workouts.length === 2) as WorkoutDayGroup;
+    expect(doubleDay.workouts.map((workout) => [workout.slotOrder, workout.startTime])).toEqual([
+      [1, '07:00'],
+      [2, expect.stringMatching(/^(17|18|19|20):(00|30)$/)],
+    ]);
+  });
+
+  it('POST /workout-days coloca un entrenamiento más temprano en el primer turno', async () => {
+    const morningDay = fixture.find((workoutDay) => workoutDay.startTime === '07:00') as WorkoutDayEntity;
+
+    const created = await request(app.getHttpServer()).post('/workout-days').set('Authorization', `Bearer ${accessToken}`).send({ name: 'Movilidad al despertar', dayOfWeek: morningDay.dayOfWeek, startTime: '06:00', durationMinutes: 30, workoutType: 'flexibility' }).expect(201);
+    expect((created.body as WorkoutDayEntity).slotOrder).toBe(1);
+
+    const response = await request(app.getHttpServer()).get(`/workout-days/user/${userId}`).set('Authorization', `Bearer ${accessToken}`).expect(200);
+    const day = (response.body as Paginated<WorkoutDayGroup>).items.find((group) => group.dayOfWeek === morningDay.dayOfWeek) as WorkoutDayGroup;
+    expect(day.workouts.map((workout) => workout.slotOrder)).toEqual([1, 2, 3]);
+    expect(day.workouts.map((workout) => workout.startTime?.slice(0, 2))).toEqual(['06', '07', expect.stringMatching(/^(17|18|19|20)$/)]);
+  });
+
+  it('GET /workout-days/user/:userId pagina por entrenamientos y sigue el cursor sin repetir ninguno', async () => {
+    const getPage = async (query: string) => (await request(app.getHttpServer()).get(`/workout-days/user/${userId}?limit=2${query}`).set('Authorization', `Bearer ${accessToken}`).expect(200)).body as Paginated<WorkoutDayGroup>;
+
+    const workoutIds: number[] = [];
+    let page = await getPage('');
+    expect(page).toMatchObject({ total: fixture.length + 1, page: 1, limit: 2 });
+    workoutIds.push(...page.items.flatMap((group) => group.workouts.map((workout) => workout.id)));
+
+    while (page.nextCursor) {
+      page = await getPage(`&cursor=${page.nextCursor}`);
+      workoutIds.push(...page.items.flatMap((group) => group.workouts.map((workout) => workout.id)));
+    }
+
+    expect(workoutIds).toHaveLength(fixture.length + 1);
+    expect(new Set(workoutIds).size).toBe(workoutIds.length);
+  });
+
+  it('GET /users/:id/workout-days.ics exporta un evento semanal por entrenamiento', async () => {
+    const response = await request(app.getHttpServer()).get(`/users/${userId}/workout-days.ics`).set('Authorization', `Bearer ${accessToken}`).expect(200);
+
+    expect(response.headers['content-type']).toContain('text/calendar');
+    expect(response.text.match(/BEGIN:VEVENT/g)).toHaveLength(fixture.length + 1);
+    expect(response.text).toContain('RRULE:FREQ=WEEKLY');
+  });
+
+  describe('acceso del entrenador a la rutina del cliente', () => {
+    const asTrainer = (url: string) => request(app.getHttpServer()).get(url).set('Authorization', `Bearer ${trainerToken}`);
+    const setRelationshipStatus = (status: CoachingStatus) => dataSource.getRepository(CoachingRelationshipEntity).update(relationship.id, { status });
+
+    /**
+     * Comprobar que ninguna lectura de días de entrenamiento deja ver la rutina del cliente
+     */
+    const expectClientWorkoutsHidden = async () => {
+      for (const url of [`/workout-days/user/${userId}`, `/workout-days/${fixture[0].id}`, `/workout-days/search?userId=${userId}`]) {
+        const response = await asTrainer(url).expect(403);
+        expect(response.body).toMatchObject({ code: ErrorCode.ACCESS_DENIED_WORKOUT_DAYS });
+      }
+
+      for (const url of ['/workout-days', '/workout-days/search?q=a']) {
+        expect((await asTrainer(url).expect(200)).body).toMatchObject({ items: [], total: 0 });
+      }
+    };
+
+    it('con la invitación pendiente el entrenador no ve los entrenamientos del cliente', async () => {
+      await expectClientWorkoutsHidden();
+    });
+
+    it('con la relación activa el entrenador ve la rutina, los listados y cada día del cliente', async () => {
+      await setRelationshipStatus(CoachingStatus.ACTIVE);
+
+      await asTrainer(`/workout-days/user/${userId}`).expect(200);
+      await asTrainer(`/workout-days/${fixture[0].id}`).expect(200);
+      const page = (await asTrainer('/workout-days?limit=100').expect(200)).body as Paginated<WorkoutDayEntity>;
+      expect(page.total).toBeGreaterThan(fixture.length);
+      expect(page.items.every((workoutDay) => workoutDay.userId === userId)).toBe(true);
+    });
+
+    it('al finalizar la relación el entrenador pierde el acceso', async () => {
+      await setRelationshipStatus(CoachingStatus.ENDED);
+
+      await expectClientWorkoutsHidden();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { AppModule } from '../src/app.module';
+import { createValidationExceptionFactory } from '../src/common/filters/validation-exception.factory';
+import { ErrorCode } from '../src/common/interfaces/error.interface';
+import { CoachingRelationshipEntity } from '../src/coaching/entities/coaching-relationship.entity';
+import { CoachingStatus, CoachingType } from '../src/coaching/interfaces/coaching-relationship.interface';
+import { buildUserFixture } from '../src/database/seeds/fixtures/user.fixture';
+import { I18nService } from '../src/i18n/services/i18n.service';
+import { TrainingProgramEntity } from '../src/training-programs/entities/training-program.entity';
+import { UserEntity } from '../src/users/entities/user.entity';
+import { UserRole, UserStatus } from '../src/users/interfaces/user.interface';
+import { WorkoutDayEntity } from '../src/workout-days/entities/workout-day.entity';
+import { WorkoutSessionEntity } from '../src/workout-sessions/entities/workout-session.entity';
+
+/**
+ * ⏱️ Sesiones en días de programa (e2e)
+ *
+ * Los días de un programa pertenecen a su autor (el entrenador), pero la
+ * sesión es del cliente inscrito en el programa en la fecha de la sesión.
+ */
+describe('Sesiones en días de programa (e2e)', () => {
+  let app: INestApplication<App>;
+  let client: UserEntity;
+  let tokens: Record<'trainer' | 'client' | 'stranger', string>;
+  let programDay: WorkoutDayEntity;
+
+  // Fechas en el pasado para todas las zonas horarias: inscripción hace 14 días (4 semanas)
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const startDate = daysAgo(14);
+
+  const api = (token: string) => ({
+    get: (url: string) => request(app.getHttpServer()).get(url).set('Authorization', `Bearer ${token}`),
+    post: (url: string, body: object) => request(app.getHttpServer()).post(url).set('Authorization', `Bearer ${token}`).send(body),
+  });
+
+  beforeAll(async () => {
+    Object.assign(process.env, { DB_TYPE: 'sqlite', DB_DATABASE: ':memory:', DB_SYNCHRONIZE: 'false', DB_MIGRATIONS_RUN: 'true', DB_LOGGING: 'false' });
+
+    const moduleRef = await Test.createTestingModule({ imports: [AppModule] }).compile();
+    app = moduleRef.createNestApplication({ logger: false });
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true, exceptionFactory: createValidationExceptionFactory(app.get(I18nService)) }));
+    await app.init();
+
+    const dataSource = app.get(DataSource);
+    const saveUser = async (index: number, role: UserRole) => {
+      const user = buildUserFixture(index, { role, status: UserStatus.ACTIVE });
+      await user.setPassword('secreto123');
+      return dataSource.getRepository(UserEntity).save(user);
+    };
+    const login = async (user: UserEntity) => ((await request(app.getHttpServer()).post('/auth/login').send({ email: user.email, password: 'secreto123' }).expect(200)).body as { accessToken: string }).accessToken;
+
+    const trainer = await saveUser(1, UserRole.TRAINER);
+    client = await saveUser(2, UserRole.USER);
+    const stranger = await saveUser(3, UserRole.USER);
+    await dataSource.getRepository(CoachingRelationshipEntity).save({ coachId: trainer.id, clientId: client.id, invitedById: trainer.id, type: CoachingType.TRAINING, status: CoachingStatus.ACTIVE });
+    tokens = { trainer: await login(trainer), client: await login(client), stranger: await login(stranger) };
+
+    // 📋 El entrenador crea el programa con un día en la semana 2 e inscribe a su cliente
+    const program = (await api(tokens.trainer).post('/training-programs', { name: 'Bloque de fuerza', durationWeeks: 4 }).expect(201)).body as TrainingProgramEntity;
+    const week2 = program.weeks.find((week) => week.weekNumber === 2) as TrainingProgramEntity['weeks'][number];
+    programDay = (await api(tokens.trainer).post('/workout-days', { name: 'Sentadilla pesada', dayOfWeek: 1, durationMinutes: 60, programWeekId: week2.id }).expect(201)).body as WorkoutDayEntity;
+    await api(tokens.trainer).post(`/training-programs/${program.id}/enrollments`, { startDate, userId: client.id }).expect(201);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('el cliente inscrito inicia la sesión de un día del programa y la sesión es suya', async () => {
+    const sessionDate = daysAgo(7);
+    const response = await api(tokens.client).post('/workout-sessions', { workoutDayId: programDay.id, sessionDate }).expect(201);
+    const session = response.body as WorkoutSessionEntity;
+
+    expect(session).toMatchObject({ userId: client.id, workoutDayId: programDay.id, sessionDate });
+    expect(programDay.userId).not.toBe(client.id); // El día sigue siendo del autor del programa
+
+    const history = await api(tokens.trainer).get(`/workout-sessions/user/${client.id}`).expect(200);
+    expect((history.body as WorkoutSessionEntity[]).map((item) => item.id)).toEqual([session.id]);
+  });
+
+  it('rechaza la sesión si el usuario no está inscrito en el programa en esa fecha', async () => {
+    // El autor del programa no sigue su propio programa
+    const trainerResponse = await api(tokens.trainer)
+      .post('/workout-sessions', { workoutDayId: programDay.id, sessionDate: daysAgo(7) })
+      .expect(400);
+    expect(trainerResponse.body).toMatchObject({ code: ErrorCode.WORKOUT_SESSION_NOT_SCHEDULED });
+
+    const strangerResponse = await api(tokens.stranger)
+      .post('/workout-sessions', { workoutDayId: programDay.id, sessionDate: daysAgo(7) })
+      .expect(400);
+    expect(strangerResponse.body).toMatchObject({ code: ErrorCode.WORKOUT_SESSION_NOT_SCHEDULED });
+
+    // Antes de la fecha de inicio de la inscripción
+    const beforeResponse = await api(tokens.client)
+      .post('/workout-sessions', { workoutDayId: programDay.id, sessionDate: daysAgo(20) })
+      .expect(400);
+    expect(beforeResponse.body).toMatchObject({ code: ErrorCode.WORKOUT_SESSION_NOT_SCHEDULED, message: `El día de entrenamiento ${programDay.id} no está en el plan del usuario ${client.id} el ${daysAgo(20)}` });
+  });
+
+  it('un usuario sin relación con el cliente no puede iniciar sesiones en su nombre', async () => {
+    const response = await api(tokens.stranger).post('/workout-sessions', { workoutDayId: programDay.id, userId: client.id }).expect(403);
+    expect(response.body).toMatchObject({ code: ErrorCode.ACCESS_DENIED_WORKOUT_DAYS });
+  });
+});